@@ -11,6 +11,8 @@ import { errorHandler, notFoundHandler } from "./middleware/error";
 import { cleanupExpiredSessions, getSessionCount } from "./services/clickhouse";
 import { initializeRbac, shutdownRbac } from "./rbac";
 import { requestId } from "./middleware/requestId";
+import { requestMetrics } from "./middleware/requestMetrics";
+import { metricsHandler, METRICS_PATH } from "./routes/prometheus";
 import { logger, requestLogger } from "./utils/logger";
 
 // Configuration
@@ -177,6 +179,9 @@ app.use("*", async (c, next) => {
   );
 });
 
+// Request latency per route pattern for the Prometheus exporter
+app.use("*", requestMetrics);
+
 // ============================================
 // Security Middleware (Rate Limiting & Size)
 // ============================================
@@ -263,6 +268,12 @@ app.route("/api", api);
 // SPA route) is unaffected and still falls through to static serving below.
 app.post(SAML_ACS_PATH, samlAcsHandler);
 
+// Prometheus scrape endpoint, top-level like SAML ACS so scrape configs can
+// use the default metrics path. Bearer-token protected; off unless
+// METRICS_BEARER_TOKEN is set. Requests without a bearer token fall through to
+// static serving below, so the SPA's /metrics page still loads.
+app.get(METRICS_PATH, metricsHandler);
+
 // ============================================
 // Static File Serving
 // ============================================
@@ -336,6 +347,14 @@ initializeRbac().then(async () => {
     const { ScheduledQueryScheduler } = await import("./services/scheduledQueries/scheduler");
     ScheduledQueryScheduler.getInstance().start();
   }
+  // Backups — reconciles running BACKUP/RESTORE operations and starts due
+  // backup schedules; idle when nothing is running or scheduled.
+  const { BackupScheduler } = await import("./services/backups/scheduler");
+  BackupScheduler.getInstance().start();
+  // Operational digests — sends the scheduled fleet / jobs / data health
+  // summaries to their channels and opted-in users.
+  const { DigestScheduler } = await import("./services/digests/scheduler");
+  DigestScheduler.getInstance().start();
   // Warm the SSO config so the provider summary (or a config error) is logged
   // at boot rather than lazily on the first login request. Isolated so an SSO
   // misconfiguration can't take down the rest of startup.
@@ -402,6 +421,20 @@ async function gracefulShutdown(signal: string): Promise<void> {
       logger.warn({ phase: "shutdown", err: error instanceof Error ? error.message : String(error) }, "Scheduled-query scheduler stop failed");
     }
 
+    try {
+      const { BackupScheduler } = await import("./services/backups/scheduler");
+      BackupScheduler.getInstance().stop();
+    } catch (error) {
+      logger.warn({ phase: "shutdown", err: error instanceof Error ? error.message : String(error) }, "Backup scheduler stop failed");
+    }
+
+    try {
+      const { DigestScheduler } = await import("./services/digests/scheduler");
+      DigestScheduler.getInstance().stop();
+    } catch (error) {
+      logger.warn({ phase: "shutdown", err: error instanceof Error ? error.message : String(error) }, "Digest scheduler stop failed");
+    }
+
     const { getSessionCount, cleanupExpiredSessions } = await import('./services/clickhouse');
     const sessionCount = getSessionCount();
     if (sessionCount > 0) {
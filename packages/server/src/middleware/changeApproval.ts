@@ -0,0 +1,89 @@
+/**
+ * Change Approval
+ *
+ * Gate for DDL and DML on protected connections, shared by the query and
+ * explorer routes. Instead of running such a statement, the route submits it
+ * as a change request (see services/changeRequests) and answers 202 with an
+ * APPROVAL_REQUIRED error carrying the request id; the statement runs once a
+ * second user approves it.
+ */
+
+import type { Context } from 'hono';
+import { AppError, type Session } from '../types';
+import type { ClickHouseService } from '../services/clickhouse';
+import { AUDIT_ACTIONS } from '../rbac/schema/base';
+import { createAuditLogWithContext } from '../rbac/services/rbac';
+import { getClientIp } from '../rbac/middleware/rbacAuth';
+import {
+  getProtectedConnection,
+  requiresChangeApproval,
+  serviceForConnection,
+  submitChangeRequest,
+} from '../services/changeRequests/workflow';
+import { requestLogger } from '../utils/logger';
+
+/** Context variables the query and explorer routes both set. */
+type ApprovalVariables = {
+  service: ClickHouseService;
+  session?: Session;
+  rbacUserId?: string;
+  rbacConnectionId?: string;
+};
+
+/**
+ * Hold `sql` as a change request when it changes schema or data on a
+ * protected connection. Returns the 202 response to send, or null when the
+ * statement may run now. Routes without a ClickHouse session (backups) pass
+ * the `connectionId` the statement runs on.
+ */
+export async function holdForApproval(
+  c: Context,
+  sql: string,
+  queryParams?: Record<string, string>,
+  connectionId?: string
+): Promise<Response | null> {
+  const ctx = c as unknown as Context<{ Variables: ApprovalVariables }>;
+  const rbacUserId = ctx.get('rbacUserId');
+  if (!rbacUserId || !requiresChangeApproval(sql)) return null;
+
+  const session = ctx.get('session');
+  const connection = await getProtectedConnection(connectionId ?? (session?.rbacConnectionId || ctx.get('rbacConnectionId')));
+  if (!connection) return null;
+
+  // The statement runs later, without the request that carried its values
+  if (queryParams && Object.keys(queryParams).length > 0) {
+    throw AppError.badRequest('Query parameters are not supported in statements that need approval');
+  }
+
+  const service = connectionId ? await serviceForConnection(connection.id, rbacUserId) : ctx.get('service');
+  const request = await submitChangeRequest(service, {
+    connectionId: connection.id,
+    requestedBy: rbacUserId,
+    statement: sql,
+    defaultDatabase: session?.connectionConfig?.database,
+  });
+
+  try {
+    await createAuditLogWithContext(c, AUDIT_ACTIONS.CHANGE_REQUEST_CREATE, rbacUserId, {
+      resourceType: 'change_request',
+      resourceId: request.id,
+      details: { connectionId: connection.id, operationType: request.operationType, query: sql.substring(0, 500) },
+      ipAddress: getClientIp(c),
+      status: 'success',
+    });
+  } catch (error) {
+    requestLogger(c.get('requestId')).error(
+      { module: 'ChangeApproval', err: error instanceof Error ? error.message : String(error) },
+      'Failed to create audit log'
+    );
+  }
+
+  return c.json({
+    success: false,
+    error: {
+      code: 'APPROVAL_REQUIRED',
+      message: `${connection.name} is a protected connection: the statement was submitted for approval and runs once another user approves it`,
+      details: { changeRequestId: request.id },
+    },
+  }, 202);
+}
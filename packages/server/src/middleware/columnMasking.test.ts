@@ -0,0 +1,108 @@
+import { describe, it, expect } from "bun:test";
+import {
+    applyColumnMasks,
+    checkColumnReferences,
+    createStreamMasker,
+    findColumnMask,
+    maskValue,
+    type ColumnMask
+} from "./columnMasking";
+import { parseStatement } from "./sqlParser";
+
+function mask(partial: Partial<ColumnMask>): ColumnMask {
+    return {
+        database: "crm",
+        table: "users",
+        columnPattern: "email",
+        action: "hash",
+        priority: 0,
+        policyName: "PII",
+        ...partial,
+    };
+}
+
+describe("Column Masking", () => {
+    describe("findColumnMask", () => {
+        it("matches qualified names on their last segment", () => {
+            expect(findColumnMask("u.email", [mask({})])?.action).toBe("hash");
+            expect(findColumnMask("name", [mask({})])).toBeNull();
+        });
+
+        it("prefers higher priority, then the stricter action", () => {
+            const masks = [
+                mask({ columnPattern: "*mail", action: "partial", priority: 5 }),
+                mask({ columnPattern: "email", action: "null", priority: 5 }),
+                mask({ columnPattern: "email", action: "deny", priority: 1 }),
+            ];
+            expect(findColumnMask("email", masks)?.action).toBe("null");
+        });
+    });
+
+    describe("checkColumnReferences", () => {
+        const check = (sql: string, masks: ColumnMask[]) => checkColumnReferences(parseStatement(sql), masks);
+
+        it("allows selecting masked columns as-is and through *", () => {
+            expect(check("SELECT id, email FROM crm.users", [mask({})])).toBeNull();
+            expect(check("SELECT * FROM crm.users LIMIT 10", [mask({})])).toBeNull();
+            expect(check("SELECT email FROM (SELECT * FROM crm.users) t", [mask({})])).toBeNull();
+        });
+
+        it("rejects masked columns used outside a plain projection", () => {
+            expect(check("SELECT id FROM crm.users WHERE email = 'a@b.c'", [mask({})])).toContain("can only be selected as-is");
+            expect(check("SELECT lower(email) FROM crm.users", [mask({})])).toContain("masked (hash)");
+            expect(check("SELECT email AS e FROM crm.users", [mask({})])).toContain("masked (hash)");
+            expect(check("SELECT tuple(*) FROM crm.users", [mask({})])).toContain("'*'");
+        });
+
+        it("rejects any reference to a denied column", () => {
+            const reason = check("SELECT email FROM crm.users", [mask({ action: "deny" })]);
+            expect(reason).toContain("denied by policy 'PII'");
+            expect(check("SELECT * FROM crm.users", [mask({ action: "deny" })])).toBeNull();
+        });
+
+        it("fails closed when the statement cannot be parsed", () => {
+            expect(check("SELECT email FROM crm.users FINAL SETTINGS max_threads = 1", [mask({})])).toContain("could not be analysed");
+        });
+    });
+
+    describe("maskValue", () => {
+        it("hashes, partially masks and nulls out values", () => {
+            expect(maskValue("a@b.c", "hash")).toHaveLength(64);
+            expect(maskValue("4111111111111111", "partial")).toBe("************1111");
+            expect(maskValue("abc", "partial")).toBe("***");
+            expect(maskValue(42, "null")).toBeNull();
+            expect(maskValue(null, "hash")).toBeNull();
+        });
+    });
+
+    describe("applyColumnMasks", () => {
+        it("rewrites masked columns and drops denied ones", () => {
+            const result = applyColumnMasks({
+                meta: [{ name: "id", type: "UInt64" }, { name: "email", type: "String" }, { name: "ssn", type: "String" }, { name: "age", type: "UInt8" }],
+                data: [{ id: 1, email: "a@b.c", ssn: "123-45-6789", age: 30 }],
+            }, [
+                mask({ columnPattern: "email", action: "partial" }),
+                mask({ columnPattern: "ssn", action: "deny" }),
+                mask({ columnPattern: "age", action: "null" }),
+            ]);
+
+            expect(result.meta).toEqual([
+                { name: "id", type: "UInt64" },
+                { name: "email", type: "String" },
+                { name: "age", type: "Nullable(UInt8)" },
+            ]);
+            expect(result.data).toEqual([{ id: 1, email: "*@b.c", age: null }]);
+        });
+    });
+
+    describe("createStreamMasker", () => {
+        it("masks the meta line and compact rows", () => {
+            const maskLine = createStreamMasker([mask({ action: "null" }), mask({ columnPattern: "ssn", action: "deny" })]);
+            const meta = JSON.parse(maskLine(JSON.stringify({ t: "m", names: ["id", "email", "ssn"], types: ["UInt64", "String", "String"], qid: "q" })));
+            expect(meta.names).toEqual(["id", "email"]);
+            expect(meta.types).toEqual(["UInt64", "Nullable(String)"]);
+            expect(JSON.parse(maskLine(JSON.stringify([1, "a@b.c", "123"])))).toEqual([1, null]);
+            expect(maskLine('{"t":"e","rows":1}')).toBe('{"t":"e","rows":1}');
+        });
+    });
+});
@@ -0,0 +1,302 @@
+/**
+ * Column Masking
+ *
+ * Enforces the column rules of data access policies. Validation rejects
+ * statements that reference a denied column, or use a masked column in any way
+ * other than selecting it as-is (filtering, grouping, aliasing or wrapping it in
+ * a function would expose or launder the raw value). Masks are then applied to
+ * the result by output column name, which also covers `SELECT *`.
+ */
+
+import { createHash } from 'crypto';
+import { matchesPattern, type DataAccessRuleResponse } from '../rbac/services/dataAccess';
+import type { ColumnMaskAction } from '../rbac/services/dataAccessPolicies';
+import type { ParsedStatement } from './sqlParser';
+
+// ============================================
+// Types
+// ============================================
+
+/** A column rule in force for one table referenced by a query. */
+export interface ColumnMask {
+  database: string;
+  table: string;
+  columnPattern: string;
+  action: ColumnMaskAction;
+  priority: number;
+  policyName: string;
+}
+
+interface ResultShape {
+  meta: { name: string; type: string }[];
+  data: unknown[];
+}
+
+// Stricter actions win over looser ones at the same priority.
+const ACTION_STRICTNESS: Record<ColumnMaskAction, number> = {
+  deny: 3,
+  null: 2,
+  hash: 1,
+  partial: 0,
+};
+
+// ============================================
+// Resolution
+// ============================================
+
+/**
+ * Turn the column rules returned for an allowed table into masks, keeping the
+ * table they were resolved for (used in denial messages and the audit log).
+ */
+export function toColumnMasks(
+  database: string,
+  table: string,
+  rules: DataAccessRuleResponse[]
+): ColumnMask[] {
+  return rules
+    .filter((rule) => rule.columnPattern)
+    .map((rule) => ({
+      database,
+      table,
+      columnPattern: rule.columnPattern as string,
+      action: rule.columnAction ?? 'deny',
+      priority: rule.priority,
+      policyName: rule.policyName,
+    }));
+}
+
+/**
+ * The mask governing a column name, or null when none applies. Qualified
+ * result names ("u.email") are matched on their last segment. Across tables
+ * the highest priority wins; at equal priority the strictest action wins.
+ */
+export function findColumnMask(column: string, masks: ColumnMask[]): ColumnMask | null {
+  const name = column.includes('.') ? column.slice(column.lastIndexOf('.') + 1) : column;
+  let best: ColumnMask | null = null;
+  for (const mask of masks) {
+    if (!matchesPattern(name, mask.columnPattern)) continue;
+    if (
+      !best ||
+      mask.priority > best.priority ||
+      (mask.priority === best.priority && ACTION_STRICTNESS[mask.action] > ACTION_STRICTNESS[best.action])
+    ) {
+      best = mask;
+    }
+  }
+  return best;
+}
+
+// ============================================
+// Validation
+// ============================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AstNode = any;
+
+function columnRefName(node: AstNode): string | null {
+  const column = node.column;
+  if (typeof column === 'string') return column;
+  if (column?.expr?.value !== undefined) return String(column.expr.value);
+  return null;
+}
+
+/**
+ * Projections that may carry a masked column unchanged: the select list of the
+ * outer query (and its UNION branches), of CTE bodies and of FROM subqueries.
+ * Select lists of subqueries in WHERE/IN/expressions are excluded, since those
+ * feed a comparison rather than the result.
+ */
+function collectPassThroughColumns(select: AstNode, allowed: Set<AstNode>): void {
+  if (!select || typeof select !== 'object') return;
+
+  for (const item of Array.isArray(select.columns) ? select.columns : []) {
+    const expr = item?.expr;
+    if (expr?.type !== 'column_ref') continue;
+    const name = columnRefName(expr);
+    if (!item.as || item.as === name) allowed.add(expr);
+  }
+
+  for (const cte of Array.isArray(select.with) ? select.with : []) {
+    collectPassThroughColumns(cte?.stmt?.ast, allowed);
+  }
+  for (const from of Array.isArray(select.from) ? select.from : []) {
+    collectPassThroughColumns(from?.ast ?? from?.expr?.ast, allowed);
+  }
+  collectPassThroughColumns(select._next, allowed);
+}
+
+function collectColumnRefs(node: AstNode, refs: AstNode[], seen: Set<AstNode>): void {
+  if (!node || typeof node !== 'object' || seen.has(node)) return;
+  seen.add(node);
+  if (Array.isArray(node)) {
+    node.forEach((child) => collectColumnRefs(child, refs, seen));
+    return;
+  }
+  if (node.type === 'column_ref') refs.push(node);
+  for (const value of Object.values(node)) collectColumnRefs(value, refs, seen);
+}
+
+/**
+ * Check a parsed statement against the column masks of the tables it reads.
+ * Returns a denial reason, or null when the statement may run (with masks
+ * applied to its result).
+ */
+export function checkColumnReferences(parsed: ParsedStatement, masks: ColumnMask[]): string | null {
+  if (masks.length === 0) return null;
+
+  const tables = Array.from(new Set(masks.map((m) => `${m.database}.${m.table}`))).join(', ');
+  if (!parsed.ast || parsed.warnings?.length) {
+    return `Column rules apply to ${tables} but the statement could not be analysed; simplify the query`;
+  }
+
+  const statements: AstNode[] = Array.isArray(parsed.ast) ? parsed.ast : [parsed.ast];
+  const passThrough = new Set<AstNode>();
+  if (parsed.type === 'select') {
+    statements.forEach((stmt) => collectPassThroughColumns(stmt, passThrough));
+  }
+
+  const refs: AstNode[] = [];
+  collectColumnRefs(statements, refs, new Set());
+
+  for (const ref of refs) {
+    const name = columnRefName(ref);
+    if (!name) continue;
+
+    if (name === '*') {
+      if (passThrough.has(ref)) continue;
+      return `Column rules apply to ${tables}; '*' can only be used as a plain select list there`;
+    }
+
+    const mask = findColumnMask(name, masks);
+    if (!mask) continue;
+    if (mask.action === 'deny') {
+      return `Column '${name}' of ${mask.database}.${mask.table} is denied by policy '${mask.policyName}'`;
+    }
+    if (!passThrough.has(ref)) {
+      return `Column '${name}' of ${mask.database}.${mask.table} is masked (${mask.action}) by policy '${mask.policyName}' and can only be selected as-is`;
+    }
+  }
+
+  return null;
+}
+
+// ============================================
+// Applying masks
+// ============================================
+
+/** Mask a single value. Nulls stay null; non-strings are masked as their JSON text. */
+export function maskValue(value: unknown, action: Exclude<ColumnMaskAction, 'deny'>): unknown {
+  if (value === null || value === undefined || action === 'null') return null;
+
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  if (action === 'hash') {
+    return createHash('sha256').update(text).digest('hex');
+  }
+  // partial: keep the last four characters of values long enough to hide the rest
+  return text.length > 4 ? '*'.repeat(text.length - 4) + text.slice(-4) : '*'.repeat(text.length);
+}
+
+function maskedType(type: string, action: Exclude<ColumnMaskAction, 'deny'>): string {
+  if (action === 'null') return type.startsWith('Nullable(') ? type : `Nullable(${type})`;
+  return 'String';
+}
+
+interface ColumnPlan {
+  index: number;
+  action: ColumnMaskAction;
+}
+
+function planColumns(names: string[], masks: ColumnMask[]): ColumnPlan[] {
+  const plan: ColumnPlan[] = [];
+  names.forEach((name, index) => {
+    const mask = findColumnMask(name, masks);
+    if (mask) plan.push({ index, action: mask.action });
+  });
+  return plan;
+}
+
+/**
+ * Apply masks to a JSON query result in place: denied columns are dropped,
+ * other masked columns are rewritten and their meta type adjusted. Results
+ * without meta (some proxies omit it) are planned from the first row's keys.
+ */
+export function applyColumnMasks<T extends ResultShape>(result: T, masks: ColumnMask[]): T {
+  if (masks.length === 0) return result;
+
+  const meta = result.meta ?? [];
+  const firstRow = result.data[0];
+  const names = meta.length > 0
+    ? meta.map((m) => m.name)
+    : firstRow && typeof firstRow === 'object' ? Object.keys(firstRow) : [];
+  const plan = planColumns(names, masks);
+  if (plan.length === 0) return result;
+
+  const dropped = new Set<string>();
+  const rewrites: { name: string; action: Exclude<ColumnMaskAction, 'deny'> }[] = [];
+  for (const { index, action } of plan) {
+    const name = names[index];
+    if (action === 'deny') {
+      dropped.add(name);
+    } else {
+      rewrites.push({ name, action });
+      if (meta[index]) meta[index].type = maskedType(meta[index].type, action);
+    }
+  }
+
+  result.meta = meta.filter((m) => !dropped.has(m.name));
+  for (const row of result.data as Record<string, unknown>[]) {
+    if (!row || typeof row !== 'object') continue;
+    for (const name of dropped) delete row[name];
+    for (const { name, action } of rewrites) {
+      if (name in row) row[name] = maskValue(row[name], action);
+    }
+  }
+  return result;
+}
+
+/**
+ * Line transformer for the NDJSON stream of `/query/execute-stream`: masks the
+ * meta line (names/types) and every compact row array that follows it.
+ */
+export function createStreamMasker(masks: ColumnMask[]): (line: string) => string {
+  let plan: ColumnPlan[] = [];
+  let denied = new Set<number>();
+
+  return (line) => {
+    if (masks.length === 0) return line;
+
+    if (line.startsWith('[')) {
+      if (plan.length === 0) return line;
+      const values = JSON.parse(line) as unknown[];
+      for (const { index, action } of plan) {
+        if (action !== 'deny') values[index] = maskValue(values[index], action);
+      }
+      return JSON.stringify(values.filter((_, index) => !denied.has(index)));
+    }
+
+    const event = JSON.parse(line) as { t?: string; names?: string[]; types?: string[] };
+    if (event.t !== 'm' || !event.names || !event.types) return line;
+
+    plan = planColumns(event.names, masks);
+    denied = new Set(plan.filter((p) => p.action === 'deny').map((p) => p.index));
+    const types = [...event.types];
+    for (const { index, action } of plan) {
+      if (action !== 'deny') types[index] = maskedType(types[index], action);
+    }
+    return JSON.stringify({
+      ...event,
+      names: event.names.filter((_, index) => !denied.has(index)),
+      types: types.filter((_, index) => !denied.has(index)),
+    });
+  };
+}
+
+/** Compact summary of the masks in force, for audit log details. */
+export function describeColumnMasks(masks: ColumnMask[]): { table: string; column: string; action: ColumnMaskAction; policy: string }[] {
+  return masks.map((mask) => ({
+    table: `${mask.database}.${mask.table}`,
+    column: mask.columnPattern,
+    action: mask.action,
+    policy: mask.policyName,
+  }));
+}
@@ -13,7 +13,9 @@ import {
 const mockRbacService = {
     checkUserAccess: mock(),
     filterDatabasesForUser: mock(),
-    filterTablesForUser: mock()
+    filterTablesForUser: mock(),
+    // Column masking matches column patterns through the service; exact/star is enough here
+    matchesPattern: (value: string, pattern: string) => pattern === "*" || value.toLowerCase() === pattern.toLowerCase()
 };
 
 mock.module("../rbac/services/dataAccess", () => mockRbacService);
@@ -296,6 +298,68 @@ describe("Data Access Middleware", () => {
                 expect(result.reason).toContain("Access denied to restricted_db.public_table");
             });
         });
+
+        describe("column rules", () => {
+            const columnRule = (columnAction: string) => ({
+                databasePattern: "crm",
+                tablePattern: "customers",
+                columnPattern: "email",
+                columnAction,
+                isAllowed: true,
+                priority: 0,
+                policyId: "p1",
+                policyName: "PII",
+            });
+
+            it("should return masks for masked columns selected as-is", async () => {
+                mockRbacService.checkUserAccess.mockResolvedValue({ allowed: true, columnRules: [columnRule("hash")] });
+
+                const result = await validateQueryAccess(userId, false, ["table:select"], "SELECT id, email FROM crm.customers");
+
+                expect(result.allowed).toBe(true);
+                expect(result.columnMasks).toEqual([
+                    { database: "crm", table: "customers", columnPattern: "email", action: "hash", priority: 0, policyName: "PII" },
+                ]);
+            });
+
+            it("should deny filtering on a masked column", async () => {
+                mockRbacService.checkUserAccess.mockResolvedValue({ allowed: true, columnRules: [columnRule("partial")] });
+
+                const result = await validateQueryAccess(userId, false, ["table:select"], "SELECT id FROM crm.customers WHERE email LIKE '%@corp.com'");
+
+                expect(result.allowed).toBe(false);
+                expect(result.reason).toContain("Statement 1: Column 'email'");
+            });
+
+            it("should deny selecting a denied column", async () => {
+                mockRbacService.checkUserAccess.mockResolvedValue({ allowed: true, columnRules: [columnRule("deny")] });
+
+                const result = await validateQueryAccess(userId, false, ["table:select"], "SELECT email FROM crm.customers");
+
+                expect(result.allowed).toBe(false);
+                expect(result.reason).toContain("denied by policy 'PII'");
+            });
+        });
+
+        describe("row filters", () => {
+            it("should return the row filters of the tables read", async () => {
+                mockRbacService.checkUserAccess.mockResolvedValue({ allowed: true, rowFilter: "region = 'EU'" });
+
+                const result = await validateQueryAccess(userId, false, ["table:select"], "SELECT count(*) FROM crm.customers");
+
+                expect(result.allowed).toBe(true);
+                expect(result.rowFilters).toEqual([{ database: "crm", table: "customers", filter: "region = 'EU'" }]);
+            });
+
+            it("should deny writes to a filtered table", async () => {
+                mockRbacService.checkUserAccess.mockResolvedValue({ allowed: true, rowFilter: "region = 'EU'" });
+
+                const result = await validateQueryAccess(userId, false, ["table:delete"], "DELETE FROM crm.customers WHERE id = 1");
+
+                expect(result.allowed).toBe(false);
+                expect(result.reason).toContain("only SELECT statements");
+            });
+        });
     });
 
     describe("extractTablesFromQuery", () => {
@@ -6,7 +6,8 @@
  */
 
 import { Context, Next } from 'hono';
-import { verifyAccessToken, extractTokenFromHeader, type TokenPayload } from '../rbac/services/jwt';
+import { extractTokenFromHeader, type TokenPayload } from '../rbac/services/jwt';
+import { isAdminPayload, verifyBearerToken } from '../rbac/middleware/rbacAuth';
 import {
   checkUserAccess,
   filterDatabasesForUser,
@@ -22,6 +23,8 @@ import {
 } from './sqlParser';
 import { PERMISSIONS } from '../rbac/schema/base';
 import { logger } from '../utils/logger';
+import { checkColumnReferences, toColumnMasks, type ColumnMask } from './columnMasking';
+import { checkRowFilterStatement, type RowFilter } from './rowFilters';
 
 // ============================================
 // Context Extension
@@ -136,7 +139,7 @@ function getRequiredStatementPermission(
 
 /**
  * Optional RBAC context middleware
- * Extracts RBAC user info if JWT is present (doesn't fail if missing)
+ * Extracts RBAC user info if a JWT or API key is present (doesn't fail if missing)
  */
 export async function optionalRbacMiddleware(c: Context, next: Next) {
   const authHeader = c.req.header('Authorization');
@@ -144,11 +147,12 @@ export async function optionalRbacMiddleware(c: Context, next: Next) {
 
   if (token) {
     try {
-      const payload = await verifyAccessToken(token);
+      const payload = await verifyBearerToken(token);
+      c.set('rbacUser', payload);
       c.set('rbacUserId', payload.sub);
       c.set('rbacRoles', payload.roles);
       c.set('rbacPermissions', payload.permissions);
-      c.set('isRbacAdmin', payload.roles.includes('super_admin') || payload.roles.includes('admin'));
+      c.set('isRbacAdmin', isAdminPayload(payload));
     } catch {
       // Token invalid, continue without RBAC context
     }
@@ -314,12 +318,26 @@ export function getQueryAccessType(sql: string): AccessType {
   }
 }
 
+export interface QueryAccessResult {
+  allowed: boolean;
+  reason?: string;
+  statementIndex?: number;
+  warnings?: string[];
+  /** Column rules in force for the tables read; apply to the result before returning it */
+  columnMasks?: ColumnMask[];
+  /** Row filters in force for the tables read; send them with the query (see `rowFilterSettings`) */
+  rowFilters?: RowFilter[];
+}
+
 /**
  * Validate a single SQL statement
  * 
  * Checks:
  * 1. User has required permissions for the operation type (read/write/admin)
  * 2. User has data access rules allowing access to all referenced tables
+ * 3. Column rules on those tables: denied columns are not referenced and masked
+ *    columns are only selected as-is
+ * 4. Row filters on those tables: only reads run against them
  * 
  * @param statement - Single SQL statement to validate
  * @param statementIndex - Zero-based index of the statement (for error reporting)
@@ -336,7 +354,7 @@ async function validateSingleStatement(
   permissions: string[],
   defaultDatabase: string | undefined,
   connectionId: string | undefined
-): Promise<{ allowed: boolean; reason?: string; statementIndex?: number; warnings?: string[] }> {
+): Promise<QueryAccessResult> {
   // Parse statement using AST parser for robust analysis
   let parsed: ParsedStatement;
   try {
@@ -415,6 +433,8 @@ async function validateSingleStatement(
 
   // Check each table against data access rules
   // Note: System databases are hidden from UI but queries are still allowed if user has permissions
+  const columnMasks: ColumnMask[] = [];
+  const rowFilters: RowFilter[] = [];
   for (const { database, table } of tables) {
     let db = database || defaultDatabase || 'default';
     let tbl = table || '*';
@@ -512,9 +532,30 @@ async function validateSingleStatement(
         statementIndex,
       };
     }
+
+    if (result.columnRules) {
+      columnMasks.push(...toColumnMasks(db, tbl, result.columnRules));
+    }
+    if (result.rowFilter) {
+      rowFilters.push({ database: db, table: tbl, filter: result.rowFilter });
+    }
   }
 
-  return { allowed: true, warnings: parsed.warnings };
+  const denial = checkColumnReferences(parsed, columnMasks) ?? checkRowFilterStatement(parsed, rowFilters);
+  if (denial) {
+    return {
+      allowed: false,
+      reason: `Statement ${statementIndex + 1}: ${denial}`,
+      statementIndex,
+    };
+  }
+
+  return {
+    allowed: true,
+    warnings: parsed.warnings,
+    ...(columnMasks.length > 0 && { columnMasks }),
+    ...(rowFilters.length > 0 && { rowFilters }),
+  };
 }
 
 /**
@@ -534,6 +575,11 @@ async function validateSingleStatement(
  * 
  * The first statement would pass (read permission), but the second would be
  * rejected (requires admin permission), preventing the entire query.
+ *
+ * When the tables read carry column rules, the returned `columnMasks` must be
+ * applied to the result (see `applyColumnMasks` / `createStreamMasker`). When
+ * they carry row filters, the returned `rowFilters` must be sent with the query
+ * (see `rowFilterSettings`).
  * 
  * @param userId - RBAC user ID (required)
  * @param isAdmin - Whether user is admin (admins bypass all checks)
@@ -550,7 +596,7 @@ export async function validateQueryAccess(
   sql: string,
   defaultDatabase?: string,
   connectionId?: string
-): Promise<{ allowed: boolean; reason?: string; statementIndex?: number; warnings?: string[] }> {
+): Promise<QueryAccessResult> {
   // Admins have full access
   if (isAdmin) return { allowed: true };
 
@@ -575,6 +621,8 @@ export async function validateQueryAccess(
 
   // Validate each statement individually
   const allWarnings: string[] = [];
+  const columnMasks: ColumnMask[] = [];
+  const rowFilters: RowFilter[] = [];
   for (let i = 0; i < statements.length; i++) {
     const statement = statements[i];
     const validation = await validateSingleStatement(
@@ -599,10 +647,21 @@ export async function validateQueryAccess(
     if (validation.warnings) {
       allWarnings.push(...validation.warnings);
     }
+    if (validation.columnMasks) {
+      columnMasks.push(...validation.columnMasks);
+    }
+    if (validation.rowFilters) {
+      rowFilters.push(...validation.rowFilters);
+    }
   }
 
   // All statements passed validation
-  return { allowed: true, warnings: allWarnings.length > 0 ? allWarnings : undefined };
+  return {
+    allowed: true,
+    warnings: allWarnings.length > 0 ? allWarnings : undefined,
+    ...(columnMasks.length > 0 && { columnMasks }),
+    ...(rowFilters.length > 0 && { rowFilters }),
+  };
 }
 
 /**
@@ -0,0 +1,23 @@
+import { describe, it, expect } from "bun:test";
+import { Hono } from "hono";
+import { requestMetrics } from "./requestMetrics";
+import { httpRequestDuration } from "../services/prometheus";
+
+describe("requestMetrics", () => {
+    it("labels API requests by route pattern and skips other paths", async () => {
+        const app = new Hono();
+        const api = new Hono();
+        app.use("*", requestMetrics);
+        api.use("*", async (_c, next) => next());
+        api.get("/widgets/:id", (c) => c.text("ok"));
+        app.route("/api", api);
+        app.use("*", async (c) => c.text("static"));
+
+        await app.request("/api/widgets/42");
+        await app.request("/index.html");
+
+        const out = httpRequestDuration.render();
+        expect(out).toContain('chouse_http_request_duration_seconds_count{method="GET",route="/api/widgets/:id",status="2xx"} 1');
+        expect(out).not.toContain("index.html");
+    });
+});
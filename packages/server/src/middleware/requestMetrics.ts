@@ -0,0 +1,42 @@
+/**
+ * Request Metrics Middleware
+ *
+ * Observes API request latency into the Prometheus registry, labelled by the
+ * matched route pattern (not the raw path) so ids in URLs don't explode the
+ * series count.
+ */
+
+import { Context, Next } from 'hono';
+import { matchedRoutes } from 'hono/route';
+import { httpRequestDuration } from '../services/prometheus';
+
+/**
+ * The route pattern that handled the request. `app.use()` middleware is
+ * registered for every method, so the last method-specific match is the
+ * handler.
+ */
+export function routeLabel(c: Context): string {
+    const routes = matchedRoutes(c);
+    for (let i = routes.length - 1; i >= 0; i--) {
+        if (routes[i].method !== 'ALL') return routes[i].path;
+    }
+    return 'unmatched';
+}
+
+export async function requestMetrics(c: Context, next: Next) {
+    const start = performance.now();
+    try {
+        await next();
+    } finally {
+        if (c.req.path.startsWith('/api')) {
+            httpRequestDuration.observe(
+                {
+                    method: c.req.method,
+                    route: routeLabel(c),
+                    status: `${Math.floor(c.res.status / 100)}xx`,
+                },
+                (performance.now() - start) / 1000
+            );
+        }
+    }
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "bun:test";
+import { checkRowFilterStatement, rowFilterSettings, type RowFilter } from "./rowFilters";
+import { parseStatement } from "./sqlParser";
+
+const euOnly: RowFilter = { database: "crm", table: "customers", filter: "region = 'EU'" };
+
+describe("Row Filters", () => {
+    describe("checkRowFilterStatement", () => {
+        const check = (sql: string, filters: RowFilter[]) => checkRowFilterStatement(parseStatement(sql), filters);
+
+        it("allows reads of filtered tables", () => {
+            expect(check("SELECT * FROM crm.customers c JOIN crm.orders o ON o.customer_id = c.id", [euOnly])).toBeNull();
+            expect(check("INSERT INTO crm.customers VALUES (1)", [])).toBeNull();
+        });
+
+        it("rejects writes and attempts to override the filter setting", () => {
+            expect(check("INSERT INTO crm.customers VALUES (1)", [euOnly])).toContain("only SELECT statements");
+            expect(check("SELECT * FROM crm.customers SETTINGS additional_table_filters = {}", [euOnly])).toContain("cannot change additional_table_filters");
+        });
+    });
+
+    describe("rowFilterSettings", () => {
+        it("builds an additional_table_filters map keyed by qualified table", () => {
+            expect(rowFilterSettings([])).toEqual({});
+            expect(rowFilterSettings([euOnly, { database: "crm", table: "orders", filter: "tenant = 'a\\\\b'" }])).toEqual({
+                additional_table_filters: "{'crm.customers': 'region = \\'EU\\'', 'crm.orders': 'tenant = \\'a\\\\\\\\b\\''}",
+            });
+        });
+    });
+});
@@ -0,0 +1,79 @@
+/**
+ * Row Filters
+ *
+ * Enforces the row filters of data access policies in the query proxy. The
+ * filters of the tables a statement reads are sent with the query in
+ * ClickHouse's `additional_table_filters` setting, which applies them to every
+ * read of those tables (joins, subqueries and CTEs included) without rewriting
+ * the SQL. Statements that could bypass the setting are rejected.
+ */
+
+import type { ParsedStatement } from './sqlParser';
+
+// ============================================
+// Types
+// ============================================
+
+/** The row filter in force for one table referenced by a query. */
+export interface RowFilter {
+  database: string;
+  table: string;
+  filter: string;
+}
+
+export const ROW_FILTER_SETTING = 'additional_table_filters';
+
+// Statement types that never return or change table rows
+const ROW_SAFE_STATEMENT_TYPES: ParsedStatement['type'][] = ['select', 'describe', 'show', 'exists'];
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Check a parsed statement against the row filters of the tables it reads.
+ * Only reads can run against filtered tables (a write could touch rows outside
+ * the filter), and the statement may not override the filter setting.
+ * Returns a denial reason, or null when the statement may run.
+ */
+export function checkRowFilterStatement(parsed: ParsedStatement, filters: RowFilter[]): string | null {
+  if (filters.length === 0) return null;
+
+  const tables = Array.from(new Set(filters.map((f) => `${f.database}.${f.table}`))).join(', ');
+  if (!ROW_SAFE_STATEMENT_TYPES.includes(parsed.type)) {
+    return `Rows of ${tables} are limited by a row filter; only SELECT statements can run against them`;
+  }
+  if (parsed.statement.toLowerCase().includes(ROW_FILTER_SETTING)) {
+    return `Rows of ${tables} are limited by a row filter; the statement cannot change ${ROW_FILTER_SETTING}`;
+  }
+  return null;
+}
+
+// ============================================
+// Applying filters
+// ============================================
+
+function quoteString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * ClickHouse settings that apply `filters` to a query, or an empty object when
+ * there are none. Tables are keyed by their qualified name, so the filter holds
+ * however the query spells the table.
+ */
+export function rowFilterSettings(filters: RowFilter[]): Record<string, string> {
+  if (filters.length === 0) return {};
+
+  const byTable = new Map<string, string>();
+  for (const { database, table, filter } of filters) {
+    byTable.set(`${database}.${table}`, filter);
+  }
+  const entries = Array.from(byTable, ([table, filter]) => `${quoteString(table)}: ${quoteString(filter)}`);
+  return { [ROW_FILTER_SETTING]: `{${entries.join(', ')}}` };
+}
+
+/** Compact summary of the row filters in force, for audit log details. */
+export function describeRowFilters(filters: RowFilter[]): { table: string; filter: string }[] {
+  return filters.map((f) => ({ table: `${f.database}.${f.table}`, filter: f.filter }));
+}
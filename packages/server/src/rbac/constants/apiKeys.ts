@@ -0,0 +1,26 @@
+/**
+ * Personal API Key Format
+ *
+ * Kept dependency-free so the auth middleware can recognise an API key without
+ * loading the API key service (and its database imports) for every JWT request.
+ *
+ * Format: `chk_<43 base64url chars>`. The first KEY_PREFIX_LENGTH characters are
+ * stored in clear (rbac_api_keys.key_prefix) so users can tell keys apart; the
+ * full key is only ever stored as a SHA-256 hash.
+ */
+
+export const API_KEY_PREFIX = 'chk_';
+
+/** Characters of the plaintext key persisted for display (fits varchar(12)). */
+export const API_KEY_DISPLAY_PREFIX_LENGTH = 12;
+
+/** Active (non-revoked) keys a single user may hold at once. */
+export const MAX_ACTIVE_API_KEYS_PER_USER = 20;
+
+/** Upper bound for key lifetime when an expiry is requested. */
+export const MAX_API_KEY_EXPIRY_DAYS = 365;
+
+/** True when a bearer token is a personal API key rather than a JWT. */
+export function isApiKeyToken(token: string | null | undefined): boolean {
+  return typeof token === 'string' && token.startsWith(API_KEY_PREFIX);
+}
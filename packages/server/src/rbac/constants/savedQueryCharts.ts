@@ -0,0 +1,19 @@
+/**
+ * Saved Query Chart Config
+ *
+ * Shape of rbac_saved_queries.chart_config — the chart view a user configured
+ * next to the results grid in the SQL tab. The frontend mirrors this type in
+ * src/api/saved-queries.ts; keep both in sync.
+ *
+ * Axes are optional: an omitted axis is inferred from the result columns with
+ * the same heuristics as the AI render_chart tool.
+ */
+
+export const SAVED_QUERY_CHART_TYPES = ['line', 'bar', 'area', 'pie', 'scatter'] as const;
+export type SavedQueryChartType = (typeof SAVED_QUERY_CHART_TYPES)[number];
+
+export interface SavedQueryChartConfig {
+  chartType: SavedQueryChartType;
+  xAxis?: string;
+  yAxis?: string[];
+}
@@ -263,6 +263,95 @@ const VERSION_CHECKS: Record<string, () => Promise<void>> = {
     expect(await h.columnExists("data_health_promises", "upstream_job_id")).toBe(true);
     expect(await h.indexExists("data_health_promises_upstream_idx")).toBe(true);
   },
+  "1.48.0": async () => {
+    expect(await h.columnExists("rbac_saved_queries", "parameters")).toBe(true);
+  },
+  "1.49.0": async () => {
+    expect(await h.columnExists("rbac_saved_queries", "chart_config")).toBe(true);
+  },
+  "1.50.0": async () => {
+    expect(await h.columnExists("rbac_saved_queries", "folder")).toBe(true);
+    expect(await h.columnExists("rbac_saved_queries", "tags")).toBe(true);
+    expect(await h.tableExists("rbac_saved_query_revisions")).toBe(true);
+    expect(await h.indexExists("saved_query_revisions_query_version_idx")).toBe(true);
+  },
+  "1.51.0": async () => {
+    expect(await h.tableExists("rbac_dashboards")).toBe(true);
+    expect(await h.columnExists("rbac_dashboards", "tiles")).toBe(true);
+    expect(await h.indexExists("dashboards_user_idx")).toBe(true);
+    for (const permission of ["dashboards:view", "dashboards:edit"]) {
+      expect(await h.permissionExists(permission)).toBe(true);
+      expect(await h.roleHasPermission("admin", permission)).toBe(true);
+      expect(await h.roleHasPermission("developer", permission)).toBe(true);
+    }
+    expect(await h.roleHasPermission("viewer", "dashboards:view")).toBe(true);
+    expect(await h.roleHasPermission("viewer", "dashboards:edit")).toBe(false);
+  },
+  "1.52.0": async () => {
+    expect(await h.columnExists("rbac_data_access_policy_rules", "column_pattern")).toBe(true);
+    expect(await h.columnExists("rbac_data_access_policy_rules", "column_action")).toBe(true);
+  },
+  "1.53.0": async () => {
+    expect(await h.columnExists("rbac_data_access_policy_rules", "row_filter")).toBe(true);
+  },
+  "1.54.0": async () => {
+    expect(await h.tableExists("rbac_role_query_quotas")).toBe(true);
+    expect(await h.tableExists("rbac_user_query_usage")).toBe(true);
+    expect(await h.columnExists("rbac_user_query_usage", "bytes_read")).toBe(true);
+  },
+  "1.55.0": async () => {
+    expect(await h.columnExists("rbac_clickhouse_connections", "is_protected")).toBe(true);
+    expect(await h.columnExists("rbac_clickhouse_connections", "approval_channel_ids")).toBe(true);
+    expect(await h.tableExists("rbac_change_requests")).toBe(true);
+    expect(await h.indexExists("change_requests_status_idx")).toBe(true);
+    expect(await h.permissionExists("change_requests:approve")).toBe(true);
+    expect(await h.roleHasPermission("super_admin", "change_requests:approve")).toBe(true);
+  },
+  "1.56.0": async () => {
+    expect(await h.permissionExists("mutations:kill")).toBe(true);
+    expect(await h.roleHasPermission("super_admin", "mutations:kill")).toBe(true);
+    expect(await h.roleHasPermission("admin", "mutations:kill")).toBe(true);
+  },
+  "1.57.0": async () => {
+    expect(await h.tableExists("backup_schedules")).toBe(true);
+    expect(await h.tableExists("backup_operations")).toBe(true);
+    expect(await h.indexExists("backup_operations_status_idx")).toBe(true);
+    expect(await h.permissionExists("backups:restore")).toBe(true);
+    expect(await h.roleHasPermission("super_admin", "backups:create")).toBe(true);
+  },
+  "1.58.0": async () => {
+    expect(await h.permissionExists("dictionaries:view")).toBe(true);
+    expect(await h.roleHasPermission("viewer", "dictionaries:view")).toBe(true);
+    expect(await h.roleHasPermission("admin", "dictionaries:reload")).toBe(true);
+  },
+  "1.59.0": async () => {
+    expect(await h.tableExists("fleet_disk_history")).toBe(true);
+    expect(await h.indexExists("fleet_disk_history_lookup_idx")).toBe(true);
+  },
+  "1.60.0": async () => {
+    expect(await h.tableExists("alert_silences")).toBe(true);
+    expect(await h.tableExists("alert_maintenance_windows")).toBe(true);
+    expect(await h.tableExists("alert_escalation_steps")).toBe(true);
+    expect(await h.columnExists("alert_events", "dedup_key")).toBe(true);
+    expect(await h.columnExists("alert_events", "escalation_level")).toBe(true);
+  },
+  "1.61.0": async () => {
+    expect(await h.columnExists("alert_rules", "message_template")).toBe(true);
+    expect(await h.columnExists("notification_channels", "message_template")).toBe(true);
+  },
+  "1.62.0": async () => {
+    expect(await h.tableExists("alert_incidents")).toBe(true);
+    expect(await h.tableExists("alert_incident_events")).toBe(true);
+    expect(await h.columnExists("alert_incidents", "snoozed_until")).toBe(true);
+  },
+  "1.63.0": async () => {
+    expect(await h.tableExists("ops_digests")).toBe(true);
+    expect(await h.tableExists("ops_digest_channels")).toBe(true);
+    expect(await h.tableExists("ops_digest_subscribers")).toBe(true);
+  },
+  "1.64.0": async () => {
+    expect(await h.columnExists("alert_rules", "owner_id")).toBe(true);
+  },
 };
 
 // ---------------------------------------------------------------------------
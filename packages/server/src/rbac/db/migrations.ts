@@ -4513,6 +4513,1015 @@ export const MIGRATIONS: Migration[] = [
     },
     down: async () => { /* forward-only */ },
   },
+  {
+    version: '1.48.0',
+    name: 'saved_query_parameters',
+    description: 'Add a nullable parameters JSON column to rbac_saved_queries storing the values for ClickHouse {name:Type} placeholders, so a saved query reopens as a reusable form; NULL means no stored values.',
+    up: async (db) => {
+      const dbType = getDatabaseType();
+      if (dbType === 'sqlite') {
+        try {
+          (db as SqliteDb).run(sql.raw(`ALTER TABLE rbac_saved_queries ADD COLUMN parameters TEXT`));
+        } catch (error) {
+          if (!isDuplicateColumnError(error)) throw error;
+        }
+      } else {
+        await (db as PostgresDb).execute(sql.raw(`ALTER TABLE rbac_saved_queries ADD COLUMN IF NOT EXISTS parameters JSONB`));
+      }
+      logger.info({ module: 'RBAC', phase: 'migration' }, `[Migration 1.48.0] Added parameters column to rbac_saved_queries (${dbType})`);
+    },
+    down: async () => { /* forward-only */ },
+  },
+  {
+    version: '1.49.0',
+    name: 'saved_query_chart_config',
+    description: 'Add a nullable chart_config JSON column to rbac_saved_queries holding the chart view (type and axes) configured next to the results grid; NULL means the query opens as a grid only.',
+    up: async (db) => {
+      const dbType = getDatabaseType();
+      if (dbType === 'sqlite') {
+        try {
+          (db as SqliteDb).run(sql.raw(`ALTER TABLE rbac_saved_queries ADD COLUMN chart_config TEXT`));
+        } catch (error) {
+          if (!isDuplicateColumnError(error)) throw error;
+        }
+      } else {
+        await (db as PostgresDb).execute(sql.raw(`ALTER TABLE rbac_saved_queries ADD COLUMN IF NOT EXISTS chart_config JSONB`));
+      }
+      logger.info({ module: 'RBAC', phase: 'migration' }, `[Migration 1.49.0] Added chart_config column to rbac_saved_queries (${dbType})`);
+    },
+    down: async () => { /* forward-only */ },
+  },
+  {
+    version: '1.50.0',
+    name: 'saved_query_folders_tags_revisions',
+    description: 'Add folder (slash-separated path) and tags (JSON array) columns to rbac_saved_queries, and create the append-only rbac_saved_query_revisions log. Existing queries are backfilled with a version 1 revision so they can be restored to their pre-upgrade text.',
+    up: async (db) => {
+      const dbType = getDatabaseType();
+      if (dbType === 'sqlite') {
+        for (const ddl of [
+          `ALTER TABLE rbac_saved_queries ADD COLUMN folder TEXT`,
+          `ALTER TABLE rbac_saved_queries ADD COLUMN tags TEXT`,
+        ]) {
+          try {
+            (db as SqliteDb).run(sql.raw(ddl));
+          } catch (error) {
+            if (!isDuplicateColumnError(error)) throw error;
+          }
+        }
+        (db as SqliteDb).run(sql`
+          CREATE TABLE IF NOT EXISTS rbac_saved_query_revisions (
+            id             TEXT PRIMARY KEY NOT NULL,
+            saved_query_id TEXT NOT NULL REFERENCES rbac_saved_queries(id) ON DELETE CASCADE,
+            version        INTEGER NOT NULL,
+            name           TEXT NOT NULL,
+            query          TEXT NOT NULL,
+            description    TEXT,
+            edited_by      TEXT REFERENCES rbac_users(id) ON DELETE SET NULL,
+            created_at     INTEGER NOT NULL DEFAULT (unixepoch())
+          )
+        `);
+        (db as SqliteDb).run(sql`CREATE UNIQUE INDEX IF NOT EXISTS saved_query_revisions_query_version_idx ON rbac_saved_query_revisions (saved_query_id, version)`);
+        (db as SqliteDb).run(sql`
+          INSERT INTO rbac_saved_query_revisions (id, saved_query_id, version, name, query, description, edited_by, created_at)
+          SELECT lower(hex(randomblob(16))), sq.id, 1, sq.name, sq.query, sq.description, sq.user_id, sq.updated_at
+          FROM rbac_saved_queries sq
+          WHERE NOT EXISTS (SELECT 1 FROM rbac_saved_query_revisions r WHERE r.saved_query_id = sq.id)
+        `);
+      } else {
+        await (db as PostgresDb).execute(sql.raw(`ALTER TABLE rbac_saved_queries ADD COLUMN IF NOT EXISTS folder TEXT`));
+        await (db as PostgresDb).execute(sql.raw(`ALTER TABLE rbac_saved_queries ADD COLUMN IF NOT EXISTS tags JSONB`));
+        await (db as PostgresDb).execute(sql`
+          CREATE TABLE IF NOT EXISTS rbac_saved_query_revisions (
+            id             TEXT PRIMARY KEY NOT NULL,
+            saved_query_id TEXT NOT NULL REFERENCES rbac_saved_queries(id) ON DELETE CASCADE,
+            version        INTEGER NOT NULL,
+            name           VARCHAR(255) NOT NULL,
+            query          TEXT NOT NULL,
+            description    TEXT,
+            edited_by      TEXT REFERENCES rbac_users(id) ON DELETE SET NULL,
+            created_at     TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+          )
+        `);
+        await (db as PostgresDb).execute(sql`CREATE UNIQUE INDEX IF NOT EXISTS saved_query_revisions_query_version_idx ON rbac_saved_query_revisions (saved_query_id, version)`);
+        await (db as PostgresDb).execute(sql`
+          INSERT INTO rbac_saved_query_revisions (id, saved_query_id, version, name, query, description, edited_by, created_at)
+          SELECT md5(random()::text || sq.id), sq.id, 1, sq.name, sq.query, sq.description, sq.user_id, sq.updated_at
+          FROM rbac_saved_queries sq
+          WHERE NOT EXISTS (SELECT 1 FROM rbac_saved_query_revisions r WHERE r.saved_query_id = sq.id)
+        `);
+      }
+      logger.info({ module: 'RBAC', phase: 'migration' }, `[Migration 1.50.0] Added saved query folders, tags and revision history (${dbType})`);
+    },
+    down: async () => { /* forward-only */ },
+  },
+  {
+    version: '1.51.0',
+    name: 'dashboards',
+    description: 'Create rbac_dashboards: named grids of tiles bound to saved queries (tiles and shared parameters stored as JSON), shared with the same public/private model as saved queries. Seeds dashboards:view/edit and grants them to roles holding saved_queries:view/create.',
+    up: async (db) => {
+      const dbType = getDatabaseType();
+      if (dbType === 'sqlite') {
+        (db as SqliteDb).run(sql`
+          CREATE TABLE IF NOT EXISTS rbac_dashboards (
+            id          TEXT PRIMARY KEY NOT NULL,
+            user_id     TEXT NOT NULL REFERENCES rbac_users(id) ON DELETE CASCADE,
+            name        TEXT NOT NULL,
+            description TEXT,
+            is_public   INTEGER NOT NULL DEFAULT 0,
+            tiles       TEXT NOT NULL DEFAULT '[]',
+            parameters  TEXT NOT NULL DEFAULT '{}',
+            created_at  INTEGER NOT NULL DEFAULT 0,
+            updated_at  INTEGER NOT NULL DEFAULT 0
+          )
+        `);
+        (db as SqliteDb).run(sql`CREATE INDEX IF NOT EXISTS dashboards_user_idx ON rbac_dashboards (user_id, updated_at)`);
+      } else {
+        await (db as PostgresDb).execute(sql`
+          CREATE TABLE IF NOT EXISTS rbac_dashboards (
+            id          TEXT PRIMARY KEY NOT NULL,
+            user_id     TEXT NOT NULL REFERENCES rbac_users(id) ON DELETE CASCADE,
+            name        VARCHAR(255) NOT NULL,
+            description TEXT,
+            is_public   INTEGER NOT NULL DEFAULT 0,
+            tiles       TEXT NOT NULL DEFAULT '[]',
+            parameters  TEXT NOT NULL DEFAULT '{}',
+            created_at  BIGINT NOT NULL DEFAULT 0,
+            updated_at  BIGINT NOT NULL DEFAULT 0
+          )
+        `);
+        await (db as PostgresDb).execute(sql`CREATE INDEX IF NOT EXISTS dashboards_user_idx ON rbac_dashboards (user_id, updated_at)`);
+      }
+
+      const { seedPermissions } = await import('../services/seed');
+      const idMap = await seedPermissions();
+
+      const selectAll = async (stmt: ReturnType<typeof sql>): Promise<Record<string, unknown>[]> => {
+        if (dbType === 'sqlite') return (db as SqliteDb).all(stmt) as Record<string, unknown>[];
+        const rows = await (db as PostgresDb).execute(stmt);
+        const anyRows = rows as { rows?: unknown[] };
+        return (Array.isArray(rows) ? rows : anyRows.rows ?? []) as Record<string, unknown>[];
+      };
+      const run = async (stmt: ReturnType<typeof sql>): Promise<void> => {
+        if (dbType === 'sqlite') (db as SqliteDb).run(stmt);
+        else await (db as PostgresDb).execute(stmt);
+      };
+
+      // Grant `newPerm` to every role that already holds `parentPerm` (idempotent).
+      const grantLikeParent = async (parentPerm: string, newPerm: string) => {
+        const pid = idMap.get(newPerm);
+        if (!pid) return;
+        const roleRows = await selectAll(sql`
+          SELECT DISTINCT rp.role_id AS role_id
+          FROM rbac_role_permissions rp
+          JOIN rbac_permissions p ON p.id = rp.permission_id
+          WHERE p.name = ${parentPerm}
+        `);
+        for (const row of roleRows) {
+          const roleId = String(row.role_id);
+          const existing = await selectAll(
+            sql`SELECT 1 FROM rbac_role_permissions WHERE role_id = ${roleId} AND permission_id = ${pid} LIMIT 1`,
+          );
+          if (existing.length === 0) {
+            const ts = dbType === 'sqlite' ? Math.floor(Date.now() / 1000) : new Date().toISOString();
+            await run(sql`
+              INSERT INTO rbac_role_permissions (id, role_id, permission_id, created_at)
+              VALUES (${randomUUID()}, ${roleId}, ${pid}, ${ts})
+            `);
+          }
+        }
+      };
+
+      // Dashboards are built from saved queries, so access follows them.
+      await grantLikeParent('saved_queries:view', 'dashboards:view');
+      await grantLikeParent('saved_queries:create', 'dashboards:edit');
+
+      logger.info({ module: 'RBAC', phase: 'migration' }, `[Migration 1.51.0] Created dashboards + dashboards:* permissions (${dbType})`);
+    },
+    down: async () => { /* forward-only */ },
+  },
+  {
+    version: '1.52.0',
+    name: 'data_access_column_rules',
+    description: 'Add nullable column_pattern and column_action columns to rbac_data_access_policy_rules. A rule with a column pattern no longer decides table access; it denies, hashes, partially masks or nulls out the matching columns of the tables it covers.',
+    up: async (db) => {
+      const dbType = getDatabaseType();
+      if (dbType === 'sqlite') {
+        for (const ddl of [
+          `ALTER TABLE rbac_data_access_policy_rules ADD COLUMN column_pattern TEXT`,
+          `ALTER TABLE rbac_data_access_policy_rules ADD COLUMN column_action TEXT`,
+        ]) {
+          try {
+            (db as SqliteDb).run(sql.raw(ddl));
+          } catch (error) {
+            if (!isDuplicateColumnError(error)) throw error;
+          }
+        }
+      } else {
+        await (db as PostgresDb).execute(sql.raw(`ALTER TABLE rbac_data_access_policy_rules ADD COLUMN IF NOT EXISTS column_pattern VARCHAR(255)`));
+        await (db as PostgresDb).execute(sql.raw(`ALTER TABLE rbac_data_access_policy_rules ADD COLUMN IF NOT EXISTS column_action VARCHAR(16)`));
+      }
+      logger.info({ module: 'RBAC', phase: 'migration' }, `[Migration 1.52.0] Added column rule columns to rbac_data_access_policy_rules (${dbType})`);
+    },
+    down: async () => { /* forward-only */ },
+  },
+  {
+    version: '1.53.0',
+    name: 'data_access_row_filters',
+    description: 'Add a nullable row_filter column to rbac_data_access_policy_rules. An allow rule with a row filter grants only the rows matching the predicate, enforced by the query proxy.',
+    up: async (db) => {
+      const dbType = getDatabaseType();
+      if (dbType === 'sqlite') {
+        try {
+          (db as SqliteDb).run(sql.raw(`ALTER TABLE rbac_data_access_policy_rules ADD COLUMN row_filter TEXT`));
+        } catch (error) {
+          if (!isDuplicateColumnError(error)) throw error;
+        }
+      } else {
+        await (db as PostgresDb).execute(sql.raw(`ALTER TABLE rbac_data_access_policy_rules ADD COLUMN IF NOT EXISTS row_filter TEXT`));
+      }
+      logger.info({ module: 'RBAC', phase: 'migration' }, `[Migration 1.53.0] Added row_filter to rbac_data_access_policy_rules (${dbType})`);
+    },
+    down: async () => { /* forward-only */ },
+  },
+  {
+    version: '1.54.0',
+    name: 'role_query_quotas',
+    description: 'Create rbac_role_query_quotas (per-role max_execution_time, max_memory_usage, max_result_rows, max_bytes_to_read and daily query/bytes budgets; null means unlimited) and rbac_user_query_usage (queries run and bytes read per user per UTC day).',
+    up: async (db) => {
+      const dbType = getDatabaseType();
+      if (dbType === 'sqlite') {
+        (db as SqliteDb).run(sql`
+          CREATE TABLE IF NOT EXISTS rbac_role_query_quotas (
+            role_id            TEXT PRIMARY KEY NOT NULL REFERENCES rbac_roles(id) ON DELETE CASCADE,
+            max_execution_time INTEGER,
+            max_memory_usage   INTEGER,
+            max_result_rows    INTEGER,
+            max_bytes_to_read  INTEGER,
+            daily_query_limit  INTEGER,
+            daily_bytes_limit  INTEGER,
+            updated_at         INTEGER NOT NULL DEFAULT (unixepoch()),
+            updated_by         TEXT REFERENCES rbac_users(id) ON DELETE SET NULL
+          )
+        `);
+        (db as SqliteDb).run(sql`
+          CREATE TABLE IF NOT EXISTS rbac_user_query_usage (
+            id          TEXT PRIMARY KEY NOT NULL,
+            user_id     TEXT NOT NULL REFERENCES rbac_users(id) ON DELETE CASCADE,
+            day         TEXT NOT NULL,
+            query_count INTEGER NOT NULL DEFAULT 0,
+            bytes_read  INTEGER NOT NULL DEFAULT 0,
+            updated_at  INTEGER NOT NULL DEFAULT (unixepoch())
+          )
+        `);
+        (db as SqliteDb).run(sql`CREATE UNIQUE INDEX IF NOT EXISTS user_query_usage_user_day_idx ON rbac_user_query_usage (user_id, day)`);
+      } else {
+        await (db as PostgresDb).execute(sql`
+          CREATE TABLE IF NOT EXISTS rbac_role_query_quotas (
+            role_id            TEXT PRIMARY KEY NOT NULL REFERENCES rbac_roles(id) ON DELETE CASCADE,
+            max_execution_time INTEGER,
+            max_memory_usage   BIGINT,
+            max_result_rows    INTEGER,
+            max_bytes_to_read  BIGINT,
+            daily_query_limit  INTEGER,
+            daily_bytes_limit  BIGINT,
+            updated_at         TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+            updated_by         TEXT REFERENCES rbac_users(id) ON DELETE SET NULL
+          )
+        `);
+        await (db as PostgresDb).execute(sql`
+          CREATE TABLE IF NOT EXISTS rbac_user_query_usage (
+            id          TEXT PRIMARY KEY NOT NULL,
+            user_id     TEXT NOT NULL REFERENCES rbac_users(id) ON DELETE CASCADE,
+            day         VARCHAR(10) NOT NULL,
+            query_count INTEGER NOT NULL DEFAULT 0,
+            bytes_read  BIGINT NOT NULL DEFAULT 0,
+            updated_at  TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+          )
+        `);
+        await (db as PostgresDb).execute(sql`CREATE UNIQUE INDEX IF NOT EXISTS user_query_usage_user_day_idx ON rbac_user_query_usage (user_id, day)`);
+      }
+      logger.info({ module: 'RBAC', phase: 'migration' }, `[Migration 1.54.0] Created rbac_role_query_quotas + rbac_user_query_usage (${dbType})`);
+    },
+    down: async () => { /* forward-only */ },
+  },
+  {
+    version: '1.55.0',
+    name: 'change_requests',
+    description: 'Add is_protected and approval_channel_ids to rbac_clickhouse_connections and create rbac_change_requests: DDL/DML on a protected connection is held as a change request (statement, impact estimate, table DDL before/after) until a second user approves it. Seeds change_requests:approve and grants it to roles holding connections:edit.',
+    up: async (db) => {
+      const dbType = getDatabaseType();
+      if (dbType === 'sqlite') {
+        for (const ddl of [
+          `ALTER TABLE rbac_clickhouse_connections ADD COLUMN is_protected INTEGER NOT NULL DEFAULT 0`,
+          `ALTER TABLE rbac_clickhouse_connections ADD COLUMN approval_channel_ids TEXT`,
+        ]) {
+          try {
+            (db as SqliteDb).run(sql.raw(ddl));
+          } catch (error) {
+            if (!isDuplicateColumnError(error)) throw error;
+          }
+        }
+        (db as SqliteDb).run(sql`
+          CREATE TABLE IF NOT EXISTS rbac_change_requests (
+            id              TEXT PRIMARY KEY NOT NULL,
+            connection_id   TEXT NOT NULL REFERENCES rbac_clickhouse_connections(id) ON DELETE CASCADE,
+            requested_by    TEXT REFERENCES rbac_users(id) ON DELETE SET NULL,
+            statement       TEXT NOT NULL,
+            operation_type  TEXT NOT NULL,
+            target_database TEXT,
+            target_table    TEXT,
+            impact          TEXT,
+            ddl_before      TEXT,
+            ddl_after       TEXT,
+            status          TEXT NOT NULL DEFAULT 'pending',
+            reviewed_by     TEXT REFERENCES rbac_users(id) ON DELETE SET NULL,
+            review_comment  TEXT,
+            error           TEXT,
+            created_at      INTEGER NOT NULL DEFAULT 0,
+            reviewed_at     INTEGER,
+            executed_at     INTEGER
+          )
+        `);
+        (db as SqliteDb).run(sql`CREATE INDEX IF NOT EXISTS change_requests_status_idx ON rbac_change_requests (status, created_at)`);
+      } else {
+        await (db as PostgresDb).execute(sql.raw(`ALTER TABLE rbac_clickhouse_connections ADD COLUMN IF NOT EXISTS is_protected BOOLEAN NOT NULL DEFAULT false`));
+        await (db as PostgresDb).execute(sql.raw(`ALTER TABLE rbac_clickhouse_connections ADD COLUMN IF NOT EXISTS approval_channel_ids JSONB`));
+        await (db as PostgresDb).execute(sql`
+          CREATE TABLE IF NOT EXISTS rbac_change_requests (
+            id              TEXT PRIMARY KEY NOT NULL,
+            connection_id   TEXT NOT NULL REFERENCES rbac_clickhouse_connections(id) ON DELETE CASCADE,
+            requested_by    TEXT REFERENCES rbac_users(id) ON DELETE SET NULL,
+            statement       TEXT NOT NULL,
+            operation_type  VARCHAR(32) NOT NULL,
+            target_database VARCHAR(255),
+            target_table    VARCHAR(255),
+            impact          TEXT,
+            ddl_before      TEXT,
+            ddl_after       TEXT,
+            status          VARCHAR(16) NOT NULL DEFAULT 'pending',
+            reviewed_by     TEXT REFERENCES rbac_users(id) ON DELETE SET NULL,
+            review_comment  TEXT,
+            error           TEXT,
+            created_at      BIGINT NOT NULL DEFAULT 0,
+            reviewed_at     BIGINT,
+            executed_at     BIGINT
+          )
+        `);
+        await (db as PostgresDb).execute(sql`CREATE INDEX IF NOT EXISTS change_requests_status_idx ON rbac_change_requests (status, created_at)`);
+      }
+
+      const { seedPermissions } = await import('../services/seed');
+      const idMap = await seedPermissions();
+      const pid = idMap.get('change_requests:approve');
+
+      const selectAll = async (stmt: ReturnType<typeof sql>): Promise<Record<string, unknown>[]> => {
+        if (dbType === 'sqlite') return (db as SqliteDb).all(stmt) as Record<string, unknown>[];
+        const rows = await (db as PostgresDb).execute(stmt);
+        const anyRows = rows as { rows?: unknown[] };
+        return (Array.isArray(rows) ? rows : anyRows.rows ?? []) as Record<string, unknown>[];
+      };
+
+      // Approving changes follows connection management: grant it to every role
+      // holding connections:edit (idempotent).
+      if (pid) {
+        const roleRows = await selectAll(sql`
+          SELECT DISTINCT rp.role_id AS role_id
+          FROM rbac_role_permissions rp
+          JOIN rbac_permissions p ON p.id = rp.permission_id
+          WHERE p.name = 'connections:edit'
+        `);
+        for (const row of roleRows) {
+          const roleId = String(row.role_id);
+          const existing = await selectAll(
+            sql`SELECT 1 FROM rbac_role_permissions WHERE role_id = ${roleId} AND permission_id = ${pid} LIMIT 1`,
+          );
+          if (existing.length > 0) continue;
+          const ts = dbType === 'sqlite' ? Math.floor(Date.now() / 1000) : new Date().toISOString();
+          const insert = sql`
+            INSERT INTO rbac_role_permissions (id, role_id, permission_id, created_at)
+            VALUES (${randomUUID()}, ${roleId}, ${pid}, ${ts})
+          `;
+          if (dbType === 'sqlite') (db as SqliteDb).run(insert);
+          else await (db as PostgresDb).execute(insert);
+        }
+      }
+
+      logger.info({ module: 'RBAC', phase: 'migration' }, `[Migration 1.55.0] Added connection protection + rbac_change_requests + change_requests:approve (${dbType})`);
+    },
+    down: async () => { /* forward-only */ },
+  },
+  {
+    version: '1.56.0',
+    name: 'mutations_kill_permission',
+    description: 'Seed mutations:kill (KILL MUTATION from Cluster Activity) and grant it to roles holding live_queries:kill_all.',
+    up: async (db) => {
+      const dbType = getDatabaseType();
+      const { seedPermissions } = await import('../services/seed');
+      const idMap = await seedPermissions();
+      const pid = idMap.get('mutations:kill');
+
+      const selectAll = async (stmt: ReturnType<typeof sql>): Promise<Record<string, unknown>[]> => {
+        if (dbType === 'sqlite') return (db as SqliteDb).all(stmt) as Record<string, unknown>[];
+        const rows = await (db as PostgresDb).execute(stmt);
+        const anyRows = rows as { rows?: unknown[] };
+        return (Array.isArray(rows) ? rows : anyRows.rows ?? []) as Record<string, unknown>[];
+      };
+
+      // Killing a mutation follows killing other users' queries (idempotent).
+      if (pid) {
+        const roleRows = await selectAll(sql`
+          SELECT DISTINCT rp.role_id AS role_id
+          FROM rbac_role_permissions rp
+          JOIN rbac_permissions p ON p.id = rp.permission_id
+          WHERE p.name = 'live_queries:kill_all'
+        `);
+        for (const row of roleRows) {
+          const roleId = String(row.role_id);
+          const existing = await selectAll(
+            sql`SELECT 1 FROM rbac_role_permissions WHERE role_id = ${roleId} AND permission_id = ${pid} LIMIT 1`,
+          );
+          if (existing.length > 0) continue;
+          const ts = dbType === 'sqlite' ? Math.floor(Date.now() / 1000) : new Date().toISOString();
+          const insert = sql`
+            INSERT INTO rbac_role_permissions (id, role_id, permission_id, created_at)
+            VALUES (${randomUUID()}, ${roleId}, ${pid}, ${ts})
+          `;
+          if (dbType === 'sqlite') (db as SqliteDb).run(insert);
+          else await (db as PostgresDb).execute(insert);
+        }
+      }
+
+      logger.info({ module: 'RBAC', phase: 'migration' }, `[Migration 1.56.0] Added mutations:kill (${dbType})`);
+    },
+    down: async () => { /* forward-only */ },
+  },
+  {
+    version: '1.57.0',
+    name: 'backups',
+    description: 'Create backup_schedules (cadence + retention for BACKUP TABLE/DATABASE to a disk) and backup_operations (the catalog of BACKUP/RESTORE operations started from CHouse UI, reconciled with system.backups). Seeds backups:view, backups:create and backups:restore and grants them to roles holding connections:edit.',
+    up: async (db) => {
+      const dbType = getDatabaseType();
+      if (dbType === 'sqlite') {
+        (db as SqliteDb).run(sql`
+          CREATE TABLE IF NOT EXISTS backup_schedules (
+            id              TEXT PRIMARY KEY NOT NULL,
+            connection_id   TEXT NOT NULL REFERENCES rbac_clickhouse_connections(id) ON DELETE CASCADE,
+            name            TEXT NOT NULL,
+            scope           TEXT NOT NULL DEFAULT 'table',
+            database_name   TEXT NOT NULL,
+            table_name      TEXT,
+            disk            TEXT NOT NULL,
+            frequency       TEXT NOT NULL DEFAULT 'daily',
+            hour            INTEGER NOT NULL DEFAULT 2,
+            day_of_week     INTEGER NOT NULL DEFAULT 0,
+            day_of_month    INTEGER NOT NULL DEFAULT 1,
+            cron_expr       TEXT,
+            timezone        TEXT NOT NULL DEFAULT 'UTC',
+            retention_count INTEGER NOT NULL DEFAULT 7,
+            enabled         INTEGER NOT NULL DEFAULT 1,
+            last_run_at     INTEGER NOT NULL DEFAULT 0,
+            created_by      TEXT REFERENCES rbac_users(id) ON DELETE SET NULL,
+            created_at      INTEGER NOT NULL DEFAULT 0,
+            updated_at      INTEGER NOT NULL DEFAULT 0
+          )
+        `);
+        (db as SqliteDb).run(sql`
+          CREATE TABLE IF NOT EXISTS backup_operations (
+            id              TEXT PRIMARY KEY NOT NULL,
+            connection_id   TEXT NOT NULL REFERENCES rbac_clickhouse_connections(id) ON DELETE CASCADE,
+            schedule_id     TEXT REFERENCES backup_schedules(id) ON DELETE SET NULL,
+            kind            TEXT NOT NULL,
+            backup_id       TEXT,
+            destination     TEXT NOT NULL,
+            scope           TEXT NOT NULL,
+            database_name   TEXT NOT NULL,
+            table_name      TEXT,
+            statement       TEXT NOT NULL,
+            status          TEXT NOT NULL DEFAULT 'running',
+            error           TEXT,
+            total_size      INTEGER,
+            num_files       INTEGER,
+            started_by      TEXT REFERENCES rbac_users(id) ON DELETE SET NULL,
+            started_at      INTEGER NOT NULL DEFAULT 0,
+            finished_at     INTEGER,
+            expired_at      INTEGER
+          )
+        `);
+        (db as SqliteDb).run(sql`CREATE INDEX IF NOT EXISTS backup_schedules_connection_idx ON backup_schedules (connection_id)`);
+        (db as SqliteDb).run(sql`CREATE INDEX IF NOT EXISTS backup_operations_connection_idx ON backup_operations (connection_id, started_at)`);
+        (db as SqliteDb).run(sql`CREATE INDEX IF NOT EXISTS backup_operations_status_idx ON backup_operations (status)`);
+        (db as SqliteDb).run(sql`CREATE INDEX IF NOT EXISTS backup_operations_schedule_idx ON backup_operations (schedule_id, started_at)`);
+      } else {
+        await (db as PostgresDb).execute(sql`
+          CREATE TABLE IF NOT EXISTS backup_schedules (
+            id              TEXT PRIMARY KEY NOT NULL,
+            connection_id   TEXT NOT NULL REFERENCES rbac_clickhouse_connections(id) ON DELETE CASCADE,
+            name            TEXT NOT NULL,
+            scope           VARCHAR(16) NOT NULL DEFAULT 'table',
+            database_name   VARCHAR(255) NOT NULL,
+            table_name      VARCHAR(255),
+            disk            VARCHAR(255) NOT NULL,
+            frequency       VARCHAR(16) NOT NULL DEFAULT 'daily',
+            hour            INTEGER NOT NULL DEFAULT 2,
+            day_of_week     INTEGER NOT NULL DEFAULT 0,
+            day_of_month    INTEGER NOT NULL DEFAULT 1,
+            cron_expr       TEXT,
+            timezone        VARCHAR(64) NOT NULL DEFAULT 'UTC',
+            retention_count INTEGER NOT NULL DEFAULT 7,
+            enabled         INTEGER NOT NULL DEFAULT 1,
+            last_run_at     BIGINT NOT NULL DEFAULT 0,
+            created_by      TEXT REFERENCES rbac_users(id) ON DELETE SET NULL,
+            created_at      BIGINT NOT NULL DEFAULT 0,
+            updated_at      BIGINT NOT NULL DEFAULT 0
+          )
+        `);
+        await (db as PostgresDb).execute(sql`
+          CREATE TABLE IF NOT EXISTS backup_operations (
+            id              TEXT PRIMARY KEY NOT NULL,
+            connection_id   TEXT NOT NULL REFERENCES rbac_clickhouse_connections(id) ON DELETE CASCADE,
+            schedule_id     TEXT REFERENCES backup_schedules(id) ON DELETE SET NULL,
+            kind            VARCHAR(16) NOT NULL,
+            backup_id       VARCHAR(64),
+            destination     TEXT NOT NULL,
+            scope           VARCHAR(16) NOT NULL,
+            database_name   VARCHAR(255) NOT NULL,
+            table_name      VARCHAR(255),
+            statement       TEXT NOT NULL,
+            status          VARCHAR(16) NOT NULL DEFAULT 'running',
+            error           TEXT,
+            total_size      BIGINT,
+            num_files       BIGINT,
+            started_by      TEXT REFERENCES rbac_users(id) ON DELETE SET NULL,
+            started_at      BIGINT NOT NULL DEFAULT 0,
+            finished_at     BIGINT,
+            expired_at      BIGINT
+          )
+        `);
+        await (db as PostgresDb).execute(sql`CREATE INDEX IF NOT EXISTS backup_schedules_connection_idx ON backup_schedules (connection_id)`);
+        await (db as PostgresDb).execute(sql`CREATE INDEX IF NOT EXISTS backup_operations_connection_idx ON backup_operations (connection_id, started_at)`);
+        await (db as PostgresDb).execute(sql`CREATE INDEX IF NOT EXISTS backup_operations_status_idx ON backup_operations (status)`);
+        await (db as PostgresDb).execute(sql`CREATE INDEX IF NOT EXISTS backup_operations_schedule_idx ON backup_operations (schedule_id, started_at)`);
+      }
+
+      const { seedPermissions } = await import('../services/seed');
+      const idMap = await seedPermissions();
+      const permissionIds = ['backups:view', 'backups:create', 'backups:restore']
+        .map((name) => idMap.get(name))
+        .filter((id): id is string => Boolean(id));
+
+      const selectAll = async (stmt: ReturnType<typeof sql>): Promise<Record<string, unknown>[]> => {
+        if (dbType === 'sqlite') return (db as SqliteDb).all(stmt) as Record<string, unknown>[];
+        const rows = await (db as PostgresDb).execute(stmt);
+        const anyRows = rows as { rows?: unknown[] };
+        return (Array.isArray(rows) ? rows : anyRows.rows ?? []) as Record<string, unknown>[];
+      };
+
+      // Backups follow connection management: grant them to every role holding
+      // connections:edit (idempotent).
+      const roleRows = await selectAll(sql`
+        SELECT DISTINCT rp.role_id AS role_id
+        FROM rbac_role_permissions rp
+        JOIN rbac_permissions p ON p.id = rp.permission_id
+        WHERE p.name = 'connections:edit'
+      `);
+      for (const row of roleRows) {
+        const roleId = String(row.role_id);
+        for (const pid of permissionIds) {
+          const existing = await selectAll(
+            sql`SELECT 1 FROM rbac_role_permissions WHERE role_id = ${roleId} AND permission_id = ${pid} LIMIT 1`,
+          );
+          if (existing.length > 0) continue;
+          const ts = dbType === 'sqlite' ? Math.floor(Date.now() / 1000) : new Date().toISOString();
+          const insert = sql`
+            INSERT INTO rbac_role_permissions (id, role_id, permission_id, created_at)
+            VALUES (${randomUUID()}, ${roleId}, ${pid}, ${ts})
+          `;
+          if (dbType === 'sqlite') (db as SqliteDb).run(insert);
+          else await (db as PostgresDb).execute(insert);
+        }
+      }
+
+      logger.info({ module: 'RBAC', phase: 'migration' }, `[Migration 1.57.0] Added backup_schedules + backup_operations + backups permissions (${dbType})`);
+    },
+    down: async () => { /* forward-only */ },
+  },
+  {
+    version: '1.58.0',
+    name: 'dictionaries_permissions',
+    description: 'Seed dictionaries:view (granted with metrics:view) and dictionaries:reload (granted with live_queries:kill_all).',
+    up: async (db) => {
+      const dbType = getDatabaseType();
+      const { seedPermissions } = await import('../services/seed');
+      const idMap = await seedPermissions();
+
+      const selectAll = async (stmt: ReturnType<typeof sql>): Promise<Record<string, unknown>[]> => {
+        if (dbType === 'sqlite') return (db as SqliteDb).all(stmt) as Record<string, unknown>[];
+        const rows = await (db as PostgresDb).execute(stmt);
+        const anyRows = rows as { rows?: unknown[] };
+        return (Array.isArray(rows) ? rows : anyRows.rows ?? []) as Record<string, unknown>[];
+      };
+
+      // Viewing follows the other monitoring tabs, reloading follows killing
+      // other users' queries (idempotent).
+      const grants: [string, string][] = [
+        ['dictionaries:view', 'metrics:view'],
+        ['dictionaries:reload', 'live_queries:kill_all'],
+      ];
+      for (const [name, basis] of grants) {
+        const pid = idMap.get(name);
+        if (!pid) continue;
+        const roleRows = await selectAll(sql`
+          SELECT DISTINCT rp.role_id AS role_id
+          FROM rbac_role_permissions rp
+          JOIN rbac_permissions p ON p.id = rp.permission_id
+          WHERE p.name = ${basis}
+        `);
+        for (const row of roleRows) {
+          const roleId = String(row.role_id);
+          const existing = await selectAll(
+            sql`SELECT 1 FROM rbac_role_permissions WHERE role_id = ${roleId} AND permission_id = ${pid} LIMIT 1`,
+          );
+          if (existing.length > 0) continue;
+          const ts = dbType === 'sqlite' ? Math.floor(Date.now() / 1000) : new Date().toISOString();
+          const insert = sql`
+            INSERT INTO rbac_role_permissions (id, role_id, permission_id, created_at)
+            VALUES (${randomUUID()}, ${roleId}, ${pid}, ${ts})
+          `;
+          if (dbType === 'sqlite') (db as SqliteDb).run(insert);
+          else await (db as PostgresDb).execute(insert);
+        }
+      }
+
+      logger.info({ module: 'RBAC', phase: 'migration' }, `[Migration 1.58.0] Added dictionaries:view + dictionaries:reload (${dbType})`);
+    },
+    down: async () => { /* forward-only */ },
+  },
+  {
+    version: '1.59.0',
+    name: 'fleet_disk_history',
+    description: 'Create fleet_disk_history: per-disk usage samples the fleet poller keeps (one per disk every 15 minutes, 30 days by default) to project when each disk fills up.',
+    up: async (db) => {
+      const dbType = getDatabaseType();
+      if (dbType === 'sqlite') {
+        (db as SqliteDb).run(sql`
+          CREATE TABLE IF NOT EXISTS fleet_disk_history (
+            id            INTEGER PRIMARY KEY AUTOINCREMENT,
+            connection_id TEXT    NOT NULL REFERENCES rbac_clickhouse_connections(id) ON DELETE CASCADE,
+            disk          TEXT    NOT NULL,
+            path          TEXT    NOT NULL DEFAULT '',
+            captured_at   INTEGER NOT NULL,
+            used_bytes    INTEGER NOT NULL,
+            total_bytes   INTEGER NOT NULL
+          )
+        `);
+        (db as SqliteDb).run(sql`CREATE INDEX IF NOT EXISTS fleet_disk_history_lookup_idx ON fleet_disk_history (connection_id, captured_at)`);
+        (db as SqliteDb).run(sql`CREATE INDEX IF NOT EXISTS fleet_disk_history_prune_idx ON fleet_disk_history (captured_at)`);
+      } else {
+        await (db as PostgresDb).execute(sql`
+          CREATE TABLE IF NOT EXISTS fleet_disk_history (
+            id            BIGSERIAL PRIMARY KEY,
+            connection_id TEXT      NOT NULL REFERENCES rbac_clickhouse_connections(id) ON DELETE CASCADE,
+            disk          TEXT      NOT NULL,
+            path          TEXT      NOT NULL DEFAULT '',
+            captured_at   BIGINT    NOT NULL,
+            used_bytes    BIGINT    NOT NULL,
+            total_bytes   BIGINT    NOT NULL
+          )
+        `);
+        await (db as PostgresDb).execute(sql`CREATE INDEX IF NOT EXISTS fleet_disk_history_lookup_idx ON fleet_disk_history (connection_id, captured_at)`);
+        await (db as PostgresDb).execute(sql`CREATE INDEX IF NOT EXISTS fleet_disk_history_prune_idx ON fleet_disk_history (captured_at)`);
+      }
+      logger.info({ module: 'RBAC', phase: 'migration' }, `[Migration 1.59.0] Created fleet_disk_history (${dbType})`);
+    },
+    down: async () => { /* forward-only */ },
+  },
+  {
+    version: '1.60.0',
+    name: 'alert_silences_windows_escalation',
+    description: 'Create alert_silences (one-off mutes scoped by rule, connection and severity), alert_maintenance_windows (recurring cron-defined mutes) and alert_escalation_steps (per-rule re-notification after N unacknowledged minutes). Add dedup_key, connection_id, acknowledged_at, acknowledged_by, escalation_level and suppressed_by to alert_events.',
+    up: async (db) => {
+      const dbType = getDatabaseType();
+      if (dbType === 'sqlite') {
+        for (const ddl of [
+          `ALTER TABLE alert_events ADD COLUMN dedup_key TEXT`,
+          `ALTER TABLE alert_events ADD COLUMN connection_id TEXT`,
+          `ALTER TABLE alert_events ADD COLUMN acknowledged_at INTEGER`,
+          `ALTER TABLE alert_events ADD COLUMN acknowledged_by TEXT`,
+          `ALTER TABLE alert_events ADD COLUMN escalation_level INTEGER NOT NULL DEFAULT 0`,
+          `ALTER TABLE alert_events ADD COLUMN suppressed_by TEXT`,
+        ]) {
+          try {
+            (db as SqliteDb).run(sql.raw(ddl));
+          } catch (error) {
+            if (!isDuplicateColumnError(error)) throw error;
+          }
+        }
+        (db as SqliteDb).run(sql`
+          CREATE TABLE IF NOT EXISTS alert_silences (
+            id         TEXT    PRIMARY KEY,
+            name       TEXT    NOT NULL,
+            rule_id    TEXT,
+            connection TEXT,
+            severity   TEXT,
+            starts_at  INTEGER NOT NULL,
+            ends_at    INTEGER NOT NULL,
+            comment    TEXT,
+            created_by TEXT,
+            created_at INTEGER NOT NULL DEFAULT 0
+          )
+        `);
+        (db as SqliteDb).run(sql`
+          CREATE TABLE IF NOT EXISTS alert_maintenance_windows (
+            id               TEXT    PRIMARY KEY,
+            name             TEXT    NOT NULL,
+            cron_expr        TEXT    NOT NULL,
+            duration_minutes INTEGER NOT NULL,
+            timezone         TEXT    NOT NULL DEFAULT 'UTC',
+            rule_id          TEXT,
+            connection       TEXT,
+            severity         TEXT,
+            enabled          INTEGER NOT NULL DEFAULT 1,
+            created_by       TEXT,
+            created_at       INTEGER NOT NULL DEFAULT 0,
+            updated_at       INTEGER NOT NULL DEFAULT 0
+          )
+        `);
+        (db as SqliteDb).run(sql`
+          CREATE TABLE IF NOT EXISTS alert_escalation_steps (
+            id            TEXT    PRIMARY KEY,
+            rule_id       TEXT    NOT NULL,
+            position      INTEGER NOT NULL,
+            after_minutes INTEGER NOT NULL,
+            channel_ids   TEXT    NOT NULL DEFAULT '[]',
+            created_at    INTEGER NOT NULL DEFAULT 0
+          )
+        `);
+        (db as SqliteDb).run(sql`CREATE INDEX IF NOT EXISTS idx_alert_silences_ends_at ON alert_silences (ends_at)`);
+        (db as SqliteDb).run(sql`CREATE INDEX IF NOT EXISTS idx_alert_escalation_steps_rule ON alert_escalation_steps (rule_id, position)`);
+        (db as SqliteDb).run(sql`CREATE INDEX IF NOT EXISTS idx_alert_events_open ON alert_events (resolved_at, dedup_key)`);
+      } else {
+        await (db as PostgresDb).execute(sql.raw(`ALTER TABLE alert_events ADD COLUMN IF NOT EXISTS dedup_key TEXT`));
+        await (db as PostgresDb).execute(sql.raw(`ALTER TABLE alert_events ADD COLUMN IF NOT EXISTS connection_id TEXT`));
+        await (db as PostgresDb).execute(sql.raw(`ALTER TABLE alert_events ADD COLUMN IF NOT EXISTS acknowledged_at BIGINT`));
+        await (db as PostgresDb).execute(sql.raw(`ALTER TABLE alert_events ADD COLUMN IF NOT EXISTS acknowledged_by TEXT`));
+        await (db as PostgresDb).execute(sql.raw(`ALTER TABLE alert_events ADD COLUMN IF NOT EXISTS escalation_level INTEGER NOT NULL DEFAULT 0`));
+        await (db as PostgresDb).execute(sql.raw(`ALTER TABLE alert_events ADD COLUMN IF NOT EXISTS suppressed_by TEXT`));
+        await (db as PostgresDb).execute(sql`
+          CREATE TABLE IF NOT EXISTS alert_silences (
+            id         TEXT    PRIMARY KEY,
+            name       TEXT    NOT NULL,
+            rule_id    TEXT,
+            connection TEXT,
+            severity   TEXT,
+            starts_at  BIGINT  NOT NULL,
+            ends_at    BIGINT  NOT NULL,
+            comment    TEXT,
+            created_by TEXT,
+            created_at BIGINT  NOT NULL DEFAULT 0
+          )
+        `);
+        await (db as PostgresDb).execute(sql`
+          CREATE TABLE IF NOT EXISTS alert_maintenance_windows (
+            id               TEXT    PRIMARY KEY,
+            name             TEXT    NOT NULL,
+            cron_expr        TEXT    NOT NULL,
+            duration_minutes INTEGER NOT NULL,
+            timezone         TEXT    NOT NULL DEFAULT 'UTC',
+            rule_id          TEXT,
+            connection       TEXT,
+            severity         TEXT,
+            enabled          INTEGER NOT NULL DEFAULT 1,
+            created_by       TEXT,
+            created_at       BIGINT  NOT NULL DEFAULT 0,
+            updated_at       BIGINT  NOT NULL DEFAULT 0
+          )
+        `);
+        await (db as PostgresDb).execute(sql`
+          CREATE TABLE IF NOT EXISTS alert_escalation_steps (
+            id            TEXT    PRIMARY KEY,
+            rule_id       TEXT    NOT NULL,
+            position      INTEGER NOT NULL,
+            after_minutes INTEGER NOT NULL,
+            channel_ids   TEXT    NOT NULL DEFAULT '[]',
+            created_at    BIGINT  NOT NULL DEFAULT 0
+          )
+        `);
+        await (db as PostgresDb).execute(sql`CREATE INDEX IF NOT EXISTS idx_alert_silences_ends_at ON alert_silences (ends_at)`);
+        await (db as PostgresDb).execute(sql`CREATE INDEX IF NOT EXISTS idx_alert_escalation_steps_rule ON alert_escalation_steps (rule_id, position)`);
+        await (db as PostgresDb).execute(sql`CREATE INDEX IF NOT EXISTS idx_alert_events_open ON alert_events (resolved_at, dedup_key)`);
+      }
+      logger.info({ module: 'RBAC', phase: 'migration' }, `[Migration 1.60.0] Created alert silences, maintenance windows and escalation steps (${dbType})`);
+    },
+    down: async () => { /* forward-only */ },
+  },
+  {
+    version: '1.61.0',
+    name: 'alert_message_templates',
+    description: 'Add message_template to alert_rules and notification_channels: optional user-editable text that replaces the built-in fleet, scheduled-query and data-health notification message.',
+    up: async (db) => {
+      const dbType = getDatabaseType();
+      if (dbType === 'sqlite') {
+        for (const ddl of [
+          `ALTER TABLE alert_rules ADD COLUMN message_template TEXT`,
+          `ALTER TABLE notification_channels ADD COLUMN message_template TEXT`,
+        ]) {
+          try {
+            (db as SqliteDb).run(sql.raw(ddl));
+          } catch (error) {
+            if (!isDuplicateColumnError(error)) throw error;
+          }
+        }
+      } else {
+        await (db as PostgresDb).execute(sql.raw(`ALTER TABLE alert_rules ADD COLUMN IF NOT EXISTS message_template TEXT`));
+        await (db as PostgresDb).execute(sql.raw(`ALTER TABLE notification_channels ADD COLUMN IF NOT EXISTS message_template TEXT`));
+      }
+      logger.info({ module: 'RBAC', phase: 'migration' }, `[Migration 1.61.0] Added message templates to alert rules and channels (${dbType})`);
+    },
+    down: async () => { /* forward-only */ },
+  },
+  {
+    version: '1.62.0',
+    name: 'alert_incidents',
+    description: 'Create alert_incidents (one row per fleet breach with an open / acknowledged / snoozed / resolved lifecycle, keyed by the breach dedup key) and alert_incident_events (its timeline: state changes and notes).',
+    up: async (db) => {
+      const dbType = getDatabaseType();
+      if (dbType === 'sqlite') {
+        (db as SqliteDb).run(sql`
+          CREATE TABLE IF NOT EXISTS alert_incidents (
+            id              TEXT    PRIMARY KEY NOT NULL,
+            dedup_key       TEXT    NOT NULL,
+            rule_id         TEXT,
+            connection_id   TEXT,
+            severity        TEXT    NOT NULL,
+            status          TEXT    NOT NULL DEFAULT 'open',
+            summary         TEXT    NOT NULL,
+            opened_at       INTEGER NOT NULL,
+            acknowledged_by TEXT,
+            acknowledged_at INTEGER,
+            snoozed_until   INTEGER,
+            resolved_by     TEXT,
+            resolved_at     INTEGER,
+            last_event_at   INTEGER NOT NULL,
+            created_at      INTEGER NOT NULL DEFAULT 0,
+            updated_at      INTEGER NOT NULL DEFAULT 0
+          )
+        `);
+        (db as SqliteDb).run(sql`CREATE INDEX IF NOT EXISTS idx_alert_incidents_key ON alert_incidents (dedup_key, status)`);
+        (db as SqliteDb).run(sql`CREATE INDEX IF NOT EXISTS idx_alert_incidents_status ON alert_incidents (status, last_event_at)`);
+        (db as SqliteDb).run(sql`
+          CREATE TABLE IF NOT EXISTS alert_incident_events (
+            id          TEXT    PRIMARY KEY NOT NULL,
+            incident_id TEXT    NOT NULL REFERENCES alert_incidents(id) ON DELETE CASCADE,
+            type        TEXT    NOT NULL,
+            actor_id    TEXT,
+            payload     TEXT,
+            created_at  INTEGER NOT NULL DEFAULT 0
+          )
+        `);
+        (db as SqliteDb).run(sql`CREATE INDEX IF NOT EXISTS idx_alert_incident_events ON alert_incident_events (incident_id, created_at)`);
+      } else {
+        await (db as PostgresDb).execute(sql`
+          CREATE TABLE IF NOT EXISTS alert_incidents (
+            id              TEXT    PRIMARY KEY NOT NULL,
+            dedup_key       TEXT    NOT NULL,
+            rule_id         TEXT,
+            connection_id   TEXT,
+            severity        TEXT    NOT NULL,
+            status          TEXT    NOT NULL DEFAULT 'open',
+            summary         TEXT    NOT NULL,
+            opened_at       BIGINT  NOT NULL,
+            acknowledged_by TEXT,
+            acknowledged_at BIGINT,
+            snoozed_until   BIGINT,
+            resolved_by     TEXT,
+            resolved_at     BIGINT,
+            last_event_at   BIGINT  NOT NULL,
+            created_at      BIGINT  NOT NULL DEFAULT 0,
+            updated_at      BIGINT  NOT NULL DEFAULT 0
+          )
+        `);
+        await (db as PostgresDb).execute(sql`CREATE INDEX IF NOT EXISTS idx_alert_incidents_key ON alert_incidents (dedup_key, status)`);
+        await (db as PostgresDb).execute(sql`CREATE INDEX IF NOT EXISTS idx_alert_incidents_status ON alert_incidents (status, last_event_at)`);
+        await (db as PostgresDb).execute(sql`
+          CREATE TABLE IF NOT EXISTS alert_incident_events (
+            id          TEXT    PRIMARY KEY NOT NULL,
+            incident_id TEXT    NOT NULL REFERENCES alert_incidents(id) ON DELETE CASCADE,
+            type        TEXT    NOT NULL,
+            actor_id    TEXT,
+            payload     TEXT,
+            created_at  BIGINT  NOT NULL DEFAULT 0
+          )
+        `);
+        await (db as PostgresDb).execute(sql`CREATE INDEX IF NOT EXISTS idx_alert_incident_events ON alert_incident_events (incident_id, created_at)`);
+      }
+      logger.info({ module: 'RBAC', phase: 'migration' }, `[Migration 1.62.0] Created alert incidents and their timeline (${dbType})`);
+    },
+    down: async () => { /* forward-only */ },
+  },
+  {
+    version: '1.63.0',
+    name: 'ops_digests',
+    description: 'Create ops_digests (scheduled operational digests: covered period, cadence and last delivery), ops_digest_channels (the channels each digest is delivered to) and ops_digest_subscribers (users who opted in to receive a digest by email).',
+    up: async (db) => {
+      const dbType = getDatabaseType();
+      if (dbType === 'sqlite') {
+        (db as SqliteDb).run(sql`
+          CREATE TABLE IF NOT EXISTS ops_digests (
+            id            TEXT    PRIMARY KEY NOT NULL,
+            name          TEXT    NOT NULL,
+            window_days   INTEGER NOT NULL DEFAULT 1,
+            frequency     TEXT    NOT NULL DEFAULT 'daily',
+            hour          INTEGER NOT NULL DEFAULT 8,
+            day_of_week   INTEGER NOT NULL DEFAULT 1,
+            day_of_month  INTEGER NOT NULL DEFAULT 1,
+            cron_expr     TEXT,
+            timezone      TEXT    NOT NULL DEFAULT 'UTC',
+            enabled       INTEGER NOT NULL DEFAULT 1,
+            last_run_at   INTEGER NOT NULL DEFAULT 0,
+            last_sent_at  INTEGER,
+            last_error    TEXT,
+            created_by    TEXT,
+            created_at    INTEGER NOT NULL DEFAULT 0,
+            updated_at    INTEGER NOT NULL DEFAULT 0
+          )
+        `);
+        (db as SqliteDb).run(sql`
+          CREATE TABLE IF NOT EXISTS ops_digest_channels (
+            digest_id  TEXT NOT NULL REFERENCES ops_digests(id) ON DELETE CASCADE,
+            channel_id TEXT NOT NULL REFERENCES notification_channels(id) ON DELETE CASCADE,
+            PRIMARY KEY (digest_id, channel_id)
+          )
+        `);
+        (db as SqliteDb).run(sql`
+          CREATE TABLE IF NOT EXISTS ops_digest_subscribers (
+            digest_id  TEXT NOT NULL REFERENCES ops_digests(id) ON DELETE CASCADE,
+            user_id    TEXT NOT NULL REFERENCES rbac_users(id) ON DELETE CASCADE,
+            created_at INTEGER NOT NULL DEFAULT 0,
+            PRIMARY KEY (digest_id, user_id)
+          )
+        `);
+        (db as SqliteDb).run(sql`CREATE INDEX IF NOT EXISTS idx_ops_digest_subscribers_user ON ops_digest_subscribers (user_id)`);
+      } else {
+        await (db as PostgresDb).execute(sql`
+          CREATE TABLE IF NOT EXISTS ops_digests (
+            id            TEXT    PRIMARY KEY NOT NULL,
+            name          TEXT    NOT NULL,
+            window_days   INTEGER NOT NULL DEFAULT 1,
+            frequency     TEXT    NOT NULL DEFAULT 'daily',
+            hour          INTEGER NOT NULL DEFAULT 8,
+            day_of_week   INTEGER NOT NULL DEFAULT 1,
+            day_of_month  INTEGER NOT NULL DEFAULT 1,
+            cron_expr     TEXT,
+            timezone      TEXT    NOT NULL DEFAULT 'UTC',
+            enabled       INTEGER NOT NULL DEFAULT 1,
+            last_run_at   BIGINT  NOT NULL DEFAULT 0,
+            last_sent_at  BIGINT,
+            last_error    TEXT,
+            created_by    TEXT,
+            created_at    BIGINT  NOT NULL DEFAULT 0,
+            updated_at    BIGINT  NOT NULL DEFAULT 0
+          )
+        `);
+        await (db as PostgresDb).execute(sql`
+          CREATE TABLE IF NOT EXISTS ops_digest_channels (
+            digest_id  TEXT NOT NULL REFERENCES ops_digests(id) ON DELETE CASCADE,
+            channel_id TEXT NOT NULL REFERENCES notification_channels(id) ON DELETE CASCADE,
+            PRIMARY KEY (digest_id, channel_id)
+          )
+        `);
+        await (db as PostgresDb).execute(sql`
+          CREATE TABLE IF NOT EXISTS ops_digest_subscribers (
+            digest_id  TEXT NOT NULL REFERENCES ops_digests(id) ON DELETE CASCADE,
+            user_id    TEXT NOT NULL REFERENCES rbac_users(id) ON DELETE CASCADE,
+            created_at BIGINT NOT NULL DEFAULT 0,
+            PRIMARY KEY (digest_id, user_id)
+          )
+        `);
+        await (db as PostgresDb).execute(sql`CREATE INDEX IF NOT EXISTS idx_ops_digest_subscribers_user ON ops_digest_subscribers (user_id)`);
+      }
+      logger.info({ module: 'RBAC', phase: 'migration' }, `[Migration 1.63.0] Created operational digests (${dbType})`);
+    },
+    down: async () => { /* forward-only */ },
+  },
+  {
+    version: '1.64.0',
+    name: 'alert_rule_owner',
+    description: 'Add owner_id to alert_rules: the user whose data access a custom SQL rule\'s query is checked against when it is saved and before every run.',
+    up: async (db) => {
+      const dbType = getDatabaseType();
+      if (dbType === 'sqlite') {
+        try {
+          (db as SqliteDb).run(sql.raw(`ALTER TABLE alert_rules ADD COLUMN owner_id TEXT`));
+        } catch (error) {
+          if (!isDuplicateColumnError(error)) throw error;
+        }
+      } else {
+        await (db as PostgresDb).execute(sql.raw(`ALTER TABLE alert_rules ADD COLUMN IF NOT EXISTS owner_id TEXT`));
+      }
+      logger.info({ module: 'RBAC', phase: 'migration' }, `[Migration 1.64.0] Added owner_id to alert rules (${dbType})`);
+    },
+    down: async () => { /* forward-only */ },
+  },
 ];
 
 // ============================================
@@ -5,8 +5,11 @@ import {
     requirePermission,
     requireRole,
     superAdminOnly,
-    optionalRbacAuthMiddleware
+    optionalRbacAuthMiddleware,
+    isAdminPayload,
+    isSuperAdminRequest
 } from "./rbacAuth";
+import { DEFAULT_ROLE_PERMISSIONS } from "../schema/base";
 import { AppError } from "../../types";
 
 // Mock Services
@@ -129,6 +132,21 @@ describe("RBAC Auth Middleware", () => {
 
             await expect(middleware(mockContext as any, mockNext)).rejects.toThrow("Permission 'write' required");
         });
+
+        it("should not widen an API key's scopes from the database", async () => {
+            const apiKeyContext = {
+                ...mockContext,
+                get: mock((key: string) => {
+                    if (key === "rbacUser") return { sub: "user-123", apiKeyId: "key-1" };
+                    return mockContext.get(key);
+                }),
+            };
+            const middleware = requirePermission("write");
+            mockUserHasPermission.mockResolvedValue(true); // Owner holds it, key scope does not
+
+            await expect(middleware(apiKeyContext as any, mockNext)).rejects.toThrow("Permission 'write' required");
+            expect(mockUserHasPermission).not.toHaveBeenCalled();
+        });
     });
 
     describe("requireRole", () => {
@@ -161,4 +179,30 @@ describe("RBAC Auth Middleware", () => {
             expect(mockContext.set).not.toHaveBeenCalled();
         });
     });
+
+    describe("isAdminPayload", () => {
+        const payload = (roles: string[], permissions: string[], apiKeyId?: string) => ({
+            sub: "user-123", email: "a@b.c", username: "a", roles, permissions,
+            sessionId: "s", type: "access" as const, apiKeyId,
+        });
+
+        it("should take session admin status from roles", () => {
+            expect(isAdminPayload(payload(["admin"], []))).toBe(true);
+            expect(isAdminPayload(payload(["viewer"], ["users:view"]))).toBe(false);
+        });
+
+        it("should only treat an admin's API key as admin when its scopes cover the admin role", () => {
+            expect(isAdminPayload(payload(["super_admin"], ["query:execute"], "key-1"))).toBe(false);
+            expect(isAdminPayload(payload(["super_admin"], [...DEFAULT_ROLE_PERMISSIONS.admin], "key-1"))).toBe(true);
+            expect(isAdminPayload(payload(["viewer"], [...DEFAULT_ROLE_PERMISSIONS.admin], "key-1"))).toBe(false);
+        });
+
+        it("should only give the super admin bypass to keys scoped like an admin", () => {
+            const request = (user: ReturnType<typeof payload>) => ({ get: () => user }) as any;
+            expect(isSuperAdminRequest(request(payload(["super_admin"], [])))).toBe(true);
+            expect(isSuperAdminRequest(request(payload(["admin"], [...DEFAULT_ROLE_PERMISSIONS.admin])))).toBe(false);
+            expect(isSuperAdminRequest(request(payload(["super_admin"], ["query:execute"], "key-1")))).toBe(false);
+            expect(isSuperAdminRequest(request(payload(["super_admin"], [...DEFAULT_ROLE_PERMISSIONS.admin], "key-1")))).toBe(true);
+        });
+    });
 });
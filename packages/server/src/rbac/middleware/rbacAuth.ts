@@ -1,7 +1,7 @@
 /**
  * RBAC Authentication Middleware
  * 
- * Middleware for JWT authentication and permission checking.
+ * Middleware for JWT / personal API key authentication and permission checking.
  */
 
 import { Context, Next } from 'hono';
@@ -16,7 +16,8 @@ import {
   userHasAllPermissions,
   createAuditLog 
 } from '../services/rbac';
-import { AUDIT_ACTIONS, type Permission } from '../schema/base';
+import { AUDIT_ACTIONS, DEFAULT_ROLE_PERMISSIONS, SYSTEM_ROLES, type Permission } from '../schema/base';
+import { isApiKeyToken } from '../constants/apiKeys';
 import { AppError } from '../../types';
 
 // ============================================
@@ -39,9 +40,21 @@ declare module 'hono' {
 // Authentication Middleware
 // ============================================
 
+/**
+ * Verify a Bearer token, which is either a JWT access token or a personal API key.
+ * The API key service is loaded lazily so plain JWT requests never touch it.
+ */
+export async function verifyBearerToken(token: string): Promise<TokenPayload> {
+  if (isApiKeyToken(token)) {
+    const { authenticateApiKey } = await import('../services/apiKeys');
+    return authenticateApiKey(token);
+  }
+  return verifyAccessToken(token);
+}
+
 /**
  * RBAC Authentication middleware
- * Validates JWT and attaches user info to context
+ * Validates JWT (or API key) and attaches user info to context
  */
 export async function rbacAuthMiddleware(c: Context, next: Next) {
   const authHeader = c.req.header('Authorization');
@@ -52,7 +65,7 @@ export async function rbacAuthMiddleware(c: Context, next: Next) {
   }
 
   try {
-    const payload = await verifyAccessToken(token);
+    const payload = await verifyBearerToken(token);
 
     // Attach user info to context
     c.set('rbacUser', payload);
@@ -72,7 +85,7 @@ export async function rbacAuthMiddleware(c: Context, next: Next) {
       errorMessage: message,
     });
 
-    if (message.includes('expired')) {
+    if (message.includes('expired') && !isApiKeyToken(token)) {
       throw AppError.unauthorized('Token expired. Please refresh your token.');
     }
     throw AppError.unauthorized(message);
@@ -89,7 +102,7 @@ export async function optionalRbacAuthMiddleware(c: Context, next: Next) {
 
   if (token) {
     try {
-      const payload = await verifyAccessToken(token);
+      const payload = await verifyBearerToken(token);
       c.set('rbacUser', payload);
       c.set('rbacUserId', payload.sub);
       c.set('rbacRoles', payload.roles);
@@ -123,8 +136,9 @@ export function requirePermission(permission: Permission) {
       return;
     }
 
-    // Double-check against database (in case permissions changed)
-    const hasPermission = await userHasPermission(userId, permission);
+    // Double-check against database (in case permissions changed). API keys
+    // are already resolved against live permissions and must stay within scope.
+    const hasPermission = !isApiKeyRequest(c) && await userHasPermission(userId, permission);
     
     if (!hasPermission) {
       throw AppError.forbidden(`Permission '${permission}' required for this action`);
@@ -151,7 +165,7 @@ export function requireAnyPermission(permissions: Permission[]) {
     }
 
     // Double-check against database
-    const hasAny = await userHasAnyPermission(userId, permissions);
+    const hasAny = !isApiKeyRequest(c) && await userHasAnyPermission(userId, permissions);
     
     if (!hasAny) {
       throw AppError.forbidden(`One of these permissions required: ${permissions.join(', ')}`);
@@ -178,7 +192,7 @@ export function requireAllPermissions(permissions: Permission[]) {
     }
 
     // Double-check against database
-    const hasAll = await userHasAllPermissions(userId, permissions);
+    const hasAll = !isApiKeyRequest(c) && await userHasAllPermissions(userId, permissions);
     
     if (!hasAll) {
       throw AppError.forbidden(`All of these permissions required: ${permissions.join(', ')}`);
@@ -286,6 +300,35 @@ export function getRbacUserOptional(c: Context): TokenPayload | null {
   return c.get('rbacUser') || null;
 }
 
+/**
+ * Check if the current request authenticated with a personal API key
+ */
+export function isApiKeyRequest(c: Context): boolean {
+  return Boolean(c.get('rbacUser')?.apiKeyId);
+}
+
+/**
+ * Whether a verified token gets the admin bypass on data routes.
+ *
+ * Session tokens get it from the user's roles. An API key only gets it when
+ * its owner is an admin and its scopes carry every admin permission, so a
+ * narrowly scoped key created by an admin stays within its scopes.
+ */
+export function isAdminPayload(payload: TokenPayload): boolean {
+  const isAdminRole = payload.roles.includes(SYSTEM_ROLES.SUPER_ADMIN) || payload.roles.includes(SYSTEM_ROLES.ADMIN);
+  if (!isAdminRole || !payload.apiKeyId) return isAdminRole;
+  return DEFAULT_ROLE_PERMISSIONS[SYSTEM_ROLES.ADMIN].every(permission => payload.permissions.includes(permission));
+}
+
+/**
+ * Whether the request gets the super admin bypass (e.g. every connection).
+ * API keys follow the same scope rule as isAdminPayload.
+ */
+export function isSuperAdminRequest(c: Context): boolean {
+  const user: TokenPayload | undefined = c.get('rbacUser');
+  return Boolean(user && user.roles.includes(SYSTEM_ROLES.SUPER_ADMIN) && isAdminPayload(user));
+}
+
 /**
  * Check if current user has permission (use in route handlers)
  */
@@ -0,0 +1,110 @@
+/**
+ * API Keys Routes
+ *
+ * Self-service management of personal API keys. Every route is scoped to the
+ * authenticated user and requires an interactive (JWT) session — an API key
+ * cannot be used to mint or revoke other keys.
+ */
+
+import { Hono, type Context, type Next } from 'hono';
+import { z } from 'zod';
+import { zValidator } from '@hono/zod-validator';
+import { listApiKeys, createApiKey, revokeApiKey } from '../services/apiKeys';
+import { rbacAuthMiddleware, getRbacUser, getClientIp, isApiKeyRequest } from '../middleware';
+import { createAuditLogWithContext } from '../services/rbac';
+import { AUDIT_ACTIONS, RESOURCE_TYPES } from '../schema/base';
+import { MAX_API_KEY_EXPIRY_DAYS } from '../constants/apiKeys';
+import { AppError, requireParam } from '../../types';
+
+const apiKeyRoutes = new Hono();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Validation Schemas
+// ============================================
+
+const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  scopes: z.array(z.string().min(1)).min(1, 'Select at least one scope'),
+  // null / omitted = never expires
+  expiresInDays: z.number().int().min(1).max(MAX_API_KEY_EXPIRY_DAYS).nullable().optional(),
+});
+
+// ============================================
+// Middleware
+// ============================================
+
+async function interactiveSessionOnly(c: Context, next: Next): Promise<void> {
+  if (isApiKeyRequest(c)) {
+    throw AppError.forbidden('API keys cannot be managed with an API key. Sign in to the UI instead.');
+  }
+  await next();
+}
+
+apiKeyRoutes.use('*', rbacAuthMiddleware, interactiveSessionOnly);
+
+// ============================================
+// Routes
+// ============================================
+
+/**
+ * GET /
+ * List the authenticated user's API keys (never includes key material)
+ */
+apiKeyRoutes.get('/', async (c) => {
+  const user = getRbacUser(c);
+  const keys = await listApiKeys(user.sub);
+  return c.json({ success: true, data: keys });
+});
+
+/**
+ * POST /
+ * Create an API key. The plaintext key is only present in this response.
+ */
+apiKeyRoutes.post('/', zValidator('json', createApiKeySchema), async (c) => {
+  const user = getRbacUser(c);
+  const { name, scopes, expiresInDays } = c.req.valid('json');
+
+  const expiresAt = expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : null;
+  const created = await createApiKey(user.sub, { name, scopes, expiresAt });
+
+  await createAuditLogWithContext(c, AUDIT_ACTIONS.API_KEY_CREATE, user.sub, {
+    resourceType: RESOURCE_TYPES.API_KEY,
+    resourceId: created.apiKey.id,
+    details: {
+      name: created.apiKey.name,
+      keyPrefix: created.apiKey.keyPrefix,
+      scopes: created.apiKey.scopes,
+      expiresAt: created.apiKey.expiresAt?.toISOString() ?? null,
+    },
+    ipAddress: getClientIp(c),
+  });
+
+  return c.json({ success: true, data: created }, 201);
+});
+
+/**
+ * DELETE /:id
+ * Revoke one of the authenticated user's API keys
+ */
+apiKeyRoutes.delete('/:id', async (c) => {
+  const user = getRbacUser(c);
+  const id = requireParam(c, 'id');
+
+  const revoked = await revokeApiKey(user.sub, id);
+  if (!revoked) {
+    throw AppError.notFound('API key not found');
+  }
+
+  await createAuditLogWithContext(c, AUDIT_ACTIONS.API_KEY_REVOKE, user.sub, {
+    resourceType: RESOURCE_TYPES.API_KEY,
+    resourceId: revoked.id,
+    details: { name: revoked.name, keyPrefix: revoked.keyPrefix },
+    ipAddress: getClientIp(c),
+  });
+
+  return c.json({ success: true, data: revoked });
+});
+
+export default apiKeyRoutes;
@@ -42,6 +42,8 @@ const createConnectionSchema = z.object({
   password: z.string().optional(),
   database: z.string().max(255).optional(),
   sslEnabled: z.boolean().default(false),
+  isProtected: z.boolean().default(false),
+  approvalChannelIds: z.array(z.string().min(1)).max(20).optional(),
   metadata: z.record(z.unknown()).optional(),
 });
 
@@ -53,6 +55,8 @@ const updateConnectionSchema = z.object({
   password: z.string().optional(),
   database: z.string().max(255).optional().nullable(),
   sslEnabled: z.boolean().optional(),
+  isProtected: z.boolean().optional(),
+  approvalChannelIds: z.array(z.string().min(1)).max(20).optional(),
   isActive: z.boolean().optional(),
   isDefault: z.boolean().optional(),
   metadata: z.record(z.unknown()).optional(),
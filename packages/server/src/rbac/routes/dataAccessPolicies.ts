@@ -3,6 +3,7 @@
  *
  * CRUD for named, reusable data access policies and their attachment to roles.
  * Policies group database/table pattern rules and are scoped to connections.
+ * The preview route resolves what a given user would get for one table.
  */
 
 import { Hono } from 'hono';
@@ -17,7 +18,9 @@ import {
   getPoliciesForRole,
   getRolesForPolicy,
   setPoliciesForRole,
+  COLUMN_MASK_ACTIONS,
 } from '../services/dataAccessPolicies';
+import { checkUserAccess } from '../services/dataAccess';
 import { listConnectionDatabases, listConnectionTables } from '../services/connections';
 import { rbacAuthMiddleware, requirePermission, getRbacUser, getClientIp } from '../middleware';
 import { createAuditLogWithContext } from '../services/rbac';
@@ -36,9 +39,20 @@ const ruleSchema = z.object({
   connectionId: z.string().uuid().nullable().optional(),
   databasePattern: z.string().min(1).max(255).default('*'),
   tablePattern: z.string().min(1).max(255).default('*'),
+  // set = column rule: masks matching columns instead of granting the table
+  columnPattern: z.string().min(1).max(255).nullable().optional(),
+  columnAction: z.enum(COLUMN_MASK_ACTIONS).nullable().optional(),
+  // SQL predicate limiting the rows an allow table rule grants
+  rowFilter: z.string().trim().max(2000).nullable().optional(),
   isAllowed: z.boolean().default(true),
   priority: z.number().int().min(-1000).max(1000).default(0),
   description: z.string().max(500).nullable().optional(),
+}).refine((rule) => !rule.columnAction || rule.columnPattern, {
+  message: 'columnAction requires a columnPattern',
+  path: ['columnAction'],
+}).refine((rule) => !rule.rowFilter || (rule.isAllowed && !rule.columnPattern), {
+  message: 'rowFilter is only allowed on allow rules without a columnPattern',
+  path: ['rowFilter'],
 });
 
 const createPolicySchema = z.object({
@@ -57,6 +71,13 @@ const setRolePoliciesSchema = z.object({
   policyIds: z.array(z.string().uuid()),
 });
 
+const previewSchema = z.object({
+  userId: z.string().min(1),
+  connectionId: z.string().uuid().optional(),
+  database: z.string().min(1),
+  table: z.string().min(1),
+});
+
 // ============================================
 // Routes
 // ============================================
@@ -149,6 +170,32 @@ policyRoutes.get('/:id/roles', rbacAuthMiddleware, requirePermission(PERMISSIONS
   }
 });
 
+// Effective access, row filter and column rules of one user for one table
+policyRoutes.get(
+  '/preview',
+  rbacAuthMiddleware,
+  requirePermission(PERMISSIONS.DATA_ACCESS_VIEW),
+  zValidator('query', previewSchema),
+  async (c) => {
+    try {
+      const { userId, connectionId, database, table } = c.req.valid('query');
+      const result = await checkUserAccess(userId, database, table, 'read', connectionId);
+      return c.json({
+        success: true,
+        data: {
+          allowed: result.allowed,
+          reason: result.reason ?? null,
+          rowFilter: result.rowFilter ?? null,
+          columnRules: result.columnRules ?? [],
+        },
+      });
+    } catch (error) {
+      requestLogger(c.get('requestId')).error({ module: 'DataAccessPolicies', err: error instanceof Error ? error.message : String(error) }, 'Preview error');
+      return c.json({ success: false, error: { code: 'FETCH_FAILED', message: 'Failed to preview data access' } }, 500);
+    }
+  }
+);
+
 // Get policy by id
 policyRoutes.get('/:id', rbacAuthMiddleware, requirePermission(PERMISSIONS.DATA_ACCESS_VIEW), async (c) => {
   try {
@@ -15,6 +15,7 @@ import dataAccessPoliciesRoutes from './dataAccessPolicies';
 import clickhouseUsersRoutes from './clickhouseUsers';
 import clickhouseRolesRoutes from './clickhouseRoles';
 import userPreferencesRoutes from './userPreferences';
+import apiKeyRoutes from './apiKeys';
 import aiProvidersRoutes from './aiProviders';
 import aiModelsRoutes from './aiModels';
 import aiConfigsRoutes from './aiConfigs';
@@ -35,6 +36,7 @@ rbacRoutes.route('/data-access-policies', dataAccessPoliciesRoutes);
 rbacRoutes.route('/clickhouse-users', clickhouseUsersRoutes);
 rbacRoutes.route('/clickhouse-roles', clickhouseRolesRoutes);
 rbacRoutes.route('/user-preferences', userPreferencesRoutes);
+rbacRoutes.route('/api-keys', apiKeyRoutes);
 rbacRoutes.route('/ai-providers', aiProvidersRoutes);
 rbacRoutes.route('/ai-base-models', aiModelsRoutes);
 rbacRoutes.route('/ai-models', aiConfigsRoutes);
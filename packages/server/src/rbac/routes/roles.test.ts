@@ -23,6 +23,14 @@ mock.module("../services/rbac", () => ({
     createAuditLog: mockCreateAuditLog,
 }));
 
+const mockGetRoleQueryQuota = mock();
+const mockSetRoleQueryQuota = mock();
+
+mock.module("../services/queryQuotas", () => ({
+    getRoleQueryQuota: mockGetRoleQueryQuota,
+    setRoleQueryQuota: mockSetRoleQueryQuota,
+}));
+
 // Mock JWT Service
 let mockTokenPayload = {
     sub: 'admin-id',
@@ -57,6 +65,8 @@ describe("RBAC Roles Routes", () => {
         mockListPermissions.mockClear();
         mockGetPermissionsByCategory.mockClear();
         mockCreateAuditLog.mockClear();
+        mockGetRoleQueryQuota.mockClear();
+        mockSetRoleQueryQuota.mockClear();
 
         mockTokenPayload = {
             sub: 'admin-id',
@@ -125,6 +135,35 @@ describe("RBAC Roles Routes", () => {
         });
     });
 
+    describe("PUT /roles/:id/quota", () => {
+        it("should replace the role quota", async () => {
+            mockGetRoleById.mockResolvedValue({ id: "r1", isSystem: false });
+            mockSetRoleQueryQuota.mockResolvedValue({ roleId: "r1", maxExecutionTime: 60 });
+
+            const res = await app.request("/roles/r1/quota", {
+                method: "PUT",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ maxExecutionTime: 60, dailyQueryLimit: null })
+            });
+
+            expect(res.status).toBe(200);
+            expect(mockSetRoleQueryQuota).toHaveBeenCalledWith("r1", { maxExecutionTime: 60, dailyQueryLimit: null }, "admin-id");
+        });
+
+        it("should reject non-positive limits", async () => {
+            mockGetRoleById.mockResolvedValue({ id: "r1", isSystem: false });
+
+            const res = await app.request("/roles/r1/quota", {
+                method: "PUT",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ maxMemoryUsage: 0 })
+            });
+
+            expect(res.status).toBe(400);
+            expect(mockSetRoleQueryQuota).not.toHaveBeenCalled();
+        });
+    });
+
     describe("PATCH /roles/:id", () => {
         it("should update role", async () => {
             mockGetRoleById.mockResolvedValue({ id: "r1", isSystem: false });
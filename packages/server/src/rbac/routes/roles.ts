@@ -17,6 +17,7 @@ import {
   getPermissionsByCategory,
   createAuditLogWithContext,
 } from '../services/rbac';
+import { getRoleQueryQuota, setRoleQueryQuota } from '../services/queryQuotas';
 import { AUDIT_ACTIONS, PERMISSIONS } from '../schema/base';
 import {
   requirePermission,
@@ -55,6 +56,18 @@ const UpdateRoleSchema = z.object({
   isDefault: z.boolean().optional(),
 });
 
+// Null clears a limit (unlimited)
+const quotaLimit = z.number().int().positive().max(Number.MAX_SAFE_INTEGER).nullable().optional();
+
+const RoleQuotaSchema = z.object({
+  maxExecutionTime: quotaLimit,
+  maxMemoryUsage: quotaLimit,
+  maxResultRows: quotaLimit,
+  maxBytesToRead: quotaLimit,
+  dailyQueryLimit: quotaLimit,
+  dailyBytesLimit: quotaLimit,
+});
+
 // ============================================
 // Routes
 // ============================================
@@ -219,6 +232,57 @@ roleRoutes.delete('/:id', requirePermission(PERMISSIONS.ROLES_DELETE), async (c)
   }
 });
 
+/**
+ * GET /rbac/roles/:id/quota
+ * Get the query quota of a role
+ */
+roleRoutes.get('/:id/quota', requirePermission(PERMISSIONS.ROLES_VIEW), async (c) => {
+  const id = requireParam(c, 'id');
+  const role = await getRoleById(id);
+  if (!role) {
+    throw AppError.notFound('Role not found');
+  }
+
+  const quota = await getRoleQueryQuota(id);
+
+  return c.json({
+    success: true,
+    data: { quota },
+  });
+});
+
+/**
+ * PUT /rbac/roles/:id/quota
+ * Replace the query quota of a role (omitted or null limits are unlimited)
+ */
+roleRoutes.put('/:id/quota', requirePermission(PERMISSIONS.ROLES_UPDATE), zValidator('json', RoleQuotaSchema), async (c) => {
+  const id = requireParam(c, 'id');
+  const input = c.req.valid('json');
+  const currentUser = getRbacUser(c);
+
+  const role = await getRoleById(id);
+  if (!role) {
+    throw AppError.notFound('Role not found');
+  }
+  if (role.isSystem && !isSuperAdmin(c)) {
+    throw AppError.forbidden('Cannot modify system role');
+  }
+
+  const quota = await setRoleQueryQuota(id, input, currentUser.sub);
+
+  await createAuditLogWithContext(c, AUDIT_ACTIONS.ROLE_UPDATE, currentUser.sub, {
+    resourceType: 'role',
+    resourceId: id,
+    details: { quota: input },
+    ipAddress: getClientIp(c),
+  });
+
+  return c.json({
+    success: true,
+    data: { quota },
+  });
+});
+
 /**
  * GET /rbac/permissions
  * List all permissions
@@ -106,6 +106,11 @@ export const PERMISSIONS = {
   SCHEMA_ADVISOR_VIEW: 'schema_advisor:view',
   CLUSTER_VIEW: 'cluster:view',
   ERRORS_VIEW: 'errors:view',
+  // KILL MUTATION from Cluster Activity
+  MUTATIONS_KILL: 'mutations:kill',
+  // Dictionaries tab (system.dictionaries) and SYSTEM RELOAD DICTIONARY
+  DICTIONARIES_VIEW: 'dictionaries:view',
+  DICTIONARIES_RELOAD: 'dictionaries:reload',
 
   // Settings
   SETTINGS_VIEW: 'settings:view',
@@ -167,6 +172,18 @@ export const PERMISSIONS = {
   DATA_HEALTH_DELETE: 'data_health:delete',
   DATA_HEALTH_RUN: 'data_health:run',
   DATA_HEALTH_VIEW_ALL: 'data_health:view_all',
+
+  // Dashboards (grids of saved-query tiles; shared like saved queries)
+  DASHBOARDS_VIEW: 'dashboards:view',
+  DASHBOARDS_EDIT: 'dashboards:edit',
+
+  // Change Requests (DDL/DML on protected connections)
+  CHANGE_REQUESTS_APPROVE: 'change_requests:approve',
+
+  // Backups (BACKUP/RESTORE over system.backups, plus backup schedules)
+  BACKUPS_VIEW: 'backups:view',
+  BACKUPS_CREATE: 'backups:create',
+  BACKUPS_RESTORE: 'backups:restore',
 } as const;
 
 export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
@@ -359,6 +376,34 @@ for (const role of Object.keys(DEFAULT_ROLE_PERMISSIONS) as SystemRole[]) {
   if (perms.includes(PERMISSIONS.ROLES_VIEW)) {
     add(PERMISSIONS.DATA_ACCESS_VIEW);
   }
+  // Dashboards are built from saved queries: viewing follows saved_queries:view,
+  // building follows saved_queries:create.
+  if (perms.includes(PERMISSIONS.SAVED_QUERIES_VIEW)) {
+    add(PERMISSIONS.DASHBOARDS_VIEW);
+  }
+  if (perms.includes(PERMISSIONS.SAVED_QUERIES_CREATE)) {
+    add(PERMISSIONS.DASHBOARDS_EDIT);
+  }
+  // Killing mutations, like killing other users' queries, is an operator action.
+  if (perms.includes(PERMISSIONS.LIVE_QUERIES_KILL_ALL)) {
+    add(PERMISSIONS.MUTATIONS_KILL);
+  }
+  // The Dictionaries tab sits with the other monitoring tabs; reloading a
+  // dictionary is an operator action like killing a mutation.
+  if (perms.includes(PERMISSIONS.METRICS_VIEW)) {
+    add(PERMISSIONS.DICTIONARIES_VIEW);
+  }
+  if (perms.includes(PERMISSIONS.LIVE_QUERIES_KILL_ALL)) {
+    add(PERMISSIONS.DICTIONARIES_RELOAD);
+  }
+  // Approving changes on protected connections follows connection management.
+  if (perms.includes(PERMISSIONS.CONNECTIONS_EDIT)) {
+    add(PERMISSIONS.CHANGE_REQUESTS_APPROVE);
+  }
+  // Backups and restores are server operations; they follow connection management too.
+  if (perms.includes(PERMISSIONS.CONNECTIONS_EDIT)) {
+    add(PERMISSIONS.BACKUPS_VIEW, PERMISSIONS.BACKUPS_CREATE, PERMISSIONS.BACKUPS_RESTORE);
+  }
 }
 
 // ============================================
@@ -369,7 +414,9 @@ export const RESOURCE_TYPES = {
   DATABASE: 'database',
   TABLE: 'table',
   SAVED_QUERY: 'saved_query',
+  DASHBOARD: 'dashboard',
   CONNECTION: 'connection',
+  API_KEY: 'api_key',
 } as const;
 
 export type ResourceType = typeof RESOURCE_TYPES[keyof typeof RESOURCE_TYPES];
@@ -384,6 +431,8 @@ export const AUDIT_ACTIONS = {
   LOGOUT: 'auth.logout',
   LOGIN_FAILED: 'auth.login_failed',
   PASSWORD_CHANGE: 'auth.password_change',
+  API_KEY_CREATE: 'auth.api_key_create',
+  API_KEY_REVOKE: 'auth.api_key_revoke',
   SSO_LOGIN: 'auth.sso_login',
   SSO_LOGIN_FAILED: 'auth.sso_login_failed',
 
@@ -422,11 +471,13 @@ export const AUDIT_ACTIONS = {
   CH_ROLE_ENABLE: 'clickhouse.role_enable',
   CH_QUERY_EXECUTE: 'clickhouse.query_execute',
   CH_QUERY_EXPLAIN: 'clickhouse.query_explain',
+  CH_QUERY_EXPORT: 'clickhouse.query_export',
   CH_DATABASE_CREATE: 'clickhouse.database_create',
   CH_DATABASE_DROP: 'clickhouse.database_drop',
   CH_TABLE_CREATE: 'clickhouse.table_create',
   CH_TABLE_ALTER: 'clickhouse.table_alter',
   CH_TABLE_DROP: 'clickhouse.table_drop',
+  CH_DICTIONARY_CREATE: 'clickhouse.dictionary_create',
 
   // Settings
   SETTINGS_UPDATE: 'settings.update',
@@ -434,6 +485,12 @@ export const AUDIT_ACTIONS = {
   // Live Query Management
   LIVE_QUERY_KILL: 'live_query.kill',
 
+  // Mutation Management
+  MUTATION_KILL: 'mutation.kill',
+
+  // Dictionary Management
+  DICTIONARY_RELOAD: 'dictionary.reload',
+
   // Audit Logs
   AUDIT_LOG_DELETE: 'audit.delete',
 
@@ -484,6 +541,22 @@ export const AUDIT_ACTIONS = {
   ALERTING_CHANNEL_DELETE: 'alerting.channel_delete',
   ALERTING_CHANNEL_TEST: 'alerting.channel_test',
   ALERTING_EVENTS_CLEAR: 'alerting.events_clear',
+  ALERTING_EVENT_ACKNOWLEDGE: 'alerting.event_acknowledge',
+  ALERTING_INCIDENT_ACKNOWLEDGE: 'alerting.incident_acknowledge',
+  ALERTING_INCIDENT_SNOOZE: 'alerting.incident_snooze',
+  ALERTING_INCIDENT_RESOLVE: 'alerting.incident_resolve',
+  ALERTING_INCIDENT_NOTE: 'alerting.incident_note',
+  ALERTING_SILENCE_CREATE: 'alerting.silence_create',
+  ALERTING_SILENCE_UPDATE: 'alerting.silence_update',
+  ALERTING_SILENCE_DELETE: 'alerting.silence_delete',
+  ALERTING_MAINTENANCE_WINDOW_CREATE: 'alerting.maintenance_window_create',
+  ALERTING_MAINTENANCE_WINDOW_UPDATE: 'alerting.maintenance_window_update',
+  ALERTING_MAINTENANCE_WINDOW_DELETE: 'alerting.maintenance_window_delete',
+  ALERTING_ESCALATION_UPDATE: 'alerting.escalation_update',
+  ALERTING_DIGEST_CREATE: 'alerting.digest_create',
+  ALERTING_DIGEST_UPDATE: 'alerting.digest_update',
+  ALERTING_DIGEST_DELETE: 'alerting.digest_delete',
+  ALERTING_DIGEST_SEND: 'alerting.digest_send',
 
   // Scheduled Queries (DataOps)
   SCHEDULED_QUERY_CREATE: 'scheduled_query.create',
@@ -499,6 +572,23 @@ export const AUDIT_ACTIONS = {
   DATA_HEALTH_INCIDENT_ACKNOWLEDGE: 'data_health.incident_acknowledge',
   DATA_HEALTH_INCIDENT_SNOOZE: 'data_health.incident_snooze',
   DATA_HEALTH_INCIDENT_NOTE: 'data_health.incident_note',
+
+  // Dashboards
+  DASHBOARD_CREATE: 'dashboard.create',
+  DASHBOARD_UPDATE: 'dashboard.update',
+  DASHBOARD_DELETE: 'dashboard.delete',
+
+  // Change Requests
+  CHANGE_REQUEST_CREATE: 'change_request.create',
+  CHANGE_REQUEST_APPROVE: 'change_request.approve',
+  CHANGE_REQUEST_REJECT: 'change_request.reject',
+
+  // Backups
+  BACKUP_START: 'backup.start',
+  BACKUP_RESTORE: 'backup.restore',
+  BACKUP_SCHEDULE_CREATE: 'backup.schedule_create',
+  BACKUP_SCHEDULE_UPDATE: 'backup.schedule_update',
+  BACKUP_SCHEDULE_DELETE: 'backup.schedule_delete',
 } as const;
 
 export type AuditAction = typeof AUDIT_ACTIONS[keyof typeof AUDIT_ACTIONS];
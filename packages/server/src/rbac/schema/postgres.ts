@@ -5,9 +5,10 @@
  * Ideal for production and multi-instance deployments.
  */
 
-import { pgTable, text, boolean, timestamp, integer, uniqueIndex, index, jsonb, varchar } from 'drizzle-orm/pg-core';
+import { pgTable, text, boolean, timestamp, integer, bigint, uniqueIndex, index, jsonb, varchar } from 'drizzle-orm/pg-core';
 import { sql } from 'drizzle-orm';
 import type { AiModelParams } from '../constants/aiModelParams';
+import type { SavedQueryChartConfig } from '../constants/savedQueryCharts';
 
 // ============================================
 // Users Table
@@ -275,6 +276,9 @@ export const clickhouseConnections = pgTable('rbac_clickhouse_connections', {
   isDefault: boolean('is_default').notNull().default(false),
   isActive: boolean('is_active').notNull().default(true),
   sslEnabled: boolean('ssl_enabled').notNull().default(false),
+  // Protected: DDL/DML becomes a change request another user must approve
+  isProtected: boolean('is_protected').notNull().default(false),
+  approvalChannelIds: jsonb('approval_channel_ids').$type<string[]>(),
   createdBy: text('created_by').references(() => users.id, { onDelete: 'set null' }),
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
@@ -305,13 +309,18 @@ export const dataAccessPolicies = pgTable('rbac_data_access_policies', {
 }));
 
 // Pattern entries inside a policy. connectionId scopes the rule to one connection;
-// null = applies to all connections.
+// null = applies to all connections. A rule with a columnPattern is a column rule:
+// it masks matching columns (columnAction) instead of deciding table access.
+// rowFilter is a SQL predicate limiting the rows an allow rule grants.
 export const dataAccessPolicyRules = pgTable('rbac_data_access_policy_rules', {
   id: text('id').primaryKey(),
   policyId: text('policy_id').notNull().references(() => dataAccessPolicies.id, { onDelete: 'cascade' }),
   connectionId: text('connection_id').references(() => clickhouseConnections.id, { onDelete: 'cascade' }),
   databasePattern: varchar('database_pattern', { length: 255 }).notNull().default('*'),
   tablePattern: varchar('table_pattern', { length: 255 }).notNull().default('*'),
+  columnPattern: varchar('column_pattern', { length: 255 }),
+  columnAction: varchar('column_action', { length: 16 }),
+  rowFilter: text('row_filter'),
   isAllowed: boolean('is_allowed').notNull().default(true),
   priority: integer('priority').notNull().default(0),
   description: text('description'),
@@ -352,6 +361,36 @@ export const clickhouseRoleState = pgTable('rbac_clickhouse_role_state', {
   connRoleIdx: uniqueIndex('ch_role_state_conn_role_idx').on(table.connectionId, table.roleName),
 }));
 
+// ============================================
+// Query Quota Tables
+// Per-role resource limits sent as ClickHouse settings with proxied queries,
+// and the per-user daily usage the query/bytes budgets are checked against.
+// A null limit means unlimited.
+// ============================================
+
+export const roleQueryQuotas = pgTable('rbac_role_query_quotas', {
+  roleId: text('role_id').primaryKey().references(() => roles.id, { onDelete: 'cascade' }),
+  maxExecutionTime: integer('max_execution_time'), // seconds
+  maxMemoryUsage: bigint('max_memory_usage', { mode: 'number' }), // bytes
+  maxResultRows: integer('max_result_rows'),
+  maxBytesToRead: bigint('max_bytes_to_read', { mode: 'number' }),
+  dailyQueryLimit: integer('daily_query_limit'),
+  dailyBytesLimit: bigint('daily_bytes_limit', { mode: 'number' }),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedBy: text('updated_by').references(() => users.id, { onDelete: 'set null' }),
+});
+
+export const userQueryUsage = pgTable('rbac_user_query_usage', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  day: varchar('day', { length: 10 }).notNull(), // UTC date, YYYY-MM-DD
+  queryCount: integer('query_count').notNull().default(0),
+  bytesRead: bigint('bytes_read', { mode: 'number' }).notNull().default(0),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => ({
+  userDayIdx: uniqueIndex('user_query_usage_user_day_idx').on(table.userId, table.day),
+}));
+
 // ============================================
 // User Preferences Tables
 // Stores user-specific UI preferences, favorites, and recent items
@@ -407,6 +446,10 @@ export const savedQueries = pgTable('rbac_saved_queries', {
   query: text('query').notNull(),
   description: text('description'),
   isPublic: boolean('is_public').notNull().default(false),
+  parameters: jsonb('parameters').$type<Record<string, string>>(), // Last-used values for {name:Type} placeholders
+  chartConfig: jsonb('chart_config').$type<SavedQueryChartConfig>(), // Result chart view (NULL = grid only)
+  folder: text('folder'), // Slash-separated folder path, e.g. 'Finance/Revenue' (NULL = top level)
+  tags: jsonb('tags').$type<string[]>(), // Free-form labels
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
 }, (table) => ({
@@ -414,6 +457,24 @@ export const savedQueries = pgTable('rbac_saved_queries', {
   connIdx: index('saved_queries_conn_idx').on(table.connectionId),
 }));
 
+/**
+ * Saved Query Revisions Table
+ * Append-only history of a saved query's name, SQL and description. A row is
+ * written on create and on every update that changes one of them.
+ */
+export const savedQueryRevisions = pgTable('rbac_saved_query_revisions', {
+  id: text('id').primaryKey(),
+  savedQueryId: text('saved_query_id').notNull().references(() => savedQueries.id, { onDelete: 'cascade' }),
+  version: integer('version').notNull(), // 1-based, increments per saved query
+  name: varchar('name', { length: 255 }).notNull(),
+  query: text('query').notNull(),
+  description: text('description'),
+  editedBy: text('edited_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => ({
+  queryVersionIdx: uniqueIndex('saved_query_revisions_query_version_idx').on(table.savedQueryId, table.version),
+}));
+
 /**
  * User Preferences Table
  * Stores user-specific UI preferences (view mode, sort order, etc.)
@@ -552,8 +613,14 @@ export type RoleDataAccessPolicy = typeof roleDataAccessPolicies.$inferSelect;
 export type NewRoleDataAccessPolicy = typeof roleDataAccessPolicies.$inferInsert;
 export type ClickHouseRoleState = typeof clickhouseRoleState.$inferSelect;
 export type NewClickHouseRoleState = typeof clickhouseRoleState.$inferInsert;
+export type RoleQueryQuota = typeof roleQueryQuotas.$inferSelect;
+export type NewRoleQueryQuota = typeof roleQueryQuotas.$inferInsert;
+export type UserQueryUsage = typeof userQueryUsage.$inferSelect;
+export type NewUserQueryUsage = typeof userQueryUsage.$inferInsert;
 export type SavedQuery = typeof savedQueries.$inferSelect;
 export type NewSavedQuery = typeof savedQueries.$inferInsert;
+export type SavedQueryRevision = typeof savedQueryRevisions.$inferSelect;
+export type NewSavedQueryRevision = typeof savedQueryRevisions.$inferInsert;
 export type AiChatThread = typeof aiChatThreads.$inferSelect;
 export type NewAiChatThread = typeof aiChatThreads.$inferInsert;
 export type AiChatMessage = typeof aiChatMessages.$inferSelect;
@@ -8,6 +8,7 @@
 import { sqliteTable, text, integer, uniqueIndex, index } from 'drizzle-orm/sqlite-core';
 import { sql } from 'drizzle-orm';
 import type { AiModelParams } from '../constants/aiModelParams';
+import type { SavedQueryChartConfig } from '../constants/savedQueryCharts';
 
 // ============================================
 // Users Table
@@ -275,6 +276,9 @@ export const clickhouseConnections = sqliteTable('rbac_clickhouse_connections',
   isDefault: integer('is_default', { mode: 'boolean' }).notNull().default(false),
   isActive: integer('is_active', { mode: 'boolean' }).notNull().default(true),
   sslEnabled: integer('ssl_enabled', { mode: 'boolean' }).notNull().default(false),
+  // Protected: DDL/DML becomes a change request another user must approve
+  isProtected: integer('is_protected', { mode: 'boolean' }).notNull().default(false),
+  approvalChannelIds: text('approval_channel_ids', { mode: 'json' }).$type<string[]>(),
   createdBy: text('created_by').references(() => users.id, { onDelete: 'set null' }),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
@@ -305,13 +309,18 @@ export const dataAccessPolicies = sqliteTable('rbac_data_access_policies', {
 }));
 
 // Pattern entries inside a policy. connectionId scopes the rule to one connection;
-// null = applies to all connections.
+// null = applies to all connections. A rule with a columnPattern is a column rule:
+// it masks matching columns (columnAction) instead of deciding table access.
+// rowFilter is a SQL predicate limiting the rows an allow rule grants.
 export const dataAccessPolicyRules = sqliteTable('rbac_data_access_policy_rules', {
   id: text('id').primaryKey(),
   policyId: text('policy_id').notNull().references(() => dataAccessPolicies.id, { onDelete: 'cascade' }),
   connectionId: text('connection_id').references(() => clickhouseConnections.id, { onDelete: 'cascade' }),
   databasePattern: text('database_pattern').notNull().default('*'),
   tablePattern: text('table_pattern').notNull().default('*'),
+  columnPattern: text('column_pattern'),
+  columnAction: text('column_action'),
+  rowFilter: text('row_filter'),
   isAllowed: integer('is_allowed', { mode: 'boolean' }).notNull().default(true),
   priority: integer('priority').notNull().default(0),
   description: text('description'),
@@ -354,6 +363,36 @@ export const clickhouseRoleState = sqliteTable('rbac_clickhouse_role_state', {
   connRoleIdx: uniqueIndex('ch_role_state_conn_role_idx').on(table.connectionId, table.roleName),
 }));
 
+// ============================================
+// Query Quota Tables
+// Per-role resource limits sent as ClickHouse settings with proxied queries,
+// and the per-user daily usage the query/bytes budgets are checked against.
+// A null limit means unlimited.
+// ============================================
+
+export const roleQueryQuotas = sqliteTable('rbac_role_query_quotas', {
+  roleId: text('role_id').primaryKey().references(() => roles.id, { onDelete: 'cascade' }),
+  maxExecutionTime: integer('max_execution_time'), // seconds
+  maxMemoryUsage: integer('max_memory_usage'), // bytes
+  maxResultRows: integer('max_result_rows'),
+  maxBytesToRead: integer('max_bytes_to_read'),
+  dailyQueryLimit: integer('daily_query_limit'),
+  dailyBytesLimit: integer('daily_bytes_limit'),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+  updatedBy: text('updated_by').references(() => users.id, { onDelete: 'set null' }),
+});
+
+export const userQueryUsage = sqliteTable('rbac_user_query_usage', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  day: text('day').notNull(), // UTC date, YYYY-MM-DD
+  queryCount: integer('query_count').notNull().default(0),
+  bytesRead: integer('bytes_read').notNull().default(0),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+}, (table) => ({
+  userDayIdx: uniqueIndex('user_query_usage_user_day_idx').on(table.userId, table.day),
+}));
+
 // ============================================
 // User Preferences Tables
 // Stores user-specific UI preferences, favorites, and recent items
@@ -409,6 +448,10 @@ export const savedQueries = sqliteTable('rbac_saved_queries', {
   query: text('query').notNull(),
   description: text('description'),
   isPublic: integer('is_public', { mode: 'boolean' }).notNull().default(false),
+  parameters: text('parameters', { mode: 'json' }).$type<Record<string, string>>(), // Last-used values for {name:Type} placeholders
+  chartConfig: text('chart_config', { mode: 'json' }).$type<SavedQueryChartConfig>(), // Result chart view (NULL = grid only)
+  folder: text('folder'), // Slash-separated folder path, e.g. 'Finance/Revenue' (NULL = top level)
+  tags: text('tags', { mode: 'json' }).$type<string[]>(), // Free-form labels
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
 }, (table) => ({
@@ -416,6 +459,24 @@ export const savedQueries = sqliteTable('rbac_saved_queries', {
   connIdx: index('saved_queries_conn_idx').on(table.connectionId),
 }));
 
+/**
+ * Saved Query Revisions Table
+ * Append-only history of a saved query's name, SQL and description. A row is
+ * written on create and on every update that changes one of them.
+ */
+export const savedQueryRevisions = sqliteTable('rbac_saved_query_revisions', {
+  id: text('id').primaryKey(),
+  savedQueryId: text('saved_query_id').notNull().references(() => savedQueries.id, { onDelete: 'cascade' }),
+  version: integer('version').notNull(), // 1-based, increments per saved query
+  name: text('name').notNull(),
+  query: text('query').notNull(),
+  description: text('description'),
+  editedBy: text('edited_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+}, (table) => ({
+  queryVersionIdx: uniqueIndex('saved_query_revisions_query_version_idx').on(table.savedQueryId, table.version),
+}));
+
 /**
  * User Preferences Table
  * Stores user-specific UI preferences (view mode, sort order, etc.)
@@ -554,8 +615,14 @@ export type RoleDataAccessPolicy = typeof roleDataAccessPolicies.$inferSelect;
 export type NewRoleDataAccessPolicy = typeof roleDataAccessPolicies.$inferInsert;
 export type ClickHouseRoleState = typeof clickhouseRoleState.$inferSelect;
 export type NewClickHouseRoleState = typeof clickhouseRoleState.$inferInsert;
+export type RoleQueryQuota = typeof roleQueryQuotas.$inferSelect;
+export type NewRoleQueryQuota = typeof roleQueryQuotas.$inferInsert;
+export type UserQueryUsage = typeof userQueryUsage.$inferSelect;
+export type NewUserQueryUsage = typeof userQueryUsage.$inferInsert;
 export type SavedQuery = typeof savedQueries.$inferSelect;
 export type NewSavedQuery = typeof savedQueries.$inferInsert;
+export type SavedQueryRevision = typeof savedQueryRevisions.$inferSelect;
+export type NewSavedQueryRevision = typeof savedQueryRevisions.$inferInsert;
 export type AiChatThread = typeof aiChatThreads.$inferSelect;
 export type NewAiChatThread = typeof aiChatThreads.$inferInsert;
 export type AiChatMessage = typeof aiChatMessages.$inferSelect;
@@ -0,0 +1,120 @@
+/**
+ * Personal API keys against a real in-memory SQLite RBAC database: creation is
+ * bounded by the owner's permissions, and authentication yields the scope ∩
+ * live-permission intersection until the key is revoked or expires.
+ */
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+
+process.env.RBAC_DB_TYPE = "sqlite";
+process.env.RBAC_SQLITE_PATH = ":memory:";
+
+const { initializeDatabase, closeDatabase, getDatabase, getSchema } = await import("../db");
+const { runMigrations } = await import("../db/migrations");
+const { seedDatabase } = await import("./seed");
+const { createRole, createUser, updateUser } = await import("./rbac");
+const { createApiKey, listApiKeys, revokeApiKey, authenticateApiKey, hashApiKey } = await import("./apiKeys");
+const { PERMISSIONS } = await import("../schema/base");
+const { eq, inArray } = await import("drizzle-orm");
+
+let userId = "";
+let otherUserId = "";
+
+beforeAll(async () => {
+  await initializeDatabase();
+  await runMigrations({ skipSeed: true });
+  await seedDatabase();
+
+  const db = getDatabase() as any;
+  const schema = getSchema();
+  const perms = await db.select().from(schema.permissions)
+    .where(inArray(schema.permissions.name, [PERMISSIONS.DB_VIEW, PERMISSIONS.QUERY_EXECUTE]));
+
+  const role = await createRole({
+    name: "ci_reader",
+    displayName: "CI Reader",
+    permissionIds: perms.map((p: { id: string }) => p.id),
+  });
+
+  userId = (await createUser({ email: "ci@test.local", username: "ci", password: "Password123!", roleIds: [role.id] })).id;
+  otherUserId = (await createUser({ email: "other@test.local", username: "other", password: "Password123!", roleIds: [role.id] })).id;
+});
+
+afterAll(async () => { await closeDatabase(); });
+
+describe("createApiKey", () => {
+  it("returns the plaintext key once and stores only its hash", async () => {
+    const { apiKey, key } = await createApiKey(userId, { name: " nightly ", scopes: [PERMISSIONS.QUERY_EXECUTE] });
+
+    expect(key.startsWith("chk_")).toBe(true);
+    expect(apiKey.keyPrefix).toBe(key.slice(0, 12));
+    expect(apiKey.name).toBe("nightly");
+
+    const db = getDatabase() as any;
+    const schema = getSchema();
+    const [row] = await db.select().from(schema.apiKeys).where(eq(schema.apiKeys.id, apiKey.id));
+    expect(row.keyHash).toBe(hashApiKey(key));
+    expect(JSON.stringify(row)).not.toContain(key);
+  });
+
+  it("rejects scopes the owner does not hold", async () => {
+    await expect(createApiKey(userId, { name: "escalate", scopes: [PERMISSIONS.USERS_DELETE] }))
+      .rejects.toThrow(/do not have/);
+  });
+
+  it("rejects an expiry in the past", async () => {
+    await expect(createApiKey(userId, {
+      name: "stale",
+      scopes: [PERMISSIONS.QUERY_EXECUTE],
+      expiresAt: new Date(Date.now() - 1000),
+    })).rejects.toThrow(/future/);
+  });
+});
+
+describe("authenticateApiKey", () => {
+  it("resolves to the owner with permissions limited to the key's scopes", async () => {
+    const { apiKey, key } = await createApiKey(userId, { name: "scoped", scopes: [PERMISSIONS.QUERY_EXECUTE] });
+
+    const payload = await authenticateApiKey(key);
+    expect(payload.sub).toBe(userId);
+    expect(payload.apiKeyId).toBe(apiKey.id);
+    expect(payload.permissions).toEqual([PERMISSIONS.QUERY_EXECUTE]);
+
+    const listed = (await listApiKeys(userId)).find(k => k.id === apiKey.id);
+    expect(listed?.lastUsedAt).not.toBeNull();
+  });
+
+  it("rejects unknown, revoked and expired keys", async () => {
+    await expect(authenticateApiKey("chk_not-a-real-key")).rejects.toThrow("Invalid API key");
+
+    const revoked = await createApiKey(userId, { name: "to-revoke", scopes: [PERMISSIONS.QUERY_EXECUTE] });
+    await revokeApiKey(userId, revoked.apiKey.id);
+    await expect(authenticateApiKey(revoked.key)).rejects.toThrow("revoked");
+
+    const expiring = await createApiKey(userId, {
+      name: "short-lived",
+      scopes: [PERMISSIONS.QUERY_EXECUTE],
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    const db = getDatabase() as any;
+    const schema = getSchema();
+    await db.update(schema.apiKeys).set({ expiresAt: new Date(Date.now() - 1000) }).where(eq(schema.apiKeys.id, expiring.apiKey.id));
+    await expect(authenticateApiKey(expiring.key)).rejects.toThrow("expired");
+  });
+
+  it("rejects keys whose owner has been deactivated", async () => {
+    const { key } = await createApiKey(otherUserId, { name: "owner-disabled", scopes: [PERMISSIONS.DB_VIEW] });
+    await updateUser(otherUserId, { isActive: false });
+    await expect(authenticateApiKey(key)).rejects.toThrow("inactive");
+  });
+});
+
+describe("revokeApiKey", () => {
+  it("only revokes keys owned by the caller", async () => {
+    const { apiKey } = await createApiKey(userId, { name: "mine", scopes: [PERMISSIONS.QUERY_EXECUTE] });
+
+    expect(await revokeApiKey(otherUserId, apiKey.id)).toBeNull();
+
+    const revoked = await revokeApiKey(userId, apiKey.id);
+    expect(revoked?.revokedAt).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * API Keys Service
+ *
+ * Personal API keys for scripted access (CI jobs, notebooks, cron scripts).
+ * A key belongs to one user, is limited to a subset of that user's permissions
+ * (its scopes), and authenticates as that user on every API route that accepts
+ * a Bearer token. The plaintext key is returned once at creation time; only its
+ * SHA-256 hash is persisted.
+ */
+
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { getDatabase, getSchema } from '../db';
+import { getUserById, getUserPermissions } from './rbac';
+import type { TokenPayload } from './jwt';
+import {
+  API_KEY_PREFIX,
+  API_KEY_DISPLAY_PREFIX_LENGTH,
+  MAX_ACTIVE_API_KEYS_PER_USER,
+  isApiKeyToken,
+} from '../constants/apiKeys';
+import { AppError } from '../../types';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyDb = any;
+
+/** Only bump last_used_at when it is older than this, to avoid a write per request. */
+const LAST_USED_WRITE_INTERVAL_MS = 60_000;
+
+// ============================================
+// Types
+// ============================================
+
+export interface ApiKeyInput {
+  name: string;
+  scopes: string[];
+  expiresAt?: Date | null;
+}
+
+export interface ApiKeyResponse {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+  revokedAt: Date | null;
+}
+
+export interface CreatedApiKey {
+  apiKey: ApiKeyResponse;
+  /** Plaintext key. Never persisted — shown to the user exactly once. */
+  key: string;
+}
+
+interface ApiKeyRow {
+  id: string;
+  userId: string;
+  name: string;
+  keyHash: string;
+  keyPrefix: string;
+  scopes: string[] | null;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+  revokedAt: Date | null;
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function generateApiKey(): string {
+  return `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+}
+
+function toResponse(row: ApiKeyRow): ApiKeyResponse {
+  return {
+    id: row.id,
+    name: row.name,
+    keyPrefix: row.keyPrefix,
+    scopes: row.scopes ?? [],
+    expiresAt: row.expiresAt,
+    lastUsedAt: row.lastUsedAt,
+    createdAt: row.createdAt,
+    revokedAt: row.revokedAt,
+  };
+}
+
+function isExpired(row: Pick<ApiKeyRow, 'expiresAt'>, now: Date): boolean {
+  return row.expiresAt !== null && row.expiresAt.getTime() <= now.getTime();
+}
+
+// ============================================
+// Service Functions
+// ============================================
+
+/**
+ * List all API keys (active, expired and revoked) owned by a user, newest first.
+ */
+export async function listApiKeys(userId: string): Promise<ApiKeyResponse[]> {
+  const db = getDatabase() as AnyDb;
+  const schema = getSchema();
+
+  const rows: ApiKeyRow[] = await db.select()
+    .from(schema.apiKeys)
+    .where(eq(schema.apiKeys.userId, userId))
+    .orderBy(desc(schema.apiKeys.createdAt));
+
+  return rows.map(toResponse);
+}
+
+/**
+ * Create an API key for a user.
+ *
+ * @throws {AppError} badRequest when a scope is not one of the user's current
+ *   permissions, the expiry is in the past, or the active-key limit is reached.
+ */
+export async function createApiKey(userId: string, input: ApiKeyInput): Promise<CreatedApiKey> {
+  const db = getDatabase() as AnyDb;
+  const schema = getSchema();
+  const now = new Date();
+
+  const scopes = [...new Set(input.scopes)];
+  if (scopes.length === 0) {
+    throw AppError.badRequest('An API key needs at least one scope');
+  }
+
+  // A key can never grant more than its owner holds at creation time.
+  const userPermissions = await getUserPermissions(userId);
+  const notGranted = scopes.filter(scope => !userPermissions.includes(scope));
+  if (notGranted.length > 0) {
+    throw AppError.badRequest(`You cannot grant permissions you do not have: ${notGranted.join(', ')}`);
+  }
+
+  if (input.expiresAt && input.expiresAt.getTime() <= now.getTime()) {
+    throw AppError.badRequest('Expiry must be in the future');
+  }
+
+  const activeRows: ApiKeyRow[] = await db.select()
+    .from(schema.apiKeys)
+    .where(and(eq(schema.apiKeys.userId, userId), isNull(schema.apiKeys.revokedAt)));
+  const activeCount = activeRows.filter(row => !isExpired(row, now)).length;
+  if (activeCount >= MAX_ACTIVE_API_KEYS_PER_USER) {
+    throw AppError.badRequest(
+      `You already have ${MAX_ACTIVE_API_KEYS_PER_USER} active API keys. Revoke one before creating another.`
+    );
+  }
+
+  const key = generateApiKey();
+  const row: ApiKeyRow = {
+    id: randomUUID(),
+    userId,
+    name: input.name.trim(),
+    keyHash: hashApiKey(key),
+    keyPrefix: key.slice(0, API_KEY_DISPLAY_PREFIX_LENGTH),
+    scopes,
+    expiresAt: input.expiresAt ?? null,
+    lastUsedAt: null,
+    createdAt: now,
+    revokedAt: null,
+  };
+
+  await db.insert(schema.apiKeys).values(row);
+
+  return { apiKey: toResponse(row), key };
+}
+
+/**
+ * Revoke one of the user's API keys. Revoking an already-revoked key is a no-op.
+ *
+ * @returns The revoked key, or null when the key does not exist or belongs to someone else.
+ */
+export async function revokeApiKey(userId: string, id: string): Promise<ApiKeyResponse | null> {
+  const db = getDatabase() as AnyDb;
+  const schema = getSchema();
+
+  const rows: ApiKeyRow[] = await db.select()
+    .from(schema.apiKeys)
+    .where(and(eq(schema.apiKeys.id, id), eq(schema.apiKeys.userId, userId)))
+    .limit(1);
+
+  const row = rows[0];
+  if (!row) return null;
+  if (row.revokedAt) return toResponse(row);
+
+  const revokedAt = new Date();
+  await db.update(schema.apiKeys)
+    .set({ revokedAt })
+    .where(eq(schema.apiKeys.id, id));
+
+  return toResponse({ ...row, revokedAt });
+}
+
+/**
+ * Resolve a plaintext API key into the same payload shape a verified JWT yields.
+ *
+ * Permissions are the intersection of the key's scopes and the owner's
+ * *current* permissions, so demoting a user immediately narrows their keys.
+ *
+ * @throws {Error} When the key is unknown, revoked, expired, or its owner is inactive.
+ */
+export async function authenticateApiKey(key: string): Promise<TokenPayload> {
+  if (!isApiKeyToken(key)) {
+    throw new Error('Invalid API key');
+  }
+
+  const db = getDatabase() as AnyDb;
+  const schema = getSchema();
+  const now = new Date();
+
+  const rows: ApiKeyRow[] = await db.select()
+    .from(schema.apiKeys)
+    .where(eq(schema.apiKeys.keyHash, hashApiKey(key)))
+    .limit(1);
+
+  const row = rows[0];
+  if (!row) {
+    throw new Error('Invalid API key');
+  }
+  if (row.revokedAt) {
+    throw new Error('API key has been revoked');
+  }
+  if (isExpired(row, now)) {
+    throw new Error('API key has expired');
+  }
+
+  const user = await getUserById(row.userId);
+  if (!user || !user.isActive) {
+    throw new Error('API key owner is inactive');
+  }
+
+  const scopes = row.scopes ?? [];
+  const permissions = user.permissions.filter(permission => scopes.includes(permission));
+
+  if (!row.lastUsedAt || now.getTime() - row.lastUsedAt.getTime() > LAST_USED_WRITE_INTERVAL_MS) {
+    await db.update(schema.apiKeys)
+      .set({ lastUsedAt: now })
+      .where(eq(schema.apiKeys.id, row.id));
+  }
+
+  return {
+    sub: user.id,
+    email: user.email,
+    username: user.username,
+    roles: user.roles,
+    permissions,
+    sessionId: `api-key:${row.id}`,
+    type: 'access',
+    apiKeyId: row.id,
+  };
+}
@@ -30,6 +30,8 @@ export interface ConnectionInput {
   password?: string;
   database?: string | null;
   sslEnabled?: boolean;
+  isProtected?: boolean;
+  approvalChannelIds?: string[];
   metadata?: Record<string, unknown>;
 }
 
@@ -43,6 +45,10 @@ export interface ConnectionResponse {
   isDefault: boolean;
   isActive: boolean;
   sslEnabled: boolean;
+  /** DDL/DML on a protected connection needs a second user's approval */
+  isProtected: boolean;
+  /** Alerting channels notified about its change requests */
+  approvalChannelIds: string[];
   createdBy: string | null;
   createdAt: Date;
   updatedAt: Date;
@@ -212,6 +218,8 @@ export async function createConnection(
     isDefault: false,
     isActive: true,
     sslEnabled: input.sslEnabled || false,
+    isProtected: input.isProtected || false,
+    approvalChannelIds: input.approvalChannelIds || [],
     createdBy,
     createdAt: now,
     updatedAt: now,
@@ -246,6 +254,8 @@ export async function getConnectionById(id: string): Promise<ConnectionResponse
     isDefault: conn.isDefault,
     isActive: conn.isActive,
     sslEnabled: conn.sslEnabled,
+    isProtected: conn.isProtected,
+    approvalChannelIds: conn.approvalChannelIds ?? [],
     createdBy: conn.createdBy,
     createdAt: conn.createdAt,
     updatedAt: conn.updatedAt,
@@ -292,6 +302,8 @@ export async function getConnectionWithPassword(id: string): Promise<ConnectionW
     isDefault: conn.isDefault,
     isActive: conn.isActive,
     sslEnabled: conn.sslEnabled,
+    isProtected: conn.isProtected,
+    approvalChannelIds: conn.approvalChannelIds ?? [],
     createdBy: conn.createdBy,
     createdAt: conn.createdAt,
     updatedAt: conn.updatedAt,
@@ -414,6 +426,8 @@ export async function listConnections(options?: {
     isDefault: conn.isDefault ?? false,
     isActive: conn.isActive ?? true,
     sslEnabled: conn.sslEnabled ?? false,
+    isProtected: conn.isProtected ?? false,
+    approvalChannelIds: conn.approvalChannelIds ?? [],
     createdBy: conn.createdBy,
     createdAt: conn.createdAt,
     updatedAt: conn.updatedAt,
@@ -447,6 +461,8 @@ export async function updateConnection(
   if (input.username !== undefined) updateData.username = input.username;
   if (input.database !== undefined) updateData.database = input.database;
   if (input.sslEnabled !== undefined) updateData.sslEnabled = input.sslEnabled;
+  if (input.isProtected !== undefined) updateData.isProtected = input.isProtected;
+  if (input.approvalChannelIds !== undefined) updateData.approvalChannelIds = input.approvalChannelIds;
   if (input.isActive !== undefined) updateData.isActive = input.isActive;
   if (input.metadata !== undefined) updateData.metadata = input.metadata;
 
@@ -526,6 +542,8 @@ export async function getDefaultConnection(): Promise<ConnectionResponse | null>
       isDefault: conn.isDefault,
       isActive: conn.isActive,
       sslEnabled: conn.sslEnabled,
+      isProtected: conn.isProtected,
+      approvalChannelIds: conn.approvalChannelIds ?? [],
       createdBy: conn.createdBy,
       createdAt: conn.createdAt,
       updatedAt: conn.updatedAt,
@@ -544,6 +562,8 @@ export async function getDefaultConnection(): Promise<ConnectionResponse | null>
     isDefault: conn.isDefault,
     isActive: conn.isActive,
     sslEnabled: conn.sslEnabled,
+    isProtected: conn.isProtected,
+    approvalChannelIds: conn.approvalChannelIds ?? [],
     createdBy: conn.createdBy,
     createdAt: conn.createdAt,
     updatedAt: conn.updatedAt,
@@ -758,6 +778,8 @@ export async function getUserConnections(userId: string): Promise<ConnectionResp
     isDefault: conn.isDefault,
     isActive: conn.isActive,
     sslEnabled: conn.sslEnabled,
+    isProtected: conn.isProtected,
+    approvalChannelIds: conn.approvalChannelIds ?? [],
     createdBy: conn.createdBy,
     createdAt: conn.createdAt,
     updatedAt: conn.updatedAt,
@@ -4,6 +4,9 @@ import { describe, it, expect, mock, beforeEach } from "bun:test";
 let mockResolvedRules: Array<{
   databasePattern: string;
   tablePattern: string;
+  columnPattern: string | null;
+  columnAction: "deny" | "hash" | "partial" | "null" | null;
+  rowFilter: string | null;
   isAllowed: boolean;
   priority: number;
   policyId: string;
@@ -33,12 +36,15 @@ mock.module("../db", () => ({
   getSchema: () => ({ userRoles: { userId: "userId", roleId: "roleId" } }),
 }));
 
-const { checkUserAccess, filterDatabasesForUser } = await import("./dataAccess");
+const { checkUserAccess, filterDatabasesForUser, hasPartialAccess } = await import("./dataAccess");
 
 function rule(partial: Partial<(typeof mockResolvedRules)[number]>): (typeof mockResolvedRules)[number] {
   return {
     databasePattern: "*",
     tablePattern: "*",
+    columnPattern: null,
+    columnAction: null,
+    rowFilter: null,
     isAllowed: true,
     priority: 0,
     policyId: "p1",
@@ -91,6 +97,73 @@ describe("DataAccess Service (RBAC)", () => {
     });
   });
 
+  describe("Column rules", () => {
+    it("returns column rules covering an allowed table without granting it", async () => {
+      mockResolvedRules = [
+        rule({ databasePattern: "crm", priority: 0 }),
+        rule({ databasePattern: "crm", tablePattern: "users", columnPattern: "email", columnAction: "hash", priority: 5 }),
+        rule({ databasePattern: "crm", tablePattern: "orders", columnPattern: "card_*", columnAction: "deny" }),
+      ];
+      const result = await checkUserAccess("user-1", "crm", "users", "read");
+      expect(result.allowed).toBe(true);
+      expect(result.columnRules?.map((r) => r.columnPattern)).toEqual(["email"]);
+    });
+
+    it("does not treat a column rule as table access", async () => {
+      mockResolvedRules = [rule({ databasePattern: "crm", columnPattern: "email", columnAction: "hash" })];
+      const result = await checkUserAccess("user-1", "crm", "users", "read");
+      expect(result.allowed).toBe(false);
+    });
+  });
+
+  describe("Row filters", () => {
+    it("returns the deciding rule's row filter, OR-ing equally ranked ones", async () => {
+      mockResolvedRules = [
+        rule({ databasePattern: "crm", priority: 0 }),
+        rule({ databasePattern: "crm", tablePattern: "customers", rowFilter: "region = 'EU'", priority: 5 }),
+        rule({ databasePattern: "crm", tablePattern: "cust*", rowFilter: "region = 'UK'", priority: 5 }),
+      ];
+      const result = await checkUserAccess("user-1", "crm", "customers", "read");
+      expect(result.allowed).toBe(true);
+      expect(result.rowFilter).toBe("(region = 'EU') OR (region = 'UK')");
+
+      const other = await checkUserAccess("user-1", "crm", "orders", "read");
+      expect(other.rowFilter).toBeUndefined();
+    });
+
+    it("grants every row when an equally ranked rule has no filter", async () => {
+      mockResolvedRules = [
+        rule({ databasePattern: "crm", rowFilter: "region = 'EU'" }),
+        rule({ databasePattern: "crm", tablePattern: "customers" }),
+      ];
+      const result = await checkUserAccess("user-1", "crm", "customers", "read");
+      expect(result.rowFilter).toBeUndefined();
+    });
+  });
+
+  describe("hasPartialAccess", () => {
+    it("flags tables under column rules or row filters", async () => {
+      mockResolvedRules = [
+        rule({ databasePattern: "crm" }),
+        rule({ databasePattern: "crm", tablePattern: "users", columnPattern: "email", columnAction: "hash" }),
+        rule({ databasePattern: "crm", tablePattern: "customers", rowFilter: "region = 'EU'", priority: 5 }),
+      ];
+      expect(await hasPartialAccess("user-1", "crm", "users")).toBe(true);
+      expect(await hasPartialAccess("user-1", "crm", "customers")).toBe(true);
+      expect(await hasPartialAccess("user-1", "crm", "orders")).toBe(false);
+    });
+
+    it("flags a database when any of its tables has a rule of its own", async () => {
+      mockResolvedRules = [
+        rule({ databasePattern: "crm" }),
+        rule({ databasePattern: "crm", tablePattern: "salaries", isAllowed: false, priority: 5 }),
+        rule({ databasePattern: "web" }),
+      ];
+      expect(await hasPartialAccess("user-1", "crm", null)).toBe(true);
+      expect(await hasPartialAccess("user-1", "web", null)).toBe(false);
+    });
+  });
+
   describe("filterDatabasesForUser", () => {
     it("filters the list based on the resolved rules", async () => {
       mockResolvedRules = [rule({ databasePattern: "visible", priority: 10 })];
@@ -5,12 +5,20 @@
  * **data access policies** attached to roles (see `dataAccessPolicies.ts`); a
  * user's effective rules are the flattened pattern rules from the policies on
  * their role(s). Supports wildcard/regex patterns and deny rules.
+ *
+ * Column rules (rules with a column pattern) never decide table access; when a
+ * table is allowed, the column rules covering it are returned alongside so the
+ * query middleware can deny or mask those columns.
+ *
+ * Row filters on allow rules narrow a grant to the rows matching a predicate.
+ * Like ClickHouse permissive row policies, filters of equally ranked rules are
+ * OR-ed, and an unfiltered rule at that rank grants every row.
  */
 
 import { eq } from 'drizzle-orm';
 import { getDatabase, getSchema } from '../db';
 import { logger } from '../../utils/logger';
-import { getPolicyRulesForRoleIds, type ResolvedPolicyRule } from './dataAccessPolicies';
+import { getPolicyRulesForRoleIds, type ColumnMaskAction, type ResolvedPolicyRule } from './dataAccessPolicies';
 
 // Type helper for working with dual database setup
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -32,6 +40,9 @@ export type AccessType = 'read' | 'write' | 'admin' | 'misc';
 export interface DataAccessRuleResponse {
   databasePattern: string;
   tablePattern: string;
+  columnPattern: string | null;
+  columnAction: ColumnMaskAction | null;
+  rowFilter: string | null;
   isAllowed: boolean;
   priority: number;
   policyId: string;
@@ -42,6 +53,10 @@ export interface AccessCheckResult {
   allowed: boolean;
   rule?: DataAccessRuleResponse;
   reason?: string;
+  /** Column rules covering an allowed table, highest priority first */
+  columnRules?: DataAccessRuleResponse[];
+  /** Predicate limiting the rows of an allowed table; absent = all rows */
+  rowFilter?: string;
 }
 
 // ============================================
@@ -63,7 +78,7 @@ function patternToRegex(pattern: string): RegExp {
  * Check if a value matches a pattern
  * Supports: exact match, * wildcard, regex (if starts with /)
  */
-function matchesPattern(value: string, pattern: string): boolean {
+export function matchesPattern(value: string, pattern: string): boolean {
   // Wildcard for all
   if (pattern === '*') return true;
 
@@ -94,6 +109,9 @@ function mapResolvedRule(rule: ResolvedPolicyRule): DataAccessRuleResponse {
   return {
     databasePattern: rule.databasePattern,
     tablePattern: rule.tablePattern,
+    columnPattern: rule.columnPattern,
+    columnAction: rule.columnAction,
+    rowFilter: rule.rowFilter,
     isAllowed: rule.isAllowed,
     priority: rule.priority,
     policyId: rule.policyId,
@@ -167,6 +185,29 @@ export async function checkRoleAccess(
   return evaluateRules(rules, database, table);
 }
 
+/**
+ * True when a user's rules hide part of `database`.`table` from them — column
+ * rules or a row filter — or, with `table` null, when any table of `database`
+ * is covered by its own table rule, column rule or row filter. Callers that
+ * copy whole tables (backups) refuse such targets for non-admins.
+ */
+export async function hasPartialAccess(
+  userId: string,
+  database: string,
+  table: string | null,
+  connectionId?: string
+): Promise<boolean> {
+  const rules = await getRulesForUser(userId, connectionId);
+  if (table !== null) {
+    const result = evaluateRules(rules, database, table);
+    return Boolean(result.columnRules || result.rowFilter);
+  }
+  return rules.some(rule =>
+    matchesPattern(database, rule.databasePattern) &&
+    (rule.tablePattern !== '*' || Boolean(rule.columnPattern) || Boolean(rule.rowFilter))
+  );
+}
+
 /**
  * Evaluate access rules for a database/table.
  * Rules are evaluated in order of priority (highest first); deny rules take
@@ -186,13 +227,15 @@ function evaluateRules(
     return { allowed: true, reason: 'System database access allowed by default' };
   }
 
+  const tableRules = rules.filter(rule => !rule.columnPattern);
+
   // For non-system databases, require explicit rules
-  if (rules.length === 0) {
+  if (tableRules.length === 0) {
     return { allowed: false, reason: 'No access rules defined' };
   }
 
   // Sort by priority (highest first), then deny rules before allow
-  const sortedRules = [...rules].sort((a, b) => {
+  const sortedRules = [...tableRules].sort((a, b) => {
     if (a.priority !== b.priority) {
       return b.priority - a.priority;
     }
@@ -208,12 +251,20 @@ function evaluateRules(
     if (table !== null && !matchesPattern(table, rule.tablePattern)) {
       continue;
     }
+    const columnRules = rule.isAllowed && table !== null
+      ? getColumnRules(rules, database, table)
+      : [];
+    const rowFilter = rule.isAllowed && table !== null
+      ? getRowFilter(sortedRules, rule.priority, database, table)
+      : null;
     return {
       allowed: rule.isAllowed,
       rule,
       reason: rule.isAllowed
         ? `Allowed by rule: ${rule.databasePattern}.${rule.tablePattern}`
         : `Denied by rule: ${rule.databasePattern}.${rule.tablePattern}`,
+      ...(columnRules.length > 0 && { columnRules }),
+      ...(rowFilter && { rowFilter }),
     };
   }
 
@@ -221,6 +272,45 @@ function evaluateRules(
   return { allowed: false, reason: 'No matching access rule' };
 }
 
+/**
+ * Column rules whose database/table patterns cover `database.table`, highest
+ * priority first.
+ */
+function getColumnRules(
+  rules: DataAccessRuleResponse[],
+  database: string,
+  table: string
+): DataAccessRuleResponse[] {
+  return rules
+    .filter(rule =>
+      rule.columnPattern &&
+      matchesPattern(database, rule.databasePattern) &&
+      matchesPattern(table, rule.tablePattern)
+    )
+    .sort((a, b) => b.priority - a.priority);
+}
+
+/**
+ * Combined row filter of the allow rules covering `database.table` at the
+ * deciding priority, or null when one of them grants every row.
+ */
+function getRowFilter(
+  tableRules: DataAccessRuleResponse[],
+  priority: number,
+  database: string,
+  table: string
+): string | null {
+  const filters: string[] = [];
+  for (const rule of tableRules) {
+    if (rule.priority !== priority || !rule.isAllowed) continue;
+    if (!matchesPattern(database, rule.databasePattern) || !matchesPattern(table, rule.tablePattern)) continue;
+    if (!rule.rowFilter) return null;
+    if (!filters.includes(rule.rowFilter)) filters.push(rule.rowFilter);
+  }
+  if (filters.length === 0) return null;
+  return filters.length === 1 ? filters[0] : filters.map((f) => `(${f})`).join(' OR ');
+}
+
 // System databases that should be hidden from non-admin users
 const SYSTEM_METADATA_DATABASES = ['system', 'information_schema', 'INFORMATION_SCHEMA'];
 
@@ -112,6 +112,35 @@ describe("dataAccessPolicies service", () => {
     expect(anyConn.some((r) => r.databasePattern === "global_db")).toBe(true);
   });
 
+  it("stores column rules and resolves them with their action", async () => {
+    const created = await policies.createPolicy({
+      name: "PII Masking",
+      rules: [
+        { connectionId: null, databasePattern: "crm", tablePattern: "*", isAllowed: true, priority: 0 },
+        { connectionId: null, databasePattern: "crm", tablePattern: "users", columnPattern: "email", columnAction: "hash", priority: 10 },
+      ],
+    });
+    const columnRule = created.rules.find((r) => r.columnPattern === "email");
+    expect(columnRule!.columnAction).toBe("hash");
+    expect(created.rules.find((r) => r.tablePattern === "*")!.columnPattern).toBeNull();
+
+    await policies.setPoliciesForRole(analystRoleId, [created.id]);
+    const resolved = await policies.getPolicyRulesForRoleIds([analystRoleId]);
+    expect(resolved.find((r) => r.columnPattern === "email")).toMatchObject({ columnAction: "hash", policyName: "PII Masking" });
+  });
+
+  it("stores row filters on table rules", async () => {
+    const created = await policies.createPolicy({
+      name: "EU Only",
+      rules: [{ connectionId: null, databasePattern: "crm", tablePattern: "customers", rowFilter: "  region = 'EU' ", isAllowed: true, priority: 0 }],
+    });
+    expect(created.rules[0].rowFilter).toBe("region = 'EU'");
+
+    await policies.setPoliciesForRole(analystRoleId, [created.id]);
+    const resolved = await policies.getPolicyRulesForRoleIds([analystRoleId]);
+    expect(resolved.find((r) => r.tablePattern === "customers")?.rowFilter).toBe("region = 'EU'");
+  });
+
   it("links/unlinks policies to roles and reports usage", async () => {
     const created = await policies.createPolicy({
       name: "Linkable",
@@ -5,6 +5,10 @@
  * to a specific connection (or null = all connections). Policies are attached to
  * roles (many-to-many). Roles are the primary access-control mechanism: a user's
  * effective data access is the union of the rules in the policies on their role(s).
+ *
+ * A rule with a `columnPattern` is a column rule: it does not grant or revoke the
+ * table, it denies or masks the matching columns of the tables it covers. An
+ * allow table rule may carry a `rowFilter` predicate, limiting the rows it grants.
  */
 
 import { eq, and, inArray, desc, asc, or, isNull } from 'drizzle-orm';
@@ -19,10 +23,22 @@ type AnyDb = any;
 // Types
 // ============================================
 
+/**
+ * What a column rule does to the matching columns: `deny` rejects queries that
+ * reference them, the others rewrite their values in the result.
+ */
+export const COLUMN_MASK_ACTIONS = ['deny', 'hash', 'partial', 'null'] as const;
+export type ColumnMaskAction = typeof COLUMN_MASK_ACTIONS[number];
+
 export interface PolicyRuleInput {
   connectionId?: string | null;
   databasePattern: string;
   tablePattern: string;
+  /** Null/absent = table rule; set = column rule (requires columnAction) */
+  columnPattern?: string | null;
+  columnAction?: ColumnMaskAction | null;
+  /** SQL predicate over the table's columns; allow table rules only */
+  rowFilter?: string | null;
   isAllowed?: boolean;
   priority?: number;
   description?: string | null;
@@ -34,6 +50,9 @@ export interface PolicyRuleResponse {
   connectionId: string | null;
   databasePattern: string;
   tablePattern: string;
+  columnPattern: string | null;
+  columnAction: ColumnMaskAction | null;
+  rowFilter: string | null;
   isAllowed: boolean;
   priority: number;
   description: string | null;
@@ -72,6 +91,9 @@ export interface DataAccessPolicyResponse {
 export interface ResolvedPolicyRule {
   databasePattern: string;
   tablePattern: string;
+  columnPattern: string | null;
+  columnAction: ColumnMaskAction | null;
+  rowFilter: string | null;
   isAllowed: boolean;
   priority: number;
   policyId: string;
@@ -93,6 +115,9 @@ function mapPolicyRule(row: AnyDb): PolicyRuleResponse {
     connectionId: row.connectionId ?? null,
     databasePattern: row.databasePattern,
     tablePattern: row.tablePattern,
+    columnPattern: row.columnPattern ?? null,
+    columnAction: row.columnPattern ? (row.columnAction ?? 'deny') : null,
+    rowFilter: row.rowFilter ?? null,
     isAllowed: Boolean(row.isAllowed),
     priority: row.priority,
     description: row.description ?? null,
@@ -233,6 +258,9 @@ export async function replacePolicyRules(
       connectionId: rule.connectionId ?? null,
       databasePattern: rule.databasePattern,
       tablePattern: rule.tablePattern,
+      columnPattern: rule.columnPattern || null,
+      columnAction: rule.columnPattern ? (rule.columnAction ?? 'deny') : null,
+      rowFilter: rule.rowFilter?.trim() || null,
       isAllowed: rule.isAllowed ?? true,
       priority: rule.priority ?? 0,
       description: rule.description ?? null,
@@ -355,6 +383,9 @@ export async function getPolicyRulesForRoleIds(
   return ruleRows.map((row: AnyDb) => ({
     databasePattern: row.databasePattern,
     tablePattern: row.tablePattern,
+    columnPattern: row.columnPattern ?? null,
+    columnAction: row.columnPattern ? (row.columnAction ?? 'deny') : null,
+    rowFilter: row.rowFilter ?? null,
     isAllowed: Boolean(row.isAllowed),
     priority: row.priority,
     policyId: row.policyId,
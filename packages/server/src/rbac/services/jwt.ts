@@ -63,6 +63,8 @@ export interface TokenPayload extends JWTPayload {
   permissions: string[];
   sessionId: string;
   type: 'access' | 'refresh';
+  /** Set when the request authenticated with a personal API key instead of a JWT. */
+  apiKeyId?: string;
 }
 
 export interface TokenPair {
@@ -0,0 +1,158 @@
+/**
+ * Integration test for the query quotas service.
+ *
+ * Boots a real in-memory SQLite RBAC database, runs all migrations (which
+ * creates the 1.54.0 quota and usage tables), then drives role quotas, usage
+ * tracking and guardrail resolution end-to-end.
+ */
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+
+// Use an in-memory SQLite DB for this test process.
+process.env.RBAC_DB_TYPE = "sqlite";
+process.env.RBAC_SQLITE_PATH = ":memory:";
+
+const { initializeDatabase, closeDatabase } = await import("../db");
+const { runMigrations } = await import("../db/migrations");
+const { seedDatabase } = await import("../services/seed");
+const { createUser, getRoleByName } = await import("./rbac");
+const quotas = await import("./queryQuotas");
+
+let analystRoleId = "";
+let viewerRoleId = "";
+let userId = "";
+
+beforeAll(async () => {
+  await initializeDatabase();
+  await runMigrations({ skipSeed: true });
+  await seedDatabase(); // creates system roles + super admin
+
+  analystRoleId = (await getRoleByName("analyst"))!.id;
+  viewerRoleId = (await getRoleByName("viewer"))!.id;
+  const user = await createUser({
+    email: "quota@example.com",
+    username: "quota-user",
+    password: "Sup3r-secret-pass!",
+    roleIds: [analystRoleId],
+  });
+  userId = user.id;
+});
+
+afterAll(async () => {
+  await closeDatabase();
+});
+
+describe("queryQuotas service", () => {
+  it("stores, replaces and clears a role quota", async () => {
+    const set = await quotas.setRoleQueryQuota(analystRoleId, { maxExecutionTime: 60, dailyQueryLimit: 3 }, userId);
+    expect(set.maxExecutionTime).toBe(60);
+    expect(set.dailyQueryLimit).toBe(3);
+    expect(set.maxMemoryUsage).toBeNull();
+
+    const replaced = await quotas.setRoleQueryQuota(analystRoleId, { maxMemoryUsage: 1_000_000 }, userId);
+    expect(replaced.maxExecutionTime).toBeNull();
+    expect(replaced.maxMemoryUsage).toBe(1_000_000);
+
+    const cleared = await quotas.setRoleQueryQuota(analystRoleId, {}, userId);
+    expect(cleared.maxMemoryUsage).toBeNull();
+    expect(cleared.updatedAt).toBeNull();
+  });
+
+  it("tracks daily usage and derives guardrail settings from the remaining budget", async () => {
+    await quotas.setRoleQueryQuota(analystRoleId, {
+      maxExecutionTime: 60,
+      maxBytesToRead: 5_000,
+      maxResultRows: 1_000,
+      dailyQueryLimit: 3,
+      dailyBytesLimit: 8_000,
+    }, userId);
+
+    await quotas.recordQueryUsage(userId, 2_500);
+    await quotas.recordQueryUsage(userId, 1_500);
+    const usage = await quotas.getQueryUsage(userId);
+    expect(usage.queryCount).toBe(2);
+    expect(usage.bytesRead).toBe(4_000);
+
+    const status = await quotas.getQueryBudgetStatus(userId);
+    expect(status.queryRatio).toBeCloseTo(2 / 3);
+    expect(status.bytesRatio).toBe(0.5);
+    expect(status.nearLimit).toBe(false);
+
+    const guardrails = await quotas.getQueryGuardrails(userId, 0);
+    expect(guardrails.settings).toEqual({ max_execution_time: 60, max_bytes_to_read: 4_000 });
+    expect(guardrails.maxResultRows).toBe(1_000);
+    expect((await quotas.getQueryGuardrails(userId, 200)).maxResultRows).toBe(200);
+  });
+
+  it("refuses queries that change a setting the quota locks", async () => {
+    await expect(
+      quotas.getQueryGuardrails(userId, 0, "SELECT * FROM events SETTINGS max_execution_time = 0")
+    ).rejects.toMatchObject({ statusCode: 403 });
+    await expect(
+      quotas.runWithQueryBudget(userId, async () => ({ bytes: 0 }), (res) => res.bytes, { sql: "SELECT 1 SETTINGS MAX_RESULT_ROWS=0" })
+    ).rejects.toMatchObject({ statusCode: 403 });
+    // Settings the quota leaves open stay the user's to choose
+    expect((await quotas.getQueryGuardrails(userId, 0, "SELECT 1 SETTINGS max_memory_usage = 0")).maxResultRows).toBe(1_000);
+  });
+
+  it("refuses queries once a daily budget is used up", async () => {
+    await quotas.recordQueryUsage(userId, 100);
+    expect((await quotas.getQueryBudgetStatus(userId)).nearLimit).toBe(true);
+    await expect(quotas.getQueryGuardrails(userId)).rejects.toMatchObject({ statusCode: 429 });
+  });
+
+  it("counts failed queries towards the budget", async () => {
+    const before = (await quotas.getQueryUsage(userId)).queryCount;
+    await quotas.setRoleQueryQuota(analystRoleId, {}, userId);
+
+    await expect(
+      quotas.runWithQueryBudget(userId, async () => { throw new Error("Unknown table"); }, () => 0)
+    ).rejects.toThrow("Unknown table");
+    const result = await quotas.runWithQueryBudget(userId, async () => ({ bytes: 300 }), (res) => res.bytes);
+
+    expect(result).toEqual({ bytes: 300 });
+    const usage = await quotas.getQueryUsage(userId);
+    expect(usage.queryCount).toBe(before + 2);
+  });
+
+  it("leaves users of roles without a quota unlimited", async () => {
+    const other = await createUser({
+      email: "viewer@example.com",
+      username: "viewer-user",
+      password: "Sup3r-secret-pass!",
+      roleIds: [viewerRoleId],
+    });
+
+    const quota = await quotas.getUserQueryQuota(other.id);
+    expect(quota.dailyQueryLimit).toBeNull();
+    expect(await quotas.getQueryGuardrails(other.id, 500)).toEqual({ settings: {}, maxResultRows: 500 });
+  });
+});
+
+describe("checkGuardrailStatement", () => {
+  const quota = {
+    maxExecutionTime: 60,
+    maxMemoryUsage: 1_000_000,
+    maxResultRows: null,
+    maxBytesToRead: null,
+    dailyQueryLimit: null,
+    dailyBytesLimit: 5_000,
+  };
+
+  it("rejects statements that name a locked setting", () => {
+    expect(quotas.checkGuardrailStatement("SELECT * FROM t SETTINGS max_memory_usage=0, max_execution_time=0", quota))
+      .toContain("max_execution_time");
+    expect(quotas.checkGuardrailStatement("SELECT * FROM t SETTINGS max_bytes_to_read = 0", quota))
+      .toContain("max_bytes_to_read");
+    expect(quotas.checkGuardrailStatement("SELECT * FROM t SETTINGS max_result_rows = 0", quota)).toBeNull();
+    expect(quotas.checkGuardrailStatement("SELECT * FROM t", quota)).toBeNull();
+  });
+});
+
+describe("mergeGuardrailSettings", () => {
+  it("keeps the stricter limit and treats 0 as unlimited", () => {
+    expect(quotas.mergeGuardrailSettings(
+      { max_execution_time: 300, max_memory_usage: "0", priority: 10 },
+      { max_execution_time: 600, max_memory_usage: 1_000, max_bytes_to_read: 5_000 }
+    )).toEqual({ max_execution_time: 300, max_memory_usage: 1_000, max_bytes_to_read: 5_000, priority: 10 });
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * Query Quotas Service
+ *
+ * Per-role resource guardrails for proxied queries. A role's quota caps
+ * execution time, memory, result rows and bytes read per query (sent to
+ * ClickHouse as query settings), and sets a daily budget of queries and bytes
+ * read, tracked per user per UTC day. Users hold a single role, so a user's
+ * quota is their role's; roles without a quota are unlimited.
+ */
+
+import { eq, and, getTableColumns, sql } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+import { getDatabase, getSchema } from '../db';
+import { AppError } from '../../types';
+import { logger } from '../../utils/logger';
+
+// Type helper for working with the dual (SQLite | PostgreSQL) database setup.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyDb = any;
+
+// ============================================
+// Types
+// ============================================
+
+export const QUERY_QUOTA_FIELDS = [
+  'maxExecutionTime',
+  'maxMemoryUsage',
+  'maxResultRows',
+  'maxBytesToRead',
+  'dailyQueryLimit',
+  'dailyBytesLimit',
+] as const;
+export type QueryQuotaField = typeof QUERY_QUOTA_FIELDS[number];
+
+/** Resource limits; null = unlimited. */
+export type QueryQuota = Record<QueryQuotaField, number | null>;
+
+export interface RoleQueryQuotaResponse extends QueryQuota {
+  roleId: string;
+  updatedAt: Date | null;
+  updatedBy: string | null;
+}
+
+export interface QueryUsage {
+  /** UTC day the usage counts towards (YYYY-MM-DD) */
+  day: string;
+  queryCount: number;
+  bytesRead: number;
+}
+
+export interface QueryBudgetStatus {
+  quota: QueryQuota;
+  usage: QueryUsage;
+  /** Share of each daily budget used (0..1), or null when it is unlimited */
+  queryRatio: number | null;
+  bytesRatio: number | null;
+  /** True once either daily budget is at least BUDGET_WARNING_RATIO used */
+  nearLimit: boolean;
+  /** When the daily budgets reset (next UTC midnight, ISO 8601) */
+  resetsAt: string;
+}
+
+export interface QueryGuardrails {
+  /** ClickHouse settings to send with the query */
+  settings: Record<string, number>;
+  /** Row cap to pass as the query's maxResultRows (undefined = server default) */
+  maxResultRows?: number;
+}
+
+/** Share of a daily budget at which the user is warned. */
+export const BUDGET_WARNING_RATIO = 0.8;
+
+const EMPTY_QUOTA: QueryQuota = {
+  maxExecutionTime: null,
+  maxMemoryUsage: null,
+  maxResultRows: null,
+  maxBytesToRead: null,
+  dailyQueryLimit: null,
+  dailyBytesLimit: null,
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+/** UTC day key for usage rows. */
+export function usageDay(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(now: Date): string {
+  const next = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+  return next.toISOString();
+}
+
+function pickQuota(row: Partial<QueryQuota> | undefined): QueryQuota {
+  const quota = { ...EMPTY_QUOTA };
+  if (!row) return quota;
+  for (const field of QUERY_QUOTA_FIELDS) {
+    const value = row[field];
+    quota[field] = value === null || value === undefined ? null : Number(value);
+  }
+  return quota;
+}
+
+function isEmptyQuota(quota: QueryQuota): boolean {
+  return QUERY_QUOTA_FIELDS.every((field) => quota[field] === null);
+}
+
+function usageRatio(used: number, limit: number | null): number | null {
+  if (limit === null) return null;
+  if (limit <= 0) return 1;
+  return Math.min(1, used / limit);
+}
+
+// ============================================
+// Role Quotas
+// ============================================
+
+/** A role's quota; every limit is null when none is configured. */
+export async function getRoleQueryQuota(roleId: string): Promise<RoleQueryQuotaResponse> {
+  const db = getDatabase() as AnyDb;
+  const schema = getSchema();
+
+  const rows = await db.select()
+    .from(schema.roleQueryQuotas)
+    .where(eq(schema.roleQueryQuotas.roleId, roleId))
+    .limit(1);
+  const row = rows[0];
+
+  return {
+    roleId,
+    ...pickQuota(row),
+    updatedAt: row?.updatedAt ?? null,
+    updatedBy: row?.updatedBy ?? null,
+  };
+}
+
+/**
+ * Replace a role's quota. Fields left out are cleared, and a quota with no
+ * limits removes the row.
+ */
+export async function setRoleQueryQuota(
+  roleId: string,
+  input: Partial<QueryQuota>,
+  updatedBy: string
+): Promise<RoleQueryQuotaResponse> {
+  const db = getDatabase() as AnyDb;
+  const schema = getSchema();
+  const quota = pickQuota(input);
+
+  if (isEmptyQuota(quota)) {
+    await db.delete(schema.roleQueryQuotas).where(eq(schema.roleQueryQuotas.roleId, roleId));
+    return getRoleQueryQuota(roleId);
+  }
+
+  const now = new Date();
+  await db
+    .insert(schema.roleQueryQuotas)
+    .values({ roleId, ...quota, updatedAt: now, updatedBy })
+    .onConflictDoUpdate({
+      target: schema.roleQueryQuotas.roleId,
+      set: { ...quota, updatedAt: now, updatedBy },
+    });
+
+  return getRoleQueryQuota(roleId);
+}
+
+/** The quota of a user's role; every limit is null when it has none. */
+export async function getUserQueryQuota(userId: string): Promise<QueryQuota> {
+  const db = getDatabase() as AnyDb;
+  const schema = getSchema();
+
+  const rows = await db.select(getTableColumns(schema.roleQueryQuotas))
+    .from(schema.userRoles)
+    .innerJoin(schema.roleQueryQuotas, eq(schema.roleQueryQuotas.roleId, schema.userRoles.roleId))
+    .where(eq(schema.userRoles.userId, userId))
+    .limit(1);
+
+  return pickQuota(rows[0]);
+}
+
+// ============================================
+// Usage
+// ============================================
+
+/** Queries run and bytes read by a user on a UTC day. */
+export async function getQueryUsage(userId: string, day: string = usageDay()): Promise<QueryUsage> {
+  const db = getDatabase() as AnyDb;
+  const schema = getSchema();
+
+  const rows = await db.select()
+    .from(schema.userQueryUsage)
+    .where(and(eq(schema.userQueryUsage.userId, userId), eq(schema.userQueryUsage.day, day)))
+    .limit(1);
+  const row = rows[0];
+
+  return {
+    day,
+    queryCount: Number(row?.queryCount ?? 0),
+    bytesRead: Number(row?.bytesRead ?? 0),
+  };
+}
+
+/** Count one query and the bytes it read towards the user's daily budget. */
+export async function recordQueryUsage(userId: string, bytesRead: number, day: string = usageDay()): Promise<void> {
+  const db = getDatabase() as AnyDb;
+  const schema = getSchema();
+  const bytes = Math.max(0, Math.round(bytesRead || 0));
+  const now = new Date();
+
+  await db
+    .insert(schema.userQueryUsage)
+    .values({ id: randomUUID(), userId, day, queryCount: 1, bytesRead: bytes, updatedAt: now })
+    .onConflictDoUpdate({
+      target: [schema.userQueryUsage.userId, schema.userQueryUsage.day],
+      set: {
+        queryCount: sql`${schema.userQueryUsage.queryCount} + 1`,
+        bytesRead: sql`${schema.userQueryUsage.bytesRead} + ${bytes}`,
+        updatedAt: now,
+      },
+    });
+}
+
+/** Today's usage of a user against their daily budgets. */
+export async function getQueryBudgetStatus(userId: string, now: Date = new Date()): Promise<QueryBudgetStatus> {
+  const [quota, usage] = await Promise.all([
+    getUserQueryQuota(userId),
+    getQueryUsage(userId, usageDay(now)),
+  ]);
+
+  const queryRatio = usageRatio(usage.queryCount, quota.dailyQueryLimit);
+  const bytesRatio = usageRatio(usage.bytesRead, quota.dailyBytesLimit);
+
+  return {
+    quota,
+    usage,
+    queryRatio,
+    bytesRatio,
+    nearLimit: Math.max(queryRatio ?? 0, bytesRatio ?? 0) >= BUDGET_WARNING_RATIO,
+    resetsAt: nextUtcMidnight(now),
+  };
+}
+
+// ============================================
+// Guardrails
+// ============================================
+
+/**
+ * Settings for a query of a user whose budget status is `status`. Bytes read
+ * are capped by the remaining daily bytes budget as well as the per-query
+ * limit, and the row cap is the lower of the requested one (0 = unlimited)
+ * and the role's.
+ */
+export function buildQueryGuardrails(status: QueryBudgetStatus, requestedMaxResultRows?: number): QueryGuardrails {
+  const { quota, usage } = status;
+  const settings: Record<string, number> = {};
+
+  if (quota.maxExecutionTime !== null) settings.max_execution_time = quota.maxExecutionTime;
+  if (quota.maxMemoryUsage !== null) settings.max_memory_usage = quota.maxMemoryUsage;
+
+  const bytesLimits = [quota.maxBytesToRead];
+  if (quota.dailyBytesLimit !== null) bytesLimits.push(Math.max(1, quota.dailyBytesLimit - usage.bytesRead));
+  const bytesCaps = bytesLimits.filter((limit): limit is number => limit !== null);
+  if (bytesCaps.length > 0) settings.max_bytes_to_read = Math.min(...bytesCaps);
+
+  let maxResultRows = requestedMaxResultRows;
+  if (quota.maxResultRows !== null) {
+    maxResultRows = requestedMaxResultRows === undefined || requestedMaxResultRows === 0
+      ? quota.maxResultRows
+      : Math.min(requestedMaxResultRows, quota.maxResultRows);
+  }
+
+  return { settings, maxResultRows };
+}
+
+/**
+ * Check a statement against the settings its user's quota locks. A SETTINGS
+ * clause (or SET) in the statement wins over the settings sent with it, so a
+ * statement may not name a locked setting at all. Returns a denial reason, or
+ * null when the statement may run.
+ */
+export function checkGuardrailStatement(sql: string, quota: QueryQuota): string | null {
+  const locked: string[] = [];
+  if (quota.maxExecutionTime !== null) locked.push('max_execution_time');
+  if (quota.maxMemoryUsage !== null) locked.push('max_memory_usage');
+  if (quota.maxBytesToRead !== null || quota.dailyBytesLimit !== null) locked.push('max_bytes_to_read');
+  if (quota.maxResultRows !== null) locked.push('max_result_rows');
+
+  const statement = sql.toLowerCase();
+  const overridden = locked.find((name) => statement.includes(name));
+  return overridden ? `Your role's query quota sets ${overridden}; the query cannot change it` : null;
+}
+
+/**
+ * Resolve the guardrails for a user's next query, rejecting it with 429 when
+ * a daily budget is used up, and with 403 when `sql` tries to change a setting
+ * the quota locks.
+ */
+export async function getQueryGuardrails(
+  userId: string,
+  requestedMaxResultRows?: number,
+  sql?: string
+): Promise<QueryGuardrails> {
+  const status = await getQueryBudgetStatus(userId);
+  const { quota, usage } = status;
+
+  const override = sql === undefined ? null : checkGuardrailStatement(sql, quota);
+  if (override) throw AppError.forbidden(override);
+
+  if (quota.dailyQueryLimit !== null && usage.queryCount >= quota.dailyQueryLimit) {
+    throw AppError.tooManyRequests(
+      `Daily query budget of ${quota.dailyQueryLimit} queries is used up; it resets at ${status.resetsAt}`,
+      { budget: 'queries', resetsAt: status.resetsAt }
+    );
+  }
+  if (quota.dailyBytesLimit !== null && usage.bytesRead >= quota.dailyBytesLimit) {
+    throw AppError.tooManyRequests(
+      `Daily budget of ${quota.dailyBytesLimit} bytes read is used up; it resets at ${status.resetsAt}`,
+      { budget: 'bytes', resetsAt: status.resetsAt }
+    );
+  }
+
+  return buildQueryGuardrails(status, requestedMaxResultRows);
+}
+
+/**
+ * Lay guardrail settings over a caller's own query settings, keeping the
+ * stricter value where both set a limit (0 is ClickHouse's "unlimited").
+ */
+export function mergeGuardrailSettings(
+  settings: Record<string, string | number>,
+  guardrails: Record<string, number>
+): Record<string, string | number> {
+  const merged = { ...settings };
+  for (const [name, limit] of Object.entries(guardrails)) {
+    const own = Number(merged[name]);
+    merged[name] = Number.isFinite(own) && own > 0 ? Math.min(own, limit) : limit;
+  }
+  return merged;
+}
+
+/**
+ * Run one query of a user under their guardrails and count it towards their
+ * daily budget, also when it fails: a failed query counts with no bytes, as
+ * the error carries no statistics. Recording is best-effort. Pass the query's
+ * `sql` when the user wrote it, so it can't change the locked settings.
+ */
+export async function runWithQueryBudget<T>(
+  userId: string,
+  run: (guardrails: QueryGuardrails) => Promise<T>,
+  bytesRead: (result: T) => number,
+  options: { maxResultRows?: number; sql?: string } = {}
+): Promise<T> {
+  const guardrails = await getQueryGuardrails(userId, options.maxResultRows, options.sql);
+  let bytes = 0;
+  try {
+    const result = await run(guardrails);
+    bytes = bytesRead(result);
+    return result;
+  } finally {
+    await recordQueryUsage(userId, bytes).catch((error: unknown) => {
+      logger.error(
+        { module: 'QueryQuotas', userId, err: error instanceof Error ? error.message : String(error) },
+        'Failed to record query usage'
+      );
+    });
+  }
+}
@@ -1088,10 +1088,14 @@ export async function createAuditLog(
 /**
  * Create an audit log entry with auto-extracted client info from a Hono context.
  * This is the preferred method for route handlers — it automatically parses
- * the User-Agent, Accept-Language, and CDN country headers.
+ * the User-Agent, Accept-Language, and CDN country headers, and records the
+ * personal API key (if any) the request authenticated with.
  */
 export async function createAuditLogWithContext(
-  c: { req: { header: (name: string) => string | undefined } },
+  c: {
+    req: { header: (name: string) => string | undefined };
+    var?: { rbacUser?: { apiKeyId?: string } };
+  },
   action: AuditAction,
   userId?: string,
   options?: {
@@ -1107,8 +1111,11 @@ export async function createAuditLogWithContext(
   const headers = getClientHeaders(c);
   const clientInfo = extractClientInfo(headers);
 
+  const apiKeyId = c.var?.rbacUser?.apiKeyId;
+
   await createAuditLog(action, userId, {
     ...options,
+    details: apiKeyId ? { ...options?.details, apiKeyId } : options?.details,
     ipAddress: options?.ipAddress || headers.ipAddress,
     userAgent: headers.userAgent,
     browser: clientInfo.browser || undefined,
@@ -1,6 +1,6 @@
 
 import { describe, it, expect, mock, beforeEach } from "bun:test";
-import { getSavedQueries, getSavedQueryById, createSavedQuery, updateSavedQuery, deleteSavedQuery, getQueryConnectionNames } from "./savedQueries";
+import { getSavedQueries, getSavedQueryById, createSavedQuery, updateSavedQuery, deleteSavedQuery, getQueryConnectionNames, restoreSavedQueryRevision, normalizeFolderPath, normalizeTags } from "./savedQueries";
 
 // Mock data
 const mockQuery = {
@@ -48,6 +48,11 @@ const mockSchema = {
         isPublic: "isPublic",
         name: "name"
     },
+    savedQueryRevisions: {
+        id: "id",
+        savedQueryId: "savedQueryId",
+        version: "version",
+    },
 };
 
 mock.module("../db", () => ({
@@ -62,6 +67,8 @@ describe("Saved Queries Service", () => {
         mockDb.update.mockClear();
         mockDb.delete.mockClear();
         queryBuilder.then.mockClear();
+        queryBuilder.values.mockClear();
+        queryBuilder.set.mockClear();
 
         // Reset default implementation
         queryBuilder.then.mockImplementation((resolve: any) => resolve([mockQuery]));
@@ -91,6 +98,19 @@ describe("Saved Queries Service", () => {
             expect(result.map(r => r.id)).toContain("q1");
             expect(result.map(r => r.id)).toContain("q3");
         });
+
+        it("should filter by search terms, tag and folder", async () => {
+            const queries = [
+                { ...mockQuery, id: "q1", folder: "Finance/Revenue", tags: ["Daily"], query: "SELECT sum(amount) FROM orders" },
+                { ...mockQuery, id: "q2", folder: "Finance", tags: ["weekly"], query: "SELECT count() FROM orders" },
+                { ...mockQuery, id: "q3", folder: "Financials", tags: ["daily"], query: "SELECT sum(amount) FROM refunds" },
+            ];
+            queryBuilder.then.mockImplementation((resolve: any) => resolve(queries));
+
+            expect((await getSavedQueries("user-123", undefined, { folder: "Finance" })).map(r => r.id)).toEqual(["q1", "q2"]);
+            expect((await getSavedQueries("user-123", undefined, { tag: "daily" })).map(r => r.id)).toEqual(["q1", "q3"]);
+            expect((await getSavedQueries("user-123", undefined, { search: "SUM orders" })).map(r => r.id)).toEqual(["q1"]);
+        });
     });
 
     describe("createSavedQuery", () => {
@@ -105,6 +125,35 @@ describe("Saved Queries Service", () => {
             expect(result.name).toBe("New Query");
             expect(mockDb.insert).toHaveBeenCalled();
         });
+
+        it("should store placeholder values and default them to null", async () => {
+            const withParams = await createSavedQuery("user-123", {
+                name: "By Day",
+                query: "SELECT * FROM events WHERE d = {day:Date}",
+                parameters: { day: "2024-01-01" },
+            });
+            expect(withParams.parameters).toEqual({ day: "2024-01-01" });
+
+            const withoutParams = await createSavedQuery("user-123", { name: "Plain", query: "SELECT 1" });
+            expect(withoutParams.parameters).toBeNull();
+        });
+
+        it("should normalize folder and tags and record the first revision", async () => {
+            const result = await createSavedQuery("user-123", {
+                name: "Revenue",
+                query: "SELECT 1",
+                folder: " Finance / /Revenue/ ",
+                tags: ["daily", " Daily ", "kpi", ""],
+            });
+
+            expect(result.folder).toBe("Finance/Revenue");
+            expect(result.tags).toEqual(["daily", "kpi"]);
+            expect(mockDb.insert).toHaveBeenCalledTimes(2);
+            expect(mockDb.insert).toHaveBeenLastCalledWith(mockSchema.savedQueryRevisions);
+            expect(queryBuilder.values).toHaveBeenLastCalledWith(
+                expect.objectContaining({ version: 1, name: "Revenue", editedBy: "user-123" })
+            );
+        });
     });
 
     describe("updateSavedQuery", () => {
@@ -120,6 +169,37 @@ describe("Saved Queries Service", () => {
             expect(mockDb.update).toHaveBeenCalled();
         });
 
+        it("should persist a chart config change", async () => {
+            const chartConfig = { chartType: "line" as const, xAxis: "day", yAxis: ["total"] };
+
+            await updateSavedQuery("query-123", "user-123", { chartConfig });
+
+            expect(queryBuilder.set).toHaveBeenCalledWith(expect.objectContaining({ chartConfig }));
+        });
+
+        it("should append a revision when the SQL changes", async () => {
+            const edited = { ...mockQuery, query: "SELECT * FROM users LIMIT 20" };
+            queryBuilder.then
+                .mockImplementationOnce((resolve: any) => resolve([mockQuery]))
+                .mockImplementationOnce((resolve: any) => resolve(undefined))
+                .mockImplementationOnce((resolve: any) => resolve([edited]))
+                .mockImplementationOnce((resolve: any) => resolve([{ version: 3 }]));
+
+            await updateSavedQuery("query-123", "user-123", { query: edited.query });
+
+            expect(mockDb.insert).toHaveBeenCalledWith(mockSchema.savedQueryRevisions);
+            expect(queryBuilder.values).toHaveBeenCalledWith(
+                expect.objectContaining({ version: 4, query: edited.query })
+            );
+        });
+
+        it("should not append a revision for organization-only changes", async () => {
+            await updateSavedQuery("query-123", "user-123", { folder: "Ops", tags: ["oncall"] });
+
+            expect(queryBuilder.set).toHaveBeenCalledWith(expect.objectContaining({ folder: "Ops", tags: ["oncall"] }));
+            expect(mockDb.insert).not.toHaveBeenCalled();
+        });
+
         it("should return null if not found", async () => {
             queryBuilder.then.mockImplementation((resolve: any) => resolve([]));
 
@@ -130,6 +210,28 @@ describe("Saved Queries Service", () => {
         });
     });
 
+    describe("restoreSavedQueryRevision", () => {
+        it("should return null if the revision does not belong to the query", async () => {
+            queryBuilder.then.mockImplementation((resolve: any) => resolve([]));
+
+            const result = await restoreSavedQueryRevision("query-123", "rev-1", "user-123");
+
+            expect(result).toBeNull();
+            expect(mockDb.update).not.toHaveBeenCalled();
+        });
+
+        it("should write the revision content back to the query", async () => {
+            const revision = { id: "rev-1", savedQueryId: "query-123", version: 1, name: "Old", query: "SELECT 0", description: null };
+            queryBuilder.then.mockImplementationOnce((resolve: any) => resolve([revision]));
+
+            await restoreSavedQueryRevision("query-123", "rev-1", "user-123");
+
+            expect(queryBuilder.set).toHaveBeenCalledWith(
+                expect.objectContaining({ name: "Old", query: "SELECT 0", description: null })
+            );
+        });
+    });
+
     describe("deleteSavedQuery", () => {
         it("should delete query if exists", async () => {
             const result = await deleteSavedQuery("query-123", "user-123");
@@ -148,6 +250,18 @@ describe("Saved Queries Service", () => {
         });
     });
 
+    describe("normalization helpers", () => {
+        it("should map blank folder paths to the top level", () => {
+            expect(normalizeFolderPath(" / ")).toBeNull();
+            expect(normalizeFolderPath(null)).toBeNull();
+        });
+
+        it("should drop blank tags", () => {
+            expect(normalizeTags(["  ", "a"])).toEqual(["a"]);
+            expect(normalizeTags(undefined)).toEqual([]);
+        });
+    });
+
     describe("getQueryConnectionNames", () => {
         it("should return unique sorted connection names", async () => {
             const rows = [
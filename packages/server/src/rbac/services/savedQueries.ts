@@ -4,11 +4,14 @@
  * Manages saved SQL queries scoped by user.
  * Queries can optionally be associated with a connection for filtering.
  * connectionId is optional - null means shared across all connections.
+ * Queries are organized by a slash-separated folder path and free-form tags,
+ * and every change to name/SQL/description appends a revision.
  */
 
-import { eq, and, or, desc, isNull } from 'drizzle-orm';
+import { eq, and, or, desc, isNull, max } from 'drizzle-orm';
 import { randomUUID } from 'crypto';
 import { getDatabase, getSchema } from '../db';
+import type { SavedQueryChartConfig } from '../constants/savedQueryCharts';
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type AnyDb = any;
 
@@ -23,6 +26,21 @@ export interface SavedQueryInput {
   isPublic?: boolean;
   connectionId?: string | null;
   connectionName?: string | null;
+  /** Values for the query's {name:Type} placeholders */
+  parameters?: Record<string, string> | null;
+  /** Chart view shown next to the results grid */
+  chartConfig?: SavedQueryChartConfig | null;
+  /** Slash-separated folder path, e.g. "Finance/Revenue" (null = top level) */
+  folder?: string | null;
+  tags?: string[] | null;
+}
+
+export interface SavedQueryFilters {
+  /** Case-insensitive match on name, description and SQL; every word must match */
+  search?: string;
+  tag?: string;
+  /** Folder path; includes queries in its sub-folders */
+  folder?: string;
 }
 
 export interface SavedQueryResponse {
@@ -34,10 +52,25 @@ export interface SavedQueryResponse {
   query: string;
   description: string | null;
   isPublic: boolean;
+  parameters: Record<string, string> | null;
+  chartConfig: SavedQueryChartConfig | null;
+  folder: string | null;
+  tags: string[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface SavedQueryRevisionResponse {
+  id: string;
+  savedQueryId: string;
+  version: number;
+  name: string;
+  query: string;
+  description: string | null;
+  editedBy: string | null;
+  createdAt: Date;
+}
+
 // ============================================
 // Helper Functions
 // ============================================
@@ -54,6 +87,10 @@ function toResponse(row: {
   query: string;
   description: string | null;
   isPublic: boolean;
+  parameters?: Record<string, string> | null;
+  chartConfig?: SavedQueryChartConfig | null;
+  folder?: string | null;
+  tags?: string[] | null;
   createdAt: Date | number;
   updatedAt: Date | number;
 }): SavedQueryResponse {
@@ -66,11 +103,114 @@ function toResponse(row: {
     query: row.query,
     description: row.description,
     isPublic: row.isPublic,
+    parameters: row.parameters ?? null,
+    chartConfig: row.chartConfig ?? null,
+    folder: row.folder ?? null,
+    tags: row.tags ?? [],
     createdAt: row.createdAt instanceof Date ? row.createdAt : new Date(row.createdAt * 1000),
     updatedAt: row.updatedAt instanceof Date ? row.updatedAt : new Date(row.updatedAt * 1000),
   };
 }
 
+function toRevisionResponse(row: {
+  id: string;
+  savedQueryId: string;
+  version: number;
+  name: string;
+  query: string;
+  description: string | null;
+  editedBy: string | null;
+  createdAt: Date | number;
+}): SavedQueryRevisionResponse {
+  return {
+    id: row.id,
+    savedQueryId: row.savedQueryId,
+    version: row.version,
+    name: row.name,
+    query: row.query,
+    description: row.description,
+    editedBy: row.editedBy,
+    createdAt: row.createdAt instanceof Date ? row.createdAt : new Date(row.createdAt * 1000),
+  };
+}
+
+/**
+ * Normalize a folder path: trim each segment and drop empty ones, so
+ * " Finance / /Revenue/ " becomes "Finance/Revenue". Empty → null (top level).
+ */
+export function normalizeFolderPath(folder: string | null | undefined): string | null {
+  if (!folder) return null;
+  const path = folder.split('/').map(part => part.trim()).filter(Boolean).join('/');
+  return path || null;
+}
+
+/**
+ * Normalize tags: trim, drop empties and de-duplicate case-insensitively,
+ * keeping the first spelling.
+ */
+export function normalizeTags(tags: string[] | null | undefined): string[] {
+  const seen = new Map<string, string>();
+  for (const tag of tags ?? []) {
+    const trimmed = tag.trim();
+    if (trimmed && !seen.has(trimmed.toLowerCase())) {
+      seen.set(trimmed.toLowerCase(), trimmed);
+    }
+  }
+  return [...seen.values()];
+}
+
+/**
+ * True when the query matches every filter. Folder matches include sub-folders.
+ */
+export function matchesSavedQueryFilters(query: SavedQueryResponse, filters: SavedQueryFilters): boolean {
+  const folder = normalizeFolderPath(filters.folder);
+  if (folder && query.folder !== folder && !query.folder?.startsWith(`${folder}/`)) {
+    return false;
+  }
+
+  if (filters.tag) {
+    const tag = filters.tag.trim().toLowerCase();
+    if (!query.tags.some(t => t.toLowerCase() === tag)) return false;
+  }
+
+  const terms = (filters.search ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length > 0) {
+    const haystack = [query.name, query.description ?? '', query.query].join('\n').toLowerCase();
+    if (!terms.every(term => haystack.includes(term))) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Append a revision snapshot for a saved query, numbered after the latest one.
+ */
+async function appendRevision(
+  db: AnyDb,
+  savedQueryId: string,
+  snapshot: { name: string; query: string; description: string | null },
+  editedBy: string,
+  createdAt: Date
+): Promise<void> {
+  const schema = getSchema();
+
+  const [latest] = await db
+    .select({ version: max(schema.savedQueryRevisions.version) })
+    .from(schema.savedQueryRevisions)
+    .where(eq(schema.savedQueryRevisions.savedQueryId, savedQueryId));
+
+  await db.insert(schema.savedQueryRevisions).values({
+    id: randomUUID(),
+    savedQueryId,
+    version: (Number(latest?.version) || 0) + 1,
+    name: snapshot.name,
+    query: snapshot.query,
+    description: snapshot.description,
+    editedBy,
+    createdAt,
+  } as typeof schema.savedQueryRevisions.$inferInsert);
+}
+
 // ============================================
 // Service Functions
 // ============================================
@@ -82,10 +222,12 @@ function toResponse(row: {
  * 
  * @param userId - The user ID
  * @param connectionId - Optional connection ID to filter by (null = get all)
+ * @param filters - Optional search text, tag and folder filters
  */
 export async function getSavedQueries(
   userId: string,
-  connectionId?: string | null
+  connectionId?: string | null,
+  filters: SavedQueryFilters = {}
 ): Promise<SavedQueryResponse[]> {
   const db = getDatabase() as AnyDb;
   const schema = getSchema();
@@ -112,7 +254,9 @@ export async function getSavedQueries(
     );
   }
 
-  return filteredRows.map(toResponse);
+  return filteredRows
+    .map(toResponse)
+    .filter((row: SavedQueryResponse) => matchesSavedQueryFilters(row, filters));
 }
 
 /**
@@ -169,11 +313,16 @@ export async function createSavedQuery(
     query: input.query,
     description: input.description ?? null,
     isPublic: input.isPublic ?? false,
+    parameters: input.parameters ?? null,
+    chartConfig: input.chartConfig ?? null,
+    folder: normalizeFolderPath(input.folder),
+    tags: normalizeTags(input.tags),
     createdAt: now,
     updatedAt: now,
   };
 
   await db.insert(schema.savedQueries).values(newQuery as typeof schema.savedQueries.$inferInsert);
+  await appendRevision(db, id, newQuery, userId, now);
 
   return toResponse(newQuery);
 }
@@ -230,6 +379,18 @@ export async function updateSavedQuery(
   if (input.connectionName !== undefined) {
     updateData.connectionName = input.connectionName;
   }
+  if (input.parameters !== undefined) {
+    updateData.parameters = input.parameters;
+  }
+  if (input.chartConfig !== undefined) {
+    updateData.chartConfig = input.chartConfig;
+  }
+  if (input.folder !== undefined) {
+    updateData.folder = normalizeFolderPath(input.folder);
+  }
+  if (input.tags !== undefined) {
+    updateData.tags = normalizeTags(input.tags);
+  }
 
   await db
     .update(schema.savedQueries)
@@ -252,7 +413,18 @@ export async function updateSavedQuery(
     return null;
   }
 
-  return toResponse(updated[0]);
+  // Only content edits are versioned; moving, tagging or sharing is not
+  const before = existing[0];
+  const after = updated[0];
+  if (
+    before.name !== after.name ||
+    before.query !== after.query ||
+    (before.description ?? null) !== (after.description ?? null)
+  ) {
+    await appendRevision(db, id, after, userId, now);
+  }
+
+  return toResponse(after);
 }
 
 /**
@@ -294,6 +466,68 @@ export async function deleteSavedQuery(
   return true;
 }
 
+/**
+ * List the revisions of a saved query, newest first.
+ * Visible to the owner and, for public queries, to everyone.
+ * Returns null when the query does not exist or is not visible.
+ */
+export async function getSavedQueryRevisions(
+  id: string,
+  userId: string
+): Promise<SavedQueryRevisionResponse[] | null> {
+  const savedQuery = await getSavedQueryById(id, userId);
+  if (!savedQuery) {
+    return null;
+  }
+
+  const db = getDatabase() as AnyDb;
+  const schema = getSchema();
+
+  const rows = await db
+    .select()
+    .from(schema.savedQueryRevisions)
+    .where(eq(schema.savedQueryRevisions.savedQueryId, id))
+    .orderBy(desc(schema.savedQueryRevisions.version));
+
+  return rows.map(toRevisionResponse);
+}
+
+/**
+ * Restore a saved query to an earlier revision.
+ * Only the owner can restore; the restore itself is recorded as a new revision.
+ * Returns null when the query or revision does not exist.
+ */
+export async function restoreSavedQueryRevision(
+  id: string,
+  revisionId: string,
+  userId: string
+): Promise<SavedQueryResponse | null> {
+  const db = getDatabase() as AnyDb;
+  const schema = getSchema();
+
+  const rows = await db
+    .select()
+    .from(schema.savedQueryRevisions)
+    .where(
+      and(
+        eq(schema.savedQueryRevisions.id, revisionId),
+        eq(schema.savedQueryRevisions.savedQueryId, id)
+      )
+    )
+    .limit(1);
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const revision = rows[0];
+  return updateSavedQuery(id, userId, {
+    name: revision.name,
+    query: revision.query,
+    description: revision.description,
+  });
+}
+
 /**
  * Get count of saved queries for a user
  */
@@ -97,6 +97,9 @@ const PERMISSION_CATEGORIES: Record<string, string[]> = {
     PERMISSIONS.SCHEMA_ADVISOR_VIEW,
     PERMISSIONS.CLUSTER_VIEW,
     PERMISSIONS.ERRORS_VIEW,
+    PERMISSIONS.MUTATIONS_KILL,
+    PERMISSIONS.DICTIONARIES_VIEW,
+    PERMISSIONS.DICTIONARIES_RELOAD,
   ],
   'Fleet Monitoring': [
     PERMISSIONS.FLEET_VIEW,
@@ -157,6 +160,18 @@ const PERMISSION_CATEGORIES: Record<string, string[]> = {
     PERMISSIONS.DATA_HEALTH_RUN,
     PERMISSIONS.DATA_HEALTH_VIEW_ALL,
   ],
+  'Dashboards': [
+    PERMISSIONS.DASHBOARDS_VIEW,
+    PERMISSIONS.DASHBOARDS_EDIT,
+  ],
+  'Change Requests': [
+    PERMISSIONS.CHANGE_REQUESTS_APPROVE,
+  ],
+  'Backups': [
+    PERMISSIONS.BACKUPS_VIEW,
+    PERMISSIONS.BACKUPS_CREATE,
+    PERMISSIONS.BACKUPS_RESTORE,
+  ],
 };
 
 // Human-readable permission names
@@ -210,6 +225,9 @@ const PERMISSION_DISPLAY_NAMES: Record<string, string> = {
   [PERMISSIONS.SCHEMA_ADVISOR_VIEW]: 'View Schema Advisor',
   [PERMISSIONS.CLUSTER_VIEW]: 'View Cluster',
   [PERMISSIONS.ERRORS_VIEW]: 'View Errors',
+  [PERMISSIONS.MUTATIONS_KILL]: 'Kill Mutations',
+  [PERMISSIONS.DICTIONARIES_VIEW]: 'View Dictionaries',
+  [PERMISSIONS.DICTIONARIES_RELOAD]: 'Reload Dictionaries',
   [PERMISSIONS.FLEET_VIEW]: 'View Fleet',
   [PERMISSIONS.DOCTOR_VIEW]: 'View Chouse AI Doctor',
   [PERMISSIONS.DOCTOR_RUN]: 'Run Chouse AI Doctor Scan',
@@ -245,6 +263,12 @@ const PERMISSION_DISPLAY_NAMES: Record<string, string> = {
   [PERMISSIONS.DATA_HEALTH_DELETE]: 'Delete Data Health Promises',
   [PERMISSIONS.DATA_HEALTH_RUN]: 'Manually Run Data Health Promises',
   [PERMISSIONS.DATA_HEALTH_VIEW_ALL]: 'View and Act on All Data Health Promises',
+  [PERMISSIONS.DASHBOARDS_VIEW]: 'View Dashboards',
+  [PERMISSIONS.DASHBOARDS_EDIT]: 'Create and Edit Dashboards',
+  [PERMISSIONS.CHANGE_REQUESTS_APPROVE]: 'Approve Changes on Protected Connections',
+  [PERMISSIONS.BACKUPS_VIEW]: 'View Backups',
+  [PERMISSIONS.BACKUPS_CREATE]: 'Start and Schedule Backups',
+  [PERMISSIONS.BACKUPS_RESTORE]: 'Restore Backups',
 };
 
 // Role display names and descriptions
@@ -16,6 +16,7 @@ import { getUserConnections, getConnectionWithPassword } from "../rbac/services/
 import { ClickHouseService } from "../services/clickhouse";
 import { userHasPermission } from "../rbac/services/rbac";
 import { PERMISSIONS } from "../rbac/schema/base";
+import { isApiKeyRequest, isSuperAdminRequest } from "../rbac/middleware/rbacAuth";
 import { isAIEnabled } from "../services/aiConfig";
 import { invokeCapabilityAgent } from "../services/ai/engine";
 import { chatCapability } from "../services/ai/capabilities/chat";
@@ -138,7 +139,7 @@ async function chatAuthMiddleware(c: Context<{ Variables: Variables }>, next: Ne
     if (!isRbacAdmin) {
         const hasPermission = rbacPermissions?.includes(PERMISSIONS.AI_CHAT) || false;
         if (!hasPermission) {
-            const hasPerm = await userHasPermission(rbacUserId, PERMISSIONS.AI_CHAT as any);
+            const hasPerm = !isApiKeyRequest(c) && await userHasPermission(rbacUserId, PERMISSIONS.AI_CHAT);
             if (!hasPerm) {
                 throw AppError.forbidden("Permission 'ai:chat' required for AI chat.");
             }
@@ -164,8 +165,7 @@ async function chatAuthMiddleware(c: Context<{ Variables: Variables }>, next: Ne
     }
 
     // RBAC-based connection (same logic as query route)
-    const rbacRoles = c.get("rbacRoles");
-    const isSuperAdmin = rbacRoles?.includes('super_admin') || false;
+    const isSuperAdmin = isSuperAdminRequest(c);
 
     let connections: Awaited<ReturnType<typeof getUserConnections>>;
     if (isSuperAdmin) {
@@ -22,7 +22,7 @@ import type { AgentRunContext } from "../services/ai/types";
 import { createAuditLogWithContext, userHasPermission } from "../rbac/services/rbac";
 import { AUDIT_ACTIONS, PERMISSIONS } from "../rbac/schema/base";
 import type { Permission } from "../rbac/schema/base";
-import { getClientIp } from "../rbac/middleware/rbacAuth";
+import { getClientIp, isApiKeyRequest } from "../rbac/middleware/rbacAuth";
 import { requestLogger } from "../utils/logger";
 
 const ai = new Hono<{ Variables: Variables }>();
@@ -38,7 +38,8 @@ async function requireCapabilityPermission(
   const userId = c.get("rbacUserId");
   if (!userId) throw AppError.unauthorized("RBAC authentication is required.");
   if (c.get("rbacPermissions")?.includes(permission)) return;
-  if (await userHasPermission(userId, permission)) return;
+  // API keys must stay within their scopes, so only sessions fall back to the database
+  if (!isApiKeyRequest(c) && await userHasPermission(userId, permission)) return;
   throw AppError.forbidden(`Permission '${permission}' required for this action`);
 }
 
@@ -2,8 +2,11 @@
  * Alerting routes (/api/alerting)
  *
  * Manage the normalized alerting model from Admin → Settings → Alerting:
- * notification channels (where to deliver), a read view of alert rules and their
- * channel links, and recent alert events. Channel secrets are encrypted by the
+ * notification channels (where to deliver), alert rules with their channel
+ * links and escalation steps, silences and maintenance windows, message
+ * templates (with a preview), recent alert events (with acknowledgement),
+ * fleet alert incidents (acknowledge, snooze, resolve, notes), and scheduled
+ * operational digests with each user's opt-in. Channel secrets are encrypted by the
  * store and never returned to the client — list/get expose a `configured` map
  * instead. Mutations are gated by alerting:edit and audited.
  */
@@ -15,7 +18,8 @@ import { zValidator } from "@hono/zod-validator";
 
 import { rbacAuthMiddleware, requirePermission, getRbacUser } from "../rbac/middleware/rbacAuth";
 import { PERMISSIONS, AUDIT_ACTIONS } from "../rbac/schema/base";
-import { createAuditLogWithContext } from "../rbac/services/rbac";
+import { createAuditLogWithContext, getUserById } from "../rbac/services/rbac";
+import { getUserConnections, listConnections } from "../rbac/services/connections";
 import { logger } from "../utils/logger";
 import {
   ChannelType,
@@ -26,6 +30,24 @@ import {
 } from "../services/alerting/types";
 import * as store from "../services/alerting/store";
 import { sendChannelTest } from "../services/alerting/deliver";
+import { resolveAlert, validateEscalationSteps, validateMaintenanceWindow } from "../services/alerting/policy";
+import {
+  MAX_TEMPLATE_LENGTH,
+  SAMPLE_TEMPLATE_VARS,
+  TEMPLATE_SOURCES,
+  applyTemplate,
+  validateTemplate,
+  type TemplateSource,
+} from "../services/alerting/template";
+import { validateGovernorConfig } from "../services/queryGovernor";
+import { validateDictionaryRuleConfig } from "../services/dictionaries/monitor";
+import { customSqlAccessDenial, validateCustomSqlConfig } from "../services/customSqlAlerts";
+import { isValidTimeZone, nextFireTimes, validateCron } from "../services/scheduledQueries/cadence";
+import * as digestStore from "../services/digests/store";
+import { compileDigest } from "../services/digests/compile";
+import { renderDigest } from "../services/digests/render";
+import { DIGEST_EXCLUDED_CHANNEL_TYPES, digestRecipientDenial, sendDigest } from "../services/digests/deliver";
+import { digestInputSchema, digestSubscriptionSchema, type DigestInput } from "../services/digests/types";
 
 const alerting = new Hono();
 
@@ -55,7 +77,9 @@ function cleanChannelConfig(
   const str = (v: unknown): string => (typeof v === "string" ? v.trim() : "");
   switch (type) {
     case ChannelType.Slack:
-    case ChannelType.GoogleChat: {
+    case ChannelType.GoogleChat:
+    case ChannelType.Teams:
+    case ChannelType.Discord: {
       const webhookUrl = str(raw.webhookUrl);
       if (isCreate && !webhookUrl) throw new Error("webhookUrl is required");
       return webhookUrl ? { webhookUrl } : {};
@@ -81,16 +105,55 @@ function cleanChannelConfig(
       if (password) out.password = password;
       return out;
     }
+    case ChannelType.PagerDuty: {
+      const routingKey = str(raw.routingKey);
+      if (isCreate && !routingKey) throw new Error("routingKey is required");
+      if (routingKey && !/^[A-Za-z0-9]{32}$/.test(routingKey)) {
+        throw new Error("routingKey must be a 32-character Events API v2 integration key");
+      }
+      return routingKey ? { routingKey } : {};
+    }
+    case ChannelType.Opsgenie: {
+      const region = str(raw.region) || "us";
+      if (region !== "us" && region !== "eu") throw new Error("region must be us or eu");
+      const apiKey = str(raw.apiKey);
+      if (isCreate && !apiKey) throw new Error("apiKey is required");
+      return apiKey ? { apiKey, region } : { region };
+    }
+    case ChannelType.Telegram: {
+      const chatId = str(raw.chatId);
+      if (!chatId) throw new Error("chatId is required");
+      if (!/^(-?\d+|@[A-Za-z0-9_]{5,})$/.test(chatId)) {
+        throw new Error("chatId must be a numeric chat id or an @channel username");
+      }
+      const botToken = str(raw.botToken);
+      if (isCreate && !botToken) throw new Error("botToken is required");
+      if (botToken && !/^\d+:[A-Za-z0-9_-]+$/.test(botToken)) throw new Error("botToken must look like 123456:ABC-DEF…");
+      return botToken ? { botToken, chatId } : { chatId };
+    }
     default:
       throw new Error(`Unknown channel type: ${type}`);
   }
 }
 
+const messageTemplateSchema = z.string().max(MAX_TEMPLATE_LENGTH).nullable().optional();
+
+/** Omitted stays omitted (keep the stored template); blank clears it. */
+function normalizeTemplate(raw: string | null | undefined): string | null | undefined {
+  if (raw === undefined) return undefined;
+  return raw && raw.trim() ? raw : null;
+}
+
+function templateProblem(template: string | null | undefined): string | null {
+  return template ? validateTemplate(template) : null;
+}
+
 const channelBodySchema = z.object({
   name: z.string().min(1).max(120),
   type: z.nativeEnum(ChannelType),
   enabled: z.boolean().optional().default(true),
   config: z.record(z.string(), z.unknown()).default({}),
+  messageTemplate: messageTemplateSchema,
 });
 
 // --- channels ---------------------------------------------------------------
@@ -107,6 +170,7 @@ alerting.get("/channels", requirePermission(PERMISSIONS.ALERTING_VIEW), async (c
       enabled: ch.enabled,
       config,
       configured,
+      messageTemplate: ch.messageTemplate,
       createdAt: ch.createdAt,
       updatedAt: ch.updatedAt,
     };
@@ -126,8 +190,11 @@ alerting.post(
     } catch (err) {
       return c.json({ success: false, error: err instanceof Error ? err.message : "Invalid config" }, 400);
     }
+    const messageTemplate = normalizeTemplate(body.messageTemplate);
+    const problem = templateProblem(messageTemplate);
+    if (problem) return c.json({ success: false, error: problem }, 400);
     const id = await store.createChannel(
-      { name: body.name, type: body.type, enabled: body.enabled, config },
+      { name: body.name, type: body.type, enabled: body.enabled, config, messageTemplate },
       userId(c),
     );
     await createAuditLogWithContext(c, AUDIT_ACTIONS.ALERTING_CHANNEL_CREATE, userId(c), {
@@ -152,11 +219,15 @@ alerting.put(
     } catch (err) {
       return c.json({ success: false, error: err instanceof Error ? err.message : "Invalid config" }, 400);
     }
+    const messageTemplate = normalizeTemplate(body.messageTemplate);
+    const problem = templateProblem(messageTemplate);
+    if (problem) return c.json({ success: false, error: problem }, 400);
     const ok = await store.updateChannel(id, {
       name: body.name,
       type: body.type,
       enabled: body.enabled,
       config,
+      messageTemplate,
     });
     if (!ok) return c.json({ success: false, error: "Channel not found" }, 404);
     await createAuditLogWithContext(c, AUDIT_ACTIONS.ALERTING_CHANNEL_UPDATE, userId(c), {
@@ -230,8 +301,13 @@ alerting.get("/rules", requirePermission(PERMISSIONS.ALERTING_VIEW), async (c) =
       enabled: r.enabled,
       aiRcaEnabled: r.aiRcaEnabled,
       aiRcaModelId: r.aiRcaModelId,
+      messageTemplate: r.messageTemplate,
       config: JSON.parse(r.config) as Record<string, unknown>,
       channelIds: await store.getRuleChannelIds(r.id),
+      escalation: (await store.getEscalationSteps(r.id)).map((step) => ({
+        afterMinutes: step.afterMinutes,
+        channelIds: step.channelIds,
+      })),
     })),
   );
   return c.json({ success: true, data });
@@ -245,8 +321,34 @@ const ruleBodySchema = z.object({
   aiRcaModelId: z.string().nullable().optional(),
   config: z.record(z.string(), z.unknown()).default({}),
   channelIds: z.array(z.string()).default([]),
+  messageTemplate: messageTemplateSchema,
 });
 
+/** Why a rule config can't be saved for its source type, or null when it can. */
+function sourceConfigProblem(sourceType: AlertSourceType, config: Record<string, unknown>): string | null {
+  if (sourceType === AlertSourceType.QueryGovernor) return validateGovernorConfig(config);
+  if (sourceType === AlertSourceType.DictionaryHealth) return validateDictionaryRuleConfig(config);
+  if (sourceType === AlertSourceType.CustomSql) return validateCustomSqlConfig(config);
+  return null;
+}
+
+/**
+ * A custom SQL rule runs its query with the fleet poller's credentials, so its
+ * connection must be one the editor can use and its query one they could run
+ * in full there. The editor becomes the rule's owner. Null when it is.
+ */
+async function customSqlAccessProblem(c: Context, config: Record<string, unknown>): Promise<string | null> {
+  const wanted = String(config.connection ?? "").trim().toLowerCase();
+  const user = getRbacUser(c);
+  const connections = (user.roles ?? []).includes("super_admin")
+    ? (await listConnections({ activeOnly: true })).connections
+    : await getUserConnections(user.sub);
+  const found = connections.find((conn) => conn.id.toLowerCase() === wanted || conn.name.toLowerCase() === wanted);
+  if (!found) return `Connection "${String(config.connection ?? "")}" not found or not accessible`;
+  const denial = await customSqlAccessDenial(user.sub, String(config.query ?? ""), found.id);
+  return denial ? `Data access denied: ${denial}` : null;
+}
+
 const createRuleBodySchema = ruleBodySchema.extend({
   name: z.string().min(1).max(120),
   sourceType: z.nativeEnum(AlertSourceType).optional().default(AlertSourceType.FleetThreshold),
@@ -259,6 +361,11 @@ alerting.post(
   zValidator("json", createRuleBodySchema),
   async (c) => {
     const body = c.req.valid("json");
+    const messageTemplate = normalizeTemplate(body.messageTemplate);
+    const problem = templateProblem(messageTemplate)
+      ?? sourceConfigProblem(body.sourceType, body.config)
+      ?? (body.sourceType === AlertSourceType.CustomSql ? await customSqlAccessProblem(c, body.config) : null);
+    if (problem) return c.json({ success: false, error: problem }, 400);
     // Only one fleet rule may be enabled at a time.
     if (body.enabled && body.sourceType === AlertSourceType.FleetThreshold) {
       const other = await store.findOtherEnabledFleetRule(null);
@@ -276,7 +383,9 @@ alerting.post(
       enabled: body.enabled,
       aiRcaEnabled: body.aiRcaEnabled,
       aiRcaModelId: body.aiRcaModelId ?? null,
+      messageTemplate,
       config: body.config,
+      ownerId: body.sourceType === AlertSourceType.CustomSql ? userId(c) : null,
     });
     await store.setRuleChannels(id, body.channelIds);
     await createAuditLogWithContext(c, AUDIT_ACTIONS.FLEET_ALERT_CONFIG_UPDATE, userId(c), {
@@ -302,6 +411,14 @@ alerting.put(
     const body = c.req.valid("json");
     const existing = await store.getRule(id);
 
+    const messageTemplate = normalizeTemplate(body.messageTemplate);
+    const problem = templateProblem(messageTemplate)
+      ?? (!existing
+        ? null
+        : sourceConfigProblem(existing.sourceType, body.config)
+          ?? (existing.sourceType === AlertSourceType.CustomSql ? await customSqlAccessProblem(c, body.config) : null));
+    if (problem) return c.json({ success: false, error: problem }, 400);
+
     // Only one fleet rule may be enabled at a time.
     const willBeFleet = (existing?.sourceType ?? AlertSourceType.FleetThreshold) === AlertSourceType.FleetThreshold;
     if (body.enabled && willBeFleet) {
@@ -317,14 +434,17 @@ alerting.put(
     await store.upsertRule({
       id,
       name: body.name ?? existing?.name ?? "Fleet thresholds",
-      // Only fleet_threshold rules are editable today; default to it when the
-      // well-known fleet rule doesn't exist yet (fresh install, never configured).
+      // Default to fleet_threshold when the well-known fleet rule doesn't exist
+      // yet (fresh install, never configured).
       sourceType: existing?.sourceType ?? AlertSourceType.FleetThreshold,
       severity: body.severity ?? existing?.severity ?? AlertSeverity.Warning,
       enabled: body.enabled,
       aiRcaEnabled: body.aiRcaEnabled,
       aiRcaModelId: body.aiRcaModelId ?? null,
+      messageTemplate,
       config: body.config,
+      // Whoever saves a custom SQL rule's query owns it; their access was just checked.
+      ownerId: existing?.sourceType === AlertSourceType.CustomSql ? userId(c) : undefined,
     });
     await store.setRuleChannels(id, body.channelIds);
 
@@ -353,6 +473,219 @@ alerting.delete("/rules/:id", requirePermission(PERMISSIONS.ALERTING_DELETE), as
   return c.json({ success: true });
 });
 
+const escalationBodySchema = z.object({
+  steps: z
+    .array(
+      z.object({
+        afterMinutes: z.number().int(),
+        channelIds: z.array(z.string()),
+      }),
+    )
+    .default([]),
+});
+
+/** Replace a rule's escalation steps (an empty list turns escalation off). */
+alerting.put(
+  "/rules/:id/escalation",
+  requirePermission(PERMISSIONS.ALERTING_EDIT),
+  zValidator("json", escalationBodySchema),
+  async (c) => {
+    const id = requireParam(c, "id");
+    const { steps } = c.req.valid("json");
+    if (!(await store.getRule(id))) return c.json({ success: false, error: "Rule not found" }, 404);
+    const channelIds = new Set((await store.listChannels()).map((ch) => ch.id));
+    const problem = validateEscalationSteps(steps, channelIds);
+    if (problem) return c.json({ success: false, error: problem }, 400);
+    await store.setEscalationSteps(id, steps);
+    await createAuditLogWithContext(c, AUDIT_ACTIONS.ALERTING_ESCALATION_UPDATE, userId(c), {
+      resourceType: "alert_rule",
+      resourceId: id,
+      details: { steps: steps.map((s) => ({ afterMinutes: s.afterMinutes, channels: s.channelIds.length })) },
+    });
+    return c.json({ success: true });
+  },
+);
+
+// --- silences & maintenance windows ----------------------------------------
+
+/** Optional scope fields; blank connection means any connection. */
+const scopeSchema = z.object({
+  ruleId: z.string().nullable().optional(),
+  connection: z.string().max(255).nullable().optional(),
+  severity: z.nativeEnum(AlertSeverity).nullable().optional(),
+});
+
+function cleanScope(body: z.infer<typeof scopeSchema>): { ruleId: string | null; connection: string | null; severity: AlertSeverity | null } {
+  return {
+    ruleId: body.ruleId || null,
+    connection: body.connection?.trim() || null,
+    severity: body.severity ?? null,
+  };
+}
+
+/** Why a scope can't be saved (an unknown rule), or null when it can. */
+async function scopeProblem(scope: { ruleId: string | null }): Promise<string | null> {
+  if (scope.ruleId && !(await store.getRule(scope.ruleId))) return "Rule not found";
+  return null;
+}
+
+const silenceBodySchema = scopeSchema.extend({
+  name: z.string().min(1).max(120),
+  startsAt: z.number().int().nonnegative(),
+  endsAt: z.number().int().positive(),
+  comment: z.string().max(1000).nullable().optional(),
+});
+
+alerting.get("/silences", requirePermission(PERMISSIONS.ALERTING_VIEW), async (c) => {
+  return c.json({ success: true, data: await store.listSilences() });
+});
+
+alerting.post(
+  "/silences",
+  requirePermission(PERMISSIONS.ALERTING_EDIT),
+  zValidator("json", silenceBodySchema),
+  async (c) => {
+    const body = c.req.valid("json");
+    if (body.endsAt <= body.startsAt) return c.json({ success: false, error: "The silence must end after it starts" }, 400);
+    const scope = cleanScope(body);
+    const problem = await scopeProblem(scope);
+    if (problem) return c.json({ success: false, error: problem }, 400);
+    const id = await store.createSilence(
+      { name: body.name, startsAt: body.startsAt, endsAt: body.endsAt, comment: body.comment?.trim() || null, ...scope },
+      userId(c),
+    );
+    await createAuditLogWithContext(c, AUDIT_ACTIONS.ALERTING_SILENCE_CREATE, userId(c), {
+      resourceType: "alert_silence",
+      resourceId: id,
+      details: { name: body.name, startsAt: body.startsAt, endsAt: body.endsAt, ...scope },
+    });
+    return c.json({ success: true, data: { id } }, 201);
+  },
+);
+
+alerting.put(
+  "/silences/:id",
+  requirePermission(PERMISSIONS.ALERTING_EDIT),
+  zValidator("json", silenceBodySchema),
+  async (c) => {
+    const id = requireParam(c, "id");
+    const body = c.req.valid("json");
+    if (body.endsAt <= body.startsAt) return c.json({ success: false, error: "The silence must end after it starts" }, 400);
+    const scope = cleanScope(body);
+    const problem = await scopeProblem(scope);
+    if (problem) return c.json({ success: false, error: problem }, 400);
+    const ok = await store.updateSilence(id, {
+      name: body.name,
+      startsAt: body.startsAt,
+      endsAt: body.endsAt,
+      comment: body.comment?.trim() || null,
+      ...scope,
+    });
+    if (!ok) return c.json({ success: false, error: "Silence not found" }, 404);
+    await createAuditLogWithContext(c, AUDIT_ACTIONS.ALERTING_SILENCE_UPDATE, userId(c), {
+      resourceType: "alert_silence",
+      resourceId: id,
+      details: { name: body.name, startsAt: body.startsAt, endsAt: body.endsAt, ...scope },
+    });
+    return c.json({ success: true });
+  },
+);
+
+alerting.delete("/silences/:id", requirePermission(PERMISSIONS.ALERTING_DELETE), async (c) => {
+  const id = requireParam(c, "id");
+  const existing = await store.getSilence(id);
+  if (!existing) return c.json({ success: false, error: "Silence not found" }, 404);
+  await store.deleteSilence(id);
+  await createAuditLogWithContext(c, AUDIT_ACTIONS.ALERTING_SILENCE_DELETE, userId(c), {
+    resourceType: "alert_silence",
+    resourceId: id,
+    details: { name: existing.name },
+  });
+  return c.json({ success: true });
+});
+
+const windowBodySchema = scopeSchema.extend({
+  name: z.string().min(1).max(120),
+  cronExpr: z.string().min(1).max(120),
+  durationMinutes: z.number().int(),
+  timezone: z.string().min(1).max(64).optional().default("UTC"),
+  enabled: z.boolean().optional().default(true),
+});
+
+alerting.get("/maintenance-windows", requirePermission(PERMISSIONS.ALERTING_VIEW), async (c) => {
+  return c.json({ success: true, data: await store.listMaintenanceWindows() });
+});
+
+alerting.post(
+  "/maintenance-windows",
+  requirePermission(PERMISSIONS.ALERTING_EDIT),
+  zValidator("json", windowBodySchema),
+  async (c) => {
+    const body = c.req.valid("json");
+    const scope = cleanScope(body);
+    const problem = validateMaintenanceWindow(body) ?? (await scopeProblem(scope));
+    if (problem) return c.json({ success: false, error: problem }, 400);
+    const id = await store.createMaintenanceWindow(
+      {
+        name: body.name,
+        cronExpr: body.cronExpr.trim(),
+        durationMinutes: body.durationMinutes,
+        timezone: body.timezone,
+        enabled: body.enabled,
+        ...scope,
+      },
+      userId(c),
+    );
+    await createAuditLogWithContext(c, AUDIT_ACTIONS.ALERTING_MAINTENANCE_WINDOW_CREATE, userId(c), {
+      resourceType: "alert_maintenance_window",
+      resourceId: id,
+      details: { name: body.name, cronExpr: body.cronExpr, durationMinutes: body.durationMinutes, ...scope },
+    });
+    return c.json({ success: true, data: { id } }, 201);
+  },
+);
+
+alerting.put(
+  "/maintenance-windows/:id",
+  requirePermission(PERMISSIONS.ALERTING_EDIT),
+  zValidator("json", windowBodySchema),
+  async (c) => {
+    const id = requireParam(c, "id");
+    const body = c.req.valid("json");
+    const scope = cleanScope(body);
+    const problem = validateMaintenanceWindow(body) ?? (await scopeProblem(scope));
+    if (problem) return c.json({ success: false, error: problem }, 400);
+    const ok = await store.updateMaintenanceWindow(id, {
+      name: body.name,
+      cronExpr: body.cronExpr.trim(),
+      durationMinutes: body.durationMinutes,
+      timezone: body.timezone,
+      enabled: body.enabled,
+      ...scope,
+    });
+    if (!ok) return c.json({ success: false, error: "Maintenance window not found" }, 404);
+    await createAuditLogWithContext(c, AUDIT_ACTIONS.ALERTING_MAINTENANCE_WINDOW_UPDATE, userId(c), {
+      resourceType: "alert_maintenance_window",
+      resourceId: id,
+      details: { name: body.name, cronExpr: body.cronExpr, durationMinutes: body.durationMinutes, enabled: body.enabled, ...scope },
+    });
+    return c.json({ success: true });
+  },
+);
+
+alerting.delete("/maintenance-windows/:id", requirePermission(PERMISSIONS.ALERTING_DELETE), async (c) => {
+  const id = requireParam(c, "id");
+  const existing = await store.getMaintenanceWindow(id);
+  if (!existing) return c.json({ success: false, error: "Maintenance window not found" }, 404);
+  await store.deleteMaintenanceWindow(id);
+  await createAuditLogWithContext(c, AUDIT_ACTIONS.ALERTING_MAINTENANCE_WINDOW_DELETE, userId(c), {
+    resourceType: "alert_maintenance_window",
+    resourceId: id,
+    details: { name: existing.name },
+  });
+  return c.json({ success: true });
+});
+
 // --- events -----------------------------------------------------------------
 
 const eventsQuerySchema = z.object({
@@ -370,6 +703,21 @@ alerting.get(
   },
 );
 
+/** Acknowledge an alert — someone is on it, so it stops escalating. */
+alerting.post("/events/:id/acknowledge", requirePermission(PERMISSIONS.ALERTING_EDIT), async (c) => {
+  const id = requireParam(c, "id");
+  const existing = await store.getEvent(id);
+  if (!existing) return c.json({ success: false, error: "Alert not found" }, 404);
+  if (existing.acknowledgedAt) return c.json({ success: true });
+  await store.acknowledgeEvent(id, userId(c) ?? null);
+  await createAuditLogWithContext(c, AUDIT_ACTIONS.ALERTING_EVENT_ACKNOWLEDGE, userId(c), {
+    resourceType: "alert_event",
+    resourceId: id,
+    details: { ruleId: existing.ruleId, escalationLevel: existing.escalationLevel },
+  });
+  return c.json({ success: true });
+});
+
 const clearEventsQuerySchema = z.object({
   /** Clear events fired at or before this epoch-ms cutoff. Omit to clear all. */
   before: z.coerce.number().int().positive().optional(),
@@ -391,6 +739,293 @@ alerting.delete(
   },
 );
 
+// --- incidents --------------------------------------------------------------
+
+const incidentsQuerySchema = z.object({
+  status: z.enum(["active", "all"]).optional().default("active"),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+});
+
+alerting.get(
+  "/incidents",
+  requirePermission(PERMISSIONS.ALERTING_VIEW),
+  zValidator("query", incidentsQuerySchema),
+  async (c) => {
+    const { status, limit } = c.req.valid("query");
+    const incidents = await store.listIncidents({ includeResolved: status === "all", limit });
+    return c.json({ success: true, data: incidents });
+  },
+);
+
+/** Display names for the users behind a timeline; unknown ids are left out. */
+async function actorNames(ids: Array<string | null>): Promise<Record<string, string>> {
+  const names: Record<string, string> = {};
+  await Promise.all(
+    [...new Set(ids.filter((id): id is string => Boolean(id)))].map(async (id) => {
+      const user = await getUserById(id).catch(() => null);
+      if (user) names[id] = user.displayName || user.username;
+    }),
+  );
+  return names;
+}
+
+/** One incident with its timeline (state changes and notes, oldest first). */
+alerting.get("/incidents/:id", requirePermission(PERMISSIONS.ALERTING_VIEW), async (c) => {
+  const id = requireParam(c, "id");
+  const incident = await store.getIncident(id);
+  if (!incident) return c.json({ success: false, error: "Incident not found" }, 404);
+  const events = await store.listIncidentEvents(id);
+  const actors = await actorNames([incident.acknowledgedBy, incident.resolvedBy, ...events.map((e) => e.actorId)]);
+  return c.json({ success: true, data: { incident, events, actors } });
+});
+
+/** Acknowledge an incident — someone is on it, so its alert stops escalating. */
+alerting.post("/incidents/:id/acknowledge", requirePermission(PERMISSIONS.ALERTING_EDIT), async (c) => {
+  const id = requireParam(c, "id");
+  const existing = await store.getIncident(id);
+  if (!existing) return c.json({ success: false, error: "Incident not found" }, 404);
+  if (existing.status === "resolved") return c.json({ success: false, error: "Incident is already resolved" }, 409);
+  const incident = await store.acknowledgeIncident(id, userId(c) ?? null);
+  await createAuditLogWithContext(c, AUDIT_ACTIONS.ALERTING_INCIDENT_ACKNOWLEDGE, userId(c), {
+    resourceType: "alert_incident",
+    resourceId: id,
+    details: { ruleId: existing.ruleId, dedupKey: existing.dedupKey },
+  });
+  return c.json({ success: true, data: incident });
+});
+
+const MAX_SNOOZE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const snoozeSchema = z.object({
+  /** Epoch ms; at least a minute and at most a week ahead. */
+  until: z.number().int(),
+});
+
+alerting.post(
+  "/incidents/:id/snooze",
+  requirePermission(PERMISSIONS.ALERTING_EDIT),
+  zValidator("json", snoozeSchema),
+  async (c) => {
+    const id = requireParam(c, "id");
+    const { until } = c.req.valid("json");
+    const now = Date.now();
+    if (until < now + 60_000 || until > now + MAX_SNOOZE_MS) {
+      return c.json({ success: false, error: "Snooze must end between one minute and seven days from now" }, 400);
+    }
+    const existing = await store.getIncident(id);
+    if (!existing) return c.json({ success: false, error: "Incident not found" }, 404);
+    if (existing.status === "resolved") return c.json({ success: false, error: "Incident is already resolved" }, 409);
+    const incident = await store.snoozeIncident(id, userId(c) ?? null, until);
+    await createAuditLogWithContext(c, AUDIT_ACTIONS.ALERTING_INCIDENT_SNOOZE, userId(c), {
+      resourceType: "alert_incident",
+      resourceId: id,
+      details: { until },
+    });
+    return c.json({ success: true, data: incident });
+  },
+);
+
+/**
+ * Resolve an incident by hand — e.g. one left open because the breach cleared
+ * while the server was down. Its alert events are resolved with it. A breach
+ * that is in fact still active opens a new incident only after it clears and
+ * fires again.
+ */
+alerting.post("/incidents/:id/resolve", requirePermission(PERMISSIONS.ALERTING_EDIT), async (c) => {
+  const id = requireParam(c, "id");
+  const existing = await store.getIncident(id);
+  if (!existing) return c.json({ success: false, error: "Incident not found" }, 404);
+  if (existing.status === "resolved") return c.json({ success: true, data: existing });
+  const incident = await store.resolveIncident(existing.dedupKey, userId(c) ?? null);
+  await resolveAlert(existing.dedupKey);
+  await createAuditLogWithContext(c, AUDIT_ACTIONS.ALERTING_INCIDENT_RESOLVE, userId(c), {
+    resourceType: "alert_incident",
+    resourceId: id,
+    details: { ruleId: existing.ruleId, dedupKey: existing.dedupKey },
+  });
+  return c.json({ success: true, data: incident });
+});
+
+const noteSchema = z.object({
+  text: z.string().trim().min(1).max(2000),
+});
+
+alerting.post(
+  "/incidents/:id/notes",
+  requirePermission(PERMISSIONS.ALERTING_EDIT),
+  zValidator("json", noteSchema),
+  async (c) => {
+    const id = requireParam(c, "id");
+    const { text } = c.req.valid("json");
+    const existing = await store.getIncident(id);
+    if (!existing) return c.json({ success: false, error: "Incident not found" }, 404);
+    await store.addIncidentNote(id, userId(c) ?? null, text);
+    await createAuditLogWithContext(c, AUDIT_ACTIONS.ALERTING_INCIDENT_NOTE, userId(c), {
+      resourceType: "alert_incident",
+      resourceId: id,
+    });
+    return c.json({ success: true });
+  },
+);
+
+// --- operational digests ---------------------------------------------------
+
+/** Why a digest can't be saved (bad cadence, unknown or incident-tool channel), or null. */
+async function digestProblem(input: DigestInput): Promise<string | null> {
+  if (!isValidTimeZone(input.timezone)) return "Invalid IANA timezone";
+  if (input.frequency === "cron") {
+    const cron = validateCron(input.cronExpr ?? "", input.timezone);
+    if (!cron.valid) return cron.error ?? "Invalid cron expression";
+  }
+  for (const id of input.channelIds) {
+    const channel = await store.getChannel(id);
+    if (!channel) return "Channel not found";
+    if (DIGEST_EXCLUDED_CHANNEL_TYPES.includes(channel.type)) {
+      return `${channel.name} is an incident tool; digests can't be sent to it`;
+    }
+  }
+  return null;
+}
+
+function normalizeDigestInput(input: DigestInput): DigestInput {
+  return { ...input, cronExpr: input.frequency === "cron" ? (input.cronExpr ?? "").trim() : null };
+}
+
+/** Digests with their next few send times and whether the caller opted in. */
+alerting.get("/digests", requirePermission(PERMISSIONS.ALERTING_VIEW), async (c) => {
+  const subscribed = await digestStore.listSubscribedDigestIds(getRbacUser(c).sub);
+  const digests = await digestStore.listDigests();
+  return c.json({
+    success: true,
+    data: digests.map((d) => ({
+      ...d,
+      subscribed: subscribed.has(d.id),
+      nextRuns: d.enabled ? nextFireTimes(d, 3) : [],
+    })),
+  });
+});
+
+alerting.post(
+  "/digests",
+  requirePermission(PERMISSIONS.ALERTING_EDIT),
+  zValidator("json", digestInputSchema),
+  async (c) => {
+    const input = normalizeDigestInput(c.req.valid("json"));
+    const problem = await digestProblem(input);
+    if (problem) return c.json({ success: false, error: problem }, 400);
+    const digest = await digestStore.createDigest(input, userId(c) ?? null);
+    await createAuditLogWithContext(c, AUDIT_ACTIONS.ALERTING_DIGEST_CREATE, userId(c), {
+      resourceType: "ops_digest",
+      resourceId: digest.id,
+      details: { name: digest.name, windowDays: digest.windowDays, frequency: digest.frequency },
+    });
+    return c.json({ success: true, data: digest }, 201);
+  },
+);
+
+alerting.put(
+  "/digests/:id",
+  requirePermission(PERMISSIONS.ALERTING_EDIT),
+  zValidator("json", digestInputSchema),
+  async (c) => {
+    const id = requireParam(c, "id");
+    const input = normalizeDigestInput(c.req.valid("json"));
+    const problem = await digestProblem(input);
+    if (problem) return c.json({ success: false, error: problem }, 400);
+    const digest = await digestStore.updateDigest(id, input);
+    if (!digest) return c.json({ success: false, error: "Digest not found" }, 404);
+    await createAuditLogWithContext(c, AUDIT_ACTIONS.ALERTING_DIGEST_UPDATE, userId(c), {
+      resourceType: "ops_digest",
+      resourceId: id,
+      details: { name: digest.name, windowDays: digest.windowDays, frequency: digest.frequency },
+    });
+    return c.json({ success: true, data: digest });
+  },
+);
+
+alerting.delete("/digests/:id", requirePermission(PERMISSIONS.ALERTING_DELETE), async (c) => {
+  const id = requireParam(c, "id");
+  const existing = await digestStore.getDigest(id);
+  if (!existing) return c.json({ success: false, error: "Digest not found" }, 404);
+  await digestStore.deleteDigest(id);
+  await createAuditLogWithContext(c, AUDIT_ACTIONS.ALERTING_DIGEST_DELETE, userId(c), {
+    resourceType: "ops_digest",
+    resourceId: id,
+    details: { name: existing.name },
+  });
+  return c.json({ success: true });
+});
+
+/**
+ * Compile the digest now and return the message it would send, without sending
+ * it. Only for users who could receive it.
+ */
+alerting.get("/digests/:id/preview", requirePermission(PERMISSIONS.ALERTING_VIEW), async (c) => {
+  const digest = await digestStore.getDigest(requireParam(c, "id"));
+  if (!digest) return c.json({ success: false, error: "Digest not found" }, 404);
+  const denial = await digestRecipientDenial(getRbacUser(c).sub);
+  if (denial) return c.json({ success: false, error: denial }, 403);
+  return c.json({ success: true, data: renderDigest(await compileDigest(digest)) });
+});
+
+/** Send the digest now, outside its schedule. Its next scheduled slot is unaffected. */
+alerting.post("/digests/:id/send", requirePermission(PERMISSIONS.ALERTING_EDIT), async (c) => {
+  const id = requireParam(c, "id");
+  const digest = await digestStore.getDigest(id);
+  if (!digest) return c.json({ success: false, error: "Digest not found" }, 404);
+  const result = await sendDigest(digest);
+  await createAuditLogWithContext(c, AUDIT_ACTIONS.ALERTING_DIGEST_SEND, userId(c), {
+    resourceType: "ops_digest",
+    resourceId: id,
+    details: { name: digest.name, delivered: result.delivered.length, failures: result.failures },
+    status: result.failures.length > 0 ? "failure" : "success",
+  });
+  return c.json({ success: true, data: result });
+});
+
+/**
+ * Opt in to (or out of) receiving a digest by email — the Preferences toggle.
+ * Opting in needs access to every connection the digest covers.
+ */
+alerting.put(
+  "/digests/:id/subscription",
+  requirePermission(PERMISSIONS.ALERTING_VIEW),
+  zValidator("json", digestSubscriptionSchema),
+  async (c) => {
+    const id = requireParam(c, "id");
+    const { subscribed } = c.req.valid("json");
+    if (!(await digestStore.getDigest(id))) return c.json({ success: false, error: "Digest not found" }, 404);
+    if (subscribed) {
+      const denial = await digestRecipientDenial(getRbacUser(c).sub);
+      if (denial) return c.json({ success: false, error: denial }, 403);
+    }
+    await digestStore.setSubscribed(id, getRbacUser(c).sub, subscribed);
+    return c.json({ success: true, data: { subscribed } });
+  },
+);
+
+// --- message templates ------------------------------------------------------
+
+const templatePreviewSchema = z.object({
+  template: z.string().max(MAX_TEMPLATE_LENGTH),
+  source: z.enum(TEMPLATE_SOURCES as [TemplateSource, ...TemplateSource[]]).default("fleet"),
+});
+
+/** Render a template against a sample event, for the editor's live preview. */
+alerting.post(
+  "/templates/preview",
+  requirePermission(PERMISSIONS.ALERTING_VIEW),
+  zValidator("json", templatePreviewSchema),
+  (c) => {
+    const { template, source } = c.req.valid("json");
+    const problem = validateTemplate(template);
+    if (problem) return c.json({ success: true, data: { valid: false, error: problem } });
+    const vars = SAMPLE_TEMPLATE_VARS[source];
+    const message = template.trim() ? applyTemplate(template, vars) : { title: vars.title, text: vars.text };
+    return c.json({ success: true, data: { valid: true, ...message } });
+  },
+);
+
 // --- meta -------------------------------------------------------------------
 
 alerting.get("/channel-types", requirePermission(PERMISSIONS.ALERTING_VIEW), (c) => {
@@ -0,0 +1,194 @@
+import { describe, it, expect, mock, beforeEach, afterAll } from "bun:test";
+import { Hono } from "hono";
+
+// Mock Dependencies
+let currentUser = { sub: "user1", roles: ["analyst"], permissions: ["backups:create", "backups:restore"] };
+
+mock.module("../rbac/middleware/rbacAuth", () => ({
+    rbacAuthMiddleware: mock(async (c: any, next: any) => {
+        c.set("rbacUser", currentUser);
+        c.set("rbacUserId", currentUser.sub);
+        await next();
+    }),
+    requirePermission: () => mock(async (_c: any, next: any) => next()),
+    getRbacUser: (c: any) => c.get("rbacUser"),
+    isAdminPayload: (payload: { roles: string[] }) => payload.roles.includes("admin"),
+}));
+
+const mockCreateAuditLog = mock(async () => undefined);
+
+mock.module("../rbac/services/rbac", () => ({
+    createAuditLogWithContext: mockCreateAuditLog,
+}));
+
+mock.module("../rbac/services/connections", () => ({
+    getUserConnections: mock(async () => [{ id: "conn1" }]),
+}));
+
+const mockHasPartialAccess = mock();
+
+mock.module("../rbac/services/dataAccess", () => ({
+    hasPartialAccess: mockHasPartialAccess,
+}));
+
+const mockCheckDatabaseAccess = mock();
+const mockCheckTableAccess = mock();
+
+mock.module("../middleware/dataAccess", () => ({
+    checkDatabaseAccess: mockCheckDatabaseAccess,
+    checkTableAccess: mockCheckTableAccess,
+}));
+
+const mockHoldForApproval = mock();
+
+mock.module("../middleware/changeApproval", () => ({
+    holdForApproval: mockHoldForApproval,
+}));
+
+const mockStartBackup = mock();
+const mockStartRestore = mock();
+
+mock.module("../services/backups/runner", () => ({
+    listBackups: mock(async () => []),
+    listDisks: mock(async () => []),
+    startBackup: mockStartBackup,
+    startRestore: mockStartRestore,
+    restoreStatement: () => "RESTORE TABLE `crm`.`users` AS `crm`.`users_copy` FROM Disk('backups', 'crm/users/1') ASYNC",
+}));
+
+mock.module("../services/backups/store", () => ({
+    createSchedule: mock(async (input: Record<string, unknown>) => ({ id: "sched1", enabled: false, ...input })),
+}));
+
+// Imported after the mocks: the route registers rbacAuthMiddleware when it loads
+const { default: backupsRoutes } = await import("./backups");
+const { errorHandler } = await import("../middleware/error");
+
+const operation = { id: "op1", connectionId: "conn1", scope: "table", database: "crm", table: "users", destination: "Disk('backups', 'crm/users/1')", status: "running", error: null };
+
+const post = (app: Hono, path: string, body: Record<string, unknown>) =>
+    app.request(path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ connectionId: "conn1", ...body }),
+    });
+
+describe("Backup Routes", () => {
+    let app: Hono;
+
+    beforeEach(() => {
+        app = new Hono();
+        app.onError(errorHandler);
+        app.route("/backups", backupsRoutes);
+
+        currentUser = { sub: "user1", roles: ["analyst"], permissions: ["backups:create", "backups:restore"] };
+        mockHasPartialAccess.mockReset();
+        mockHasPartialAccess.mockResolvedValue(false);
+        mockCheckDatabaseAccess.mockReset();
+        mockCheckDatabaseAccess.mockResolvedValue(true);
+        mockCheckTableAccess.mockReset();
+        mockCheckTableAccess.mockResolvedValue(true);
+        mockHoldForApproval.mockReset();
+        mockHoldForApproval.mockResolvedValue(null);
+        mockStartBackup.mockReset();
+        mockStartBackup.mockResolvedValue(operation);
+        mockStartRestore.mockReset();
+        mockStartRestore.mockResolvedValue({ ...operation, kind: "restore" });
+    });
+
+    afterAll(() => {
+        mock.restore();
+    });
+
+    describe("POST /backups/backup", () => {
+        it("should back up a table the user can read in full", async () => {
+            const res = await post(app, "/backups/backup", { scope: "table", database: "crm", table: "users", disk: "backups" });
+
+            expect(res.status).toBe(201);
+            expect(mockCheckTableAccess).toHaveBeenCalledWith("user1", false, "crm", "users", "conn1", "read");
+            expect(mockStartBackup).toHaveBeenCalled();
+        });
+
+        it("should refuse a table the user cannot access", async () => {
+            mockCheckTableAccess.mockResolvedValue(false);
+
+            const res = await post(app, "/backups/backup", { scope: "table", database: "crm", table: "users", disk: "backups" });
+
+            expect(res.status).toBe(403);
+            expect(mockStartBackup).not.toHaveBeenCalled();
+        });
+
+        it("should refuse a database with masked or filtered tables for non-admins", async () => {
+            mockHasPartialAccess.mockResolvedValue(true);
+
+            const res = await post(app, "/backups/backup", { scope: "database", database: "crm", disk: "backups" });
+
+            expect(res.status).toBe(403);
+            expect(mockCheckDatabaseAccess).toHaveBeenCalledWith("user1", false, "crm", "conn1", "read");
+            expect(mockHasPartialAccess).toHaveBeenCalledWith("user1", "crm", null, "conn1");
+            expect(mockStartBackup).not.toHaveBeenCalled();
+        });
+
+        it("should let admins back up tables under column rules", async () => {
+            currentUser = { ...currentUser, roles: ["admin"] };
+            mockHasPartialAccess.mockResolvedValue(true);
+
+            const res = await post(app, "/backups/backup", { scope: "table", database: "crm", table: "users", disk: "backups" });
+
+            expect(res.status).toBe(201);
+            expect(mockHasPartialAccess).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("POST /backups/restore", () => {
+        const restore = { destination: "Disk('backups', 'crm/users/1')", scope: "table", database: "crm", table: "users", targetTable: "users_copy" };
+
+        it("should check read access to the source and write access to the AS target", async () => {
+            const res = await post(app, "/backups/restore", restore);
+
+            expect(res.status).toBe(201);
+            expect(mockCheckTableAccess).toHaveBeenCalledWith("user1", false, "crm", "users", "conn1", "read");
+            expect(mockCheckTableAccess).toHaveBeenCalledWith("user1", false, "crm", "users_copy", "conn1", "write");
+            expect(mockStartRestore).toHaveBeenCalled();
+        });
+
+        it("should refuse an AS target the user cannot write", async () => {
+            mockCheckTableAccess.mockImplementation(async (_user: string, _admin: boolean, _db: string, table: string) => table !== "users_copy");
+
+            const res = await post(app, "/backups/restore", restore);
+
+            expect(res.status).toBe(403);
+            expect(mockStartRestore).not.toHaveBeenCalled();
+        });
+
+        it("should refuse tables with row filters for non-admins", async () => {
+            mockHasPartialAccess.mockImplementation(async (_user: string, _db: string, table: string | null) => table === "users");
+
+            const res = await post(app, "/backups/restore", restore);
+
+            expect(res.status).toBe(403);
+            expect(mockStartRestore).not.toHaveBeenCalled();
+        });
+
+        it("should hold restores on protected connections for approval", async () => {
+            mockHoldForApproval.mockImplementation(async (c: any) => c.json({ success: false, error: { code: "APPROVAL_REQUIRED" } }, 202));
+
+            const res = await post(app, "/backups/restore", restore);
+
+            expect(res.status).toBe(202);
+            expect(mockHoldForApproval.mock.calls[0][1]).toStartWith("RESTORE TABLE");
+            expect(mockHoldForApproval.mock.calls[0][3]).toBe("conn1");
+            expect(mockStartRestore).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("POST /backups/schedules", () => {
+        it("should refuse schedules for tables the user cannot read in full", async () => {
+            mockHasPartialAccess.mockResolvedValue(true);
+
+            const res = await post(app, "/backups/schedules", { name: "nightly", scope: "table", database: "crm", table: "users", disk: "backups", frequency: "daily" });
+
+            expect(res.status).toBe(403);
+        });
+    });
+});
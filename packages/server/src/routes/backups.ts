@@ -0,0 +1,207 @@
+/**
+ * Backup routes (/api/backups)
+ *
+ * Lists system.backups joined with the CHouse UI catalog, starts BACKUP and
+ * RESTORE operations (ASYNC — progress is polled from the list), and manages
+ * backup schedules. Starting a backup or editing a schedule needs
+ * backups:create, restoring needs backups:restore; every operation is audited
+ * and limited to connections the caller can access. Non-admins can only copy
+ * tables their data access rules show in full, and restores on protected
+ * connections wait for approval like other writes. See services/backups.
+ */
+
+import { Hono, type Context } from "hono";
+import { zValidator } from "@hono/zod-validator";
+
+import { rbacAuthMiddleware, requirePermission, getRbacUser, isAdminPayload } from "../rbac/middleware/rbacAuth";
+import { PERMISSIONS, AUDIT_ACTIONS, SYSTEM_ROLES, type AuditAction } from "../rbac/schema/base";
+import { createAuditLogWithContext } from "../rbac/services/rbac";
+import { getUserConnections } from "../rbac/services/connections";
+import { hasPartialAccess, type AccessType } from "../rbac/services/dataAccess";
+import { checkDatabaseAccess, checkTableAccess } from "../middleware/dataAccess";
+import { holdForApproval } from "../middleware/changeApproval";
+import { AppError, requireParam } from "../types";
+import * as store from "../services/backups/store";
+import { listBackups, listDisks, restoreStatement, startBackup, startRestore } from "../services/backups/runner";
+import { restoreTarget, type BackupTarget } from "../services/backups/statements";
+import {
+  backupScheduleInputSchema,
+  listBackupsQuerySchema,
+  startBackupSchema,
+  startRestoreSchema,
+  type BackupOperationRow,
+  type BackupScheduleInput,
+  type BackupScheduleRow,
+} from "../services/backups/types";
+import { isValidTimeZone, nextFireTimes, validateCron } from "../services/scheduledQueries/cadence";
+
+const backups = new Hono();
+
+backups.use("*", rbacAuthMiddleware);
+
+/** Response envelope the api client unwraps (`data.data`). Mirrors alerting. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function ok(c: Context, data: unknown, status?: 200 | 201): any {
+  return c.json({ success: true, data }, status ?? 200);
+}
+
+/** Reject if the user cannot access the connection (the data-access boundary). */
+async function assertConnectionAccess(c: Context, connectionId: string): Promise<void> {
+  const user = getRbacUser(c);
+  if (user.roles.includes(SYSTEM_ROLES.SUPER_ADMIN)) return;
+  const conns = await getUserConnections(user.sub);
+  if (!conns.some((conn) => conn.id === connectionId)) {
+    throw AppError.forbidden("You do not have access to this connection");
+  }
+}
+
+/**
+ * Reject a backup or restore of data the caller can't reach through queries.
+ * A backup copies whole tables, so non-admins also need every table in scope
+ * free of column rules and row filters that the copy would carry past.
+ */
+async function assertDataAccess(c: Context, connectionId: string, target: BackupTarget, accessType: AccessType): Promise<void> {
+  const user = getRbacUser(c);
+  if (isAdminPayload(user)) return;
+
+  const table = target.scope === "table" ? target.table ?? null : null;
+  const name = table ? `${target.database}.${table}` : target.database;
+  const allowed = table
+    ? await checkTableAccess(user.sub, false, target.database, table, connectionId, accessType)
+    : await checkDatabaseAccess(user.sub, false, target.database, connectionId, accessType);
+  if (!allowed) throw AppError.forbidden(`Access denied to ${name}`);
+
+  if (await hasPartialAccess(user.sub, target.database, table, connectionId)) {
+    throw AppError.forbidden(`Your data access rules limit what you can see of ${name}; only an admin can back it up or restore it`);
+  }
+}
+
+/** Load a schedule on a connection the caller can access. */
+async function loadSchedule(c: Context, id: string): Promise<BackupScheduleRow> {
+  const schedule = await store.getSchedule(id);
+  if (!schedule) throw AppError.notFound("Backup schedule not found");
+  await assertConnectionAccess(c, schedule.connectionId);
+  return schedule;
+}
+
+function validateCadence(input: BackupScheduleInput): void {
+  if (!isValidTimeZone(input.timezone)) throw AppError.badRequest("Invalid IANA timezone");
+  if (input.frequency === "cron") {
+    const cron = validateCron(input.cronExpr ?? "", input.timezone);
+    if (!cron.valid) throw AppError.badRequest(cron.error ?? "Invalid cron expression");
+  }
+}
+
+/** The schedule plus its next few slots, for the schedule list. */
+function withNextRuns(schedule: BackupScheduleRow) {
+  return { ...schedule, nextRuns: schedule.enabled ? nextFireTimes(schedule, 3) : [] };
+}
+
+async function auditOperation(c: Context, action: AuditAction, op: BackupOperationRow) {
+  await createAuditLogWithContext(c, action, getRbacUser(c).sub, {
+    resourceType: "backup",
+    resourceId: op.id,
+    details: {
+      connectionId: op.connectionId,
+      scope: op.scope,
+      database: op.database,
+      ...(op.table && { table: op.table }),
+      destination: op.destination,
+      ...(op.error && { error: op.error }),
+    },
+    status: op.status === "failed" ? "failure" : "success",
+    errorMessage: op.error ?? undefined,
+  });
+}
+
+async function auditSchedule(c: Context, action: AuditAction, schedule: BackupScheduleRow) {
+  await createAuditLogWithContext(c, action, getRbacUser(c).sub, {
+    resourceType: "backup_schedule",
+    resourceId: schedule.id,
+    details: {
+      name: schedule.name,
+      connectionId: schedule.connectionId,
+      database: schedule.database,
+      ...(schedule.table && { table: schedule.table }),
+      disk: schedule.disk,
+      frequency: schedule.frequency,
+    },
+  });
+}
+
+// --- backups ----------------------------------------------------------------
+
+backups.get("/", requirePermission(PERMISSIONS.BACKUPS_VIEW), zValidator("query", listBackupsQuerySchema), async (c) => {
+  const { connectionId } = c.req.valid("query");
+  await assertConnectionAccess(c, connectionId);
+  return ok(c, await listBackups(connectionId));
+});
+
+backups.get("/disks", requirePermission(PERMISSIONS.BACKUPS_VIEW), zValidator("query", listBackupsQuerySchema), async (c) => {
+  const { connectionId } = c.req.valid("query");
+  await assertConnectionAccess(c, connectionId);
+  return ok(c, await listDisks(connectionId));
+});
+
+backups.post("/backup", requirePermission(PERMISSIONS.BACKUPS_CREATE), zValidator("json", startBackupSchema), async (c) => {
+  const input = c.req.valid("json");
+  await assertConnectionAccess(c, input.connectionId);
+  await assertDataAccess(c, input.connectionId, input, "read");
+  const op = await startBackup(input, { startedBy: getRbacUser(c).sub });
+  await auditOperation(c, AUDIT_ACTIONS.BACKUP_START, op);
+  return ok(c, op, 201);
+});
+
+backups.post("/restore", requirePermission(PERMISSIONS.BACKUPS_RESTORE), zValidator("json", startRestoreSchema), async (c) => {
+  const input = c.req.valid("json");
+  await assertConnectionAccess(c, input.connectionId);
+  await assertDataAccess(c, input.connectionId, input, "read");
+  await assertDataAccess(c, input.connectionId, restoreTarget(input), "write");
+
+  const held = await holdForApproval(c, restoreStatement(input), undefined, input.connectionId);
+  if (held) return held;
+
+  const op = await startRestore(input, getRbacUser(c).sub);
+  await auditOperation(c, AUDIT_ACTIONS.BACKUP_RESTORE, op);
+  return ok(c, op, 201);
+});
+
+// --- schedules --------------------------------------------------------------
+
+backups.get("/schedules", requirePermission(PERMISSIONS.BACKUPS_VIEW), zValidator("query", listBackupsQuerySchema), async (c) => {
+  const { connectionId } = c.req.valid("query");
+  await assertConnectionAccess(c, connectionId);
+  return ok(c, (await store.listSchedules(connectionId)).map(withNextRuns));
+});
+
+backups.post("/schedules", requirePermission(PERMISSIONS.BACKUPS_CREATE), zValidator("json", backupScheduleInputSchema), async (c) => {
+  const input = c.req.valid("json");
+  validateCadence(input);
+  await assertConnectionAccess(c, input.connectionId);
+  await assertDataAccess(c, input.connectionId, input, "read");
+  const schedule = await store.createSchedule(input, getRbacUser(c).sub);
+  await auditSchedule(c, AUDIT_ACTIONS.BACKUP_SCHEDULE_CREATE, schedule);
+  return ok(c, withNextRuns(schedule), 201);
+});
+
+backups.put("/schedules/:id", requirePermission(PERMISSIONS.BACKUPS_CREATE), zValidator("json", backupScheduleInputSchema), async (c) => {
+  const id = requireParam(c, "id");
+  const input = c.req.valid("json");
+  validateCadence(input);
+  await loadSchedule(c, id);
+  await assertConnectionAccess(c, input.connectionId);
+  await assertDataAccess(c, input.connectionId, input, "read");
+  const schedule = await store.updateSchedule(id, input);
+  if (!schedule) throw AppError.notFound("Backup schedule not found");
+  await auditSchedule(c, AUDIT_ACTIONS.BACKUP_SCHEDULE_UPDATE, schedule);
+  return ok(c, withNextRuns(schedule));
+});
+
+backups.delete("/schedules/:id", requirePermission(PERMISSIONS.BACKUPS_CREATE), async (c) => {
+  const schedule = await loadSchedule(c, requireParam(c, "id"));
+  await store.deleteSchedule(schedule.id);
+  await auditSchedule(c, AUDIT_ACTIONS.BACKUP_SCHEDULE_DELETE, schedule);
+  return ok(c, { deleted: true });
+});
+
+export default backups;
@@ -0,0 +1,105 @@
+/**
+ * Change request routes (/api/change-requests)
+ *
+ * The approval queue for DDL/DML held back on protected connections (see
+ * services/changeRequests). Holders of change_requests:approve see and review
+ * every request; everyone else sees only the requests they submitted and may
+ * withdraw them while pending. Approval executes the statement.
+ */
+
+import { Hono, type Context } from "hono";
+import { zValidator } from "@hono/zod-validator";
+
+import { rbacAuthMiddleware, requirePermission, getRbacUser } from "../rbac/middleware/rbacAuth";
+import { PERMISSIONS, AUDIT_ACTIONS, type AuditAction } from "../rbac/schema/base";
+import { createAuditLogWithContext } from "../rbac/services/rbac";
+import { AppError, requireParam } from "../types";
+import * as store from "../services/changeRequests/store";
+import { approveChangeRequest, getCurrentDdl, rejectChangeRequest } from "../services/changeRequests/workflow";
+import {
+  listChangeRequestsQuerySchema,
+  reviewChangeRequestSchema,
+  type ChangeRequestRow,
+} from "../services/changeRequests/types";
+
+const changeRequests = new Hono();
+
+changeRequests.use("*", rbacAuthMiddleware);
+
+/** Response envelope the api client unwraps (`data.data`). Mirrors alerting. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function ok(c: Context, data: unknown): any {
+  return c.json({ success: true, data });
+}
+
+function canApprove(c: Context): boolean {
+  return getRbacUser(c).permissions.includes(PERMISSIONS.CHANGE_REQUESTS_APPROVE);
+}
+
+/**
+ * Load a request the caller may see. Requests of other users are reported as
+ * not-found to non-approvers so their existence isn't leaked.
+ */
+async function loadVisible(c: Context, id: string): Promise<ChangeRequestRow> {
+  const request = await store.getChangeRequest(id);
+  if (!request || (!canApprove(c) && request.requestedBy !== getRbacUser(c).sub)) {
+    throw AppError.notFound("Change request not found");
+  }
+  return request;
+}
+
+async function audit(c: Context, action: AuditAction, request: ChangeRequestRow, comment?: string) {
+  await createAuditLogWithContext(c, action, getRbacUser(c).sub, {
+    resourceType: "change_request",
+    resourceId: request.id,
+    details: {
+      connectionId: request.connectionId,
+      operationType: request.operationType,
+      status: request.status,
+      ...(comment && { comment }),
+      ...(request.error && { error: request.error }),
+    },
+    status: request.status === "failed" ? "failure" : "success",
+  });
+}
+
+// --- routes -----------------------------------------------------------------
+
+changeRequests.get("/", zValidator("query", listChangeRequestsQuerySchema), async (c) => {
+  const { status, limit } = c.req.valid("query");
+  return ok(c, await store.listChangeRequests({
+    status,
+    limit,
+    requestedBy: canApprove(c) ? null : getRbacUser(c).sub,
+  }));
+});
+
+/** A request plus, while pending, the target table's live DDL (`ddlCurrent`). */
+changeRequests.get("/:id", async (c) => {
+  const request = await loadVisible(c, requireParam(c, "id"));
+  const ddlCurrent = request.status === "pending" ? await getCurrentDdl(request) : null;
+  return ok(c, { ...request, ddlCurrent });
+});
+
+changeRequests.post(
+  "/:id/approve",
+  requirePermission(PERMISSIONS.CHANGE_REQUESTS_APPROVE),
+  zValidator("json", reviewChangeRequestSchema),
+  async (c) => {
+    const { comment } = c.req.valid("json");
+    const request = await approveChangeRequest(requireParam(c, "id"), getRbacUser(c).sub, comment || null);
+    await audit(c, AUDIT_ACTIONS.CHANGE_REQUEST_APPROVE, request, comment);
+    return ok(c, request);
+  },
+);
+
+changeRequests.post("/:id/reject", zValidator("json", reviewChangeRequestSchema), async (c) => {
+  const { comment } = c.req.valid("json");
+  const id = requireParam(c, "id");
+  await loadVisible(c, id);
+  const request = await rejectChangeRequest(id, getRbacUser(c).sub, comment || null);
+  await audit(c, AUDIT_ACTIONS.CHANGE_REQUEST_REJECT, request, comment);
+  return ok(c, request);
+});
+
+export default changeRequests;
@@ -0,0 +1,174 @@
+/**
+ * Dashboards routes (/api/dashboards)
+ *
+ * CRUD for grids of saved-query tiles, gated by dashboards:view/edit. Sharing
+ * follows saved queries: the owner edits, public dashboards are readable by
+ * everyone with dashboards:view. Tiles are resolved against the saved queries
+ * visible to the *viewer*, so a public dashboard never exposes the SQL of
+ * someone else's private query — that tile is reported as unavailable.
+ */
+
+import { Hono, type Context } from "hono";
+import { z } from "zod";
+import { zValidator } from "@hono/zod-validator";
+
+import { rbacAuthMiddleware, requirePermission, getRbacUser } from "../rbac/middleware/rbacAuth";
+import { PERMISSIONS, AUDIT_ACTIONS, RESOURCE_TYPES } from "../rbac/schema/base";
+import { createAuditLogWithContext } from "../rbac/services/rbac";
+import { getSavedQueryById, type SavedQueryResponse } from "../rbac/services/savedQueries";
+import { AppError, requireParam } from "../types";
+import * as store from "../services/dashboards/store";
+import {
+  DASHBOARD_MAX_TILES,
+  dashboardParametersSchema,
+  dashboardTileSchema,
+  type DashboardInput,
+  type DashboardRow,
+  type DashboardTile,
+} from "../services/dashboards/types";
+
+const dashboards = new Hono();
+
+dashboards.use("*", rbacAuthMiddleware);
+
+/** Response envelope the api client unwraps (`data.data`). Mirrors alerting. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function ok(c: Context, data: unknown, status?: 200 | 201): any {
+  return c.json({ success: true, data }, status ?? 200);
+}
+
+// --- request schema ---------------------------------------------------------
+
+const tilesSchema = z
+  .array(dashboardTileSchema)
+  .max(DASHBOARD_MAX_TILES)
+  .refine((tiles) => new Set(tiles.map((t) => t.id)).size === tiles.length, "Tile ids must be unique");
+
+const createDashboardSchema = z.object({
+  name: z.string().trim().min(1, "Dashboard name is required").max(255),
+  description: z.string().trim().max(1000).nullish(),
+  isPublic: z.boolean().default(false),
+  tiles: tilesSchema.default([]),
+  parameters: dashboardParametersSchema.default({}),
+});
+
+const updateDashboardSchema = z.object({
+  name: z.string().trim().min(1, "Dashboard name is required").max(255).optional(),
+  description: z.string().trim().max(1000).nullish(),
+  isPublic: z.boolean().optional(),
+  tiles: tilesSchema.optional(),
+  parameters: dashboardParametersSchema.optional(),
+});
+
+// --- helpers ----------------------------------------------------------------
+
+/**
+ * The saved queries behind `tiles` that `viewerId` can see, keyed by id.
+ * A tile whose query is missing from the map renders as unavailable.
+ */
+async function resolveTileQueries(
+  tiles: DashboardTile[],
+  viewerId: string,
+): Promise<Record<string, SavedQueryResponse>> {
+  const queries: Record<string, SavedQueryResponse> = {};
+  for (const savedQueryId of new Set(tiles.map((t) => t.savedQueryId))) {
+    const query = await getSavedQueryById(savedQueryId, viewerId);
+    if (query) queries[savedQueryId] = query;
+  }
+  return queries;
+}
+
+/** Reject tiles bound to saved queries the editor cannot see. */
+async function assertTileQueriesVisible(tiles: DashboardTile[], userId: string): Promise<void> {
+  const queries = await resolveTileQueries(tiles, userId);
+  const missing = tiles.find((t) => !queries[t.savedQueryId]);
+  if (missing) throw AppError.badRequest(`Saved query ${missing.savedQueryId} not found`);
+}
+
+async function withQueries(dashboard: DashboardRow, viewerId: string) {
+  return { ...dashboard, queries: await resolveTileQueries(dashboard.tiles, viewerId) };
+}
+
+// --- routes -----------------------------------------------------------------
+
+dashboards.get("/", requirePermission(PERMISSIONS.DASHBOARDS_VIEW), async (c) => {
+  return ok(c, await store.listDashboards(getRbacUser(c).sub));
+});
+
+dashboards.get("/:id", requirePermission(PERMISSIONS.DASHBOARDS_VIEW), async (c) => {
+  const viewerId = getRbacUser(c).sub;
+  const dashboard = await store.getDashboard(requireParam(c, "id"), viewerId);
+  if (!dashboard) throw AppError.notFound("Dashboard not found");
+  return ok(c, await withQueries(dashboard, viewerId));
+});
+
+dashboards.post(
+  "/",
+  requirePermission(PERMISSIONS.DASHBOARDS_EDIT),
+  zValidator("json", createDashboardSchema),
+  async (c) => {
+    const userId = getRbacUser(c).sub;
+    const body = c.req.valid("json");
+    const tiles = body.tiles.map(store.toTile);
+    await assertTileQueriesVisible(tiles, userId);
+
+    const dashboard = await store.createDashboard(userId, {
+      name: body.name,
+      description: body.description || null,
+      isPublic: body.isPublic,
+      tiles,
+      parameters: { timeRange: body.parameters.timeRange ?? null, values: body.parameters.values },
+    });
+    await createAuditLogWithContext(c, AUDIT_ACTIONS.DASHBOARD_CREATE, userId, {
+      resourceType: RESOURCE_TYPES.DASHBOARD,
+      resourceId: dashboard.id,
+      details: { name: dashboard.name, isPublic: dashboard.isPublic, tiles: tiles.length },
+    });
+    return ok(c, await withQueries(dashboard, userId), 201);
+  },
+);
+
+dashboards.put(
+  "/:id",
+  requirePermission(PERMISSIONS.DASHBOARDS_EDIT),
+  zValidator("json", updateDashboardSchema),
+  async (c) => {
+    const userId = getRbacUser(c).sub;
+    const id = requireParam(c, "id");
+    const body = c.req.valid("json");
+    const patch: Partial<DashboardInput> = {};
+    if (body.name !== undefined) patch.name = body.name;
+    if (body.description !== undefined) patch.description = body.description || null;
+    if (body.isPublic !== undefined) patch.isPublic = body.isPublic;
+    if (body.parameters !== undefined) {
+      patch.parameters = { timeRange: body.parameters.timeRange ?? null, values: body.parameters.values };
+    }
+    if (body.tiles !== undefined) {
+      patch.tiles = body.tiles.map(store.toTile);
+      await assertTileQueriesVisible(patch.tiles, userId);
+    }
+
+    const dashboard = await store.updateDashboard(id, userId, patch);
+    if (!dashboard) throw AppError.notFound("Dashboard not found or you don't have permission to update it");
+    await createAuditLogWithContext(c, AUDIT_ACTIONS.DASHBOARD_UPDATE, userId, {
+      resourceType: RESOURCE_TYPES.DASHBOARD,
+      resourceId: id,
+      details: { changes: Object.keys(patch) },
+    });
+    return ok(c, await withQueries(dashboard, userId));
+  },
+);
+
+dashboards.delete("/:id", requirePermission(PERMISSIONS.DASHBOARDS_EDIT), async (c) => {
+  const userId = getRbacUser(c).sub;
+  const id = requireParam(c, "id");
+  const deleted = await store.deleteDashboard(id, userId);
+  if (!deleted) throw AppError.notFound("Dashboard not found or you don't have permission to delete it");
+  await createAuditLogWithContext(c, AUDIT_ACTIONS.DASHBOARD_DELETE, userId, {
+    resourceType: RESOURCE_TYPES.DASHBOARD,
+    resourceId: id,
+  });
+  return ok(c, { deleted: true });
+});
+
+export default dashboards;
@@ -11,6 +11,7 @@ const mockClose = mock();
 const mockPing = mock();
 const mockCheckIsAdmin = mock();
 const mockGetVersion = mock();
+const mockReloadDictionary = mock();
 
 class MockClickHouseService {
     executeQuery = mockExecuteQuery;
@@ -21,6 +22,7 @@ class MockClickHouseService {
     ping = mockPing;
     checkIsAdmin = mockCheckIsAdmin;
     getVersion = mockGetVersion;
+    reloadDictionary = mockReloadDictionary;
 }
 
 mock.module("../services/clickhouse", () => ({
@@ -46,31 +48,64 @@ mock.module("../rbac/services/connections", () => ({
 }));
 
 const mockUserHasPermission = mock();
+const mockCreateAuditLog = mock();
 
 mock.module("../rbac/services/rbac", () => ({
-    userHasPermission: mockUserHasPermission
+    userHasPermission: mockUserHasPermission,
+    createAuditLogWithContext: mockCreateAuditLog
 }));
 
 const mockFilterDatabases = mock();
 const mockFilterTables = mock();
 const mockCheckDatabaseAccess = mock();
 const mockCheckTableAccess = mock();
+const mockValidateQueryAccess = mock();
+
+const adminContext = { permissions: ["database:view", "table:view"], isRbacAdmin: true, apiKeyId: undefined as string | undefined };
+let mockRbacContext = adminContext;
 
 mock.module("../middleware/dataAccess", () => ({
     optionalRbacMiddleware: mock(async (c, next) => {
         // Simulate RBAC context population
         if (c.req.header("Authorization")) {
+            c.set("rbacUser", { sub: "user1", roles: ["admin"], permissions: mockRbacContext.permissions, apiKeyId: mockRbacContext.apiKeyId });
             c.set("rbacUserId", "user1");
             c.set("rbacRoles", ["admin"]);
-            c.set("rbacPermissions", ["database:view", "table:view"]);
-            c.set("isRbacAdmin", true);
+            c.set("rbacPermissions", mockRbacContext.permissions);
+            c.set("isRbacAdmin", mockRbacContext.isRbacAdmin);
         }
         await next();
     }),
     filterDatabases: mockFilterDatabases,
     filterTables: mockFilterTables,
     checkDatabaseAccess: mockCheckDatabaseAccess,
-    checkTableAccess: mockCheckTableAccess
+    checkTableAccess: mockCheckTableAccess,
+    validateQueryAccess: mockValidateQueryAccess
+}));
+
+// Connections are unprotected: DDL runs right away
+mock.module("../services/changeRequests/workflow", () => ({
+    requiresChangeApproval: mock(() => true),
+    getProtectedConnection: mock(async () => null),
+    submitChangeRequest: mock()
+}));
+
+const mockRunWithQueryBudget = mock();
+
+mock.module("../rbac/services/queryQuotas", () => ({
+    runWithQueryBudget: mockRunWithQueryBudget
+}));
+
+const mockBuildTableLineage = mock();
+const mockListJobs = mock();
+
+mock.module("../services/scheduledQueries/lineage", () => ({
+    buildTableLineage: mockBuildTableLineage,
+    clampWindowDays: (days: number) => Math.min(90, Math.max(1, days))
+}));
+
+mock.module("../services/scheduledQueries/store", () => ({
+    listJobs: mockListJobs
 }));
 
 import explorerRoutes from "./explorer";
@@ -92,6 +127,9 @@ describe("Explorer Routes", () => {
         mockPing.mockClear();
         mockCheckIsAdmin.mockClear();
         mockGetVersion.mockClear();
+        mockReloadDictionary.mockClear();
+        mockBuildTableLineage.mockClear();
+        mockListJobs.mockClear();
 
         mockGetUserConnections.mockClear();
         mockGetConnectionWithPassword.mockClear();
@@ -100,6 +138,13 @@ describe("Explorer Routes", () => {
         mockFilterTables.mockClear();
         mockCheckDatabaseAccess.mockClear();
         mockCheckTableAccess.mockClear();
+        mockValidateQueryAccess.mockClear();
+        mockCreateAuditLog.mockClear();
+        mockRbacContext = adminContext;
+        mockRunWithQueryBudget.mockReset();
+        mockRunWithQueryBudget.mockImplementation(async (_userId: string, run: (guardrails: unknown) => Promise<unknown>) =>
+            run({ settings: { max_execution_time: 30 } })
+        );
 
         // Default mock behaviors
         mockPing.mockResolvedValue(true);
@@ -157,6 +202,76 @@ describe("Explorer Routes", () => {
         });
     });
 
+    describe("GET /explorer/table/:database/:table/sample", () => {
+        it("should mask sampled columns and audit the masks", async () => {
+            mockValidateQueryAccess.mockResolvedValue({
+                allowed: true,
+                columnMasks: [{ database: "crm", table: "users", columnPattern: "email", action: "null", priority: 0, policyName: "PII" }]
+            });
+            mockGetTableSample.mockResolvedValue({
+                meta: [{ name: "id", type: "UInt64" }, { name: "email", type: "String" }],
+                data: [{ id: 1, email: "a@b.c" }],
+                statistics: { elapsed: 0, rows_read: 1, bytes_read: 0 },
+                rows: 1
+            });
+
+            const res = await app.request("/explorer/table/crm/users/sample", {
+                headers: { "Authorization": "Bearer token" }
+            });
+
+            expect(res.status).toBe(200);
+            const body = await res.json();
+            expect(body.data.data).toEqual([{ id: 1, email: null }]);
+            expect(mockValidateQueryAccess.mock.calls[0][3]).toBe("SELECT * FROM `crm`.`users`");
+            expect(mockRunWithQueryBudget.mock.calls[0][0]).toBe("user1");
+            expect(mockGetTableSample).toHaveBeenCalledWith("crm", "users", 100, { max_execution_time: 30 });
+            expect(mockCreateAuditLog.mock.calls[0][3].details.columnMasks).toEqual([
+                { table: "crm.users", column: "email", action: "null", policy: "PII" }
+            ]);
+        });
+
+        it("should return 403 when a column rule denies the sample", async () => {
+            mockValidateQueryAccess.mockResolvedValue({ allowed: false, reason: "Access denied to crm.users" });
+
+            const res = await app.request("/explorer/table/crm/users/sample", {
+                headers: { "Authorization": "Bearer token" }
+            });
+
+            expect(res.status).toBe(403);
+            expect(mockGetTableSample).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("GET /explorer/table/:database/:table/lineage", () => {
+        it("should build lineage on the session's connection with the visible jobs", async () => {
+            const job = { id: "job1", connectionId: "conn1" };
+            mockCheckTableAccess.mockResolvedValue(true);
+            mockListJobs.mockResolvedValue([job]);
+            mockBuildTableLineage.mockResolvedValue({
+                focusTable: "db1.t1", connectionId: "conn1", windowDays: 30, observedAt: 0, nodes: [], edges: []
+            });
+
+            const res = await app.request("/explorer/table/db1/t1/lineage?window=30", {
+                headers: { "Authorization": "Bearer token", "X-Session-ID": "valid-session" }
+            });
+
+            expect(res.status).toBe(200);
+            expect(mockListJobs).toHaveBeenCalledWith(null);
+            expect(mockBuildTableLineage).toHaveBeenCalledWith("conn1", "db1", "t1", [job], 30, "user1");
+        });
+
+        it("should return 403 without access to the table", async () => {
+            mockCheckTableAccess.mockResolvedValue(false);
+
+            const res = await app.request("/explorer/table/db1/t1/lineage", {
+                headers: { "Authorization": "Bearer token", "X-Session-ID": "valid-session" }
+            });
+
+            expect(res.status).toBe(403);
+            expect(mockBuildTableLineage).not.toHaveBeenCalled();
+        });
+    });
+
     describe("POST /explorer/database", () => {
         it("should create database", async () => {
             const res = await app.request("/explorer/database", {
@@ -168,6 +283,159 @@ describe("Explorer Routes", () => {
             expect(res.status).toBe(200);
             expect(mockExecuteQuery).toHaveBeenCalledWith(expect.stringContaining("CREATE DATABASE IF NOT EXISTS `new_db`"));
         });
+
+        it("should keep an API key within its scopes", async () => {
+            // The owner's role grants database:create, the key does not
+            mockRbacContext = { permissions: ["database:view"], isRbacAdmin: false, apiKeyId: "key1" };
+            mockUserHasPermission.mockResolvedValueOnce(true);
+
+            const res = await app.request("/explorer/database", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ name: "new_db" })
+            });
+
+            expect(res.status).toBe(403);
+            expect(mockUserHasPermission).not.toHaveBeenCalled();
+            expect(mockExecuteQuery).not.toHaveBeenCalled();
+            mockUserHasPermission.mockReset();
+        });
+    });
+
+    describe("POST /explorer/dictionary", () => {
+        const spec = {
+            database: "geo",
+            name: "countries",
+            attributes: [
+                { name: "id", type: "UInt64", isKey: true },
+                { name: "iso", type: "String", default: "" },
+            ],
+            source: { type: "clickhouse", db: "geo", table: "countries_src" },
+            layout: "hashed",
+            lifetimeMin: 300,
+            lifetimeMax: 600,
+        };
+
+        beforeEach(() => {
+            mockValidateQueryAccess.mockResolvedValue({ allowed: true });
+        });
+
+        it("should render the statement without running it on a dry run", async () => {
+            const res = await app.request("/explorer/dictionary", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ ...spec, dryRun: true })
+            });
+
+            expect(res.status).toBe(200);
+            const body = await res.json();
+            expect(body.data.statement).toContain("CREATE DICTIONARY `geo`.`countries`");
+            expect(mockExecuteQuery).not.toHaveBeenCalled();
+        });
+
+        it("should create the dictionary and audit it", async () => {
+            const res = await app.request("/explorer/dictionary", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify(spec)
+            });
+
+            expect(res.status).toBe(200);
+            expect(mockExecuteQuery).toHaveBeenCalledWith(expect.stringContaining("LAYOUT(HASHED())"));
+            expect(mockCreateAuditLog.mock.calls[0][1]).toBe("clickhouse.dictionary_create");
+        });
+
+        it("should reject a spec without a key", async () => {
+            const res = await app.request("/explorer/dictionary", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ ...spec, attributes: spec.attributes.map((a) => ({ ...a, isKey: false })) })
+            });
+
+            expect(res.status).toBe(400);
+            expect(mockExecuteQuery).not.toHaveBeenCalled();
+        });
+
+        it("should check access to the ClickHouse source table", async () => {
+            await app.request("/explorer/dictionary", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ ...spec, source: { ...spec.source, where: "active = 1" }, dryRun: true })
+            });
+
+            expect(mockValidateQueryAccess.mock.calls[0][3]).toBe("SELECT * FROM `geo`.`countries_src` WHERE active = 1");
+        });
+
+        it("should refuse a source the user cannot read", async () => {
+            mockValidateQueryAccess.mockResolvedValue({ allowed: false, reason: "Access denied to geo.countries_src" });
+
+            const res = await app.request("/explorer/dictionary", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify(spec)
+            });
+
+            expect(res.status).toBe(403);
+            const body = await res.json();
+            expect(body.error.message).toBe("Access denied to geo.countries_src");
+            expect(mockExecuteQuery).not.toHaveBeenCalled();
+        });
+
+        it("should refuse a source under column masks or row filters", async () => {
+            mockValidateQueryAccess.mockResolvedValue({ allowed: true, rowFilters: [{ database: "geo", table: "countries_src", filter: "region = 'EU'" }] });
+
+            const res = await app.request("/explorer/dictionary", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ ...spec, source: { type: "clickhouse", query: "SELECT id, iso FROM geo.countries_src" } })
+            });
+
+            expect(res.status).toBe(403);
+            const body = await res.json();
+            expect(body.error.message).toContain("row filter");
+            expect(mockValidateQueryAccess.mock.calls[0][3]).toBe("SELECT id, iso FROM geo.countries_src");
+            expect(mockExecuteQuery).not.toHaveBeenCalled();
+        });
+
+        it("should not check sources outside ClickHouse", async () => {
+            const res = await app.request("/explorer/dictionary", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ ...spec, source: { type: "postgresql", host: "pg", db: "geo", table: "countries" }, dryRun: true })
+            });
+
+            expect(res.status).toBe(200);
+            expect(mockValidateQueryAccess).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("POST /explorer/dictionary/reload", () => {
+        it("should reload and audit the outcome", async () => {
+            mockReloadDictionary.mockResolvedValue({ database: "geo", name: "countries", status: "LOADED", element_count: 250, last_exception: "" });
+
+            const res = await app.request("/explorer/dictionary/reload", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ database: "geo", name: "countries" })
+            });
+
+            expect(res.status).toBe(200);
+            expect(mockReloadDictionary).toHaveBeenCalledWith("geo", "countries");
+            expect(mockCreateAuditLog.mock.calls[0][3].status).toBe("success");
+        });
+
+        it("should audit a failed reload", async () => {
+            mockReloadDictionary.mockRejectedValue(new Error("Connection refused"));
+
+            const res = await app.request("/explorer/dictionary/reload", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ database: "geo", name: "countries" })
+            });
+
+            expect(res.status).toBe(500);
+            expect(mockCreateAuditLog.mock.calls[0][3].status).toBe("failure");
+        });
     });
 
     describe("DELETE /explorer/database/:name", () => {
@@ -6,10 +6,16 @@ import {
   filterDatabases,
   filterTables,
   checkDatabaseAccess,
-  checkTableAccess
+  checkTableAccess,
+  validateQueryAccess
 } from "../middleware/dataAccess";
-import { PERMISSIONS, AUDIT_ACTIONS } from "../rbac/schema/base";
+import { applyColumnMasks, describeColumnMasks } from "../middleware/columnMasking";
+import { holdForApproval } from "../middleware/changeApproval";
+import { describeRowFilters, rowFilterSettings } from "../middleware/rowFilters";
+import { PERMISSIONS, AUDIT_ACTIONS, type Permission } from "../rbac/schema/base";
+import { isApiKeyRequest, isSuperAdminRequest } from "../rbac/middleware/rbacAuth";
 import { userHasPermission, createAuditLogWithContext } from "../rbac/services/rbac";
+import { runWithQueryBudget, type QueryGuardrails } from "../rbac/services/queryQuotas";
 import { AppError } from "../types";
 import { ClickHouseService } from "../services/clickhouse";
 import { getSession } from "../services/clickhouse";
@@ -17,6 +23,14 @@ import { getUserConnections, getConnectionWithPassword } from "../rbac/services/
 import type { Session } from "../types";
 import { escapeIdentifier, escapeQualifiedIdentifier, validateColumnType, validateFormat } from "../utils/sqlIdentifier";
 import { logger, requestLogger } from "../utils/logger";
+import {
+  buildCreateDictionaryStatement,
+  createDictionarySchema,
+  dictionarySourceQueries,
+  validateDictionarySpec,
+} from "../services/dictionaries/ddl";
+import { buildTableLineage, clampWindowDays, type TableLineageGraph } from "../services/scheduledQueries/lineage";
+import { listJobs } from "../services/scheduledQueries/store";
 
 type Variables = {
   sessionId?: string;
@@ -84,8 +98,7 @@ async function explorerAuthMiddleware(c: Context<{ Variables: Variables }>, next
   await optionalRbacMiddleware(c, async () => { });
 
   const rbacUserId = c.get("rbacUserId");
-  const rbacRoles = c.get("rbacRoles");
-  const isSuperAdmin = rbacRoles?.includes('super_admin') || false;
+  const isSuperAdmin = isSuperAdminRequest(c);
 
   if (rbacUserId) {
     let service: ClickHouseService | null = null;
@@ -195,7 +208,8 @@ async function checkExplorerPermission(
   rbacUserId: string | undefined,
   rbacPermissions: string[] | undefined,
   isRbacAdmin: boolean | undefined,
-  permission: string
+  permission: Permission,
+  isApiKey: boolean
 ): Promise<void> {
   // RBAC user is required
   if (!rbacUserId) {
@@ -212,8 +226,9 @@ async function checkExplorerPermission(
     return;
   }
 
-  // Double-check against database (in case permissions changed)
-  const hasPermission = await userHasPermission(rbacUserId, permission as any);
+  // Double-check against database (in case permissions changed). API keys
+  // must stay within their scopes.
+  const hasPermission = !isApiKey && await userHasPermission(rbacUserId, permission);
   if (!hasPermission) {
     throw AppError.forbidden(`Permission '${permission}' required for this action`);
   }
@@ -235,7 +250,8 @@ explorer.get("/databases", async (c) => {
     rbacUserId,
     rbacPermissions,
     isRbacAdmin,
-    PERMISSIONS.DB_VIEW
+    PERMISSIONS.DB_VIEW,
+    isApiKeyRequest(c)
   );
 
   // Get the RBAC connection ID from the session (if session was created from RBAC connection)
@@ -310,7 +326,8 @@ explorer.get("/table/:database/:table", async (c) => {
     rbacUserId,
     rbacPermissions,
     isRbacAdmin,
-    PERMISSIONS.TABLE_VIEW
+    PERMISSIONS.TABLE_VIEW,
+    isApiKeyRequest(c)
   );
 
   // Validate identifiers
@@ -343,7 +360,8 @@ explorer.get("/table/:database/:table", async (c) => {
 
 /**
  * GET /explorer/table/:database/:table/sample
- * Get table data sample (with access check)
+ * Get table data sample (with access check). Runs through the same validator as
+ * /query/execute so column rules and row filters apply here too.
  */
 explorer.get("/table/:database/:table/sample", async (c) => {
   const { database, table } = c.req.param();
@@ -360,7 +378,8 @@ explorer.get("/table/:database/:table/sample", async (c) => {
     rbacUserId,
     rbacPermissions,
     isRbacAdmin,
-    PERMISSIONS.TABLE_SELECT
+    PERMISSIONS.TABLE_SELECT,
+    isApiKeyRequest(c)
   );
 
   // Validate identifiers
@@ -375,6 +394,129 @@ explorer.get("/table/:database/:table/sample", async (c) => {
   }
 
   // Check access
+  const accessCheck = await validateQueryAccess(
+    rbacUserId,
+    isRbacAdmin,
+    rbacPermissions,
+    `SELECT * FROM ${escapeIdentifier(database)}.${escapeIdentifier(table)}`,
+    session?.connectionConfig?.database,
+    connectionId
+  );
+  if (!accessCheck.allowed) {
+    return c.json({
+      success: false,
+      error: { code: "FORBIDDEN", message: accessCheck.reason || `Access denied to ${database}.${table}` },
+    }, 403);
+  }
+
+  const columnMasks = accessCheck.columnMasks ?? [];
+  const rowFilters = accessCheck.rowFilters ?? [];
+  // Samples run under the same role quota guardrails and budget as workspace queries
+  const run = (guardrails: QueryGuardrails) =>
+    service.getTableSample(database, table, Math.min(limit, 1000), {
+      ...guardrails.settings,
+      ...rowFilterSettings(rowFilters),
+    });
+  const sample = applyColumnMasks(
+    rbacUserId
+      ? await runWithQueryBudget(rbacUserId, run, (result) => result.statistics?.bytes_read ?? 0)
+      : await run({ settings: {} }),
+    columnMasks
+  );
+
+  // Masked or filtered reads are audited so the log shows what was hidden
+  if (rbacUserId && (columnMasks.length > 0 || rowFilters.length > 0)) {
+    try {
+      await createAuditLogWithContext(c, AUDIT_ACTIONS.CH_QUERY_EXECUTE, rbacUserId, {
+        resourceType: 'table',
+        resourceId: `${database}.${table}`,
+        details: {
+          operation: 'sample',
+          database,
+          table,
+          connectionId,
+          ...(columnMasks.length > 0 && { columnMasks: describeColumnMasks(columnMasks) }),
+          ...(rowFilters.length > 0 && { rowFilters: describeRowFilters(rowFilters) }),
+        },
+        ipAddress: c.req.header('X-Forwarded-For') || c.req.header('X-Real-IP'),
+      });
+    } catch (auditError) {
+      requestLogger(c.get("requestId")).error(
+        { module: "Explorer", err: auditError instanceof Error ? auditError.message : String(auditError) },
+        "Failed to create audit log"
+      );
+    }
+  }
+
+  return c.json({
+    success: true,
+    data: sample,
+  });
+});
+
+/**
+ * Drop lineage nodes for tables the user can't access, with their edges.
+ * Job nodes are already limited to jobs the user can see.
+ */
+async function filterLineageGraph(
+  graph: TableLineageGraph,
+  rbacUserId: string | undefined,
+  isRbacAdmin: boolean | undefined,
+  connectionId: string
+): Promise<TableLineageGraph> {
+  if (isRbacAdmin) return graph;
+  const byDatabase = new Map<string, string[]>();
+  for (const node of graph.nodes) {
+    if (node.kind === "table") byDatabase.set(node.database, [...(byDatabase.get(node.database) ?? []), node.table]);
+  }
+  const allowed = new Set<string>();
+  for (const [database, tables] of byDatabase) {
+    for (const table of await filterTables(rbacUserId, isRbacAdmin, database, tables, connectionId)) {
+      allowed.add(`table:${database}.${table}`);
+    }
+  }
+  const nodes = graph.nodes.filter((node) => node.kind !== "table" || allowed.has(node.id));
+  const kept = new Set(nodes.map((node) => node.id));
+  return { ...graph, nodes, edges: graph.edges.filter((edge) => kept.has(edge.from) && kept.has(edge.to)) };
+}
+
+/**
+ * GET /explorer/table/:database/:table/lineage
+ * Lineage around a table: views, Distributed tables, dictionaries, INSERT …
+ * SELECT traffic from query_log and, with scheduled_queries:view, the
+ * scheduled jobs that read or write it. Tables the user can't access are left out.
+ */
+explorer.get("/table/:database/:table/lineage", async (c) => {
+  const { database, table } = c.req.param();
+  const windowDays = clampWindowDays(parseInt(c.req.query("window") || "14", 10) || 14);
+  const session = c.get("session");
+  const rbacUserId = c.get("rbacUserId");
+  const rbacPermissions = c.get("rbacPermissions");
+  const isRbacAdmin = c.get("isRbacAdmin");
+  const connectionId = session?.rbacConnectionId;
+
+  await checkExplorerPermission(
+    rbacUserId,
+    rbacPermissions,
+    isRbacAdmin,
+    PERMISSIONS.TABLE_VIEW,
+    isApiKeyRequest(c)
+  );
+
+  try {
+    escapeIdentifier(database);
+    escapeIdentifier(table);
+  } catch (error) {
+    return c.json({
+      success: false,
+      error: { code: "INVALID_INPUT", message: `Invalid identifier: ${(error as Error).message}` },
+    }, 400);
+  }
+
+  if (!connectionId) {
+    throw AppError.badRequest("Lineage needs a saved connection");
+  }
+
   const hasAccess = await checkTableAccess(rbacUserId, isRbacAdmin, database, table, connectionId);
   if (!hasAccess) {
     return c.json({
@@ -383,11 +525,17 @@ explorer.get("/table/:database/:table/sample", async (c) => {
     }, 403);
   }
 
-  const sample = await service.getTableSample(database, table, Math.min(limit, 1000));
+  // Jobs join the graph only for users who can see scheduled queries
+  const permissions = rbacPermissions ?? [];
+  const canViewJobs = isRbacAdmin || permissions.includes(PERMISSIONS.SCHEDULED_QUERIES_VIEW);
+  const canViewAllJobs = isRbacAdmin || permissions.includes(PERMISSIONS.SCHEDULED_QUERIES_VIEW_ALL);
+  const jobs = canViewJobs ? await listJobs(canViewAllJobs ? null : rbacUserId) : [];
+
+  const graph = await buildTableLineage(connectionId, database, table, jobs, windowDays, rbacUserId ?? null);
 
   return c.json({
     success: true,
-    data: sample,
+    data: await filterLineageGraph(graph, rbacUserId, isRbacAdmin, connectionId),
   });
 });
 
@@ -414,7 +562,8 @@ explorer.post(
       rbacUserId,
       rbacPermissions,
       isRbacAdmin,
-      PERMISSIONS.DB_CREATE
+      PERMISSIONS.DB_CREATE,
+      isApiKeyRequest(c)
     );
     const { name, engine, cluster } = c.req.valid("json");
     const service = c.get("service");
@@ -447,6 +596,9 @@ explorer.post(
       query += ` ENGINE = ${escapedEngine}`;
     }
 
+    const held = await holdForApproval(c, query);
+    if (held) return held;
+
     await service.executeQuery(query);
 
     // Audit log
@@ -487,7 +639,8 @@ explorer.delete(
       rbacUserId,
       rbacPermissions,
       isRbacAdmin,
-      PERMISSIONS.DB_DROP
+      PERMISSIONS.DB_DROP,
+      isApiKeyRequest(c)
     );
     const { name } = c.req.param();
     const service = c.get("service");
@@ -503,7 +656,11 @@ explorer.delete(
       }, 400);
     }
 
-    await service.executeQuery(`DROP DATABASE IF EXISTS ${escapedName}`);
+    const dropQuery = `DROP DATABASE IF EXISTS ${escapedName}`;
+    const held = await holdForApproval(c, dropQuery);
+    if (held) return held;
+
+    await service.executeQuery(dropQuery);
 
     // Audit log
     try {
@@ -560,7 +717,8 @@ explorer.post(
       rbacUserId,
       rbacPermissions,
       isRbacAdmin,
-      PERMISSIONS.TABLE_CREATE
+      PERMISSIONS.TABLE_CREATE,
+      isApiKeyRequest(c)
     );
     const { database, name, columns, engine, orderBy, partitionBy, primaryKey, cluster } = c.req.valid("json");
     const service = c.get("service");
@@ -665,6 +823,9 @@ explorer.post(
       query += `\nPRIMARY KEY ${primaryKey}`;
     }
 
+    const held = await holdForApproval(c, query);
+    if (held) return held;
+
     await service.executeQuery(query);
 
     // Audit log
@@ -689,6 +850,173 @@ explorer.post(
   }
 );
 
+/**
+ * POST /explorer/dictionary
+ * Create a dictionary from the Explorer wizard's spec. With `dryRun` the
+ * rendered statement is returned without running it (the review step).
+ */
+explorer.post(
+  "/dictionary",
+  zValidator("json", createDictionarySchema),
+  async (c) => {
+    const rbacUserId = c.get("rbacUserId");
+    const rbacPermissions = c.get("rbacPermissions");
+    const isRbacAdmin = c.get("isRbacAdmin");
+
+    // Dictionaries are created like tables
+    await checkExplorerPermission(
+      rbacUserId,
+      rbacPermissions,
+      isRbacAdmin,
+      PERMISSIONS.TABLE_CREATE,
+      isApiKeyRequest(c)
+    );
+    const input = c.req.valid("json");
+    const service = c.get("service");
+    const session = c.get("session");
+
+    const problem = validateDictionarySpec(input);
+    if (problem) {
+      return c.json({
+        success: false,
+        error: { code: "INVALID_INPUT", message: problem },
+      }, 400);
+    }
+
+    let query: string;
+    let sourceQueries: string[];
+    try {
+      query = buildCreateDictionaryStatement(input);
+      sourceQueries = dictionarySourceQueries(input.source);
+    } catch (error) {
+      return c.json({
+        success: false,
+        error: { code: "INVALID_INPUT", message: `Invalid identifier: ${(error as Error).message}` },
+      }, 400);
+    }
+
+    // The dictionary reads its ClickHouse source with the server's credentials,
+    // so the creator must be able to read all of it: no masks, no row filters.
+    for (const sourceQuery of sourceQueries) {
+      const accessCheck = await validateQueryAccess(
+        rbacUserId,
+        isRbacAdmin,
+        rbacPermissions,
+        sourceQuery,
+        session?.connectionConfig?.database,
+        session?.rbacConnectionId
+      );
+      let denial = accessCheck.allowed ? null : (accessCheck.reason || "Access denied to the dictionary source");
+      if (accessCheck.allowed && accessCheck.columnMasks?.length) {
+        denial = "The dictionary source reads tables with masked or denied columns";
+      } else if (accessCheck.allowed && accessCheck.rowFilters?.length) {
+        denial = "The dictionary source reads tables limited by a row filter";
+      }
+      if (denial) {
+        return c.json({
+          success: false,
+          error: { code: "FORBIDDEN", message: denial },
+        }, 403);
+      }
+    }
+
+    if (input.dryRun) {
+      return c.json({ success: true, data: { statement: query } });
+    }
+
+    const held = await holdForApproval(c, query);
+    if (held) return held;
+
+    await service.executeQuery(query);
+
+    // Audit log
+    try {
+      await createAuditLogWithContext(c, AUDIT_ACTIONS.CH_DICTIONARY_CREATE, rbacUserId, {
+        resourceType: 'dictionary',
+        resourceId: `${input.database}.${input.name}`,
+        details: {
+          operation: 'create',
+          database: input.database,
+          dictionary: input.name,
+          source: input.source.type,
+          layout: input.layout,
+          columnCount: input.attributes.length,
+        },
+        ipAddress: c.req.header('X-Forwarded-For') || c.req.header('X-Real-IP'),
+      });
+    } catch (auditError) {
+      requestLogger(c.get("requestId")).error(
+        { module: "Explorer", err: auditError instanceof Error ? auditError.message : String(auditError) },
+        "Failed to create audit log"
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: { message: `Dictionary '${input.database}.${input.name}' created successfully`, statement: query },
+    });
+  }
+);
+
+/**
+ * POST /explorer/dictionary/reload
+ * SYSTEM RELOAD DICTIONARY for one dictionary (Explorer tree and the
+ * Dictionaries monitoring tab). Requires dictionaries:reload; every attempt
+ * is audited. Body: { database, name } — database is empty for dictionaries
+ * defined in server config.
+ */
+const reloadDictionarySchema = z.object({
+  database: z.string().max(256).default(""),
+  name: z.string().min(1, "Dictionary name is required").max(256),
+});
+
+explorer.post(
+  "/dictionary/reload",
+  zValidator("json", reloadDictionarySchema),
+  async (c) => {
+    const rbacUserId = c.get("rbacUserId");
+    const rbacPermissions = c.get("rbacPermissions");
+    const isRbacAdmin = c.get("isRbacAdmin");
+
+    await checkExplorerPermission(
+      rbacUserId,
+      rbacPermissions,
+      isRbacAdmin,
+      PERMISSIONS.DICTIONARIES_RELOAD,
+      isApiKeyRequest(c)
+    );
+    const { database, name } = c.req.valid("json");
+    const service = c.get("service");
+    const label = database ? `${database}.${name}` : name;
+
+    const audit = async (status: "success" | "failure", details: Record<string, unknown>) => {
+      try {
+        await createAuditLogWithContext(c, AUDIT_ACTIONS.DICTIONARY_RELOAD, rbacUserId, {
+          resourceType: 'dictionary',
+          resourceId: label,
+          details: { database, dictionary: name, connectionId: c.get("session")?.rbacConnectionId, ...details },
+          ipAddress: c.req.header('X-Forwarded-For') || c.req.header('X-Real-IP'),
+          status,
+        });
+      } catch (auditError) {
+        requestLogger(c.get("requestId")).error(
+          { module: "Explorer", err: auditError instanceof Error ? auditError.message : String(auditError) },
+          "Failed to create audit log"
+        );
+      }
+    };
+
+    try {
+      const result = await service.reloadDictionary(database, name);
+      await audit("success", { status: result.status, elementCount: result.element_count });
+      return c.json({ success: true, data: result });
+    } catch (error) {
+      await audit("failure", { error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+);
+
 /**
  * DELETE /explorer/table/:database/:table
  * Drop a table
@@ -705,7 +1033,8 @@ explorer.delete(
       rbacUserId,
       rbacPermissions,
       isRbacAdmin,
-      PERMISSIONS.TABLE_DROP
+      PERMISSIONS.TABLE_DROP,
+      isApiKeyRequest(c)
     );
     const { database, table } = c.req.param();
     const service = c.get("service");
@@ -723,7 +1052,11 @@ explorer.delete(
       }, 400);
     }
 
-    await service.executeQuery(`DROP TABLE IF EXISTS ${escapedDatabase}.${escapedTable}`);
+    const dropQuery = `DROP TABLE IF EXISTS ${escapedDatabase}.${escapedTable}`;
+    const held = await holdForApproval(c, dropQuery);
+    if (held) return held;
+
+    await service.executeQuery(dropQuery);
 
     // Audit log
     try {
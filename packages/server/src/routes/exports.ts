@@ -0,0 +1,67 @@
+/**
+ * Export download links (/api/exports/:token)
+ *
+ * Serves the one-time links the `export_query_result` AI tool hands out (see
+ * services/export/links). The links are opened by plain browser navigation,
+ * so this route is public: the unguessable, single-use, short-lived token is
+ * the credential, and the export itself was cleared for its user when the
+ * link was made.
+ */
+
+import { Hono } from "hono";
+
+import { AUDIT_ACTIONS } from "../rbac/schema/base";
+import { createAuditLogWithContext } from "../rbac/services/rbac";
+import { recordQueryUsage } from "../rbac/services/queryQuotas";
+import { getClientIp } from "../rbac/middleware/rbacAuth";
+import { describeColumnMasks } from "../middleware/columnMasking";
+import { takeExportLink } from "../services/export/links";
+import { exportResponse, runExport } from "../services/export/runner";
+import { AppError, requireParam } from "../types";
+import { requestLogger } from "../utils/logger";
+
+const exportsRoute = new Hono();
+
+exportsRoute.get("/:token", async (c) => {
+  const link = takeExportLink(requireParam(c, "token"));
+  if (!link) {
+    throw AppError.notFound("This export link has expired or was already used");
+  }
+
+  const { spec, service, userId, connectionId } = link;
+  const log = requestLogger(c.get("requestId"));
+  const recordUsage = (bytes: number) =>
+    recordQueryUsage(userId, bytes).catch((err: unknown) => {
+      log.error({ module: "Exports", err: err instanceof Error ? err.message : String(err) }, "Failed to record query usage");
+    });
+
+  const result = await runExport(service, spec).catch(async (error: unknown) => {
+    // A query that failed before its first byte still counts towards the budget
+    await recordUsage(0);
+    throw error;
+  });
+
+  void result.bytesRead.then(recordUsage);
+
+  createAuditLogWithContext(c, AUDIT_ACTIONS.CH_QUERY_EXPORT, userId, {
+    resourceType: "query",
+    details: {
+      query: spec.sql.substring(0, 500),
+      queryLength: spec.sql.length,
+      format: spec.format,
+      compression: spec.compression,
+      via: "ai_chat",
+      ...(spec.columnMasks.length > 0 && { columnMasks: describeColumnMasks(spec.columnMasks) }),
+      connectionId,
+      timestamp: Date.now(),
+    },
+    ipAddress: getClientIp(c),
+    status: "success",
+  }).catch((err: unknown) => {
+    log.error({ module: "Exports", err: err instanceof Error ? err.message : String(err) }, "Failed to create audit log for export");
+  });
+
+  return exportResponse(result);
+});
+
+export default exportsRoute;
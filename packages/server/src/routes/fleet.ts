@@ -27,17 +27,17 @@ import {
   getUserConnections,
   listConnections,
 } from "../rbac/services/connections";
-import {
-  getDatabase,
-  getDatabaseType,
-  type SqliteDb,
-  type PostgresDb,
-} from "../rbac/db";
 import {
   runFleetMetric,
   FLEET_METRIC_KEYS,
   type FleetMetric,
 } from "../services/fleetMetrics";
+import {
+  fetchLatestSnapshots,
+  selectRaw,
+  type FleetSnapshotRow as SnapshotRow,
+} from "../services/fleetSnapshots";
+import { forecastDisks } from "../services/diskForecast";
 import { AppError } from "../types";
 import { logger } from "../utils/logger";
 import { sendTestAlert } from "../services/fleetAlerter";
@@ -145,34 +145,6 @@ fleet.post("/query", zValidator("json", fleetQuerySchema), async (c) => {
 // Snapshot endpoints (M2 — backed by fleet_snapshots table)
 // ============================================
 
-interface SnapshotRow {
-  connection_id: string;
-  captured_at: number;
-  metric: string;
-  payload: string;
-  error: string | null;
-}
-
-/**
- * Adapter-agnostic SELECT helper. SQLite drizzle uses `.all(stmt)`, Postgres
- * drizzle uses `.execute(stmt)` and unwraps `.rows`. Centralise so the
- * snapshot endpoints stay readable.
- */
-async function selectRaw<T = unknown>(stmt: ReturnType<typeof sql>): Promise<T[]> {
-  const db = getDatabase();
-  if (getDatabaseType() === "sqlite") {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    return ((db as SqliteDb).all(stmt) as any) ?? [];
-  }
-  // postgres-js + drizzle returns an array-like RowList; some driver configs
-  // wrap it as { rows }. Match the canonical Array.isArray-first check the
-  // RBAC migrations use so this behaves identically on Postgres.
-  const res = await (db as PostgresDb).execute(stmt);
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const anyRes = res as any;
-  return (Array.isArray(anyRes) ? anyRes : (anyRes.rows ?? [])) as T[];
-}
-
 /**
  * Resolve which connection ids the current user is allowed to see. Super
  * admins see every active connection; regular users see only the rows
@@ -190,32 +162,6 @@ async function visibleConnectionIds(
   return userConns.map((c) => c.id);
 }
 
-/**
- * Fetch the latest snapshot row per (connection, metric) from the cache.
- * The id-MAX subquery wins one row per group on both SQLite and Postgres
- * without needing window functions.
- */
-async function fetchLatestSnapshots(
-  connectionIds: string[],
-): Promise<SnapshotRow[]> {
-  if (connectionIds.length === 0) return [];
-  // Connection ids are UUIDs from RBAC tables (server-controlled), so
-  // sql.raw on the IN-list is safe — these are not user input.
-  const placeholders = connectionIds
-    .map((id) => `'${id.replace(/'/g, "''")}'`)
-    .join(",");
-  const stmt = sql.raw(`
-    SELECT s.connection_id, s.captured_at, s.metric, s.payload, s.error
-    FROM fleet_snapshots s
-    WHERE s.id IN (
-      SELECT MAX(id) FROM fleet_snapshots
-      WHERE connection_id IN (${placeholders})
-      GROUP BY connection_id, metric
-    )
-  `);
-  return selectRaw<SnapshotRow>(stmt);
-}
-
 /**
  * GET /api/fleet/snapshots — returns the latest snapshot of every metric
  * for every connection the caller is allowed to see, grouped by connection.
@@ -429,6 +375,18 @@ fleet.get(
   },
 );
 
+/**
+ * GET /api/fleet/disk-forecast — projected "disk full" date for every disk on
+ * the nodes the caller can see, fitted to the poller's disk usage history.
+ * Disks without enough history yet come back with a null fullAt.
+ */
+fleet.get("/disk-forecast", async (c) => {
+  const user = getRbacUser(c);
+  const isSuperAdmin = (user.roles ?? []).includes("super_admin");
+  const ids = await visibleConnectionIds(user.sub, isSuperAdmin);
+  return c.json({ success: true, data: await forecastDisks(ids) });
+});
+
 // ============================================
 // Alert delivery config (Slack / email) — super-admin only.
 // Secrets are never returned; on save, a blank secret means "keep existing".
@@ -455,6 +413,7 @@ fleet.get("/alert-config", async (c) => {
         queryMemoryGb: Number(cfg.rules?.queryMemoryGb ?? 0),
         longQueryMin: Number(cfg.rules?.longQueryMin ?? 0),
         partsEtaMin: Number(cfg.rules?.partsEtaMin ?? 0),
+        diskFullDays: Number(cfg.rules?.diskFullDays ?? 0),
       },
       slack: {
         configured: Boolean(cfg.slack?.webhookUrl),
@@ -483,6 +442,7 @@ const alertConfigSchema = z.object({
     queryMemoryGb: z.number().min(0),
     longQueryMin: z.number().min(0),
     partsEtaMin: z.number().min(0).max(1440).optional().default(0),
+    diskFullDays: z.number().min(0).max(365).optional(),
   }),
   // Blank/omitted secret = keep existing; `remove*` clears the channel.
   slackWebhookUrl: z.string().optional(),
@@ -514,6 +474,7 @@ fleet.put("/alert-config", zValidator("json", alertConfigSchema), async (c) => {
       queryMemoryGb: body.rules.queryMemoryGb,
       longQueryMin: body.rules.longQueryMin,
       partsEtaMin: body.rules.partsEtaMin,
+      diskFullDays: body.rules.diskFullDays ?? existing.rules?.diskFullDays,
     },
   };
 
@@ -7,6 +7,8 @@ import savedQueries from "./saved-queries";
 import config from "./config";
 import liveQueries from "./live-queries";
 import { rbacRoutes } from "../rbac";
+import { extractTokenFromHeader } from "../rbac/services/jwt";
+import { isApiKeyToken } from "../rbac/constants/apiKeys";
 import upload from "./upload";
 import aiChat from "./ai-chat";
 import ai from "./ai";
@@ -15,6 +17,10 @@ import alerting from "./alerting";
 import scheduledQueries from "./scheduled-queries";
 import dataHealth from "./data-health";
 import queryHistory from "./query-history";
+import dashboards from "./dashboards";
+import changeRequests from "./change-requests";
+import exportsRoute from "./exports";
+import backups from "./backups";
 
 const api = new Hono();
 
@@ -27,6 +33,7 @@ const api = new Hono();
  * How it works:
  * - Browser navigation: No X-Requested-With header → Blocked
  * - JavaScript fetch: Has X-Requested-With header → Allowed
+ * - Scripts authenticating with a personal API key → Allowed
  */
 const apiProtectionMiddleware = async (c: Context, next: Next) => {
   const path = c.req.path;
@@ -38,6 +45,8 @@ const apiProtectionMiddleware = async (c: Context, next: Next) => {
   // - SSO endpoints (the /start route is reached via top-level browser
   //   navigation, so it can never carry X-Requested-With; the callback is
   //   CSRF-protected by the signed one-time state cookie instead)
+  // - Export download links (opened by navigation; the one-time token in the
+  //   path is the credential)
   const publicPaths = [
     "/api/health",
     "/api/config",
@@ -45,12 +54,20 @@ const apiProtectionMiddleware = async (c: Context, next: Next) => {
     "/api/rbac/auth/refresh",
     "/api/rbac/auth/sso",
     "/api/rbac/health",
+    "/api/exports",
   ];
   if (publicPaths.some(p => path === p || path.startsWith(p + "/"))) {
     await next();
     return;
   }
 
+  // Personal API keys are never sent ambiently by a browser, so scripted
+  // clients using them are not subject to the UI-only header check.
+  if (isApiKeyToken(extractTokenFromHeader(c.req.header("Authorization")))) {
+    await next();
+    return;
+  }
+
   // Check for X-Requested-With header (set by frontend JavaScript)
   const requestedWith = c.req.header("X-Requested-With");
 
@@ -85,6 +102,10 @@ api.route("/alerting", alerting);
 api.route("/scheduled-queries", scheduledQueries);
 api.route("/data-health", dataHealth);
 api.route("/query-history", queryHistory);
+api.route("/dashboards", dashboards);
+api.route("/change-requests", changeRequests);
+api.route("/exports", exportsRoute);
+api.route("/backups", backups);
 
 // RBAC routes (Role-Based Access Control)
 api.route("/rbac", rbacRoutes);
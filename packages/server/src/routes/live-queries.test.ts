@@ -50,7 +50,13 @@ mock.module("../rbac/services/rbac", () => ({
 }));
 
 // Helper to create middleware mock with configurable permissions
-let mockRbacConfig = {
+let mockRbacConfig: {
+    userId: string;
+    roles: string[];
+    permissions: string[];
+    isRbacAdmin: boolean;
+    apiKeyId?: string;
+} = {
     userId: "user1",
     roles: ["admin"],
     permissions: ["live_queries:view", "live_queries:kill", "live_queries:kill_all"],
@@ -60,6 +66,7 @@ let mockRbacConfig = {
 mock.module("../middleware/dataAccess", () => ({
     optionalRbacMiddleware: mock(async (c: any, next: () => Promise<void>) => {
         if (c.req.header("Authorization")) {
+            c.set("rbacUser", { sub: mockRbacConfig.userId, roles: mockRbacConfig.roles, permissions: mockRbacConfig.permissions, apiKeyId: mockRbacConfig.apiKeyId });
             c.set("rbacUserId", mockRbacConfig.userId);
             c.set("rbacRoles", mockRbacConfig.roles);
             c.set("rbacPermissions", mockRbacConfig.permissions);
@@ -71,6 +78,8 @@ mock.module("../middleware/dataAccess", () => ({
 
 mock.module("../rbac/middleware/rbacAuth", () => ({
     getClientIp: mock(() => "127.0.0.1"),
+    isApiKeyRequest: (c: any) => Boolean(c.get("rbacUser")?.apiKeyId),
+    isSuperAdminRequest: (c: any) => Boolean(c.get("rbacUser")?.roles.includes("super_admin")),
 }));
 
 import liveQueriesRoutes from "./live-queries";
@@ -87,6 +96,7 @@ describe("Live Queries Routes", () => {
         mockExecuteQuery.mockReset();
         mockClose.mockClear();
         mockPing.mockResolvedValue(true);
+        mockUserHasPermission.mockReset();
         mockUserHasPermission.mockResolvedValue(false);
 
         // Reset to admin defaults
@@ -444,5 +454,32 @@ describe("Live Queries Routes", () => {
             const body = await res.json();
             expect(body.success).toBe(true);
         });
+
+        it("should not widen an API key's scopes from the database", async () => {
+            // Key scoped to view only; the owner's role would allow killing
+            mockRbacConfig = {
+                userId: "user1",
+                roles: ["admin"],
+                permissions: ["live_queries:view"],
+                isRbacAdmin: false,
+                apiKeyId: "key1",
+            };
+            mockUserHasPermission.mockResolvedValue(true);
+
+            const res = await app.request("/live-queries/kill", {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    Authorization: "Bearer token",
+                    "X-Session-ID": "valid-session",
+                    "X-Requested-With": "XMLHttpRequest",
+                },
+                body: JSON.stringify({ queryId: "query-own" }),
+            });
+
+            expect(res.status).toBe(403);
+            expect(mockUserHasPermission).not.toHaveBeenCalled();
+            expect(mockExecuteQuery).not.toHaveBeenCalled();
+        });
     });
 });
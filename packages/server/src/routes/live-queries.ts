@@ -15,8 +15,8 @@ import { getSession } from "../services/clickhouse";
 import { getUserConnections, getConnectionWithPassword } from "../rbac/services/connections";
 import { ClickHouseService } from "../services/clickhouse";
 import { createAuditLogWithContext, userHasPermission, getUserById } from "../rbac/services/rbac";
-import { AUDIT_ACTIONS, PERMISSIONS, SYSTEM_ROLES } from "../rbac/schema/base";
-import { getClientIp } from "../rbac/middleware/rbacAuth";
+import { AUDIT_ACTIONS, PERMISSIONS } from "../rbac/schema/base";
+import { getClientIp, isApiKeyRequest, isSuperAdminRequest } from "../rbac/middleware/rbacAuth";
 import { requestLogger } from "../utils/logger";
 
 // ============================================
@@ -62,14 +62,6 @@ function getCookie(c: Context, name: string): string | undefined {
     return match ? decodeURIComponent(match[1]) : undefined;
 }
 
-/**
- * Check if user is super_admin
- */
-function isSuperAdmin(rbacRoles: string[] | undefined): boolean {
-    if (!rbacRoles) return false;
-    return rbacRoles.includes(SYSTEM_ROLES.SUPER_ADMIN);
-}
-
 // ============================================
 // Auth Middleware for Live Queries
 // ============================================
@@ -84,7 +76,6 @@ async function liveQueriesAuthMiddleware(c: Context<{ Variables: Variables }>, n
     await optionalRbacMiddleware(c, async () => { });
 
     const rbacUserId = c.get("rbacUserId");
-    const rbacRoles = c.get("rbacRoles");
     const rbacPermissions = c.get("rbacPermissions");
 
     // Require RBAC authentication
@@ -95,7 +86,7 @@ async function liveQueriesAuthMiddleware(c: Context<{ Variables: Variables }>, n
     // Check for live_queries:view permission (no admin role required)
     const hasViewPermission = rbacPermissions?.includes(PERMISSIONS.LIVE_QUERIES_VIEW) || false;
     if (!hasViewPermission) {
-        const hasDbPermission = await userHasPermission(rbacUserId, PERMISSIONS.LIVE_QUERIES_VIEW);
+        const hasDbPermission = !isApiKeyRequest(c) && await userHasPermission(rbacUserId, PERMISSIONS.LIVE_QUERIES_VIEW);
         if (!hasDbPermission) {
             throw AppError.forbidden("Permission 'live_queries:view' is required to access this feature.");
         }
@@ -124,7 +115,7 @@ async function liveQueriesAuthMiddleware(c: Context<{ Variables: Variables }>, n
     let service: ClickHouseService | null = null;
 
     try {
-        const isSuperAdminUser = isSuperAdmin(rbacRoles);
+        const isSuperAdminUser = isSuperAdminRequest(c);
 
         // Get user's connections
         let connections: Awaited<ReturnType<typeof getUserConnections>>;
@@ -205,7 +196,7 @@ liveQueries.get("/", async (c) => {
 
     // Determine if user can see all queries
     let hasKillAll = rbacPermissions.includes(PERMISSIONS.LIVE_QUERIES_KILL_ALL);
-    if (!hasKillAll && rbacUserId) {
+    if (!hasKillAll && rbacUserId && !isApiKeyRequest(c)) {
         hasKillAll = await userHasPermission(rbacUserId, PERMISSIONS.LIVE_QUERIES_KILL_ALL);
     }
 
@@ -333,13 +324,13 @@ liveQueries.post("/kill", zValidator("json", killQuerySchema), async (c) => {
     // Check permissions
     // 1. Check for kill_all (admin-level) permission
     let hasKillAll = rbacPermissions.includes(PERMISSIONS.LIVE_QUERIES_KILL_ALL);
-    if (!hasKillAll && rbacUserId) {
+    if (!hasKillAll && rbacUserId && !isApiKeyRequest(c)) {
         hasKillAll = await userHasPermission(rbacUserId, PERMISSIONS.LIVE_QUERIES_KILL_ALL);
     }
 
     // 2. Check for basic kill (own queries) permission
     let hasKillOwn = rbacPermissions.includes(PERMISSIONS.LIVE_QUERIES_KILL);
-    if (!hasKillOwn && rbacUserId) {
+    if (!hasKillOwn && rbacUserId && !isApiKeyRequest(c)) {
         hasKillOwn = await userHasPermission(rbacUserId, PERMISSIONS.LIVE_QUERIES_KILL);
     }
 
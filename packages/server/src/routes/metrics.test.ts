@@ -20,6 +20,7 @@ const mockClose = mock();
 const mockPing = mock();
 const mockCheckIsAdmin = mock();
 const mockGetVersion = mock();
+const mockKillMutation = mock();
 
 class MockClickHouseService {
     getSystemStats = mockGetSystemStats;
@@ -39,6 +40,7 @@ class MockClickHouseService {
     ping = mockPing;
     checkIsAdmin = mockCheckIsAdmin;
     getVersion = mockGetVersion;
+    killMutation = mockKillMutation;
 }
 
 mock.module("../services/clickhouse", () => ({
@@ -65,23 +67,38 @@ mock.module("../rbac/services/connections", () => ({
 
 const mockUserHasPermission = mock();
 const mockUserHasAnyPermission = mock();
+const mockCreateAuditLog = mock();
 
 mock.module("../rbac/services/rbac", () => ({
     userHasPermission: mockUserHasPermission,
-    userHasAnyPermission: mockUserHasAnyPermission
+    userHasAnyPermission: mockUserHasAnyPermission,
+    createAuditLogWithContext: mockCreateAuditLog
 }));
 
+const mockForecastDisks = mock();
+
+mock.module("../services/diskForecast", () => ({
+    forecastDisks: mockForecastDisks
+}));
+
+// Admin bypasses permission checks by default
+const adminContext = { permissions: [] as string[], isRbacAdmin: true, apiKeyId: undefined as string | undefined };
+let mockRbacContext = adminContext;
+const mockCheckTableAccess = mock();
+
 mock.module("../middleware/dataAccess", () => ({
     optionalRbacMiddleware: mock(async (c, next) => {
         // Simulate RBAC context population
         if (c.req.header("Authorization")) {
+            c.set("rbacUser", { sub: "user1", roles: ["admin"], permissions: mockRbacContext.permissions, apiKeyId: mockRbacContext.apiKeyId });
             c.set("rbacUserId", "user1");
-            c.set("rbacRoles", ["admin"]); // Admin bypasses permission checks
-            c.set("rbacPermissions", []);
-            c.set("isRbacAdmin", true);
+            c.set("rbacRoles", ["admin"]);
+            c.set("rbacPermissions", mockRbacContext.permissions);
+            c.set("isRbacAdmin", mockRbacContext.isRbacAdmin);
         }
         await next();
-    })
+    }),
+    checkTableAccess: mockCheckTableAccess
 }));
 
 import metricsRoutes from "./metrics";
@@ -100,6 +117,12 @@ describe("Metrics Routes", () => {
         mockGetTopTablesBySize.mockClear();
         mockExecuteQuery.mockClear();
         mockClose.mockClear();
+        mockKillMutation.mockReset();
+        mockCreateAuditLog.mockReset();
+        mockUserHasPermission.mockReset();
+        mockCheckTableAccess.mockReset();
+        mockCheckTableAccess.mockResolvedValue(true);
+        mockRbacContext = adminContext;
 
         mockPing.mockResolvedValue(true);
         mockClose.mockResolvedValue(undefined);
@@ -164,6 +187,24 @@ describe("Metrics Routes", () => {
         });
     });
 
+    describe("GET /metrics/disks/forecast", () => {
+        it("should return forecasts for the active connection", async () => {
+            mockForecastDisks.mockResolvedValue([
+                { connectionId: "conn1", disk: "default", path: "/var/lib/clickhouse/", fullAt: 1700000000, daysToFull: 12 }
+            ]);
+
+            const res = await app.request("/metrics/disks/forecast", {
+                headers: { "Authorization": "Bearer token" }
+            });
+
+            expect(res.status).toBe(200);
+            const body = await res.json();
+            expect(body.data).toHaveLength(1);
+            expect(body.data[0].disk).toBe("default");
+            expect(mockForecastDisks).toHaveBeenCalledWith(["conn1"]);
+        });
+    });
+
     describe("GET /metrics/custom", () => {
         it("should execute custom query", async () => {
             mockExecuteQuery.mockResolvedValue({ data: [] });
@@ -184,4 +225,87 @@ describe("Metrics Routes", () => {
             expect(res.status).toBe(400);
         });
     });
+
+    describe("POST /metrics/mutations/kill", () => {
+        const target = { database: "db", table: "events", mutationId: "0000000004" };
+
+        it("should kill the mutation ON CLUSTER and audit it", async () => {
+            mockUserHasPermission.mockResolvedValue(true);
+            mockKillMutation.mockResolvedValue({
+                database: "db", table: "events", mutation_id: "0000000004",
+                cluster: "main", command: "UPDATE x = 1 WHERE 1", hosts: ["ch-1", "ch-2"]
+            });
+
+            const res = await app.request("/metrics/mutations/kill", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ ...target, cluster: "main" })
+            });
+
+            expect(res.status).toBe(200);
+            const body = await res.json();
+            expect(body.data.hosts).toEqual(["ch-1", "ch-2"]);
+            expect(mockCheckTableAccess).toHaveBeenCalledWith("user1", true, "db", "events", "conn1", "write");
+            expect(mockKillMutation).toHaveBeenCalledWith({ database: "db", table: "events", mutation_id: "0000000004" }, "main");
+            expect(mockCreateAuditLog.mock.calls[0][1]).toBe("mutation.kill");
+            expect(mockCreateAuditLog.mock.calls[0][3].status).toBe("success");
+        });
+
+        it("should require mutations:kill", async () => {
+            mockUserHasPermission.mockResolvedValue(false);
+
+            const res = await app.request("/metrics/mutations/kill", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify(target)
+            });
+
+            expect(res.status).toBe(403);
+            expect(mockKillMutation).not.toHaveBeenCalled();
+        });
+
+        it("should not fall back to the database for an API key without mutations:kill", async () => {
+            mockRbacContext = { permissions: [], isRbacAdmin: false, apiKeyId: "key1" };
+            mockUserHasPermission.mockResolvedValue(true);
+
+            const res = await app.request("/metrics/mutations/kill", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify(target)
+            });
+
+            expect(res.status).toBe(403);
+            expect(mockUserHasPermission).not.toHaveBeenCalled();
+            expect(mockKillMutation).not.toHaveBeenCalled();
+        });
+
+        it("should require write access to the table", async () => {
+            mockRbacContext = { permissions: ["mutations:kill"], isRbacAdmin: false, apiKeyId: undefined };
+            mockCheckTableAccess.mockResolvedValue(false);
+
+            const res = await app.request("/metrics/mutations/kill", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify(target)
+            });
+
+            expect(res.status).toBe(403);
+            expect(mockCheckTableAccess).toHaveBeenCalledWith("user1", false, "db", "events", "conn1", "write");
+            expect(mockKillMutation).not.toHaveBeenCalled();
+        });
+
+        it("should audit failed kills", async () => {
+            mockUserHasPermission.mockResolvedValue(true);
+            mockKillMutation.mockRejectedValue(new Error("Mutation 0000000004 on db.events not found"));
+
+            const res = await app.request("/metrics/mutations/kill", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify(target)
+            });
+
+            expect(res.status).toBe(500);
+            expect(mockCreateAuditLog.mock.calls[0][3].status).toBe("failure");
+        });
+    });
 });
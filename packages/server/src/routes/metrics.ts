@@ -1,10 +1,15 @@
 import { Hono, Context, Next } from "hono";
-import { optionalRbacMiddleware } from "../middleware/dataAccess";
+import { z } from "zod";
+import { zValidator } from "@hono/zod-validator";
+import { optionalRbacMiddleware, checkTableAccess } from "../middleware/dataAccess";
 import { getSession } from "../services/clickhouse";
 import { getUserConnections, getConnectionWithPassword } from "../rbac/services/connections";
-import { PERMISSIONS } from "../rbac/schema/base";
-import { userHasPermission, userHasAnyPermission } from "../rbac/services/rbac";
+import { AUDIT_ACTIONS, PERMISSIONS } from "../rbac/schema/base";
+import { createAuditLogWithContext, userHasPermission, userHasAnyPermission } from "../rbac/services/rbac";
+import { getClientIp, isApiKeyRequest, isSuperAdminRequest } from "../rbac/middleware/rbacAuth";
+import { requestLogger } from "../utils/logger";
 import { ClickHouseService } from "../services/clickhouse";
+import { forecastDisks } from "../services/diskForecast";
 import type { Session } from "../types";
 import { AppError } from "../types";
 
@@ -64,8 +69,7 @@ async function metricsAuthMiddleware(c: Context<{ Variables: Variables }>, next:
   await optionalRbacMiddleware(c, async () => { });
 
   const rbacUserId = c.get("rbacUserId");
-  const rbacRoles = c.get("rbacRoles");
-  const isSuperAdmin = rbacRoles?.includes('super_admin') || false;
+  const isSuperAdmin = isSuperAdminRequest(c);
 
   if (rbacUserId) {
     let service: ClickHouseService | null = null;
@@ -182,7 +186,8 @@ async function checkMetricsPermission(
   rbacUserId: string | undefined,
   rbacPermissions: string[] | undefined,
   isRbacAdmin: boolean | undefined,
-  requireAdvanced: boolean = false
+  requireAdvanced: boolean,
+  isApiKey: boolean
 ): Promise<void> {
   // RBAC user is required
   if (!rbacUserId) {
@@ -201,8 +206,8 @@ async function checkMetricsPermission(
   if (requireAdvanced) {
     // Advanced metrics require METRICS_VIEW_ADVANCED or METRICS_VIEW
     if (!hasAdvanced && !hasBasic) {
-      // Double-check against database
-      const hasAny = await userHasAnyPermission(rbacUserId, [
+      // Double-check against database (API keys must stay within their scopes)
+      const hasAny = !isApiKey && await userHasAnyPermission(rbacUserId, [
         PERMISSIONS.METRICS_VIEW_ADVANCED,
         PERMISSIONS.METRICS_VIEW,
       ]);
@@ -215,8 +220,8 @@ async function checkMetricsPermission(
   } else {
     // Basic metrics require METRICS_VIEW
     if (!hasBasic) {
-      // Double-check against database
-      const hasPermission = await userHasPermission(rbacUserId, PERMISSIONS.METRICS_VIEW);
+      // Double-check against database (API keys must stay within their scopes)
+      const hasPermission = !isApiKey && await userHasPermission(rbacUserId, PERMISSIONS.METRICS_VIEW);
       if (!hasPermission) {
         throw AppError.forbidden(`Permission '${PERMISSIONS.METRICS_VIEW}' required for this action`);
       }
@@ -234,7 +239,7 @@ metrics.get("/stats", async (c) => {
   const isRbacAdmin = c.get("isRbacAdmin");
 
   // Check permission (basic metrics)
-  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, false);
+  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, false, isApiKeyRequest(c));
 
   const service = c.get("service");
 
@@ -258,7 +263,7 @@ metrics.get("/recent-queries", async (c) => {
   const isRbacAdmin = c.get("isRbacAdmin");
 
   // Check permission (basic metrics)
-  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, false);
+  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, false, isApiKeyRequest(c));
 
   const limit = parseInt(c.req.query("limit") || "10", 10);
   const username = c.req.query("username");
@@ -283,7 +288,7 @@ metrics.get("/production", async (c) => {
   const isRbacAdmin = c.get("isRbacAdmin");
 
   // Check permission (advanced metrics)
-  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, true);
+  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, true, isApiKeyRequest(c));
 
   const interval = parseInt(c.req.query("interval") || "60", 10);
   const service = c.get("service");
@@ -307,7 +312,7 @@ metrics.get("/latency", async (c) => {
   const isRbacAdmin = c.get("isRbacAdmin");
 
   // Check permission (advanced metrics)
-  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, true);
+  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, true, isApiKeyRequest(c));
 
   const interval = parseInt(c.req.query("interval") || "60", 10);
   const service = c.get("service");
@@ -330,7 +335,7 @@ metrics.get("/disks", async (c) => {
   const isRbacAdmin = c.get("isRbacAdmin");
 
   // Check permission (basic metrics)
-  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, false);
+  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, false, isApiKeyRequest(c));
 
   const service = c.get("service");
 
@@ -342,6 +347,26 @@ metrics.get("/disks", async (c) => {
   });
 });
 
+/**
+ * GET /metrics/disks/forecast
+ * Projected fill date per disk of the current connection, from the fleet
+ * poller's disk usage history (empty without a saved connection)
+ */
+metrics.get("/disks/forecast", async (c) => {
+  const rbacUserId = c.get("rbacUserId");
+  const rbacPermissions = c.get("rbacPermissions");
+  const isRbacAdmin = c.get("isRbacAdmin");
+
+  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, false, isApiKeyRequest(c));
+
+  const connectionId = c.get("session")?.rbacConnectionId || c.get("rbacConnectionId");
+
+  return c.json({
+    success: true,
+    data: connectionId ? await forecastDisks([connectionId]) : [],
+  });
+});
+
 /**
  * GET /metrics/merges
  * Get merge and mutation metrics
@@ -352,7 +377,7 @@ metrics.get("/merges", async (c) => {
   const isRbacAdmin = c.get("isRbacAdmin");
 
   // Check permission (basic metrics)
-  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, false);
+  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, false, isApiKeyRequest(c));
 
   const interval = parseInt(c.req.query("interval") || "60", 10);
   const service = c.get("service");
@@ -375,7 +400,7 @@ metrics.get("/replication", async (c) => {
   const isRbacAdmin = c.get("isRbacAdmin");
 
   // Check permission (basic metrics)
-  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, false);
+  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, false, isApiKeyRequest(c));
 
   const service = c.get("service");
 
@@ -397,7 +422,7 @@ metrics.get("/cache", async (c) => {
   const isRbacAdmin = c.get("isRbacAdmin");
 
   // Check permission (basic metrics)
-  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, false);
+  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, false, isApiKeyRequest(c));
 
   const service = c.get("service");
 
@@ -419,7 +444,7 @@ metrics.get("/resources", async (c) => {
   const isRbacAdmin = c.get("isRbacAdmin");
 
   // Check permission (basic metrics)
-  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, false);
+  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, false, isApiKeyRequest(c));
 
   const interval = parseInt(c.req.query("interval") || "60", 10);
   const service = c.get("service");
@@ -443,7 +468,7 @@ metrics.get("/errors", async (c) => {
   const isRbacAdmin = c.get("isRbacAdmin");
 
   // Check permission (basic metrics)
-  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, false);
+  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, false, isApiKeyRequest(c));
 
   const interval = parseInt(c.req.query("interval") || "60", 10);
   const service = c.get("service");
@@ -467,7 +492,7 @@ metrics.get("/insert-throughput", async (c) => {
   const isRbacAdmin = c.get("isRbacAdmin");
 
   // Check permission (basic metrics)
-  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, false);
+  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, false, isApiKeyRequest(c));
 
   const interval = parseInt(c.req.query("interval") || "60", 10);
   const service = c.get("service");
@@ -492,7 +517,7 @@ metrics.get("/parts-pressure", async (c) => {
   const isRbacAdmin = c.get("isRbacAdmin");
 
   // Advanced metrics: parts pressure exposes per-table operational internals.
-  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, true);
+  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, true, isApiKeyRequest(c));
 
   const interval = parseInt(c.req.query("interval") || "10", 10);
   const service = c.get("service");
@@ -519,7 +544,7 @@ metrics.post("/ddl/simulate", async (c) => {
   const isRbacAdmin = c.get("isRbacAdmin");
 
   // Advanced metrics: estimating mutation cost is an operational concern.
-  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, true);
+  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, true, isApiKeyRequest(c));
 
   const body = await c.req.json().catch(() => ({}));
   const statement = typeof body?.statement === "string" ? body.statement : "";
@@ -539,6 +564,65 @@ metrics.post("/ddl/simulate", async (c) => {
   });
 });
 
+/**
+ * POST /metrics/mutations/kill
+ * KILL MUTATION for one mutation from Cluster Activity, optionally ON CLUSTER
+ * so a replicated table's mutation stops on every replica. Requires
+ * mutations:kill; every attempt is audited.
+ * Body: { database, table, mutationId, cluster? }
+ */
+const killMutationSchema = z.object({
+  database: z.string().min(1, "Database is required"),
+  table: z.string().min(1, "Table is required"),
+  mutationId: z.string().min(1, "Mutation ID is required"),
+  cluster: z.string().min(1).optional(),
+});
+
+metrics.post("/mutations/kill", zValidator("json", killMutationSchema), async (c) => {
+  const { database, table, mutationId, cluster } = c.req.valid("json");
+  const rbacUserId = c.get("rbacUserId");
+  const rbacPermissions = c.get("rbacPermissions") || [];
+  if (!rbacUserId) {
+    throw AppError.unauthorized("RBAC authentication is required. Please login with RBAC credentials.");
+  }
+  // API keys must stay within their scopes, so only sessions fall back to the database
+  const canKill = rbacPermissions.includes(PERMISSIONS.MUTATIONS_KILL)
+    || (!isApiKeyRequest(c) && await userHasPermission(rbacUserId, PERMISSIONS.MUTATIONS_KILL));
+  if (!canKill) {
+    throw AppError.forbidden(`Permission '${PERMISSIONS.MUTATIONS_KILL}' is required to kill mutations.`);
+  }
+
+  const connectionId = c.get("session")?.rbacConnectionId || c.get("rbacConnectionId");
+  // Killing a mutation changes what ends up in the table, so it needs write access to it
+  const canWrite = await checkTableAccess(rbacUserId, c.get("isRbacAdmin"), database, table, connectionId, "write");
+  if (!canWrite) {
+    throw AppError.forbidden(`Access denied to ${database}.${table}`);
+  }
+  const target = { database, table, mutation_id: mutationId };
+  const audit = async (status: "success" | "failure", details: Record<string, unknown>) => {
+    try {
+      await createAuditLogWithContext(c, AUDIT_ACTIONS.MUTATION_KILL, rbacUserId, {
+        resourceType: "mutation",
+        resourceId: `${database}.${table}/${mutationId}`,
+        details: { database, table, mutationId, cluster: cluster ?? null, connectionId, ...details },
+        ipAddress: getClientIp(c),
+        status,
+      });
+    } catch (auditError) {
+      requestLogger(c.get("requestId")).error({ module: "Metrics", err: auditError instanceof Error ? auditError.message : String(auditError) }, "Failed to create audit log");
+    }
+  };
+
+  try {
+    const result = await c.get("service").killMutation(target, cluster);
+    await audit("success", { command: result.command?.substring(0, 500), hosts: result.hosts });
+    return c.json({ success: true, data: result });
+  } catch (error) {
+    await audit("failure", { error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+});
+
 /**
  * GET /metrics/top-tables
  * Get top tables by size
@@ -550,7 +634,7 @@ metrics.get("/top-tables", async (c) => {
   const isRbacAdmin = c.get("isRbacAdmin");
 
   // Check permission (basic metrics)
-  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, false);
+  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, false, isApiKeyRequest(c));
 
   const limit = parseInt(c.req.query("limit") || "10", 10);
   const service = c.get("service");
@@ -573,7 +657,7 @@ metrics.get("/custom", async (c) => {
   const isRbacAdmin = c.get("isRbacAdmin");
 
   // Check permission (advanced metrics)
-  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, true);
+  await checkMetricsPermission(rbacUserId, rbacPermissions, isRbacAdmin, true, isApiKeyRequest(c));
 
   const query = c.req.query("query");
   const service = c.get("service");
@@ -0,0 +1,106 @@
+import { describe, it, expect, mock, beforeEach, afterEach } from "bun:test";
+import { Hono } from "hono";
+
+const mockListConnections = mock();
+const mockFetchLatestSnapshots = mock();
+const mockListEnabledJobs = mock();
+const mockCountOutboxBacklog = mock();
+const mockDueSlots = mock();
+
+mock.module("../rbac/services/connections", () => ({
+    listConnections: mockListConnections,
+}));
+mock.module("../services/fleetSnapshots", () => ({
+    fetchLatestSnapshots: mockFetchLatestSnapshots,
+}));
+mock.module("../services/scheduledQueries/store", () => ({
+    listEnabledJobs: mockListEnabledJobs,
+    countOutboxBacklog: mockCountOutboxBacklog,
+}));
+mock.module("../services/scheduledQueries/scheduler", () => ({
+    dueSlots: mockDueSlots,
+}));
+
+import { metricsHandler, METRICS_PATH } from "./prometheus";
+
+const app = new Hono();
+app.get(METRICS_PATH, metricsHandler);
+app.get("*", (c) => c.html("<!doctype html><title>spa</title>"));
+
+const scrape = (token?: string) =>
+    app.request(METRICS_PATH, { headers: token ? { Authorization: `Bearer ${token}` } : {} });
+
+describe("GET /metrics", () => {
+    beforeEach(() => {
+        process.env.METRICS_BEARER_TOKEN = "scrape-secret";
+        mockListConnections.mockClear();
+        mockListConnections.mockResolvedValue({ connections: [{ id: "c1", name: "prod" }] });
+        mockFetchLatestSnapshots.mockResolvedValue([
+            {
+                connection_id: "c1",
+                captured_at: 1_700_000_000,
+                metric: "summary",
+                error: null,
+                payload: JSON.stringify([{
+                    server_memory_used_bytes: 50,
+                    server_memory_total_bytes: 200,
+                    active_queries: 7,
+                    max_replica_lag_seconds: 12,
+                }]),
+            },
+            {
+                connection_id: "c1",
+                captured_at: 1_700_000_000,
+                metric: "parts_pressure",
+                error: null,
+                payload: JSON.stringify([{
+                    database: "db", table: "events", max_parts_in_partition: 240,
+                    parts_threshold: 300, net_parts_per_min: 24, eta_minutes: 2.5,
+                }]),
+            },
+        ]);
+        mockListEnabledJobs.mockResolvedValue([]);
+        mockDueSlots.mockReturnValue([]);
+        mockCountOutboxBacklog.mockResolvedValue([{ status: "pending", count: 3 }]);
+    });
+
+    afterEach(() => {
+        delete process.env.METRICS_BEARER_TOKEN;
+    });
+
+    it("falls through to the SPA when no token is configured", async () => {
+        delete process.env.METRICS_BEARER_TOKEN;
+        const res = await scrape("anything");
+        expect(res.status).toBe(200);
+        expect(await res.text()).toContain("<title>spa</title>");
+    });
+
+    it("falls through to the SPA for requests without a bearer token", async () => {
+        const res = await scrape();
+        expect(res.status).toBe(200);
+        expect(res.headers.get("Content-Type")).toContain("text/html");
+        expect(mockListConnections).not.toHaveBeenCalled();
+    });
+
+    it("rejects a wrong bearer token", async () => {
+        const res = await scrape("wrong");
+        expect(res.status).toBe(401);
+        expect(res.headers.get("WWW-Authenticate")).toContain("Bearer");
+    });
+
+    it("exposes fleet snapshots labelled by connection and app internals", async () => {
+        const res = await scrape("scrape-secret");
+        expect(res.status).toBe(200);
+        expect(res.headers.get("Content-Type")).toContain("text/plain; version=0.0.4");
+
+        const body = await res.text();
+        expect(body).toContain('chouse_fleet_up{connection="prod",connection_id="c1"} 1');
+        expect(body).toContain('chouse_fleet_memory_percent{connection="prod",connection_id="c1"} 25');
+        expect(body).toContain('chouse_fleet_active_queries{connection="prod",connection_id="c1"} 7');
+        expect(body).toContain('chouse_fleet_replica_lag_seconds{connection="prod",connection_id="c1"} 12');
+        expect(body).toContain('chouse_fleet_parts_eta_minutes{connection="prod",connection_id="c1",database="db",table="events"} 2.5');
+        expect(body).toContain('chouse_scheduled_query_outbox_backlog{status="pending"} 3');
+        expect(body).toContain('chouse_scheduled_query_lag_seconds 0');
+        expect(body).toContain("# TYPE chouse_http_request_duration_seconds histogram");
+    });
+});
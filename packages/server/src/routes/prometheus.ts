@@ -0,0 +1,158 @@
+/**
+ * Prometheus exporter (GET /metrics)
+ *
+ * Serves the Prometheus text format at a clean top-level URL, the path scrape
+ * configs expect by default. Two kinds of series:
+ *   - fleet gauges read from the latest fleet_snapshots rows (memory, CPU,
+ *     active queries, mutations, replica lag, parts pressure), labelled by
+ *     connection — no ClickHouse round-trip per scrape;
+ *   - CHouse UI internals: request latency per route, AI invocations and poll
+ *     tick duration from the in-process registry, plus scheduler lag and
+ *     outbox backlog read from the shared DB.
+ *
+ * Auth: a static bearer token from METRICS_BEARER_TOKEN (Prometheus'
+ * `authorization` / `bearer_token` scrape setting). /metrics is also the SPA's
+ * Metrics page, so requests without a bearer token — browser navigation — and
+ * every request while the token is unset fall through to the SPA.
+ */
+
+import type { Context, Next } from "hono";
+import { createHash, timingSafeEqual } from "crypto";
+
+import { listConnections } from "../rbac/services/connections";
+import { fetchLatestSnapshots } from "../services/fleetSnapshots";
+import { gauge, renderRegistry, type Sample } from "../services/prometheus";
+import { dueSlots } from "../services/scheduledQueries/scheduler";
+import * as scheduledStore from "../services/scheduledQueries/store";
+import { requestLogger } from "../utils/logger";
+
+export const METRICS_PATH = "/metrics";
+
+function num(v: unknown): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+/** Constant-time token check (digests first, so lengths never leak). */
+function tokenMatches(given: string, expected: string): boolean {
+  const a = createHash("sha256").update(given).digest();
+  const b = createHash("sha256").update(expected).digest();
+  return timingSafeEqual(a, b);
+}
+
+function parsePayload(payload: string): Record<string, unknown>[] {
+  try {
+    const parsed = JSON.parse(payload) as unknown;
+    return Array.isArray(parsed) ? (parsed as Record<string, unknown>[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Gauges from the latest snapshot of every active connection. */
+async function renderFleet(): Promise<string> {
+  const { connections } = await listConnections({ activeOnly: true });
+  const rows = await fetchLatestSnapshots(connections.map((c) => c.id));
+  const nameById = new Map(connections.map((c) => [c.id, c.name]));
+
+  const families: Record<string, { help: string; samples: Sample[] }> = {
+    chouse_fleet_up: { help: "1 if the latest summary snapshot of the connection succeeded.", samples: [] },
+    chouse_fleet_snapshot_timestamp_seconds: { help: "Capture time of the latest summary snapshot.", samples: [] },
+    chouse_fleet_memory_used_bytes: { help: "Resident memory of the ClickHouse server.", samples: [] },
+    chouse_fleet_memory_total_bytes: { help: "Memory available to the ClickHouse server.", samples: [] },
+    chouse_fleet_memory_percent: { help: "Resident memory as a percentage of available memory.", samples: [] },
+    chouse_fleet_cpu_percent: { help: "System-wide CPU usage, normalised to 0-100.", samples: [] },
+    chouse_fleet_active_queries: { help: "Queries currently running.", samples: [] },
+    chouse_fleet_long_running_queries: { help: "Queries running for more than 60 seconds.", samples: [] },
+    chouse_fleet_open_mutations: { help: "Mutations not yet done.", samples: [] },
+    chouse_fleet_sick_replicas: { help: "Replicas lagging over 60 seconds or read-only.", samples: [] },
+    chouse_fleet_replica_lag_seconds: { help: "Worst replica absolute delay.", samples: [] },
+    chouse_fleet_parts_in_partition: { help: "Active parts in the table's fullest partition.", samples: [] },
+    chouse_fleet_parts_threshold: { help: "The table's parts_to_throw_insert limit.", samples: [] },
+    chouse_fleet_parts_eta_minutes: { help: "Projected minutes until the table reaches its parts limit.", samples: [] },
+  };
+  const add = (name: string, labels: Record<string, string>, value: number) =>
+    families[name].samples.push({ labels, value });
+
+  for (const row of rows) {
+    const labels = { connection: nameById.get(row.connection_id) ?? row.connection_id, connection_id: row.connection_id };
+    if (row.metric === "summary") {
+      add("chouse_fleet_up", labels, row.error ? 0 : 1);
+      add("chouse_fleet_snapshot_timestamp_seconds", labels, row.captured_at);
+      const s = row.error ? undefined : parsePayload(row.payload)[0];
+      if (!s) continue;
+      const used = num(s.server_memory_used_bytes);
+      const total = num(s.server_memory_total_bytes);
+      add("chouse_fleet_memory_used_bytes", labels, used);
+      if (total > 0) {
+        add("chouse_fleet_memory_total_bytes", labels, total);
+        add("chouse_fleet_memory_percent", labels, Math.round((used / total) * 10000) / 100);
+      }
+      add("chouse_fleet_cpu_percent", labels, num(s.server_cpu_percent));
+      add("chouse_fleet_active_queries", labels, num(s.active_queries));
+      add("chouse_fleet_long_running_queries", labels, num(s.long_running_queries));
+      add("chouse_fleet_open_mutations", labels, num(s.open_mutations));
+      add("chouse_fleet_sick_replicas", labels, num(s.sick_replicas));
+      add("chouse_fleet_replica_lag_seconds", labels, num(s.max_replica_lag_seconds));
+    } else if (row.metric === "parts_pressure" && !row.error) {
+      for (const t of parsePayload(row.payload)) {
+        const tableLabels = { ...labels, database: String(t.database ?? ""), table: String(t.table ?? "") };
+        add("chouse_fleet_parts_in_partition", tableLabels, num(t.max_parts_in_partition));
+        add("chouse_fleet_parts_threshold", tableLabels, num(t.parts_threshold));
+        // Negative ETA = converging, not at risk; leave the series absent.
+        if (num(t.eta_minutes) >= 0 && num(t.net_parts_per_min) > 0) {
+          add("chouse_fleet_parts_eta_minutes", tableLabels, num(t.eta_minutes));
+        }
+      }
+    }
+  }
+
+  return Object.entries(families).map(([name, f]) => gauge(name, f.help, f.samples)).join("");
+}
+
+/** Scheduler lag and outbox backlog for Scheduled Queries. */
+async function renderScheduler(): Promise<string> {
+  const now = Date.now();
+  const due = dueSlots(await scheduledStore.listEnabledJobs(), now);
+  const oldest = due.reduce((min, d) => Math.min(min, d.fireAt), now);
+  const backlog = await scheduledStore.countOutboxBacklog();
+  return (
+    gauge("chouse_scheduled_query_due_jobs", "Scheduled jobs whose latest slot has not run yet.", [
+      { labels: {}, value: due.length },
+    ]) +
+    gauge("chouse_scheduled_query_lag_seconds", "How long the oldest unrun scheduled slot has been due.", [
+      { labels: {}, value: (now - oldest) / 1000 },
+    ]) +
+    gauge(
+      "chouse_scheduled_query_outbox_backlog",
+      "Undelivered Scheduled Queries notifications by outbox status.",
+      ["pending", "sending"].map((status) => ({
+        labels: { status },
+        value: backlog.find((b) => b.status === status)?.count ?? 0,
+      })),
+    )
+  );
+}
+
+export async function metricsHandler(c: Context, next: Next) {
+  const expected = process.env.METRICS_BEARER_TOKEN;
+  const auth = c.req.header("Authorization") ?? "";
+  if (!expected || !auth.startsWith("Bearer ")) return next();
+
+  const given = auth.slice(7).trim();
+  if (!given || !tokenMatches(given, expected)) {
+    c.header("WWW-Authenticate", 'Bearer realm="metrics"');
+    return c.text("Unauthorized", 401);
+  }
+
+  // A failing section is logged and skipped so the rest of the scrape still lands.
+  const sections = await Promise.allSettled([renderFleet(), renderScheduler()]);
+  let body = "";
+  for (const s of sections) {
+    if (s.status === "fulfilled") body += s.value;
+    else requestLogger(c.get("requestId")).error({ module: "Prometheus", err: String(s.reason) }, "Metrics section failed");
+  }
+  body += renderRegistry();
+
+  return c.body(body, 200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+}
@@ -8,6 +8,8 @@ const mockClose = mock();
 const mockPing = mock();
 const mockCheckIsAdmin = mock();
 const mockGetVersion = mock();
+const mockExportQuery = mock();
+const mockStreamQueryRows = mock();
 
 class MockClickHouseService {
     executeQuery = mockExecuteQuery;
@@ -16,6 +18,8 @@ class MockClickHouseService {
     ping = mockPing;
     checkIsAdmin = mockCheckIsAdmin;
     getVersion = mockGetVersion;
+    exportQuery = mockExportQuery;
+    streamQueryRows = mockStreamQueryRows;
 }
 
 mock.module("../services/clickhouse", () => ({
@@ -55,10 +59,24 @@ mock.module("../rbac/services/rbac", () => ({
 
 const mockValidateQueryAccess = mock();
 
+// Scopes of the API key sent as "Bearer chouse_…" in API-key tests.
+let apiKeyScopes: string[] = [];
+
 mock.module("../middleware/dataAccess", () => ({
     optionalRbacMiddleware: mock(async (c, next) => {
         // Simulate RBAC context population
-        if (c.req.header("Authorization")) {
+        if (c.req.header("Authorization")?.startsWith("Bearer chouse_")) {
+            // API key owned by an admin; admin status comes from the real helper
+            const payload = {
+                sub: "user1", email: "a@b.c", username: "admin", roles: ["admin"],
+                permissions: apiKeyScopes, sessionId: "api-key:key1", type: "access", apiKeyId: "key1",
+            };
+            c.set("rbacUser", payload);
+            c.set("rbacUserId", "user1");
+            c.set("rbacRoles", payload.roles);
+            c.set("rbacPermissions", payload.permissions);
+            c.set("isRbacAdmin", isAdminPayload(payload as any));
+        } else if (c.req.header("Authorization")) {
             c.set("rbacUserId", "user1");
             c.set("rbacRoles", ["admin"]); // Admin bypasses some checks
             c.set("rbacPermissions", ["query:execute", "table:select"]);
@@ -69,7 +87,43 @@ mock.module("../middleware/dataAccess", () => ({
     validateQueryAccess: mockValidateQueryAccess
 }));
 
+const mockGetQueryGuardrails = mock();
+const mockRecordQueryUsage = mock();
+const mockGetQueryBudgetStatus = mock();
+
+mock.module("../rbac/services/queryQuotas", () => ({
+    getQueryGuardrails: mockGetQueryGuardrails,
+    recordQueryUsage: mockRecordQueryUsage,
+    getQueryBudgetStatus: mockGetQueryBudgetStatus,
+    runWithQueryBudget: async <T>(
+        userId: string,
+        run: (guardrails: unknown) => Promise<T>,
+        bytesRead: (result: T) => number,
+        options: { maxResultRows?: number; sql?: string } = {}
+    ) => {
+        const guardrails = await mockGetQueryGuardrails(userId, options.maxResultRows, options.sql);
+        let bytes = 0;
+        try {
+            const result = await run(guardrails);
+            bytes = bytesRead(result);
+            return result;
+        } finally {
+            await mockRecordQueryUsage(userId, bytes);
+        }
+    }
+}));
+
+const mockGetProtectedConnection = mock();
+const mockSubmitChangeRequest = mock();
+
+mock.module("../services/changeRequests/workflow", () => ({
+    requiresChangeApproval: mock((sql: string) => !/^\s*SELECT\b/i.test(sql)),
+    getProtectedConnection: mockGetProtectedConnection,
+    submitChangeRequest: mockSubmitChangeRequest
+}));
+
 import queryRoutes from "./query";
+import { isAdminPayload } from "../rbac/middleware/rbacAuth";
 import { errorHandler } from "../middleware/error";
 
 describe("Query Routes", () => {
@@ -86,6 +140,8 @@ describe("Query Routes", () => {
         mockPing.mockClear();
         mockCreateAuditLog.mockClear();
         mockValidateQueryAccess.mockClear();
+        mockExportQuery.mockReset();
+        mockStreamQueryRows.mockReset();
 
         mockPing.mockResolvedValue(true);
         mockClose.mockResolvedValue(undefined);
@@ -98,6 +154,21 @@ describe("Query Routes", () => {
 
         // Default allow access
         mockValidateQueryAccess.mockResolvedValue({ allowed: true });
+
+        // Default no role quota
+        mockGetQueryGuardrails.mockReset();
+        mockGetQueryGuardrails.mockImplementation(async (_userId: string, maxResultRows?: number) => ({ settings: {}, maxResultRows }));
+        mockRecordQueryUsage.mockReset();
+        mockRecordQueryUsage.mockResolvedValue(undefined);
+
+        // Default unprotected connection
+        mockGetProtectedConnection.mockReset();
+        mockGetProtectedConnection.mockResolvedValue(null);
+        mockSubmitChangeRequest.mockReset();
+
+        mockUserHasPermission.mockReset();
+        mockUserHasPermission.mockResolvedValue(true);
+        apiKeyScopes = [];
     });
 
     afterAll(() => {
@@ -128,7 +199,7 @@ describe("Query Routes", () => {
             });
 
             expect(res.status).toBe(200);
-            expect(mockExecuteQuery).toHaveBeenCalledWith("SELECT * FROM t1 WHERE id = 1", "JSON", undefined, undefined);
+            expect(mockExecuteQuery).toHaveBeenCalledWith("SELECT * FROM t1 WHERE id = 1", "JSON", undefined, undefined, undefined, {});
             expect(mockCreateAuditLog).toHaveBeenCalled();
         });
 
@@ -172,6 +243,23 @@ describe("Query Routes", () => {
             expect(mockCreateAuditLog).toHaveBeenCalled();
         });
 
+        it("should hold CREATE TABLE for approval on a protected connection", async () => {
+            mockGetProtectedConnection.mockResolvedValue({ id: "conn1", name: "prod", isProtected: true });
+            mockSubmitChangeRequest.mockResolvedValue({ id: "cr1", operationType: "CREATE" });
+
+            const res = await app.request("/query/table/create", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ query: "CREATE TABLE t1 (id Int) ENGINE=Log" })
+            });
+
+            expect(res.status).toBe(202);
+            const body = await res.json();
+            expect(body.error.code).toBe("APPROVAL_REQUIRED");
+            expect(body.error.details.changeRequestId).toBe("cr1");
+            expect(mockExecuteQuery).not.toHaveBeenCalled();
+        });
+
         it("should reject CREATE DATABASE queries", async () => {
             const res = await app.request("/query/table/create", {
                 method: "POST",
@@ -194,7 +282,7 @@ describe("Query Routes", () => {
             });
 
             expect(res.status).toBe(200);
-            expect(mockExecuteQuery).toHaveBeenCalledWith("SELECT * FROM t1", "JSON", undefined, undefined);
+            expect(mockExecuteQuery).toHaveBeenCalledWith("SELECT * FROM t1", "JSON", undefined, undefined, undefined, {});
         });
 
         it("should execute MISC query if allowed", async () => {
@@ -210,7 +298,7 @@ describe("Query Routes", () => {
             });
 
             expect(res.status).toBe(200);
-            expect(mockExecuteQuery).toHaveBeenCalledWith("SHOW TABLES", "JSON", undefined, undefined);
+            expect(mockExecuteQuery).toHaveBeenCalledWith("SHOW TABLES", "JSON", undefined, undefined, undefined, {});
         });
 
         it("should fail if validation denies", async () => {
@@ -226,5 +314,253 @@ describe("Query Routes", () => {
             const body = await res.json();
             expect(body.error.message).toBe("Denied");
         });
+
+        it("should bind query parameters and validate the substituted query", async () => {
+            mockExecuteQuery.mockResolvedValue({ data: [] });
+            const sql = "SELECT * FROM {tbl:Identifier} WHERE d = {day:Date}";
+            const queryParams = { tbl: "events", day: "2024-01-01" };
+
+            const res = await app.request("/query/execute", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ query: sql, queryParams })
+            });
+
+            expect(res.status).toBe(200);
+            expect(mockValidateQueryAccess.mock.calls[0][3]).toBe("SELECT * FROM `events` WHERE d = NULL");
+            expect(mockExecuteQuery).toHaveBeenCalledWith(sql, "JSON", undefined, undefined, queryParams, {});
+        });
+
+        it("should apply column masks from validation to the result", async () => {
+            mockValidateQueryAccess.mockResolvedValue({
+                allowed: true,
+                columnMasks: [{ database: "crm", table: "users", columnPattern: "email", action: "partial", priority: 0, policyName: "PII" }]
+            });
+            mockExecuteQuery.mockResolvedValue({
+                meta: [{ name: "email", type: "String" }],
+                data: [{ email: "jane@example.com" }]
+            });
+
+            const res = await app.request("/query/execute", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ query: "SELECT email FROM crm.users" })
+            });
+
+            expect(res.status).toBe(200);
+            const body = await res.json();
+            expect(body.data.data).toEqual([{ email: "************.com" }]);
+        });
+
+        it("should send row filters from validation with the query", async () => {
+            mockValidateQueryAccess.mockResolvedValue({
+                allowed: true,
+                rowFilters: [{ database: "crm", table: "customers", filter: "region = 'EU'" }]
+            });
+            mockExecuteQuery.mockResolvedValue({ meta: [], data: [] });
+
+            const res = await app.request("/query/execute", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ query: "SELECT * FROM crm.customers" })
+            });
+
+            expect(res.status).toBe(200);
+            expect(mockExecuteQuery).toHaveBeenCalledWith("SELECT * FROM crm.customers", "JSON", undefined, undefined, undefined, {
+                additional_table_filters: "{'crm.customers': 'region = \\'EU\\''}",
+            });
+        });
+
+        it("should apply role quota guardrails and record usage", async () => {
+            mockGetQueryGuardrails.mockResolvedValue({ settings: { max_execution_time: 30, max_bytes_to_read: 1000 }, maxResultRows: 500 });
+            mockExecuteQuery.mockResolvedValue({ meta: [], data: [], statistics: { elapsed: 0.1, rows_read: 10, bytes_read: 640 } });
+
+            const res = await app.request("/query/execute", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ query: "SELECT * FROM events", maxResultRows: 1000 })
+            });
+
+            expect(res.status).toBe(200);
+            expect(mockGetQueryGuardrails).toHaveBeenCalledWith("user1", 1000, "SELECT * FROM events");
+            expect(mockExecuteQuery).toHaveBeenCalledWith("SELECT * FROM events", "JSON", undefined, 500, undefined, {
+                max_execution_time: 30,
+                max_bytes_to_read: 1000,
+            });
+            expect(mockRecordQueryUsage).toHaveBeenCalledWith("user1", 640);
+        });
+
+        it("should count failed queries towards the budget", async () => {
+            const { AppError } = await import("../types");
+            mockExecuteQuery.mockRejectedValue(AppError.internal("Code: 60. DB::Exception: Unknown table"));
+
+            const res = await app.request("/query/execute", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ query: "SELECT * FROM missing" })
+            });
+
+            expect(res.status).toBe(500);
+            expect(mockRecordQueryUsage).toHaveBeenCalledWith("user1", 0);
+        });
+
+        it("should refuse queries once the daily budget is used up", async () => {
+            const { AppError } = await import("../types");
+            mockGetQueryGuardrails.mockRejectedValue(AppError.tooManyRequests("Daily query budget of 100 queries is used up"));
+
+            const res = await app.request("/query/execute", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ query: "SELECT 1" })
+            });
+
+            expect(res.status).toBe(429);
+            expect(mockExecuteQuery).not.toHaveBeenCalled();
+            expect(mockRecordQueryUsage).not.toHaveBeenCalled();
+        });
+
+        it("should refuse non-JSON formats when columns are masked", async () => {
+            mockValidateQueryAccess.mockResolvedValue({
+                allowed: true,
+                columnMasks: [{ database: "crm", table: "users", columnPattern: "email", action: "hash", priority: 0, policyName: "PII" }]
+            });
+
+            const res = await app.request("/query/execute", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ query: "SELECT email FROM crm.users", format: "CSV" })
+            });
+
+            expect(res.status).toBe(403);
+            expect(mockExecuteQuery).not.toHaveBeenCalled();
+        });
+
+        it("should reject a query with unbound parameters", async () => {
+            const res = await app.request("/query/execute", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ query: "SELECT {a:UInt8}, {b:String}", queryParams: { a: "1" } })
+            });
+
+            expect(res.status).toBe(400);
+            expect(mockExecuteQuery).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("POST /query/execute-stream", () => {
+        it("should record the bytes a failed stream read before it failed", async () => {
+            mockStreamQueryRows.mockImplementation(async function* () {
+                yield JSON.stringify({ t: "m", names: ["id"], types: ["UInt64"], qid: "q1" });
+                yield JSON.stringify({ t: "err", message: "Memory limit exceeded", stats: { bytes_read: 2048 } });
+                throw new Error("Memory limit exceeded");
+            });
+
+            const res = await app.request("/query/execute-stream", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ query: "SELECT id FROM events" })
+            });
+
+            expect(res.status).toBe(200);
+            expect(await res.text()).toContain('"t":"err"');
+            expect(mockRecordQueryUsage).toHaveBeenCalledWith("user1", 2048);
+        });
+    });
+
+    describe("POST /query/export", () => {
+        it("should stream a native export as an attachment", async () => {
+            mockExportQuery.mockResolvedValue({ stream: new Response("id\n1\n").body, bytesRead: 64 });
+
+            const res = await app.request("/query/export", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ query: "SELECT id FROM events;", format: "csv" })
+            });
+
+            expect(res.status).toBe(200);
+            expect(res.headers.get("Content-Type")).toBe("text/csv");
+            expect(res.headers.get("Content-Disposition")).toMatch(/^attachment; filename="ch_ui_export_.+\.csv"$/);
+            expect(await res.text()).toBe("id\n1\n");
+            expect(mockExportQuery).toHaveBeenCalledWith("SELECT id FROM events", "CSVWithNames", 10_000_000, undefined, undefined, {});
+            expect(mockRecordQueryUsage).toHaveBeenCalledWith("user1", 64);
+        });
+
+        it("should refuse Parquet exports of masked columns", async () => {
+            mockValidateQueryAccess.mockResolvedValue({
+                allowed: true,
+                columnMasks: [{ database: "crm", table: "users", columnPattern: "email", action: "hash", priority: 0, policyName: "PII" }]
+            });
+
+            const res = await app.request("/query/export", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ query: "SELECT email FROM crm.users", format: "parquet" })
+            });
+
+            expect(res.status).toBe(403);
+            expect(mockExportQuery).not.toHaveBeenCalled();
+        });
+
+        it("should only export SELECT queries", async () => {
+            const res = await app.request("/query/export", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "Authorization": "Bearer token" },
+                body: JSON.stringify({ query: "DROP TABLE events", format: "csv" })
+            });
+
+            expect(res.status).toBe(400);
+            expect(mockExportQuery).not.toHaveBeenCalled();
+        });
+    });
+    describe("API key requests", () => {
+        const apiKeyHeaders = { "Content-Type": "application/json", "Authorization": "Bearer chouse_test" };
+
+        it("should keep an admin's narrowly scoped key within its scopes", async () => {
+            apiKeyScopes = ["query:execute", "table:select"];
+
+            const res = await app.request("/query/table/create", {
+                method: "POST",
+                headers: apiKeyHeaders,
+                body: JSON.stringify({ query: "CREATE TABLE t1 (id Int) ENGINE=Log" })
+            });
+
+            expect(res.status).toBe(403);
+            expect(mockUserHasPermission).not.toHaveBeenCalled();
+            expect(mockExecuteQuery).not.toHaveBeenCalled();
+        });
+
+        it("should not fall back to the owner's live permissions", async () => {
+            apiKeyScopes = ["table:select"];
+
+            for (const [path, query] of [
+                ["/query/table/insert", "INSERT INTO t1 VALUES (1)"],
+                ["/query/show", "SHOW TABLES"],
+            ]) {
+                const res = await app.request(path, {
+                    method: "POST",
+                    headers: apiKeyHeaders,
+                    body: JSON.stringify({ query })
+                });
+                expect(res.status).toBe(403);
+            }
+
+            const intellisense = await app.request("/query/intellisense", { headers: apiKeyHeaders });
+            expect(intellisense.status).toBe(403);
+            expect(mockUserHasPermission).not.toHaveBeenCalled();
+        });
+
+        it("should allow what the key's scopes grant", async () => {
+            apiKeyScopes = ["table:select"];
+            mockExecuteQuery.mockResolvedValue({ data: [] });
+
+            const res = await app.request("/query/table/select", {
+                method: "POST",
+                headers: apiKeyHeaders,
+                body: JSON.stringify({ query: "SELECT * FROM t1" })
+            });
+
+            expect(res.status).toBe(200);
+            expect(mockValidateQueryAccess).toHaveBeenCalledWith("user1", false, ["table:select"], "SELECT * FROM t1", undefined, "conn1");
+        });
     });
-});
\ No newline at end of file
+});
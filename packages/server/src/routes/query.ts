@@ -3,14 +3,23 @@ import { z } from "zod";
 import { zValidator } from "@hono/zod-validator";
 import { Session, AppError } from "../types";
 import { optionalRbacMiddleware, validateQueryAccess } from "../middleware/dataAccess";
+import { applyColumnMasks, createStreamMasker, describeColumnMasks } from "../middleware/columnMasking";
+import { describeRowFilters, rowFilterSettings } from "../middleware/rowFilters";
+import { getQueryBudgetStatus, getQueryGuardrails, recordQueryUsage, runWithQueryBudget, type QueryGuardrails } from "../rbac/services/queryQuotas";
+import { holdForApproval } from "../middleware/changeApproval";
+import { exportRequestSchema } from "../services/export/types";
+import { prepareExport } from "../services/export/prepare";
+import { exportResponse, runExport } from "../services/export/runner";
 import { getSession } from "../services/clickhouse";
 import { getUserConnections, getConnectionWithPassword } from "../rbac/services/connections";
 import { ClickHouseService } from "../services/clickhouse";
 import { createAuditLogWithContext } from "../rbac/services/rbac";
 import { userHasPermission } from "../rbac/services/rbac";
-import { AUDIT_ACTIONS, PERMISSIONS } from "../rbac/schema/base";
-import { getClientIp } from "../rbac/middleware/rbacAuth";
+import { AUDIT_ACTIONS, PERMISSIONS, type Permission } from "../rbac/schema/base";
+import { getClientIp, isApiKeyRequest, isSuperAdminRequest } from "../rbac/middleware/rbacAuth";
 import { requestLogger } from "../utils/logger";
+import { assertQueryParamsProvided, substituteQueryParamsForValidation } from "../utils/queryParams";
+import { clientQueryIdSchema } from "../utils/queryIds";
 
 export type Variables = {
   sessionId?: string;
@@ -75,8 +84,7 @@ export async function queryAuthMiddleware(c: Context<{ Variables: Variables }>,
   await optionalRbacMiddleware(c, async () => { });
 
   const rbacUserId = c.get("rbacUserId");
-  const rbacRoles = c.get("rbacRoles");
-  const isSuperAdmin = rbacRoles?.includes('super_admin') || false;
+  const isSuperAdmin = isSuperAdminRequest(c);
 
   if (rbacUserId) {
     let service: ClickHouseService | null = null;
@@ -249,7 +257,8 @@ async function checkDbOrTablePermission(
   rbacPermissions: string[] | undefined,
   isRbacAdmin: boolean | undefined,
   operation: 'create' | 'drop' | 'alter',
-  target: 'database' | 'table' | 'view' | 'other'
+  target: 'database' | 'table' | 'view' | 'other',
+  isApiKey: boolean
 ): Promise<void> {
   if (!rbacUserId) {
     throw AppError.unauthorized('RBAC authentication is required. Please login with RBAC credentials.');
@@ -259,7 +268,7 @@ async function checkDbOrTablePermission(
     return;
   }
 
-  let requiredPermission: string;
+  let requiredPermission: Permission;
 
   if (target === 'database') {
     if (operation === 'create') {
@@ -291,8 +300,9 @@ async function checkDbOrTablePermission(
     return;
   }
 
-  // Double-check against database (no fallback - strict enforcement)
-  const hasPermission = await userHasPermission(rbacUserId, requiredPermission as any);
+  // Double-check against database (no fallback - strict enforcement). API keys
+  // are already resolved against live permissions and must stay within scope.
+  const hasPermission = !isApiKey && await userHasPermission(rbacUserId, requiredPermission);
   if (!hasPermission) {
     throw AppError.forbidden(`Permission '${requiredPermission}' required for ${operation.toUpperCase()} ${target.toUpperCase()} operations`);
   }
@@ -305,7 +315,8 @@ async function checkQueryPermission(
   rbacUserId: string | undefined,
   rbacPermissions: string[] | undefined,
   isRbacAdmin: boolean | undefined,
-  requiredPermission: string
+  requiredPermission: Permission,
+  isApiKey: boolean
 ): Promise<void> {
   // RBAC user is required
   if (!rbacUserId) {
@@ -322,13 +333,29 @@ async function checkQueryPermission(
     return;
   }
 
-  // Double-check against database (in case permissions changed)
-  const hasPermission = await userHasPermission(rbacUserId, requiredPermission as any);
+  // Double-check against database (in case permissions changed). API keys
+  // must stay within their scopes.
+  const hasPermission = !isApiKey && await userHasPermission(rbacUserId, requiredPermission);
   if (!hasPermission) {
     throw AppError.forbidden(`Permission '${requiredPermission}' required for this action`);
   }
 }
 
+/**
+ * Count a query towards the user's daily budget. Best-effort: a failed write
+ * is logged rather than failing a query that already ran.
+ */
+async function recordUsage(c: Context<{ Variables: Variables }>, rbacUserId: string, bytesRead: number) {
+  try {
+    await recordQueryUsage(rbacUserId, bytesRead);
+  } catch (error) {
+    requestLogger(c.get("requestId")).error(
+      { module: "Query", err: error instanceof Error ? error.message : String(error) },
+      "Failed to record query usage"
+    );
+  }
+}
+
 /**
  * Execute query with validation and audit logging
  */
@@ -338,7 +365,8 @@ async function executeQueryWithValidation(
   format: 'JSON' | 'JSONEachRow' | 'CSV' | 'TabSeparated',
   operationType: string,
   queryId?: string,
-  maxResultRows?: number
+  maxResultRows?: number,
+  queryParams?: Record<string, string>
 ) {
   const service = c.get("service");
   const session = c.get("session");
@@ -348,12 +376,14 @@ async function executeQueryWithValidation(
   const connectionId = session?.rbacConnectionId || c.get("rbacConnectionId");
   const defaultDatabase = session?.connectionConfig?.database;
 
+  assertQueryParamsProvided(sql, queryParams);
+
   // Validate access before execution
   const accessCheck = await validateQueryAccess(
     rbacUserId,
     isRbacAdmin,
     rbacPermissions,
-    sql,
+    substituteQueryParamsForValidation(sql, queryParams),
     defaultDatabase,
     connectionId
   );
@@ -373,7 +403,35 @@ async function executeQueryWithValidation(
     }, 403);
   }
 
-  const result = await service.executeQuery(sql, format, queryId, maxResultRows);
+  // Column rules are applied to the parsed JSON result; other formats would bypass them
+  const columnMasks = accessCheck.columnMasks ?? [];
+  if (columnMasks.length > 0 && format !== "JSON") {
+    return c.json({
+      success: false,
+      error: {
+        code: "FORBIDDEN",
+        message: "This query reads masked columns; only the JSON format is supported",
+      },
+    }, 403);
+  }
+
+  const held = await holdForApproval(c, sql, queryParams);
+  if (held) return held;
+
+  // Role quota guardrails; rejects the query once a daily budget is used up
+  // and counts it towards the budget whether or not it succeeds
+  const rowFilters = accessCheck.rowFilters ?? [];
+  const run = (guardrails: QueryGuardrails) =>
+    service.executeQuery(sql, format, queryId, guardrails.maxResultRows, queryParams, {
+      ...guardrails.settings,
+      ...rowFilterSettings(rowFilters),
+    });
+  const result = applyColumnMasks(
+    rbacUserId
+      ? await runWithQueryBudget(rbacUserId, run, (res) => res.statistics?.bytes_read ?? 0, { maxResultRows, sql })
+      : await run({ settings: {}, maxResultRows }),
+    columnMasks
+  );
 
   // Create audit log for query execution
   if (rbacUserId) {
@@ -391,6 +449,9 @@ async function executeQueryWithValidation(
             query: sql.substring(0, 500),
             queryLength: sql.length,
             format,
+            ...(queryParams && { queryParams }),
+            ...(columnMasks.length > 0 && { columnMasks: describeColumnMasks(columnMasks) }),
+            ...(rowFilters.length > 0 && { rowFilters: describeRowFilters(rowFilters) }),
             connectionId,
             timestamp: Date.now(),
           },
@@ -419,12 +480,14 @@ async function executeQueryWithValidation(
 const QueryRequestSchemaWithType = z.object({
   query: z.string().min(1, "Query is required"),
   format: z.enum(["JSON", "JSONEachRow", "CSV", "TabSeparated"]).optional().default("JSON"),
-  queryId: z.string().optional(),
+  queryId: clientQueryIdSchema,
   /**
    * User-configured row cap.  0 = unlimited.  Absent = use server default.
    * Validated server-side: must be 0 (unlimited) or in [100, 100_000].
    */
   maxResultRows: z.number().int().min(0).max(100_000).optional(),
+  /** Values for ClickHouse `{name:Type}` placeholders, bound server-side */
+  queryParams: z.record(z.string()).optional(),
 });
 
 const ExplainRequestSchema = z.object({
@@ -438,7 +501,7 @@ const ExplainRequestSchema = z.object({
  * Validates access based on command type (SELECT, INSERT, CREATE, etc.)
  */
 query.post("/execute", zValidator("json", QueryRequestSchemaWithType), async (c) => {
-  const { query: sql, format, queryId, maxResultRows } = c.req.valid("json");
+  const { query: sql, format, queryId, maxResultRows, queryParams } = c.req.valid("json");
   const rbacUserId = c.get("rbacUserId");
 
   // Basic validation that we got a query
@@ -450,7 +513,7 @@ query.post("/execute", zValidator("json", QueryRequestSchemaWithType), async (c)
   // Note: Detailed validation happens in executeQueryWithValidation -> validateQueryAccess
   const queryType = sql.trim().split(/\s+/)[0].toUpperCase();
 
-  return executeQueryWithValidation(c, sql, format, queryType, queryId, maxResultRows);
+  return executeQueryWithValidation(c, sql, format, queryType, queryId, maxResultRows, queryParams);
 });
 
 /**
@@ -465,7 +528,7 @@ query.post("/execute", zValidator("json", QueryRequestSchemaWithType), async (c)
  *   {"t":"err","message":"..."}                         ← error (last, if any)
  */
 query.post("/execute-stream", zValidator("json", QueryRequestSchemaWithType), async (c) => {
-  const { query: sql, queryId, maxResultRows } = c.req.valid("json");
+  const { query: sql, queryId, maxResultRows, queryParams } = c.req.valid("json");
 
   if (!sql || !sql.trim()) {
     throw AppError.badRequest("Query is required");
@@ -479,12 +542,14 @@ query.post("/execute-stream", zValidator("json", QueryRequestSchemaWithType), as
   const connectionId = session?.rbacConnectionId || c.get("rbacConnectionId");
   const defaultDatabase = session?.connectionConfig?.database;
 
+  assertQueryParamsProvided(sql, queryParams);
+
   // RBAC access check — same as /execute
   const accessCheck = await validateQueryAccess(
     rbacUserId,
     isRbacAdmin,
     rbacPermissions,
-    sql,
+    substituteQueryParamsForValidation(sql, queryParams),
     defaultDatabase,
     connectionId
   );
@@ -499,6 +564,15 @@ query.post("/execute-stream", zValidator("json", QueryRequestSchemaWithType), as
     }, 403);
   }
 
+  const held = await holdForApproval(c, sql, queryParams);
+  if (held) return held;
+
+  const columnMasks = accessCheck.columnMasks ?? [];
+  const rowFilters = accessCheck.rowFilters ?? [];
+  const guardrails = rbacUserId
+    ? await getQueryGuardrails(rbacUserId, maxResultRows, sql)
+    : { settings: {}, maxResultRows };
+
   // Audit log (best-effort, mirrors /execute)
   const logQueryId = queryId || `query_${Date.now()}_${Math.random().toString(36).substring(7)}`;
   if (rbacUserId) {
@@ -510,6 +584,9 @@ query.post("/execute-stream", zValidator("json", QueryRequestSchemaWithType), as
         query: sql.substring(0, 500),
         queryLength: sql.length,
         format: "stream",
+        ...(queryParams && { queryParams }),
+        ...(columnMasks.length > 0 && { columnMasks: describeColumnMasks(columnMasks) }),
+        ...(rowFilters.length > 0 && { rowFilters: describeRowFilters(rowFilters) }),
         connectionId,
         timestamp: Date.now(),
       },
@@ -525,18 +602,35 @@ query.post("/execute-stream", zValidator("json", QueryRequestSchemaWithType), as
 
   // Stream NDJSON directly to the browser
   const encoder = new TextEncoder();
+  const maskLine = createStreamMasker(columnMasks);
 
   const stream = new ReadableStream({
     async start(controller) {
+      let bytesRead = 0;
       try {
-        for await (const line of service.streamQueryRows(sql, logQueryId, maxResultRows)) {
-          controller.enqueue(encoder.encode(line + "\n"));
+        const settings = { ...guardrails.settings, ...rowFilterSettings(rowFilters) };
+        for await (const line of service.streamQueryRows(sql, logQueryId, guardrails.maxResultRows, queryParams, settings)) {
+          // The end line and a failed query's error line carry the bytes read so far
+          if (line.startsWith('{"t":"e')) {
+            bytesRead = (JSON.parse(line) as { stats?: { bytes_read?: number } }).stats?.bytes_read ?? bytesRead;
+          }
+          controller.enqueue(encoder.encode(maskLine(line) + "\n"));
         }
       } catch (error) {
         const msg = error instanceof Error ? error.message : String(error);
-        controller.enqueue(encoder.encode(JSON.stringify({ t: "err", message: msg }) + "\n"));
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify({ t: "err", message: msg }) + "\n"));
+        } catch {
+          // The browser cancelled the stream; nothing left to tell it
+        }
       } finally {
-        controller.close();
+        // Cancelled and failed queries count towards the budget too
+        if (rbacUserId) await recordUsage(c, rbacUserId, bytesRead);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a cancel
+        }
       }
     },
   });
@@ -550,6 +644,59 @@ query.post("/execute-stream", zValidator("json", QueryRequestSchemaWithType), as
   });
 });
 
+/**
+ * POST /query/export
+ * Download a SELECT result as a file (Parquet, ArrowStream, NDJSON, CSV, TSV
+ * or XLSX), optionally gzip/zstd compressed. Native formats stream straight
+ * from ClickHouse; see services/export for how masked columns are handled.
+ */
+query.post("/export", zValidator("json", exportRequestSchema), async (c) => {
+  const request = c.req.valid("json");
+  const session = c.get("session");
+  const rbacUserId = c.get("rbacUserId");
+  const connectionId = session?.rbacConnectionId || c.get("rbacConnectionId");
+
+  const spec = await prepareExport({
+    userId: rbacUserId,
+    isAdmin: c.get("isRbacAdmin"),
+    permissions: c.get("rbacPermissions"),
+    defaultDatabase: session?.connectionConfig?.database,
+    connectionId,
+  }, request);
+  const result = await runExport(c.get("service"), spec).catch(async (error: unknown) => {
+    // A query that failed before its first byte still counts towards the budget
+    if (rbacUserId) await recordUsage(c, rbacUserId, 0);
+    throw error;
+  });
+
+  if (rbacUserId) {
+    void result.bytesRead.then((bytes) => recordUsage(c, rbacUserId, bytes));
+
+    createAuditLogWithContext(c, AUDIT_ACTIONS.CH_QUERY_EXPORT, rbacUserId, {
+      resourceType: "query",
+      resourceId: request.queryId,
+      details: {
+        query: spec.sql.substring(0, 500),
+        queryLength: spec.sql.length,
+        format: spec.format,
+        compression: spec.compression,
+        ...(spec.columnMasks.length > 0 && { columnMasks: describeColumnMasks(spec.columnMasks) }),
+        connectionId,
+        timestamp: Date.now(),
+      },
+      ipAddress: getClientIp(c),
+      status: "success",
+    }).catch((err: unknown) => {
+      requestLogger(c.get("requestId")).error(
+        { module: "Query", err: err instanceof Error ? err.message : String(err) },
+        "Failed to create audit log for export"
+      );
+    });
+  }
+
+  return exportResponse(result);
+});
+
 /**
  * POST /query/explain
  * Get Visual Explain Plan for a query
@@ -612,6 +759,23 @@ query.post("/explain", zValidator("json", ExplainRequestSchema), async (c) => {
   });
 });
 
+/**
+ * GET /query/usage
+ * Today's query/bytes usage of the current user against the daily budgets of
+ * their roles, so the workspace can warn before queries are refused.
+ */
+query.get("/usage", async (c) => {
+  const rbacUserId = c.get("rbacUserId");
+  if (!rbacUserId) {
+    throw AppError.unauthorized("RBAC authentication is required.");
+  }
+
+  return c.json({
+    success: true,
+    data: await getQueryBudgetStatus(rbacUserId),
+  });
+});
+
 /**
  * GET /query/intellisense
  * Get intellisense data (columns, functions, keywords)
@@ -632,7 +796,7 @@ query.get("/intellisense", async (c) => {
     const hasPermission = rbacPermissions?.includes(PERMISSIONS.QUERY_EXECUTE) || false;
     if (!hasPermission) {
       // Double-check against database
-      const hasDbPermission = await userHasPermission(rbacUserId, PERMISSIONS.QUERY_EXECUTE);
+      const hasDbPermission = !isApiKeyRequest(c) && await userHasPermission(rbacUserId, PERMISSIONS.QUERY_EXECUTE);
       if (!hasDbPermission) {
         throw AppError.forbidden(`Permission '${PERMISSIONS.QUERY_EXECUTE}' required for this action`);
       }
@@ -681,6 +845,9 @@ tableRouter.post("/select", zValidator("json", QueryRequestSchemaWithType), asyn
   const hasTableSelect = rbacPermissions?.includes(PERMISSIONS.TABLE_SELECT) || false;
 
   if (!isRbacAdmin && !hasQueryExecute && !hasTableSelect) {
+    if (isApiKeyRequest(c)) {
+      throw AppError.forbidden(`Permission '${PERMISSIONS.QUERY_EXECUTE}' or '${PERMISSIONS.TABLE_SELECT}' required for SELECT queries`);
+    }
     // Check against database
     const hasQueryPerm = await userHasPermission(rbacUserId!, PERMISSIONS.QUERY_EXECUTE);
     const hasSelectPerm = await userHasPermission(rbacUserId!, PERMISSIONS.TABLE_SELECT);
@@ -714,7 +881,8 @@ tableRouter.post("/insert", zValidator("json", QueryRequestSchemaWithType), asyn
     rbacUserId,
     rbacPermissions,
     isRbacAdmin,
-    PERMISSIONS.TABLE_INSERT
+    PERMISSIONS.TABLE_INSERT,
+    isApiKeyRequest(c)
   );
 
   return executeQueryWithValidation(c, sql, format, 'INSERT', queryId);
@@ -741,7 +909,8 @@ tableRouter.post("/update", zValidator("json", QueryRequestSchemaWithType), asyn
     rbacUserId,
     rbacPermissions,
     isRbacAdmin,
-    PERMISSIONS.TABLE_UPDATE
+    PERMISSIONS.TABLE_UPDATE,
+    isApiKeyRequest(c)
   );
 
   return executeQueryWithValidation(c, sql, format, 'UPDATE', queryId);
@@ -768,7 +937,8 @@ tableRouter.post("/delete", zValidator("json", QueryRequestSchemaWithType), asyn
     rbacUserId,
     rbacPermissions,
     isRbacAdmin,
-    PERMISSIONS.TABLE_DELETE
+    PERMISSIONS.TABLE_DELETE,
+    isApiKeyRequest(c)
   );
 
   return executeQueryWithValidation(c, sql, format, 'DELETE', queryId);
@@ -803,7 +973,8 @@ tableRouter.post("/create", zValidator("json", QueryRequestSchemaWithType), asyn
     rbacPermissions,
     isRbacAdmin,
     'create',
-    target
+    target,
+    isApiKeyRequest(c)
   );
 
   return executeQueryWithValidation(c, sql, format, `CREATE_${target.toUpperCase()}`, queryId);
@@ -838,7 +1009,8 @@ tableRouter.post("/drop", zValidator("json", QueryRequestSchemaWithType), async
     rbacPermissions,
     isRbacAdmin,
     'drop',
-    target
+    target,
+    isApiKeyRequest(c)
   );
 
   return executeQueryWithValidation(c, sql, format, `DROP_${target.toUpperCase()}`, queryId);
@@ -880,7 +1052,8 @@ tableRouter.post("/alter", zValidator("json", QueryRequestSchemaWithType), async
     rbacPermissions,
     isRbacAdmin,
     'alter',
-    target
+    target,
+    isApiKeyRequest(c)
   );
 
   return executeQueryWithValidation(c, sql, format, `ALTER_${target.toUpperCase()}`, queryId);
@@ -907,7 +1080,8 @@ tableRouter.post("/truncate", zValidator("json", QueryRequestSchemaWithType), as
     rbacUserId,
     rbacPermissions,
     isRbacAdmin,
-    PERMISSIONS.TABLE_DELETE
+    PERMISSIONS.TABLE_DELETE,
+    isApiKeyRequest(c)
   );
 
   return executeQueryWithValidation(c, sql, format, 'TRUNCATE', queryId);
@@ -946,7 +1120,8 @@ databaseRouter.post("/create", zValidator("json", QueryRequestSchemaWithType), a
     rbacPermissions,
     isRbacAdmin,
     'create',
-    target
+    target,
+    isApiKeyRequest(c)
   );
 
   return executeQueryWithValidation(c, sql, format, 'CREATE_DATABASE', queryId);
@@ -981,7 +1156,8 @@ databaseRouter.post("/drop", zValidator("json", QueryRequestSchemaWithType), asy
     rbacPermissions,
     isRbacAdmin,
     'drop',
-    target
+    target,
+    isApiKeyRequest(c)
   );
 
   return executeQueryWithValidation(c, sql, format, 'DROP_DATABASE');
@@ -1015,7 +1191,8 @@ databaseRouter.post("/alter", zValidator("json", QueryRequestSchemaWithType), as
     rbacPermissions,
     isRbacAdmin,
     'alter',
-    'database'
+    'database',
+    isApiKeyRequest(c)
   );
 
   return executeQueryWithValidation(c, sql, format, 'ALTER_DATABASE');
@@ -1047,6 +1224,9 @@ query.post("/show", zValidator("json", QueryRequestSchemaWithType), async (c) =>
   const hasTableView = rbacPermissions?.includes(PERMISSIONS.TABLE_VIEW) || false;
 
   if (!isRbacAdmin && !hasQueryExecute && !hasDbView && !hasTableView) {
+    if (isApiKeyRequest(c)) {
+      throw AppError.forbidden(`Permission '${PERMISSIONS.QUERY_EXECUTE}', '${PERMISSIONS.DB_VIEW}', or '${PERMISSIONS.TABLE_VIEW}' required for SHOW queries`);
+    }
     const hasQueryPerm = await userHasPermission(rbacUserId!, PERMISSIONS.QUERY_EXECUTE);
     const hasDbPerm = await userHasPermission(rbacUserId!, PERMISSIONS.DB_VIEW);
     const hasTablePerm = await userHasPermission(rbacUserId!, PERMISSIONS.TABLE_VIEW);
@@ -1086,7 +1266,8 @@ query.post("/system", zValidator("json", QueryRequestSchemaWithType), async (c)
     rbacUserId,
     rbacPermissions,
     isRbacAdmin,
-    PERMISSIONS.QUERY_EXECUTE
+    PERMISSIONS.QUERY_EXECUTE,
+    isApiKeyRequest(c)
   );
 
   return executeQueryWithValidation(c, sql, format, 'SYSTEM');
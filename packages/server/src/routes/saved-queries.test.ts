@@ -27,6 +27,8 @@ const mockCreateSavedQuery = mock();
 const mockUpdateSavedQuery = mock();
 const mockDeleteSavedQuery = mock();
 const mockGetQueryConnectionNames = mock();
+const mockGetSavedQueryRevisions = mock();
+const mockRestoreSavedQueryRevision = mock();
 
 mock.module("../rbac/services/savedQueries", () => ({
     getSavedQueries: mockGetSavedQueries,
@@ -34,7 +36,9 @@ mock.module("../rbac/services/savedQueries", () => ({
     createSavedQuery: mockCreateSavedQuery,
     updateSavedQuery: mockUpdateSavedQuery,
     deleteSavedQuery: mockDeleteSavedQuery,
-    getQueryConnectionNames: mockGetQueryConnectionNames
+    getQueryConnectionNames: mockGetQueryConnectionNames,
+    getSavedQueryRevisions: mockGetSavedQueryRevisions,
+    restoreSavedQueryRevision: mockRestoreSavedQueryRevision
 }));
 
 const mockUserHasPermission = mock();
@@ -9,8 +9,9 @@
 import { Hono } from "hono";
 import { z } from "zod";
 import { zValidator } from "@hono/zod-validator";
-import { rbacAuthMiddleware } from "../rbac/middleware/rbacAuth";
-import { PERMISSIONS, AUDIT_ACTIONS } from "../rbac/schema/base";
+import { rbacAuthMiddleware, isApiKeyRequest } from "../rbac/middleware/rbacAuth";
+import { PERMISSIONS, AUDIT_ACTIONS, type Permission } from "../rbac/schema/base";
+import { SAVED_QUERY_CHART_TYPES } from "../rbac/constants/savedQueryCharts";
 import { userHasPermission, createAuditLogWithContext } from "../rbac/services/rbac";
 import { AppError } from "../types";
 import {
@@ -20,6 +21,8 @@ import {
   updateSavedQuery,
   deleteSavedQuery,
   getQueryConnectionNames,
+  getSavedQueryRevisions,
+  restoreSavedQueryRevision,
 } from "../rbac/services/savedQueries";
 import { requestLogger } from "../utils/logger";
 
@@ -43,7 +46,8 @@ async function checkSavedQueriesPermission(
   rbacUserId: string | undefined,
   rbacPermissions: string[] | undefined,
   isRbacAdmin: boolean | undefined,
-  permission: string
+  permission: Permission,
+  isApiKey: boolean
 ): Promise<void> {
   // If no RBAC user, deny access (RBAC is required for saved queries)
   if (!rbacUserId) {
@@ -60,8 +64,9 @@ async function checkSavedQueriesPermission(
     return;
   }
 
-  // Double-check against database (in case permissions changed)
-  const hasPermission = await userHasPermission(rbacUserId, permission as any);
+  // Double-check against database (in case permissions changed). API keys
+  // must stay within their scopes.
+  const hasPermission = !isApiKey && await userHasPermission(rbacUserId, permission);
   if (!hasPermission) {
     throw AppError.forbidden(`Permission '${permission}' required for this action`);
   }
@@ -71,10 +76,22 @@ async function checkSavedQueriesPermission(
 // Schemas
 // ============================================
 
+const chartConfigSchema = z.object({
+  chartType: z.enum(SAVED_QUERY_CHART_TYPES),
+  xAxis: z.string().min(1).optional(),
+  yAxis: z.array(z.string().min(1)).optional(),
+});
+
 const getQueriesSchema = z.object({
   connectionId: z.string().optional(), // Optional - filter by connection or get all
+  search: z.string().optional(), // Matches name, description and SQL
+  tag: z.string().optional(),
+  folder: z.string().optional(), // Includes sub-folders
 });
 
+const folderSchema = z.string().max(500); // Slash-separated path, e.g. "Finance/Revenue"
+const tagsSchema = z.array(z.string().max(64)).max(50);
+
 const createQuerySchema = z.object({
   connectionId: z.string().optional().nullable(), // Optional - null means shared across all connections
   connectionName: z.string().optional().nullable(), // Display name for the connection
@@ -82,6 +99,10 @@ const createQuerySchema = z.object({
   query: z.string().min(1, "Query content is required"),
   description: z.string().optional(),
   isPublic: z.boolean().optional().default(false),
+  parameters: z.record(z.string()).optional().nullable(), // Values for {name:Type} placeholders
+  chartConfig: chartConfigSchema.optional().nullable(), // Chart view next to the results grid
+  folder: folderSchema.optional().nullable(),
+  tags: tagsSchema.optional().nullable(),
 });
 
 const updateQuerySchema = z.object({
@@ -91,6 +112,10 @@ const updateQuerySchema = z.object({
   isPublic: z.boolean().optional(),
   connectionId: z.string().optional().nullable(),
   connectionName: z.string().optional().nullable(),
+  parameters: z.record(z.string()).optional().nullable(),
+  chartConfig: chartConfigSchema.optional().nullable(),
+  folder: folderSchema.optional().nullable(),
+  tags: tagsSchema.optional().nullable(),
 });
 
 // ============================================
@@ -100,10 +125,10 @@ const updateQuerySchema = z.object({
 /**
  * GET /saved-queries
  * Get all saved queries for the current user
- * Query params: connectionId (optional - filter by connection)
+ * Query params: connectionId (optional - filter by connection), search, tag, folder
  */
 savedQueriesRouter.get("/", zValidator("query", getQueriesSchema), async (c) => {
-  const { connectionId } = c.req.valid("query");
+  const { connectionId, search, tag, folder } = c.req.valid("query");
   const rbacUserId = c.get("rbacUserId");
   const rbacPermissions = c.get("rbacPermissions");
   const isRbacAdmin = c.get("isRbacAdmin");
@@ -113,11 +138,12 @@ savedQueriesRouter.get("/", zValidator("query", getQueriesSchema), async (c) =>
     rbacUserId,
     rbacPermissions,
     isRbacAdmin,
-    PERMISSIONS.SAVED_QUERIES_VIEW
+    PERMISSIONS.SAVED_QUERIES_VIEW,
+    isApiKeyRequest(c)
   );
 
   try {
-    const queries = await getSavedQueries(rbacUserId, connectionId);
+    const queries = await getSavedQueries(rbacUserId, connectionId, { search, tag, folder });
 
     return c.json({
       success: true,
@@ -147,7 +173,8 @@ savedQueriesRouter.get("/connections", async (c) => {
     rbacUserId,
     rbacPermissions,
     isRbacAdmin,
-    PERMISSIONS.SAVED_QUERIES_VIEW
+    PERMISSIONS.SAVED_QUERIES_VIEW,
+    isApiKeyRequest(c)
   );
 
   try {
@@ -181,7 +208,8 @@ savedQueriesRouter.get("/:id", async (c) => {
     rbacUserId,
     rbacPermissions,
     isRbacAdmin,
-    PERMISSIONS.SAVED_QUERIES_VIEW
+    PERMISSIONS.SAVED_QUERIES_VIEW,
+    isApiKeyRequest(c)
   );
 
   try {
@@ -213,7 +241,7 @@ savedQueriesRouter.get("/:id", async (c) => {
  * connectionId is optional - null means shared across all connections
  */
 savedQueriesRouter.post("/", zValidator("json", createQuerySchema), async (c) => {
-  const { connectionId, connectionName, name, query, description, isPublic } = c.req.valid("json");
+  const { connectionId, connectionName, name, query, description, isPublic, parameters, chartConfig, folder, tags } = c.req.valid("json");
   const rbacUserId = c.get("rbacUserId");
   const rbacPermissions = c.get("rbacPermissions");
   const isRbacAdmin = c.get("isRbacAdmin");
@@ -223,7 +251,8 @@ savedQueriesRouter.post("/", zValidator("json", createQuerySchema), async (c) =>
     rbacUserId,
     rbacPermissions,
     isRbacAdmin,
-    PERMISSIONS.SAVED_QUERIES_CREATE
+    PERMISSIONS.SAVED_QUERIES_CREATE,
+    isApiKeyRequest(c)
   );
 
   try {
@@ -234,6 +263,10 @@ savedQueriesRouter.post("/", zValidator("json", createQuerySchema), async (c) =>
       query,
       description,
       isPublic,
+      parameters: parameters ?? null,
+      chartConfig: chartConfig ?? null,
+      folder: folder ?? null,
+      tags: tags ?? null,
     });
 
     // Audit log
@@ -277,7 +310,8 @@ savedQueriesRouter.put("/:id", zValidator("json", updateQuerySchema), async (c)
     rbacUserId,
     rbacPermissions,
     isRbacAdmin,
-    PERMISSIONS.SAVED_QUERIES_UPDATE
+    PERMISSIONS.SAVED_QUERIES_UPDATE,
+    isApiKeyRequest(c)
   );
 
   try {
@@ -315,6 +349,99 @@ savedQueriesRouter.put("/:id", zValidator("json", updateQuerySchema), async (c)
   }
 });
 
+/**
+ * GET /saved-queries/:id/revisions
+ * Revision history of a saved query, newest first
+ */
+savedQueriesRouter.get("/:id/revisions", async (c) => {
+  const { id } = c.req.param();
+  const rbacUserId = c.get("rbacUserId");
+  const rbacPermissions = c.get("rbacPermissions");
+  const isRbacAdmin = c.get("isRbacAdmin");
+
+  await checkSavedQueriesPermission(
+    rbacUserId,
+    rbacPermissions,
+    isRbacAdmin,
+    PERMISSIONS.SAVED_QUERIES_VIEW,
+    isApiKeyRequest(c)
+  );
+
+  try {
+    const revisions = await getSavedQueryRevisions(id, rbacUserId);
+
+    if (!revisions) {
+      return c.json({
+        success: false,
+        error: { message: "Query not found" },
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: revisions,
+    });
+  } catch (error) {
+    requestLogger(c.get("requestId")).error({ module: "SavedQueries", err: error instanceof Error ? error.message : String(error) }, "Failed to fetch revisions");
+    return c.json({
+      success: false,
+      error: { message: "Failed to fetch query history" },
+    }, 500);
+  }
+});
+
+/**
+ * POST /saved-queries/:id/revisions/:revisionId/restore
+ * Restore a saved query to an earlier revision (recorded as a new revision)
+ */
+savedQueriesRouter.post("/:id/revisions/:revisionId/restore", async (c) => {
+  const { id, revisionId } = c.req.param();
+  const rbacUserId = c.get("rbacUserId");
+  const rbacPermissions = c.get("rbacPermissions");
+  const isRbacAdmin = c.get("isRbacAdmin");
+
+  await checkSavedQueriesPermission(
+    rbacUserId,
+    rbacPermissions,
+    isRbacAdmin,
+    PERMISSIONS.SAVED_QUERIES_UPDATE,
+    isApiKeyRequest(c)
+  );
+
+  try {
+    const restored = await restoreSavedQueryRevision(id, revisionId, rbacUserId);
+
+    if (!restored) {
+      return c.json({
+        success: false,
+        error: { message: "Revision not found or you don't have permission to update this query" },
+      }, 404);
+    }
+
+    try {
+      await createAuditLogWithContext(c, AUDIT_ACTIONS.SAVED_QUERY_UPDATE, rbacUserId, {
+        resourceType: 'saved_query',
+        resourceId: id,
+        details: { operation: 'restore', revisionId },
+        ipAddress: c.req.header('X-Forwarded-For') || c.req.header('X-Real-IP'),
+      });
+    } catch (auditError) {
+      requestLogger(c.get("requestId")).error({ module: "SavedQueries", err: auditError instanceof Error ? auditError.message : String(auditError) }, "Failed to create audit log");
+    }
+
+    return c.json({
+      success: true,
+      data: restored,
+    });
+  } catch (error) {
+    requestLogger(c.get("requestId")).error({ module: "SavedQueries", err: error instanceof Error ? error.message : String(error) }, "Failed to restore revision");
+    return c.json({
+      success: false,
+      error: { message: "Failed to restore query revision" },
+    }, 500);
+  }
+});
+
 /**
  * DELETE /saved-queries/:id
  * Delete a saved query
@@ -330,7 +457,8 @@ savedQueriesRouter.delete("/:id", async (c) => {
     rbacUserId,
     rbacPermissions,
     isRbacAdmin,
-    PERMISSIONS.SAVED_QUERIES_DELETE
+    PERMISSIONS.SAVED_QUERIES_DELETE,
+    isApiKeyRequest(c)
   );
 
   try {
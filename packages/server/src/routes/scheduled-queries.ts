@@ -13,8 +13,9 @@ import { Hono, type Context } from "hono";
 import { z } from "zod";
 import { zValidator } from "@hono/zod-validator";
 
-import { rbacAuthMiddleware, requirePermission, getRbacUser } from "../rbac/middleware/rbacAuth";
-import { PERMISSIONS, AUDIT_ACTIONS, SYSTEM_ROLES } from "../rbac/schema/base";
+import { rbacAuthMiddleware, requirePermission, getRbacUser, isAdminPayload, isSuperAdminRequest } from "../rbac/middleware/rbacAuth";
+import type { TokenPayload } from "../rbac/services/jwt";
+import { PERMISSIONS, AUDIT_ACTIONS } from "../rbac/schema/base";
 import { createAuditLogWithContext } from "../rbac/services/rbac";
 import { getUserConnections, getConnectionById } from "../rbac/services/connections";
 import { validateQueryAccess } from "../middleware/dataAccess";
@@ -61,11 +62,7 @@ function userId(c: Context): string | undefined {
 }
 
 function isSuperAdmin(c: Context): boolean {
-  try {
-    return getRbacUser(c).roles.includes(SYSTEM_ROLES.SUPER_ADMIN);
-  } catch {
-    return false;
-  }
+  return isSuperAdminRequest(c);
 }
 
 function hasWritePerm(c: Context): boolean {
@@ -122,16 +119,15 @@ async function assertConnectionAccess(c: Context, connectionId: string): Promise
  * `{{…}}` tokens are stripped to a literal first so the validator can parse the SQL.
  */
 async function dataAccessCheck(c: Context, query: string, connectionId: string): Promise<{ allowed: boolean; reason?: string }> {
-  let roles: string[] = [];
-  let permissions: string[] = [];
+  let user: TokenPayload;
   try {
-    const u = getRbacUser(c);
-    roles = u.roles;
-    permissions = u.permissions;
+    user = getRbacUser(c);
   } catch {
     return { allowed: false, reason: "RBAC authentication is required." };
   }
-  const isAdmin = roles.includes(SYSTEM_ROLES.SUPER_ADMIN) || roles.includes(SYSTEM_ROLES.ADMIN);
+  // Scoped API keys from admins don't get the admin bypass
+  const isAdmin = isAdminPayload(user);
+  const permissions = user.permissions;
   const conn = await getConnectionById(connectionId);
   const result = await validateQueryAccess(
     userId(c),
@@ -141,6 +137,14 @@ async function dataAccessCheck(c: Context, query: string, connectionId: string):
     conn?.database ?? undefined,
     connectionId,
   );
+  // Results leave the app unmasked and unfiltered (tables, channels), so column
+  // rules and row filters block scheduling
+  if (result.allowed && result.columnMasks) {
+    return { allowed: false, reason: "Scheduled queries cannot read tables with masked or denied columns." };
+  }
+  if (result.allowed && result.rowFilters) {
+    return { allowed: false, reason: "Scheduled queries cannot read tables limited by a row filter." };
+  }
   return { allowed: result.allowed, reason: result.reason };
 }
 
@@ -16,7 +16,14 @@ import {
   validateQueryAccess,
 } from "../middleware/dataAccess";
 import { parseStatement } from "../middleware/sqlParser";
+import { applyColumnMasks } from "../middleware/columnMasking";
+import { rowFilterSettings, type RowFilter } from "../middleware/rowFilters";
+import { runWithQueryBudget } from "../rbac/services/queryQuotas";
 import { analyzeQuery } from "./queryAnalyzer";
+import { prepareExport } from "./export/prepare";
+import { createExportLink } from "./export/links";
+import { assertExportable } from "./export/runner";
+import type { ExportCompression, ExportFormat } from "./export/types";
 
 const zodSchema = <T>(schema: T): T => schema;
 
@@ -49,6 +56,23 @@ export interface AgentToolContext {
 
 const SEARCH_PATTERN_MAX_LENGTH = 200;
 
+/**
+ * Run a query that reads user data with the user's row filters, under their
+ * role quota guardrails and counted towards their daily budget.
+ */
+function runUserQuery(ctx: AgentToolContext, sql: string, rowFilters: RowFilter[] = []) {
+  return runWithQueryBudget(
+    ctx.userId,
+    (guardrails) =>
+      ctx.clickhouseService.executeQuery(sql, "JSON", undefined, guardrails.maxResultRows, undefined, {
+        ...guardrails.settings,
+        ...rowFilterSettings(rowFilters),
+      }),
+    (result) => result.statistics?.bytes_read ?? 0,
+    { sql }
+  );
+}
+
 /**
  * Sanitize a LIKE pattern for system.columns name search.
  * Escapes single quote, backslash, % and _ to prevent injection and wildcard abuse.
@@ -79,7 +103,10 @@ export function isNumericType(type: string): boolean {
   return NUMERIC_TYPE_PREFIXES.some((prefix) => type.startsWith(prefix));
 }
 
-/** Infer the best X-axis column: prefer DateTime/Date/String, else the first column. */
+/**
+ * Infer the best X-axis column: prefer DateTime/Date/String, else the first column.
+ * Mirrored in src/components/common/AiChartUtils.ts for SQL tab result charts — keep in sync.
+ */
 export function inferXAxis(columns: { name: string; type: string }[]): string {
   const dateCol = columns.find(
     (c) =>
@@ -104,6 +131,7 @@ export function inferXAxis(columns: { name: string; type: string }[]): string {
 /**
  * Infer Y-axis column(s): all numeric columns that are NOT the X axis.
  * Returns a single string when only one numeric column exists, else an array.
+ * Mirrored in src/components/common/AiChartUtils.ts — keep in sync.
  */
 export function inferYAxes(
   columns: { name: string; type: string }[],
@@ -399,21 +427,24 @@ export function createCoreTools(ctx: AgentToolContext) {
         table: string;
       }): Promise<Record<string, unknown>> => {
         try {
-          const hasAccess = await checkTableAccess(
+          // Same validator as run_query so column rules and row filters apply to the preview
+          const sampleSql = `SELECT * FROM ${database}.${table}`;
+          const accessCheck = await validateQueryAccess(
             ctx.userId,
             ctx.isAdmin,
-            database,
-            table,
+            ctx.permissions,
+            sampleSql,
+            ctx.defaultDatabase,
             ctx.connectionId
           );
-          if (!hasAccess) {
+          if (!accessCheck.allowed) {
             return {
-              error: `Access denied to table '${database}.${table}'`,
+              error: accessCheck.reason || `Access denied to table '${database}.${table}'`,
             };
           }
-          const result = await ctx.clickhouseService.executeQuery(
-            `SELECT * FROM ${database}.${table} LIMIT 5`,
-            "JSON"
+          const result = applyColumnMasks(
+            await runUserQuery(ctx, `${sampleSql} LIMIT 5`, accessCheck.rowFilters),
+            accessCheck.columnMasks ?? []
           );
           return {
             database,
@@ -499,9 +530,9 @@ export function createCoreTools(ctx: AgentToolContext) {
                         limitedSql = `${cleanedSql} LIMIT 100`;
                     }
 
-          const result = await ctx.clickhouseService.executeQuery(
-            limitedSql,
-            "JSON"
+          const result = applyColumnMasks(
+            await runUserQuery(ctx, limitedSql, accessCheck.rowFilters),
+            accessCheck.columnMasks ?? []
           );
           return {
             columns: result.meta,
@@ -787,27 +818,39 @@ export function createCoreTools(ctx: AgentToolContext) {
       },
     }),
 
-    // 15. Export query result as CSV or JSON string
+    // 15. Export query result inline (CSV/JSON) or as a download link (any export format)
     export_query_result: createAgentTool("export_query_result", {
       description:
-        "Run a read-only SELECT query and return the result as a CSV or JSON string. Use when the user explicitly asks to export, download, or get data as CSV/JSON. Limited to 1000 rows. NEVER include a FORMAT clause in the sql — the format parameter controls output format instead.",
+        "Run a read-only SELECT query and export the result. Use when the user explicitly asks to export or download data. csv and json return the data inline (limited to 1000 rows). tsv, ndjson, parquet, arrow and xlsx, any compression, or download=true return a single-use downloadUrl (valid 15 minutes, full result) instead: give it to the user as a markdown link. NEVER include a FORMAT clause in the sql — the format parameter controls output format instead.",
       inputSchema: zodSchema(
         z.object({
           sql: z
             .string()
             .describe("The SQL SELECT query to execute"),
           format: z
-            .enum(["csv", "json"])
+            .enum(["csv", "json", "tsv", "ndjson", "parquet", "arrow", "xlsx"])
             .optional()
             .describe("Output format (default: csv)"),
+          compression: z
+            .enum(["none", "gzip", "zstd"])
+            .optional()
+            .describe("Compress the downloaded file (default: none)"),
+          download: z
+            .boolean()
+            .optional()
+            .describe("Return a download link even for csv/json (use for large results)"),
         })
       ),
         execute: async ({
         sql: actualSql,
         format = "csv",
+        compression = "none",
+        download = false,
       }: {
         sql: string;
-        format?: "csv" | "json";
+        format?: "csv" | "json" | ExportFormat;
+        compression?: ExportCompression;
+        download?: boolean;
       }): Promise<Record<string, unknown>> => {
         if (!actualSql?.trim()) {
           return { error: "No SQL query provided." };
@@ -824,6 +867,38 @@ export function createCoreTools(ctx: AgentToolContext) {
         ) {
           return { error: "Only SELECT and WITH queries are allowed." };
         }
+        if (download || compression !== "none" || (format !== "csv" && format !== "json")) {
+          try {
+            const spec = await prepareExport(
+              {
+                userId: ctx.userId,
+                isAdmin: ctx.isAdmin,
+                permissions: ctx.permissions,
+                defaultDatabase: ctx.defaultDatabase,
+                connectionId: ctx.connectionId,
+              },
+              { query: cleanedSql, format: format === "json" ? "ndjson" : format, compression }
+            );
+            assertExportable(spec);
+            const { token, expiresAt } = createExportLink({
+              spec,
+              service: ctx.clickhouseService,
+              userId: ctx.userId,
+              connectionId: ctx.connectionId,
+            });
+            return {
+              format: spec.format,
+              compression,
+              downloadUrl: `/api/exports/${token}`,
+              expiresAt: new Date(expiresAt).toISOString(),
+            };
+          } catch (error: unknown) {
+            return {
+              error:
+                error instanceof Error ? error.message : "Export failed",
+            };
+          }
+        }
         const accessCheck = await validateQueryAccess(
           ctx.userId,
           ctx.isAdmin,
@@ -840,9 +915,9 @@ export function createCoreTools(ctx: AgentToolContext) {
           if (!/\bLIMIT\b/i.test(cleanedSql)) {
             limitedSql = `${cleanedSql} LIMIT 1000`;
           }
-          const result = await ctx.clickhouseService.executeQuery(
-            limitedSql,
-            "JSON"
+          const result = applyColumnMasks(
+            await runUserQuery(ctx, limitedSql, accessCheck.rowFilters),
+            accessCheck.columnMasks ?? []
           );
           const rows = result.data as Record<string, unknown>[];
           if (format === "json") {
@@ -1060,9 +1135,9 @@ export function createChartTool(ctx: AgentToolContext) {
             chartSql = `${cleanedSql} LIMIT ${limit}`;
           }
 
-          const result = await ctx.clickhouseService.executeQuery(
-            chartSql,
-            "JSON"
+          const result = applyColumnMasks(
+            await runUserQuery(ctx, chartSql, accessCheck.rowFilters),
+            accessCheck.columnMasks ?? []
           );
 
           let columns: { name: string; type: string }[] = (
@@ -30,6 +30,7 @@ import type {
   StructuredCapability,
 } from "./types";
 import type { AiConfigWithKey } from "../../rbac/services/aiModels";
+import { aiInvocations } from "../prometheus";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const SERVER_SRC_ROOT = path.resolve(__dirname, "../..");
@@ -312,7 +313,10 @@ export async function runStructuredCapability<TInput, TPrepared, TParsed, TOutpu
   try {
     const prepared = await cap.prepare(input, ctx);
     const cached = await cap.cachedResult?.(prepared, ctx);
-    if (cached !== undefined) return cached;
+    if (cached !== undefined) {
+      aiInvocations.inc({ capability: cap.id, outcome: "cached" });
+      return cached;
+    }
 
     const { model, config, label } = await resolveDeepAgentModel(ctx.modelId);
     const invokedToolCalls: InvokedToolCall[] = [];
@@ -369,8 +373,10 @@ export async function runStructuredCapability<TInput, TPrepared, TParsed, TOutpu
 
     const output = await cap.finalize(parsed, prepared, ctx, meta);
     await cap.cacheResult?.(output, prepared, ctx);
+    aiInvocations.inc({ capability: cap.id, outcome: "success" });
     return output;
   } catch (error) {
+    aiInvocations.inc({ capability: cap.id, outcome: "error" });
     if (cap.softFail) return cap.softFail(error);
     handleAiError(error, `AI:${cap.id}`);
   }
@@ -394,13 +400,20 @@ export async function invokeCapabilityAgent<TInput>(
   const instructions = await cap.instructions(ctx);
   const agent = createAgent(model, tools, instructions);
   const overrides = runtimeOverrides(config);
-  const result = await agent.invoke(
-    { messages: normalizeMessages(messages) },
-    {
-      recursionLimit: overrides.recursionLimit ?? recursionLimitFor(cap.tuning?.stopAtSteps ?? 12),
-      signal: runSignal(overrides.runTimeoutMs ?? CHAT_RUN_TIMEOUT_MS, signal),
-    },
-  );
+  let result: Awaited<ReturnType<typeof agent.invoke>>;
+  try {
+    result = await agent.invoke(
+      { messages: normalizeMessages(messages) },
+      {
+        recursionLimit: overrides.recursionLimit ?? recursionLimitFor(cap.tuning?.stopAtSteps ?? 12),
+        signal: runSignal(overrides.runTimeoutMs ?? CHAT_RUN_TIMEOUT_MS, signal),
+      },
+    );
+  } catch (error) {
+    aiInvocations.inc({ capability: cap.id, outcome: "error" });
+    throw error;
+  }
+  aiInvocations.inc({ capability: cap.id, outcome: "success" });
   return { content: finalTextFromState(result), toolCalls };
 }
 
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { sendChannelMessage, sendChannelResolve, sendChannelTest } from "./deliver";
+import { AlertSeverity, ChannelType } from "./types";
+
+interface Call {
+  url: string;
+  auth: string | null;
+  body: Record<string, unknown>;
+}
+
+let calls: Call[] = [];
+let status = 202;
+const realFetch = globalThis.fetch;
+
+beforeEach(() => {
+  calls = [];
+  status = 202;
+  globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const headers = new Headers(init?.headers);
+    calls.push({
+      url: input instanceof URL ? input.toString() : String(input),
+      auth: headers.get("Authorization"),
+      body: JSON.parse(String(init?.body ?? "{}")) as Record<string, unknown>,
+    });
+    return new Response("{}", { status });
+  }) as typeof fetch;
+});
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+const routingKey = "a".repeat(32);
+
+describe("alerting deliver — PagerDuty", () => {
+  it("triggers and resolves on the same dedup key", async () => {
+    await sendChannelMessage(ChannelType.PagerDuty, { routingKey }, {
+      title: "🔴 prod — memory alert",
+      text: "92% used",
+      severity: AlertSeverity.Critical,
+      dedupKey: "rule1:conn1:memory",
+    });
+    await sendChannelResolve(ChannelType.PagerDuty, { routingKey }, { dedupKey: "rule1:conn1:memory", title: "✅ Resolved", text: "" });
+
+    expect(calls.map((c) => c.url)).toEqual([
+      "https://events.pagerduty.com/v2/enqueue",
+      "https://events.pagerduty.com/v2/enqueue",
+    ]);
+    expect(calls[0].body).toMatchObject({
+      routing_key: routingKey,
+      event_action: "trigger",
+      dedup_key: "rule1:conn1:memory",
+      payload: { summary: "🔴 prod — memory alert", severity: "critical", source: "chouse-ui" },
+    });
+    expect(calls[1].body).toEqual({ routing_key: routingKey, event_action: "resolve", dedup_key: "rule1:conn1:memory" });
+  });
+
+  it("fails when the routing key is missing or the API rejects the event", async () => {
+    await expect(sendChannelMessage(ChannelType.PagerDuty, {}, { title: "t", text: "x" })).rejects.toThrow(
+      "PagerDuty routing key is not set",
+    );
+    status = 400;
+    await expect(sendChannelMessage(ChannelType.PagerDuty, { routingKey }, { title: "t", text: "x" })).rejects.toThrow("HTTP 400");
+  });
+});
+
+describe("alerting deliver — Opsgenie", () => {
+  it("creates an alert aliased by the dedup key and closes it by alias in the chosen region", async () => {
+    await sendChannelMessage(ChannelType.Opsgenie, { apiKey: "key-1", region: "eu" }, {
+      title: "x".repeat(200),
+      text: "details",
+      severity: AlertSeverity.Warning,
+      dedupKey: "rule1:conn 1",
+    });
+    await sendChannelResolve(ChannelType.Opsgenie, { apiKey: "key-1", region: "eu" }, {
+      dedupKey: "rule1:conn 1",
+      title: "✅ Resolved",
+      text: "",
+    });
+
+    expect(calls[0].url).toBe("https://api.eu.opsgenie.com/v2/alerts");
+    expect(calls[0].auth).toBe("GenieKey key-1");
+    expect(calls[0].body).toMatchObject({ alias: "rule1:conn 1", priority: "P3", description: "details" });
+    expect(String(calls[0].body.message)).toHaveLength(130);
+    expect(calls[1].url).toBe("https://api.eu.opsgenie.com/v2/alerts/rule1%3Aconn%201/close?identifierType=alias");
+    expect(calls[1].auth).toBe("GenieKey key-1");
+  });
+
+  it("test opens and closes a throwaway alert", async () => {
+    await sendChannelTest(ChannelType.Opsgenie, { apiKey: "key-1" });
+    expect(calls).toHaveLength(2);
+    expect(calls[0].url).toBe("https://api.opsgenie.com/v2/alerts");
+    const alias = String(calls[0].body.alias);
+    expect(alias).toStartWith("chouse-ui-test-");
+    expect(calls[1].url).toBe(`https://api.opsgenie.com/v2/alerts/${encodeURIComponent(alias)}/close?identifierType=alias`);
+  });
+});
+
+describe("alerting deliver — chat channels", () => {
+  it("posts plain text to the Telegram bot API", async () => {
+    await sendChannelMessage(ChannelType.Telegram, { botToken: "123:abc", chatId: "-100200" }, { title: "Title", text: "Body" });
+    expect(calls[0].url).toBe("https://api.telegram.org/bot123:abc/sendMessage");
+    expect(calls[0].body).toMatchObject({ chat_id: "-100200", text: "Title\n\nBody" });
+  });
+
+  it("formats Teams as an Adaptive Card and Discord as an embed", async () => {
+    await sendChannelMessage(ChannelType.Teams, { webhookUrl: "https://teams.example/hook" }, { title: "T", text: "B" });
+    await sendChannelMessage(ChannelType.Discord, { webhookUrl: "https://discord.example/hook" }, {
+      title: "T",
+      text: "B",
+      severity: AlertSeverity.Critical,
+    });
+    const attachments = calls[0].body.attachments as Array<{ contentType: string }>;
+    expect(attachments[0].contentType).toBe("application/vnd.microsoft.card.adaptive");
+    expect(calls[1].body).toMatchObject({ content: "T", embeds: [{ title: "T", description: "B", color: 0xdc2626 }] });
+  });
+
+  it("treats resolve as a no-op for channels without incident state", async () => {
+    expect(await sendChannelResolve(ChannelType.Discord, { webhookUrl: "https://discord.example/hook" }, { dedupKey: "k", title: "t", text: "x" })).toBe(false);
+    expect(calls).toHaveLength(0);
+  });
+});
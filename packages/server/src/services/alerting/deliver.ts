@@ -1,18 +1,63 @@
 /**
- * Alerting deliver — send a test message to a single notification channel.
+ * Alerting deliver — send a message to a single notification channel.
  *
  * Used by the "Send test" action in Admin → Settings → Alerting to verify a
- * channel's config before relying on it. Takes the DECRYPTED channel config.
- * Production breach delivery still flows through fleetAlerter (unchanged).
+ * channel's config before relying on it, and by every evaluator that notifies.
+ * Takes the DECRYPTED channel config. Fleet threshold breaches format Slack,
+ * Google Chat, Email and Webhook themselves (fleetAlerter) and fall back to
+ * sendChannelMessage for the other types.
+ *
+ * PagerDuty and Opsgenie are incident tools rather than chat: a message with a
+ * `dedupKey` triggers (or re-triggers) one incident per key, and
+ * sendChannelResolve closes it when the breach clears.
  */
 
-import { ChannelType } from "./types";
+import { randomUUID } from "crypto";
+
+import { AlertSeverity, ChannelType } from "./types";
 import { logger } from "../../utils/logger";
 
 const TEST_TITLE = "✅ CHouse UI — alerting test";
 const TEST_TEXT =
   "This is a test message from CHouse UI alerting. If you can read this, the channel is configured correctly.";
 
+const PAGERDUTY_EVENTS_URL = "https://events.pagerduty.com/v2/enqueue";
+const ALERT_SOURCE = "chouse-ui";
+
+/** A notification; `severity` and `dedupKey` only matter to incident tools. */
+export interface ChannelMessage {
+  title: string;
+  text: string;
+  severity?: AlertSeverity;
+  dedupKey?: string;
+}
+
+function clip(value: string, max: number): string {
+  return value.length > max ? `${value.slice(0, max - 1)}…` : value;
+}
+
+function requireString(config: Record<string, unknown>, key: string, what: string): string {
+  const value = typeof config[key] === "string" ? (config[key] as string).trim() : "";
+  if (!value) throw new Error(`${what} is not set`);
+  return value;
+}
+
+function opsgenieBaseUrl(config: Record<string, unknown>): string {
+  return config.region === "eu" ? "https://api.eu.opsgenie.com" : "https://api.opsgenie.com";
+}
+
+const OPSGENIE_PRIORITY: Record<AlertSeverity, string> = {
+  [AlertSeverity.Critical]: "P1",
+  [AlertSeverity.Warning]: "P3",
+  [AlertSeverity.Info]: "P5",
+};
+
+const DISCORD_COLOR: Record<AlertSeverity, number> = {
+  [AlertSeverity.Critical]: 0xdc2626,
+  [AlertSeverity.Warning]: 0xd97706,
+  [AlertSeverity.Info]: 0x2563eb,
+};
+
 async function postJson(url: string, body: unknown, headers?: Record<string, string>): Promise<void> {
   const res = await fetch(url, {
     method: "POST",
@@ -26,16 +71,17 @@ async function postJson(url: string, body: unknown, headers?: Record<string, str
 
 /**
  * Deliver an arbitrary `{title, text}` message to one channel (DECRYPTED config).
- * Reused by the alerting test action and by the Scheduled Queries outbox delivery
- * pass — no per-feature delivery code. Throws with a human-readable message on
+ * Reused by the alerting test action, the Scheduled Queries outbox delivery pass
+ * and change request notifications — no per-feature delivery code. Throws with a human-readable message on
  * failure so the caller can surface/retry it.
  */
 export async function sendChannelMessage(
   type: ChannelType,
   config: Record<string, unknown>,
-  message: { title: string; text: string },
+  message: ChannelMessage,
 ): Promise<boolean> {
   const { title, text } = message;
+  const severity = message.severity ?? AlertSeverity.Warning;
   switch (type) {
     case ChannelType.Slack: {
       const url = String(config.webhookUrl ?? "");
@@ -94,6 +140,82 @@ export async function sendChannelMessage(
       });
       return true;
     }
+    case ChannelType.Teams: {
+      const url = requireString(config, "webhookUrl", "Teams webhook URL");
+      await postJson(url, {
+        type: "message",
+        attachments: [
+          {
+            contentType: "application/vnd.microsoft.card.adaptive",
+            content: {
+              $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+              type: "AdaptiveCard",
+              version: "1.4",
+              body: [
+                {
+                  type: "TextBlock",
+                  text: title,
+                  weight: "Bolder",
+                  size: "Medium",
+                  wrap: true,
+                  color: severity === AlertSeverity.Critical ? "Attention" : "Default",
+                },
+                { type: "TextBlock", text, wrap: true },
+              ],
+            },
+          },
+        ],
+      });
+      return true;
+    }
+    case ChannelType.PagerDuty: {
+      const routingKey = requireString(config, "routingKey", "PagerDuty routing key");
+      await postJson(PAGERDUTY_EVENTS_URL, {
+        routing_key: routingKey,
+        event_action: "trigger",
+        ...(message.dedupKey ? { dedup_key: message.dedupKey } : {}),
+        payload: {
+          summary: clip(title, 1024),
+          source: ALERT_SOURCE,
+          severity,
+          custom_details: { details: text },
+        },
+      });
+      return true;
+    }
+    case ChannelType.Opsgenie: {
+      const apiKey = requireString(config, "apiKey", "Opsgenie API key");
+      await postJson(
+        `${opsgenieBaseUrl(config)}/v2/alerts`,
+        {
+          message: clip(title, 130),
+          ...(message.dedupKey ? { alias: clip(message.dedupKey, 512) } : {}),
+          description: clip(text, 15000),
+          priority: OPSGENIE_PRIORITY[severity],
+          source: ALERT_SOURCE,
+        },
+        { Authorization: `GenieKey ${apiKey}` },
+      );
+      return true;
+    }
+    case ChannelType.Discord: {
+      const url = requireString(config, "webhookUrl", "Discord webhook URL");
+      await postJson(url, {
+        content: clip(title, 2000),
+        embeds: [{ title: clip(title, 256), description: clip(text, 4096), color: DISCORD_COLOR[severity] }],
+      });
+      return true;
+    }
+    case ChannelType.Telegram: {
+      const botToken = requireString(config, "botToken", "Telegram bot token");
+      const chatId = requireString(config, "chatId", "Telegram chat id");
+      await postJson(`https://api.telegram.org/bot${botToken}/sendMessage`, {
+        chat_id: chatId,
+        text: clip(`${title}\n\n${text}`, 4096),
+        disable_web_page_preview: true,
+      });
+      return true;
+    }
     default: {
       logger.error({ module: "AlertingDeliver", type }, "Unknown channel type for message");
       throw new Error(`Unknown channel type: ${type}`);
@@ -101,6 +223,40 @@ export async function sendChannelMessage(
   }
 }
 
+/**
+ * Close the incident a keyed message opened. Only PagerDuty and Opsgenie keep
+ * incident state; every other type is a no-op and returns false.
+ */
+export async function sendChannelResolve(
+  type: ChannelType,
+  config: Record<string, unknown>,
+  message: { dedupKey: string; title: string; text: string },
+): Promise<boolean> {
+  switch (type) {
+    case ChannelType.PagerDuty: {
+      const routingKey = requireString(config, "routingKey", "PagerDuty routing key");
+      await postJson(PAGERDUTY_EVENTS_URL, {
+        routing_key: routingKey,
+        event_action: "resolve",
+        dedup_key: message.dedupKey,
+      });
+      return true;
+    }
+    case ChannelType.Opsgenie: {
+      const apiKey = requireString(config, "apiKey", "Opsgenie API key");
+      const alias = encodeURIComponent(clip(message.dedupKey, 512));
+      await postJson(
+        `${opsgenieBaseUrl(config)}/v2/alerts/${alias}/close?identifierType=alias`,
+        { source: ALERT_SOURCE, note: clip(`${message.title}\n${message.text}`, 25000) },
+        { Authorization: `GenieKey ${apiKey}` },
+      );
+      return true;
+    }
+    default:
+      return false;
+  }
+}
+
 /**
  * Deliver a test message to one channel. Returns true on success; throws with a
  * human-readable message on failure so the route can surface it.
@@ -180,6 +336,20 @@ export async function sendChannelTest(
       });
       return true;
     }
+    case ChannelType.Teams:
+    case ChannelType.Discord:
+    case ChannelType.Telegram:
+      return sendChannelMessage(type, config, { title: TEST_TITLE, text: TEST_TEXT, severity: AlertSeverity.Info });
+    case ChannelType.PagerDuty:
+    case ChannelType.Opsgenie: {
+      // Open and immediately close a throwaway incident, so a test proves both
+      // halves of the pairing without leaving anything for on-call to clean up.
+      const dedupKey = `chouse-ui-test-${randomUUID()}`;
+      const message = { title: TEST_TITLE, text: TEST_TEXT, dedupKey };
+      await sendChannelMessage(type, config, { ...message, severity: AlertSeverity.Info });
+      await sendChannelResolve(type, config, message);
+      return true;
+    }
     default: {
       logger.error({ module: "AlertingDeliver", type }, "Unknown channel type for test");
       throw new Error(`Unknown channel type: ${type}`);
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "bun:test";
+import {
+  dueEscalationStep,
+  isWindowActive,
+  scopeMatches,
+  validateEscalationSteps,
+  validateMaintenanceWindow,
+} from "./policy";
+import { AlertSeverity } from "./types";
+
+const target = { ruleId: "r1", severity: AlertSeverity.Critical, connection: { id: "c1", name: "Prod" } };
+const scope = (over: Record<string, unknown>) => ({ ruleId: null, connection: null, severity: null, ...over });
+
+describe("alert policy scopeMatches", () => {
+  it("matches on every set field and ignores null ones", () => {
+    expect(scopeMatches(scope({}), target)).toBe(true);
+    expect(scopeMatches(scope({ ruleId: "r1", connection: "prod" }), target)).toBe(true);
+    expect(scopeMatches(scope({ connection: "c1", severity: AlertSeverity.Critical }), target)).toBe(true);
+    expect(scopeMatches(scope({ ruleId: "r2" }), target)).toBe(false);
+    expect(scopeMatches(scope({ severity: AlertSeverity.Warning }), target)).toBe(false);
+    expect(scopeMatches(scope({ connection: "prod" }), { ruleId: "r1", severity: AlertSeverity.Critical })).toBe(false);
+  });
+});
+
+describe("alert policy isWindowActive", () => {
+  // Every day 02:00–03:00 UTC.
+  const window = { cronExpr: "0 2 * * *", durationMinutes: 60, timezone: "UTC", enabled: true };
+
+  it("is active for the duration after each fire", () => {
+    expect(isWindowActive(window, Date.UTC(2026, 0, 5, 2, 0))).toBe(true);
+    expect(isWindowActive(window, Date.UTC(2026, 0, 5, 2, 59))).toBe(true);
+    expect(isWindowActive(window, Date.UTC(2026, 0, 5, 3, 0))).toBe(false);
+    expect(isWindowActive(window, Date.UTC(2026, 0, 5, 1, 59))).toBe(false);
+  });
+
+  it("honours the timezone and the enabled flag", () => {
+    const berlin = { ...window, timezone: "Europe/Berlin" };
+    expect(isWindowActive(berlin, Date.UTC(2026, 0, 5, 1, 30))).toBe(true);
+    expect(isWindowActive({ ...window, enabled: false }, Date.UTC(2026, 0, 5, 2, 30))).toBe(false);
+  });
+});
+
+describe("alert policy validation", () => {
+  it("requires a 5-field cron and a bounded duration", () => {
+    expect(validateMaintenanceWindow({ cronExpr: "0 2 * * 6", timezone: "UTC", durationMinutes: 120 })).toBeNull();
+    expect(validateMaintenanceWindow({ cronExpr: "0 0 2 * * 6", timezone: "UTC", durationMinutes: 120 })).toContain("5-field");
+    expect(validateMaintenanceWindow({ cronExpr: "0 2 * * 6", timezone: "UTC", durationMinutes: 0 })).toBe(
+      "Duration must be between 1 minute and 7 days",
+    );
+  });
+
+  it("requires increasing waits and known channels on each escalation step", () => {
+    const known = new Set(["a", "b"]);
+    expect(validateEscalationSteps([{ afterMinutes: 15, channelIds: ["a"] }, { afterMinutes: 60, channelIds: ["b"] }], known)).toBeNull();
+    expect(validateEscalationSteps([{ afterMinutes: 30, channelIds: ["a"] }, { afterMinutes: 30, channelIds: ["b"] }], known)).toBe(
+      "Step 2: must wait longer than the step before it",
+    );
+    expect(validateEscalationSteps([{ afterMinutes: 15, channelIds: [] }], known)).toBe("Step 1: choose at least one channel");
+    expect(validateEscalationSteps([{ afterMinutes: 15, channelIds: ["zzz"] }], known)).toBe("Step 1: unknown channel");
+  });
+});
+
+describe("alert policy dueEscalationStep", () => {
+  const steps = [
+    { id: "s2", ruleId: "r1", position: 2, afterMinutes: 60, channelIds: ["b"] },
+    { id: "s1", ruleId: "r1", position: 1, afterMinutes: 15, channelIds: ["a"] },
+  ];
+  const firedAt = Date.UTC(2026, 0, 5, 12, 0);
+
+  it("takes the next step once its wait has passed", () => {
+    expect(dueEscalationStep({ firedAt, escalationLevel: 0 }, steps, firedAt + 14 * 60_000)).toBeNull();
+    expect(dueEscalationStep({ firedAt, escalationLevel: 0 }, steps, firedAt + 15 * 60_000)?.id).toBe("s1");
+    expect(dueEscalationStep({ firedAt, escalationLevel: 1 }, steps, firedAt + 30 * 60_000)).toBeNull();
+    expect(dueEscalationStep({ firedAt, escalationLevel: 1 }, steps, firedAt + 61 * 60_000)?.id).toBe("s2");
+    expect(dueEscalationStep({ firedAt, escalationLevel: 2 }, steps, firedAt + 600 * 60_000)).toBeNull();
+  });
+});
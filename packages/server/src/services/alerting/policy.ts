@@ -0,0 +1,231 @@
+/**
+ * Alert policy — silences, maintenance windows and escalation.
+ *
+ * Every evaluator (fleet thresholds, query governor, dictionaries, custom SQL,
+ * backup failures) asks findSuppression() before delivering a new breach. A
+ * match is still recorded in alert_events, with `suppressed_by` naming the
+ * silence or window, but nothing is sent. A silence is a one-off time range; a
+ * maintenance window is active for `durationMinutes` after each fire of its
+ * cron expression. Both are scoped by rule, connection and severity.
+ *
+ * escalationTick() runs after each fleet poll. A keyed event that is still
+ * open (not resolved by its evaluator), unacknowledged and unsuppressed moves
+ * to its rule's next escalation step once it has been open for that step's
+ * `afterMinutes`, and is re-sent to the step's channels; a snoozed incident
+ * holds it until the snooze ends. Breach latches live in
+ * memory, so events fired before this process started are never escalated —
+ * their evaluator can no longer resolve them.
+ *
+ * resolveAlert() is how evaluators report a breach clearing: it resolves the
+ * key's incident, closes its open events and sends a resolve to the
+ * PagerDuty/Opsgenie channels the breach reached, so their incidents close with it.
+ */
+
+import { Cron } from "croner";
+
+import { isValidTimeZone, validateCron } from "../scheduledQueries/cadence";
+import { logger } from "../../utils/logger";
+import * as store from "./store";
+import { sendChannelMessage, sendChannelResolve } from "./deliver";
+import { ChannelType } from "./types";
+import type { AlertScope, AlertSeverity, EscalationStepRow, MaintenanceWindowRow } from "./types";
+
+const PROCESS_STARTED_AT = Date.now();
+const MAX_ESCALATION_STEPS = 5;
+const MAX_WINDOW_MINUTES = 7 * 24 * 60;
+
+/** The alert a suppression check is made for. */
+export interface AlertTarget {
+  ruleId: string | null;
+  severity: AlertSeverity;
+  connection?: { id: string; name: string };
+}
+
+/** True when every non-null field of `scope` matches the alert. */
+export function scopeMatches(scope: AlertScope, target: AlertTarget): boolean {
+  if (scope.ruleId && scope.ruleId !== target.ruleId) return false;
+  if (scope.severity && scope.severity !== target.severity) return false;
+  if (scope.connection) {
+    const wanted = scope.connection.trim().toLowerCase();
+    const conn = target.connection;
+    if (!conn || (conn.id.toLowerCase() !== wanted && conn.name.toLowerCase() !== wanted)) return false;
+  }
+  return true;
+}
+
+/** True when the window's most recent start is within `durationMinutes` of `nowMs`. */
+export function isWindowActive(
+  window: Pick<MaintenanceWindowRow, "cronExpr" | "durationMinutes" | "timezone" | "enabled">,
+  nowMs: number,
+): boolean {
+  if (!window.enabled || window.durationMinutes <= 0) return false;
+  try {
+    const cron = new Cron(window.cronExpr, { timezone: isValidTimeZone(window.timezone) ? window.timezone : "UTC" });
+    // Probe 1s ahead so a window starting exactly now counts.
+    const [start] = cron.previousRuns(1, new Date(nowMs + 1000));
+    if (!start) return false;
+    const startMs = start.getTime();
+    return startMs <= nowMs && nowMs < startMs + window.durationMinutes * 60_000;
+  } catch {
+    return false;
+  }
+}
+
+/** Why a maintenance window can't be saved, or null when it can. */
+export function validateMaintenanceWindow(input: { cronExpr: string; timezone: string; durationMinutes: number }): string | null {
+  const cron = validateCron(input.cronExpr, input.timezone);
+  if (!cron.valid) return cron.error ?? "Invalid cron expression";
+  if (!Number.isInteger(input.durationMinutes) || input.durationMinutes < 1 || input.durationMinutes > MAX_WINDOW_MINUTES) {
+    return "Duration must be between 1 minute and 7 days";
+  }
+  return null;
+}
+
+/** Why a rule's escalation steps can't be saved, or null when they can. */
+export function validateEscalationSteps(
+  steps: Array<{ afterMinutes: number; channelIds: string[] }>,
+  knownChannelIds: Set<string>,
+): string | null {
+  if (steps.length > MAX_ESCALATION_STEPS) return `At most ${MAX_ESCALATION_STEPS} escalation steps are allowed`;
+  let previous = 0;
+  for (const [i, step] of steps.entries()) {
+    if (!Number.isInteger(step.afterMinutes) || step.afterMinutes < 1) {
+      return `Step ${i + 1}: wait at least 1 minute`;
+    }
+    if (step.afterMinutes <= previous) {
+      return `Step ${i + 1}: must wait longer than the step before it`;
+    }
+    if (step.channelIds.length === 0) return `Step ${i + 1}: choose at least one channel`;
+    if (step.channelIds.some((id) => !knownChannelIds.has(id))) return `Step ${i + 1}: unknown channel`;
+    previous = step.afterMinutes;
+  }
+  return null;
+}
+
+/**
+ * The escalation step an open event is due for, or null. Steps are taken in
+ * order, one per call, so an event that missed several steps catches up over
+ * consecutive ticks.
+ */
+export function dueEscalationStep(
+  event: Pick<store.AlertEvent, "firedAt" | "escalationLevel">,
+  steps: EscalationStepRow[],
+  nowMs: number,
+): EscalationStepRow | null {
+  const next = [...steps].sort((a, b) => a.position - b.position)[event.escalationLevel];
+  if (!next) return null;
+  return nowMs - event.firedAt >= next.afterMinutes * 60_000 ? next : null;
+}
+
+/**
+ * The name of the silence or maintenance window muting this alert right now,
+ * or null when it should be delivered. Never throws — on a read error the alert
+ * is delivered.
+ */
+export async function findSuppression(target: AlertTarget, nowMs = Date.now()): Promise<string | null> {
+  try {
+    const silence = (await store.listActiveSilences(nowMs)).find((s) => scopeMatches(s, target));
+    if (silence) return `silence: ${silence.name}`;
+    const window = (await store.listMaintenanceWindows()).find((w) => scopeMatches(w, target) && isWindowActive(w, nowMs));
+    if (window) return `maintenance: ${window.name}`;
+    return null;
+  } catch (err) {
+    logger.error({ module: "AlertPolicy", err: err instanceof Error ? err.message : String(err) }, "Suppression check failed");
+    return null;
+  }
+}
+
+/**
+ * Re-notify open, unacknowledged breaches that reached their rule's next
+ * escalation step. Called by the fleet poller after each tick; never throws.
+ */
+export async function escalationTick(connections: { id: string; name: string }[]): Promise<void> {
+  try {
+    const steps = await store.listEscalationSteps();
+    if (steps.length === 0) return;
+    const stepsByRule = new Map<string, EscalationStepRow[]>();
+    for (const step of steps) stepsByRule.set(step.ruleId, [...(stepsByRule.get(step.ruleId) ?? []), step]);
+
+    const rules = new Map((await store.listRules()).map((r) => [r.id, r]));
+    const nameById = new Map(connections.map((c) => [c.id, c.name]));
+    const now = Date.now();
+    const snoozed = await store.listSnoozedIncidentKeys(now);
+
+    for (const event of await store.listEscalationCandidates(PROCESS_STARTED_AT)) {
+      if (event.dedupKey && snoozed.has(event.dedupKey)) continue;
+      const rule = event.ruleId ? rules.get(event.ruleId) : undefined;
+      if (!rule || !rule.enabled) continue;
+      const step = dueEscalationStep(event, stepsByRule.get(rule.id) ?? [], now);
+      if (!step) continue;
+
+      const connection = event.connectionId
+        ? { id: event.connectionId, name: nameById.get(event.connectionId) ?? event.connectionId }
+        : undefined;
+      // A silence added after the breach fired holds escalation until it ends.
+      if (await findSuppression({ ruleId: rule.id, severity: rule.severity, connection }, now)) continue;
+
+      const minutes = Math.floor((now - event.firedAt) / 60_000);
+      const title = `⏫ Escalated (step ${step.position}) — ${rule.name}`;
+      const text = `${event.payload ?? "Alert"}\nStill open and unacknowledged after ${minutes} min.`;
+      const channels = await store.getChannelsDecrypted(step.channelIds);
+      await Promise.allSettled(
+        channels.map(({ row, config }) =>
+          sendChannelMessage(row.type, config, {
+            title,
+            text,
+            severity: rule.severity,
+            dedupKey: event.dedupKey ?? undefined,
+          }).catch((err) =>
+            logger.error({ module: "AlertPolicy", channel: row.type, name: row.name, err: String(err) }, "Channel delivery failed"),
+          ),
+        ),
+      );
+      await store.markEscalated(event, step.position, channels.map(({ row }) => row.name));
+      logger.info({ module: "AlertPolicy", eventId: event.id, ruleId: rule.id, step: step.position }, "Alert escalated");
+    }
+  } catch (err) {
+    logger.error({ module: "AlertPolicy", err: err instanceof Error ? err.message : String(err) }, "escalationTick failed");
+  }
+}
+
+const INCIDENT_CHANNEL_TYPES = new Set<ChannelType>([ChannelType.PagerDuty, ChannelType.Opsgenie]);
+
+/**
+ * Resolve a breach key's incident and every open event for it, and close the
+ * matching incidents in PagerDuty/Opsgenie — on the rule's channels and on any escalation step
+ * the event reached. Muted events were never sent, so nothing is closed for
+ * them. Never throws.
+ */
+export async function resolveAlert(dedupKey: string): Promise<void> {
+  try {
+    await store.resolveIncident(dedupKey);
+    const resolved = await store.resolveEvents(dedupKey);
+    const delivered = resolved.filter((e) => e.ruleId && !e.suppressedBy);
+    if (delivered.length === 0) return;
+
+    const channelIds = new Set<string>();
+    for (const event of delivered) {
+      const ruleId = event.ruleId as string;
+      for (const id of await store.getRuleChannelIds(ruleId)) channelIds.add(id);
+      for (const step of await store.getEscalationSteps(ruleId)) {
+        if (step.position <= event.escalationLevel) step.channelIds.forEach((id) => channelIds.add(id));
+      }
+    }
+    const channels = (await store.getChannelsDecrypted([...channelIds])).filter(({ row }) =>
+      INCIDENT_CHANNEL_TYPES.has(row.type),
+    );
+    if (channels.length === 0) return;
+
+    const title = "✅ Resolved";
+    const text = delivered[0].payload ?? "The breach cleared.";
+    await Promise.allSettled(
+      channels.map(({ row, config }) =>
+        sendChannelResolve(row.type, config, { dedupKey, title, text }).catch((err) =>
+          logger.error({ module: "AlertPolicy", channel: row.type, name: row.name, err: String(err) }, "Channel resolve failed"),
+        ),
+      ),
+    );
+  } catch (err) {
+    logger.error({ module: "AlertPolicy", err: err instanceof Error ? err.message : String(err) }, "resolveAlert failed");
+  }
+}
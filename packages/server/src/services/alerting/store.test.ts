@@ -0,0 +1,90 @@
+/**
+ * Alerting store — fleet alert incident lifecycle (SQLite in-memory).
+ */
+import { describe, it, expect, beforeEach, afterAll } from "bun:test";
+import { closeDatabase } from "../../rbac/db";
+import { runMigrations } from "../../rbac/db/migrations";
+import { freshDatabase } from "../../rbac/db/migrationTestHarness";
+import {
+  acknowledgeIncident,
+  addIncidentNote,
+  getEvent,
+  listEvents,
+  listIncidentEvents,
+  listIncidents,
+  listSnoozedIncidentKeys,
+  openIncident,
+  recordEvent,
+  resolveIncident,
+  snoozeIncident,
+} from "./store";
+import { AlertSeverity } from "./types";
+
+afterAll(async () => {
+  await closeDatabase();
+});
+
+const breach = {
+  dedupKey: "rule-1:conn-1:memory",
+  ruleId: "rule-1",
+  connectionId: "conn-1",
+  severity: AlertSeverity.Critical,
+  summary: "prod — memory: 92%",
+};
+
+describe("alerting store incidents", () => {
+  beforeEach(async () => {
+    await freshDatabase("sqlite");
+    await runMigrations({ skipSeed: true });
+  });
+
+  it("opens one incident per breach key and resolves it on recovery", async () => {
+    const opened = await openIncident(breach);
+    expect(opened.status).toBe("open");
+
+    // A re-latched breach (process restart) refreshes the active incident.
+    const again = await openIncident({ ...breach, summary: "prod — memory: 95%" });
+    expect(again.id).toBe(opened.id);
+    expect(again.summary).toBe("prod — memory: 95%");
+    expect(await listIncidents()).toHaveLength(1);
+
+    const resolved = await resolveIncident(breach.dedupKey);
+    expect(resolved?.status).toBe("resolved");
+    expect(resolved?.resolvedBy).toBeNull();
+    expect(await listIncidents()).toHaveLength(0);
+    expect(await listIncidents({ includeResolved: true })).toHaveLength(1);
+    expect(await resolveIncident(breach.dedupKey)).toBeNull();
+
+    expect((await listIncidentEvents(opened.id)).map((e) => e.type)).toEqual(["opened", "refired", "resolved"]);
+    expect((await openIncident(breach)).id).not.toBe(opened.id);
+  });
+
+  it("acknowledging stops escalation of the breach's open events", async () => {
+    await recordEvent({ ruleId: "rule-1", severity: AlertSeverity.Critical, payload: "x", deliveredTo: ["ops"], dedupKey: breach.dedupKey });
+    const incident = await openIncident(breach);
+
+    const acked = await acknowledgeIncident(incident.id, "user-1");
+    expect(acked).toMatchObject({ status: "acknowledged", acknowledgedBy: "user-1" });
+    const [event] = await listEvents();
+    expect((await getEvent(event.id))?.acknowledgedBy).toBe("user-1");
+  });
+
+  it("snoozes, takes notes and keeps the timeline in order", async () => {
+    const incident = await openIncident(breach);
+    const until = Date.now() + 60 * 60 * 1000;
+
+    expect((await snoozeIncident(incident.id, "user-1", until))?.snoozedUntil).toBe(until);
+    expect(await listSnoozedIncidentKeys(Date.now())).toEqual(new Set([breach.dedupKey]));
+    expect(await listSnoozedIncidentKeys(until + 1)).toEqual(new Set());
+
+    await addIncidentNote(incident.id, "user-2", "Killed the runaway query");
+    const resolved = await resolveIncident(breach.dedupKey, "user-2");
+    expect(resolved?.resolvedBy).toBe("user-2");
+    // Resolved incidents can't be acknowledged or snoozed.
+    expect((await acknowledgeIncident(incident.id, "user-1"))?.status).toBe("resolved");
+
+    const timeline = await listIncidentEvents(incident.id);
+    expect(timeline.map((e) => e.type)).toEqual(["opened", "snoozed", "note", "resolved"]);
+    expect(timeline[2]).toMatchObject({ actorId: "user-2", payload: { text: "Killed the runaway query" } });
+  });
+});
@@ -1,6 +1,7 @@
 /**
- * Alerting store — normalized CRUD over the four alerting tables, with
- * AES-256-GCM encryption of channel secrets at rest.
+ * Alerting store — normalized CRUD over the alerting tables (channels, rules,
+ * events, silences, maintenance windows, escalation steps, incidents), with AES-256-GCM
+ * encryption of channel secrets at rest.
  *
  * Secret-bearing JSON keys (per channel type) are encrypted before persist and
  * decrypted only when delivering. The UI never receives plaintext secrets — the
@@ -27,6 +28,13 @@ import {
   isAlertSeverity,
   type NotificationChannelRow,
   type AlertRuleRow,
+  type AlertScope,
+  type AlertSilenceRow,
+  type MaintenanceWindowRow,
+  type EscalationStepRow,
+  type AlertIncidentRow,
+  type AlertIncidentStatus,
+  type AlertIncidentEventRow,
 } from "./types";
 
 // --- dialect-aware low-level helpers ----------------------------------------
@@ -53,6 +61,15 @@ async function run(stmt: ReturnType<typeof sql>): Promise<void> {
 
 const bool = (v: unknown): boolean => Number(v) === 1;
 
+function jsonList(v: unknown): string[] {
+  try {
+    const parsed = JSON.parse(String(v ?? "[]"));
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
 // --- secret-field handling --------------------------------------------------
 
 /** JSON keys whose values are secrets (encrypted at rest) per channel type. */
@@ -61,6 +78,11 @@ const SECRET_KEYS: Record<ChannelType, string[]> = {
   [ChannelType.GoogleChat]: ["webhookUrl"],
   [ChannelType.Webhook]: ["secret"],
   [ChannelType.Email]: ["password"],
+  [ChannelType.Teams]: ["webhookUrl"],
+  [ChannelType.PagerDuty]: ["routingKey"],
+  [ChannelType.Opsgenie]: ["apiKey"],
+  [ChannelType.Discord]: ["webhookUrl"],
+  [ChannelType.Telegram]: ["botToken"],
 };
 
 /**
@@ -133,6 +155,7 @@ function toChannelRow(r: Record<string, unknown>): NotificationChannelRow {
     type: isChannelType(type) ? type : ChannelType.Webhook,
     config: String(r.config ?? "{}"),
     enabled: bool(r.enabled),
+    messageTemplate: r.message_template == null ? null : String(r.message_template),
     createdBy: r.created_by == null ? null : String(r.created_by),
     createdAt: Number(r.created_at ?? 0),
     updatedAt: Number(r.updated_at ?? 0),
@@ -151,11 +174,60 @@ function toRuleRow(r: Record<string, unknown>): AlertRuleRow {
     enabled: bool(r.enabled),
     aiRcaEnabled: bool(r.ai_rca_enabled),
     aiRcaModelId: r.ai_rca_model_id == null ? null : String(r.ai_rca_model_id),
+    messageTemplate: r.message_template == null ? null : String(r.message_template),
+    ownerId: r.owner_id == null ? null : String(r.owner_id),
+    createdAt: Number(r.created_at ?? 0),
+    updatedAt: Number(r.updated_at ?? 0),
+  };
+}
+
+function toScope(r: Record<string, unknown>): AlertScope {
+  const severity = r.severity == null ? null : String(r.severity);
+  return {
+    ruleId: r.rule_id == null ? null : String(r.rule_id),
+    connection: r.connection == null ? null : String(r.connection),
+    severity: isAlertSeverity(severity) ? severity : null,
+  };
+}
+
+function toSilenceRow(r: Record<string, unknown>): AlertSilenceRow {
+  return {
+    id: String(r.id),
+    name: String(r.name),
+    ...toScope(r),
+    startsAt: Number(r.starts_at ?? 0),
+    endsAt: Number(r.ends_at ?? 0),
+    comment: r.comment == null ? null : String(r.comment),
+    createdBy: r.created_by == null ? null : String(r.created_by),
+    createdAt: Number(r.created_at ?? 0),
+  };
+}
+
+function toWindowRow(r: Record<string, unknown>): MaintenanceWindowRow {
+  return {
+    id: String(r.id),
+    name: String(r.name),
+    ...toScope(r),
+    cronExpr: String(r.cron_expr),
+    durationMinutes: Number(r.duration_minutes ?? 0),
+    timezone: String(r.timezone ?? "UTC"),
+    enabled: bool(r.enabled),
+    createdBy: r.created_by == null ? null : String(r.created_by),
     createdAt: Number(r.created_at ?? 0),
     updatedAt: Number(r.updated_at ?? 0),
   };
 }
 
+function toStepRow(r: Record<string, unknown>): EscalationStepRow {
+  return {
+    id: String(r.id),
+    ruleId: String(r.rule_id),
+    position: Number(r.position ?? 0),
+    afterMinutes: Number(r.after_minutes ?? 0),
+    channelIds: jsonList(r.channel_ids),
+  };
+}
+
 // --- channels ---------------------------------------------------------------
 
 export async function listChannels(): Promise<NotificationChannelRow[]> {
@@ -173,6 +245,8 @@ export interface ChannelInput {
   type: ChannelType;
   config: Record<string, unknown>;
   enabled: boolean;
+  /** Omitted = keep the current template; null clears it. */
+  messageTemplate?: string | null;
 }
 
 export async function createChannel(input: ChannelInput, createdBy?: string): Promise<string> {
@@ -180,8 +254,8 @@ export async function createChannel(input: ChannelInput, createdBy?: string): Pr
   const now = Date.now();
   const config = JSON.stringify(encryptChannelConfig(input.type, input.config));
   await run(sql`
-    INSERT INTO notification_channels (id, name, type, config, enabled, created_by, created_at, updated_at)
-    VALUES (${id}, ${input.name}, ${input.type}, ${config}, ${input.enabled ? 1 : 0}, ${createdBy ?? null}, ${now}, ${now})
+    INSERT INTO notification_channels (id, name, type, config, enabled, message_template, created_by, created_at, updated_at)
+    VALUES (${id}, ${input.name}, ${input.type}, ${config}, ${input.enabled ? 1 : 0}, ${input.messageTemplate ?? null}, ${createdBy ?? null}, ${now}, ${now})
   `);
   return id;
 }
@@ -191,10 +265,12 @@ export async function updateChannel(id: string, input: ChannelInput): Promise<bo
   if (!existing) return false;
   const prev = JSON.parse(existing.config) as Record<string, unknown>;
   const config = JSON.stringify(encryptChannelConfig(input.type, input.config, prev));
+  const messageTemplate = input.messageTemplate === undefined ? existing.messageTemplate : input.messageTemplate;
   const now = Date.now();
   await run(sql`
     UPDATE notification_channels
-    SET name = ${input.name}, type = ${input.type}, config = ${config}, enabled = ${input.enabled ? 1 : 0}, updated_at = ${now}
+    SET name = ${input.name}, type = ${input.type}, config = ${config}, enabled = ${input.enabled ? 1 : 0},
+        message_template = ${messageTemplate}, updated_at = ${now}
     WHERE id = ${id}
   `);
   return true;
@@ -251,6 +327,10 @@ export interface RuleUpsert {
   enabled: boolean;
   aiRcaEnabled: boolean;
   aiRcaModelId: string | null;
+  /** Omitted = keep the current template; null clears it. */
+  messageTemplate?: string | null;
+  /** Omitted = keep the current owner. */
+  ownerId?: string | null;
 }
 
 /** Insert-or-update a rule by id (used for the well-known fleet-default rule). */
@@ -259,17 +339,20 @@ export async function upsertRule(input: RuleUpsert): Promise<void> {
   const config = JSON.stringify(input.config);
   const existing = await getRule(input.id);
   if (existing) {
+    const messageTemplate = input.messageTemplate === undefined ? existing.messageTemplate : input.messageTemplate;
+    const ownerId = input.ownerId === undefined ? existing.ownerId : input.ownerId;
     await run(sql`
       UPDATE alert_rules
       SET name = ${input.name}, source_type = ${input.sourceType}, config = ${config},
           severity = ${input.severity}, enabled = ${input.enabled ? 1 : 0},
-          ai_rca_enabled = ${input.aiRcaEnabled ? 1 : 0}, ai_rca_model_id = ${input.aiRcaModelId}, updated_at = ${now}
+          ai_rca_enabled = ${input.aiRcaEnabled ? 1 : 0}, ai_rca_model_id = ${input.aiRcaModelId},
+          message_template = ${messageTemplate}, owner_id = ${ownerId}, updated_at = ${now}
       WHERE id = ${input.id}
     `);
   } else {
     await run(sql`
-      INSERT INTO alert_rules (id, name, source_type, config, severity, enabled, ai_rca_enabled, ai_rca_model_id, created_at, updated_at)
-      VALUES (${input.id}, ${input.name}, ${input.sourceType}, ${config}, ${input.severity}, ${input.enabled ? 1 : 0}, ${input.aiRcaEnabled ? 1 : 0}, ${input.aiRcaModelId}, ${now}, ${now})
+      INSERT INTO alert_rules (id, name, source_type, config, severity, enabled, ai_rca_enabled, ai_rca_model_id, message_template, owner_id, created_at, updated_at)
+      VALUES (${input.id}, ${input.name}, ${input.sourceType}, ${config}, ${input.severity}, ${input.enabled ? 1 : 0}, ${input.aiRcaEnabled ? 1 : 0}, ${input.aiRcaModelId}, ${input.messageTemplate ?? null}, ${input.ownerId ?? null}, ${now}, ${now})
     `);
   }
 }
@@ -282,6 +365,8 @@ export interface RuleCreate {
   enabled: boolean;
   aiRcaEnabled: boolean;
   aiRcaModelId: string | null;
+  messageTemplate?: string | null;
+  ownerId?: string | null;
 }
 
 /** Create a new rule with a generated id. Returns the id. */
@@ -293,6 +378,9 @@ export async function createRule(input: RuleCreate): Promise<string> {
 
 export async function deleteRule(id: string): Promise<void> {
   await run(sql`DELETE FROM alert_rule_channels WHERE rule_id = ${id}`);
+  await run(sql`DELETE FROM alert_escalation_steps WHERE rule_id = ${id}`);
+  await run(sql`DELETE FROM alert_silences WHERE rule_id = ${id}`);
+  await run(sql`DELETE FROM alert_maintenance_windows WHERE rule_id = ${id}`);
   await run(sql`DELETE FROM alert_rules WHERE id = ${id}`);
 }
 
@@ -342,7 +430,13 @@ export async function setRuleChannels(ruleId: string, channelIds: string[]): Pro
 export async function getRuleChannelsDecrypted(
   ruleId: string,
 ): Promise<Array<{ row: NotificationChannelRow; config: Record<string, unknown> }>> {
-  const ids = await getRuleChannelIds(ruleId);
+  return getChannelsDecrypted(await getRuleChannelIds(ruleId));
+}
+
+/** The enabled channels among `ids`, with secrets decrypted (for delivery). */
+export async function getChannelsDecrypted(
+  ids: string[],
+): Promise<Array<{ row: NotificationChannelRow; config: Record<string, unknown> }>> {
   const out: Array<{ row: NotificationChannelRow; config: Record<string, unknown> }> = [];
   for (const id of ids) {
     const row = await getChannel(id);
@@ -353,6 +447,129 @@ export async function getRuleChannelsDecrypted(
   return out;
 }
 
+// --- escalation steps -----------------------------------------------------
+
+export async function getEscalationSteps(ruleId: string): Promise<EscalationStepRow[]> {
+  const rows = await all(sql`SELECT * FROM alert_escalation_steps WHERE rule_id = ${ruleId} ORDER BY position`);
+  return rows.map(toStepRow);
+}
+
+/** Every rule's escalation steps, ordered by rule then position. */
+export async function listEscalationSteps(): Promise<EscalationStepRow[]> {
+  const rows = await all(sql`SELECT * FROM alert_escalation_steps ORDER BY rule_id, position`);
+  return rows.map(toStepRow);
+}
+
+/** Replace a rule's escalation steps with exactly `steps`, numbered in order. */
+export async function setEscalationSteps(
+  ruleId: string,
+  steps: Array<{ afterMinutes: number; channelIds: string[] }>,
+): Promise<void> {
+  await run(sql`DELETE FROM alert_escalation_steps WHERE rule_id = ${ruleId}`);
+  const now = Date.now();
+  for (const [i, step] of steps.entries()) {
+    await run(sql`
+      INSERT INTO alert_escalation_steps (id, rule_id, position, after_minutes, channel_ids, created_at)
+      VALUES (${randomUUID()}, ${ruleId}, ${i + 1}, ${step.afterMinutes}, ${JSON.stringify(step.channelIds)}, ${now})
+    `);
+  }
+}
+
+// --- silences ---------------------------------------------------------------
+
+export interface SilenceInput extends AlertScope {
+  name: string;
+  startsAt: number;
+  endsAt: number;
+  comment: string | null;
+}
+
+export async function listSilences(): Promise<AlertSilenceRow[]> {
+  const rows = await all(sql`SELECT * FROM alert_silences ORDER BY ends_at DESC`);
+  return rows.map(toSilenceRow);
+}
+
+/** Silences whose time range covers `at` (epoch ms). */
+export async function listActiveSilences(at: number): Promise<AlertSilenceRow[]> {
+  const rows = await all(sql`SELECT * FROM alert_silences WHERE starts_at <= ${at} AND ends_at > ${at}`);
+  return rows.map(toSilenceRow);
+}
+
+export async function getSilence(id: string): Promise<AlertSilenceRow | null> {
+  const rows = await all(sql`SELECT * FROM alert_silences WHERE id = ${id} LIMIT 1`);
+  return rows[0] ? toSilenceRow(rows[0]) : null;
+}
+
+export async function createSilence(input: SilenceInput, createdBy?: string): Promise<string> {
+  const id = randomUUID();
+  await run(sql`
+    INSERT INTO alert_silences (id, name, rule_id, connection, severity, starts_at, ends_at, comment, created_by, created_at)
+    VALUES (${id}, ${input.name}, ${input.ruleId}, ${input.connection}, ${input.severity}, ${input.startsAt}, ${input.endsAt}, ${input.comment}, ${createdBy ?? null}, ${Date.now()})
+  `);
+  return id;
+}
+
+export async function updateSilence(id: string, input: SilenceInput): Promise<boolean> {
+  if (!(await getSilence(id))) return false;
+  await run(sql`
+    UPDATE alert_silences
+    SET name = ${input.name}, rule_id = ${input.ruleId}, connection = ${input.connection}, severity = ${input.severity},
+        starts_at = ${input.startsAt}, ends_at = ${input.endsAt}, comment = ${input.comment}
+    WHERE id = ${id}
+  `);
+  return true;
+}
+
+export async function deleteSilence(id: string): Promise<void> {
+  await run(sql`DELETE FROM alert_silences WHERE id = ${id}`);
+}
+
+// --- maintenance windows ----------------------------------------------------
+
+export interface MaintenanceWindowInput extends AlertScope {
+  name: string;
+  cronExpr: string;
+  durationMinutes: number;
+  timezone: string;
+  enabled: boolean;
+}
+
+export async function listMaintenanceWindows(): Promise<MaintenanceWindowRow[]> {
+  const rows = await all(sql`SELECT * FROM alert_maintenance_windows ORDER BY name`);
+  return rows.map(toWindowRow);
+}
+
+export async function getMaintenanceWindow(id: string): Promise<MaintenanceWindowRow | null> {
+  const rows = await all(sql`SELECT * FROM alert_maintenance_windows WHERE id = ${id} LIMIT 1`);
+  return rows[0] ? toWindowRow(rows[0]) : null;
+}
+
+export async function createMaintenanceWindow(input: MaintenanceWindowInput, createdBy?: string): Promise<string> {
+  const id = randomUUID();
+  const now = Date.now();
+  await run(sql`
+    INSERT INTO alert_maintenance_windows (id, name, cron_expr, duration_minutes, timezone, rule_id, connection, severity, enabled, created_by, created_at, updated_at)
+    VALUES (${id}, ${input.name}, ${input.cronExpr}, ${input.durationMinutes}, ${input.timezone}, ${input.ruleId}, ${input.connection}, ${input.severity}, ${input.enabled ? 1 : 0}, ${createdBy ?? null}, ${now}, ${now})
+  `);
+  return id;
+}
+
+export async function updateMaintenanceWindow(id: string, input: MaintenanceWindowInput): Promise<boolean> {
+  if (!(await getMaintenanceWindow(id))) return false;
+  await run(sql`
+    UPDATE alert_maintenance_windows
+    SET name = ${input.name}, cron_expr = ${input.cronExpr}, duration_minutes = ${input.durationMinutes}, timezone = ${input.timezone},
+        rule_id = ${input.ruleId}, connection = ${input.connection}, severity = ${input.severity},
+        enabled = ${input.enabled ? 1 : 0}, updated_at = ${Date.now()}
+    WHERE id = ${id}
+  `);
+  return true;
+}
+
+export async function deleteMaintenanceWindow(id: string): Promise<void> {
+  await run(sql`DELETE FROM alert_maintenance_windows WHERE id = ${id}`);
+}
+
 // --- events -----------------------------------------------------------------
 
 export interface AlertEventInput {
@@ -360,16 +577,26 @@ export interface AlertEventInput {
   severity: AlertSeverity;
   payload: string;
   deliveredTo: string[];
+  /**
+   * Identifies the breach across ticks (the evaluator's latch key). Only keyed
+   * events are resolved on recovery and escalated.
+   */
+  dedupKey?: string;
+  connectionId?: string;
+  /** Name of the silence or maintenance window that muted delivery. */
+  suppressedBy?: string | null;
 }
 
 export async function recordEvent(input: AlertEventInput): Promise<void> {
   const id = randomUUID();
   await run(sql`
-    INSERT INTO alert_events (id, rule_id, severity, fired_at, payload, delivered_to, resolved_at)
-    VALUES (${id}, ${input.ruleId}, ${input.severity}, ${Date.now()}, ${input.payload}, ${JSON.stringify(input.deliveredTo)}, NULL)
+    INSERT INTO alert_events (id, rule_id, severity, fired_at, payload, delivered_to, resolved_at, dedup_key, connection_id, suppressed_by)
+    VALUES (${id}, ${input.ruleId}, ${input.severity}, ${Date.now()}, ${input.payload}, ${JSON.stringify(input.deliveredTo)}, NULL,
+            ${input.dedupKey ?? null}, ${input.connectionId ?? null}, ${input.suppressedBy ?? null})
   `);
 }
 
+
 export interface AlertEvent {
   id: string;
   ruleId: string | null;
@@ -378,6 +605,77 @@ export interface AlertEvent {
   payload: string | null;
   deliveredTo: string[];
   resolvedAt: number | null;
+  dedupKey: string | null;
+  connectionId: string | null;
+  acknowledgedAt: number | null;
+  acknowledgedBy: string | null;
+  escalationLevel: number;
+  suppressedBy: string | null;
+}
+
+function toEvent(r: Record<string, unknown>): AlertEvent {
+  return {
+    id: String(r.id),
+    ruleId: r.rule_id == null ? null : String(r.rule_id),
+    severity: String(r.severity),
+    firedAt: Number(r.fired_at ?? 0),
+    payload: r.payload == null ? null : String(r.payload),
+    deliveredTo: jsonList(r.delivered_to),
+    resolvedAt: r.resolved_at == null ? null : Number(r.resolved_at),
+    dedupKey: r.dedup_key == null ? null : String(r.dedup_key),
+    connectionId: r.connection_id == null ? null : String(r.connection_id),
+    acknowledgedAt: r.acknowledged_at == null ? null : Number(r.acknowledged_at),
+    acknowledgedBy: r.acknowledged_by == null ? null : String(r.acknowledged_by),
+    escalationLevel: Number(r.escalation_level ?? 0),
+    suppressedBy: r.suppressed_by == null ? null : String(r.suppressed_by),
+  };
+}
+
+export async function getEvent(id: string): Promise<AlertEvent | null> {
+  const rows = await all(sql`SELECT * FROM alert_events WHERE id = ${id} LIMIT 1`);
+  return rows[0] ? toEvent(rows[0]) : null;
+}
+
+/**
+ * Mark every open event for a breach resolved (the evaluator saw it clear).
+ * Returns the events that were open.
+ */
+export async function resolveEvents(dedupKey: string): Promise<AlertEvent[]> {
+  const open = (await all(sql`SELECT * FROM alert_events WHERE dedup_key = ${dedupKey} AND resolved_at IS NULL`)).map(toEvent);
+  if (open.length === 0) return [];
+  await run(sql`UPDATE alert_events SET resolved_at = ${Date.now()} WHERE dedup_key = ${dedupKey} AND resolved_at IS NULL`);
+  return open;
+}
+
+/** Acknowledge an event, which stops further escalation. Keeps the first acknowledgement. */
+export async function acknowledgeEvent(id: string, userId: string | null): Promise<void> {
+  await run(sql`
+    UPDATE alert_events SET acknowledged_at = ${Date.now()}, acknowledged_by = ${userId}
+    WHERE id = ${id} AND acknowledged_at IS NULL
+  `);
+}
+
+/**
+ * Keyed events fired since `since` that are still open, unacknowledged and
+ * were delivered (not suppressed) — the ones escalation may act on.
+ */
+export async function listEscalationCandidates(since: number): Promise<AlertEvent[]> {
+  const rows = await all(sql`
+    SELECT * FROM alert_events
+    WHERE dedup_key IS NOT NULL AND rule_id IS NOT NULL AND resolved_at IS NULL
+      AND acknowledged_at IS NULL AND suppressed_by IS NULL AND fired_at >= ${since}
+    ORDER BY fired_at
+  `);
+  return rows.map(toEvent);
+}
+
+/** Record that an event reached escalation step `level`, adding the channels it went to. */
+export async function markEscalated(event: AlertEvent, level: number, deliveredTo: string[]): Promise<void> {
+  const merged = [...new Set([...event.deliveredTo, ...deliveredTo])];
+  await run(sql`
+    UPDATE alert_events SET escalation_level = ${level}, delivered_to = ${JSON.stringify(merged)}
+    WHERE id = ${event.id}
+  `);
 }
 
 /**
@@ -395,22 +693,213 @@ export async function clearEvents(before?: number): Promise<void> {
 
 export async function listEvents(limit = 50): Promise<AlertEvent[]> {
   const rows = await all(sql`SELECT * FROM alert_events ORDER BY fired_at DESC LIMIT ${limit}`);
-  return rows.map((r) => {
-    let deliveredTo: string[] = [];
+  return rows.map(toEvent);
+}
+
+// --- incidents --------------------------------------------------------------
+
+const INCIDENT_STATUSES: AlertIncidentStatus[] = ["open", "acknowledged", "snoozed", "resolved"];
+
+function toIncidentRow(r: Record<string, unknown>): AlertIncidentRow {
+  const status = String(r.status) as AlertIncidentStatus;
+  const severity = String(r.severity);
+  return {
+    id: String(r.id),
+    dedupKey: String(r.dedup_key),
+    ruleId: r.rule_id == null ? null : String(r.rule_id),
+    connectionId: r.connection_id == null ? null : String(r.connection_id),
+    severity: isAlertSeverity(severity) ? severity : AlertSeverity.Warning,
+    status: INCIDENT_STATUSES.includes(status) ? status : "open",
+    summary: String(r.summary),
+    openedAt: Number(r.opened_at),
+    acknowledgedBy: r.acknowledged_by == null ? null : String(r.acknowledged_by),
+    acknowledgedAt: r.acknowledged_at == null ? null : Number(r.acknowledged_at),
+    snoozedUntil: r.snoozed_until == null ? null : Number(r.snoozed_until),
+    resolvedBy: r.resolved_by == null ? null : String(r.resolved_by),
+    resolvedAt: r.resolved_at == null ? null : Number(r.resolved_at),
+    lastEventAt: Number(r.last_event_at),
+    createdAt: Number(r.created_at ?? 0),
+    updatedAt: Number(r.updated_at ?? 0),
+  };
+}
+
+function toIncidentEventRow(r: Record<string, unknown>): AlertIncidentEventRow {
+  let payload: Record<string, unknown> | null = null;
+  if (typeof r.payload === "string") {
     try {
-      const parsed = JSON.parse(String(r.delivered_to ?? "[]"));
-      if (Array.isArray(parsed)) deliveredTo = parsed.map(String);
+      payload = JSON.parse(r.payload) as Record<string, unknown>;
     } catch {
-      deliveredTo = [];
+      payload = null;
     }
-    return {
-      id: String(r.id),
-      ruleId: r.rule_id == null ? null : String(r.rule_id),
-      severity: String(r.severity),
-      firedAt: Number(r.fired_at ?? 0),
-      payload: r.payload == null ? null : String(r.payload),
-      deliveredTo,
-      resolvedAt: r.resolved_at == null ? null : Number(r.resolved_at),
-    };
+  }
+  return {
+    id: String(r.id),
+    incidentId: String(r.incident_id),
+    type: String(r.type),
+    actorId: r.actor_id == null ? null : String(r.actor_id),
+    payload,
+    createdAt: Number(r.created_at ?? 0),
+  };
+}
+
+async function addIncidentEvent(
+  incidentId: string,
+  type: string,
+  actorId: string | null,
+  payload: Record<string, unknown>,
+): Promise<void> {
+  // Keep timestamps strictly increasing per incident so the timeline order is
+  // stable even when two entries land in the same millisecond.
+  const rows = await all(sql`SELECT MAX(created_at) AS last FROM alert_incident_events WHERE incident_id = ${incidentId}`);
+  const at = Math.max(Date.now(), Number(rows[0]?.last ?? 0) + 1);
+  await run(sql`
+    INSERT INTO alert_incident_events (id, incident_id, type, actor_id, payload, created_at)
+    VALUES (${randomUUID()}, ${incidentId}, ${type}, ${actorId}, ${JSON.stringify(payload)}, ${at})
+  `);
+}
+
+async function activeIncident(dedupKey: string): Promise<AlertIncidentRow | null> {
+  const rows = await all(sql`
+    SELECT * FROM alert_incidents
+    WHERE dedup_key = ${dedupKey} AND status <> 'resolved'
+    ORDER BY opened_at DESC LIMIT 1
+  `);
+  return rows[0] ? toIncidentRow(rows[0]) : null;
+}
+
+/**
+ * Incidents by latest activity; resolved ones only with `includeResolved`, and
+ * only those opened at or after `openedSince` when set.
+ */
+export async function listIncidents(
+  opts: { includeResolved?: boolean; openedSince?: number; limit?: number } = {},
+): Promise<AlertIncidentRow[]> {
+  const limit = opts.limit ?? 50;
+  const where = [
+    opts.includeResolved ? sql`1 = 1` : sql`status <> 'resolved'`,
+    opts.openedSince != null ? sql`opened_at >= ${opts.openedSince}` : sql`1 = 1`,
+  ];
+  const rows = await all(sql`
+    SELECT * FROM alert_incidents WHERE ${sql.join(where, sql` AND `)}
+    ORDER BY last_event_at DESC LIMIT ${limit}
+  `);
+  return rows.map(toIncidentRow);
+}
+
+export async function getIncident(id: string): Promise<AlertIncidentRow | null> {
+  const rows = await all(sql`SELECT * FROM alert_incidents WHERE id = ${id} LIMIT 1`);
+  return rows[0] ? toIncidentRow(rows[0]) : null;
+}
+
+/** An incident's timeline, oldest first. */
+export async function listIncidentEvents(incidentId: string): Promise<AlertIncidentEventRow[]> {
+  const rows = await all(sql`
+    SELECT * FROM alert_incident_events WHERE incident_id = ${incidentId} ORDER BY created_at
+  `);
+  return rows.map(toIncidentEventRow);
+}
+
+export interface AlertIncidentInput {
+  dedupKey: string;
+  ruleId: string | null;
+  connectionId: string | null;
+  severity: AlertSeverity;
+  summary: string;
+  /** Silence or maintenance window that muted the notification, if any. */
+  suppressedBy?: string | null;
+}
+
+/**
+ * Open an incident for a breach that just fired. When one is already active
+ * for the key — the process restarted and re-latched a breach that never
+ * cleared — it is refreshed and keeps its status instead of opening a second.
+ */
+export async function openIncident(input: AlertIncidentInput): Promise<AlertIncidentRow> {
+  const now = Date.now();
+  const active = await activeIncident(input.dedupKey);
+  if (active) {
+    await run(sql`
+      UPDATE alert_incidents SET summary = ${input.summary}, last_event_at = ${now}, updated_at = ${now}
+      WHERE id = ${active.id}
+    `);
+    await addIncidentEvent(active.id, "refired", null, { summary: input.summary });
+    return (await getIncident(active.id)) ?? active;
+  }
+  const id = randomUUID();
+  await run(sql`
+    INSERT INTO alert_incidents (id, dedup_key, rule_id, connection_id, severity, status, summary, opened_at, last_event_at, created_at, updated_at)
+    VALUES (${id}, ${input.dedupKey}, ${input.ruleId}, ${input.connectionId}, ${input.severity}, 'open', ${input.summary},
+            ${now}, ${now}, ${now}, ${now})
+  `);
+  await addIncidentEvent(id, "opened", null, {
+    summary: input.summary,
+    ...(input.suppressedBy ? { suppressedBy: input.suppressedBy } : {}),
   });
+  return (await getIncident(id)) as AlertIncidentRow;
+}
+
+/**
+ * Resolve the active incident for a breach key — by its evaluator when the
+ * breach clears (`actorId` null), or by hand. Returns the resolved incident,
+ * or null when none was active.
+ */
+export async function resolveIncident(dedupKey: string, actorId: string | null = null): Promise<AlertIncidentRow | null> {
+  const active = await activeIncident(dedupKey);
+  if (!active) return null;
+  const now = Date.now();
+  await run(sql`
+    UPDATE alert_incidents SET status = 'resolved', resolved_by = ${actorId}, resolved_at = ${now}, last_event_at = ${now}, updated_at = ${now}
+    WHERE id = ${active.id}
+  `);
+  await addIncidentEvent(active.id, "resolved", actorId, actorId ? {} : { automatic: true });
+  return getIncident(active.id);
+}
+
+/**
+ * Acknowledge an incident: someone is on it. Its open alert events are
+ * acknowledged too, which stops escalation.
+ */
+export async function acknowledgeIncident(id: string, actorId: string | null): Promise<AlertIncidentRow | null> {
+  const incident = await getIncident(id);
+  if (!incident || incident.status === "resolved") return incident;
+  const now = Date.now();
+  await run(sql`
+    UPDATE alert_incidents SET status = 'acknowledged', acknowledged_by = ${actorId}, acknowledged_at = ${now},
+      snoozed_until = NULL, last_event_at = ${now}, updated_at = ${now}
+    WHERE id = ${id}
+  `);
+  await run(sql`
+    UPDATE alert_events SET acknowledged_at = ${now}, acknowledged_by = ${actorId}
+    WHERE dedup_key = ${incident.dedupKey} AND resolved_at IS NULL AND acknowledged_at IS NULL
+  `);
+  await addIncidentEvent(id, "acknowledged", actorId, {});
+  return getIncident(id);
+}
+
+/** Snooze an incident until `until` (epoch ms); escalation holds until then. */
+export async function snoozeIncident(id: string, actorId: string | null, until: number): Promise<AlertIncidentRow | null> {
+  const incident = await getIncident(id);
+  if (!incident || incident.status === "resolved") return incident;
+  const now = Date.now();
+  await run(sql`
+    UPDATE alert_incidents SET status = 'snoozed', snoozed_until = ${until}, last_event_at = ${now}, updated_at = ${now}
+    WHERE id = ${id}
+  `);
+  await addIncidentEvent(id, "snoozed", actorId, { until });
+  return getIncident(id);
+}
+
+/** Append a note to an incident's timeline. Resolved incidents still take notes (postmortem). */
+export async function addIncidentNote(id: string, actorId: string | null, text: string): Promise<void> {
+  const now = Date.now();
+  await addIncidentEvent(id, "note", actorId, { text });
+  await run(sql`UPDATE alert_incidents SET updated_at = ${now} WHERE id = ${id}`);
+}
+
+/** Breach keys whose incident is snoozed past `at` — escalation skips them. */
+export async function listSnoozedIncidentKeys(at: number): Promise<Set<string>> {
+  const rows = await all(sql`
+    SELECT dedup_key FROM alert_incidents WHERE status = 'snoozed' AND snoozed_until > ${at}
+  `);
+  return new Set(rows.map((r) => String(r.dedup_key)));
 }
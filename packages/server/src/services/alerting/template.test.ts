@@ -0,0 +1,51 @@
+import { describe, it, expect } from "bun:test";
+import { applyTemplate, pickTemplate, renderTemplate, validateTemplate, SAMPLE_TEMPLATE_VARS } from "./template";
+
+const vars = SAMPLE_TEMPLATE_VARS.fleet;
+
+describe("alert template rendering", () => {
+  it("substitutes variables and renders unset ones as empty", () => {
+    expect(renderTemplate("{{connection}}: {{metric}} at {{value}} (limit {{threshold}})", vars)).toBe(
+      "prod-eu-1: query memory at 57.4 GB (limit 10 GB)",
+    );
+    expect(renderTemplate("[{{user}}]", { ...vars, user: undefined })).toBe("[]");
+  });
+
+  it("supports if/else, equality and unless, including nesting", () => {
+    const template = [
+      '{{#if severity == "critical"}}PAGE{{else}}FYI{{/if}} {{rule}}',
+      "{{#if topQuery}}Query: {{topQuery}}{{#unless user}} (unknown user){{/unless}}{{/if}}",
+      '{{#if source != "fleet"}}not fleet{{/if}}',
+    ].join("\n");
+    expect(renderTemplate(template, vars)).toBe(`PAGE Fleet thresholds\nQuery: ${vars.topQuery}`);
+    expect(renderTemplate(template, { ...vars, severity: "warning", topQuery: undefined, source: "data_health" })).toBe(
+      "FYI Fleet thresholds\n\nnot fleet",
+    );
+  });
+});
+
+describe("alert template validation", () => {
+  it("rejects unknown variables and unbalanced blocks", () => {
+    expect(validateTemplate("{{connection}} {{#if value}}x{{/if}}")).toBeNull();
+    expect(validateTemplate("{{host}}")).toBe('Unknown variable "host"');
+    expect(validateTemplate("{{#if value}}x")).toBe("{{#if}} is never closed");
+    expect(validateTemplate("x{{/if}}")).toBe("{{/if}} without a matching {{#if}}");
+    expect(validateTemplate("{{#if value}}a{{/unless}}")).toBe("{{/unless}} without a matching {{#unless}}");
+    expect(validateTemplate("{{#if value}}a{{else}}b{{else}}c{{/if}}")).toBe("{{else}} without a matching {{#if}}");
+  });
+});
+
+describe("alert template applyTemplate", () => {
+  it("uses the first line as the title and falls back to the built-in message", () => {
+    expect(applyTemplate("{{connection}} alert\n\n{{summary}}", vars)).toEqual({ title: "prod-eu-1 alert", text: "57.4 GB query" });
+    expect(applyTemplate(null, vars)).toEqual({ title: vars.title, text: vars.text });
+    expect(applyTemplate("{{#if user}}", vars)).toEqual({ title: vars.title, text: vars.text });
+    expect(applyTemplate("{{title}}", vars)).toEqual({ title: vars.title, text: vars.title });
+  });
+
+  it("prefers the first non-blank template", () => {
+    expect(pickTemplate(null, "  ", "channel")).toBe("channel");
+    expect(pickTemplate("rule", "channel")).toBe("rule");
+    expect(pickTemplate(undefined, null)).toBeNull();
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Alert message templates — user-editable text for notifications.
+ *
+ * A rule or a channel can carry a template; when set it replaces the built-in
+ * message for fleet, scheduled-query and data-health notifications. A rule's
+ * template wins over its channels' templates; with neither, the built-in
+ * message is sent unchanged.
+ *
+ * Syntax:
+ *   {{connection}}                     a variable (unknown names are rejected)
+ *   {{#if topQuery}}…{{else}}…{{/if}}  shown when the variable is non-empty
+ *   {{#if severity == "critical"}}…{{/if}}, and `!=`
+ *   {{#unless user}}…{{/unless}}       shown when the variable is empty
+ *
+ * The first non-empty rendered line is the message title; the rest is the body.
+ */
+
+export const MAX_TEMPLATE_LENGTH = 4000;
+
+/** Where a notification came from; picks the preview sample. */
+export type TemplateSource = "fleet" | "scheduled_query" | "data_health";
+
+export const TEMPLATE_SOURCES: TemplateSource[] = ["fleet", "scheduled_query", "data_health"];
+
+/** Everything a template can reference. Unset variables render as "". */
+export interface AlertTemplateVars {
+  /** The built-in title and body, for templates that only add to them. */
+  title: string;
+  text: string;
+  source: TemplateSource;
+  /** Rule, scheduled query or Data Health promise name. */
+  rule?: string;
+  severity?: string;
+  /** "firing" / "recovered", or the run or incident state. */
+  status?: string;
+  connection?: string;
+  metric?: string;
+  value?: string;
+  threshold?: string;
+  summary?: string;
+  user?: string;
+  topQuery?: string;
+  runLink?: string;
+  firedAt?: string;
+}
+
+export const TEMPLATE_VARIABLES: Array<{ name: keyof AlertTemplateVars; description: string }> = [
+  { name: "title", description: "Built-in title" },
+  { name: "text", description: "Built-in message body" },
+  { name: "source", description: "fleet, scheduled_query or data_health" },
+  { name: "rule", description: "Rule, job or promise name" },
+  { name: "severity", description: "info, warning or critical" },
+  { name: "status", description: "firing, recovered, or the run/incident state" },
+  { name: "connection", description: "Connection name" },
+  { name: "metric", description: "What was measured" },
+  { name: "value", description: "Observed value" },
+  { name: "threshold", description: "Configured threshold" },
+  { name: "summary", description: "One-line summary" },
+  { name: "user", description: "ClickHouse user behind the breach" },
+  { name: "topQuery", description: "Top offending query" },
+  { name: "runLink", description: "Link to the run, incident or page" },
+  { name: "firedAt", description: "When it fired (ISO 8601)" },
+];
+
+const KNOWN = new Set<string>(TEMPLATE_VARIABLES.map((v) => v.name));
+
+interface Condition {
+  name: string;
+  op?: "==" | "!=";
+  operand?: string;
+}
+
+type TemplateNode =
+  | { kind: "text"; value: string }
+  | { kind: "var"; name: string }
+  | { kind: "block"; negate: boolean; cond: Condition; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+interface OpenBlock {
+  tag: "if" | "unless";
+  node: Extract<TemplateNode, { kind: "block" }>;
+  inElse: boolean;
+}
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+function parseCondition(raw: string, tag: string): Condition {
+  const m = raw.match(/^([A-Za-z]\w*)(?:\s*(==|!=)\s*"([^"]*)")?$/);
+  if (!m) throw new TemplateError(`Invalid condition in {{#${tag} ${raw}}}`);
+  if (!KNOWN.has(m[1])) throw new TemplateError(`Unknown variable "${m[1]}"`);
+  return { name: m[1], op: m[2] as Condition["op"], operand: m[3] };
+}
+
+function parse(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const target = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.otherwise : top.node.then;
+  };
+
+  const tagRe = /\{\{([\s\S]*?)\}\}/g;
+  let last = 0;
+  for (let m = tagRe.exec(template); m; m = tagRe.exec(template)) {
+    if (m.index > last) target().push({ kind: "text", value: template.slice(last, m.index) });
+    last = m.index + m[0].length;
+    const inner = m[1].trim();
+
+    const open = inner.match(/^#(if|unless)\s+([\s\S]+)$/);
+    if (open) {
+      const tag = open[1] as "if" | "unless";
+      const node = { kind: "block" as const, negate: tag === "unless", cond: parseCondition(open[2].trim(), tag), then: [], otherwise: [] };
+      target().push(node);
+      stack.push({ tag, node, inElse: false });
+      continue;
+    }
+    if (inner === "else") {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) throw new TemplateError("{{else}} without a matching {{#if}}");
+      top.inElse = true;
+      continue;
+    }
+    const close = inner.match(/^\/(if|unless)$/);
+    if (close) {
+      const top = stack.pop();
+      if (!top || top.tag !== close[1]) throw new TemplateError(`{{/${close[1]}}} without a matching {{#${close[1]}}}`);
+      continue;
+    }
+    if (!/^[A-Za-z]\w*$/.test(inner)) throw new TemplateError(`Invalid tag {{${inner}}}`);
+    if (!KNOWN.has(inner)) throw new TemplateError(`Unknown variable "${inner}"`);
+    target().push({ kind: "var", name: inner });
+  }
+  if (last < template.length) target().push({ kind: "text", value: template.slice(last) });
+  const unclosed = stack.pop();
+  if (unclosed) throw new TemplateError(`{{#${unclosed.tag}}} is never closed`);
+  return root;
+}
+
+function lookup(vars: AlertTemplateVars, name: string): string {
+  const value = (vars as unknown as Record<string, unknown>)[name];
+  return value === undefined || value === null ? "" : String(value);
+}
+
+function holds(cond: Condition, vars: AlertTemplateVars): boolean {
+  const value = lookup(vars, cond.name);
+  if (cond.op === "==") return value === cond.operand;
+  if (cond.op === "!=") return value !== cond.operand;
+  return value.trim() !== "";
+}
+
+function renderNodes(nodes: TemplateNode[], vars: AlertTemplateVars): string {
+  let out = "";
+  for (const node of nodes) {
+    if (node.kind === "text") out += node.value;
+    else if (node.kind === "var") out += lookup(vars, node.name);
+    else out += renderNodes(holds(node.cond, vars) !== node.negate ? node.then : node.otherwise, vars);
+  }
+  return out;
+}
+
+/** Why a template can't be saved, or null when it can. */
+export function validateTemplate(template: string): string | null {
+  if (template.length > MAX_TEMPLATE_LENGTH) return `Template is longer than ${MAX_TEMPLATE_LENGTH} characters`;
+  try {
+    parse(template);
+    return null;
+  } catch (err) {
+    return err instanceof TemplateError ? err.message : "Invalid template";
+  }
+}
+
+/** Render a template to text. Throws TemplateError on a malformed template. */
+export function renderTemplate(template: string, vars: AlertTemplateVars): string {
+  return renderNodes(parse(template), vars)
+    .replace(/[ \t]+$/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/** The first non-blank template, or null. Pass the most specific one first. */
+export function pickTemplate(...templates: Array<string | null | undefined>): string | null {
+  return templates.find((t): t is string => typeof t === "string" && t.trim() !== "") ?? null;
+}
+
+/**
+ * The `{title, text}` to send: the rendered template when there is one, else
+ * the built-in message. A template that fails to render (or renders empty)
+ * falls back to the built-in message rather than dropping the alert.
+ */
+export function applyTemplate(template: string | null, vars: AlertTemplateVars): { title: string; text: string } {
+  if (!template) return { title: vars.title, text: vars.text };
+  let rendered: string;
+  try {
+    rendered = renderTemplate(template, vars);
+  } catch {
+    return { title: vars.title, text: vars.text };
+  }
+  if (!rendered) return { title: vars.title, text: vars.text };
+  const newline = rendered.indexOf("\n");
+  const title = (newline < 0 ? rendered : rendered.slice(0, newline)).trim();
+  const text = newline < 0 ? "" : rendered.slice(newline + 1).trim();
+  return { title, text: text || title };
+}
+
+/** Sample variables for the editor's live preview. */
+export const SAMPLE_TEMPLATE_VARS: Record<TemplateSource, AlertTemplateVars> = {
+  fleet: {
+    source: "fleet",
+    title: "🔴 prod-eu-1 — Query memory alert",
+    text: "57.4 GB query (analyst)\nanalyst · SELECT customer_id, count() FROM events GROUP BY customer_id",
+    rule: "Fleet thresholds",
+    severity: "critical",
+    status: "firing",
+    connection: "prod-eu-1",
+    metric: "query memory",
+    value: "57.4 GB",
+    threshold: "10 GB",
+    summary: "57.4 GB query",
+    user: "analyst",
+    topQuery: "analyst · SELECT customer_id, count() FROM events GROUP BY customer_id",
+    runLink: "/fleet",
+    firedAt: "2026-01-05T12:00:00.000Z",
+  },
+  scheduled_query: {
+    source: "scheduled_query",
+    title: "🔴 Scheduled Query failed — Daily revenue rollup",
+    text: '[Scheduled Query] "Daily revenue rollup" — ERROR\nConnection: prod-eu-1\nError: Memory limit exceeded',
+    rule: "Daily revenue rollup",
+    severity: "critical",
+    status: "error",
+    connection: "prod-eu-1",
+    metric: "run status",
+    value: "error",
+    summary: "Memory limit exceeded",
+    runLink: "/dataops/scheduled-queries/jobs",
+    firedAt: "2026-01-05T12:00:00.000Z",
+  },
+  data_health: {
+    source: "data_health",
+    title: "🔴 Data Health opened — orders freshness",
+    text: "orders freshness: freshness_minutes (95)\nOwner: data-team",
+    rule: "orders freshness",
+    severity: "critical",
+    status: "opened",
+    connection: "prod-eu-1",
+    metric: "freshness_minutes",
+    value: "95",
+    threshold: "60",
+    summary: "orders freshness: freshness_minutes (95)",
+    runLink: "/dataops/data-health/incidents/3f2a",
+    firedAt: "2026-01-05T12:00:00.000Z",
+  },
+};
@@ -5,11 +5,20 @@
  * welding together "what fires" (rules), "where it delivers" (channels) and the
  * AI-RCA toggle. That blob is now normalized across four tables:
  *
- *   - notification_channels   where to deliver (slack/google_chat/email/webhook)
- *   - alert_rules             what fires (fleet_threshold today, data_quality next)
+ *   - notification_channels   where to deliver (slack/google_chat/email/webhook/teams/
+ *                             pagerduty/opsgenie/discord/telegram)
+ *   - alert_rules             what fires (fleet_threshold, query_governor, backup_failure,
+ *                             dictionary_health, custom_sql; data_quality next)
  *   - alert_rule_channels     M:N link between a rule and its channels
  *   - alert_events            history of fires + deliveries
  *
+ * Silences (alert_silences) and recurring maintenance windows
+ * (alert_maintenance_windows) mute matching alerts without disabling the rule;
+ * escalation steps (alert_escalation_steps) re-notify other channels when a
+ * breach stays open and unacknowledged. Fleet breaches also open an incident
+ * (alert_incidents) that people acknowledge, snooze, annotate and resolve; its
+ * timeline lives in alert_incident_events.
+ *
  * `type` / `source_type` / `severity` are modelled as enums (not free strings)
  * so the storage layer, the Zod validators and the UI all agree on the closed
  * set of values.
@@ -21,6 +30,11 @@ export enum ChannelType {
   GoogleChat = "google_chat",
   Email = "email",
   Webhook = "webhook",
+  Teams = "teams",
+  PagerDuty = "pagerduty",
+  Opsgenie = "opsgenie",
+  Discord = "discord",
+  Telegram = "telegram",
 }
 
 /** What produced an alert rule. Persisted verbatim in alert_rules.source_type. */
@@ -29,6 +43,14 @@ export enum AlertSourceType {
   FleetThreshold = "fleet_threshold",
   /** Data-quality check failures (added in a later pass). */
   DataQuality = "data_quality",
+  /** Query governor policies — running queries that match are killed (or reported in dry run). */
+  QueryGovernor = "query_governor",
+  /** BACKUP / RESTORE operations that failed (Backups page and backup schedules). */
+  BackupFailure = "backup_failure",
+  /** Dictionaries that failed to load or have not reloaded within a staleness window. */
+  DictionaryHealth = "dictionary_health",
+  /** A user-written read-only query run on a cadence, compared to a threshold or fired on any row. */
+  CustomSql = "custom_sql",
 }
 
 /** Alert severity. Persisted verbatim in alert_rules.severity / alert_events.severity. */
@@ -83,11 +105,44 @@ export interface EmailChannelConfig {
   to: string;
 }
 
+/** Microsoft Teams incoming webhook (Workflows or a legacy connector); posts an Adaptive Card. */
+export interface TeamsChannelConfig {
+  webhookUrl: string;
+}
+
+/** PagerDuty Events API v2 integration; alerts trigger and resolve incidents by dedup key. */
+export interface PagerDutyChannelConfig {
+  routingKey: string;
+}
+
+export type OpsgenieRegion = "us" | "eu";
+
+/** Opsgenie API integration; alerts open and close Opsgenie alerts by alias (the dedup key). */
+export interface OpsgenieChannelConfig {
+  apiKey: string;
+  region: OpsgenieRegion;
+}
+
+export interface DiscordChannelConfig {
+  webhookUrl: string;
+}
+
+/** Telegram bot that posts to one chat (user, group or channel id). */
+export interface TelegramChannelConfig {
+  botToken: string;
+  chatId: string;
+}
+
 export type ChannelConfig =
   | SlackChannelConfig
   | GoogleChatChannelConfig
   | WebhookChannelConfig
-  | EmailChannelConfig;
+  | EmailChannelConfig
+  | TeamsChannelConfig
+  | PagerDutyChannelConfig
+  | OpsgenieChannelConfig
+  | DiscordChannelConfig
+  | TelegramChannelConfig;
 
 /** Fleet-threshold rule parameters (mirrors the legacy RawAlertConfig.rules). */
 export interface FleetThresholdRuleConfig {
@@ -95,6 +150,78 @@ export interface FleetThresholdRuleConfig {
   queryMemoryGb: number;
   longQueryMin: number;
   partsEtaMin: number;
+  /** Projected days until a disk is full (from its usage history); 0 = off. */
+  diskFullDays: number;
+}
+
+/**
+ * Query governor rule parameters. The scope fields narrow which running
+ * queries the rule looks at; a query in scope is acted on once it crosses any
+ * non-zero threshold.
+ */
+export interface QueryGovernorRuleConfig {
+  /** Comma-separated ClickHouse or CHouse UI user names; empty = every user. */
+  users: string;
+  /** Comma-separated roles (ClickHouse or CHouse UI) whose queries are never touched. */
+  exemptRoles: string;
+  /** Case-insensitive regular expression the query text must match; empty = any query. */
+  queryPattern: string;
+  memoryGb: number;
+  durationMin: number;
+  readGb: number;
+  /** Report matching queries without killing them. */
+  dryRun: boolean;
+}
+
+/** Backup-failure rule parameters. */
+export interface BackupFailureRuleConfig {
+  /** Comma-separated connection names or ids; empty = every connection. */
+  connections: string;
+}
+
+/**
+ * Dictionary health rule parameters. A dictionary in scope breaches when its
+ * last load failed (`failed`) or its last successful load is older than
+ * `staleMinutes` (0 = off).
+ */
+export interface DictionaryHealthRuleConfig {
+  /** Comma-separated connection names or ids; empty = every connection. */
+  connections: string;
+  /** Comma-separated dictionaries (`db.name`, or `name` for config dictionaries); empty = every dictionary. */
+  dictionaries: string;
+  failed: boolean;
+  staleMinutes: number;
+}
+
+export type CustomSqlMode = "threshold" | "rows";
+export type CustomSqlOperator = ">" | ">=" | "<" | "<=";
+
+export const CUSTOM_SQL_MODES: CustomSqlMode[] = ["threshold", "rows"];
+export const CUSTOM_SQL_OPERATORS: CustomSqlOperator[] = [">", ">=", "<", "<="];
+
+/**
+ * Custom SQL rule parameters. The query runs every `intervalMinutes` against
+ * one connection; each returned row is an alert instance identified by its
+ * key columns.
+ */
+export interface CustomSqlRuleConfig {
+  /** Connection name or id the query runs against. */
+  connection: string;
+  /** A single read-only SELECT. */
+  query: string;
+  intervalMinutes: number;
+  /** `threshold` compares a column to `threshold`; `rows` fires on any returned row. */
+  mode: CustomSqlMode;
+  /** Column compared in threshold mode; empty = the first numeric column. */
+  valueColumn: string;
+  operator: CustomSqlOperator;
+  threshold: number;
+  /** How far back past the threshold a breached row must move before it re-arms. */
+  hysteresis: number;
+  /** Comma-separated columns that identify a row; empty = every column except the value. */
+  keyColumns: string;
+  /** Include the offending rows in the delivered message. */
+  attachRows: boolean;
 }
 
 /** A notification channel as stored (secrets stay encrypted in `config`). */
@@ -105,6 +232,8 @@ export interface NotificationChannelRow {
   /** JSON string; secret fields are encrypted. */
   config: string;
   enabled: boolean;
+  /** Optional message template (see template.ts); null = built-in message. */
+  messageTemplate: string | null;
   createdBy: string | null;
   createdAt: number;
   updatedAt: number;
@@ -121,10 +250,105 @@ export interface AlertRuleRow {
   enabled: boolean;
   aiRcaEnabled: boolean;
   aiRcaModelId: string | null;
+  /** Optional message template; wins over the channels' templates. */
+  messageTemplate: string | null;
+  /**
+   * The user whose data access a custom SQL rule's query runs under — whoever
+   * last saved it. Null on other rules and on rules saved before it existed.
+   */
+  ownerId: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Which alerts a silence or maintenance window mutes. Every non-null field must
+ * match; a null field matches anything.
+ */
+export interface AlertScope {
+  ruleId: string | null;
+  /** Connection name or id. */
+  connection: string | null;
+  severity: AlertSeverity | null;
+}
+
+/** A one-off silence: matching alerts fired between startsAt and endsAt (epoch ms) are not delivered. */
+export interface AlertSilenceRow extends AlertScope {
+  id: string;
+  name: string;
+  startsAt: number;
+  endsAt: number;
+  comment: string | null;
+  createdBy: string | null;
+  createdAt: number;
+}
+
+/**
+ * A recurring maintenance window: active for `durationMinutes` after each fire
+ * of `cronExpr` (5-field, evaluated in `timezone`).
+ */
+export interface MaintenanceWindowRow extends AlertScope {
+  id: string;
+  name: string;
+  cronExpr: string;
+  durationMinutes: number;
+  timezone: string;
+  enabled: boolean;
+  createdBy: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * One escalation step of a rule. Steps run in `position` order (1-based); a
+ * step fires once its breach has been open and unacknowledged for
+ * `afterMinutes` since it first fired.
+ */
+export interface EscalationStepRow {
+  id: string;
+  ruleId: string;
+  position: number;
+  afterMinutes: number;
+  channelIds: string[];
+}
+
+export type AlertIncidentStatus = "open" | "acknowledged" | "snoozed" | "resolved";
+
+/**
+ * A fleet breach as something people work on. Opened when the breach fires,
+ * resolved when it clears (or by hand); `dedupKey` is the breach latch key, so
+ * at most one incident per key is active at a time.
+ */
+export interface AlertIncidentRow {
+  id: string;
+  dedupKey: string;
+  ruleId: string | null;
+  connectionId: string | null;
+  severity: AlertSeverity;
+  status: AlertIncidentStatus;
+  summary: string;
+  openedAt: number;
+  acknowledgedBy: string | null;
+  acknowledgedAt: number | null;
+  snoozedUntil: number | null;
+  /** Null when the breach cleared on its own. */
+  resolvedBy: string | null;
+  resolvedAt: number | null;
+  lastEventAt: number;
   createdAt: number;
   updatedAt: number;
 }
 
+/** One timeline entry: opened, refired, acknowledged, snoozed, note or resolved. */
+export interface AlertIncidentEventRow {
+  id: string;
+  incidentId: string;
+  type: string;
+  actorId: string | null;
+  payload: Record<string, unknown> | null;
+  createdAt: number;
+}
+
 /**
  * Well-known fixed ids for the single legacy fleet-threshold rule and the three
  * legacy channels it could deliver to. The adapter shim
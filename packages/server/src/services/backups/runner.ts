@@ -0,0 +1,317 @@
+/**
+ * Backup runner — starts BACKUP / RESTORE on a connection, reads
+ * system.backups, and reconciles the catalog with what ClickHouse reports.
+ *
+ * Operations start ASYNC, so a start only records the ClickHouse operation id;
+ * reconcileOperations() (run by the BackupScheduler every tick) moves each
+ * running catalog entry to its outcome and announces failures through every
+ * enabled `backup_failure` alert rule that covers the connection.
+ */
+
+import type { ClickHouseClient } from "@clickhouse/client";
+
+import { clientForConnection } from "../scheduledQueries/chClient";
+import { listRules, getRuleChannelsDecrypted, recordEvent } from "../alerting/store";
+import { sendChannelMessage } from "../alerting/deliver";
+import { findSuppression } from "../alerting/policy";
+import { AlertSourceType, type AlertRuleRow, type BackupFailureRuleConfig } from "../alerting/types";
+import { getConnectionById } from "../../rbac/services/connections";
+import { AppError } from "../../types";
+import { logger } from "../../utils/logger";
+import * as store from "./store";
+import {
+  backupPath,
+  buildBackupStatement,
+  buildRestoreStatement,
+  formatDiskDestination,
+  parseDiskDestination,
+  type BackupTarget,
+} from "./statements";
+import {
+  BACKUP_FAILURE_STATUSES,
+  BACKUP_SUCCESS_STATUSES,
+  type BackupListEntry,
+  type BackupOperationRow,
+  type BackupScheduleRow,
+  type StartRestoreInput,
+  type SystemBackupRow,
+} from "./types";
+
+function errMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function num(v: unknown): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+const SYSTEM_BACKUP_COLUMNS = `
+  id, name, toString(status) AS status, error,
+  toUnixTimestamp(start_time) * 1000 AS start_time, toUnixTimestamp(end_time) * 1000 AS end_time,
+  num_files, total_size, uncompressed_size, compressed_size, files_read, bytes_read
+`;
+
+function toSystemBackup(r: Record<string, unknown>): SystemBackupRow {
+  return {
+    id: String(r.id ?? ""),
+    name: String(r.name ?? ""),
+    status: String(r.status ?? ""),
+    error: String(r.error ?? ""),
+    startTime: num(r.start_time),
+    endTime: num(r.end_time),
+    numFiles: num(r.num_files),
+    totalSize: num(r.total_size),
+    uncompressedSize: num(r.uncompressed_size),
+    compressedSize: num(r.compressed_size),
+    filesRead: num(r.files_read),
+    bytesRead: num(r.bytes_read),
+  };
+}
+
+async function selectSystemBackups(client: ClickHouseClient, ids?: string[]): Promise<SystemBackupRow[]> {
+  const result = await client.query({
+    query: ids
+      ? `SELECT ${SYSTEM_BACKUP_COLUMNS} FROM system.backups WHERE id IN {ids:Array(String)}`
+      : `SELECT ${SYSTEM_BACKUP_COLUMNS} FROM system.backups ORDER BY start_time DESC LIMIT 500`,
+    query_params: ids ? { ids } : undefined,
+    format: "JSON",
+  });
+  return (((await result.json()) as { data?: Record<string, unknown>[] }).data ?? []).map(toSystemBackup);
+}
+
+/** Every backup and restore ClickHouse reports for the connection, newest first. */
+export async function listSystemBackups(connectionId: string): Promise<SystemBackupRow[]> {
+  return selectSystemBackups(await clientForConnection(connectionId));
+}
+
+/**
+ * Join system.backups with the catalog: each ClickHouse row carries the
+ * catalog entry that started it (if any), and catalog entries ClickHouse no
+ * longer reports (system.backups is cleared on restart) are kept. Newest first.
+ */
+export function mergeBackupList(system: SystemBackupRow[], operations: BackupOperationRow[]): BackupListEntry[] {
+  const byBackupId = new Map(operations.filter((op) => op.backupId).map((op) => [op.backupId!, op]));
+  const entries: BackupListEntry[] = system.map((row) => ({ system: row, operation: byBackupId.get(row.id) ?? null }));
+  const seen = new Set(system.map((row) => row.id));
+  for (const op of operations) {
+    if (!op.backupId || !seen.has(op.backupId)) entries.push({ system: null, operation: op });
+  }
+  const startedAt = (e: BackupListEntry) => e.operation?.startedAt ?? e.system?.startTime ?? 0;
+  return entries.sort((a, b) => startedAt(b) - startedAt(a));
+}
+
+/** Everything the Backups page lists for a connection. */
+export async function listBackups(connectionId: string): Promise<BackupListEntry[]> {
+  const [system, operations] = await Promise.all([listSystemBackups(connectionId), store.listOperations(connectionId)]);
+  return mergeBackupList(system, operations);
+}
+
+/** Disks a backup can be written to (the server's `backups.allowed_disk` still applies). */
+export async function listDisks(connectionId: string): Promise<Array<{ name: string; type: string; freeSpace: number }>> {
+  const client = await clientForConnection(connectionId);
+  const result = await client.query({
+    query: `SELECT name, toString(type) AS type, free_space FROM system.disks ORDER BY name`,
+    format: "JSON",
+  });
+  const rows = ((await result.json()) as { data?: Record<string, unknown>[] }).data ?? [];
+  return rows.map((r) => ({ name: String(r.name), type: String(r.type ?? ""), freeSpace: num(r.free_space) }));
+}
+
+/**
+ * Run an ASYNC BACKUP/RESTORE statement and record it in the catalog. A
+ * statement ClickHouse rejects outright is recorded as failed (and alerted);
+ * otherwise the entry stays running until the reconciler sees the outcome.
+ */
+async function startOperation(
+  input: Omit<store.InsertOperationInput, "backupId" | "status" | "error">,
+): Promise<BackupOperationRow> {
+  let backupId: string | null = null;
+  let error: string | null = null;
+  try {
+    const client = await clientForConnection(input.connectionId);
+    const result = await client.query({ query: input.statement, format: "JSON" });
+    const row = ((await result.json()) as { data?: Array<{ id?: string }> }).data?.[0];
+    backupId = row?.id ? String(row.id) : null;
+    if (!backupId) error = "ClickHouse did not return an operation id";
+  } catch (err) {
+    error = errMessage(err);
+  }
+  const op = await store.insertOperation({ ...input, backupId, status: error ? "failed" : "running", error });
+  if (error) await notifyFailure(op);
+  return op;
+}
+
+/** Build a statement, turning an invalid identifier into a 400. */
+function statementOrReject(build: () => string): string {
+  try {
+    return build();
+  } catch (err) {
+    throw AppError.badRequest(errMessage(err));
+  }
+}
+
+/** Start a backup of a table or database to `Disk(disk, <generated path>)`. */
+export async function startBackup(
+  target: BackupTarget & { connectionId: string; disk: string },
+  context: { startedBy: string | null; scheduleId?: string | null },
+): Promise<BackupOperationRow> {
+  const destination = { disk: target.disk, path: backupPath(target, Date.now()) };
+  return startOperation({
+    connectionId: target.connectionId,
+    scheduleId: context.scheduleId ?? null,
+    kind: "backup",
+    destination: formatDiskDestination(destination),
+    scope: target.scope,
+    database: target.database,
+    table: target.scope === "table" ? target.table ?? null : null,
+    statement: statementOrReject(() => buildBackupStatement(target, destination)),
+    startedBy: context.startedBy,
+  });
+}
+
+/** The RESTORE statement for `input`; an unusable source or identifier is a 400. */
+export function restoreStatement(input: StartRestoreInput): string {
+  const source = parseDiskDestination(input.destination);
+  if (!source) throw AppError.badRequest("Only Disk('disk', 'path') backups can be restored");
+  const target: BackupTarget = { scope: input.scope, database: input.database, table: input.table };
+  const renamed = input.targetDatabase || input.targetTable;
+  return statementOrReject(() =>
+    buildRestoreStatement(target, source, {
+      as: renamed ? { database: input.targetDatabase || input.database, table: input.targetTable } : undefined,
+      allowNonEmpty: input.allowNonEmpty,
+    }),
+  );
+}
+
+/** Start a restore from a Disk() backup, optionally under another name. */
+export async function startRestore(input: StartRestoreInput, startedBy: string | null): Promise<BackupOperationRow> {
+  const statement = restoreStatement(input);
+  return startOperation({
+    connectionId: input.connectionId,
+    scheduleId: null,
+    kind: "restore",
+    destination: formatDiskDestination(parseDiskDestination(input.destination)!),
+    scope: input.scope,
+    database: input.database,
+    table: input.scope === "table" ? input.table ?? null : null,
+    statement,
+    startedBy,
+  });
+}
+
+/** Start the backup a schedule describes (its slot is already claimed). */
+export async function runSchedule(schedule: BackupScheduleRow): Promise<BackupOperationRow> {
+  return startBackup(
+    {
+      connectionId: schedule.connectionId,
+      disk: schedule.disk,
+      scope: schedule.scope,
+      database: schedule.database,
+      table: schedule.table,
+    },
+    { startedBy: null, scheduleId: schedule.id },
+  );
+}
+
+// --- reconciliation ---------------------------------------------------------
+
+/**
+ * Move running catalog entries to their outcome. An entry whose id is no
+ * longer in system.backups (the server restarted mid-operation) is failed.
+ * Connections that can't be reached are left for the next tick. Never throws.
+ */
+export async function reconcileOperations(): Promise<void> {
+  let running: BackupOperationRow[];
+  try {
+    running = await store.listRunningOperations();
+  } catch (err) {
+    logger.error({ module: "Backups", err: errMessage(err) }, "Failed to list running backups");
+    return;
+  }
+
+  const byConnection = new Map<string, BackupOperationRow[]>();
+  for (const op of running) {
+    if (!op.backupId) continue;
+    byConnection.set(op.connectionId, [...(byConnection.get(op.connectionId) ?? []), op]);
+  }
+
+  for (const [connectionId, ops] of byConnection) {
+    let live: Map<string, SystemBackupRow>;
+    try {
+      const rows = await selectSystemBackups(await clientForConnection(connectionId), ops.map((op) => op.backupId!));
+      live = new Map(rows.map((r) => [r.id, r]));
+    } catch (err) {
+      logger.warn({ module: "Backups", connectionId, err: errMessage(err) }, "Could not read system.backups");
+      continue;
+    }
+
+    for (const op of ops) {
+      const row = live.get(op.backupId!);
+      if (row && !BACKUP_SUCCESS_STATUSES.includes(row.status) && !BACKUP_FAILURE_STATUSES.includes(row.status)) continue;
+      const succeeded = Boolean(row && BACKUP_SUCCESS_STATUSES.includes(row.status));
+      const moved = await store.finishOperation(op.id, {
+        status: succeeded ? "succeeded" : "failed",
+        error: succeeded ? null : row ? row.error || row.status : "No longer reported by system.backups (server restarted?)",
+        totalSize: row ? row.totalSize : null,
+        numFiles: row ? row.numFiles : null,
+      });
+      if (!moved || succeeded) continue;
+      await notifyFailure((await store.getOperation(op.id)) ?? op);
+    }
+  }
+}
+
+// --- failure alerts ---------------------------------------------------------
+
+function parseRuleConfig(rule: AlertRuleRow): BackupFailureRuleConfig {
+  try {
+    const raw = JSON.parse(rule.config) as Partial<BackupFailureRuleConfig>;
+    return { connections: typeof raw.connections === "string" ? raw.connections : "" };
+  } catch {
+    return { connections: "" };
+  }
+}
+
+/** True when a rule's connection list (names or ids, comma-separated; empty = all) covers the connection. */
+export function ruleCoversConnection(config: BackupFailureRuleConfig, connection: { id: string; name: string }): boolean {
+  const wanted = config.connections.split(",").map((s) => s.trim().toLowerCase()).filter(Boolean);
+  return wanted.length === 0 || wanted.includes(connection.id.toLowerCase()) || wanted.includes(connection.name.toLowerCase());
+}
+
+/** Announce a failed operation on every matching backup_failure rule. Never throws. */
+async function notifyFailure(op: BackupOperationRow): Promise<void> {
+  try {
+    const connection = await getConnectionById(op.connectionId);
+    const conn = { id: op.connectionId, name: connection?.name ?? op.connectionId };
+    const target = op.table ? `${op.database}.${op.table}` : op.database;
+    const what = op.kind === "backup" ? "Backup" : "Restore";
+    const origin = op.scheduleName ? ` (schedule "${op.scheduleName}")` : "";
+    const title = `${what} failed on ${conn.name}`;
+    const text = `${what} of ${target}${origin} ${op.kind === "backup" ? "to" : "from"} ${op.destination} failed: ${op.error ?? "unknown error"}`;
+
+    for (const rule of await listRules()) {
+      if (!rule.enabled || rule.sourceType !== AlertSourceType.BackupFailure) continue;
+      if (!ruleCoversConnection(parseRuleConfig(rule), conn)) continue;
+      const suppressedBy = await findSuppression({ ruleId: rule.id, severity: rule.severity, connection: conn });
+      const channels = suppressedBy ? [] : await getRuleChannelsDecrypted(rule.id);
+      await Promise.allSettled(
+        channels.map(({ row, config }) =>
+          sendChannelMessage(row.type, config, { title, text, severity: rule.severity }).catch((err) =>
+            logger.error({ module: "Backups", channel: row.type, name: row.name, err: errMessage(err) }, "Channel delivery failed"),
+          ),
+        ),
+      );
+      await recordEvent({
+        ruleId: rule.id,
+        severity: rule.severity,
+        payload: `${conn.name} — ${text}`,
+        deliveredTo: channels.map(({ row }) => row.name),
+        connectionId: conn.id,
+        suppressedBy,
+      });
+    }
+  } catch (err) {
+    logger.error({ module: "Backups", operationId: op.id, err: errMessage(err) }, "Failed to announce backup failure");
+  }
+}
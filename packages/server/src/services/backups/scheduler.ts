@@ -0,0 +1,81 @@
+/**
+ * BackupScheduler — every minute, reconciles running BACKUP / RESTORE
+ * operations with system.backups, then starts the backups whose schedule has
+ * a slot due.
+ *
+ * Cadences go through the Scheduled Queries engine (cadence.ts), so a backup
+ * schedule accepts the same daily / weekly / monthly presets and custom cron,
+ * evaluated in the schedule's timezone. Like Scheduled Queries there is no
+ * backfill: a schedule that missed several slots runs once, for the latest.
+ *
+ * Multi-instance: safe. Each slot is claimed with a conditional UPDATE on the
+ * schedule row (store.claimScheduleSlot), so only one replica starts it, and
+ * each operation's outcome is recorded — and alerted — by exactly one
+ * reconciler (store.finishOperation).
+ */
+
+import { lastScheduledFireMs } from "../scheduledQueries/cadence";
+import { logger } from "../../utils/logger";
+import * as store from "./store";
+import { reconcileOperations, runSchedule } from "./runner";
+
+const CHECK_INTERVAL_MS = 60_000;
+
+function errMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+class BackupScheduler {
+  private static instance: BackupScheduler | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  static getInstance(): BackupScheduler {
+    if (!BackupScheduler.instance) BackupScheduler.instance = new BackupScheduler();
+    return BackupScheduler.instance;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.tick(), CHECK_INTERVAL_MS);
+    this.timer.unref?.();
+    logger.info({ module: "BackupScheduler" }, "Backup scheduler started");
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      await reconcileOperations();
+
+      const now = Date.now();
+      for (const schedule of await store.listEnabledSchedules()) {
+        const fireAt = lastScheduledFireMs(schedule, now);
+        if (fireAt == null || schedule.lastRunAt >= fireAt) continue;
+        if (!(await store.claimScheduleSlot(schedule.id, fireAt, now))) continue;
+        try {
+          const op = await runSchedule(schedule);
+          logger.info(
+            { module: "BackupScheduler", scheduleId: schedule.id, operationId: op.id, status: op.status },
+            "Scheduled backup started",
+          );
+        } catch (err) {
+          logger.error({ module: "BackupScheduler", scheduleId: schedule.id, err: errMessage(err) }, "Scheduled backup failed to start");
+        }
+      }
+    } catch (err) {
+      logger.error({ module: "BackupScheduler", err: errMessage(err) }, "Backup scheduler tick failed");
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export { BackupScheduler };
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "bun:test";
+import {
+  backupPath,
+  buildBackupStatement,
+  buildRestoreStatement,
+  formatDiskDestination,
+  parseDiskDestination,
+  restoreTarget,
+} from "./statements";
+
+const table = { scope: "table" as const, database: "analytics", table: "events" };
+const disk = { disk: "backups", path: "analytics/events/20261019-020000" };
+
+describe("backup statements", () => {
+  it("backs a table up to a disk, asynchronously", () => {
+    expect(buildBackupStatement(table, disk)).toBe(
+      "BACKUP TABLE `analytics`.`events` TO Disk('backups', 'analytics/events/20261019-020000') ASYNC",
+    );
+  });
+
+  it("restores a database under another name into non-empty tables", () => {
+    const statement = buildRestoreStatement({ scope: "database", database: "analytics" }, disk, {
+      as: { database: "analytics_restored" },
+      allowNonEmpty: true,
+    });
+    expect(statement).toBe(
+      "RESTORE DATABASE `analytics` AS `analytics_restored` FROM Disk('backups', 'analytics/events/20261019-020000') SETTINGS allow_non_empty_tables = true ASYNC",
+    );
+  });
+
+  it("keeps the table name when a restore only renames the database", () => {
+    expect(buildRestoreStatement(table, disk, { as: { database: "staging" } })).toContain("AS `staging`.`events` FROM");
+  });
+
+  it("resolves where a restore writes", () => {
+    const restore = { connectionId: "c1", destination: formatDiskDestination(disk), allowNonEmpty: false, ...table };
+    expect(restoreTarget(restore)).toEqual(table);
+    expect(restoreTarget({ ...restore, targetDatabase: "staging" })).toEqual({ ...table, database: "staging" });
+    expect(restoreTarget({ ...restore, scope: "database", targetTable: "ignored" })).toEqual({ scope: "database", database: "analytics", table: undefined });
+  });
+
+  it("rejects identifiers that are not plain names", () => {
+    expect(() => buildBackupStatement({ ...table, table: "events`; DROP" }, disk)).toThrow(/Invalid SQL identifier/);
+  });
+
+  it("names backups by target and UTC time", () => {
+    expect(backupPath(table, Date.UTC(2026, 9, 19, 2, 0, 5))).toBe("analytics/events/20261019-020005");
+    expect(backupPath({ scope: "database", database: "analytics" }, Date.UTC(2026, 0, 1))).toBe("analytics/_database/20260101-000000");
+  });
+
+  it("round-trips Disk() destinations, quotes included", () => {
+    const odd = { disk: "backups", path: "it's/here" };
+    expect(formatDiskDestination(odd)).toBe("Disk('backups', 'it\\'s/here')");
+    expect(parseDiskDestination(formatDiskDestination(odd))).toEqual(odd);
+    expect(parseDiskDestination("S3('https://bucket/path')")).toBeNull();
+    expect(parseDiskDestination("Disk('backups', '')")).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * BACKUP / RESTORE statement builders. Every statement runs ASYNC: ClickHouse
+ * answers with the operation id straight away and reports progress and the
+ * outcome in system.backups, which the scheduler reconciles into the catalog.
+ *
+ * Identifiers go through escapeQualifiedIdentifier and destinations are always
+ * re-rendered from a parsed (disk, path) pair, so user input never reaches the
+ * statement verbatim.
+ */
+
+import { escapeQualifiedIdentifier } from "../../utils/sqlIdentifier";
+import type { BackupScope, StartRestoreInput } from "./types";
+
+export interface BackupTarget {
+  scope: BackupScope;
+  database: string;
+  table?: string | null;
+}
+
+export interface DiskDestination {
+  disk: string;
+  path: string;
+}
+
+function quoteString(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+function unquoteString(value: string): string {
+  return value.replace(/\\(.)/g, "$1");
+}
+
+/** `TABLE \`db\`.\`t\`` or `DATABASE \`db\``. */
+export function targetClause(target: BackupTarget): string {
+  return target.scope === "table"
+    ? `TABLE ${escapeQualifiedIdentifier([target.database, target.table ?? ""])}`
+    : `DATABASE ${escapeQualifiedIdentifier([target.database])}`;
+}
+
+/** Disk('disk', 'path') — the form system.backups.name reports. */
+export function formatDiskDestination({ disk, path }: DiskDestination): string {
+  return `Disk(${quoteString(disk)}, ${quoteString(path)})`;
+}
+
+/** Parse a Disk('disk', 'path') destination; anything else is null. */
+export function parseDiskDestination(value: string): DiskDestination | null {
+  const match = /^\s*Disk\(\s*'((?:[^'\\]|\\.)*)'\s*,\s*'((?:[^'\\]|\\.)*)'\s*\)\s*$/.exec(value);
+  if (!match) return null;
+  const disk = unquoteString(match[1]);
+  const path = unquoteString(match[2]);
+  return disk && path ? { disk, path } : null;
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+/**
+ * Where a new backup goes on its disk: `<database>/<table or _database>/<UTC stamp>`,
+ * so every backup of the same target sits in one folder, oldest first.
+ */
+export function backupPath(target: BackupTarget, atMs: number): string {
+  const d = new Date(atMs);
+  const stamp = `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}-${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}`;
+  return `${target.database}/${target.scope === "table" ? target.table : "_database"}/${stamp}`;
+}
+
+export function buildBackupStatement(target: BackupTarget, destination: DiskDestination): string {
+  return `BACKUP ${targetClause(target)} TO ${formatDiskDestination(destination)} ASYNC`;
+}
+
+export interface RestoreOptions {
+  /** Restore under another name; defaults to the original. */
+  as?: { database: string; table?: string | null };
+  /** Restore into tables that already hold data. */
+  allowNonEmpty?: boolean;
+}
+
+export function buildRestoreStatement(target: BackupTarget, source: DiskDestination, options: RestoreOptions = {}): string {
+  let statement = `RESTORE ${targetClause(target)}`;
+  if (options.as) {
+    statement += target.scope === "table"
+      ? ` AS ${escapeQualifiedIdentifier([options.as.database, options.as.table || (target.table ?? "")])}`
+      : ` AS ${escapeQualifiedIdentifier([options.as.database])}`;
+  }
+  statement += ` FROM ${formatDiskDestination(source)}`;
+  if (options.allowNonEmpty) statement += " SETTINGS allow_non_empty_tables = true";
+  return `${statement} ASYNC`;
+}
+
+/** Where a restore writes: the `AS` name when given, else the original. */
+export function restoreTarget(input: StartRestoreInput): BackupTarget {
+  return {
+    scope: input.scope,
+    database: input.targetDatabase || input.database,
+    table: input.scope === "table" ? input.targetTable || input.table : undefined,
+  };
+}
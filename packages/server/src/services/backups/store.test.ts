@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { sql } from "drizzle-orm";
+
+import { closeDatabase } from "../../rbac/db";
+import { runMigrations } from "../../rbac/db/migrations";
+import { freshDatabase, rawRun } from "../../rbac/db/migrationTestHarness";
+import * as store from "./store";
+import { backupScheduleInputSchema } from "./types";
+
+const scheduleInput = backupScheduleInputSchema.parse({
+  connectionId: "conn-1",
+  name: "Nightly events",
+  scope: "table",
+  database: "analytics",
+  table: "events",
+  disk: "backups",
+  frequency: "daily",
+});
+
+beforeEach(async () => {
+  await freshDatabase("sqlite");
+  await runMigrations({ skipSeed: true });
+  await rawRun(sql`
+    INSERT INTO rbac_users (id, email, username, display_name, password_hash, is_active, created_at, updated_at)
+    VALUES ('user-1', 'one@example.com', 'one', 'User One', 'x', 1, 1, 1)
+  `);
+  await rawRun(sql`
+    INSERT INTO rbac_clickhouse_connections (id, name, host, port, username)
+    VALUES ('conn-1', 'prod', 'localhost', 8123, 'default')
+  `);
+});
+
+afterEach(async () => {
+  await closeDatabase();
+});
+
+describe("backups store", () => {
+  it("creates schedules with the connection name joined in and the first slot still ahead", async () => {
+    const before = Date.now();
+    const schedule = await store.createSchedule(scheduleInput, "user-1");
+
+    expect(schedule).toMatchObject({ connectionName: "prod", table: "events", enabled: true });
+    expect(schedule.lastRunAt).toBeGreaterThanOrEqual(before);
+    expect((await store.listEnabledSchedules()).map((s) => s.id)).toEqual([schedule.id]);
+  });
+
+  it("lets exactly one caller claim a slot", async () => {
+    const schedule = await store.createSchedule(scheduleInput, "user-1");
+    const fireAt = schedule.lastRunAt + 60_000;
+
+    expect(await store.claimScheduleSlot(schedule.id, fireAt, fireAt + 1)).toBe(true);
+    expect(await store.claimScheduleSlot(schedule.id, fireAt, fireAt + 2)).toBe(false);
+  });
+
+  it("finishes a running operation only once", async () => {
+    const op = await store.insertOperation({
+      connectionId: "conn-1",
+      scheduleId: null,
+      kind: "restore",
+      backupId: "b-1",
+      destination: "Disk('backups', 'analytics/events/1')",
+      scope: "table",
+      database: "analytics",
+      table: "events",
+      statement: "RESTORE TABLE analytics.events FROM Disk('backups', 'analytics/events/1') ASYNC",
+      status: "running",
+      error: null,
+      startedBy: "user-1",
+    });
+    expect(op.startedByName).toBe("User One");
+
+    const outcome = { status: "failed" as const, error: "TABLE_ALREADY_EXISTS", totalSize: null, numFiles: null };
+    expect(await store.finishOperation(op.id, outcome)).toBe(true);
+    expect(await store.finishOperation(op.id, outcome)).toBe(false);
+    expect(await store.listRunningOperations()).toEqual([]);
+  });
+});
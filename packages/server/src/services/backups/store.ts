@@ -0,0 +1,286 @@
+/**
+ * Backups store — dialect-aware persistence over backup_schedules and
+ * backup_operations. Mirrors the low-level `all`/`run`/`execChanges` helper
+ * shape of `scheduledQueries/store.ts`.
+ *
+ * The schedule row is the scheduler lease: `claimScheduleSlot` is one atomic
+ * conditional UPDATE on last_run_at, so with several replicas only one starts
+ * a given slot. Operation status moves out of `running` the same way
+ * (`finishOperation`), so exactly one reconciler reports each outcome.
+ * Booleans persist as 0/1, timestamps as millisecond integers.
+ */
+
+import { randomUUID } from "crypto";
+import { sql } from "drizzle-orm";
+
+import { getDatabase, getDatabaseType, type PostgresDb, type SqliteDb } from "../../rbac/db";
+import {
+  BACKUP_FREQUENCIES,
+  BACKUP_OPERATION_STATUSES,
+  type BackupFrequency,
+  type BackupKind,
+  type BackupOperationRow,
+  type BackupOperationStatus,
+  type BackupScheduleInput,
+  type BackupScheduleRow,
+  type BackupScope,
+} from "./types";
+
+// --- low-level dialect-aware helpers ----------------------------------------
+
+async function all(stmt: ReturnType<typeof sql>): Promise<Array<Record<string, unknown>>> {
+  const db = getDatabase();
+  if (getDatabaseType() === "sqlite") {
+    return (db as SqliteDb).all(stmt) as Array<Record<string, unknown>>;
+  }
+  const res = await (db as PostgresDb).execute(stmt);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const anyRes = res as any;
+  return (Array.isArray(anyRes) ? anyRes : anyRes.rows ?? []) as Array<Record<string, unknown>>;
+}
+
+async function run(stmt: ReturnType<typeof sql>): Promise<void> {
+  const db = getDatabase();
+  if (getDatabaseType() === "sqlite") {
+    (db as SqliteDb).run(stmt);
+    return;
+  }
+  await (db as PostgresDb).execute(stmt);
+}
+
+/** Run a write statement and return the affected-row count (the lease primitive). */
+async function execChanges(stmt: ReturnType<typeof sql>): Promise<number> {
+  const db = getDatabase();
+  if (getDatabaseType() === "sqlite") {
+    const res = (db as SqliteDb).run(stmt) as unknown as { changes?: number };
+    return Number(res?.changes ?? 0);
+  }
+  const res = await (db as PostgresDb).execute(stmt);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const anyRes = res as any;
+  return Number(anyRes?.count ?? anyRes?.rowCount ?? 0);
+}
+
+const bool = (v: unknown): boolean => Number(v) === 1;
+const numOrNull = (v: unknown): number | null => (v == null ? null : Number(v));
+const strOrNull = (v: unknown): string | null => (v == null ? null : String(v));
+
+function toScope(v: unknown): BackupScope {
+  return v === "database" ? "database" : "table";
+}
+
+function toFrequency(v: unknown): BackupFrequency {
+  return (BACKUP_FREQUENCIES as readonly unknown[]).includes(v) ? (v as BackupFrequency) : "daily";
+}
+
+function toStatus(v: unknown): BackupOperationStatus {
+  return (BACKUP_OPERATION_STATUSES as readonly unknown[]).includes(v) ? (v as BackupOperationStatus) : "running";
+}
+
+// --- schedules --------------------------------------------------------------
+
+function toSchedule(r: Record<string, unknown>): BackupScheduleRow {
+  return {
+    id: String(r.id),
+    connectionId: String(r.connection_id),
+    connectionName: strOrNull(r.connection_name),
+    name: String(r.name),
+    scope: toScope(r.scope),
+    database: String(r.database_name),
+    table: strOrNull(r.table_name),
+    disk: String(r.disk),
+    frequency: toFrequency(r.frequency),
+    hour: Number(r.hour ?? 0),
+    dayOfWeek: Number(r.day_of_week ?? 0),
+    dayOfMonth: Number(r.day_of_month ?? 1),
+    cronExpr: strOrNull(r.cron_expr),
+    timezone: String(r.timezone ?? "UTC"),
+    enabled: bool(r.enabled),
+    lastRunAt: Number(r.last_run_at ?? 0),
+    createdBy: strOrNull(r.created_by),
+    createdAt: Number(r.created_at ?? 0),
+    updatedAt: Number(r.updated_at ?? 0),
+  };
+}
+
+const SELECT_SCHEDULE = sql.raw(`
+  SELECT s.*, c.name AS connection_name
+  FROM backup_schedules s
+  LEFT JOIN rbac_clickhouse_connections c ON c.id = s.connection_id
+`);
+
+/** Schedules, optionally for one connection, by name. */
+export async function listSchedules(connectionId?: string): Promise<BackupScheduleRow[]> {
+  const where = connectionId ? sql`WHERE s.connection_id = ${connectionId}` : sql``;
+  const rows = await all(sql`${SELECT_SCHEDULE} ${where} ORDER BY s.name ASC, s.id ASC`);
+  return rows.map(toSchedule);
+}
+
+export async function listEnabledSchedules(): Promise<BackupScheduleRow[]> {
+  const rows = await all(sql`${SELECT_SCHEDULE} WHERE s.enabled = 1`);
+  return rows.map(toSchedule);
+}
+
+export async function getSchedule(id: string): Promise<BackupScheduleRow | null> {
+  const rows = await all(sql`${SELECT_SCHEDULE} WHERE s.id = ${id} LIMIT 1`);
+  return rows.length > 0 ? toSchedule(rows[0]) : null;
+}
+
+/**
+ * Create a schedule. last_run_at starts at creation time, so the first backup
+ * runs at the next slot rather than immediately for a slot already past.
+ */
+export async function createSchedule(input: BackupScheduleInput, createdBy: string | null): Promise<BackupScheduleRow> {
+  const id = randomUUID();
+  const now = Date.now();
+  await run(sql`
+    INSERT INTO backup_schedules (
+      id, connection_id, name, scope, database_name, table_name, disk,
+      frequency, hour, day_of_week, day_of_month, cron_expr, timezone,
+      enabled, last_run_at, created_by, created_at, updated_at
+    ) VALUES (
+      ${id}, ${input.connectionId}, ${input.name}, ${input.scope}, ${input.database},
+      ${input.scope === "table" ? input.table ?? null : null}, ${input.disk},
+      ${input.frequency}, ${input.hour}, ${input.dayOfWeek}, ${input.dayOfMonth}, ${input.cronExpr ?? null}, ${input.timezone},
+      ${input.enabled ? 1 : 0}, ${now}, ${createdBy}, ${now}, ${now}
+    )
+  `);
+  return (await getSchedule(id))!;
+}
+
+export async function updateSchedule(id: string, input: BackupScheduleInput): Promise<BackupScheduleRow | null> {
+  await run(sql`
+    UPDATE backup_schedules SET
+      connection_id = ${input.connectionId}, name = ${input.name}, scope = ${input.scope},
+      database_name = ${input.database}, table_name = ${input.scope === "table" ? input.table ?? null : null},
+      disk = ${input.disk}, frequency = ${input.frequency}, hour = ${input.hour},
+      day_of_week = ${input.dayOfWeek}, day_of_month = ${input.dayOfMonth}, cron_expr = ${input.cronExpr ?? null},
+      timezone = ${input.timezone}, enabled = ${input.enabled ? 1 : 0},
+      updated_at = ${Date.now()}
+    WHERE id = ${id}
+  `);
+  return getSchedule(id);
+}
+
+export async function deleteSchedule(id: string): Promise<boolean> {
+  return (await execChanges(sql`DELETE FROM backup_schedules WHERE id = ${id}`)) === 1;
+}
+
+/**
+ * Atomically claim the slot at `fireAt` for a schedule. True when this call
+ * won it (the caller starts the backup); false when the slot was already taken.
+ */
+export async function claimScheduleSlot(id: string, fireAt: number, now: number): Promise<boolean> {
+  const changes = await execChanges(sql`
+    UPDATE backup_schedules SET last_run_at = ${now}
+    WHERE id = ${id} AND last_run_at < ${fireAt}
+  `);
+  return changes === 1;
+}
+
+// --- operations -------------------------------------------------------------
+
+function toOperation(r: Record<string, unknown>): BackupOperationRow {
+  return {
+    id: String(r.id),
+    connectionId: String(r.connection_id),
+    scheduleId: strOrNull(r.schedule_id),
+    scheduleName: strOrNull(r.schedule_name),
+    kind: r.kind === "restore" ? "restore" : "backup",
+    backupId: strOrNull(r.backup_id),
+    destination: String(r.destination),
+    scope: toScope(r.scope),
+    database: String(r.database_name),
+    table: strOrNull(r.table_name),
+    statement: String(r.statement),
+    status: toStatus(r.status),
+    error: strOrNull(r.error),
+    totalSize: numOrNull(r.total_size),
+    numFiles: numOrNull(r.num_files),
+    startedBy: strOrNull(r.started_by),
+    startedByName: strOrNull(r.started_by_name),
+    startedAt: Number(r.started_at ?? 0),
+    finishedAt: numOrNull(r.finished_at),
+  };
+}
+
+const SELECT_OPERATION = sql.raw(`
+  SELECT o.*, s.name AS schedule_name, COALESCE(u.display_name, u.username) AS started_by_name
+  FROM backup_operations o
+  LEFT JOIN backup_schedules s ON s.id = o.schedule_id
+  LEFT JOIN rbac_users u ON u.id = o.started_by
+`);
+
+export interface InsertOperationInput {
+  connectionId: string;
+  scheduleId: string | null;
+  kind: BackupKind;
+  backupId: string | null;
+  destination: string;
+  scope: BackupScope;
+  database: string;
+  table: string | null;
+  statement: string;
+  status: BackupOperationStatus;
+  error: string | null;
+  startedBy: string | null;
+}
+
+export async function insertOperation(input: InsertOperationInput): Promise<BackupOperationRow> {
+  const id = randomUUID();
+  const now = Date.now();
+  const finishedAt = input.status === "running" ? null : now;
+  await run(sql`
+    INSERT INTO backup_operations (
+      id, connection_id, schedule_id, kind, backup_id, destination, scope, database_name, table_name,
+      statement, status, error, started_by, started_at, finished_at
+    ) VALUES (
+      ${id}, ${input.connectionId}, ${input.scheduleId}, ${input.kind}, ${input.backupId}, ${input.destination},
+      ${input.scope}, ${input.database}, ${input.table}, ${input.statement}, ${input.status}, ${input.error},
+      ${input.startedBy}, ${now}, ${finishedAt}
+    )
+  `);
+  return (await getOperation(id))!;
+}
+
+export async function getOperation(id: string): Promise<BackupOperationRow | null> {
+  const rows = await all(sql`${SELECT_OPERATION} WHERE o.id = ${id} LIMIT 1`);
+  return rows.length > 0 ? toOperation(rows[0]) : null;
+}
+
+/** A connection's operations, newest first. */
+export async function listOperations(connectionId: string, limit = 200): Promise<BackupOperationRow[]> {
+  const rows = await all(sql`
+    ${SELECT_OPERATION}
+    WHERE o.connection_id = ${connectionId}
+    ORDER BY o.started_at DESC, o.id DESC
+    LIMIT ${limit}
+  `);
+  return rows.map(toOperation);
+}
+
+export async function listRunningOperations(): Promise<BackupOperationRow[]> {
+  const rows = await all(sql`${SELECT_OPERATION} WHERE o.status = 'running' ORDER BY o.started_at ASC`);
+  return rows.map(toOperation);
+}
+
+export interface OperationOutcome {
+  status: Exclude<BackupOperationStatus, "running">;
+  error: string | null;
+  totalSize: number | null;
+  numFiles: number | null;
+}
+
+/**
+ * Move a running operation to its outcome. True only for the call that made
+ * the move, so a failure is alerted once even with several reconcilers.
+ */
+export async function finishOperation(id: string, outcome: OperationOutcome): Promise<boolean> {
+  const changes = await execChanges(sql`
+    UPDATE backup_operations
+    SET status = ${outcome.status}, error = ${outcome.error}, total_size = ${outcome.totalSize},
+        num_files = ${outcome.numFiles}, finished_at = ${Date.now()}
+    WHERE id = ${id} AND status = 'running'
+  `);
+  return changes === 1;
+}
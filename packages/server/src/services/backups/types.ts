@@ -0,0 +1,163 @@
+/**
+ * Backups — shared types and Zod (v3) schemas.
+ *
+ * ClickHouse runs BACKUP / RESTORE itself and reports them in system.backups,
+ * which only lives in server memory. CHouse UI keeps its own catalog of the
+ * operations it started (backup_operations) so history, and the user and
+ * schedule behind each backup, survive a ClickHouse restart. Schedules
+ * (backup_schedules) reuse the Scheduled Queries cadence engine; the schedule
+ * row is its own scheduler lease (`last_run_at`). Timestamps persist as
+ * millisecond integers in both dialects.
+ */
+
+import { z } from "zod";
+
+export const BACKUP_SCOPES = ["table", "database"] as const;
+export type BackupScope = (typeof BACKUP_SCOPES)[number];
+
+export const BACKUP_KINDS = ["backup", "restore"] as const;
+export type BackupKind = (typeof BACKUP_KINDS)[number];
+
+/** Catalog status; `running` until system.backups reports a terminal state. */
+export const BACKUP_OPERATION_STATUSES = ["running", "succeeded", "failed"] as const;
+export type BackupOperationStatus = (typeof BACKUP_OPERATION_STATUSES)[number];
+
+/** Clock cadences a backup schedule accepts (no `manual` / `event`). */
+export const BACKUP_FREQUENCIES = ["daily", "weekly", "monthly", "cron"] as const;
+export type BackupFrequency = (typeof BACKUP_FREQUENCIES)[number];
+
+/** system.backups statuses that end an operation. */
+export const BACKUP_SUCCESS_STATUSES = ["BACKUP_CREATED", "RESTORED"];
+export const BACKUP_FAILURE_STATUSES = ["BACKUP_FAILED", "RESTORE_FAILED", "BACKUP_CANCELLED", "RESTORE_CANCELLED"];
+
+export interface BackupScheduleRow {
+  id: string;
+  connectionId: string;
+  connectionName: string | null;
+  name: string;
+  scope: BackupScope;
+  database: string;
+  table: string | null;
+  disk: string;
+  frequency: BackupFrequency;
+  hour: number;
+  dayOfWeek: number;
+  dayOfMonth: number;
+  cronExpr: string | null;
+  timezone: string;
+  enabled: boolean;
+  lastRunAt: number;
+  createdBy: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface BackupOperationRow {
+  id: string;
+  connectionId: string;
+  scheduleId: string | null;
+  scheduleName: string | null;
+  kind: BackupKind;
+  /** ClickHouse operation id (system.backups.id); null when the statement was rejected outright. */
+  backupId: string | null;
+  /** Backup destination, e.g. Disk('backups', 'db/events/20261019-080000') */
+  destination: string;
+  scope: BackupScope;
+  database: string;
+  table: string | null;
+  statement: string;
+  status: BackupOperationStatus;
+  error: string | null;
+  totalSize: number | null;
+  numFiles: number | null;
+  startedBy: string | null;
+  startedByName: string | null;
+  startedAt: number;
+  finishedAt: number | null;
+}
+
+/** A system.backups row, with live progress for running operations. */
+export interface SystemBackupRow {
+  id: string;
+  name: string;
+  status: string;
+  error: string;
+  /** Epoch ms; 0 while unset (end_time of a running operation). */
+  startTime: number;
+  endTime: number;
+  numFiles: number;
+  totalSize: number;
+  uncompressedSize: number;
+  compressedSize: number;
+  filesRead: number;
+  bytesRead: number;
+}
+
+/** One entry of the Backups list — live state from ClickHouse joined with the catalog. */
+export interface BackupListEntry {
+  system: SystemBackupRow | null;
+  operation: BackupOperationRow | null;
+}
+
+// --- request schemas ----------------------------------------------------------
+
+const identifier = z.string().trim().min(1).max(64);
+
+const scopeFields = {
+  scope: z.enum(BACKUP_SCOPES),
+  database: identifier,
+  table: identifier.optional(),
+};
+
+function tableMatchesScope(v: { scope: BackupScope; table?: string }): boolean {
+  return v.scope === "database" || Boolean(v.table);
+}
+const TABLE_REQUIRED = { message: "Table is required for a table backup", path: ["table"] };
+
+export const startBackupSchema = z
+  .object({
+    connectionId: z.string().min(1),
+    ...scopeFields,
+    disk: identifier,
+  })
+  .refine(tableMatchesScope, TABLE_REQUIRED);
+
+export type StartBackupInput = z.infer<typeof startBackupSchema>;
+
+export const startRestoreSchema = z
+  .object({
+    connectionId: z.string().min(1),
+    /** The backup to restore from, as system.backups names it: Disk('disk', 'path'). */
+    destination: z.string().trim().min(1).max(1024),
+    ...scopeFields,
+    /** Restore under another name (`AS`); defaults to the original. */
+    targetDatabase: identifier.optional(),
+    targetTable: identifier.optional(),
+    /** Restore into a table or database that already holds data. */
+    allowNonEmpty: z.boolean().default(false),
+  })
+  .refine(tableMatchesScope, TABLE_REQUIRED);
+
+export type StartRestoreInput = z.infer<typeof startRestoreSchema>;
+
+export const backupScheduleInputSchema = z
+  .object({
+    connectionId: z.string().min(1),
+    name: z.string().trim().min(1).max(200),
+    ...scopeFields,
+    disk: identifier,
+    frequency: z.enum(BACKUP_FREQUENCIES),
+    hour: z.number().int().min(0).max(23).default(2),
+    dayOfWeek: z.number().int().min(0).max(6).default(0),
+    dayOfMonth: z.number().int().min(1).max(28).default(1),
+    cronExpr: z.string().trim().max(200).nullable().optional(),
+    timezone: z.string().trim().min(1).max(64).default("UTC"),
+    enabled: z.boolean().default(true),
+  })
+  .refine(tableMatchesScope, TABLE_REQUIRED);
+
+export type BackupScheduleInput = z.infer<typeof backupScheduleInputSchema>;
+
+export const listBackupsQuerySchema = z.object({
+  connectionId: z.string().min(1),
+});
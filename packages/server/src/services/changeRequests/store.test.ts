@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { sql } from "drizzle-orm";
+
+import { closeDatabase } from "../../rbac/db";
+import { runMigrations } from "../../rbac/db/migrations";
+import { freshDatabase, rawRun } from "../../rbac/db/migrationTestHarness";
+import * as store from "./store";
+import type { ChangeRequestInput } from "./types";
+
+function requestInput(requestedBy: string, statement = "ALTER TABLE db.t DELETE WHERE id = 1"): ChangeRequestInput {
+  return {
+    connectionId: "conn-1",
+    requestedBy,
+    statement,
+    operationType: "ALTER",
+    targetDatabase: "db",
+    targetTable: "t",
+    impact: null,
+    ddlBefore: "CREATE TABLE db.t (id UInt64) ENGINE = MergeTree ORDER BY id",
+  };
+}
+
+beforeEach(async () => {
+  await freshDatabase("sqlite");
+  await runMigrations({ skipSeed: true });
+  await rawRun(sql`
+    INSERT INTO rbac_users (id, email, username, display_name, password_hash, is_active, created_at, updated_at)
+    VALUES ('user-1', 'one@example.com', 'one', 'User One', 'x', 1, 1, 1),
+           ('user-2', 'two@example.com', 'two', NULL, 'x', 1, 1, 1)
+  `);
+  await rawRun(sql`
+    INSERT INTO rbac_clickhouse_connections (id, name, host, port, username, is_protected)
+    VALUES ('conn-1', 'prod', 'localhost', 8123, 'default', 1)
+  `);
+});
+
+afterEach(async () => {
+  await closeDatabase();
+});
+
+describe("change requests store", () => {
+  it("creates pending requests with connection and user names joined in", async () => {
+    const created = await store.createChangeRequest(requestInput("user-1"));
+
+    expect(created).toMatchObject({
+      status: "pending",
+      connectionName: "prod",
+      requesterName: "User One",
+      reviewedBy: null,
+      ddlBefore: requestInput("user-1").ddlBefore,
+    });
+  });
+
+  it("lists everyone's requests or only the requester's own", async () => {
+    const mine = await store.createChangeRequest(requestInput("user-1"));
+    const theirs = await store.createChangeRequest(requestInput("user-2"));
+
+    expect((await store.listChangeRequests()).map((r) => r.id).sort()).toEqual([mine.id, theirs.id].sort());
+    expect((await store.listChangeRequests({ requestedBy: "user-2" })).map((r) => r.id)).toEqual([theirs.id]);
+    expect(await store.listChangeRequests({ status: "executed" })).toEqual([]);
+  });
+
+  it("records only the first review decision", async () => {
+    const created = await store.createChangeRequest(requestInput("user-1"));
+
+    const approved = await store.reviewChangeRequest(created.id, "approved", "user-2", "looks fine");
+    expect(approved).toMatchObject({ status: "approved", reviewerName: "two", reviewComment: "looks fine" });
+    expect(await store.reviewChangeRequest(created.id, "rejected", "user-2", null)).toBeNull();
+  });
+
+  it("completes approved requests only", async () => {
+    const created = await store.createChangeRequest(requestInput("user-1"));
+    const outcome = { status: "executed" as const, ddlAfter: "", error: null };
+
+    expect(await store.completeChangeRequest(created.id, outcome)).toMatchObject({ status: "pending", executedAt: null });
+
+    await store.reviewChangeRequest(created.id, "approved", "user-2", null);
+    const executed = await store.completeChangeRequest(created.id, outcome);
+    expect(executed).toMatchObject({ status: "executed", ddlAfter: "" });
+    expect(executed?.executedAt).toBeNumber();
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Change requests store — dialect-aware persistence over rbac_change_requests.
+ * Mirrors the low-level `all`/`run` helper shape of `dashboards/store.ts`.
+ *
+ * Reads join the connection and user names in so the approval queue renders
+ * without extra lookups. The impact estimate persists as JSON, timestamps as
+ * millisecond integers.
+ */
+
+import { randomUUID } from "crypto";
+import { sql } from "drizzle-orm";
+
+import { getDatabase, getDatabaseType, type PostgresDb, type SqliteDb } from "../../rbac/db";
+import type { DdlImpactEstimate } from "../../types";
+import {
+  CHANGE_REQUEST_STATUSES,
+  type ChangeRequestInput,
+  type ChangeRequestRow,
+  type ChangeRequestStatus,
+} from "./types";
+
+async function all(statement: ReturnType<typeof sql>): Promise<Array<Record<string, unknown>>> {
+  const db = getDatabase();
+  if (getDatabaseType() === "sqlite") {
+    return (db as SqliteDb).all(statement) as Array<Record<string, unknown>>;
+  }
+  const result = await (db as PostgresDb).execute(statement);
+  const wrapped = result as unknown as { rows?: Array<Record<string, unknown>> };
+  return Array.isArray(result) ? result as unknown as Array<Record<string, unknown>> : wrapped.rows ?? [];
+}
+
+async function run(statement: ReturnType<typeof sql>): Promise<void> {
+  const db = getDatabase();
+  if (getDatabaseType() === "sqlite") {
+    (db as SqliteDb).run(statement);
+    return;
+  }
+  await (db as PostgresDb).execute(statement);
+}
+
+function str(value: unknown): string | null {
+  return value == null ? null : String(value);
+}
+
+function num(value: unknown): number | null {
+  return value == null ? null : Number(value);
+}
+
+function parseImpact(raw: unknown): DdlImpactEstimate | null {
+  if (typeof raw !== "string" || raw.length === 0) return null;
+  try {
+    return JSON.parse(raw) as DdlImpactEstimate;
+  } catch {
+    return null;
+  }
+}
+
+function parseStatus(raw: unknown): ChangeRequestStatus {
+  const status = String(raw) as ChangeRequestStatus;
+  return CHANGE_REQUEST_STATUSES.includes(status) ? status : "pending";
+}
+
+function toRow(row: Record<string, unknown>): ChangeRequestRow {
+  return {
+    id: String(row.id),
+    connectionId: String(row.connection_id),
+    connectionName: str(row.connection_name),
+    requestedBy: str(row.requested_by),
+    requesterName: str(row.requester_name),
+    statement: String(row.statement),
+    operationType: String(row.operation_type),
+    targetDatabase: str(row.target_database),
+    targetTable: str(row.target_table),
+    impact: parseImpact(row.impact),
+    ddlBefore: str(row.ddl_before),
+    ddlAfter: str(row.ddl_after),
+    status: parseStatus(row.status),
+    reviewedBy: str(row.reviewed_by),
+    reviewerName: str(row.reviewer_name),
+    reviewComment: str(row.review_comment),
+    error: str(row.error),
+    createdAt: Number(row.created_at),
+    reviewedAt: num(row.reviewed_at),
+    executedAt: num(row.executed_at),
+  };
+}
+
+const SELECT = sql.raw(`
+  SELECT cr.*,
+         c.name AS connection_name,
+         COALESCE(ru.display_name, ru.username) AS requester_name,
+         COALESCE(vu.display_name, vu.username) AS reviewer_name
+  FROM rbac_change_requests cr
+  LEFT JOIN rbac_clickhouse_connections c ON c.id = cr.connection_id
+  LEFT JOIN rbac_users ru ON ru.id = cr.requested_by
+  LEFT JOIN rbac_users vu ON vu.id = cr.reviewed_by
+`);
+
+export interface ListChangeRequestsOptions {
+  status?: ChangeRequestStatus;
+  /** Only requests submitted by this user (null ⇒ everyone's) */
+  requestedBy?: string | null;
+  limit?: number;
+}
+
+/** Change requests, newest first. */
+export async function listChangeRequests(options: ListChangeRequestsOptions = {}): Promise<ChangeRequestRow[]> {
+  const filters = [sql`1 = 1`];
+  if (options.status) filters.push(sql`cr.status = ${options.status}`);
+  if (options.requestedBy) filters.push(sql`cr.requested_by = ${options.requestedBy}`);
+
+  const rows = await all(sql`
+    ${SELECT}
+    WHERE ${sql.join(filters, sql` AND `)}
+    ORDER BY cr.created_at DESC, cr.id DESC
+    LIMIT ${options.limit ?? 100}
+  `);
+  return rows.map(toRow);
+}
+
+export async function getChangeRequest(id: string): Promise<ChangeRequestRow | null> {
+  const rows = await all(sql`${SELECT} WHERE cr.id = ${id} LIMIT 1`);
+  return rows.length > 0 ? toRow(rows[0]) : null;
+}
+
+export async function createChangeRequest(input: ChangeRequestInput): Promise<ChangeRequestRow> {
+  const id = randomUUID();
+  await run(sql`
+    INSERT INTO rbac_change_requests (
+      id, connection_id, requested_by, statement, operation_type, target_database, target_table,
+      impact, ddl_before, status, created_at
+    )
+    VALUES (
+      ${id}, ${input.connectionId}, ${input.requestedBy}, ${input.statement}, ${input.operationType},
+      ${input.targetDatabase}, ${input.targetTable},
+      ${input.impact ? JSON.stringify(input.impact) : null}, ${input.ddlBefore}, 'pending', ${Date.now()}
+    )
+  `);
+  return (await getChangeRequest(id))!;
+}
+
+/**
+ * Record a review decision on a pending request. Returns null when the request
+ * is missing or was already reviewed, so two approvers cannot both act on it.
+ */
+export async function reviewChangeRequest(
+  id: string,
+  decision: "approved" | "rejected",
+  reviewedBy: string,
+  comment: string | null,
+): Promise<ChangeRequestRow | null> {
+  const reviewedAt = Date.now();
+  await run(sql`
+    UPDATE rbac_change_requests
+    SET status = ${decision}, reviewed_by = ${reviewedBy}, review_comment = ${comment}, reviewed_at = ${reviewedAt}
+    WHERE id = ${id} AND status = 'pending'
+  `);
+  const row = await getChangeRequest(id);
+  if (!row || row.status !== decision || row.reviewedBy !== reviewedBy || row.reviewedAt !== reviewedAt) {
+    return null;
+  }
+  return row;
+}
+
+/** Record the outcome of executing an approved request. */
+export async function completeChangeRequest(
+  id: string,
+  outcome: { status: "executed" | "failed"; ddlAfter: string | null; error: string | null },
+): Promise<ChangeRequestRow | null> {
+  await run(sql`
+    UPDATE rbac_change_requests
+    SET status = ${outcome.status}, ddl_after = ${outcome.ddlAfter}, error = ${outcome.error}, executed_at = ${Date.now()}
+    WHERE id = ${id} AND status = 'approved'
+  `);
+  return getChangeRequest(id);
+}
@@ -0,0 +1,68 @@
+/**
+ * Change requests — shared types and Zod (v3) schemas.
+ *
+ * DDL and DML sent to a protected connection are not executed; they are held
+ * as a change request until a second user holding change_requests:approve
+ * approves it, at which point the server runs the statement on the
+ * connection's own credentials. A request snapshots what the reviewer needs:
+ * the statement, the mutation impact estimate (ALTER … UPDATE/DELETE only) and
+ * the target table's DDL, captured again after execution for the diff.
+ */
+
+import { z } from "zod";
+
+import type { DdlImpactEstimate } from "../../types";
+
+export const CHANGE_REQUEST_STATUSES = ["pending", "approved", "rejected", "executed", "failed"] as const;
+export type ChangeRequestStatus = (typeof CHANGE_REQUEST_STATUSES)[number];
+
+/** Statuses a request can no longer leave. */
+export const CHANGE_REQUEST_FINAL_STATUSES: readonly ChangeRequestStatus[] = ["rejected", "executed", "failed"];
+
+export interface ChangeRequestRow {
+  id: string;
+  connectionId: string;
+  connectionName: string | null;
+  requestedBy: string | null;
+  requesterName: string | null;
+  statement: string;
+  /** Leading keyword of the statement (ALTER, DROP, INSERT, …) */
+  operationType: string;
+  targetDatabase: string | null;
+  targetTable: string | null;
+  /** Mutation impact estimate; null for statements the simulator does not cover */
+  impact: DdlImpactEstimate | null;
+  /** Target table DDL when the request was submitted */
+  ddlBefore: string | null;
+  /** Target table DDL after execution ('' once the table is gone) */
+  ddlAfter: string | null;
+  status: ChangeRequestStatus;
+  reviewedBy: string | null;
+  reviewerName: string | null;
+  reviewComment: string | null;
+  /** ClickHouse error when execution failed */
+  error: string | null;
+  createdAt: number;
+  reviewedAt: number | null;
+  executedAt: number | null;
+}
+
+export interface ChangeRequestInput {
+  connectionId: string;
+  requestedBy: string;
+  statement: string;
+  operationType: string;
+  targetDatabase: string | null;
+  targetTable: string | null;
+  impact: DdlImpactEstimate | null;
+  ddlBefore: string | null;
+}
+
+export const listChangeRequestsQuerySchema = z.object({
+  status: z.enum(CHANGE_REQUEST_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(100),
+});
+
+export const reviewChangeRequestSchema = z.object({
+  comment: z.string().trim().max(1000).optional(),
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "bun:test";
+
+import { requiresChangeApproval } from "./workflow";
+
+describe("requiresChangeApproval", () => {
+  it("lets reads through", () => {
+    expect(requiresChangeApproval("SELECT * FROM db.t")).toBe(false);
+    expect(requiresChangeApproval("SHOW TABLES FROM db")).toBe(false);
+  });
+
+  it("holds DDL and DML", () => {
+    expect(requiresChangeApproval("CREATE TABLE db.t (id UInt64) ENGINE = Log")).toBe(true);
+    expect(requiresChangeApproval("ALTER TABLE db.t DELETE WHERE id = 1")).toBe(true);
+    expect(requiresChangeApproval("INSERT INTO db.t VALUES (1)")).toBe(true);
+    expect(requiresChangeApproval("DROP TABLE db.t")).toBe(true);
+  });
+
+  it("holds ClickHouse-specific changes and any write in a batch", () => {
+    expect(requiresChangeApproval("RENAME TABLE db.a TO db.b")).toBe(true);
+    expect(requiresChangeApproval("OPTIMIZE TABLE db.t FINAL")).toBe(true);
+    expect(requiresChangeApproval("RESTORE TABLE db.t FROM Disk('backups', 'db/t') ASYNC")).toBe(true);
+    expect(requiresChangeApproval("SELECT 1; TRUNCATE TABLE db.t")).toBe(true);
+  });
+});
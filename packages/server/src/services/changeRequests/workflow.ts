@@ -0,0 +1,252 @@
+/**
+ * Change request workflow — submit, approve and reject DDL/DML held back on a
+ * protected connection.
+ *
+ * Submission snapshots the impact estimate and target table DDL on the
+ * requester's own session. Approval executes the statement on the
+ * connection's stored credentials (attributed to the requester in query_log)
+ * and snapshots the DDL again for the before/after diff. Every transition is
+ * announced on the connection's approval channels; delivery is best-effort.
+ */
+
+import { ClickHouseService } from "../clickhouse";
+import { parseMutationStatement } from "../ddlSimulator";
+import { getChannel, decryptChannelConfig } from "../alerting/store";
+import { isChannelType } from "../alerting/types";
+import { sendChannelMessage } from "../alerting/deliver";
+import { getConnectionById, getConnectionWithPassword, type ConnectionResponse } from "../../rbac/services/connections";
+import { splitSqlStatements, parseStatement, getAccessTypeFromStatementType } from "../../middleware/sqlParser";
+import { AppError, type DdlImpactEstimate } from "../../types";
+import { logger } from "../../utils/logger";
+import * as store from "./store";
+import type { ChangeRequestRow } from "./types";
+
+/** ClickHouse statements the SQL parser reports as `unknown` that still change schema or data. */
+const CLICKHOUSE_CHANGE_KEYWORDS = /^\s*(RENAME|EXCHANGE|ATTACH|DETACH|UNDROP|OPTIMIZE|RESTORE)\b/i;
+
+function changesSchemaOrData(statement: string): boolean {
+  const access = getAccessTypeFromStatementType(parseStatement(statement).type);
+  return access === "write" || access === "admin" || CLICKHOUSE_CHANGE_KEYWORDS.test(statement);
+}
+
+/** True when any statement in `sql` is DDL or DML. */
+export function requiresChangeApproval(sql: string): boolean {
+  return splitSqlStatements(sql).some(changesSchemaOrData);
+}
+
+/** The connection when it is protected, otherwise null. */
+export async function getProtectedConnection(connectionId: string | undefined): Promise<ConnectionResponse | null> {
+  if (!connectionId) return null;
+  const connection = await getConnectionById(connectionId);
+  return connection?.isProtected ? connection : null;
+}
+
+function errMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// --- notifications ----------------------------------------------------------
+
+const EVENT_TITLES: Record<ChangeRequestRow["status"], string> = {
+  pending: "Change request awaiting approval",
+  approved: "Change request approved",
+  rejected: "Change request rejected",
+  executed: "Change request executed",
+  failed: "Change request failed",
+};
+
+function describeImpact(impact: DdlImpactEstimate): string {
+  return `Impact: ${impact.affected_rows} of ${impact.total_rows} rows, ${impact.parts_to_rewrite} parts `
+    + `(${impact.bytes_to_rewrite} bytes) rewritten, ~${Math.round(impact.est_duration_seconds)}s`
+    + (impact.disk_sufficient ? "" : " — NOT enough free disk");
+}
+
+function notificationText(request: ChangeRequestRow): string {
+  const lines = [
+    `Connection: ${request.connectionName ?? request.connectionId}`,
+    `Requested by: ${request.requesterName ?? "unknown user"}`,
+  ];
+  if (request.reviewerName) lines.push(`Reviewed by: ${request.reviewerName}`);
+  if (request.reviewComment) lines.push(`Comment: ${request.reviewComment}`);
+  if (request.impact) lines.push(describeImpact(request.impact));
+  if (request.error) lines.push(`Error: ${request.error}`);
+  const statement = request.statement.length > 1000 ? `${request.statement.slice(0, 1000)}…` : request.statement;
+  lines.push("", statement);
+  return lines.join("\n");
+}
+
+/** Announce the request's current status on its connection's approval channels. */
+async function notifyChangeRequest(request: ChangeRequestRow): Promise<void> {
+  const connection = await getConnectionById(request.connectionId);
+  const title = `${EVENT_TITLES[request.status]}: ${request.operationType} on ${request.connectionName ?? request.connectionId}`;
+  const text = notificationText(request);
+
+  for (const channelId of connection?.approvalChannelIds ?? []) {
+    try {
+      const channel = await getChannel(channelId);
+      if (!channel || !channel.enabled || !isChannelType(channel.type)) continue;
+      const config = decryptChannelConfig(channel.type, JSON.parse(channel.config) as Record<string, unknown>);
+      await sendChannelMessage(channel.type, config, { title, text });
+    } catch (error) {
+      logger.warn(
+        { module: "ChangeRequests", changeRequestId: request.id, channelId, err: errMessage(error) },
+        "Change request notification failed",
+      );
+    }
+  }
+}
+
+// --- submit -------------------------------------------------------------------
+
+/** The first table touched by a statement that changes something. */
+function changeTarget(sql: string, defaultDatabase?: string): { database: string; table: string } | null {
+  for (const statement of splitSqlStatements(sql)) {
+    if (!changesSchemaOrData(statement)) continue;
+    const table = parseStatement(statement).tables[0];
+    if (table) return { database: table.database ?? defaultDatabase ?? "default", table: table.table };
+  }
+  return null;
+}
+
+function operationTypeOf(sql: string): string {
+  const statement = splitSqlStatements(sql).find(changesSchemaOrData) ?? sql;
+  return statement.trim().split(/\s+/)[0].toUpperCase();
+}
+
+export interface SubmitChangeRequestInput {
+  connectionId: string;
+  requestedBy: string;
+  statement: string;
+  defaultDatabase?: string;
+}
+
+/**
+ * Hold `statement` as a pending change request. The impact estimate and the
+ * DDL snapshot are read through `service` (the requester's session); either
+ * one failing leaves that field empty rather than refusing the request.
+ */
+export async function submitChangeRequest(
+  service: ClickHouseService,
+  input: SubmitChangeRequestInput,
+): Promise<ChangeRequestRow> {
+  const target = changeTarget(input.statement, input.defaultDatabase);
+
+  let impact: DdlImpactEstimate | null = null;
+  const mutation = parseMutationStatement(input.statement);
+  if (mutation.ok) {
+    try {
+      impact = await service.getDdlImpact(mutation.value, input.defaultDatabase);
+    } catch (error) {
+      logger.warn({ module: "ChangeRequests", err: errMessage(error) }, "Impact estimate failed");
+    }
+  }
+
+  let ddlBefore: string | null = null;
+  if (target) {
+    try {
+      ddlBefore = await service.getCreateTableQuery(target.database, target.table);
+    } catch (error) {
+      logger.warn({ module: "ChangeRequests", err: errMessage(error) }, "DDL snapshot failed");
+    }
+  }
+
+  const request = await store.createChangeRequest({
+    connectionId: input.connectionId,
+    requestedBy: input.requestedBy,
+    statement: input.statement,
+    operationType: operationTypeOf(input.statement),
+    targetDatabase: target?.database ?? null,
+    targetTable: target?.table ?? null,
+    impact,
+    ddlBefore,
+  });
+  await notifyChangeRequest(request);
+  return request;
+}
+
+// --- review -------------------------------------------------------------------
+
+/** A service on the connection's stored credentials, attributed to `rbacUserId`. */
+export async function serviceForConnection(connectionId: string, rbacUserId?: string): Promise<ClickHouseService> {
+  const connection = await getConnectionWithPassword(connectionId);
+  if (!connection) throw AppError.notFound("Connection not found");
+  const protocol = connection.sslEnabled ? "https" : "http";
+  return new ClickHouseService({
+    url: `${protocol}://${connection.host}:${connection.port}`,
+    username: connection.username,
+    password: connection.password || "",
+    database: connection.database || undefined,
+  }, { rbacUserId });
+}
+
+async function loadPending(id: string): Promise<ChangeRequestRow> {
+  const request = await store.getChangeRequest(id);
+  if (!request) throw AppError.notFound("Change request not found");
+  if (request.status !== "pending") throw AppError.conflict(`Change request is already ${request.status}`);
+  return request;
+}
+
+/**
+ * Approve a pending request and execute it. The requester cannot approve
+ * their own request. Returns the request in its final state: `executed`, or
+ * `failed` with the ClickHouse error.
+ */
+export async function approveChangeRequest(id: string, reviewerId: string, comment: string | null): Promise<ChangeRequestRow> {
+  const pending = await loadPending(id);
+  if (pending.requestedBy === reviewerId) {
+    throw AppError.forbidden("A change request must be approved by someone other than its requester");
+  }
+
+  const approved = await store.reviewChangeRequest(id, "approved", reviewerId, comment);
+  if (!approved) throw AppError.conflict("Change request was reviewed by someone else");
+  await notifyChangeRequest(approved);
+
+  let error: string | null = null;
+  let ddlAfter: string | null = null;
+  try {
+    const service = await serviceForConnection(approved.connectionId, approved.requestedBy ?? reviewerId);
+    for (const statement of splitSqlStatements(approved.statement)) {
+      await service.executeQuery(statement, "JSON");
+    }
+    if (approved.targetDatabase && approved.targetTable) {
+      ddlAfter = (await service.getCreateTableQuery(approved.targetDatabase, approved.targetTable)) ?? "";
+    }
+  } catch (caught) {
+    error = errMessage(caught);
+  }
+
+  const completed = await store.completeChangeRequest(id, {
+    status: error === null ? "executed" : "failed",
+    ddlAfter,
+    error,
+  });
+  await notifyChangeRequest(completed!);
+  return completed!;
+}
+
+/**
+ * Reject a pending request. Approvers reject; requesters withdraw their own
+ * request the same way.
+ */
+export async function rejectChangeRequest(id: string, reviewerId: string, comment: string | null): Promise<ChangeRequestRow> {
+  await loadPending(id);
+  const rejected = await store.reviewChangeRequest(id, "rejected", reviewerId, comment);
+  if (!rejected) throw AppError.conflict("Change request was reviewed by someone else");
+  await notifyChangeRequest(rejected);
+  return rejected;
+}
+
+/**
+ * The target table's DDL as it is now, for diffing a pending request's
+ * snapshot against drift since it was submitted. Null when unavailable.
+ */
+export async function getCurrentDdl(request: ChangeRequestRow): Promise<string | null> {
+  if (!request.targetDatabase || !request.targetTable) return null;
+  try {
+    const service = await serviceForConnection(request.connectionId);
+    return (await service.getCreateTableQuery(request.targetDatabase, request.targetTable)) ?? "";
+  } catch (error) {
+    logger.warn({ module: "ChangeRequests", changeRequestId: request.id, err: errMessage(error) }, "DDL lookup failed");
+    return null;
+  }
+}
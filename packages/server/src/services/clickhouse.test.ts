@@ -270,6 +270,62 @@ describe("ClickHouse Service", () => {
         });
     });
 
+    describe("killMutation", () => {
+        const target = { database: "demo", table: "events", mutation_id: "0000000004" };
+
+        it("kills ON CLUSTER a known cluster and reports its hosts", async () => {
+            // Consumed in order: mutation lookup, cluster check, KILL MUTATION.
+            mockJsonFn
+                .mockResolvedValueOnce({ data: [{ command: "UPDATE x = 1 WHERE 1", is_done: 0 }] })
+                .mockResolvedValueOnce({ data: [{ c: 2 }] })
+                .mockResolvedValueOnce({ data: [{ host: "ch-1" }, { host: "ch-2" }] });
+
+            const r = await service.killMutation(target, "main-cluster");
+
+            expect(r.hosts).toEqual(["ch-1", "ch-2"]);
+            expect(r.command).toBe("UPDATE x = 1 WHERE 1");
+            const kill = (mockQueryFn as any).mock.calls[2][0];
+            expect(kill.query).toContain("KILL MUTATION ON CLUSTER `main-cluster`");
+            expect(kill.query_params).toEqual({ database: "demo", table: "events", mutationId: "0000000004" });
+        });
+
+        it("rejects clusters the server does not know", async () => {
+            mockJsonFn
+                .mockResolvedValueOnce({ data: [{ command: "DELETE WHERE 1", is_done: 0 }] })
+                .mockResolvedValueOnce({ data: [{ c: 0 }] });
+
+            await expect(service.killMutation(target, "nope")).rejects.toThrow("Unknown cluster 'nope'");
+            expect(mockQueryFn).toHaveBeenCalledTimes(2);
+        });
+
+        it("reports a mutation that no longer exists as not found", async () => {
+            mockJsonFn.mockResolvedValueOnce({ data: [] });
+
+            await expect(service.killMutation(target)).rejects.toThrow("not found");
+        });
+    });
+
+    describe("reloadDictionary", () => {
+        it("reloads a config dictionary by bare name and returns its fresh state", async () => {
+            const loaded = { database: "", name: "geo-regions", status: "LOADED", element_count: "12", last_exception: "" };
+            mockJsonFn
+                .mockResolvedValueOnce({ data: [loaded] })
+                .mockResolvedValueOnce({ data: [loaded] });
+
+            const r = await service.reloadDictionary("", "geo-regions");
+
+            expect((mockCommandFn as any).mock.calls[0][0].query).toBe("SYSTEM RELOAD DICTIONARY `geo-regions`");
+            expect(r.element_count).toBe(12);
+        });
+
+        it("reports an unknown dictionary as not found without reloading", async () => {
+            mockJsonFn.mockResolvedValueOnce({ data: [] });
+
+            await expect(service.reloadDictionary("geo", "missing")).rejects.toThrow("Dictionary geo.missing not found");
+            expect(mockCommandFn).not.toHaveBeenCalled();
+        });
+    });
+
     describe("ping", () => {
         it("should return true on success", async () => {
             const result = await service.ping();
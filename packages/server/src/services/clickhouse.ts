@@ -1,4 +1,5 @@
 import { ClickHouseClient } from "@clickhouse/client";
+import { Readable } from "node:stream";
 import { ClientManager } from "./clientManager";
 import type {
   ConnectionConfig,
@@ -10,6 +11,7 @@ import type {
   ColumnInfo,
 } from "../types";
 import { AppError } from "../types";
+import { buildReloadDictionaryStatement } from "./dictionaries/ddl";
 import { logger } from "../utils/logger";
 
 // ============================================
@@ -119,7 +121,9 @@ export class ClickHouseService {
     query: string,
     format: string = "JSON",
     queryId?: string,
-    maxResultRows?: number
+    maxResultRows?: number,
+    queryParams?: Record<string, string>,
+    settings?: Record<string, string | number>
   ): Promise<QueryResult<T>> {
     try {
       const trimmedQuery = query.trim();
@@ -129,11 +133,18 @@ export class ClickHouseService {
         const commandParams: any = {
           query: trimmedQuery,
           query_id: queryId,
+          query_params: queryParams,
         };
 
+        // Caller settings (e.g. role quota guardrails) apply to commands too
+        if (settings && Object.keys(settings).length > 0) {
+          commandParams.clickhouse_settings = { ...settings };
+        }
+
         // Inject RBAC User ID into log_comment if present
         if (this.rbacUserId) {
           commandParams.clickhouse_settings = {
+            ...commandParams.clickhouse_settings,
             log_comment: JSON.stringify({ rbac_user_id: this.rbacUserId }),
           };
         }
@@ -156,7 +167,8 @@ export class ClickHouseService {
       // etc.) leave maxResultRows undefined and therefore inherit the
       // client-level defaults set in ClientManager (max_result_rows: 10 000,
       // max_result_bytes: 10 MB) — keeping their existing safety cap intact.
-      const clickhouse_settings: Record<string, string | number> = {};
+      // Caller settings (e.g. data access row filters) are applied first.
+      const clickhouse_settings: Record<string, string | number> = { ...settings };
 
       if (maxResultRows !== undefined) {
         // User-configured cap from Preferences (always ≥ RESULT_ROWS_MIN, never 0).
@@ -180,6 +192,8 @@ export class ClickHouseService {
         format: format as "JSON" | "JSONEachRow",
         clickhouse_settings,
         query_id: queryId,
+        // Bound server-side for {name:Type} placeholders — never interpolated
+        query_params: queryParams,
       });
 
       const jsonResult = await result.json() as {
@@ -213,8 +227,9 @@ export class ClickHouseService {
    *   [value, value, ...]                                 ← data row (lines 1‥N)
    *   {"t":"e","stats":{elapsed,rows_read,bytes_read},"rows":N}  ← end
    *
-   * On error the generator throws after yielding an error line:
-   *   {"t":"err","message":"..."}
+   * On error the generator throws after yielding an error line with the
+   * bytes read before the failure:
+   *   {"t":"err","message":"...","stats":{bytes_read}}
    *
    * All other callers (agentTools, metrics, etc.) continue using executeQuery
    * and are entirely unaffected.
@@ -222,9 +237,11 @@ export class ClickHouseService {
   async *streamQueryRows(
     query: string,
     queryId?: string,
-    maxResultRows?: number
+    maxResultRows?: number,
+    queryParams?: Record<string, string>,
+    settings?: Record<string, string | number>
   ): AsyncGenerator<string> {
-    const clickhouse_settings: Record<string, string | number> = {};
+    const clickhouse_settings: Record<string, string | number> = { ...settings };
 
     if (maxResultRows !== undefined) {
       clickhouse_settings.max_result_rows = maxResultRows;
@@ -246,6 +263,7 @@ export class ClickHouseService {
       format: "JSONCompactEachRowWithNamesAndTypes" as any,
       clickhouse_settings,
       query_id: queryId,
+      query_params: queryParams,
     });
 
     const rowStream = result.stream<unknown[]>();
@@ -284,19 +302,59 @@ export class ClickHouseService {
       }
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
-      yield JSON.stringify({ t: "err", message: msg });
+      yield JSON.stringify({ t: "err", message: msg, stats: { bytes_read: this.summaryBytesRead(result.response_headers) } });
       throw error;
     }
 
     const elapsed = (performance.now() - startMs) / 1000;
     yield JSON.stringify({
       t: "e",
-      stats: { elapsed, rows_read: rowCount, bytes_read: 0 },
+      stats: { elapsed, rows_read: rowCount, bytes_read: this.summaryBytesRead(result.response_headers) },
       rows: rowCount,
       capped: capReached,
     });
   }
 
+  /**
+   * Run a SELECT with `FORMAT <format>` appended and return ClickHouse's
+   * response body as-is, for file exports in formats such as Parquet or CSV.
+   * The query must not carry its own FORMAT clause.
+   */
+  async exportQuery(
+    query: string,
+    format: string,
+    maxResultRows: number,
+    queryId?: string,
+    queryParams?: Record<string, string>,
+    settings?: Record<string, string | number>
+  ): Promise<{ stream: ReadableStream<Uint8Array>; bytesRead: number }> {
+    const clickhouse_settings: Record<string, string | number> = {
+      ...settings,
+      max_result_rows: maxResultRows,
+      max_result_bytes: 0,
+      result_overflow_mode: "break",
+    };
+
+    if (this.rbacUserId) {
+      clickhouse_settings.log_comment = JSON.stringify({ rbac_user_id: this.rbacUserId });
+    }
+
+    try {
+      const result = await this.client.exec({
+        query: `${query.trim().replace(/;\s*$/, "")}\nFORMAT ${format}`,
+        clickhouse_settings,
+        query_id: queryId,
+        query_params: queryParams,
+      });
+      return {
+        stream: Readable.toWeb(result.stream) as unknown as ReadableStream<Uint8Array>,
+        bytesRead: this.summaryBytesRead(result.response_headers),
+      };
+    } catch (error) {
+      throw this.handleError(error, "Export failed");
+    }
+  }
+
   /**
    * Stream data insertion into a table
    * @param database Target database
@@ -369,13 +427,31 @@ export class ClickHouseService {
     return commandPatterns.some(pattern => pattern.test(query));
   }
 
+  /**
+   * Bytes read as reported by the X-ClickHouse-Summary response header. For a
+   * streamed result the header is sent with the first block, so this is the
+   * progress at that point rather than the final total.
+   */
+  private summaryBytesRead(headers: Record<string, string | string[] | undefined> | undefined): number {
+    const raw = headers?.["x-clickhouse-summary"];
+    if (typeof raw !== "string") return 0;
+    try {
+      const bytes = Number((JSON.parse(raw) as { read_bytes?: string | number }).read_bytes);
+      return Number.isFinite(bytes) ? bytes : 0;
+    } catch {
+      return 0;
+    }
+  }
+
   // ============================================
   // Database Explorer
   // ============================================
 
   async getDatabasesAndTables(): Promise<DatabaseInfo[]> {
     try {
-      // Enhanced query to include table metadata (rows, size, engine)
+      // Enhanced query to include table metadata (rows, size, engine). DDL
+      // dictionaries are listed in system.tables with the Dictionary engine;
+      // their load state comes from system.dictionaries.
       const result = await this.client.query({
         query: `
           SELECT
@@ -384,15 +460,23 @@ export class ClickHouseService {
             tables.engine AS table_engine,
             CASE 
               WHEN tables.total_rows > 0 THEN formatReadableQuantity(tables.total_rows)
+              WHEN dicts.element_count > 0 THEN formatReadableQuantity(dicts.element_count)
               ELSE '0'
             END AS total_rows,
             CASE 
               WHEN tables.total_bytes > 0 THEN formatReadableSize(tables.total_bytes)
+              WHEN dicts.bytes_allocated > 0 THEN formatReadableSize(dicts.bytes_allocated)
               ELSE '0 B'
-            END AS total_bytes
+            END AS total_bytes,
+            toString(dicts.status) AS dictionary_status,
+            if(toUnixTimestamp(dicts.last_successful_update_time) > 0,
+               formatDateTime(dicts.last_successful_update_time, '%Y-%m-%d %H:%i:%S'), '') AS dictionary_updated,
+            substring(dicts.last_exception, 1, 300) AS dictionary_error
           FROM system.databases AS databases
           LEFT JOIN system.tables AS tables
             ON databases.name = tables.database
+          LEFT JOIN system.dictionaries AS dicts
+            ON tables.database = dicts.database AND tables.name = dicts.name
           ORDER BY database_name, table_name
         `,
       });
@@ -403,6 +487,9 @@ export class ClickHouseService {
         table_engine?: string;
         total_rows?: string;
         total_bytes?: string;
+        dictionary_status?: string;
+        dictionary_updated?: string;
+        dictionary_error?: string;
       }>;
 
       const databases: Record<string, DatabaseInfo> = {};
@@ -419,6 +506,19 @@ export class ClickHouseService {
         }
 
         if (table_name) {
+          if (table_engine === "Dictionary") {
+            databases[database_name].children.push({
+              name: table_name,
+              type: "dictionary",
+              engine: table_engine,
+              rows: total_rows || undefined,
+              size: total_bytes || undefined,
+              status: row.dictionary_status || undefined,
+              lastSuccessfulUpdate: row.dictionary_updated || undefined,
+              lastException: row.dictionary_error || undefined,
+            });
+            continue;
+          }
           const isView = table_engine?.toLowerCase().includes('view') || false;
           databases[database_name].children.push({
             name: table_name,
@@ -492,8 +592,28 @@ export class ClickHouseService {
     }
   }
 
-  async getTableSample(database: string, table: string, limit: number = 100): Promise<QueryResult> {
-    return this.executeQuery(`SELECT * FROM ${database}.${table} LIMIT ${limit}`);
+  /** `CREATE` statement of a table or view, or null when it does not exist. */
+  async getCreateTableQuery(database: string, table: string): Promise<string | null> {
+    try {
+      const result = await this.client.query({
+        query: "SELECT create_table_query FROM system.tables WHERE database = {database:String} AND name = {table:String}",
+        query_params: { database, table },
+        format: "JSON",
+      });
+      const json = await result.json() as JsonResponse<{ create_table_query: string }>;
+      return json.data[0]?.create_table_query ?? null;
+    } catch (error) {
+      throw this.handleError(error, "Failed to fetch table DDL");
+    }
+  }
+
+  async getTableSample(
+    database: string,
+    table: string,
+    limit: number = 100,
+    settings?: Record<string, string | number>
+  ): Promise<QueryResult> {
+    return this.executeQuery(`SELECT * FROM ${database}.${table} LIMIT ${limit}`, "JSON", undefined, undefined, undefined, settings);
   }
 
   // ============================================
@@ -1450,6 +1570,117 @@ export class ClickHouseService {
     }
   }
 
+  /** `command` and state of one mutation, or null once it is gone. */
+  async getMutation(target: import("../types").MutationTarget): Promise<{ command: string; is_done: number } | null> {
+    try {
+      const result = await this.client.query({
+        query: `SELECT command, is_done FROM system.mutations
+                WHERE database = {database:String} AND table = {table:String} AND mutation_id = {mutationId:String}`,
+        query_params: { database: target.database, table: target.table, mutationId: target.mutation_id },
+        format: "JSON",
+      });
+      const json = await result.json() as JsonResponse<{ command: string; is_done: number | string }>;
+      const row = json.data[0];
+      return row ? { command: row.command, is_done: Number(row.is_done) } : null;
+    } catch (error) {
+      throw this.handleError(error, "Failed to fetch mutation");
+    }
+  }
+
+  /**
+   * KILL MUTATION for one mutation. With `cluster` the statement runs
+   * ON CLUSTER, so a mutation of a replicated table is stopped on every
+   * replica; the cluster must be one of system.clusters.
+   */
+  async killMutation(
+    target: import("../types").MutationTarget,
+    cluster?: string,
+  ): Promise<import("../types").MutationKillResult> {
+    const existing = await this.getMutation(target);
+    if (!existing) {
+      throw AppError.notFound(`Mutation ${target.mutation_id} on ${target.database}.${target.table} not found`);
+    }
+
+    try {
+      let onCluster = "";
+      if (cluster) {
+        const known = await this.client.query({
+          query: "SELECT count() AS c FROM system.clusters WHERE cluster = {cluster:String}",
+          query_params: { cluster },
+          format: "JSON",
+        });
+        const json = await known.json() as JsonResponse<{ c: number | string }>;
+        if (Number(json.data[0]?.c) === 0) {
+          throw AppError.badRequest(`Unknown cluster '${cluster}'`);
+        }
+        // Names can hold dashes, so quote rather than validate as a bare identifier
+        onCluster = ` ON CLUSTER \`${cluster.replace(/\\/g, "\\\\").replace(/`/g, "\\`")}\``;
+      }
+
+      const result = await this.client.query({
+        query: `KILL MUTATION${onCluster}
+                WHERE database = {database:String} AND table = {table:String} AND mutation_id = {mutationId:String}`,
+        query_params: { database: target.database, table: target.table, mutationId: target.mutation_id },
+        format: "JSON",
+      });
+      const json = await result.json() as JsonResponse<{ host?: string }>;
+
+      return {
+        ...target,
+        cluster: cluster || null,
+        command: existing.command,
+        hosts: cluster ? json.data.map((row) => String(row.host ?? "")).filter(Boolean) : [],
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw this.handleError(error, "Failed to kill mutation");
+    }
+  }
+
+  /** Load state of one dictionary, or null when system.dictionaries doesn't list it. */
+  async getDictionaryState(database: string, name: string): Promise<import("../types").DictionaryReloadResult | null> {
+    try {
+      const result = await this.client.query({
+        query: `SELECT database, name, toString(status) AS status, element_count, last_exception
+                FROM system.dictionaries
+                WHERE database = {database:String} AND name = {name:String}`,
+        query_params: { database, name },
+        format: "JSON",
+      });
+      const json = await result.json() as JsonResponse<{
+        database: string;
+        name: string;
+        status: string;
+        element_count: number | string;
+        last_exception: string;
+      }>;
+      const row = json.data[0];
+      return row ? { ...row, element_count: Number(row.element_count) } : null;
+    } catch (error) {
+      throw this.handleError(error, "Failed to fetch dictionary");
+    }
+  }
+
+  /**
+   * SYSTEM RELOAD DICTIONARY for one dictionary. The statement waits for the
+   * load, so a failing source surfaces here as an error rather than only in
+   * system.dictionaries.last_exception.
+   */
+  async reloadDictionary(database: string, name: string): Promise<import("../types").DictionaryReloadResult> {
+    const label = database ? `${database}.${name}` : name;
+    if (!(await this.getDictionaryState(database, name))) {
+      throw AppError.notFound(`Dictionary ${label} not found`);
+    }
+    try {
+      await this.client.command({ query: buildReloadDictionaryStatement(database, name) });
+    } catch (error) {
+      throw this.handleError(error, `Failed to reload dictionary ${label}`);
+    }
+    const state = await this.getDictionaryState(database, name);
+    if (!state) throw AppError.notFound(`Dictionary ${label} not found`);
+    return state;
+  }
+
   /**
    * Get top tables by size (non-system tables only).
    * Uses system.tables so all user tables are included regardless of engine.
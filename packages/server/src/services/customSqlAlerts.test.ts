@@ -0,0 +1,218 @@
+import { describe, it, expect, mock, beforeEach, afterAll, setSystemTime } from "bun:test";
+
+const mockValidateQueryAccess = mock();
+const mockGetUserRoles = mock();
+const mockListRules = mock();
+const mockQuery = mock();
+const mockRecordEvent = mock();
+const mockResolveAlert = mock();
+
+mock.module("../middleware/dataAccess", () => ({
+  validateQueryAccess: mockValidateQueryAccess,
+}));
+
+mock.module("../rbac/services/rbac", () => ({
+  getUserRoles: mockGetUserRoles,
+  getUserPermissions: mock(async () => ["query:execute"]),
+}));
+
+mock.module("../rbac/services/connections", () => ({
+  getConnectionById: mock(async () => ({ id: "conn1", name: "prod", database: "default" })),
+}));
+
+mock.module("./alerting/store", () => ({
+  listRules: mockListRules,
+  getRuleChannelsDecrypted: mock(async () => []),
+  recordEvent: mockRecordEvent,
+}));
+
+mock.module("./alerting/policy", () => ({
+  findSuppression: mock(async () => null),
+  resolveAlert: mockResolveAlert,
+}));
+
+mock.module("./alerting/deliver", () => ({
+  sendChannelMessage: mock(async () => undefined),
+}));
+
+mock.module("./fleetMetrics", () => ({
+  buildFleetConfig: mock(async () => ({ url: "http://localhost:8123", username: "default", password: "" })),
+}));
+
+mock.module("./clientManager", () => ({
+  ClientManager: { getInstance: () => ({ getClient: () => ({ query: mockQuery }) }) },
+}));
+
+const {
+  customSqlAccessDenial,
+  customSqlTick,
+  evaluateCustomSqlRows,
+  parseCustomSqlConfig,
+  validateCustomSqlConfig,
+} = await import("./customSqlAlerts");
+
+afterAll(() => {
+  mock.restore();
+});
+
+const rule = (over: Record<string, unknown>) => parseCustomSqlConfig({ connection: "prod", query: "SELECT 1", ...over });
+
+describe("custom SQL evaluateCustomSqlRows", () => {
+  it("compares the first numeric column and keys rows by the other columns", () => {
+    const out = evaluateCustomSqlRows(
+      [
+        { database: "db", table: "events", lag: "120" },
+        { database: "db", table: "logs", lag: "3" },
+      ],
+      rule({ operator: ">", threshold: 60 }),
+    );
+    expect(out.map((m) => [m.key, m.value, m.breaching])).toEqual([
+      ["database=db, table=events", 120, true],
+      ["database=db, table=logs", 3, false],
+    ]);
+    expect(out[0]!.summary).toBe("lag = 120 > 60");
+  });
+
+  it("holds a breached row inside the clear margin", () => {
+    const config = rule({ valueColumn: "free_pct", operator: "<", threshold: 10, hysteresis: 5, keyColumns: "disk" });
+    const [held] = evaluateCustomSqlRows([{ disk: "default", free_pct: 12 }], config);
+    expect(held).toMatchObject({ key: "disk=default", breaching: false, clearing: false });
+    const [cleared] = evaluateCustomSqlRows([{ disk: "default", free_pct: 16 }], config);
+    expect(cleared!.clearing).toBe(true);
+  });
+
+  it("fires on every row in rows mode and skips non-numeric values in threshold mode", () => {
+    const rows = evaluateCustomSqlRows([{ id: 1, error: "boom" }], rule({ mode: "rows", keyColumns: "id" }));
+    expect(rows).toEqual([
+      { key: "id=1", value: null, breaching: true, clearing: false, summary: "row returned", row: { id: 1, error: "boom" } },
+    ]);
+    expect(evaluateCustomSqlRows([{ status: "ok" }], rule({ valueColumn: "status" }))).toEqual([]);
+    expect(evaluateCustomSqlRows([{ c: 5 }], rule({ threshold: 1 }))[0]!.key).toBe("result");
+  });
+});
+
+describe("custom SQL validateCustomSqlConfig", () => {
+  it("requires a connection and a single read-only SELECT", () => {
+    expect(validateCustomSqlConfig({ query: "SELECT 1" })).toBe("Choose the connection the query runs against");
+    expect(validateCustomSqlConfig({ connection: "prod", query: "DROP TABLE t" })).toBe(
+      "Only read-only SELECT queries can be scheduled",
+    );
+    expect(validateCustomSqlConfig({ connection: "prod", query: "SELECT 1; SELECT 2" })).toBe(
+      "Only a single SELECT statement is allowed",
+    );
+    expect(validateCustomSqlConfig({ connection: "prod", query: "SELECT {{slot_start}}" })).toBe(
+      "Template macros are not supported in alert queries",
+    );
+    expect(validateCustomSqlConfig({ connection: "prod", query: "SELECT count() FROM system.errors" })).toBeNull();
+  });
+});
+
+describe("custom SQL customSqlAccessDenial", () => {
+  beforeEach(() => {
+    mockGetUserRoles.mockReset();
+    mockGetUserRoles.mockResolvedValue(["analyst"]);
+    mockValidateQueryAccess.mockReset();
+  });
+
+  it("checks the query against the owner's data access on the rule's connection", async () => {
+    mockValidateQueryAccess.mockResolvedValue({ allowed: true });
+
+    expect(await customSqlAccessDenial("user1", "SELECT count() FROM crm.users", "conn1")).toBeNull();
+    expect(mockValidateQueryAccess).toHaveBeenCalledWith(
+      "user1", false, ["query:execute"], "SELECT count() FROM crm.users", "default", "conn1",
+    );
+  });
+
+  it("refuses tables the owner can't read, or reads only under masks or row filters", async () => {
+    mockValidateQueryAccess.mockResolvedValue({ allowed: false, reason: "Access denied to crm.users" });
+    expect(await customSqlAccessDenial("user1", "SELECT 1", "conn1")).toBe("Access denied to crm.users");
+
+    mockValidateQueryAccess.mockResolvedValue({ allowed: true, columnMasks: [{ database: "crm", table: "users", columnPattern: "email", action: "null", priority: 0, policyName: "pii" }] });
+    expect(await customSqlAccessDenial("user1", "SELECT 1", "conn1")).toContain("masked");
+
+    mockValidateQueryAccess.mockResolvedValue({ allowed: true, rowFilters: [{ database: "crm", table: "users", filter: "region = 'EU'" }] });
+    expect(await customSqlAccessDenial("user1", "SELECT 1", "conn1")).toContain("row filter");
+  });
+
+  it("treats admin owners as admins", async () => {
+    mockGetUserRoles.mockResolvedValue(["admin"]);
+    mockValidateQueryAccess.mockResolvedValue({ allowed: true });
+
+    await customSqlAccessDenial("user1", "SELECT 1", "conn1");
+    expect(mockValidateQueryAccess.mock.calls[0][1]).toBe(true);
+  });
+});
+
+describe("custom SQL customSqlTick", () => {
+  const connections = [{ id: "conn1", name: "prod" }];
+  const ruleRow = (id: string, ownerId: string | null) => ({
+    id,
+    name: id,
+    sourceType: "custom_sql",
+    severity: "warning",
+    enabled: true,
+    ownerId,
+    config: JSON.stringify({ connection: "prod", query: "SELECT count() AS n FROM crm.users", threshold: 100 }),
+  });
+
+  beforeEach(() => {
+    mockGetUserRoles.mockReset();
+    mockGetUserRoles.mockResolvedValue(["analyst"]);
+    mockValidateQueryAccess.mockReset();
+    mockValidateQueryAccess.mockResolvedValue({ allowed: true });
+    mockQuery.mockReset();
+    mockQuery.mockResolvedValue({ json: async () => ({ data: [{ n: 5 }] }) });
+    mockRecordEvent.mockReset();
+    mockRecordEvent.mockResolvedValue(undefined);
+    mockResolveAlert.mockReset();
+    mockResolveAlert.mockResolvedValue(undefined);
+  });
+
+  it("runs the query when its owner can still read it", async () => {
+    mockListRules.mockResolvedValue([ruleRow("rule-allowed", "user1")]);
+
+    await customSqlTick(connections);
+
+    expect(mockValidateQueryAccess.mock.calls[0][0]).toBe("user1");
+    expect(mockQuery).toHaveBeenCalled();
+  });
+
+  it("skips the run once the owner has lost access", async () => {
+    mockListRules.mockResolvedValue([ruleRow("rule-revoked", "user1")]);
+    mockValidateQueryAccess.mockResolvedValue({ allowed: false, reason: "Access denied to crm.users" });
+
+    await customSqlTick(connections);
+
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it("does not run rules without an owner", async () => {
+    mockListRules.mockResolvedValue([ruleRow("rule-ownerless", null)]);
+
+    await customSqlTick(connections);
+
+    expect(mockValidateQueryAccess).not.toHaveBeenCalled();
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it("alerts on each breaching row under its own key and resolves rows as they clear", async () => {
+    mockListRules.mockResolvedValue([ruleRow("rule-rows", "user1")]);
+    const returns = (rows: Record<string, unknown>[]) => mockQuery.mockResolvedValue({ json: async () => ({ data: rows }) });
+
+    returns([{ database: "a", n: 500 }, { database: "b", n: 500 }]);
+    await customSqlTick(connections);
+    expect(mockRecordEvent.mock.calls.map((call) => call[0].dedupKey)).toEqual(["rule-rows:database=a", "rule-rows:database=b"]);
+    expect(mockResolveAlert).not.toHaveBeenCalled();
+
+    // Next interval: b is no longer returned
+    setSystemTime(new Date(Date.now() + 60 * 60_000));
+    try {
+      returns([{ database: "a", n: 500 }]);
+      await customSqlTick(connections);
+    } finally {
+      setSystemTime();
+    }
+    expect(mockRecordEvent).toHaveBeenCalledTimes(2);
+    expect(mockResolveAlert.mock.calls).toEqual([["rule-rows:database=b"]]);
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Custom SQL alerts — user-written read-only queries evaluated on a cadence.
+ *
+ * The fleet poller calls customSqlTick() after each snapshot tick (so only the
+ * lease holder acts). Every enabled `custom_sql` alert rule whose interval has
+ * elapsed runs its SELECT against its connection (with `readonly = 1`) and each
+ * returned row is checked:
+ *
+ *   - `threshold` mode compares a numeric column against the threshold. A row
+ *     that breached re-arms only once its value is back past the threshold by
+ *     the clear margin (`hysteresis`).
+ *   - `rows` mode fires for every returned row; a row clears when a later run
+ *     no longer returns it.
+ *
+ * The query runs with the poller's credentials, so it is held to the data
+ * access of the rule's owner (whoever last saved it) when it is saved and again
+ * before every run: a table the owner can't read, or reads only through column
+ * masks or row filters, stops the rule. Rules without an owner don't run.
+ *
+ * Rows are told apart by their key columns, so each distinct row alerts once
+ * and is resolved when it clears. Every breach is its own event and message,
+ * deduplicated on `${ruleId}:${rowKey}`, optionally with the offending row
+ * attached; a run reports at most MAX_REPORTED new breaches and leaves the
+ * rest to later runs.
+ *
+ * Example rule config (CustomSqlRuleConfig):
+ * { "connection": "prod", "query": "SELECT database, count() AS broken FROM system.replicas WHERE is_readonly GROUP BY database",
+ *   "intervalMinutes": 5, "mode": "threshold", "valueColumn": "broken", "operator": ">", "threshold": 0,
+ *   "hysteresis": 0, "keyColumns": "database", "attachRows": true }
+ */
+
+import { ClientManager } from "./clientManager";
+import { buildFleetConfig } from "./fleetMetrics";
+import { listRules, getRuleChannelsDecrypted, recordEvent } from "./alerting/store";
+import { sendChannelMessage } from "./alerting/deliver";
+import { findSuppression, resolveAlert } from "./alerting/policy";
+import {
+  AlertSourceType,
+  CUSTOM_SQL_MODES,
+  CUSTOM_SQL_OPERATORS,
+  type AlertSeverity,
+  type CustomSqlMode,
+  type CustomSqlOperator,
+  type CustomSqlRuleConfig,
+} from "./alerting/types";
+import { validateReadOnlySelect } from "./scheduledQueries/validation";
+import { validateQueryAccess } from "../middleware/dataAccess";
+import { getUserPermissions, getUserRoles } from "../rbac/services/rbac";
+import { getConnectionById } from "../rbac/services/connections";
+import { SYSTEM_ROLES } from "../rbac/schema/base";
+import { logger } from "../utils/logger";
+
+/** Rows read per run; the rest of a larger result is ignored. */
+const MAX_ROWS = 1000;
+/** New breaches reported per run; the rest are reported by later runs. */
+const MAX_REPORTED = 20;
+
+/** One returned row, judged against the rule. */
+export interface CustomSqlMatch {
+  /** Dedup key built from the row's key columns ("result" when there are none). */
+  key: string;
+  /** The compared value in threshold mode; null in rows mode. */
+  value: number | null;
+  breaching: boolean;
+  clearing: boolean;
+  summary: string;
+  row: Record<string, unknown>;
+}
+
+interface CustomSqlRule {
+  ruleId: string;
+  ownerId: string;
+  name: string;
+  severity: AlertSeverity;
+  config: CustomSqlRuleConfig;
+}
+
+// `${ruleId}:${rowKey}` of rows currently in breach (already reported).
+const armed = new Set<string>();
+// Epoch ms of each rule's last run, for its interval.
+const lastRunAt = new Map<string, number>();
+
+function num(v: unknown): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function splitList(raw: unknown): string[] {
+  return String(raw ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function numericValue(v: unknown): number | null {
+  if (typeof v === "number") return Number.isFinite(v) ? v : null;
+  if (typeof v === "string" && v.trim() !== "") {
+    const n = Number(v);
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+function compare(value: number, op: CustomSqlOperator, threshold: number): boolean {
+  switch (op) {
+    case ">":
+      return value > threshold;
+    case ">=":
+      return value >= threshold;
+    case "<":
+      return value < threshold;
+    case "<=":
+      return value <= threshold;
+  }
+}
+
+/** Normalise a stored rule config; missing or mistyped fields fall back to defaults. */
+export function parseCustomSqlConfig(raw: Record<string, unknown>): CustomSqlRuleConfig {
+  const mode = String(raw.mode ?? "");
+  const operator = String(raw.operator ?? "");
+  return {
+    connection: String(raw.connection ?? "").trim(),
+    query: String(raw.query ?? ""),
+    intervalMinutes: num(raw.intervalMinutes) || 5,
+    mode: (CUSTOM_SQL_MODES as string[]).includes(mode) ? (mode as CustomSqlMode) : "threshold",
+    valueColumn: String(raw.valueColumn ?? "").trim(),
+    operator: (CUSTOM_SQL_OPERATORS as string[]).includes(operator) ? (operator as CustomSqlOperator) : ">",
+    threshold: num(raw.threshold),
+    hysteresis: Math.max(0, num(raw.hysteresis)),
+    keyColumns: String(raw.keyColumns ?? ""),
+    attachRows: raw.attachRows === true,
+  };
+}
+
+/**
+ * Why a custom SQL config can't be saved, or null when it can. The query must
+ * be a single read-only SELECT without Scheduled Query `{{…}}` macros.
+ */
+export function validateCustomSqlConfig(raw: Record<string, unknown>): string | null {
+  const config = parseCustomSqlConfig(raw);
+  if (!config.connection) return "Choose the connection the query runs against";
+  const validation = validateReadOnlySelect(config.query);
+  if (!validation.ok) return validation.error ?? "Invalid query";
+  if (validation.tokens.length > 0) return "Template macros are not supported in alert queries";
+  if (config.intervalMinutes < 1) return "Interval must be at least 1 minute";
+  return null;
+}
+
+/**
+ * Why `ownerId` may not run `query` on `connectionId`, or null when they may.
+ * Evaluates the owner's CURRENT data access, like Scheduled Queries do for
+ * their owner; admins bypass, as interactively. Masks and row filters can't
+ * be applied to the poller's query, so tables under them are refused.
+ */
+export async function customSqlAccessDenial(ownerId: string, query: string, connectionId: string): Promise<string | null> {
+  const [roles, permissions, conn] = await Promise.all([
+    getUserRoles(ownerId),
+    getUserPermissions(ownerId),
+    getConnectionById(connectionId),
+  ]);
+  const isAdmin = roles.includes(SYSTEM_ROLES.SUPER_ADMIN) || roles.includes(SYSTEM_ROLES.ADMIN);
+  const result = await validateQueryAccess(ownerId, isAdmin, permissions, query, conn?.database ?? undefined, connectionId);
+  if (result.allowed && result.columnMasks?.length) return "the query reads tables with masked or denied columns";
+  if (result.allowed && result.rowFilters?.length) return "the query reads tables limited by a row filter";
+  return result.allowed ? null : (result.reason ?? "data access denied for one or more tables");
+}
+
+/**
+ * Judge each returned row under `config`. Rows without a numeric value are
+ * skipped in threshold mode. Pure; exported for tests.
+ */
+export function evaluateCustomSqlRows(
+  rows: Record<string, unknown>[],
+  config: CustomSqlRuleConfig,
+): CustomSqlMatch[] {
+  const keyColumns = splitList(config.keyColumns);
+  const out: CustomSqlMatch[] = [];
+  for (const row of rows) {
+    const columns = Object.keys(row);
+    let valueColumn: string | undefined;
+    if (config.mode === "threshold") {
+      valueColumn = config.valueColumn || columns.find((c) => numericValue(row[c]) !== null);
+    }
+    const keyOf = keyColumns.length > 0 ? keyColumns : columns.filter((c) => c !== valueColumn);
+    const key = keyOf.map((c) => `${c}=${String(row[c] ?? "")}`).join(", ") || "result";
+
+    if (config.mode === "rows") {
+      out.push({ key, value: null, breaching: true, clearing: false, summary: "row returned", row });
+      continue;
+    }
+
+    const value = valueColumn ? numericValue(row[valueColumn]) : null;
+    if (value === null) continue;
+    // The clear point sits `hysteresis` back on the safe side of the threshold.
+    const below = config.operator === ">" || config.operator === ">=";
+    const clearPoint = below ? config.threshold - config.hysteresis : config.threshold + config.hysteresis;
+    out.push({
+      key,
+      value,
+      breaching: compare(value, config.operator, config.threshold),
+      clearing: !compare(value, config.operator, clearPoint),
+      summary: `${valueColumn} = ${value} ${config.operator} ${config.threshold}`,
+      row,
+    });
+  }
+  return out;
+}
+
+function coversConnection(config: CustomSqlRuleConfig, conn: { id: string; name: string }): boolean {
+  const wanted = config.connection.toLowerCase();
+  return conn.id.toLowerCase() === wanted || conn.name.toLowerCase() === wanted;
+}
+
+async function loadCustomSqlRules(): Promise<CustomSqlRule[]> {
+  const out: CustomSqlRule[] = [];
+  for (const rule of await listRules()) {
+    if (!rule.enabled || rule.sourceType !== AlertSourceType.CustomSql) continue;
+    let raw: Record<string, unknown> = {};
+    try {
+      raw = JSON.parse(rule.config) as Record<string, unknown>;
+    } catch {
+      raw = {};
+    }
+    // Re-check before every run, like Scheduled Queries do — never run a
+    // stored query that no longer passes the read-only check.
+    const problem = validateCustomSqlConfig(raw);
+    if (problem) {
+      logger.warn({ module: "CustomSqlAlerts", ruleId: rule.id, problem }, "Skipping invalid custom SQL rule");
+      continue;
+    }
+    if (!rule.ownerId) {
+      logger.warn({ module: "CustomSqlAlerts", ruleId: rule.id }, "Skipping custom SQL rule without an owner; save it again to run it");
+      continue;
+    }
+    out.push({ ruleId: rule.id, ownerId: rule.ownerId, name: rule.name, severity: rule.severity, config: parseCustomSqlConfig(raw) });
+  }
+  return out;
+}
+
+async function runQuery(connectionId: string, query: string): Promise<Record<string, unknown>[]> {
+  const client = ClientManager.getInstance().getClient(await buildFleetConfig(connectionId));
+  const result = await client.query({
+    query,
+    format: "JSON",
+    clickhouse_settings: {
+      readonly: "1",
+      max_execution_time: 30,
+      max_result_rows: String(MAX_ROWS),
+      result_overflow_mode: "break",
+    },
+  });
+  return ((await result.json()) as { data?: Record<string, unknown>[] }).data ?? [];
+}
+
+/** Record a row's breach against the rule and deliver it to the rule's channels. */
+async function report(rule: CustomSqlRule, conn: { id: string; name: string }, match: CustomSqlMatch): Promise<void> {
+  const node = conn.name;
+  const dedupKey = `${rule.ruleId}:${match.key}`;
+  const title = `🧮 Custom SQL alert — ${rule.name}`;
+  let text = `${node} · ${match.key}: ${match.summary}`;
+  if (rule.config.attachRows) text += `\n\nRow:\n${JSON.stringify(match.row).slice(0, 500)}`;
+
+  const suppressedBy = await findSuppression({ ruleId: rule.ruleId, severity: rule.severity, connection: conn });
+  const channels = suppressedBy ? [] : await getRuleChannelsDecrypted(rule.ruleId);
+  await Promise.allSettled(
+    channels.map(({ row, config }) =>
+      sendChannelMessage(row.type, config, { title, text, severity: rule.severity, dedupKey }).catch((err) =>
+        logger.error({ module: "CustomSqlAlerts", channel: row.type, name: row.name, err: String(err) }, "Channel delivery failed"),
+      ),
+    ),
+  );
+  await recordEvent({
+    ruleId: rule.ruleId,
+    severity: rule.severity,
+    payload: `${node} — ${match.key}: ${match.summary}`.slice(0, 2000),
+    deliveredTo: channels.map(({ row }) => row.name),
+    dedupKey,
+    connectionId: conn.id,
+    suppressedBy,
+  }).catch((err) => logger.error({ module: "CustomSqlAlerts", err: String(err) }, "Failed to record custom SQL event"));
+}
+
+/**
+ * Run every enabled custom_sql rule that is due and report new breaches.
+ * Called by the fleet poller after each tick; never throws.
+ */
+export async function customSqlTick(connections: { id: string; name: string }[]): Promise<void> {
+  try {
+    const rules = await loadCustomSqlRules();
+    const active = new Set(rules.map((r) => r.ruleId));
+    // Drop state for rules that were deleted, disabled or became invalid; their
+    // open breaches will never clear on their own.
+    for (const key of [...armed]) {
+      if (active.has(key.slice(0, key.indexOf(":")))) continue;
+      armed.delete(key);
+      await resolveAlert(key);
+    }
+    for (const ruleId of [...lastRunAt.keys()]) {
+      if (!active.has(ruleId)) lastRunAt.delete(ruleId);
+    }
+
+    const now = Date.now();
+    for (const rule of rules) {
+      if (now - (lastRunAt.get(rule.ruleId) ?? 0) < rule.config.intervalMinutes * 60_000) continue;
+      const conn = connections.find((c) => coversConnection(rule.config, c));
+      if (!conn) continue;
+      lastRunAt.set(rule.ruleId, now);
+
+      let rows: Record<string, unknown>[];
+      try {
+        // Re-check the owner's access every run — a revoked grant stops the rule.
+        const denial = await customSqlAccessDenial(rule.ownerId, rule.config.query, conn.id);
+        if (denial) {
+          logger.warn({ module: "CustomSqlAlerts", ruleId: rule.ruleId, connectionId: conn.id, denial }, "Custom SQL rule owner can't run its query");
+          continue;
+        }
+        rows = await runQuery(conn.id, rule.config.query);
+      } catch (err) {
+        logger.warn({ module: "CustomSqlAlerts", ruleId: rule.ruleId, connectionId: conn.id, err: String(err) }, "Custom SQL query failed");
+        continue;
+      }
+
+      const seen = new Set<string>();
+      const fired: CustomSqlMatch[] = [];
+      const cleared: string[] = [];
+      for (const m of evaluateCustomSqlRows(rows, rule.config)) {
+        const key = `${rule.ruleId}:${m.key}`;
+        seen.add(key);
+        if (m.breaching && !armed.has(key)) {
+          // Left unarmed past the cap, so a later run reports it
+          if (fired.length < MAX_REPORTED) {
+            armed.add(key);
+            fired.push(m);
+          }
+        } else if (m.clearing && armed.has(key)) {
+          cleared.push(key);
+        }
+      }
+      // A row that is no longer returned has cleared.
+      for (const key of armed) {
+        if (key.startsWith(`${rule.ruleId}:`) && !seen.has(key)) cleared.push(key);
+      }
+
+      if (fired.length > 0) {
+        logger.info({ module: "CustomSqlAlerts", ruleId: rule.ruleId, connectionId: conn.id, breached: fired.length }, "Custom SQL rule breached");
+      }
+      for (const m of fired) await report(rule, conn, m);
+      for (const key of cleared) {
+        armed.delete(key);
+        await resolveAlert(key);
+      }
+    }
+  } catch (err) {
+    logger.error({ module: "CustomSqlAlerts", err: err instanceof Error ? err.message : String(err) }, "customSqlTick failed");
+  }
+}
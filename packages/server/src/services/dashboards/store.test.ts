@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { sql } from "drizzle-orm";
+
+import { closeDatabase } from "../../rbac/db";
+import { runMigrations } from "../../rbac/db/migrations";
+import { freshDatabase, rawRun } from "../../rbac/db/migrationTestHarness";
+import * as store from "./store";
+import type { DashboardInput } from "./types";
+
+function dashboardInput(name: string, isPublic = false): DashboardInput {
+  return {
+    name,
+    description: null,
+    isPublic,
+    tiles: [
+      { id: "t1", savedQueryId: "sq-1", title: null, chartConfig: { chartType: "line" }, width: 6, height: 2, refreshSecs: 60 },
+    ],
+    parameters: { timeRange: "24h", values: { region: "eu" } },
+  };
+}
+
+beforeEach(async () => {
+  await freshDatabase("sqlite");
+  await runMigrations({ skipSeed: true });
+  await rawRun(sql`
+    INSERT INTO rbac_users (id, email, username, password_hash, is_active, created_at, updated_at)
+    VALUES ('user-1', 'one@example.com', 'one', 'x', 1, 1, 1),
+           ('user-2', 'two@example.com', 'two', 'x', 1, 1, 1)
+  `);
+});
+
+afterEach(async () => {
+  await closeDatabase();
+});
+
+describe("dashboards store", () => {
+  it("round-trips tiles and shared parameters", async () => {
+    const created = await store.createDashboard("user-1", dashboardInput("Revenue"));
+    const loaded = await store.getDashboard(created.id, "user-1");
+
+    expect(loaded).toMatchObject({
+      name: "Revenue",
+      isPublic: false,
+      tiles: dashboardInput("Revenue").tiles,
+      parameters: { timeRange: "24h", values: { region: "eu" } },
+    });
+  });
+
+  it("shows private dashboards to their owner only and public ones to everyone", async () => {
+    const mine = await store.createDashboard("user-1", dashboardInput("Mine"));
+    const shared = await store.createDashboard("user-1", dashboardInput("Shared", true));
+
+    expect((await store.listDashboards("user-1")).map((d) => d.id).sort()).toEqual([mine.id, shared.id].sort());
+    expect((await store.listDashboards("user-2")).map((d) => d.id)).toEqual([shared.id]);
+    expect(await store.getDashboard(mine.id, "user-2")).toBeNull();
+  });
+
+  it("lets only the owner update or delete", async () => {
+    const shared = await store.createDashboard("user-1", dashboardInput("Shared", true));
+
+    expect(await store.updateDashboard(shared.id, "user-2", { name: "Hijacked" })).toBeNull();
+    expect(await store.deleteDashboard(shared.id, "user-2")).toBe(false);
+
+    const updated = await store.updateDashboard(shared.id, "user-1", { name: "Renamed", tiles: [] });
+    expect(updated).toMatchObject({ name: "Renamed", tiles: [], parameters: { timeRange: "24h" } });
+    expect(await store.deleteDashboard(shared.id, "user-1")).toBe(true);
+    expect(await store.getDashboard(shared.id, "user-1")).toBeNull();
+  });
+
+  it("drops stored tiles that no longer match the schema", async () => {
+    const created = await store.createDashboard("user-1", dashboardInput("Legacy"));
+    const tiles = JSON.stringify([{ id: "bad" }, { id: "ok", savedQueryId: "sq-2", width: 12, height: 1 }]);
+    await rawRun(sql`UPDATE rbac_dashboards SET tiles = ${tiles} WHERE id = ${created.id}`);
+
+    const loaded = await store.getDashboard(created.id, "user-1");
+    expect(loaded?.tiles).toEqual([
+      { id: "ok", savedQueryId: "sq-2", title: null, chartConfig: null, width: 12, height: 1, refreshSecs: null },
+    ]);
+  });
+});
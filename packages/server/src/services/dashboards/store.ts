@@ -0,0 +1,177 @@
+/**
+ * Dashboards store — dialect-aware CRUD over rbac_dashboards. Mirrors the
+ * low-level `all`/`run` helper shape of `queryHistory/store.ts`.
+ *
+ * Visibility matches saved queries: a user sees their own dashboards plus every
+ * public one, and only the owner may change or delete a dashboard. Booleans
+ * persist as 0/1, timestamps as millisecond integers.
+ */
+
+import { randomUUID } from "crypto";
+import { sql } from "drizzle-orm";
+
+import { getDatabase, getDatabaseType, type PostgresDb, type SqliteDb } from "../../rbac/db";
+import {
+  dashboardParametersSchema,
+  dashboardTileSchema,
+  type DashboardInput,
+  type DashboardParameters,
+  type DashboardRow,
+  type DashboardTile,
+} from "./types";
+
+async function all(statement: ReturnType<typeof sql>): Promise<Array<Record<string, unknown>>> {
+  const db = getDatabase();
+  if (getDatabaseType() === "sqlite") {
+    return (db as SqliteDb).all(statement) as Array<Record<string, unknown>>;
+  }
+  const result = await (db as PostgresDb).execute(statement);
+  const wrapped = result as unknown as { rows?: Array<Record<string, unknown>> };
+  return Array.isArray(result) ? result as unknown as Array<Record<string, unknown>> : wrapped.rows ?? [];
+}
+
+async function run(statement: ReturnType<typeof sql>): Promise<void> {
+  const db = getDatabase();
+  if (getDatabaseType() === "sqlite") {
+    (db as SqliteDb).run(statement);
+    return;
+  }
+  await (db as PostgresDb).execute(statement);
+}
+
+function parseJson(raw: unknown): unknown {
+  if (typeof raw !== "string" || raw.length === 0) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+/** Tiles that no longer match the schema (e.g. hand-edited rows) are dropped, not fatal. */
+function parseTiles(raw: unknown): DashboardTile[] {
+  const value = parseJson(raw);
+  if (!Array.isArray(value)) return [];
+  const tiles: DashboardTile[] = [];
+  for (const item of value) {
+    const parsed = dashboardTileSchema.safeParse(item);
+    if (parsed.success) tiles.push(toTile(parsed.data));
+  }
+  return tiles;
+}
+
+function parseParameters(raw: unknown): DashboardParameters {
+  const parsed = dashboardParametersSchema.safeParse(parseJson(raw) ?? {});
+  if (!parsed.success) return { timeRange: null, values: {} };
+  return { timeRange: parsed.data.timeRange ?? null, values: parsed.data.values };
+}
+
+/** Normalize optional tile fields to explicit nulls so the stored JSON is stable. */
+export function toTile(tile: {
+  id: string;
+  savedQueryId: string;
+  title?: string | null;
+  chartConfig?: DashboardTile["chartConfig"];
+  width: number;
+  height: number;
+  refreshSecs?: number | null;
+}): DashboardTile {
+  return {
+    id: tile.id,
+    savedQueryId: tile.savedQueryId,
+    title: tile.title || null,
+    chartConfig: tile.chartConfig ?? null,
+    width: tile.width,
+    height: tile.height,
+    refreshSecs: tile.refreshSecs ?? null,
+  };
+}
+
+function toRow(row: Record<string, unknown>): DashboardRow {
+  return {
+    id: String(row.id),
+    userId: String(row.user_id),
+    name: String(row.name),
+    description: row.description == null ? null : String(row.description),
+    isPublic: Number(row.is_public) === 1,
+    tiles: parseTiles(row.tiles),
+    parameters: parseParameters(row.parameters),
+    createdAt: Number(row.created_at),
+    updatedAt: Number(row.updated_at),
+  };
+}
+
+const COLUMNS = sql.raw("id, user_id, name, description, is_public, tiles, parameters, created_at, updated_at");
+
+/** The user's own dashboards plus every public one, most recently updated first. */
+export async function listDashboards(userId: string): Promise<DashboardRow[]> {
+  const rows = await all(sql`
+    SELECT ${COLUMNS}
+    FROM rbac_dashboards
+    WHERE user_id = ${userId} OR is_public = 1
+    ORDER BY updated_at DESC, id DESC
+  `);
+  return rows.map(toRow);
+}
+
+/** A dashboard the user may view (owner or public), or null. */
+export async function getDashboard(id: string, userId: string): Promise<DashboardRow | null> {
+  const rows = await all(sql`
+    SELECT ${COLUMNS}
+    FROM rbac_dashboards
+    WHERE id = ${id} AND (user_id = ${userId} OR is_public = 1)
+    LIMIT 1
+  `);
+  return rows.length > 0 ? toRow(rows[0]) : null;
+}
+
+export async function createDashboard(userId: string, input: DashboardInput): Promise<DashboardRow> {
+  const id = randomUUID();
+  const now = Date.now();
+  await run(sql`
+    INSERT INTO rbac_dashboards (id, user_id, name, description, is_public, tiles, parameters, created_at, updated_at)
+    VALUES (${id}, ${userId}, ${input.name}, ${input.description}, ${input.isPublic ? 1 : 0},
+            ${JSON.stringify(input.tiles)}, ${JSON.stringify(input.parameters)}, ${now}, ${now})
+  `);
+  return {
+    id,
+    userId,
+    ...input,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Apply `patch` to a dashboard owned by `userId`. Returns null when the
+ * dashboard does not exist or belongs to someone else.
+ */
+export async function updateDashboard(
+  id: string,
+  userId: string,
+  patch: Partial<DashboardInput>,
+): Promise<DashboardRow | null> {
+  const existing = await getDashboard(id, userId);
+  if (!existing || existing.userId !== userId) return null;
+
+  const next: DashboardRow = { ...existing, ...patch, updatedAt: Date.now() };
+  await run(sql`
+    UPDATE rbac_dashboards
+    SET name = ${next.name},
+        description = ${next.description},
+        is_public = ${next.isPublic ? 1 : 0},
+        tiles = ${JSON.stringify(next.tiles)},
+        parameters = ${JSON.stringify(next.parameters)},
+        updated_at = ${next.updatedAt}
+    WHERE id = ${id} AND user_id = ${userId}
+  `);
+  return next;
+}
+
+/** Delete a dashboard owned by `userId`; false when there was nothing to delete. */
+export async function deleteDashboard(id: string, userId: string): Promise<boolean> {
+  const existing = await getDashboard(id, userId);
+  if (!existing || existing.userId !== userId) return false;
+  await run(sql`DELETE FROM rbac_dashboards WHERE id = ${id} AND user_id = ${userId}`);
+  return true;
+}
@@ -0,0 +1,86 @@
+/**
+ * Dashboards — shared types and Zod (v3) schemas.
+ *
+ * A dashboard is a grid of tiles, each bound to a saved query plus an optional
+ * chart config (no config ⇒ the tile renders as a table). Tiles and the shared
+ * dashboard parameters persist as JSON columns on rbac_dashboards; tile order is
+ * array order. Sharing follows saved queries: the owner edits, `isPublic` makes
+ * it readable by everyone holding dashboards:view.
+ */
+
+import { z } from "zod";
+
+import { SAVED_QUERY_CHART_TYPES, type SavedQueryChartConfig } from "../../rbac/constants/savedQueryCharts";
+
+/** Grid columns; a tile's `width` is a span of these. */
+export const DASHBOARD_GRID_COLUMNS = 12;
+export const DASHBOARD_MAX_TILES = 50;
+
+/**
+ * Relative time-range presets. The client resolves the active preset to
+ * `{from:DateTime}` / `{to:DateTime}` parameter values at run time, so tiles
+ * always see a window ending "now".
+ */
+export const DASHBOARD_TIME_RANGES = ["15m", "1h", "6h", "24h", "7d", "30d"] as const;
+export type DashboardTimeRange = (typeof DASHBOARD_TIME_RANGES)[number];
+
+export const dashboardChartConfigSchema = z.object({
+  chartType: z.enum(SAVED_QUERY_CHART_TYPES),
+  xAxis: z.string().min(1).optional(),
+  yAxis: z.array(z.string().min(1)).optional(),
+});
+
+export const dashboardTileSchema = z.object({
+  id: z.string().min(1).max(64),
+  savedQueryId: z.string().min(1),
+  /** Overrides the saved query name in the tile header. */
+  title: z.string().trim().max(200).nullish(),
+  /** `null` ⇒ table; otherwise the chart drawn from the result. */
+  chartConfig: dashboardChartConfigSchema.nullish(),
+  width: z.number().int().min(1).max(DASHBOARD_GRID_COLUMNS).default(6),
+  /** Height in grid rows. */
+  height: z.number().int().min(1).max(4).default(2),
+  /** Auto-refresh interval; `null` ⇒ only refreshed with the dashboard. */
+  refreshSecs: z.number().int().min(10).max(86_400).nullish(),
+});
+
+export const dashboardParametersSchema = z.object({
+  timeRange: z.enum(DASHBOARD_TIME_RANGES).nullish(),
+  /** Values for `{name:Type}` placeholders shared by every tile. */
+  values: z.record(z.string().max(1000)).default({}),
+});
+
+export interface DashboardTile {
+  id: string;
+  savedQueryId: string;
+  title: string | null;
+  chartConfig: SavedQueryChartConfig | null;
+  width: number;
+  height: number;
+  refreshSecs: number | null;
+}
+
+export interface DashboardParameters {
+  timeRange: DashboardTimeRange | null;
+  values: Record<string, string>;
+}
+
+export interface DashboardRow {
+  id: string;
+  userId: string;
+  name: string;
+  description: string | null;
+  isPublic: boolean;
+  tiles: DashboardTile[];
+  parameters: DashboardParameters;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface DashboardInput {
+  name: string;
+  description: string | null;
+  isPublic: boolean;
+  tiles: DashboardTile[];
+  parameters: DashboardParameters;
+}
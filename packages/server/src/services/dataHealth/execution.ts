@@ -1,14 +1,15 @@
 import type { ClickHouseClient } from "@clickhouse/client";
 
 import { escapeQualifiedIdentifier } from "../../utils/sqlIdentifier";
+import { getConnectionById } from "../../rbac/services/connections";
 import { describeDestination, describeSelectSchema, diffSchema } from "../scheduledQueries/materialize";
-import type { ScheduledQueryRow } from "../scheduledQueries/types";
+import type { ScheduledQueryRow, SqOutboxPayload } from "../scheduledQueries/types";
 import * as scheduledStore from "../scheduledQueries/store";
 import { buildExecutableQuery } from "../scheduledQueries/validation";
 import { compileDataHealthQuery, eventTimeTypeFromSchema } from "./compiler";
 import { evaluateDataHealth } from "./evaluator";
 import * as store from "./store";
-import type { DataHealthCheckDefinition, DataHealthMetricEvaluation } from "./types";
+import type { DataHealthCheckDefinition, DataHealthMetricEvaluation, DataHealthPromiseRow } from "./types";
 
 type SchemaContractCheck = Extract<DataHealthCheckDefinition, { type: "schema_contract" }>;
 
@@ -50,6 +51,40 @@ function evaluationSummary(name: string, result: ReturnType<typeof evaluateDataH
   return `${name}: ${breached.map((check) => `${check.checkKey} (${check.observedValue ?? "no value"})`).join(", ")}`;
 }
 
+function incidentLink(incidentId: string): string {
+  return `/dataops/data-health/incidents/${incidentId}`;
+}
+
+function bounds(check: DataHealthMetricEvaluation): string {
+  if (check.expectedLower != null && check.expectedUpper != null) return `${check.expectedLower}..${check.expectedUpper}`;
+  if (check.expectedLower != null) return `>= ${check.expectedLower}`;
+  if (check.expectedUpper != null) return `<= ${check.expectedUpper}`;
+  return "";
+}
+
+/** Message-template variables for a Data Health notification (see alerting/template.ts). */
+async function templateVars(
+  promise: DataHealthPromiseRow,
+  connectionId: string,
+  fields: { severity: string; status: string; summary: string; incidentId: string; breached?: DataHealthMetricEvaluation[] },
+): Promise<SqOutboxPayload["vars"]> {
+  const breached = fields.breached ?? [];
+  return {
+    source: "data_health",
+    rule: promise.name,
+    severity: fields.severity,
+    status: fields.status,
+    connection: (await getConnectionById(connectionId).catch(() => null))?.name ?? connectionId,
+    metric: breached.map((check) => check.checkKey).join(", ") || undefined,
+    value: breached.map((check) => check.observedValue ?? "no value").join(", ") || undefined,
+    threshold: breached.map(bounds).filter(Boolean).join(", ") || undefined,
+    summary: fields.summary,
+    user: promise.ownerId ?? undefined,
+    runLink: incidentLink(fields.incidentId),
+    firedAt: new Date().toISOString(),
+  };
+}
+
 export interface ProcessDataHealthOptions {
   /**
    * Replay (clear & rerun, ADR 0007): replace the slot's samples instead of
@@ -129,16 +164,24 @@ export async function processDataHealthSuccess(
       const channelIds = await scheduledStore.getJobChannelIds(job.id);
       if (channelIds.length > 0) {
         const isRecovery = transition.type === "recovered";
+        const payload: SqOutboxPayload = {
+          title: `${isRecovery ? "🟢" : "🔴"} Data Health ${transition.type} — ${promise.name}`,
+          text: `${summary}\nOwner: ${promise.ownerId ?? "Unassigned"}\nIncident: ${incidentLink(transition.incident.id)}`,
+          channelIds,
+          vars: await templateVars(promise, job.connectionId, {
+            severity: isRecovery ? "info" : result.state === "unhealthy" ? "critical" : "warning",
+            status: transition.type,
+            summary,
+            incidentId: transition.incident.id,
+            breached: isRecovery ? [] : result.checks.filter((check) => check.outcome === "breach"),
+          }),
+        };
         await scheduledStore.enqueueOutbox({
           runId,
           queryId: job.id,
           kind: isRecovery ? "recovery" : "alert",
           dedupKey: `data-health:${transition.incident.id}:${transition.type}`,
-          payload: JSON.stringify({
-            title: `${isRecovery ? "🟢" : "🔴"} Data Health ${transition.type} — ${promise.name}`,
-            text: `${summary}\nOwner: ${promise.ownerId ?? "Unassigned"}\nIncident: /dataops/data-health/incidents/${transition.incident.id}`,
-            channelIds,
-          }),
+          payload: JSON.stringify(payload),
         });
         notified = true;
       }
@@ -147,16 +190,23 @@ export async function processDataHealthSuccess(
   if (executionRecovery.incident && executionRecovery.type === "recovered") {
     const channelIds = await scheduledStore.getJobChannelIds(job.id);
     if (channelIds.length > 0) {
+      const payload: SqOutboxPayload = {
+        title: `🟢 Data Health monitor recovered — ${promise.name}`,
+        text: `${promise.name} can evaluate data again.\nIncident: ${incidentLink(executionRecovery.incident.id)}`,
+        channelIds,
+        vars: await templateVars(promise, job.connectionId, {
+          severity: "info",
+          status: "recovered",
+          summary: `${promise.name} can evaluate data again`,
+          incidentId: executionRecovery.incident.id,
+        }),
+      };
       await scheduledStore.enqueueOutbox({
         runId,
         queryId: job.id,
         kind: "recovery",
         dedupKey: `data-health:${executionRecovery.incident.id}:recovered`,
-        payload: JSON.stringify({
-          title: `🟢 Data Health monitor recovered — ${promise.name}`,
-          text: `${promise.name} can evaluate data again.\nIncident: /dataops/data-health/incidents/${executionRecovery.incident.id}`,
-          channelIds,
-        }),
+        payload: JSON.stringify(payload),
       });
       notified = true;
     }
@@ -185,16 +235,23 @@ export async function processUpstreamFailure(upstreamJob: ScheduledQueryRow, run
     if (!transition.incident || transition.type !== "opened") continue;
     const channelIds = await scheduledStore.getJobChannelIds(promise.scheduledQueryId);
     if (channelIds.length === 0) continue;
+    const payload: SqOutboxPayload = {
+      title: `🔴 Data Health upstream failed — ${promise.name}`,
+      text: `${summary}\nThis is a delivery failure; data health is unknown until the pipeline recovers.\nIncident: ${incidentLink(transition.incident.id)}`,
+      channelIds,
+      vars: await templateVars(promise, upstreamJob.connectionId, {
+        severity: "critical",
+        status: "upstream failed",
+        summary,
+        incidentId: transition.incident.id,
+      }),
+    };
     await scheduledStore.enqueueOutbox({
       runId,
       queryId: promise.scheduledQueryId,
       kind: "alert",
       dedupKey: `data-health:${transition.incident.id}:opened`,
-      payload: JSON.stringify({
-        title: `🔴 Data Health upstream failed — ${promise.name}`,
-        text: `${summary}\nThis is a delivery failure; data health is unknown until the pipeline recovers.\nIncident: /dataops/data-health/incidents/${transition.incident.id}`,
-        channelIds,
-      }),
+      payload: JSON.stringify(payload),
     });
   }
 }
@@ -208,16 +265,23 @@ export async function processDataHealthError(job: ScheduledQueryRow, runId: stri
   if (!transition.incident || transition.type !== "opened") return false;
   const channelIds = await scheduledStore.getJobChannelIds(job.id);
   if (channelIds.length === 0) return false;
+  const payload: SqOutboxPayload = {
+    title: `🔴 Data Health monitor failed — ${promise.name}`,
+    text: `${summary}\nThis is a monitoring failure; data health is unknown.\nIncident: ${incidentLink(transition.incident.id)}`,
+    channelIds,
+    vars: await templateVars(promise, job.connectionId, {
+      severity: "critical",
+      status: "monitor failed",
+      summary,
+      incidentId: transition.incident.id,
+    }),
+  };
   await scheduledStore.enqueueOutbox({
     runId,
     queryId: job.id,
     kind: "alert",
     dedupKey: `data-health:${transition.incident.id}:opened`,
-    payload: JSON.stringify({
-      title: `🔴 Data Health monitor failed — ${promise.name}`,
-      text: `${summary}\nThis is a monitoring failure; data health is unknown.\nIncident: /dataops/data-health/incidents/${transition.incident.id}`,
-      channelIds,
-    }),
+    payload: JSON.stringify(payload),
   });
   return true;
 }
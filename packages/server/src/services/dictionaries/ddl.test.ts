@@ -0,0 +1,128 @@
+import { describe, it, expect } from "bun:test";
+import {
+  buildCreateDictionaryStatement,
+  buildReloadDictionaryStatement,
+  createDictionarySchema,
+  dictionarySourceQueries,
+  isDictionaryAttributeType,
+  validateDictionarySpec,
+} from "./ddl";
+
+const spec = (over: Record<string, unknown> = {}) =>
+  createDictionarySchema.parse({
+    database: "geo",
+    name: "countries",
+    attributes: [
+      { name: "id", type: "UInt64", isKey: true },
+      { name: "iso", type: "String", default: "??" },
+      { name: "population", type: "UInt64", default: "0" },
+    ],
+    source: { type: "clickhouse", db: "geo", table: "countries_src" },
+    layout: "hashed",
+    ...over,
+  });
+
+describe("dictionary ddl", () => {
+  it("renders a CREATE DICTIONARY with key, defaults, source, layout and lifetime", () => {
+    expect(buildCreateDictionaryStatement(spec())).toBe(
+      "CREATE DICTIONARY `geo`.`countries` (\n" +
+        "  `id` UInt64,\n" +
+        "  `iso` String DEFAULT '??',\n" +
+        "  `population` UInt64 DEFAULT 0\n" +
+        ")\n" +
+        "PRIMARY KEY `id`\n" +
+        "SOURCE(CLICKHOUSE(DB 'geo' TABLE 'countries_src'))\n" +
+        "LAYOUT(HASHED())\n" +
+        "LIFETIME(MIN 300 MAX 360)",
+    );
+  });
+
+  it("quotes source settings so they cannot break out of the literal", () => {
+    const sql = buildCreateDictionaryStatement(
+      spec({ source: { type: "postgresql", host: "pg", port: 5432, user: "ro", password: "p'w", db: "geo", table: "c" } }),
+    );
+    expect(sql).toContain("SOURCE(POSTGRESQL(HOST 'pg' PORT 5432 USER 'ro' PASSWORD 'p\\'w' DB 'geo' TABLE 'c'))");
+  });
+
+  it("sizes cache layouts and leaves LIFETIME off direct layouts", () => {
+    expect(buildCreateDictionaryStatement(spec({ layout: "cache", sizeInCells: 1000 }))).toContain(
+      "LAYOUT(CACHE(SIZE_IN_CELLS 1000))",
+    );
+    expect(buildCreateDictionaryStatement(spec({ layout: "direct" }))).not.toContain("LIFETIME");
+    expect(buildCreateDictionaryStatement(spec({ lifetimeMin: 0, lifetimeMax: 0 }))).toContain("LIFETIME(0)");
+  });
+
+  it("rejects specs ClickHouse would refuse", () => {
+    const twoKeys = spec({
+      attributes: [
+        { name: "a", type: "String", isKey: true },
+        { name: "b", type: "String", isKey: true },
+        { name: "v", type: "String" },
+      ],
+    });
+    expect(validateDictionarySpec(twoKeys)).toContain("complex_key_*");
+    expect(validateDictionarySpec({ ...twoKeys, layout: "complex_key_hashed" })).toBeNull();
+    expect(validateDictionarySpec(spec({ layout: "cache" }))).toBe("Cache layouts need a size in cells");
+    expect(validateDictionarySpec(spec({ source: { type: "http", url: "https://x" } }))).toBe(
+      "An HTTP source needs a URL and a format",
+    );
+    expect(
+      validateDictionarySpec(spec({ attributes: [{ name: "id", type: "UInt64", isKey: true }, { name: "x", type: "String; DROP" }] })),
+    ).toContain("Invalid type");
+  });
+
+  it("accepts attribute types only from a closed grammar", () => {
+    for (const type of [
+      "UInt64",
+      "Nullable(String)",
+      "Array(LowCardinality(String))",
+      "Decimal(18, 4)",
+      "FixedString(16)",
+      "DateTime('Europe/Amsterdam')",
+      "DateTime64(3, 'UTC')",
+      "Enum8('a' = 1, 'b, c' = 2)",
+    ]) {
+      expect(isDictionaryAttributeType(type)).toBe(true);
+    }
+    for (const type of [
+      "String) PRIMARY KEY k SOURCE(CLICKHOUSE(DB 'private' TABLE 'secret')) LAYOUT(FLAT()) LIFETIME(0) --",
+      "Array(String) PRIMARY KEY k SOURCE(CLICKHOUSE(TABLE 'secret'))",
+      "Nullable(String",
+      "String('x')",
+      "DateTime('UTC'), x UInt8",
+      "Decimal(18, '4')",
+      "Map(String, String)",
+    ]) {
+      expect(isDictionaryAttributeType(type)).toBe(false);
+    }
+  });
+
+  it("refuses to splice a type that would break out of the column list", () => {
+    const injected = spec({
+      attributes: [
+        { name: "id", type: "UInt64", isKey: true },
+        { name: "v", type: "String) PRIMARY KEY id SOURCE(CLICKHOUSE(DB 'private' TABLE 'secret')) LAYOUT(FLAT()) LIFETIME(0) --" },
+      ],
+    });
+    expect(validateDictionarySpec(injected)).toContain("Invalid type");
+    expect(() => buildCreateDictionaryStatement(injected)).toThrow("invalid type");
+  });
+
+  it("lists the SELECTs a ClickHouse source runs", () => {
+    expect(dictionarySourceQueries(spec().source)).toEqual(["SELECT * FROM `geo`.`countries_src`"]);
+    expect(
+      dictionarySourceQueries(
+        spec({ source: { type: "clickhouse", query: "SELECT id, iso FROM geo.c", invalidateQuery: "SELECT max(ts) FROM geo.c" } }).source,
+      ),
+    ).toEqual(["SELECT id, iso FROM geo.c", "SELECT max(ts) FROM geo.c"]);
+    expect(dictionarySourceQueries(spec({ source: { type: "clickhouse", table: "c", where: "x = 1" } }).source)).toEqual([
+      "SELECT * FROM `c` WHERE x = 1",
+    ]);
+    expect(dictionarySourceQueries(spec({ source: { type: "http", url: "https://x", format: "CSV" } }).source)).toEqual([]);
+  });
+
+  it("reloads config dictionaries by bare, backtick-quoted name", () => {
+    expect(buildReloadDictionaryStatement("geo", "countries")).toBe("SYSTEM RELOAD DICTIONARY `geo`.`countries`");
+    expect(buildReloadDictionaryStatement("", "regions-v2")).toBe("SYSTEM RELOAD DICTIONARY `regions-v2`");
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * Dictionary DDL — the CREATE DICTIONARY statement the Explorer wizard runs and
+ * the SYSTEM RELOAD DICTIONARY statement behind the reload actions.
+ *
+ * The wizard sends a structured spec rather than SQL: identifiers go through
+ * escapeIdentifier, source settings are always rendered as quoted string
+ * literals (PORT as a number), and layouts come from a closed list, so user
+ * input never reaches the statement verbatim.
+ */
+
+import { z } from "zod";
+import { escapeIdentifier } from "../../utils/sqlIdentifier";
+
+export const DICTIONARY_SOURCE_TYPES = ["clickhouse", "mysql", "postgresql", "http"] as const;
+export type DictionarySourceType = (typeof DICTIONARY_SOURCE_TYPES)[number];
+
+/** Layouts the wizard offers; `complex_key_*` take a composite or non-integer key. */
+export const DICTIONARY_LAYOUTS = [
+  "flat",
+  "hashed",
+  "sparse_hashed",
+  "hashed_array",
+  "cache",
+  "direct",
+  "complex_key_hashed",
+  "complex_key_sparse_hashed",
+  "complex_key_hashed_array",
+  "complex_key_cache",
+  "complex_key_direct",
+] as const;
+export type DictionaryLayout = (typeof DICTIONARY_LAYOUTS)[number];
+
+const identifier = z.string().trim().min(1).max(64);
+const setting = z.string().trim().max(2000).optional();
+
+const attributeSchema = z.object({
+  name: identifier,
+  type: z.string().trim().min(1).max(200),
+  /** Part of the PRIMARY KEY. */
+  isKey: z.boolean().default(false),
+  /** Value returned for keys missing from the source; numbers stay unquoted. */
+  default: z.string().max(500).optional(),
+});
+
+const sourceSchema = z.object({
+  type: z.enum(DICTIONARY_SOURCE_TYPES),
+  host: setting,
+  port: z.number().int().min(1).max(65535).optional(),
+  user: setting,
+  password: setting,
+  db: setting,
+  table: setting,
+  where: setting,
+  /** CLICKHOUSE only: read from a query instead of a table. */
+  query: setting,
+  /** Reload only when this query's result changes. */
+  invalidateQuery: setting,
+  /** HTTP only. */
+  url: setting,
+  format: setting,
+});
+
+export const createDictionarySchema = z
+  .object({
+    database: identifier,
+    name: identifier,
+    cluster: z.string().trim().min(1).optional(),
+    attributes: z.array(attributeSchema).min(2).max(200),
+    source: sourceSchema,
+    layout: z.enum(DICTIONARY_LAYOUTS),
+    /** Cache layouts only. */
+    sizeInCells: z.number().int().min(1).optional(),
+    /** Reload window in seconds; 0 / 0 never reloads. */
+    lifetimeMin: z.number().int().min(0).default(300),
+    lifetimeMax: z.number().int().min(0).default(360),
+    comment: z.string().max(500).optional(),
+    /** Render the statement without running it (the wizard's review step). */
+    dryRun: z.boolean().default(false),
+  })
+  .refine((v) => v.lifetimeMax >= v.lifetimeMin, {
+    message: "Lifetime max must be at least lifetime min",
+    path: ["lifetimeMax"],
+  });
+
+export type CreateDictionaryInput = z.infer<typeof createDictionarySchema>;
+
+// --- attribute types --------------------------------------------------------
+
+/** Types that take no arguments. */
+const SIMPLE_TYPES = new Set([
+  "UInt8", "UInt16", "UInt32", "UInt64", "UInt128", "UInt256",
+  "Int8", "Int16", "Int32", "Int64", "Int128", "Int256",
+  "Float32", "Float64", "Bool", "String", "UUID", "Date", "Date32", "DateTime", "IPv4", "IPv6",
+]);
+/** Types whose arguments are all integers, with how many they take. */
+const INTEGER_ARG_TYPES: Record<string, [min: number, max: number]> = {
+  FixedString: [1, 1],
+  Decimal: [1, 2],
+  Decimal32: [1, 1],
+  Decimal64: [1, 1],
+  Decimal128: [1, 1],
+  Decimal256: [1, 1],
+};
+/** Types that wrap exactly one other type. */
+const WRAPPER_TYPES = new Set(["Nullable", "Array", "LowCardinality"]);
+
+const INTEGER = /^\d{1,3}$/;
+const TIMEZONE = /^'[A-Za-z0-9_/+\-]{1,64}'$/;
+const ENUM_ITEM = /^'[^'\\]{0,100}'\s*=\s*-?\d{1,5}$/;
+
+/**
+ * Split the arguments of `Name(args)` at top-level commas, or null when the
+ * parentheses don't balance. Commas inside quotes don't split.
+ */
+function splitTypeArgs(args: string): string[] | null {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let i = 0; i < args.length; i++) {
+    const ch = args[i];
+    if (ch === "'") quoted = !quoted;
+    else if (quoted) continue;
+    else if (ch === "(") depth++;
+    else if (ch === ")" && --depth < 0) return null;
+    else if (ch === "," && depth === 0) {
+      parts.push(args.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  if (depth !== 0 || quoted) return null;
+  parts.push(args.slice(start).trim());
+  return parts;
+}
+
+/**
+ * Whether `type` is a ClickHouse type a dictionary attribute can have, from a
+ * closed grammar: known type names, balanced parentheses, integer arguments,
+ * and quoted literals only as a DateTime time zone or an Enum label. Anything
+ * else — including text that would close the column list — is refused.
+ */
+export function isDictionaryAttributeType(type: string): boolean {
+  const match = /^([A-Za-z][A-Za-z0-9]*)\s*(?:\((.*)\))?$/s.exec(type.trim());
+  if (!match) return false;
+  const [, name, rawArgs] = match;
+  if (rawArgs === undefined) return SIMPLE_TYPES.has(name);
+
+  const args = splitTypeArgs(rawArgs);
+  if (!args || args.some((a) => a === "")) return false;
+  if (name in INTEGER_ARG_TYPES) {
+    const [min, max] = INTEGER_ARG_TYPES[name];
+    return args.length >= min && args.length <= max && args.every((a) => INTEGER.test(a));
+  }
+  if (WRAPPER_TYPES.has(name)) return args.length === 1 && isDictionaryAttributeType(args[0]);
+  switch (name) {
+    case "DateTime":
+      return args.length === 1 && TIMEZONE.test(args[0]);
+    case "DateTime64":
+      return INTEGER.test(args[0]) && (args.length === 1 || (args.length === 2 && TIMEZONE.test(args[1])));
+    case "Enum8":
+    case "Enum16":
+      return args.every((a) => ENUM_ITEM.test(a));
+    default:
+      return false;
+  }
+}
+
+/** SQL string literal with backslashes and quotes escaped. */
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+/** Backtick-quote a name as system.dictionaries reports it (config dictionaries may hold dots or dashes). */
+function quoteName(value: string): string {
+  return `\`${value.replace(/\\/g, "\\\\").replace(/`/g, "\\`")}\``;
+}
+
+function isCacheLayout(layout: DictionaryLayout): boolean {
+  return layout === "cache" || layout === "complex_key_cache";
+}
+
+/** The source settings each source type requires, for error messages. */
+function sourceProblem(source: CreateDictionaryInput["source"]): string | null {
+  switch (source.type) {
+    case "clickhouse":
+      return source.table || source.query ? null : "A ClickHouse source needs a table or a query";
+    case "mysql":
+    case "postgresql":
+      return source.host && source.db && source.table ? null : "A database source needs host, database and table";
+    case "http":
+      return source.url && source.format ? null : "An HTTP source needs a URL and a format";
+  }
+}
+
+/**
+ * Why a spec can't become a dictionary, or null when it can. ClickHouse would
+ * reject these too, but later and with a less specific message.
+ */
+export function validateDictionarySpec(input: CreateDictionaryInput): string | null {
+  const keys = input.attributes.filter((a) => a.isKey);
+  if (keys.length === 0) return "Mark at least one column as the key";
+  if (keys.length === input.attributes.length) return "Add at least one attribute besides the key";
+  if (!input.layout.startsWith("complex_key_") && keys.length > 1) {
+    return `Layout ${input.layout} takes a single key; use a complex_key_* layout for a composite key`;
+  }
+  const names = new Set<string>();
+  for (const a of input.attributes) {
+    if (names.has(a.name)) return `Duplicate column "${a.name}"`;
+    names.add(a.name);
+    if (!isDictionaryAttributeType(a.type)) return `Invalid type "${a.type}" for column "${a.name}"`;
+  }
+  if (isCacheLayout(input.layout) && !input.sizeInCells) return "Cache layouts need a size in cells";
+  return sourceProblem(input.source);
+}
+
+/**
+ * The SELECTs a ClickHouse source will run — its table (with WHERE) or query,
+ * plus the invalidate query — so the route can hold them to the creator's data
+ * access rules. The dictionary reads with the server's credentials, not the
+ * user's, so a source the user couldn't query directly must not get through.
+ * Other source types read outside ClickHouse and return none. Throws (from
+ * escapeIdentifier) on an invalid DB or TABLE.
+ */
+export function dictionarySourceQueries(source: CreateDictionaryInput["source"]): string[] {
+  if (source.type !== "clickhouse") return [];
+  const queries: string[] = [];
+  if (source.query) {
+    queries.push(source.query);
+  } else if (source.table) {
+    const from = source.db ? `${escapeIdentifier(source.db)}.${escapeIdentifier(source.table)}` : escapeIdentifier(source.table);
+    queries.push(`SELECT * FROM ${from}${source.where ? ` WHERE ${source.where}` : ""}`);
+  }
+  if (source.invalidateQuery) queries.push(source.invalidateQuery);
+  return queries;
+}
+
+function renderSource(source: CreateDictionaryInput["source"]): string {
+  const parts: string[] = [];
+  const put = (key: string, value: string | undefined) => {
+    if (value) parts.push(`${key} ${quote(value)}`);
+  };
+  if (source.type === "http") {
+    put("URL", source.url);
+    put("FORMAT", source.format);
+  } else {
+    put("HOST", source.host);
+    if (source.port) parts.push(`PORT ${source.port}`);
+    put("USER", source.user);
+    put("PASSWORD", source.password);
+    put("DB", source.db);
+    put("TABLE", source.table);
+    if (source.type === "clickhouse") put("QUERY", source.query);
+    put("WHERE", source.where);
+    put("INVALIDATE_QUERY", source.invalidateQuery);
+  }
+  return `SOURCE(${source.type.toUpperCase()}(${parts.join(" ")}))`;
+}
+
+function renderDefault(value: string): string {
+  return /^-?\d+(\.\d+)?$/.test(value.trim()) ? value.trim() : quote(value);
+}
+
+/**
+ * CREATE DICTIONARY for a validated spec. Throws on an invalid identifier
+ * (from escapeIdentifier) or attribute type; callers turn that into a 400.
+ */
+export function buildCreateDictionaryStatement(input: CreateDictionaryInput): string {
+  const columns = input.attributes.map((a) => {
+    // Types are the one part spliced in as written, so check them here too.
+    if (!isDictionaryAttributeType(a.type)) throw new Error(`invalid type "${a.type}"`);
+    let def = `  ${escapeIdentifier(a.name)} ${a.type}`;
+    if (a.default !== undefined && a.default !== "") def += ` DEFAULT ${renderDefault(a.default)}`;
+    return def;
+  });
+  const keys = input.attributes.filter((a) => a.isKey).map((a) => escapeIdentifier(a.name));
+
+  let statement = `CREATE DICTIONARY ${escapeIdentifier(input.database)}.${escapeIdentifier(input.name)}`;
+  if (input.cluster) statement += ` ON CLUSTER ${escapeIdentifier(input.cluster)}`;
+  statement += ` (\n${columns.join(",\n")}\n)`;
+  statement += `\nPRIMARY KEY ${keys.join(", ")}`;
+  statement += `\n${renderSource(input.source)}`;
+  statement += isCacheLayout(input.layout)
+    ? `\nLAYOUT(${input.layout.toUpperCase()}(SIZE_IN_CELLS ${input.sizeInCells}))`
+    : `\nLAYOUT(${input.layout.toUpperCase()}())`;
+  // Direct layouts read the source on every lookup and reject LIFETIME.
+  if (!input.layout.endsWith("direct")) {
+    statement += input.lifetimeMin === 0 && input.lifetimeMax === 0
+      ? "\nLIFETIME(0)"
+      : `\nLIFETIME(MIN ${input.lifetimeMin} MAX ${input.lifetimeMax})`;
+  }
+  if (input.comment) statement += `\nCOMMENT ${quote(input.comment)}`;
+  return statement;
+}
+
+/**
+ * SYSTEM RELOAD DICTIONARY for a dictionary as system.dictionaries names it.
+ * Dictionaries defined in server config have an empty database.
+ */
+export function buildReloadDictionaryStatement(database: string, name: string): string {
+  return `SYSTEM RELOAD DICTIONARY ${database ? `${quoteName(database)}.` : ""}${quoteName(name)}`;
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "bun:test";
+import {
+  checkDictionary,
+  parseDictionaryRuleConfig,
+  validateDictionaryRuleConfig,
+  type DictionaryState,
+} from "./monitor";
+
+const NOW = 1_800_000_000;
+
+const dict = (over: Partial<DictionaryState> = {}): DictionaryState => ({
+  database: "geo",
+  name: "countries",
+  status: "LOADED",
+  lastSuccessfulUpdate: NOW - 120,
+  lastException: "",
+  lifetimeMax: 600,
+  ...over,
+});
+
+const rule = (over: Record<string, unknown>) => parseDictionaryRuleConfig(over);
+
+describe("dictionary health checkDictionary", () => {
+  it("flags a failed reload that keeps serving old data", () => {
+    const problems = checkDictionary(dict({ lastException: "Code: 210. Connection refused\nstack" }), rule({}), NOW);
+    expect(problems).toEqual([
+      { kind: "failed", reason: "reload failed, serving data from 2m ago: Code: 210. Connection refused" },
+    ]);
+  });
+
+  it("flags a dictionary that never loaded", () => {
+    const problems = checkDictionary(dict({ status: "FAILED", lastSuccessfulUpdate: 0, lastException: "bad source" }), rule({}), NOW);
+    expect(problems).toEqual([{ kind: "failed", reason: "failed to load: bad source" }]);
+  });
+
+  it("flags staleness past the window, but not for LIFETIME(0) or lazy dictionaries", () => {
+    const config = rule({ failed: false, staleMinutes: 60 });
+    expect(checkDictionary(dict({ lastSuccessfulUpdate: NOW - 2 * 3600 }), config, NOW)).toEqual([
+      { kind: "stale", reason: "last loaded 2.0h ago (> 60m)" },
+    ]);
+    expect(checkDictionary(dict({ lastSuccessfulUpdate: NOW - 2 * 3600, lifetimeMax: 0 }), config, NOW)).toEqual([]);
+    expect(checkDictionary(dict({ status: "NOT_LOADED", lastSuccessfulUpdate: 0 }), config, NOW)).toEqual([]);
+  });
+
+  it("limits the rule to the named dictionaries", () => {
+    const config = rule({ dictionaries: "geo.regions, currencies" });
+    expect(checkDictionary(dict({ status: "FAILED" }), config, NOW)).toEqual([]);
+    expect(checkDictionary(dict({ database: "", name: "Currencies", status: "FAILED" }), config, NOW)).toHaveLength(1);
+  });
+});
+
+describe("dictionary health validateDictionaryRuleConfig", () => {
+  it("needs failed loads or a staleness window", () => {
+    expect(validateDictionaryRuleConfig({ failed: false })).not.toBeNull();
+    expect(validateDictionaryRuleConfig({ failed: false, staleMinutes: 30 })).toBeNull();
+    expect(validateDictionaryRuleConfig({})).toBeNull();
+  });
+});
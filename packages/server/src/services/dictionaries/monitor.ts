@@ -0,0 +1,272 @@
+/**
+ * Dictionary health — alerts for dictionaries that failed to load or went stale.
+ *
+ * A dictionary whose reload fails keeps serving the data of its last good
+ * load: system.dictionaries still says LOADED and only `last_exception` tells.
+ * The fleet poller calls dictionaryTick() after each snapshot tick (so only the
+ * lease holder acts) and every enabled `dictionary_health` alert rule is
+ * checked against each connection's system.dictionaries.
+ *
+ * Alerts are edge-triggered: a (rule, dictionary, problem) is reported once and
+ * forgotten when the problem clears, so a dictionary that fails again alerts
+ * again. Dictionaries that were never loaded (lazy load) or never reload
+ * (LIFETIME(0)) are not checked for staleness.
+ *
+ * Example rule config (DictionaryHealthRuleConfig):
+ * { "connections": "", "dictionaries": "geo.countries", "failed": true, "staleMinutes": 60 }
+ */
+
+import { ClientManager } from "../clientManager";
+import { buildFleetConfig } from "../fleetMetrics";
+import { listRules, getRuleChannelsDecrypted, recordEvent } from "../alerting/store";
+import { sendChannelMessage } from "../alerting/deliver";
+import { findSuppression, resolveAlert } from "../alerting/policy";
+import { AlertSourceType, type AlertSeverity, type DictionaryHealthRuleConfig } from "../alerting/types";
+import { logger } from "../../utils/logger";
+
+/** A dictionary's load state as read from system.dictionaries. */
+export interface DictionaryState {
+  database: string;
+  name: string;
+  status: string;
+  /** Epoch seconds of the last successful load; 0 when it never loaded. */
+  lastSuccessfulUpdate: number;
+  lastException: string;
+  lifetimeMax: number;
+}
+
+export type DictionaryProblemKind = "failed" | "stale";
+
+export interface DictionaryProblem {
+  kind: DictionaryProblemKind;
+  reason: string;
+}
+
+interface DictionaryRule {
+  ruleId: string;
+  name: string;
+  severity: AlertSeverity;
+  config: DictionaryHealthRuleConfig;
+}
+
+interface DictionaryRow {
+  database: string;
+  name: string;
+  status: string;
+  last_success: number | string;
+  last_exception: string;
+  lifetime_max: number | string;
+}
+
+// Per-(connection, rule, dictionary, problem) record of breaches already
+// reported, so a dictionary that stays broken alerts once.
+const handled = new Set<string>();
+
+function num(v: unknown): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function splitList(raw: unknown): string[] {
+  return String(raw ?? "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function fmtAge(seconds: number): string {
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${(seconds / 3600).toFixed(1)}h`;
+  return `${(seconds / 86400).toFixed(1)}d`;
+}
+
+/** `db.name`, or the bare name of a dictionary defined in server config. */
+export function dictionaryLabel(d: { database: string; name: string }): string {
+  return d.database ? `${d.database}.${d.name}` : d.name;
+}
+
+/** Normalise a stored rule config; missing or mistyped fields fall back to "off". */
+export function parseDictionaryRuleConfig(raw: Record<string, unknown>): DictionaryHealthRuleConfig {
+  return {
+    connections: String(raw.connections ?? ""),
+    dictionaries: String(raw.dictionaries ?? ""),
+    failed: raw.failed !== false,
+    staleMinutes: num(raw.staleMinutes),
+  };
+}
+
+/** Why a dictionary rule can't be saved, or null when it can. */
+export function validateDictionaryRuleConfig(raw: Record<string, unknown>): string | null {
+  const config = parseDictionaryRuleConfig(raw);
+  if (!config.failed && config.staleMinutes <= 0) {
+    return "Alert on failed loads, set a staleness window, or both";
+  }
+  return null;
+}
+
+/**
+ * The problems `d` has under `config` — empty when it is out of scope or
+ * healthy. `nowSec` is epoch seconds. Pure; exported for tests.
+ */
+export function checkDictionary(d: DictionaryState, config: DictionaryHealthRuleConfig, nowSec: number): DictionaryProblem[] {
+  const wanted = splitList(config.dictionaries);
+  if (wanted.length > 0 && !wanted.includes(dictionaryLabel(d).toLowerCase())) return [];
+
+  const problems: DictionaryProblem[] = [];
+  if (config.failed && (d.status.startsWith("FAILED") || d.lastException)) {
+    const error = d.lastException.split("\n")[0].slice(0, 300) || d.status;
+    problems.push({
+      kind: "failed",
+      reason: d.lastSuccessfulUpdate > 0 && !d.status.startsWith("FAILED")
+        ? `reload failed, serving data from ${fmtAge(nowSec - d.lastSuccessfulUpdate)} ago: ${error}`
+        : `failed to load: ${error}`,
+    });
+  }
+  const checksStaleness = config.staleMinutes > 0 && d.lifetimeMax > 0 && d.status !== "NOT_LOADED";
+  if (checksStaleness && d.lastSuccessfulUpdate > 0) {
+    const age = nowSec - d.lastSuccessfulUpdate;
+    if (age > config.staleMinutes * 60) {
+      problems.push({ kind: "stale", reason: `last loaded ${fmtAge(age)} ago (> ${config.staleMinutes}m)` });
+    }
+  }
+  return problems;
+}
+
+function coversConnection(config: DictionaryHealthRuleConfig, conn: { id: string; name: string }): boolean {
+  const wanted = splitList(config.connections);
+  return wanted.length === 0 || wanted.includes(conn.id.toLowerCase()) || wanted.includes(conn.name.toLowerCase());
+}
+
+async function loadDictionaryRules(): Promise<DictionaryRule[]> {
+  const out: DictionaryRule[] = [];
+  for (const rule of await listRules()) {
+    if (!rule.enabled || rule.sourceType !== AlertSourceType.DictionaryHealth) continue;
+    let raw: Record<string, unknown> = {};
+    try {
+      raw = JSON.parse(rule.config) as Record<string, unknown>;
+    } catch {
+      raw = {};
+    }
+    out.push({ ruleId: rule.id, name: rule.name, severity: rule.severity, config: parseDictionaryRuleConfig(raw) });
+  }
+  return out;
+}
+
+async function listDictionaryStates(connectionId: string): Promise<DictionaryState[]> {
+  const client = ClientManager.getInstance().getClient(await buildFleetConfig(connectionId));
+  const result = await client.query({
+    query: `
+      SELECT
+        database,
+        name,
+        toString(status) AS status,
+        toUnixTimestamp(last_successful_update_time) AS last_success,
+        last_exception,
+        lifetime_max
+      FROM system.dictionaries
+    `,
+    format: "JSON",
+  });
+  const rows = ((await result.json()) as { data?: DictionaryRow[] }).data ?? [];
+  return rows.map((row) => ({
+    database: row.database,
+    name: row.name,
+    status: row.status,
+    lastSuccessfulUpdate: num(row.last_success),
+    lastException: row.last_exception ?? "",
+    lifetimeMax: num(row.lifetime_max),
+  }));
+}
+
+/** Record the breach against the rule and deliver it to the rule's channels. */
+async function report(
+  rule: DictionaryRule,
+  conn: { id: string; name: string },
+  d: DictionaryState,
+  problem: DictionaryProblem,
+  dedupKey: string,
+): Promise<void> {
+  const node = conn.name;
+  const title = problem.kind === "failed"
+    ? `📕 Dictionary failed to load — ${rule.name}`
+    : `⏳ Dictionary stale — ${rule.name}`;
+  const text = `${node} · ${dictionaryLabel(d)} ${problem.reason}`;
+
+  const suppressedBy = await findSuppression({ ruleId: rule.ruleId, severity: rule.severity, connection: conn });
+  const channels = suppressedBy ? [] : await getRuleChannelsDecrypted(rule.ruleId);
+  await Promise.allSettled(
+    channels.map(({ row, config }) =>
+      sendChannelMessage(row.type, config, { title, text, severity: rule.severity, dedupKey }).catch((err) =>
+        logger.error({ module: "DictionaryHealth", channel: row.type, name: row.name, err: String(err) }, "Channel delivery failed"),
+      ),
+    ),
+  );
+  await recordEvent({
+    ruleId: rule.ruleId,
+    severity: rule.severity,
+    payload: `${node} — ${dictionaryLabel(d)} ${problem.reason}`,
+    deliveredTo: channels.map(({ row }) => row.name),
+    dedupKey,
+    connectionId: conn.id,
+    suppressedBy,
+  }).catch((err) => logger.error({ module: "DictionaryHealth", err: String(err) }, "Failed to record dictionary event"));
+}
+
+/**
+ * Check every active connection's dictionaries against the enabled
+ * dictionary_health rules and report new breaches. Called by the fleet poller
+ * after each tick; never throws.
+ */
+export async function dictionaryTick(connections: { id: string; name: string }[]): Promise<void> {
+  try {
+    const rules = await loadDictionaryRules();
+    if (rules.length === 0) {
+      handled.clear();
+      return;
+    }
+    const nowSec = Math.floor(Date.now() / 1000);
+    const seen = new Set<string>();
+    const polled = new Set<string>();
+
+    for (const conn of connections) {
+      const covering = rules.filter((r) => coversConnection(r.config, conn));
+      if (covering.length === 0) continue;
+
+      let states: DictionaryState[];
+      try {
+        states = await listDictionaryStates(conn.id);
+      } catch (err) {
+        logger.warn({ module: "DictionaryHealth", connectionId: conn.id, err: String(err) }, "Could not read dictionaries");
+        continue;
+      }
+      polled.add(conn.id);
+
+      for (const d of states) {
+        for (const rule of covering) {
+          for (const problem of checkDictionary(d, rule.config, nowSec)) {
+            const key = `${conn.id}:${rule.ruleId}:${problem.kind}:${dictionaryLabel(d)}`;
+            seen.add(key);
+            if (handled.has(key)) continue;
+            handled.add(key);
+            logger.info(
+              { module: "DictionaryHealth", connectionId: conn.id, dictionary: dictionaryLabel(d), ruleId: rule.ruleId, kind: problem.kind },
+              "Dictionary rule breached",
+            );
+            await report(rule, conn, d, problem, key);
+          }
+        }
+      }
+    }
+
+    // Forget breaches that cleared. A connection that couldn't be read this
+    // tick keeps its entries.
+    for (const key of [...handled]) {
+      if (polled.has(key.slice(0, key.indexOf(":"))) && !seen.has(key)) {
+        handled.delete(key);
+        await resolveAlert(key);
+      }
+    }
+  } catch (err) {
+    logger.error({ module: "DictionaryHealth", err: err instanceof Error ? err.message : String(err) }, "dictionaryTick failed");
+  }
+}
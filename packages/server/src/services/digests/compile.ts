@@ -0,0 +1,176 @@
+/**
+ * Digest compiler — gathers one digest's sections for the period ending now.
+ *
+ * Every section reads what its feature already stores: fleet breaches from the
+ * alert incidents, Doctor verdicts from the saved reports, Scheduled Query
+ * health from `getOverview`, Data Health incidents, and — the only live reads —
+ * the top-cost query patterns from each active connection's system.query_log.
+ * A connection that cannot be read is listed as unreachable instead of failing
+ * the whole digest.
+ */
+
+import { ClientManager } from "../clientManager";
+import { buildFleetConfig } from "../fleetMetrics";
+import { listDoctorReports } from "../doctorReports";
+import { getOverview } from "../scheduledQueries/store";
+import * as alertingStore from "../alerting/store";
+import * as dataHealthStore from "../dataHealth/store";
+import { listConnections } from "../../rbac/services/connections";
+import type { CompiledDigest, DigestCostPattern, DigestRow } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_BREACHES = 10;
+const MAX_DOCTOR_VERDICTS = 3;
+const MAX_FAILING_JOBS = 5;
+const MAX_OPEN_DATA_INCIDENTS = 10;
+const PATTERNS_PER_CONNECTION = 5;
+const MAX_PATTERNS = 10;
+
+function num(v: unknown): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+/**
+ * Query shapes ranked by total duration over the last `days` days. `days` is
+ * an integer from the validated digest row, so it is safe to interpolate.
+ */
+function costPatternsSql(days: number): string {
+  return `
+  SELECT
+    normalizeQuery(query) AS pattern,
+    count() AS executions,
+    sum(query_duration_ms) AS total_duration_ms,
+    sum(ProfileEvents['OSCPUVirtualTimeMicroseconds']) / 1e6 AS cpu_seconds,
+    sum(read_bytes) AS read_bytes,
+    max(memory_usage) AS peak_memory,
+    countIf(type != 'QueryFinish') AS failures
+  FROM system.query_log
+  WHERE event_time >= now() - INTERVAL ${Math.max(1, Math.trunc(days))} DAY
+    AND type IN ('QueryFinish', 'ExceptionWhileProcessing', 'ExceptionBeforeStart')
+    AND query != ''
+    AND query NOT LIKE '%FLEET_POLLER_MARKER%'
+  GROUP BY pattern
+  ORDER BY total_duration_ms DESC
+  LIMIT ${PATTERNS_PER_CONNECTION}`;
+}
+
+async function costPatterns(connectionId: string, connection: string, days: number): Promise<DigestCostPattern[]> {
+  const config = await buildFleetConfig(connectionId);
+  const client = ClientManager.getInstance().getClient(config);
+  const result = await client.query({
+    query: costPatternsSql(days),
+    format: "JSON",
+    clickhouse_settings: { readonly: "1", max_execution_time: 30, max_result_rows: "50" },
+  });
+  const json = (await result.json()) as { data?: Record<string, unknown>[] };
+  return (json.data ?? []).map((r) => ({
+    connection,
+    pattern: String(r.pattern ?? "").replace(/\s+/g, " ").trim(),
+    executions: num(r.executions),
+    totalDurationMs: num(r.total_duration_ms),
+    cpuSeconds: num(r.cpu_seconds),
+    readBytes: num(r.read_bytes),
+    peakMemory: num(r.peak_memory),
+    failures: num(r.failures),
+  }));
+}
+
+/** The top-cost query patterns across the active connections, heaviest first. */
+async function topCostPatterns(days: number): Promise<{ patterns: DigestCostPattern[]; unreachable: string[] }> {
+  const { connections } = await listConnections({ activeOnly: true });
+  const unreachable: string[] = [];
+  const perConnection = await Promise.all(
+    connections.map(async (c) => {
+      try {
+        return await costPatterns(c.id, c.name, days);
+      } catch {
+        unreachable.push(c.name);
+        return [];
+      }
+    }),
+  );
+  const patterns = perConnection
+    .flat()
+    .sort((a, b) => b.totalDurationMs - a.totalDurationMs)
+    .slice(0, MAX_PATTERNS);
+  return { patterns, unreachable: unreachable.sort() };
+}
+
+/** Compile `digest` for the `windowDays` ending at `now`. */
+export async function compileDigest(
+  digest: Pick<DigestRow, "name" | "windowDays">,
+  now = Date.now(),
+): Promise<CompiledDigest> {
+  const from = now - digest.windowDays * DAY_MS;
+
+  const [incidents, reports, overview, dataIncidents, promises, cost] = await Promise.all([
+    alertingStore.listIncidents({ includeResolved: true, openedSince: from, limit: 500 }),
+    listDoctorReports(),
+    getOverview(digest.windowDays),
+    dataHealthStore.listIncidents(undefined, 500),
+    dataHealthStore.listPromises(),
+    topCostPatterns(digest.windowDays),
+  ]);
+
+  const breaches = incidents.sort((a, b) => b.openedAt - a.openedAt);
+
+  const verdicts = reports.filter((r) => r.createdAt >= from);
+  const byStatus: Record<string, number> = {};
+  for (const r of verdicts) {
+    const status = r.status ?? "unknown";
+    byStatus[status] = (byStatus[status] ?? 0) + 1;
+  }
+
+  const promiseNames = new Map(promises.map((p) => [p.id, p.name]));
+  const stillOpen = dataIncidents.filter((i) => i.status !== "recovered");
+
+  return {
+    name: digest.name,
+    windowDays: digest.windowDays,
+    from,
+    to: now,
+    breaches: {
+      total: breaches.length,
+      critical: breaches.filter((b) => b.severity === "critical").length,
+      open: breaches.filter((b) => b.status !== "resolved").length,
+      items: breaches.slice(0, MAX_BREACHES).map((b) => ({
+        severity: b.severity,
+        summary: b.summary,
+        openedAt: b.openedAt,
+        resolved: b.status === "resolved",
+      })),
+    },
+    doctor: {
+      total: verdicts.length,
+      byStatus,
+      latest: verdicts.slice(0, MAX_DOCTOR_VERDICTS).map((r) => ({
+        id: r.id,
+        createdAt: r.createdAt,
+        status: r.status,
+        summary: r.summary,
+      })),
+    },
+    scheduledQueries: {
+      runs: overview.kpis.runsWindow,
+      successRate: overview.kpis.successRateWindow,
+      failingJobs: overview.topFailing.slice(0, MAX_FAILING_JOBS).map((j) => ({
+        name: j.name,
+        failureStreak: j.failureStreak,
+        lastMessage: j.lastMessage,
+      })),
+    },
+    dataHealth: {
+      opened: dataIncidents.filter((i) => i.openedAt >= from).length,
+      recovered: dataIncidents.filter((i) => i.recoveredAt != null && i.recoveredAt >= from).length,
+      stillOpen: stillOpen.slice(0, MAX_OPEN_DATA_INCIDENTS).map((i) => ({
+        promise: promiseNames.get(i.promiseId) ?? i.promiseId,
+        severity: i.severity,
+        summary: i.summary,
+        openedAt: i.openedAt,
+      })),
+    },
+    topPatterns: cost.patterns,
+    unreachable: cost.unreachable,
+  };
+}
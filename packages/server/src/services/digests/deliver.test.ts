@@ -0,0 +1,95 @@
+/**
+ * Digest delivery — who a digest may still be emailed to.
+ */
+import { describe, it, expect, mock, beforeEach, afterAll } from "bun:test";
+
+const mockGetUserPermissions = mock();
+const mockGetUserRoles = mock();
+const mockGetUserConnections = mock();
+const mockListRecipients = mock();
+const mockSendChannelMessage = mock();
+
+mock.module("../../rbac/services/rbac", () => ({
+  getUserPermissions: mockGetUserPermissions,
+  getUserRoles: mockGetUserRoles,
+}));
+
+mock.module("../../rbac/services/connections", () => ({
+  listConnections: mock(async () => ({ connections: [{ id: "conn1" }, { id: "conn2" }] })),
+  getUserConnections: mockGetUserConnections,
+}));
+
+mock.module("../alerting/store", () => ({
+  getChannelsDecrypted: mock(async () => [{ row: { type: "email", name: "Ops mail" }, config: { to: "ops@example.com" } }]),
+}));
+
+mock.module("../alerting/deliver", () => ({
+  sendChannelMessage: mockSendChannelMessage,
+}));
+
+mock.module("./compile", () => ({
+  compileDigest: mock(async () => ({})),
+}));
+
+mock.module("./render", () => ({
+  renderDigest: () => ({ title: "Daily ops", text: "…" }),
+}));
+
+mock.module("./store", () => ({
+  listRecipients: mockListRecipients,
+  recordDelivery: mock(async () => undefined),
+}));
+
+const { digestRecipientDenial, sendDigest } = await import("./deliver");
+
+afterAll(() => {
+  mock.restore();
+});
+
+describe("digest delivery", () => {
+  beforeEach(() => {
+    mockGetUserPermissions.mockReset();
+    mockGetUserPermissions.mockResolvedValue(["alerting:view"]);
+    mockGetUserRoles.mockReset();
+    mockGetUserRoles.mockResolvedValue(["viewer"]);
+    mockGetUserConnections.mockReset();
+    mockGetUserConnections.mockResolvedValue([{ id: "conn1" }, { id: "conn2" }]);
+    mockSendChannelMessage.mockReset();
+    mockSendChannelMessage.mockResolvedValue(undefined);
+  });
+
+  it("lets users with alerting:view and every connection receive digests", async () => {
+    expect(await digestRecipientDenial("user1")).toBeNull();
+  });
+
+  it("refuses users without alerting:view or without every connection", async () => {
+    mockGetUserPermissions.mockResolvedValue([]);
+    expect(await digestRecipientDenial("user1")).toContain("alerting:view");
+
+    mockGetUserPermissions.mockResolvedValue(["alerting:view"]);
+    mockGetUserConnections.mockResolvedValue([{ id: "conn1" }]);
+    expect(await digestRecipientDenial("user1")).toContain("can't access 1 of them");
+  });
+
+  it("lets super admins receive digests without connection grants", async () => {
+    mockGetUserRoles.mockResolvedValue(["super_admin"]);
+    mockGetUserConnections.mockResolvedValue([]);
+    expect(await digestRecipientDenial("user1")).toBeNull();
+  });
+
+  it("leaves out subscribers who lost access since they opted in", async () => {
+    mockListRecipients.mockResolvedValue([
+      { userId: "keeps", email: "keeps@example.com" },
+      { userId: "lost", email: "lost@example.com" },
+    ]);
+    mockGetUserConnections.mockImplementation(async (userId: string) =>
+      userId === "lost" ? [{ id: "conn1" }] : [{ id: "conn1" }, { id: "conn2" }],
+    );
+
+    const result = await sendDigest({ id: "digest1", name: "Daily ops", windowDays: 1, channelIds: ["ch1"] } as never);
+
+    expect(result.delivered).toEqual(["Ops mail", "keeps@example.com"]);
+    expect(result.failures).toEqual([]);
+    expect(mockSendChannelMessage.mock.calls.map((call) => call[1].to)).toEqual(["ops@example.com", "keeps@example.com"]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Digest delivery — compile a digest, render it and send it to its channels
+ * and opted-in users.
+ *
+ * Channels receive the message as-is through sendChannelMessage. Subscribers
+ * are emailed one by one at their account address through the digest's first
+ * email channel (its SMTP settings, with `to` replaced), so no subscriber sees
+ * another's address. Incident tools (PagerDuty, Opsgenie) are skipped — a
+ * digest is a report, not something to page on. A failing channel or
+ * recipient doesn't stop the others; failures are stored on the digest.
+ *
+ * A digest covers every active connection, so a subscriber must still hold
+ * alerting:view and be able to use all of them when it is sent; one who lost
+ * either is left out (see digestRecipientDenial).
+ */
+
+import { getChannelsDecrypted } from "../alerting/store";
+import { sendChannelMessage } from "../alerting/deliver";
+import { AlertSeverity, ChannelType } from "../alerting/types";
+import { getUserPermissions, getUserRoles } from "../../rbac/services/rbac";
+import { getUserConnections, listConnections } from "../../rbac/services/connections";
+import { PERMISSIONS, SYSTEM_ROLES } from "../../rbac/schema/base";
+import { logger } from "../../utils/logger";
+import { compileDigest } from "./compile";
+import { renderDigest } from "./render";
+import * as store from "./store";
+import type { DigestRecipient, DigestRow } from "./types";
+
+/** Channel types a digest can't be delivered to. */
+export const DIGEST_EXCLUDED_CHANNEL_TYPES: ChannelType[] = [ChannelType.PagerDuty, ChannelType.Opsgenie];
+
+export interface DigestDeliveryResult {
+  /** Channel names and subscriber addresses the digest reached. */
+  delivered: string[];
+  failures: string[];
+}
+
+function errMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Why `userId` may not receive digests, or null when they may: they need
+ * alerting:view and access to every active connection (super admins have it).
+ * Checked when they subscribe, for the preview, and again on every send.
+ */
+export async function digestRecipientDenial(userId: string): Promise<string | null> {
+  const [permissions, roles] = await Promise.all([getUserPermissions(userId), getUserRoles(userId)]);
+  if (!permissions.includes(PERMISSIONS.ALERTING_VIEW)) return "Digests need the alerting:view permission";
+  if (roles.includes(SYSTEM_ROLES.SUPER_ADMIN)) return null;
+  const [{ connections }, granted] = await Promise.all([listConnections({ activeOnly: true }), getUserConnections(userId)]);
+  const usable = new Set(granted.map((c) => c.id));
+  const missing = connections.filter((c) => !usable.has(c.id)).length;
+  return missing > 0 ? `Digests cover every connection; you can't access ${missing} of them` : null;
+}
+
+export async function sendDigest(digest: DigestRow, now = Date.now()): Promise<DigestDeliveryResult> {
+  const message = { ...renderDigest(await compileDigest(digest, now)), severity: AlertSeverity.Info };
+  const channels = (await getChannelsDecrypted(digest.channelIds)).filter(
+    (c) => !DIGEST_EXCLUDED_CHANNEL_TYPES.includes(c.row.type),
+  );
+  const delivered: string[] = [];
+  const failures: string[] = [];
+
+  for (const { row, config } of channels) {
+    try {
+      await sendChannelMessage(row.type, config, message);
+      delivered.push(row.name);
+    } catch (err) {
+      failures.push(`${row.name}: ${errMessage(err)}`);
+    }
+  }
+
+  const recipients: DigestRecipient[] = [];
+  for (const r of await store.listRecipients(digest.id)) {
+    const denial = await digestRecipientDenial(r.userId);
+    if (denial) {
+      logger.info({ module: "Digests", digestId: digest.id, userId: r.userId, denial }, "Digest subscriber left out");
+    } else {
+      recipients.push(r);
+    }
+  }
+  const email = channels.find((c) => c.row.type === ChannelType.Email);
+  if (recipients.length > 0 && !email) {
+    failures.push(`No email channel to reach ${recipients.length} subscriber${recipients.length === 1 ? "" : "s"}`);
+  } else if (email) {
+    for (const r of recipients) {
+      try {
+        await sendChannelMessage(ChannelType.Email, { ...email.config, to: r.email }, message);
+        delivered.push(r.email);
+      } catch (err) {
+        failures.push(`${r.email}: ${errMessage(err)}`);
+      }
+    }
+  }
+
+  await store.recordDelivery(digest.id, now, failures.length > 0 ? failures.join("; ").slice(0, 2000) : null);
+  logger.info(
+    { module: "Digests", digestId: digest.id, delivered: delivered.length, failures: failures.length },
+    "Digest sent",
+  );
+  return { delivered, failures };
+}
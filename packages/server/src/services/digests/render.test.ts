@@ -0,0 +1,80 @@
+import { describe, it, expect } from "bun:test";
+import { renderDigest } from "./render";
+import type { CompiledDigest } from "./types";
+
+const to = Date.UTC(2026, 9, 19, 8, 0);
+
+const digest: CompiledDigest = {
+  name: "Daily ops",
+  windowDays: 1,
+  from: to - 24 * 60 * 60 * 1000,
+  to,
+  breaches: {
+    total: 2,
+    critical: 1,
+    open: 1,
+    items: [
+      { severity: "critical", summary: "prod — memory: 92%", openedAt: to - 3_600_000, resolved: false },
+      { severity: "warning", summary: "prod — replica lag: 400s", openedAt: to - 7_200_000, resolved: true },
+    ],
+  },
+  doctor: {
+    total: 3,
+    byStatus: { healthy: 2, degraded: 1 },
+    latest: [{ id: "r1", createdAt: to - 600_000, status: "degraded", summary: "Merges are falling behind" }],
+  },
+  scheduledQueries: {
+    runs: 48,
+    successRate: 96,
+    failingJobs: [{ name: "Revenue rollup", failureStreak: 2, lastMessage: "Memory limit exceeded" }],
+  },
+  dataHealth: {
+    opened: 1,
+    recovered: 2,
+    stillOpen: [{ promise: "orders freshness", severity: "critical", summary: "95 minutes stale", openedAt: to - 900_000 }],
+  },
+  topPatterns: [
+    {
+      connection: "prod",
+      pattern: "SELECT customer_id, count() FROM events WHERE day = ? GROUP BY customer_id",
+      executions: 1200,
+      totalDurationMs: 5_400_000,
+      cpuSeconds: 8123.4,
+      readBytes: 3 * 1024 ** 4,
+      peakMemory: 12 * 1024 ** 3,
+      failures: 4,
+    },
+  ],
+  unreachable: ["staging"],
+};
+
+describe("digest rendering", () => {
+  it("renders every section into one message", () => {
+    const { title, text } = renderDigest(digest);
+    expect(title).toBe("📋 Daily ops — last 24 hours");
+    expect(text).toContain("2026-10-18 08:00 → 2026-10-19 08:00 UTC");
+    expect(text).toContain("Fleet breaches: 2 (1 critical, 1 still open)");
+    expect(text).toContain("• [critical] prod — memory: 92% — 2026-10-19 07:00 (open)");
+    expect(text).toContain("Doctor reports: 3 (2 healthy, 1 degraded)");
+    expect(text).toContain("Scheduled queries: 48 runs, 96% succeeded");
+    expect(text).toContain("• Revenue rollup — 2 failures in a row: Memory limit exceeded");
+    expect(text).toContain("Data health: 1 incidents opened, 2 recovered, 1 still open");
+    expect(text).toContain("1. prod — 1200 runs, 1.5h total, 8123 CPU s, 3.0 TB read, peak 12.0 GB, 4 failed");
+    expect(text).toContain("Could not read query_log on: staging");
+  });
+
+  it("says so when a period was quiet", () => {
+    const { title, text } = renderDigest({
+      ...digest,
+      windowDays: 7,
+      breaches: { total: 0, critical: 0, open: 0, items: [] },
+      doctor: { total: 0, byStatus: {}, latest: [] },
+      topPatterns: [],
+      unreachable: [],
+    });
+    expect(title).toBe("📋 Daily ops — last 7 days");
+    expect(text).toContain("Fleet breaches: 0 (0 critical, 0 still open)");
+    expect(text).toContain("Doctor reports: 0\n");
+    expect(text).toContain("Top-cost query patterns:\n• None recorded");
+  });
+});
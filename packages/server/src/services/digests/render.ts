@@ -0,0 +1,92 @@
+/**
+ * Digest rendering — a compiled digest as the `{title, text}` every channel
+ * type accepts. Plain text with short bullet lists, so it reads the same in an
+ * email, a chat message and a webhook payload. Empty sections say so rather
+ * than disappearing, so a quiet period is visibly quiet.
+ */
+
+import type { CompiledDigest } from "./types";
+
+const MAX_PATTERN_CHARS = 160;
+
+function clip(value: string, max: number): string {
+  return value.length > max ? `${value.slice(0, max - 1)}…` : value;
+}
+
+function fmtBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB", "PB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+function fmtDuration(ms: number): string {
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(seconds < 10 ? 1 : 0)}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  return `${(seconds / 3600).toFixed(1)}h`;
+}
+
+function fmtDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 16).replace("T", " ");
+}
+
+function period(digest: CompiledDigest): string {
+  if (digest.windowDays === 1) return "last 24 hours";
+  return `last ${digest.windowDays} days`;
+}
+
+/** The digest as a `{title, text}` message. */
+export function renderDigest(digest: CompiledDigest): { title: string; text: string } {
+  const lines: string[] = [`${fmtDate(digest.from)} → ${fmtDate(digest.to)} UTC`, ""];
+
+  const { breaches } = digest;
+  lines.push(`Fleet breaches: ${breaches.total} (${breaches.critical} critical, ${breaches.open} still open)`);
+  for (const b of breaches.items) {
+    lines.push(`• [${b.severity}] ${b.summary} — ${fmtDate(b.openedAt)}${b.resolved ? "" : " (open)"}`);
+  }
+  if (breaches.total > breaches.items.length) lines.push(`• …and ${breaches.total - breaches.items.length} more`);
+
+  lines.push("");
+  const verdicts = Object.entries(digest.doctor.byStatus)
+    .sort((a, b) => b[1] - a[1])
+    .map(([status, count]) => `${count} ${status}`);
+  lines.push(`Doctor reports: ${digest.doctor.total}${verdicts.length > 0 ? ` (${verdicts.join(", ")})` : ""}`);
+  for (const r of digest.doctor.latest) {
+    lines.push(`• ${fmtDate(r.createdAt)} [${r.status ?? "unknown"}] ${r.summary ?? "No verdict"}`);
+  }
+
+  lines.push("");
+  const sq = digest.scheduledQueries;
+  lines.push(`Scheduled queries: ${sq.runs} runs, ${sq.successRate}% succeeded`);
+  for (const j of sq.failingJobs) {
+    const streak = `${j.failureStreak} failure${j.failureStreak === 1 ? "" : "s"} in a row`;
+    lines.push(`• ${j.name} — ${streak}${j.lastMessage ? `: ${clip(j.lastMessage, 120)}` : ""}`);
+  }
+
+  lines.push("");
+  const dh = digest.dataHealth;
+  lines.push(`Data health: ${dh.opened} incidents opened, ${dh.recovered} recovered, ${dh.stillOpen.length} still open`);
+  for (const i of dh.stillOpen) {
+    lines.push(`• [${i.severity}] ${i.promise} — ${i.summary}`);
+  }
+
+  lines.push("");
+  lines.push("Top-cost query patterns:");
+  if (digest.topPatterns.length === 0) lines.push("• None recorded");
+  digest.topPatterns.forEach((p, i) => {
+    const failures = p.failures > 0 ? `, ${p.failures} failed` : "";
+    lines.push(
+      `${i + 1}. ${p.connection} — ${p.executions} runs, ${fmtDuration(p.totalDurationMs)} total, ` +
+        `${p.cpuSeconds.toFixed(0)} CPU s, ${fmtBytes(p.readBytes)} read, peak ${fmtBytes(p.peakMemory)}${failures}`,
+    );
+    lines.push(`   ${clip(p.pattern, MAX_PATTERN_CHARS)}`);
+  });
+  if (digest.unreachable.length > 0) lines.push(`Could not read query_log on: ${digest.unreachable.join(", ")}`);
+
+  return { title: `📋 ${digest.name} — ${period(digest)}`, text: lines.join("\n") };
+}
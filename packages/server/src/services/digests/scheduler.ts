@@ -0,0 +1,73 @@
+/**
+ * DigestScheduler — every minute, sends the operational digests whose
+ * schedule has a slot due.
+ *
+ * Cadences go through the Scheduled Queries engine (cadence.ts), so a digest
+ * accepts the same daily / weekly / monthly presets and custom cron, evaluated
+ * in the digest's timezone. There is no backfill: a digest that missed several
+ * slots is sent once, for the latest.
+ *
+ * Multi-instance: safe. Each slot is claimed with a conditional UPDATE on the
+ * digest row (store.claimScheduleSlot), so only one replica sends it.
+ */
+
+import { lastScheduledFireMs } from "../scheduledQueries/cadence";
+import { logger } from "../../utils/logger";
+import * as store from "./store";
+import { sendDigest } from "./deliver";
+
+const CHECK_INTERVAL_MS = 60_000;
+
+function errMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+class DigestScheduler {
+  private static instance: DigestScheduler | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  static getInstance(): DigestScheduler {
+    if (!DigestScheduler.instance) DigestScheduler.instance = new DigestScheduler();
+    return DigestScheduler.instance;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.tick(), CHECK_INTERVAL_MS);
+    this.timer.unref?.();
+    logger.info({ module: "DigestScheduler" }, "Digest scheduler started");
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const now = Date.now();
+      for (const digest of await store.listEnabledDigests()) {
+        const fireAt = lastScheduledFireMs(digest, now);
+        if (fireAt == null || digest.lastRunAt >= fireAt) continue;
+        if (!(await store.claimScheduleSlot(digest.id, fireAt, now))) continue;
+        try {
+          await sendDigest(digest, now);
+        } catch (err) {
+          logger.error({ module: "DigestScheduler", digestId: digest.id, err: errMessage(err) }, "Scheduled digest failed");
+          await store.recordDelivery(digest.id, now, errMessage(err)).catch(() => undefined);
+        }
+      }
+    } catch (err) {
+      logger.error({ module: "DigestScheduler", err: errMessage(err) }, "Digest scheduler tick failed");
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export { DigestScheduler };
@@ -0,0 +1,92 @@
+/**
+ * Digests store — digest CRUD, slot claims and subscriptions (SQLite in-memory).
+ */
+import { describe, it, expect, beforeEach, afterAll } from "bun:test";
+import { sql } from "drizzle-orm";
+import { closeDatabase, getDatabase, type SqliteDb } from "../../rbac/db";
+import { runMigrations } from "../../rbac/db/migrations";
+import { freshDatabase } from "../../rbac/db/migrationTestHarness";
+import { createChannel, deleteChannel } from "../alerting/store";
+import { ChannelType } from "../alerting/types";
+import {
+  claimScheduleSlot,
+  createDigest,
+  deleteDigest,
+  getDigest,
+  listRecipients,
+  listSubscribedDigestIds,
+  recordDelivery,
+  setSubscribed,
+  updateDigest,
+} from "./store";
+import { digestInputSchema } from "./types";
+
+afterAll(async () => {
+  await closeDatabase();
+});
+
+function addUser(id: string, email: string, active = true): void {
+  (getDatabase() as SqliteDb).run(sql`
+    INSERT INTO rbac_users (id, email, username, password_hash, is_active)
+    VALUES (${id}, ${email}, ${id}, 'x', ${active ? 1 : 0})
+  `);
+}
+
+const input = (overrides: Record<string, unknown> = {}) =>
+  digestInputSchema.parse({ name: "Daily ops", frequency: "daily", ...overrides });
+
+describe("digests store", () => {
+  beforeEach(async () => {
+    await freshDatabase("sqlite");
+    await runMigrations({ skipSeed: true });
+  });
+
+  it("creates, updates and deletes a digest with its channels", async () => {
+    const email = await createChannel({ name: "ops mail", type: ChannelType.Email, config: {}, enabled: true });
+    const slack = await createChannel({ name: "ops slack", type: ChannelType.Slack, config: {}, enabled: true });
+
+    const digest = await createDigest(input({ channelIds: [slack, email] }), null);
+    expect(digest).toMatchObject({ name: "Daily ops", windowDays: 1, enabled: true, lastSentAt: null });
+    expect(digest.channelIds.sort()).toEqual([email, slack].sort());
+    expect(digest.lastRunAt).toBeGreaterThan(0);
+
+    const weekly = await updateDigest(digest.id, input({ name: "Weekly ops", windowDays: 7, frequency: "weekly", channelIds: [email] }));
+    expect(weekly).toMatchObject({ name: "Weekly ops", windowDays: 7, frequency: "weekly", channelIds: [email] });
+    expect(await updateDigest("missing", input())).toBeNull();
+
+    // Deleting a channel drops it from the digest.
+    await deleteChannel(email);
+    expect((await getDigest(digest.id))?.channelIds).toEqual([]);
+
+    expect(await deleteDigest(digest.id)).toBe(true);
+    expect(await getDigest(digest.id)).toBeNull();
+  });
+
+  it("claims each slot once and records deliveries", async () => {
+    const digest = await createDigest(input(), null);
+    const fireAt = digest.lastRunAt + 1000;
+    expect(await claimScheduleSlot(digest.id, fireAt, fireAt + 5)).toBe(true);
+    expect(await claimScheduleSlot(digest.id, fireAt, fireAt + 6)).toBe(false);
+
+    await recordDelivery(digest.id, fireAt, "ops slack: HTTP 500");
+    expect(await getDigest(digest.id)).toMatchObject({ lastSentAt: fireAt, lastError: "ops slack: HTTP 500" });
+  });
+
+  it("emails only active subscribers that opted in", async () => {
+    const digest = await createDigest(input(), null);
+    addUser("u1", "ana@example.com");
+    addUser("u2", "bo@example.com", false);
+    addUser("u3", "cy@example.com");
+
+    await setSubscribed(digest.id, "u1", true);
+    await setSubscribed(digest.id, "u2", true);
+    await setSubscribed(digest.id, "u3", true);
+    await setSubscribed(digest.id, "u3", false);
+    await setSubscribed(digest.id, "u1", true);
+
+    expect(await listRecipients(digest.id)).toEqual([{ userId: "u1", email: "ana@example.com" }]);
+    expect(await listSubscribedDigestIds("u1")).toEqual(new Set([digest.id]));
+    expect(await listSubscribedDigestIds("u3")).toEqual(new Set());
+    expect((await getDigest(digest.id))?.subscriberCount).toBe(2);
+  });
+});
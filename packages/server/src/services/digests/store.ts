@@ -0,0 +1,212 @@
+/**
+ * Digests store — dialect-aware persistence over ops_digests, their channel
+ * links (ops_digest_channels) and opted-in users (ops_digest_subscribers).
+ * Mirrors the `all`/`run`/`execChanges` helper shape of `backups/store.ts`.
+ *
+ * The digest row is the scheduler lease: `claimScheduleSlot` is one atomic
+ * conditional UPDATE on last_run_at, so with several replicas only one sends a
+ * given slot. Booleans persist as 0/1, timestamps as millisecond integers.
+ */
+
+import { randomUUID } from "crypto";
+import { sql } from "drizzle-orm";
+
+import { getDatabase, getDatabaseType, type PostgresDb, type SqliteDb } from "../../rbac/db";
+import { DIGEST_FREQUENCIES, type DigestFrequency, type DigestInput, type DigestRecipient, type DigestRow } from "./types";
+
+// --- low-level dialect-aware helpers ----------------------------------------
+
+async function all(stmt: ReturnType<typeof sql>): Promise<Array<Record<string, unknown>>> {
+  const db = getDatabase();
+  if (getDatabaseType() === "sqlite") {
+    return (db as SqliteDb).all(stmt) as Array<Record<string, unknown>>;
+  }
+  const res = await (db as PostgresDb).execute(stmt);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const anyRes = res as any;
+  return (Array.isArray(anyRes) ? anyRes : anyRes.rows ?? []) as Array<Record<string, unknown>>;
+}
+
+async function run(stmt: ReturnType<typeof sql>): Promise<void> {
+  const db = getDatabase();
+  if (getDatabaseType() === "sqlite") {
+    (db as SqliteDb).run(stmt);
+    return;
+  }
+  await (db as PostgresDb).execute(stmt);
+}
+
+/** Run a write statement and return the affected-row count (the lease primitive). */
+async function execChanges(stmt: ReturnType<typeof sql>): Promise<number> {
+  const db = getDatabase();
+  if (getDatabaseType() === "sqlite") {
+    const res = (db as SqliteDb).run(stmt) as unknown as { changes?: number };
+    return Number(res?.changes ?? 0);
+  }
+  const res = await (db as PostgresDb).execute(stmt);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const anyRes = res as any;
+  return Number(anyRes?.count ?? anyRes?.rowCount ?? 0);
+}
+
+const bool = (v: unknown): boolean => v === true || Number(v) === 1;
+const numOrNull = (v: unknown): number | null => (v == null ? null : Number(v));
+const strOrNull = (v: unknown): string | null => (v == null ? null : String(v));
+
+function toFrequency(v: unknown): DigestFrequency {
+  return (DIGEST_FREQUENCIES as readonly unknown[]).includes(v) ? (v as DigestFrequency) : "daily";
+}
+
+// --- digests ----------------------------------------------------------------
+
+function toDigest(r: Record<string, unknown>, channelIds: string[]): DigestRow {
+  return {
+    id: String(r.id),
+    name: String(r.name),
+    windowDays: Number(r.window_days ?? 1),
+    frequency: toFrequency(r.frequency),
+    hour: Number(r.hour ?? 0),
+    dayOfWeek: Number(r.day_of_week ?? 0),
+    dayOfMonth: Number(r.day_of_month ?? 1),
+    cronExpr: strOrNull(r.cron_expr),
+    timezone: String(r.timezone ?? "UTC"),
+    channelIds,
+    enabled: bool(r.enabled),
+    lastRunAt: Number(r.last_run_at ?? 0),
+    lastError: strOrNull(r.last_error),
+    lastSentAt: numOrNull(r.last_sent_at),
+    subscriberCount: Number(r.subscriber_count ?? 0),
+    createdBy: strOrNull(r.created_by),
+    createdAt: Number(r.created_at ?? 0),
+    updatedAt: Number(r.updated_at ?? 0),
+  };
+}
+
+const SELECT_DIGEST = sql.raw(`
+  SELECT d.*, (SELECT COUNT(*) FROM ops_digest_subscribers s WHERE s.digest_id = d.id) AS subscriber_count
+  FROM ops_digests d
+`);
+
+async function withChannels(rows: Array<Record<string, unknown>>): Promise<DigestRow[]> {
+  if (rows.length === 0) return [];
+  const links = await all(sql`
+    SELECT digest_id, channel_id FROM ops_digest_channels
+    WHERE digest_id IN (${sql.join(rows.map((r) => sql`${String(r.id)}`), sql`, `)})
+    ORDER BY channel_id ASC
+  `);
+  const byDigest = new Map<string, string[]>();
+  for (const l of links) {
+    const id = String(l.digest_id);
+    byDigest.set(id, [...(byDigest.get(id) ?? []), String(l.channel_id)]);
+  }
+  return rows.map((r) => toDigest(r, byDigest.get(String(r.id)) ?? []));
+}
+
+/** Digests, by name. */
+export async function listDigests(): Promise<DigestRow[]> {
+  return withChannels(await all(sql`${SELECT_DIGEST} ORDER BY d.name ASC, d.id ASC`));
+}
+
+export async function listEnabledDigests(): Promise<DigestRow[]> {
+  return withChannels(await all(sql`${SELECT_DIGEST} WHERE d.enabled = 1`));
+}
+
+export async function getDigest(id: string): Promise<DigestRow | null> {
+  const [digest] = await withChannels(await all(sql`${SELECT_DIGEST} WHERE d.id = ${id} LIMIT 1`));
+  return digest ?? null;
+}
+
+async function setChannels(id: string, channelIds: string[]): Promise<void> {
+  await run(sql`DELETE FROM ops_digest_channels WHERE digest_id = ${id}`);
+  for (const channelId of new Set(channelIds)) {
+    await run(sql`INSERT INTO ops_digest_channels (digest_id, channel_id) VALUES (${id}, ${channelId})`);
+  }
+}
+
+/**
+ * Create a digest. last_run_at starts at creation time, so the first digest
+ * goes out at the next slot rather than immediately for a slot already past.
+ */
+export async function createDigest(input: DigestInput, createdBy: string | null): Promise<DigestRow> {
+  const id = randomUUID();
+  const now = Date.now();
+  await run(sql`
+    INSERT INTO ops_digests (
+      id, name, window_days, frequency, hour, day_of_week, day_of_month, cron_expr, timezone,
+      enabled, last_run_at, created_by, created_at, updated_at
+    ) VALUES (
+      ${id}, ${input.name}, ${input.windowDays}, ${input.frequency}, ${input.hour}, ${input.dayOfWeek},
+      ${input.dayOfMonth}, ${input.cronExpr ?? null}, ${input.timezone},
+      ${input.enabled ? 1 : 0}, ${now}, ${createdBy}, ${now}, ${now}
+    )
+  `);
+  await setChannels(id, input.channelIds);
+  return (await getDigest(id))!;
+}
+
+export async function updateDigest(id: string, input: DigestInput): Promise<DigestRow | null> {
+  const changes = await execChanges(sql`
+    UPDATE ops_digests SET
+      name = ${input.name}, window_days = ${input.windowDays}, frequency = ${input.frequency},
+      hour = ${input.hour}, day_of_week = ${input.dayOfWeek}, day_of_month = ${input.dayOfMonth},
+      cron_expr = ${input.cronExpr ?? null}, timezone = ${input.timezone}, enabled = ${input.enabled ? 1 : 0},
+      updated_at = ${Date.now()}
+    WHERE id = ${id}
+  `);
+  if (changes === 0) return null;
+  await setChannels(id, input.channelIds);
+  return getDigest(id);
+}
+
+export async function deleteDigest(id: string): Promise<boolean> {
+  return (await execChanges(sql`DELETE FROM ops_digests WHERE id = ${id}`)) === 1;
+}
+
+/**
+ * Atomically claim the slot at `fireAt` for a digest. True when this call won
+ * it (the caller sends the digest); false when the slot was already taken.
+ */
+export async function claimScheduleSlot(id: string, fireAt: number, now: number): Promise<boolean> {
+  const changes = await execChanges(sql`
+    UPDATE ops_digests SET last_run_at = ${now}
+    WHERE id = ${id} AND last_run_at < ${fireAt}
+  `);
+  return changes === 1;
+}
+
+/** Record a delivery; `error` lists the channels or recipients that failed. */
+export async function recordDelivery(id: string, sentAt: number, error: string | null): Promise<void> {
+  await run(sql`UPDATE ops_digests SET last_sent_at = ${sentAt}, last_error = ${error} WHERE id = ${id}`);
+}
+
+// --- subscribers ------------------------------------------------------------
+
+/** The digests `userId` opted in to. */
+export async function listSubscribedDigestIds(userId: string): Promise<Set<string>> {
+  const rows = await all(sql`SELECT digest_id FROM ops_digest_subscribers WHERE user_id = ${userId}`);
+  return new Set(rows.map((r) => String(r.digest_id)));
+}
+
+export async function setSubscribed(digestId: string, userId: string, subscribed: boolean): Promise<void> {
+  await run(sql`DELETE FROM ops_digest_subscribers WHERE digest_id = ${digestId} AND user_id = ${userId}`);
+  if (subscribed) {
+    await run(sql`
+      INSERT INTO ops_digest_subscribers (digest_id, user_id, created_at)
+      VALUES (${digestId}, ${userId}, ${Date.now()})
+    `);
+  }
+}
+
+/** Active subscribers with an email address. */
+export async function listRecipients(digestId: string): Promise<DigestRecipient[]> {
+  const rows = await all(sql`
+    SELECT u.id, u.email, u.is_active
+    FROM ops_digest_subscribers s
+    JOIN rbac_users u ON u.id = s.user_id
+    WHERE s.digest_id = ${digestId}
+    ORDER BY u.email ASC
+  `);
+  return rows
+    .filter((r) => bool(r.is_active) && typeof r.email === "string" && r.email.includes("@"))
+    .map((r) => ({ userId: String(r.id), email: String(r.email) }));
+}
@@ -0,0 +1,125 @@
+/**
+ * Operational digests — shared types and Zod (v3) schemas.
+ *
+ * A digest is a scheduled summary of the last N days across the platform:
+ * fleet breaches (alert incidents), ChouseD Doctor verdicts, Scheduled Query
+ * failure rates, Data Health incidents opened and recovered, and the top-cost
+ * query patterns per connection. It is delivered to its notification channels
+ * on a cadence (the Scheduled Queries engine), and emailed to every user who
+ * opted in from Preferences through the digest's email channel. The digest row
+ * is its own scheduler lease (`last_run_at`). Timestamps persist as
+ * millisecond integers in both dialects.
+ */
+
+import { z } from "zod";
+
+/** Clock cadences a digest accepts (no `manual` / `event`). */
+export const DIGEST_FREQUENCIES = ["daily", "weekly", "monthly", "cron"] as const;
+export type DigestFrequency = (typeof DIGEST_FREQUENCIES)[number];
+
+/** Longest period a digest may cover, in days. */
+export const MAX_DIGEST_WINDOW_DAYS = 31;
+
+export interface DigestRow {
+  id: string;
+  name: string;
+  /** The period covered, ending at send time (1 = daily, 7 = weekly). */
+  windowDays: number;
+  frequency: DigestFrequency;
+  hour: number;
+  dayOfWeek: number;
+  dayOfMonth: number;
+  cronExpr: string | null;
+  timezone: string;
+  channelIds: string[];
+  enabled: boolean;
+  lastRunAt: number;
+  /** Last delivery outcome; null until the first send, or when it fully succeeded. */
+  lastError: string | null;
+  lastSentAt: number | null;
+  subscriberCount: number;
+  createdBy: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** A subscriber the digest is emailed to. */
+export interface DigestRecipient {
+  userId: string;
+  email: string;
+}
+
+// --- compiled digest ----------------------------------------------------------
+
+export interface DigestBreach {
+  severity: string;
+  summary: string;
+  openedAt: number;
+  resolved: boolean;
+}
+
+export interface DigestDoctorVerdict {
+  id: string;
+  createdAt: number;
+  status: string | null;
+  summary: string | null;
+}
+
+export interface DigestScheduledQueries {
+  runs: number;
+  /** 0..100; 100 when nothing ran. */
+  successRate: number;
+  failingJobs: Array<{ name: string; failureStreak: number; lastMessage: string | null }>;
+}
+
+export interface DigestDataHealth {
+  opened: number;
+  recovered: number;
+  stillOpen: Array<{ promise: string; severity: string; summary: string; openedAt: number }>;
+}
+
+export interface DigestCostPattern {
+  connection: string;
+  pattern: string;
+  executions: number;
+  totalDurationMs: number;
+  cpuSeconds: number;
+  readBytes: number;
+  peakMemory: number;
+  failures: number;
+}
+
+export interface CompiledDigest {
+  name: string;
+  windowDays: number;
+  from: number;
+  to: number;
+  breaches: { total: number; critical: number; open: number; items: DigestBreach[] };
+  doctor: { total: number; byStatus: Record<string, number>; latest: DigestDoctorVerdict[] };
+  scheduledQueries: DigestScheduledQueries;
+  dataHealth: DigestDataHealth;
+  topPatterns: DigestCostPattern[];
+  /** Connections whose query_log could not be read. */
+  unreachable: string[];
+}
+
+// --- request schemas ----------------------------------------------------------
+
+export const digestInputSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  windowDays: z.number().int().min(1).max(MAX_DIGEST_WINDOW_DAYS).default(1),
+  frequency: z.enum(DIGEST_FREQUENCIES),
+  hour: z.number().int().min(0).max(23).default(8),
+  dayOfWeek: z.number().int().min(0).max(6).default(1),
+  dayOfMonth: z.number().int().min(1).max(28).default(1),
+  cronExpr: z.string().trim().max(200).nullable().optional(),
+  timezone: z.string().trim().min(1).max(64).default("UTC"),
+  channelIds: z.array(z.string().min(1)).max(20).default([]),
+  enabled: z.boolean().default(true),
+});
+
+export type DigestInput = z.infer<typeof digestInputSchema>;
+
+export const digestSubscriptionSchema = z.object({
+  subscribed: z.boolean(),
+});
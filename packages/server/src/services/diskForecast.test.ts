@@ -0,0 +1,43 @@
+import { describe, it, expect } from "bun:test";
+import { fitDiskTrend, type DiskSample } from "./diskForecast";
+
+const GB = 1e9;
+const HOUR = 3600;
+
+// Hourly samples starting at t=0, used = start + perHour * i.
+const series = (count: number, startGb: number, perHourGb: number, totalGb = 1000): DiskSample[] =>
+  Array.from({ length: count }, (_, i) => ({
+    capturedAt: i * HOUR,
+    usedBytes: (startGb + perHourGb * i) * GB,
+    totalBytes: totalGb * GB,
+  }));
+
+describe("fitDiskTrend", () => {
+  it("returns no forecast until there is enough history", () => {
+    expect(fitDiskTrend([]).fullAt).toBeNull();
+    // Enough samples but only 3h of span.
+    const short = fitDiskTrend(series(4, 100, 10));
+    expect(short.growthBytesPerDay).toBeNull();
+    expect(short.fullAt).toBeNull();
+    expect(short.historyHours).toBe(3);
+  });
+
+  it("projects the fill date from a steady growth rate", () => {
+    // 1 GB/hour from 500 GB; latest sample (t=11h) is at 511 GB → 489h to full.
+    const f = fitDiskTrend(series(12, 500, 1).reverse());
+    expect(f.growthBytesPerDay).toBeCloseTo(24 * GB, -3);
+    expect(f.daysToFull).toBeCloseTo(489 / 24, 5);
+    expect(f.fullAt).toBe(11 * HOUR + 489 * HOUR);
+    expect(f.historyHours).toBe(11);
+  });
+
+  it("has no fill date when usage is flat or shrinking", () => {
+    const flat = fitDiskTrend(series(12, 500, 0));
+    expect(flat.growthBytesPerDay).toBe(0);
+    expect(flat.fullAt).toBeNull();
+
+    const shrinking = fitDiskTrend(series(12, 500, -2));
+    expect(shrinking.growthBytesPerDay).toBeLessThan(0);
+    expect(shrinking.daysToFull).toBeNull();
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Disk capacity forecasting — per-disk usage history and a projected fill date.
+ *
+ * The fleet poller's `disks` snapshot (system.disks) only says how full a disk
+ * is right now, and snapshots are pruned after FLEET_RETENTION_HOURS. After
+ * each tick the poller hands its rows to recordDiskHistory(), which keeps one
+ * sample per disk every SAMPLE_INTERVAL_SECONDS in fleet_disk_history for
+ * FLEET_DISK_HISTORY_DAYS. A least-squares line over the last FIT_WINDOW_DAYS
+ * of samples gives the growth rate, and the remaining free space divided by it
+ * gives the projected "disk full" date.
+ *
+ * A forecast needs MIN_SAMPLES samples spanning MIN_SPAN_HOURS; before that, or
+ * when usage is flat or shrinking, `fullAt` is null. Object-storage disks
+ * (which report 0 or ~2^64 bytes of capacity) are skipped by the snapshot SQL.
+ */
+
+import { sql } from "drizzle-orm";
+import {
+  getDatabase,
+  getDatabaseType,
+  type SqliteDb,
+  type PostgresDb,
+} from "../rbac/db";
+import { selectRaw } from "./fleetSnapshots";
+import { logger } from "../utils/logger";
+
+function envInt(name: string, fallback: number): number {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+const SAMPLE_INTERVAL_SECONDS = 15 * 60;
+const HISTORY_DAYS = envInt("FLEET_DISK_HISTORY_DAYS", 30);
+const FIT_WINDOW_DAYS = 7;
+const MIN_SAMPLES = 4;
+const MIN_SPAN_HOURS = 6;
+
+/** One disk's projected fill date. */
+export interface DiskForecast {
+  connectionId: string;
+  disk: string;
+  path: string;
+  usedBytes: number;
+  totalBytes: number;
+  /** Fitted growth in bytes per day; null until there is enough history. */
+  growthBytesPerDay: number | null;
+  /** Epoch seconds when the disk is projected to be full; null when not growing. */
+  fullAt: number | null;
+  /** Days from the latest sample to fullAt; null when fullAt is. */
+  daysToFull: number | null;
+  samples: number;
+  /** Hours between the oldest and newest sample used for the fit. */
+  historyHours: number;
+}
+
+/** A usage sample, as stored in fleet_disk_history. */
+export interface DiskSample {
+  capturedAt: number;
+  usedBytes: number;
+  totalBytes: number;
+}
+
+interface SnapshotInput {
+  connectionId: string;
+  capturedAt: number;
+  metric: string;
+  payload: string;
+  error: string | null;
+}
+
+interface HistoryRow {
+  connection_id: string;
+  disk: string;
+  path: string;
+  captured_at: number | string;
+  used_bytes: number | string;
+  total_bytes: number | string;
+}
+
+// Last sample written per `${connectionId}:${disk}`, so a 30s poll stores one
+// sample per SAMPLE_INTERVAL_SECONDS. After a restart the first tick writes.
+const lastSampleAt = new Map<string, number>();
+
+function num(v: unknown): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+/**
+ * Fit a growth line to `samples` (any order) and project when used reaches
+ * total. Pure; exported for tests.
+ */
+export function fitDiskTrend(samples: DiskSample[]): Pick<DiskForecast, "growthBytesPerDay" | "fullAt" | "daysToFull" | "historyHours"> {
+  const sorted = [...samples].sort((a, b) => a.capturedAt - b.capturedAt);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const historyHours = first && last ? (last.capturedAt - first.capturedAt) / 3600 : 0;
+  if (!last || sorted.length < MIN_SAMPLES || historyHours < MIN_SPAN_HOURS) {
+    return { growthBytesPerDay: null, fullAt: null, daysToFull: null, historyHours };
+  }
+
+  // Least squares on (seconds since the first sample, used bytes).
+  const n = sorted.length;
+  const xs = sorted.map((s) => s.capturedAt - first!.capturedAt);
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = sorted.reduce((a, s) => a + s.usedBytes, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i]! - meanX) * (sorted[i]!.usedBytes - meanY);
+    sxx += (xs[i]! - meanX) ** 2;
+  }
+  const slopePerSecond = sxx > 0 ? sxy / sxx : 0;
+  const growthBytesPerDay = slopePerSecond * 86400;
+  if (slopePerSecond <= 0) {
+    return { growthBytesPerDay, fullAt: null, daysToFull: null, historyHours };
+  }
+
+  const secondsToFull = Math.max(0, last.totalBytes - last.usedBytes) / slopePerSecond;
+  return {
+    growthBytesPerDay,
+    fullAt: Math.round(last.capturedAt + secondsToFull),
+    daysToFull: secondsToFull / 86400,
+    historyHours,
+  };
+}
+
+async function run(stmt: ReturnType<typeof sql>): Promise<void> {
+  const db = getDatabase();
+  if (getDatabaseType() === "sqlite") {
+    (db as SqliteDb).run(stmt);
+  } else {
+    await (db as PostgresDb).execute(stmt);
+  }
+}
+
+/**
+ * Store a usage sample for every disk in this tick's `disks` snapshots that
+ * hasn't been sampled within SAMPLE_INTERVAL_SECONDS. Called by the fleet
+ * poller after each tick; never throws.
+ */
+export async function recordDiskHistory(rows: SnapshotInput[]): Promise<void> {
+  try {
+    const tuples: ReturnType<typeof sql>[] = [];
+    for (const row of rows) {
+      if (row.metric !== "disks" || row.error || !row.payload) continue;
+      let disks: Record<string, unknown>[];
+      try {
+        disks = JSON.parse(row.payload) as Record<string, unknown>[];
+      } catch {
+        continue;
+      }
+      for (const d of disks) {
+        const disk = String(d.name ?? "");
+        const key = `${row.connectionId}:${disk}`;
+        if (!disk || row.capturedAt - (lastSampleAt.get(key) ?? 0) < SAMPLE_INTERVAL_SECONDS) continue;
+        lastSampleAt.set(key, row.capturedAt);
+        tuples.push(sql`(${row.connectionId}, ${disk}, ${String(d.path ?? "")}, ${row.capturedAt}, ${num(d.used_space)}, ${num(d.total_space)})`);
+      }
+    }
+    if (tuples.length === 0) return;
+    await run(sql`
+      INSERT INTO fleet_disk_history (connection_id, disk, path, captured_at, used_bytes, total_bytes)
+      VALUES ${sql.join(tuples, sql`, `)}
+    `);
+  } catch (err) {
+    logger.error(
+      { module: "DiskForecast", err: err instanceof Error ? err.message : String(err) },
+      "Failed to record disk history",
+    );
+  }
+}
+
+/** Delete samples older than FLEET_DISK_HISTORY_DAYS. Never throws. */
+export async function pruneDiskHistory(): Promise<void> {
+  try {
+    const cutoff = Math.floor(Date.now() / 1000) - HISTORY_DAYS * 86400;
+    await run(sql`DELETE FROM fleet_disk_history WHERE captured_at < ${cutoff}`);
+  } catch (err) {
+    logger.error(
+      { module: "DiskForecast", err: err instanceof Error ? err.message : String(err) },
+      "Disk history prune failed",
+    );
+  }
+}
+
+/**
+ * Forecasts for every disk with samples in the fit window, on the given
+ * connections. Ordered by connection, then soonest fill date first.
+ */
+export async function forecastDisks(connectionIds: string[]): Promise<DiskForecast[]> {
+  if (connectionIds.length === 0) return [];
+  const since = Math.floor(Date.now() / 1000) - FIT_WINDOW_DAYS * 86400;
+  const rows = await selectRaw<HistoryRow>(sql`
+    SELECT connection_id, disk, path, captured_at, used_bytes, total_bytes
+    FROM fleet_disk_history
+    WHERE connection_id IN (${sql.join(connectionIds.map((id) => sql`${id}`), sql`, `)})
+      AND captured_at >= ${since}
+    ORDER BY captured_at ASC
+  `);
+
+  const byDisk = new Map<string, { connectionId: string; disk: string; path: string; samples: DiskSample[] }>();
+  for (const row of rows) {
+    const key = `${row.connection_id}:${row.disk}`;
+    let entry = byDisk.get(key);
+    if (!entry) {
+      entry = { connectionId: row.connection_id, disk: row.disk, path: row.path, samples: [] };
+      byDisk.set(key, entry);
+    }
+    entry.path = row.path;
+    entry.samples.push({ capturedAt: num(row.captured_at), usedBytes: num(row.used_bytes), totalBytes: num(row.total_bytes) });
+  }
+
+  const out: DiskForecast[] = [];
+  for (const { connectionId, disk, path, samples } of byDisk.values()) {
+    const latest = samples[samples.length - 1]!;
+    out.push({
+      connectionId,
+      disk,
+      path,
+      usedBytes: latest.usedBytes,
+      totalBytes: latest.totalBytes,
+      samples: samples.length,
+      ...fitDiskTrend(samples),
+    });
+  }
+  const fillOrder = (f: DiskForecast): number => f.fullAt ?? Number.MAX_SAFE_INTEGER;
+  return out.sort((a, b) => a.connectionId.localeCompare(b.connectionId) || fillOrder(a) - fillOrder(b));
+}
@@ -0,0 +1,49 @@
+/**
+ * One-time export download links.
+ *
+ * The AI chat cannot hand a binary file to the browser, so the
+ * `export_query_result` tool clears the query (access check, masks, row
+ * filters, quota guardrails) and parks the resulting export spec here behind
+ * a random token. The link it answers with runs the export when the user
+ * clicks it. Links are single-use, expire after LINK_TTL_MS and live in this
+ * process's memory only.
+ */
+
+import { randomBytes } from "crypto";
+
+import type { ClickHouseService } from "../clickhouse";
+import type { ExportSpec } from "./types";
+
+export const LINK_TTL_MS = 15 * 60 * 1000;
+
+export interface ExportLink {
+  spec: ExportSpec;
+  service: ClickHouseService;
+  userId: string;
+  connectionId: string | undefined;
+  expiresAt: number;
+}
+
+const links = new Map<string, ExportLink>();
+
+function pruneExpired(now: number): void {
+  for (const [token, link] of links) {
+    if (link.expiresAt <= now) links.delete(token);
+  }
+}
+
+/** Park an export and return the token of its download link. */
+export function createExportLink(link: Omit<ExportLink, "expiresAt">, now = Date.now()): { token: string; expiresAt: number } {
+  pruneExpired(now);
+  const token = randomBytes(24).toString("base64url");
+  const expiresAt = now + LINK_TTL_MS;
+  links.set(token, { ...link, expiresAt });
+  return { token, expiresAt };
+}
+
+/** Claim a link. Each token works once; expired or unknown tokens give null. */
+export function takeExportLink(token: string, now = Date.now()): ExportLink | null {
+  const link = links.get(token);
+  links.delete(token);
+  return link && link.expiresAt > now ? link : null;
+}
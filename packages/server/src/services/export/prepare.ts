@@ -0,0 +1,58 @@
+/**
+ * Clear an export request under the caller's data access policy: table
+ * access, column masks and row filters, plus their role's quota guardrails.
+ * Shared by POST /query/export and the `export_query_result` AI tool.
+ */
+
+import { validateQueryAccess } from "../../middleware/dataAccess";
+import { rowFilterSettings } from "../../middleware/rowFilters";
+import { splitSqlStatements } from "../../middleware/sqlParser";
+import { getQueryGuardrails } from "../../rbac/services/queryQuotas";
+import { AppError } from "../../types";
+import { assertQueryParamsProvided, substituteQueryParamsForValidation } from "../../utils/queryParams";
+import { EXPORT_MAX_ROWS, type ExportRequest, type ExportSpec } from "./types";
+
+export interface ExportCaller {
+  userId?: string;
+  isAdmin?: boolean;
+  permissions?: string[];
+  defaultDatabase?: string;
+  connectionId?: string;
+}
+
+export async function prepareExport(caller: ExportCaller, request: ExportRequest): Promise<ExportSpec> {
+  const sql = request.query.trim().replace(/;\s*$/, "");
+  if (splitSqlStatements(sql).length !== 1 || !/^(SELECT|WITH)\b/i.test(sql)) {
+    throw AppError.badRequest("Only a single SELECT or WITH query can be exported");
+  }
+
+  assertQueryParamsProvided(sql, request.queryParams);
+
+  const accessCheck = await validateQueryAccess(
+    caller.userId,
+    caller.isAdmin,
+    caller.permissions,
+    substituteQueryParamsForValidation(sql, request.queryParams),
+    caller.defaultDatabase,
+    caller.connectionId
+  );
+  if (!accessCheck.allowed) {
+    throw AppError.forbidden(accessCheck.reason || "Access denied to one or more tables in query");
+  }
+
+  // Rejects the export once a daily budget is used up
+  const guardrails = caller.userId
+    ? await getQueryGuardrails(caller.userId, EXPORT_MAX_ROWS, sql)
+    : { settings: {}, maxResultRows: EXPORT_MAX_ROWS };
+
+  return {
+    sql,
+    format: request.format,
+    compression: request.compression,
+    queryId: request.queryId,
+    queryParams: request.queryParams,
+    settings: { ...guardrails.settings, ...rowFilterSettings(accessCheck.rowFilters ?? []) },
+    maxRows: guardrails.maxResultRows ?? EXPORT_MAX_ROWS,
+    columnMasks: accessCheck.columnMasks ?? [],
+  };
+}
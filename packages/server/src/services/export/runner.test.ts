@@ -0,0 +1,138 @@
+import { describe, expect, it, mock } from "bun:test";
+import { gunzipSync, inflateRawSync } from "node:zlib";
+
+import type { ClickHouseService } from "../clickhouse";
+import type { ColumnMask } from "../../middleware/columnMasking";
+import { exportFilename, runExport } from "./runner";
+import { columnLetter } from "./xlsx";
+import type { ExportSpec } from "./types";
+
+const EMAIL_MASK: ColumnMask = {
+  database: "crm",
+  table: "users",
+  columnPattern: "email",
+  action: "null",
+  priority: 0,
+  policyName: "PII",
+};
+
+function spec(overrides: Partial<ExportSpec> = {}): ExportSpec {
+  return {
+    sql: "SELECT id, email FROM crm.users",
+    format: "csv",
+    compression: "none",
+    settings: {},
+    maxRows: 1000,
+    columnMasks: [],
+    ...overrides,
+  };
+}
+
+/** A service whose row stream yields `lines` and whose native export yields `body`. */
+function fakeService(lines: string[], body = "") {
+  const streamQueryRows = mock(async function* () {
+    yield* lines;
+  });
+  const exportQuery = mock(async () => ({ stream: new Response(body).body!, bytesRead: 42 }));
+  return { service: { streamQueryRows, exportQuery } as unknown as ClickHouseService, streamQueryRows, exportQuery };
+}
+
+const USER_ROWS = [
+  JSON.stringify({ t: "m", names: ["id", "email"], types: ["UInt64", "String"] }),
+  JSON.stringify([1, "a@example.com"]),
+  JSON.stringify([2, "b,\"c\"@example.com"]),
+  JSON.stringify({ t: "e", stats: { bytes_read: 128 } }),
+];
+
+/** Read the named entry of a zip written with deflate (as buildXlsx does). */
+function zipEntry(zip: Uint8Array, name: string): string {
+  const view = Buffer.from(zip);
+  let offset = 0;
+  while (view.readUInt32LE(offset) === 0x04034b50) {
+    const size = view.readUInt32LE(offset + 18);
+    const nameLength = view.readUInt16LE(offset + 26);
+    const extraLength = view.readUInt16LE(offset + 28);
+    const entryName = view.toString("utf8", offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength + extraLength;
+    if (entryName === name) return inflateRawSync(view.subarray(start, start + size)).toString("utf8");
+    offset = start + size;
+  }
+  throw new Error(`${name} not found`);
+}
+
+describe("export runner", () => {
+  it("names files after the format and compression", () => {
+    const now = new Date("2026-03-01T12:30:45.123Z");
+    expect(exportFilename("parquet", "none", now)).toBe("ch_ui_export_2026-03-01T12-30-45.parquet");
+    expect(exportFilename("ndjson", "zstd", now)).toBe("ch_ui_export_2026-03-01T12-30-45.ndjson.zst");
+  });
+
+  it("passes unmasked exports through ClickHouse's native writer", async () => {
+    const { service, exportQuery, streamQueryRows } = fakeService([], "PAR1");
+    const result = await runExport(service, spec({ format: "parquet", queryId: "q1" }));
+
+    expect(await new Response(result.body).text()).toBe("PAR1");
+    expect(await result.bytesRead).toBe(42);
+    expect(result.contentType).toBe("application/vnd.apache.parquet");
+    expect(exportQuery).toHaveBeenCalledWith("SELECT id, email FROM crm.users", "Parquet", 1000, "q1", undefined, {});
+    expect(streamQueryRows).not.toHaveBeenCalled();
+  });
+
+  it("masks rows and writes CSV itself when the query reads masked columns", async () => {
+    const { service, exportQuery } = fakeService(USER_ROWS);
+    const result = await runExport(service, spec({ columnMasks: [EMAIL_MASK] }));
+
+    expect(await new Response(result.body).text()).toBe("id,email\r\n1,\r\n2,\r\n");
+    expect(await result.bytesRead).toBe(128);
+    expect(exportQuery).not.toHaveBeenCalled();
+  });
+
+  it("writes NDJSON and TSV on the row path", async () => {
+    const ndjson = await runExport(fakeService(USER_ROWS).service, spec({ format: "ndjson", columnMasks: [EMAIL_MASK] }));
+    expect(await new Response(ndjson.body).text()).toBe('{"id":1,"email":null}\n{"id":2,"email":null}\n');
+
+    const tsv = await runExport(fakeService(USER_ROWS).service, spec({ format: "tsv", columnMasks: [EMAIL_MASK] }));
+    expect(await new Response(tsv.body).text()).toBe("id\temail\n1\t\\N\n2\t\\N\n");
+  });
+
+  it("refuses Parquet and Arrow exports of masked columns", async () => {
+    const { service } = fakeService(USER_ROWS);
+    await expect(runExport(service, spec({ format: "arrow", columnMasks: [EMAIL_MASK] }))).rejects.toThrow(/masked columns/);
+  });
+
+  it("refuses queries that carry their own FORMAT clause", async () => {
+    const { service } = fakeService([]);
+    await expect(runExport(service, spec({ sql: "SELECT 1 FORMAT CSV" }))).rejects.toThrow(/FORMAT clause/);
+  });
+
+  it("compresses on the way out", async () => {
+    const { service } = fakeService([], "id\n1\n");
+    const result = await runExport(service, spec({ compression: "gzip" }));
+
+    expect(result.contentType).toBe("application/gzip");
+    expect(result.filename).toEndWith(".csv.gz");
+    expect(gunzipSync(Buffer.from(await new Response(result.body).arrayBuffer())).toString()).toBe("id\n1\n");
+  });
+
+  it("builds an XLSX workbook from the rows", async () => {
+    const { service, streamQueryRows } = fakeService(USER_ROWS);
+    const result = await runExport(service, spec({ format: "xlsx", maxRows: 10_000_000 }));
+    const zip = new Uint8Array(await new Response(result.body).arrayBuffer());
+    const sheet = zipEntry(zip, "xl/worksheets/sheet1.xml");
+
+    expect(streamQueryRows.mock.calls[0][2]).toBe(100_000);
+    expect(sheet).toContain('<c r="A2"><v>1</v></c>');
+    expect(sheet).toContain("b,&quot;c&quot;@example.com");
+    expect(zipEntry(zip, "[Content_Types].xml")).toContain("spreadsheetml.sheet.main+xml");
+  });
+});
+
+describe("columnLetter", () => {
+  it("counts columns the way spreadsheets do", () => {
+    expect(columnLetter(0)).toBe("A");
+    expect(columnLetter(25)).toBe("Z");
+    expect(columnLetter(26)).toBe("AA");
+    expect(columnLetter(701)).toBe("ZZ");
+    expect(columnLetter(702)).toBe("AAA");
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Export runner — turns a query cleared for export into a file stream.
+ *
+ * Without column masks, ClickHouse writes the file itself: the query runs with
+ * `FORMAT <native format>` and the response body is passed straight through,
+ * so large results never sit in memory. Masked columns have to be rewritten
+ * value by value, so those exports read the same row stream as the SQL editor,
+ * mask it, and serialize the rows here; Parquet and Arrow are refused for them.
+ * XLSX, which ClickHouse cannot write, always takes the row path. Compression
+ * is applied last, on the way out.
+ */
+
+import type { ClickHouseService } from "../clickhouse";
+import { createStreamMasker } from "../../middleware/columnMasking";
+import { AppError } from "../../types";
+import { buildXlsx } from "./xlsx";
+import {
+  BINARY_EXPORT_FORMATS,
+  EXPORT_COMPRESSIONS,
+  EXPORT_FORMATS,
+  XLSX_MAX_ROWS,
+  type ExportCompression,
+  type ExportFormat,
+  type ExportResult,
+  type ExportSpec,
+} from "./types";
+
+const TRAILING_FORMAT = /\bFORMAT\s+\w+\s*;?\s*$/i;
+
+/** `ch_ui_export_<timestamp>.<ext>`, matching browser-side exports. */
+export function exportFilename(format: ExportFormat, compression: ExportCompression, now = new Date()): string {
+  const stamp = now.toISOString().split(".")[0].replace(/:/g, "-");
+  return `ch_ui_export_${stamp}.${EXPORT_FORMATS[format].extension}${EXPORT_COMPRESSIONS[compression].extension}`;
+}
+
+function compress(body: ReadableStream<Uint8Array>, compression: ExportCompression): ReadableStream<Uint8Array> {
+  if (compression === "none") return body;
+  // Bun's CompressionStream also speaks zstd
+  const compressor = new CompressionStream(compression as CompressionFormat);
+  return body.pipeThrough(compressor as unknown as TransformStream<Uint8Array, Uint8Array>);
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function tsvField(value: unknown): string {
+  if (value === null || value === undefined) return "\\N";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return text.replace(/\\/g, "\\\\").replace(/\t/g, "\\t").replace(/\n/g, "\\n");
+}
+
+/** One serialized line per row, header first, for the text formats on the row path. */
+function textLine(format: ExportFormat, names: string[], values: unknown[]): string {
+  switch (format) {
+    case "csv":
+      return `${values.map(csvField).join(",")}\r\n`;
+    case "tsv":
+      return `${values.map(tsvField).join("\t")}\n`;
+    default:
+      return `${JSON.stringify(Object.fromEntries(names.map((name, i) => [name, values[i]])))}\n`;
+  }
+}
+
+/** Export through ClickHouse's own writer for `spec.format`. */
+async function nativeExport(service: ClickHouseService, spec: ExportSpec) {
+  const { stream, bytesRead } = await service.exportQuery(
+    spec.sql,
+    EXPORT_FORMATS[spec.format].clickhouseFormat!,
+    spec.maxRows,
+    spec.queryId,
+    spec.queryParams,
+    spec.settings
+  );
+  return { stream, bytesRead: Promise.resolve(bytesRead) };
+}
+
+/** Export by reading, masking and serializing the result rows. */
+async function rowExport(service: ClickHouseService, spec: ExportSpec) {
+  const maxRows = spec.format === "xlsx" ? Math.min(spec.maxRows, XLSX_MAX_ROWS) : spec.maxRows;
+  const lines = service.streamQueryRows(spec.sql, spec.queryId, maxRows, spec.queryParams, spec.settings)[Symbol.asyncIterator]();
+  const mask = createStreamMasker(spec.columnMasks);
+
+  // Pull the first line now so a failing query answers with an error instead of an empty file
+  const first = await lines.next();
+
+  let resolveBytes: (bytes: number) => void = () => {};
+  const bytesRead = new Promise<number>((resolve) => { resolveBytes = resolve; });
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let names: string[] = [];
+      let types: string[] = [];
+      const xlsxRows: unknown[][] = [];
+      let bytes = 0;
+      try {
+        for (let item = first; !item.done; item = await lines.next()) {
+          const line = mask(item.value);
+          if (line.startsWith("[")) {
+            const values = JSON.parse(line) as unknown[];
+            if (spec.format === "xlsx") xlsxRows.push(values);
+            else controller.enqueue(encoder.encode(textLine(spec.format, names, values)));
+            continue;
+          }
+          const event = JSON.parse(line) as { t: string; names?: string[]; types?: string[]; stats?: { bytes_read?: number } };
+          if (event.t === "m") {
+            names = event.names ?? [];
+            types = event.types ?? [];
+            if (spec.format === "csv") controller.enqueue(encoder.encode(textLine("csv", names, names)));
+            if (spec.format === "tsv") controller.enqueue(encoder.encode(`${names.map(tsvField).join("\t")}\n`));
+          } else if (event.t === "e" || event.t === "err") {
+            // A failed query's error line reports the bytes read before it failed
+            bytes = event.stats?.bytes_read ?? bytes;
+          }
+        }
+        if (spec.format === "xlsx") controller.enqueue(buildXlsx(names, types, xlsxRows));
+        controller.close();
+      } catch (error) {
+        controller.error(error);
+      } finally {
+        resolveBytes(bytes);
+      }
+    },
+  });
+
+  return { stream, bytesRead };
+}
+
+/** Refuse exports that cannot be written as asked, before anything runs. */
+export function assertExportable(spec: ExportSpec): void {
+  if (TRAILING_FORMAT.test(spec.sql)) {
+    throw AppError.badRequest("Remove the FORMAT clause from the query; the export format is chosen separately");
+  }
+  if (spec.columnMasks.length > 0 && BINARY_EXPORT_FORMATS.includes(spec.format)) {
+    throw AppError.forbidden("This query reads masked columns; export it as CSV, TSV, NDJSON or XLSX instead");
+  }
+}
+
+/**
+ * Run an export. Errors raised before the first byte (bad SQL, masked
+ * columns in a binary format) reject; later ones abort the stream.
+ */
+export async function runExport(service: ClickHouseService, spec: ExportSpec): Promise<ExportResult> {
+  assertExportable(spec);
+
+  const { stream, bytesRead } = spec.columnMasks.length > 0 || spec.format === "xlsx"
+    ? await rowExport(service, spec)
+    : await nativeExport(service, spec);
+
+  return {
+    body: compress(stream, spec.compression),
+    contentType: EXPORT_COMPRESSIONS[spec.compression].contentType ?? EXPORT_FORMATS[spec.format].contentType,
+    filename: exportFilename(spec.format, spec.compression),
+    bytesRead,
+  };
+}
+
+/** The HTTP response that downloads `result` as a file. */
+export function exportResponse(result: ExportResult): Response {
+  return new Response(result.body, {
+    headers: {
+      "Content-Type": result.contentType,
+      "Content-Disposition": `attachment; filename="${result.filename}"`,
+      "Cache-Control": "no-cache",
+      "X-Accel-Buffering": "no", // disable nginx/proxy buffering
+    },
+  });
+}
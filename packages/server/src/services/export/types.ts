@@ -0,0 +1,77 @@
+/**
+ * Export formats and options shared by the export route, the download links
+ * and the `export_query_result` AI tool.
+ */
+
+import { z } from "zod";
+
+import type { ColumnMask } from "../../middleware/columnMasking";
+import { clientQueryIdSchema } from "../../utils/queryIds";
+
+/**
+ * Formats ClickHouse writes itself, streamed through untouched. XLSX has no
+ * ClickHouse format and is built from the result rows instead.
+ */
+export const EXPORT_FORMATS = {
+  parquet: { clickhouseFormat: "Parquet", extension: "parquet", contentType: "application/vnd.apache.parquet" },
+  arrow: { clickhouseFormat: "ArrowStream", extension: "arrows", contentType: "application/vnd.apache.arrow.stream" },
+  ndjson: { clickhouseFormat: "JSONEachRow", extension: "ndjson", contentType: "application/x-ndjson" },
+  csv: { clickhouseFormat: "CSVWithNames", extension: "csv", contentType: "text/csv" },
+  tsv: { clickhouseFormat: "TabSeparatedWithNames", extension: "tsv", contentType: "text/tab-separated-values" },
+  xlsx: {
+    clickhouseFormat: null,
+    extension: "xlsx",
+    contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  },
+} as const;
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+/** Binary formats whose values cannot be rewritten, so they refuse masked columns. */
+export const BINARY_EXPORT_FORMATS: readonly ExportFormat[] = ["parquet", "arrow"];
+
+export const EXPORT_COMPRESSIONS = {
+  none: { extension: "", contentType: null },
+  gzip: { extension: ".gz", contentType: "application/gzip" },
+  zstd: { extension: ".zst", contentType: "application/zstd" },
+} as const;
+
+export type ExportCompression = keyof typeof EXPORT_COMPRESSIONS;
+
+/** Row cap of every export; role quotas can lower it. */
+export const EXPORT_MAX_ROWS = 10_000_000;
+
+/** XLSX workbooks are assembled in memory, so they stop well below Excel's 1,048,576 rows. */
+export const XLSX_MAX_ROWS = 100_000;
+
+export const exportRequestSchema = z.object({
+  query: z.string().min(1, "Query is required"),
+  format: z.enum(Object.keys(EXPORT_FORMATS) as [ExportFormat, ...ExportFormat[]]),
+  compression: z.enum(Object.keys(EXPORT_COMPRESSIONS) as [ExportCompression, ...ExportCompression[]]).default("none"),
+  queryId: clientQueryIdSchema,
+  /** Values for ClickHouse `{name:Type}` placeholders, bound server-side */
+  queryParams: z.record(z.string()).optional(),
+});
+
+export type ExportRequest = z.infer<typeof exportRequestSchema>;
+
+/** A query cleared for export under the caller's data access policy. */
+export interface ExportSpec {
+  sql: string;
+  format: ExportFormat;
+  compression: ExportCompression;
+  queryId?: string;
+  queryParams?: Record<string, string>;
+  /** Role quota guardrails and row filter settings */
+  settings: Record<string, string | number>;
+  maxRows: number;
+  columnMasks: ColumnMask[];
+}
+
+export interface ExportResult {
+  body: ReadableStream<Uint8Array>;
+  contentType: string;
+  filename: string;
+  /** Bytes ClickHouse read, once the body has been fully sent */
+  bytesRead: Promise<number>;
+}
@@ -0,0 +1,143 @@
+/**
+ * Minimal XLSX writer — one worksheet, a header row and typed cells.
+ *
+ * An XLSX file is a zip of SpreadsheetML parts; the few parts a single plain
+ * sheet needs are written here and deflated with node:zlib, so exports don't
+ * pull in a spreadsheet library. Strings are inline (no shared string table)
+ * and there is no styling.
+ */
+
+import { crc32, deflateRawSync } from "node:zlib";
+
+/** Excel refuses cells longer than this. */
+const MAX_CELL_LENGTH = 32_767;
+
+const NUMERIC_TYPE = /^(?:Nullable\()?(?:U?Int\d+|Float\d+|Decimal)/;
+
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Spreadsheet column letters: 0 → A, 25 → Z, 26 → AA. */
+export function columnLetter(index: number): string {
+  let letters = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+function cell(ref: string, value: unknown, numeric: boolean): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "boolean") return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  if (numeric && (typeof value === "number" || (typeof value === "string" && value.trim() !== ""))) {
+    const number = Number(value);
+    if (Number.isFinite(number)) return `<c r="${ref}"><v>${String(value).trim()}</v></c>`;
+  }
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text.slice(0, MAX_CELL_LENGTH))}</t></is></c>`;
+}
+
+function sheetXml(names: string[], types: string[], rows: unknown[][]): string {
+  const numeric = types.map((type) => NUMERIC_TYPE.test(type));
+  const letters = names.map((_, index) => columnLetter(index));
+  const lines = [
+    `<row r="1">${names.map((name, i) => cell(`${letters[i]}1`, name, false)).join("")}</row>`,
+    ...rows.map((row, r) =>
+      `<row r="${r + 2}">${row.map((value, i) => cell(`${letters[i]}${r + 2}`, value, numeric[i])).join("")}</row>`),
+  ];
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + `<sheetData>${lines.join("")}</sheetData></worksheet>`;
+}
+
+const STATIC_PARTS: Record<string, string> = {
+  "[Content_Types].xml": '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+    + "</Types>",
+  "_rels/.rels": '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+    + "</Relationships>",
+  "xl/workbook.xml": '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" '
+    + 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+    + '<sheets><sheet name="Export" sheetId="1" r:id="rId1"/></sheets></workbook>',
+  "xl/_rels/workbook.xml.rels": '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+    + "</Relationships>",
+};
+
+/** Zip `files` with deflate. Timestamps are left at the DOS epoch. */
+function zip(files: Array<{ name: string; data: Uint8Array }>): Uint8Array {
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = new TextEncoder().encode(file.name);
+    const compressed = deflateRawSync(file.data);
+    const checksum = crc32(file.data);
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true); // version needed
+    header.setUint16(8, 8, true); // deflate
+    header.setUint16(12, 0x21, true); // 1980-01-01
+    header.setUint32(14, checksum, true);
+    header.setUint32(18, compressed.length, true);
+    header.setUint32(22, file.data.length, true);
+    header.setUint16(26, name.length, true);
+    local.push(new Uint8Array(header.buffer), name, compressed);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true); // version made by
+    entry.setUint16(6, 20, true); // version needed
+    entry.setUint16(10, 8, true);
+    entry.setUint16(14, 0x21, true);
+    entry.setUint32(16, checksum, true);
+    entry.setUint32(20, compressed.length, true);
+    entry.setUint32(24, file.data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + compressed.length;
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return Buffer.concat([...local, ...central, new Uint8Array(end.buffer)]);
+}
+
+/**
+ * Build a workbook with a header row of `names` and one row per entry of
+ * `rows`. Columns whose ClickHouse type is numeric become number cells.
+ */
+export function buildXlsx(names: string[], types: string[], rows: unknown[][]): Uint8Array {
+  const encoder = new TextEncoder();
+  return zip([
+    ...Object.entries(STATIC_PARTS).map(([name, xml]) => ({ name, data: encoder.encode(xml) })),
+    { name: "xl/worksheets/sheet1.xml", data: encoder.encode(sheetXml(names, types, rows)) },
+  ]);
+}
@@ -42,7 +42,7 @@ describe("fleetAlertConfig persistence (normalized)", () => {
       enabled: true,
       aiRcaOnBreach: true,
       aiRcaModelId: "cfg-9",
-      rules: { memoryPercent: 90, queryMemoryGb: 20, longQueryMin: 5, partsEtaMin: 30 },
+      rules: { memoryPercent: 90, queryMemoryGb: 20, longQueryMin: 5, partsEtaMin: 30, diskFullDays: 14 },
       slack: { webhookUrl: "https://hooks.slack.com/services/X", enabled: false },
       email: { user: "ops@x.com", password: "secret", to: "team@x.com", enabled: true },
     };
@@ -52,7 +52,7 @@ describe("fleetAlertConfig persistence (normalized)", () => {
     expect(loaded.enabled).toBe(true);
     expect(loaded.aiRcaOnBreach).toBe(true);
     expect(loaded.aiRcaModelId).toBe("cfg-9");
-    expect(loaded.rules).toEqual({ memoryPercent: 90, queryMemoryGb: 20, longQueryMin: 5, partsEtaMin: 30 });
+    expect(loaded.rules).toEqual({ memoryPercent: 90, queryMemoryGb: 20, longQueryMin: 5, partsEtaMin: 30, diskFullDays: 14 });
     expect(loaded.slack).toEqual({ webhookUrl: "https://hooks.slack.com/services/X", enabled: false });
     expect(loaded.email?.user).toBe("ops@x.com");
     expect(loaded.email?.password).toBe("secret");
@@ -42,6 +42,7 @@ export interface RawAlertConfig {
     queryMemoryGb?: number;
     longQueryMin?: number;
     partsEtaMin?: number;
+    diskFullDays?: number;
   };
   slack?: { webhookUrl?: string; enabled?: boolean };
   googleChat?: { webhookUrl?: string; enabled?: boolean };
@@ -101,6 +102,7 @@ export async function loadRawAlertConfig(): Promise<RawAlertConfig> {
         queryMemoryGb: num(rulesCfg.queryMemoryGb),
         longQueryMin: num(rulesCfg.longQueryMin),
         partsEtaMin: num(rulesCfg.partsEtaMin),
+        diskFullDays: num(rulesCfg.diskFullDays),
       },
     };
 
@@ -158,6 +160,7 @@ export async function saveRawAlertConfig(cfg: RawAlertConfig): Promise<void> {
       queryMemoryGb: num(cfg.rules?.queryMemoryGb),
       longQueryMin: num(cfg.rules?.longQueryMin),
       partsEtaMin: num(cfg.rules?.partsEtaMin),
+      diskFullDays: num(cfg.rules?.diskFullDays),
     },
   });
 
@@ -1,12 +1,14 @@
 import { describe, it, expect } from "bun:test";
 import { evaluateNode } from "./fleetAlerter";
+import type { DiskForecast } from "./diskForecast";
 
-// Minimal rules object; only partsEtaMin matters for these cases (others off).
-const rules = (partsEtaMin: number) => ({
+// Minimal rules object; only partsEtaMin / diskFullDays matter here (others off).
+const rules = (partsEtaMin: number, diskFullDays = 0) => ({
   memoryPercent: 0,
   queryMemoryGb: 0,
   longQueryMin: 0,
   partsEtaMin,
+  diskFullDays,
 });
 
 const partsRow = (over: Partial<Record<string, number | string>> = {}) => ({
@@ -25,6 +27,20 @@ const partsRow = (over: Partial<Record<string, number | string>> = {}) => ({
   ...over,
 });
 
+const disk = (over: Partial<DiskForecast> = {}): DiskForecast => ({
+  connectionId: "c1",
+  disk: "default",
+  path: "/var/lib/clickhouse/",
+  usedBytes: 800e9,
+  totalBytes: 1000e9,
+  growthBytesPerDay: 40e9,
+  fullAt: 1_700_000_000,
+  daysToFull: 5,
+  samples: 96,
+  historyHours: 24,
+  ...over,
+});
+
 describe("fleetAlerter evaluateNode — parts pressure", () => {
   it("does not emit a parts rule when partsEtaMin is 0 (off)", () => {
     const out = evaluateNode({ parts_pressure: [partsRow()] }, rules(0));
@@ -83,3 +99,40 @@ describe("fleetAlerter evaluateNode — parts pressure", () => {
     expect(parts.find((r) => r.instanceId === "default.logs")?.breaching).toBe(false);
   });
 });
+
+describe("fleetAlerter evaluateNode — disk forecast", () => {
+  it("does not emit a disk rule when diskFullDays is 0 (off)", () => {
+    const out = evaluateNode({}, rules(0, 0), [disk()]);
+    expect(out.find((r) => r.ruleKey === "diskfull")).toBeUndefined();
+  });
+
+  it("breaches when the projected fill date is within the threshold", () => {
+    const out = evaluateNode({}, rules(0, 14), [disk({ daysToFull: 5 })]);
+    const r = out.find((r) => r.ruleKey === "diskfull");
+    expect(r?.breaching).toBe(true);
+    expect(r?.clearing).toBe(false);
+    expect(r?.instanceId).toBe("default");
+    expect(r?.metric).toBe("disk forecast");
+  });
+
+  it("holds the latch inside the hysteresis band and clears past 1.25x", () => {
+    // diskFullDays=14 → clear point is 17.5 days.
+    const held = evaluateNode({}, rules(0, 14), [disk({ daysToFull: 16 })]).find((r) => r.ruleKey === "diskfull");
+    expect(held?.breaching).toBe(false);
+    expect(held?.clearing).toBe(false);
+
+    const cleared = evaluateNode({}, rules(0, 14), [disk({ daysToFull: 20 })]).find((r) => r.ruleKey === "diskfull");
+    expect(cleared?.breaching).toBe(false);
+    expect(cleared?.clearing).toBe(true);
+  });
+
+  it("clears a disk that is not growing or lacks history", () => {
+    const out = evaluateNode({}, rules(0, 14), [
+      disk({ disk: "hot", growthBytesPerDay: -1e9, fullAt: null, daysToFull: null }),
+      disk({ disk: "cold", growthBytesPerDay: null, fullAt: null, daysToFull: null }),
+    ]);
+    const disks = out.filter((r) => r.ruleKey === "diskfull");
+    expect(disks.map((r) => r.instanceId)).toEqual(["hot", "cold"]);
+    expect(disks.every((r) => !r.breaching && r.clearing)).toBe(true);
+  });
+});
@@ -23,9 +23,13 @@
  */
 
 import { logger } from "../utils/logger";
-import { listRules, getRuleChannelsDecrypted, recordEvent } from "./alerting/store";
+import { listRules, getRuleChannelsDecrypted, recordEvent, openIncident } from "./alerting/store";
+import { findSuppression, resolveAlert } from "./alerting/policy";
+import { sendChannelMessage } from "./alerting/deliver";
+import { applyTemplate, pickTemplate, type AlertTemplateVars } from "./alerting/template";
 import { ChannelType, AlertSourceType, AlertSeverity } from "./alerting/types";
 import type { DoctorReport } from "./ai/capabilities/fleetScan";
+import { forecastDisks, type DiskForecast } from "./diskForecast";
 /** Node-memory re-arms only once it drops this far below threshold (anti-flap). */
 const HYSTERESIS = 5;
 /** Min gap between autonomous RCA scans, so a breach storm can't spawn a scan storm. */
@@ -40,9 +44,13 @@ interface AlertRules {
   queryMemoryGb: number; // single query GB, 0 = off
   longQueryMin: number; // single query minutes, 0 = off
   partsEtaMin: number; // projected minutes until a table hits parts_to_throw_insert, 0 = off
+  diskFullDays: number; // projected days until a disk is full, 0 = off
 }
-/** A diverging table re-arms only once its projected ETA climbs this far past the limit (anti-flap). */
-const PARTS_ETA_CLEAR_RATIO = 1.25;
+/**
+ * A projected breach (diverging table, growing disk) re-arms only once its ETA
+ * climbs this far past the limit (anti-flap).
+ */
+const ETA_CLEAR_RATIO = 1.25;
 interface SlackConfig {
   webhookUrl: string;
 }
@@ -69,6 +77,8 @@ interface DeliveryTarget {
   name: string;
   /** Decrypted, type-specific config. */
   config: Record<string, unknown>;
+  /** Channel message template; used when the rule has none. */
+  messageTemplate: string | null;
 }
 /** One enabled fleet-threshold rule with its thresholds + delivery channels. */
 interface RuleConfig {
@@ -82,6 +92,8 @@ interface RuleConfig {
   aiRcaOnBreach: boolean;
   /** AI config id for the auto-RCA scan (undefined = use the default model). */
   aiRcaModelId?: string;
+  /** Rule message template; replaces the built-in cards on every channel. */
+  messageTemplate: string | null;
 }
 
 function asEmailConfig(c: Record<string, unknown>): EmailConfig {
@@ -110,6 +122,11 @@ interface RuleEval {
   summary: string; // self-describing value
   user?: string;
   detail?: string; // clean SQL snippet
+  /** Observed value and configured threshold, for message templates. */
+  value?: string;
+  threshold?: string;
+  /** The query behind the breach (query rules; the top memory query for node memory). */
+  topQuery?: string;
   breaching: boolean;
   clearing: boolean;
 }
@@ -120,6 +137,12 @@ interface Breach {
   summary: string;
   user?: string;
   detail?: string;
+  value?: string;
+  threshold?: string;
+  topQuery?: string;
+  /** Latch key; lets PagerDuty/Opsgenie pair the fire with its resolve. */
+  dedupKey?: string;
+  severity?: AlertSeverity;
 }
 
 // Per-(node, rule[, query]) latch — fire only on the healthy → breach edge.
@@ -130,22 +153,35 @@ function num(v: unknown): number {
   return Number.isFinite(n) ? n : 0;
 }
 
+/** True when a decrypted channel config has what its type needs to deliver. */
+function isDeliverable(type: ChannelType, config: Record<string, unknown>): boolean {
+  switch (type) {
+    case ChannelType.Slack:
+    case ChannelType.GoogleChat:
+    case ChannelType.Teams:
+    case ChannelType.Discord:
+      return Boolean(config.webhookUrl);
+    case ChannelType.Webhook:
+      return Boolean(config.url);
+    case ChannelType.Email:
+      return Boolean(config.user && config.password && config.to);
+    case ChannelType.PagerDuty:
+      return Boolean(config.routingKey);
+    case ChannelType.Opsgenie:
+      return Boolean(config.apiKey);
+    case ChannelType.Telegram:
+      return Boolean(config.botToken && config.chatId);
+    default:
+      return false;
+  }
+}
+
 /** Resolve a rule's enabled, deliverable channels (secrets decrypted). */
 async function resolveRuleChannels(ruleId: string): Promise<DeliveryTarget[]> {
   const linked = await getRuleChannelsDecrypted(ruleId);
-  const channels: DeliveryTarget[] = [];
-  for (const { row, config } of linked) {
-    if (row.type === ChannelType.Slack || row.type === ChannelType.GoogleChat) {
-      if (config.webhookUrl) channels.push({ id: row.id, type: row.type, name: row.name, config });
-    } else if (row.type === ChannelType.Webhook) {
-      if (config.url) channels.push({ id: row.id, type: row.type, name: row.name, config });
-    } else if (row.type === ChannelType.Email) {
-      if (config.user && config.password && config.to) {
-        channels.push({ id: row.id, type: row.type, name: row.name, config });
-      }
-    }
-  }
-  return channels;
+  return linked
+    .filter(({ row, config }) => isDeliverable(row.type, config))
+    .map(({ row, config }) => ({ id: row.id, type: row.type, name: row.name, config, messageTemplate: row.messageTemplate }));
 }
 
 /**
@@ -176,10 +212,12 @@ async function loadRuleConfigs(): Promise<RuleConfig[]> {
         queryMemoryGb: num(rulesRaw.queryMemoryGb),
         longQueryMin: num(rulesRaw.longQueryMin),
         partsEtaMin: num(rulesRaw.partsEtaMin),
+        diskFullDays: num(rulesRaw.diskFullDays),
       },
       channels,
       aiRcaOnBreach: rule.aiRcaEnabled,
       aiRcaModelId: rule.aiRcaModelId ?? undefined,
+      messageTemplate: rule.messageTemplate,
     });
   }
   return out;
@@ -206,6 +244,15 @@ function fmtMinutes(minutes: number): string {
   return `${(minutes / 60).toFixed(1)}h`;
 }
 
+function fmtDays(days: number): string {
+  if (days < 1) return `${Math.max(1, Math.round(days * 24))}h`;
+  return `${days < 10 ? days.toFixed(1) : Math.round(days)}d`;
+}
+
+function fmtGb(bytes: number): string {
+  return `${(bytes / 1e9).toFixed(1)} GB`;
+}
+
 function querySnippet(q: Record<string, unknown>): string | undefined {
   const user = q.user ? String(q.user) : "";
   const sql = String(q.query_preview ?? "")
@@ -218,8 +265,15 @@ function querySnippet(q: Record<string, unknown>): string | undefined {
   return user || sql || undefined;
 }
 
-/** Pure rule evaluation for one node — mirrors the client's evaluateNode. Exported for tests. */
-export function evaluateNode(metrics: Record<string, Record<string, unknown>[]>, rules: AlertRules): RuleEval[] {
+/**
+ * Pure rule evaluation for one node — mirrors the client's evaluateNode.
+ * `disks` are the node's fill-date forecasts (server-side only). Exported for tests.
+ */
+export function evaluateNode(
+  metrics: Record<string, Record<string, unknown>[]>,
+  rules: AlertRules,
+  disks: DiskForecast[] = [],
+): RuleEval[] {
   const out: RuleEval[] = [];
 
   if (rules.memoryPercent > 0) {
@@ -228,10 +282,14 @@ export function evaluateNode(metrics: Record<string, Record<string, unknown>[]>,
       const total = num(s.server_memory_total_bytes);
       const used = num(s.server_memory_used_bytes);
       const mem = total > 0 ? (used / total) * 100 : 0;
+      const top = metrics.top_memory_query?.[0];
       out.push({
         ruleKey: "memory",
         metric: "node memory",
         summary: `${mem.toFixed(0)}% memory`,
+        value: `${mem.toFixed(0)}%`,
+        threshold: `${rules.memoryPercent}%`,
+        topQuery: top ? querySnippet(top) : undefined,
         breaching: mem > rules.memoryPercent,
         clearing: mem < rules.memoryPercent - HYSTERESIS,
       });
@@ -249,6 +307,9 @@ export function evaluateNode(metrics: Record<string, Record<string, unknown>[]>,
           summary: `${gb.toFixed(1)} GB query`,
           user: q.user ? String(q.user) : undefined,
           detail: querySnippet(q),
+          value: `${gb.toFixed(1)} GB`,
+          threshold: `${rules.queryMemoryGb} GB`,
+          topQuery: querySnippet(q),
           breaching: true,
           clearing: false,
         });
@@ -266,6 +327,9 @@ export function evaluateNode(metrics: Record<string, Record<string, unknown>[]>,
         summary: `query running ${fmtDuration(num(q.elapsed_seconds))}`,
         user: q.user ? String(q.user) : undefined,
         detail: querySnippet(q),
+        value: fmtDuration(num(q.elapsed_seconds)),
+        threshold: `${rules.longQueryMin} min`,
+        topQuery: querySnippet(q),
         breaching: over,
         clearing: !over,
       });
@@ -291,8 +355,31 @@ export function evaluateNode(metrics: Record<string, Record<string, unknown>[]>,
         metric: "parts pressure",
         summary: `~${fmtMinutes(eta)} to parts limit`,
         detail: `${db}.${table} (${maxParts}/${threshold} parts, +${net.toFixed(1)}/min)`,
+        value: diverging ? `~${fmtMinutes(eta)}` : "not growing",
+        threshold: `${rules.partsEtaMin} min`,
         breaching: diverging && eta < rules.partsEtaMin,
-        clearing: !diverging || eta > rules.partsEtaMin * PARTS_ETA_CLEAR_RATIO,
+        clearing: !diverging || eta > rules.partsEtaMin * ETA_CLEAR_RATIO,
+      });
+    }
+  }
+
+  if (rules.diskFullDays > 0) {
+    // Predictive "disk full": each disk with enough usage history carries a
+    // projected fill date (null = flat or shrinking). Latched per disk, with
+    // the same hysteresis as parts pressure.
+    for (const d of disks) {
+      const growing = d.daysToFull !== null;
+      const days = d.daysToFull ?? Infinity;
+      out.push({
+        ruleKey: "diskfull",
+        instanceId: d.disk,
+        metric: "disk forecast",
+        summary: growing ? `disk ${d.disk} full in ~${fmtDays(days)}` : `disk ${d.disk} not growing`,
+        detail: `${d.disk} ${d.path} (${fmtGb(d.usedBytes)}/${fmtGb(d.totalBytes)}, +${fmtGb(d.growthBytesPerDay ?? 0)}/day)`,
+        value: growing ? `~${fmtDays(days)}` : "not growing",
+        threshold: `${rules.diskFullDays} days`,
+        breaching: growing && days < rules.diskFullDays,
+        clearing: !growing || days > rules.diskFullDays * ETA_CLEAR_RATIO,
       });
     }
   }
@@ -446,8 +533,54 @@ async function deliverWebhook(b: Breach, webhook: WebhookConfig): Promise<void>
   if (!res.ok) throw new Error(`Webhook ${res.status}: ${(await res.text()).slice(0, 200)}`);
 }
 
-/** Dispatch a single breach to one channel by type. */
-function deliverToChannel(b: Breach, ch: DeliveryTarget): Promise<void> {
+/** The plain-text breach message (non-card channels and template `title`/`text`). */
+function breachMessage(b: Breach): { title: string; text: string } {
+  return {
+    title: `🔴 ${b.node} — ${capitalize(b.metric)} alert`,
+    text: [`${b.summary}${b.user ? ` (${b.user})` : ""}`, b.detail].filter(Boolean).join("\n"),
+  };
+}
+
+function breachVars(b: Breach, ruleName: string | undefined): AlertTemplateVars {
+  return {
+    ...breachMessage(b),
+    source: "fleet",
+    rule: ruleName,
+    severity: b.severity,
+    status: "firing",
+    connection: b.node,
+    metric: b.metric,
+    value: b.value,
+    threshold: b.threshold,
+    summary: b.summary,
+    user: b.user,
+    topQuery: b.topQuery,
+    runLink: "/fleet",
+    firedAt: new Date().toISOString(),
+  };
+}
+
+/** The rule a breach fired for, as far as delivery cares. */
+interface BreachRule {
+  name: string;
+  messageTemplate: string | null;
+}
+
+/**
+ * Dispatch a single breach to one channel by type. A rule or channel message
+ * template replaces the built-in card on every type except Webhook, whose JSON
+ * payload integrations parse.
+ */
+async function deliverToChannel(b: Breach, ch: DeliveryTarget, rule?: BreachRule): Promise<void> {
+  const template = ch.type === ChannelType.Webhook ? null : pickTemplate(rule?.messageTemplate, ch.messageTemplate);
+  if (template) {
+    await sendChannelMessage(ch.type, ch.config, {
+      ...applyTemplate(template, breachVars(b, rule?.name)),
+      severity: b.severity,
+      dedupKey: b.dedupKey,
+    });
+    return;
+  }
   switch (ch.type) {
     case ChannelType.Slack:
       return deliverSlack(b, { webhookUrl: String(ch.config.webhookUrl) });
@@ -458,13 +591,14 @@ function deliverToChannel(b: Breach, ch: DeliveryTarget): Promise<void> {
     case ChannelType.Webhook:
       return deliverWebhook(b, { url: String(ch.config.url), secret: ch.config.secret ? String(ch.config.secret) : undefined });
     default:
-      return Promise.resolve();
+      // Teams, PagerDuty, Opsgenie, Discord, Telegram: the shared formatter.
+      await sendChannelMessage(ch.type, ch.config, { ...breachMessage(b), severity: b.severity, dedupKey: b.dedupKey });
   }
 }
 
-async function deliver(b: Breach, channels: DeliveryTarget[]): Promise<void> {
+async function deliver(b: Breach, channels: DeliveryTarget[], rule?: BreachRule): Promise<void> {
   const tasks = channels.map((ch) =>
-    deliverToChannel(b, ch).catch((err) =>
+    deliverToChannel(b, ch, rule).catch((err) =>
       logger.error(
         { module: "FleetAlerter", channel: ch.type, name: ch.name, err: String(err) },
         "Channel delivery failed",
@@ -678,7 +812,7 @@ async function deliverRcaWebhook(report: DoctorReport, triggers: string[], webho
 }
 
 /** Dispatch an RCA report to one channel by type. */
-function deliverRcaToChannel(report: DoctorReport, triggers: string[], ch: DeliveryTarget): Promise<void> {
+async function deliverRcaToChannel(report: DoctorReport, triggers: string[], ch: DeliveryTarget): Promise<void> {
   switch (ch.type) {
     case ChannelType.Slack:
       return deliverRcaSlack(report, triggers, { webhookUrl: String(ch.config.webhookUrl) });
@@ -688,8 +822,17 @@ function deliverRcaToChannel(report: DoctorReport, triggers: string[], ch: Deliv
       return deliverRcaEmail(report, triggers, asEmailConfig(ch.config));
     case ChannelType.Webhook:
       return deliverRcaWebhook(report, triggers, { url: String(ch.config.url), secret: ch.config.secret ? String(ch.config.secret) : undefined });
-    default:
-      return Promise.resolve();
+    case ChannelType.PagerDuty:
+    case ChannelType.Opsgenie:
+      // An RCA is context, not a new incident to page on.
+      return;
+    default: {
+      const status = rcaStatus(report);
+      await sendChannelMessage(ch.type, ch.config, {
+        title: `${STATUS_EMOJI[status] ?? "🟠"} Chouse AI — root-cause analysis`,
+        text: `Verdict: ${rcaSummary(report)}\nTriggered by: ${triggers.join(" · ").slice(0, 280)}`,
+      });
+    }
   }
 }
 
@@ -815,16 +958,29 @@ export async function processTick(
       byConn.get(r.connectionId)![r.metric] = parsed;
     }
 
+    // Fill-date forecasts come from the disk history, not the snapshots; read
+    // them only when some rule asks.
+    const disksByConn = new Map<string, DiskForecast[]>();
+    if (configs.some((cfg) => cfg.rules.diskFullDays > 0)) {
+      try {
+        for (const d of await forecastDisks([...byConn.keys()])) {
+          disksByConn.set(d.connectionId, [...(disksByConn.get(d.connectionId) ?? []), d]);
+        }
+      } catch (err) {
+        logger.warn({ module: "FleetAlerter", err: err instanceof Error ? err.message : String(err) }, "Disk forecast read failed");
+      }
+    }
+
     // Latch keys are namespaced by ruleId so independent rules don't share state.
     const seenQueryKeys = new Set<string>();
 
     // Evaluate every enabled rule against the snapshots; deliver each rule's
     // breaches to that rule's own channels, and fire per-rule auto-RCA.
     for (const config of configs) {
-      const fires: Breach[] = [];
+      const fires: Array<Breach & { connectionId: string; dedupKey: string }> = [];
       for (const [connId, metrics] of byConn) {
         const node = nameById.get(connId) ?? connId;
-        for (const r of evaluateNode(metrics, config.rules)) {
+        for (const r of evaluateNode(metrics, config.rules, disksByConn.get(connId))) {
           const key = r.instanceId
             ? `${config.ruleId}:${connId}:${r.ruleKey}:${r.instanceId}`
             : `${config.ruleId}:${connId}:${r.ruleKey}`;
@@ -832,22 +988,60 @@ export async function processTick(
           const wasArmed = armed.get(key) ?? false;
           if (r.breaching && !wasArmed) {
             armed.set(key, true);
-            fires.push({ node, metric: r.metric, summary: r.summary, user: r.user, detail: r.detail });
+            fires.push({
+              node,
+              metric: r.metric,
+              summary: r.summary,
+              user: r.user,
+              detail: r.detail,
+              value: r.value,
+              threshold: r.threshold,
+              topQuery: r.topQuery,
+              connectionId: connId,
+              dedupKey: key,
+              severity: config.severity,
+            });
           } else if (r.clearing && wasArmed) {
             armed.set(key, false);
+            void resolveAlert(key);
           }
         }
       }
 
       // Deliver after the latch is settled (so a delivery failure can't double-fire),
       // and record each fire so the "recent alerts" feed reflects what happened.
+      // A fire muted by a silence or maintenance window is recorded, not sent.
+      // Every fire opens an incident (muted ones too) for people to work on.
+      const delivered: Breach[] = [];
       for (const b of fires) {
-        void deliver(b, config.channels);
+        const suppressedBy = await findSuppression({
+          ruleId: config.ruleId,
+          severity: config.severity,
+          connection: { id: b.connectionId, name: b.node },
+        });
+        if (!suppressedBy) {
+          delivered.push(b);
+          void deliver(b, config.channels, config);
+        }
+        const payload = `${b.node} — ${b.metric}: ${b.summary}${b.user ? ` (${b.user})` : ""}`;
+        void openIncident({
+          dedupKey: b.dedupKey,
+          ruleId: config.ruleId,
+          connectionId: b.connectionId,
+          severity: config.severity,
+          summary: payload,
+          suppressedBy,
+        }).catch((err) =>
+          logger.error({ module: "FleetAlerter", err: String(err) }, "Failed to open alert incident"),
+        );
         void recordEvent({
           ruleId: config.ruleId,
           severity: config.severity,
-          payload: `${b.node} — ${b.metric}: ${b.summary}${b.user ? ` (${b.user})` : ""}`,
-          deliveredTo: config.channels.map((ch) => ch.name),
+          payload,
+          deliveredTo: suppressedBy ? [] : config.channels.map((ch) => ch.name),
+          dedupKey: b.dedupKey,
+          connectionId: b.connectionId,
+          suppressedBy,
         }).catch((err) =>
           logger.error({ module: "FleetAlerter", err: String(err) }, "Failed to record alert event"),
         );
@@ -857,9 +1051,9 @@ export async function processTick(
       // root-cause analysis is delivered to this rule's channels. Cooldown is
       // global (shared lastAutoRcaAt) so a breach storm across rules can't spawn a
       // scan storm; the timestamp is set BEFORE the (slow) scan to prevent re-entry.
-      if (config.aiRcaOnBreach && fires.length > 0 && Date.now() - lastAutoRcaAt >= AUTO_RCA_COOLDOWN_MS) {
+      if (config.aiRcaOnBreach && delivered.length > 0 && Date.now() - lastAutoRcaAt >= AUTO_RCA_COOLDOWN_MS) {
         lastAutoRcaAt = Date.now();
-        const triggers = fires.map((b) => `${b.node} — ${b.metric}: ${b.summary}`);
+        const triggers = delivered.map((b) => `${b.node} — ${b.metric}: ${b.summary}`);
         void runAutoRca(config.channels, config.aiRcaModelId, triggers);
       }
     }
@@ -869,6 +1063,7 @@ export async function processTick(
     for (const k of [...armed.keys()]) {
       if (k.split(":").length === 4 && armed.get(k) && !seenQueryKeys.has(k)) {
         armed.delete(k);
+        void resolveAlert(k);
       }
     }
   } catch (err) {
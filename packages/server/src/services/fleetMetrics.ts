@@ -235,6 +235,24 @@ export const FLEET_METRICS = {
     ORDER BY max_parts_in_partition DESC
     LIMIT 20
   `,
+
+  /**
+   * Per-disk capacity. The poller keeps a sampled history of these rows for
+   * the disk-full forecast (services/diskForecast.ts). Object-storage disks
+   * report 0 or ~2^64 ("unlimited") total_space and are left out, using the
+   * same sentinel guard as the summary's memory ceiling.
+   */
+  disks: `
+    SELECT
+      name,
+      path,
+      free_space,
+      total_space,
+      total_space - free_space AS used_space
+    FROM system.disks
+    WHERE total_space > 0 AND total_space < pow(2, 60)
+    ORDER BY name
+  `,
 } as const;
 
 export type FleetMetric = keyof typeof FLEET_METRICS;
@@ -37,6 +37,12 @@ import {
 } from "./fleetMetrics";
 import { logger } from "../utils/logger";
 import { processTick } from "./fleetAlerter";
+import { governTick } from "./queryGovernor";
+import { dictionaryTick } from "./dictionaries/monitor";
+import { customSqlTick } from "./customSqlAlerts";
+import { escalationTick } from "./alerting/policy";
+import { recordDiskHistory, pruneDiskHistory } from "./diskForecast";
+import { fleetPollTickDuration } from "./prometheus";
 
 // ============================================
 // Env-driven configuration with safe defaults
@@ -400,11 +406,29 @@ class FleetPoller {
 
       await insertSnapshots(allRows);
 
+      // Sample disk usage for the fill-date forecast before the alerter reads
+      // it. Never throws.
+      await recordDiskHistory(allRows);
+
       // Evaluate alert rules on the fresh snapshots and deliver any new
       // breaches (Slack / email). Fire-and-forget — it never throws and must
       // not block or fail the poll loop.
       void processTick(connections, allRows);
 
+      // Query governor rules read system.processes live rather than the
+      // snapshots; same contract — never throws, never blocks the loop.
+      void governTick(connections);
+
+      // Dictionary health rules read system.dictionaries live as well.
+      void dictionaryTick(connections);
+
+      // Custom SQL rules run their own queries, each on its own interval.
+      void customSqlTick(connections);
+
+      // Re-notify open, unacknowledged alerts that reached an escalation step.
+      void escalationTick(connections);
+
+      fleetPollTickDuration.observe({}, (Date.now() - startedAt) / 1000);
       const errored = allRows.filter((r) => r.error).length;
       logger.info(
         {
@@ -449,6 +473,8 @@ class FleetPoller {
           sql`DELETE FROM fleet_snapshots WHERE captured_at < ${cutoff}`,
         );
       }
+      // Disk history is kept longer than snapshots (FLEET_DISK_HISTORY_DAYS).
+      await pruneDiskHistory();
       logger.debug(
         { module: "FleetPoller", cutoff, retentionHours: RETENTION_HOURS },
         "Fleet snapshot prune complete",
@@ -0,0 +1,67 @@
+/**
+ * Fleet snapshots — read helpers for the fleet_snapshots cache the fleet
+ * poller writes. Shared by the /api/fleet snapshot endpoints and the
+ * Prometheus exporter so both read the same "latest per metric" rows.
+ */
+
+import { sql } from "drizzle-orm";
+import {
+  getDatabase,
+  getDatabaseType,
+  type SqliteDb,
+  type PostgresDb,
+} from "../rbac/db";
+
+export interface FleetSnapshotRow {
+  connection_id: string;
+  captured_at: number;
+  metric: string;
+  payload: string;
+  error: string | null;
+}
+
+/**
+ * Adapter-agnostic SELECT helper. SQLite drizzle uses `.all(stmt)`, Postgres
+ * drizzle uses `.execute(stmt)` and unwraps `.rows`. Centralise so the
+ * snapshot readers stay readable.
+ */
+export async function selectRaw<T = unknown>(stmt: ReturnType<typeof sql>): Promise<T[]> {
+  const db = getDatabase();
+  if (getDatabaseType() === "sqlite") {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return ((db as SqliteDb).all(stmt) as any) ?? [];
+  }
+  // postgres-js + drizzle returns an array-like RowList; some driver configs
+  // wrap it as { rows }. Match the canonical Array.isArray-first check the
+  // RBAC migrations use so this behaves identically on Postgres.
+  const res = await (db as PostgresDb).execute(stmt);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const anyRes = res as any;
+  return (Array.isArray(anyRes) ? anyRes : (anyRes.rows ?? [])) as T[];
+}
+
+/**
+ * Fetch the latest snapshot row per (connection, metric) from the cache.
+ * The id-MAX subquery wins one row per group on both SQLite and Postgres
+ * without needing window functions.
+ */
+export async function fetchLatestSnapshots(
+  connectionIds: string[],
+): Promise<FleetSnapshotRow[]> {
+  if (connectionIds.length === 0) return [];
+  // Connection ids are UUIDs from RBAC tables (server-controlled), so
+  // sql.raw on the IN-list is safe — these are not user input.
+  const placeholders = connectionIds
+    .map((id) => `'${id.replace(/'/g, "''")}'`)
+    .join(",");
+  const stmt = sql.raw(`
+    SELECT s.connection_id, s.captured_at, s.metric, s.payload, s.error
+    FROM fleet_snapshots s
+    WHERE s.id IN (
+      SELECT MAX(id) FROM fleet_snapshots
+      WHERE connection_id IN (${placeholders})
+      GROUP BY connection_id, metric
+    )
+  `);
+  return selectRaw<FleetSnapshotRow>(stmt);
+}
@@ -0,0 +1,91 @@
+/**
+ * Tests for connection lineage: parsing table definitions and INSERT targets,
+ * merging into the job graph (cascade filtering, insert aggregation), and
+ * focus-component scoping with the node limit.
+ */
+
+import { describe, it, expect } from "bun:test";
+
+import {
+  dependencyEdges,
+  distributedTarget,
+  focusComponent,
+  insertTarget,
+  materializedViewTarget,
+  mergeConnectionLineage,
+  dictionarySourceTable,
+  type TableDependencyRow,
+} from "./connection";
+
+function table(over: Partial<TableDependencyRow> & Pick<TableDependencyRow, "database" | "name">): TableDependencyRow {
+  return { engine: "MergeTree", engineFull: "MergeTree ORDER BY id", createQuery: "", dependencies: [], ...over };
+}
+
+describe("definition parsing", () => {
+  it("reads the TO target of a materialized view, ignoring the SELECT", () => {
+    expect(materializedViewTarget("CREATE MATERIALIZED VIEW db.mv TO `agg`.`daily` (`d` Date) AS SELECT d FROM db.events", "db"))
+      .toBe("agg.daily");
+    expect(materializedViewTarget("CREATE MATERIALIZED VIEW db.mv TO daily AS SELECT 1", "db")).toBe("db.daily");
+    expect(materializedViewTarget("CREATE MATERIALIZED VIEW db.mv ENGINE = MergeTree ORDER BY d AS SELECT d FROM x TO y", "db"))
+      .toBeNull();
+  });
+
+  it("reads Distributed and dictionary sources", () => {
+    expect(distributedTarget("Distributed('main', 'db', 'events_local', rand())", "db")).toBe("db.events_local");
+    expect(distributedTarget("Distributed(main, currentDatabase(), events_local)", "db")).toBe("db.events_local");
+    expect(dictionarySourceTable("CREATE DICTIONARY geo.countries (...) SOURCE(CLICKHOUSE(TABLE 'countries_src' DB 'raw')) LAYOUT(HASHED())", "geo"))
+      .toBe("raw.countries_src");
+    expect(dictionarySourceTable("CREATE DICTIONARY geo.c (...) SOURCE(CLICKHOUSE(HOST 'other' TABLE 't'))", "geo")).toBeNull();
+    expect(dictionarySourceTable("CREATE DICTIONARY geo.c (...) SOURCE(MYSQL(TABLE 't'))", "geo")).toBeNull();
+  });
+
+  it("parses INSERT targets", () => {
+    expect(insertTarget("/* etl */ INSERT INTO `db`.`out` SELECT * FROM db.src", "default")).toBe("db.out");
+    expect(insertTarget("insert into table out select 1", "stage")).toBe("stage.out");
+    expect(insertTarget("INSERT INTO FUNCTION s3('…') SELECT 1", "default")).toBeNull();
+  });
+});
+
+describe("mergeConnectionLineage", () => {
+  const tables: TableDependencyRow[] = [
+    table({ database: "db", name: "events", dependencies: ["db.mv_daily"] }),
+    table({ database: "db", name: "mv_daily", engine: "MaterializedView", createQuery: "CREATE MATERIALIZED VIEW db.mv_daily TO db.daily AS SELECT 1" }),
+    table({ database: "db", name: "events_dist", engine: "Distributed", engineFull: "Distributed('c', 'db', 'events')" }),
+  ];
+
+  it("adds definition edges and drops an insert's own cascade from its sources", () => {
+    const graph = mergeConnectionLineage({ nodes: [], edges: [] }, {
+      tables,
+      inserts: [
+        { target: "db.events", sources: ["db.staging", "db.mv_daily", "db.daily", "system.numbers"], queryCount: 3, users: ["etl"], lastSeen: null },
+        { target: "db.events", sources: ["db.staging"], queryCount: 2, users: ["backfill"], lastSeen: null },
+      ],
+    });
+
+    expect(dependencyEdges(tables)).toHaveLength(3);
+    const inserts = graph.edges.filter((e) => e.kind === "insert");
+    expect(inserts.map((e) => e.id)).toEqual(["insert:db.staging->db.events"]);
+    expect(inserts[0]!.queryCount).toBe(5);
+    expect(inserts[0]!.users).toEqual(["backfill", "etl"]);
+    const mv = graph.nodes.find((n) => n.id === "table:db.mv_daily");
+    expect(mv && mv.kind === "table" && mv.engine).toBe("MaterializedView");
+  });
+
+  it("scopes to the focus component and reports truncation", () => {
+    const graph = mergeConnectionLineage({ nodes: [], edges: [] }, {
+      tables: [...tables, table({ database: "other", name: "lonely", dependencies: ["other.mv"] })],
+      inserts: [],
+    });
+
+    const full = focusComponent(graph, "table:db.daily");
+    expect(full.nodes.map((n) => n.id).sort()).toEqual([
+      "table:db.daily", "table:db.events", "table:db.events_dist", "table:db.mv_daily",
+    ]);
+    expect(full.truncated).toBe(false);
+
+    const capped = focusComponent(graph, "table:db.daily", 2);
+    expect(capped.nodes).toHaveLength(2);
+    expect(capped.truncated).toBe(true);
+    expect(focusComponent(graph, "table:db.missing").nodes).toEqual([]);
+  });
+});
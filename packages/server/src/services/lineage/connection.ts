@@ -0,0 +1,358 @@
+/**
+ * Connection lineage — how data moves between tables on one connection,
+ * beyond what scheduled jobs do.
+ *
+ * Two sources, both read with the connection's own credentials:
+ *  - `system.tables`: a materialized view reads the tables that list it in
+ *    `dependencies_table` and writes its `TO` target; a Distributed table
+ *    writes the local table it fronts; a dictionary with a local ClickHouse
+ *    source reads that table.
+ *  - `system.query_log`: every INSERT … SELECT in the window, grouped by
+ *    normalized query — the table written (parsed from the INSERT) and the
+ *    tables read (the rest of `tables`). Scheduled-query runs are skipped here;
+ *    the job graph in scheduledQueries/lineage.ts already has them.
+ *
+ * Everything past the two reads is pure and merges into the job lineage graph
+ * (same node and edge shapes), so the Data Ops job view and the Explorer table
+ * view show one graph.
+ */
+
+import type { ClickHouseClient } from "@clickhouse/client";
+
+import type { LineageEdge, LineageEdgeKind, LineageNode, LineageTableNode } from "../scheduledQueries/lineage";
+
+/** A `system.tables` row that takes part in lineage. */
+export interface TableDependencyRow {
+  database: string;
+  name: string;
+  engine: string;
+  engineFull: string;
+  createQuery: string;
+  /** Materialized views that read this table (system.tables dependencies_*). */
+  dependencies: string[];
+}
+
+/** INSERT queries that wrote one table from a set of others. */
+export interface InsertObservation {
+  target: string;
+  sources: string[];
+  queryCount: number;
+  users: string[];
+  lastSeen: number | null;
+}
+
+export interface ConnectionLineage {
+  tables: TableDependencyRow[];
+  inserts: InsertObservation[];
+  /** Set when query_log could not be read; system.tables edges are still there. */
+  note?: string;
+}
+
+/** A table → table edge derived from table definitions. */
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  kind: Extract<LineageEdgeKind, "materialized_view" | "distributed" | "dictionary">;
+}
+
+const SYSTEM_DATABASES = new Set(["system", "information_schema", "INFORMATION_SCHEMA"]);
+
+function isSystemTable(fqtn: string): boolean {
+  return SYSTEM_DATABASES.has(fqtn.slice(0, fqtn.indexOf(".")));
+}
+
+function unquote(part: string): string {
+  const p = part.trim();
+  if ((p.startsWith("`") && p.endsWith("`")) || (p.startsWith('"') && p.endsWith('"')) || (p.startsWith("'") && p.endsWith("'"))) {
+    return p.slice(1, -1);
+  }
+  return p;
+}
+
+const NAME = "(?:`[^`]+`|\"[^\"]+\"|[\\w$]+)";
+const QUALIFIED = `${NAME}(?:\\s*\\.\\s*${NAME})?`;
+
+/** `db.table` for a possibly quoted, possibly unqualified name. */
+export function qualifyName(raw: string, defaultDatabase: string): string {
+  const [first = raw, second] = raw.match(new RegExp(NAME, "g")) ?? [];
+  return second !== undefined ? `${unquote(first)}.${unquote(second)}` : `${defaultDatabase}.${unquote(first)}`;
+}
+
+/** The `TO` target of a materialized view, or null when it stores data itself. */
+export function materializedViewTarget(createQuery: string, database: string): string | null {
+  // Only look before the SELECT so a `TO` inside the query can't match.
+  const header = createQuery.split(/\sAS\s+(?:SELECT|WITH|\()/i)[0];
+  const match = header.match(new RegExp(`\\sTO\\s+(${QUALIFIED})`, "i"));
+  return match ? qualifyName(match[1], database) : null;
+}
+
+/** The local table behind a Distributed engine, or null if it can't be parsed. */
+export function distributedTarget(engineFull: string, database: string): string | null {
+  const match = engineFull.match(/^Distributed\(\s*([^,]+),\s*([^,]+),\s*([^,)]+)/);
+  if (!match) return null;
+  const db = unquote(match[2]);
+  const table = unquote(match[3]);
+  return `${db && !db.includes("(") ? db : database}.${table}`;
+}
+
+/** The local table a dictionary loads from, or null for other sources. */
+export function dictionarySourceTable(createQuery: string, database: string): string | null {
+  const source = createQuery.match(/SOURCE\s*\(\s*CLICKHOUSE\s*\(([^)]*)\)/i)?.[1];
+  if (!source) return null;
+  const host = source.match(/\bHOST\s+'([^']*)'/i)?.[1];
+  if (host && host !== "localhost" && host !== "127.0.0.1") return null;
+  const table = source.match(/\bTABLE\s+'([^']+)'/i)?.[1];
+  if (!table) return null;
+  return `${source.match(/\bDB\s+'([^']+)'/i)?.[1] ?? database}.${table}`;
+}
+
+/** The table an INSERT writes, or null for INSERT INTO FUNCTION and the like. */
+export function insertTarget(query: string, currentDatabase: string): string | null {
+  const body = query.replace(/^(?:\s*(?:--[^\n]*\n|\/\*[\s\S]*?\*\/))*/, "");
+  const match = body.match(new RegExp(`^\\s*INSERT\\s+INTO\\s+(?:TABLE\\s+)?(?!FUNCTION\\b)(${QUALIFIED})`, "i"));
+  return match ? qualifyName(match[1], currentDatabase) : null;
+}
+
+/** Edges implied by table definitions. */
+export function dependencyEdges(rows: TableDependencyRow[]): DependencyEdge[] {
+  const edges: DependencyEdge[] = [];
+  for (const row of rows) {
+    const fqtn = `${row.database}.${row.name}`;
+    for (const view of row.dependencies) edges.push({ from: fqtn, to: view, kind: "materialized_view" });
+    if (row.engine === "MaterializedView") {
+      const target = materializedViewTarget(row.createQuery, row.database);
+      if (target) edges.push({ from: fqtn, to: target, kind: "materialized_view" });
+    } else if (row.engine === "Distributed") {
+      const target = distributedTarget(row.engineFull, row.database);
+      if (target && target !== fqtn) edges.push({ from: fqtn, to: target, kind: "distributed" });
+    } else if (row.engine === "Dictionary") {
+      const source = dictionarySourceTable(row.createQuery, row.database);
+      if (source) edges.push({ from: source, to: fqtn, kind: "dictionary" });
+    }
+  }
+  return edges;
+}
+
+/** Tables an insert into `fqtn` reaches on its own (through views and Distributed). */
+function cascadeOf(fqtn: string, edges: DependencyEdge[]): Set<string> {
+  const reached = new Set<string>();
+  const queue = [fqtn];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of edges) {
+      if (edge.from === current && edge.kind !== "dictionary" && !reached.has(edge.to)) {
+        reached.add(edge.to);
+        queue.push(edge.to);
+      }
+    }
+  }
+  return reached;
+}
+
+/**
+ * Merge connection lineage into a graph, adding table nodes as needed. An
+ * INSERT's `tables` also lists the views and tables its insert cascades into;
+ * those are dropped from its sources using the dependency edges.
+ */
+export function mergeConnectionLineage(
+  graph: { nodes: LineageNode[]; edges: LineageEdge[] },
+  lineage: ConnectionLineage,
+): { nodes: LineageNode[]; edges: LineageEdge[] } {
+  const nodes = new Map(graph.nodes.map((n) => [n.id, n]));
+  const edges = new Map(graph.edges.map((e) => [e.id, e]));
+  const engines = new Map(lineage.tables.map((t) => [`${t.database}.${t.name}`, t.engine]));
+
+  const tableNode = (fqtn: string): LineageTableNode => {
+    const id = `table:${fqtn}`;
+    let node = nodes.get(id) as LineageTableNode | undefined;
+    if (!node) {
+      const dot = fqtn.indexOf(".");
+      node = {
+        id,
+        kind: "table",
+        label: fqtn,
+        database: fqtn.slice(0, dot),
+        table: fqtn.slice(dot + 1),
+        columns: [],
+        produced: false,
+      };
+      nodes.set(id, node);
+    }
+    const engine = engines.get(fqtn);
+    if (engine) node.engine = engine;
+    return node;
+  };
+
+  const deps = dependencyEdges(lineage.tables);
+  for (const dep of deps) {
+    const from = tableNode(dep.from);
+    const to = tableNode(dep.to);
+    if (dep.kind !== "dictionary") to.produced = true;
+    const id = `${dep.kind}:${dep.from}->${dep.to}`;
+    edges.set(id, { id, from: from.id, to: to.id, kind: dep.kind, columns: [] });
+  }
+
+  for (const insert of lineage.inserts) {
+    const cascade = cascadeOf(insert.target, deps);
+    const sources = insert.sources.filter((s) => s !== insert.target && !cascade.has(s) && !isSystemTable(s));
+    if (sources.length === 0) continue;
+    const target = tableNode(insert.target);
+    target.produced = true;
+    for (const source of sources) {
+      const from = tableNode(source);
+      const id = `insert:${source}->${insert.target}`;
+      const existing = edges.get(id);
+      edges.set(id, {
+        id,
+        from: from.id,
+        to: target.id,
+        kind: "insert",
+        columns: [],
+        queryCount: (existing?.queryCount ?? 0) + insert.queryCount,
+        users: [...new Set([...(existing?.users ?? []), ...insert.users])].sort(),
+      });
+    }
+  }
+
+  return { nodes: [...nodes.values()], edges: [...edges.values()] };
+}
+
+/**
+ * The connected component containing `focusId` (edges taken undirected), up
+ * to `maxNodes` nodes in breadth-first order. Empty when the focus isn't in
+ * the graph.
+ */
+export function focusComponent(
+  graph: { nodes: LineageNode[]; edges: LineageEdge[] },
+  focusId: string,
+  maxNodes = 300,
+): { nodes: LineageNode[]; edges: LineageEdge[]; truncated: boolean } {
+  if (!graph.nodes.some((n) => n.id === focusId)) return { nodes: [], edges: [], truncated: false };
+
+  const adjacency = new Map<string, Set<string>>();
+  const link = (a: string, b: string): void => {
+    if (!adjacency.has(a)) adjacency.set(a, new Set());
+    if (!adjacency.has(b)) adjacency.set(b, new Set());
+    adjacency.get(a)!.add(b);
+    adjacency.get(b)!.add(a);
+  };
+  for (const edge of graph.edges) link(edge.from, edge.to);
+
+  const reachable = new Set<string>([focusId]);
+  const queue = [focusId];
+  let truncated = false;
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of adjacency.get(current) ?? []) {
+      if (reachable.has(next)) continue;
+      if (reachable.size >= maxNodes) {
+        truncated = true;
+        break;
+      }
+      reachable.add(next);
+      queue.push(next);
+    }
+  }
+
+  return {
+    nodes: graph.nodes.filter((node) => reachable.has(node.id)),
+    edges: graph.edges.filter((edge) => reachable.has(edge.from) && reachable.has(edge.to)),
+    truncated,
+  };
+}
+
+// --- reads ------------------------------------------------------------------
+
+async function readTableDependencies(client: ClickHouseClient): Promise<TableDependencyRow[]> {
+  const result = await client.query({
+    query: `
+      SELECT database, name, engine, engine_full, create_table_query, dependencies_database, dependencies_table
+      FROM system.tables
+      WHERE database NOT IN ('system', 'information_schema', 'INFORMATION_SCHEMA')
+        AND NOT is_temporary
+        AND (engine IN ('MaterializedView', 'Distributed', 'Dictionary') OR notEmpty(dependencies_table))`,
+    format: "JSON",
+    clickhouse_settings: { readonly: "1", max_execution_time: 20, max_result_rows: "20000" },
+  });
+  const json = (await result.json()) as {
+    data?: Array<{
+      database: string;
+      name: string;
+      engine: string;
+      engine_full: string;
+      create_table_query: string;
+      dependencies_database: string[];
+      dependencies_table: string[];
+    }>;
+  };
+  return (json.data ?? []).map((row) => ({
+    database: row.database,
+    name: row.name,
+    engine: row.engine,
+    engineFull: row.engine_full ?? "",
+    createQuery: row.create_table_query ?? "",
+    dependencies: (row.dependencies_table ?? []).map((t, i) => `${row.dependencies_database?.[i] ?? row.database}.${t}`),
+  }));
+}
+
+async function observeInserts(client: ClickHouseClient, windowDays: number): Promise<InsertObservation[]> {
+  const result = await client.query({
+    query: `
+      SELECT
+        substring(any(query), 1, 2000) AS sample,
+        any(current_database) AS current_db,
+        arrayDistinct(arrayFlatten(groupArray(tables))) AS tables,
+        count() AS query_count,
+        groupUniqArray(10)(user) AS users,
+        toUnixTimestamp(max(event_time)) * 1000 AS last_seen_ms
+      FROM system.query_log
+      WHERE type = 'QueryFinish'
+        AND query_kind = 'Insert'
+        AND event_time >= now() - toIntervalDay({days:UInt32})
+        AND length(tables) > 1
+        AND JSONExtractString(log_comment, 'source') != 'scheduled_query'
+      GROUP BY normalized_query_hash
+      ORDER BY query_count DESC
+      LIMIT 2000`,
+    query_params: { days: windowDays },
+    format: "JSON",
+    clickhouse_settings: { readonly: "1", max_execution_time: 20 },
+  });
+  const json = (await result.json()) as {
+    data?: Array<{
+      sample: string;
+      current_db: string;
+      tables: string[];
+      query_count: number | string;
+      users: string[];
+      last_seen_ms: number | string | null;
+    }>;
+  };
+
+  const out: InsertObservation[] = [];
+  for (const row of json.data ?? []) {
+    const target = insertTarget(row.sample ?? "", row.current_db || "default");
+    if (!target) continue;
+    out.push({
+      target,
+      sources: (row.tables ?? []).map(String).filter((t) => t !== target),
+      queryCount: Number(row.query_count ?? 0),
+      users: (row.users ?? []).map(String),
+      lastSeen: row.last_seen_ms != null ? Number(row.last_seen_ms) : null,
+    });
+  }
+  return out;
+}
+
+/**
+ * Read both lineage sources. A `system.tables` failure throws; a query_log
+ * failure (not enabled, no grant) only drops the INSERT edges, with a note.
+ */
+export async function readConnectionLineage(client: ClickHouseClient, windowDays: number): Promise<ConnectionLineage> {
+  const tables = await readTableDependencies(client);
+  try {
+    return { tables, inserts: await observeInserts(client, windowDays) };
+  } catch {
+    return { tables, inserts: [], note: "Could not read system.query_log; INSERT … SELECT lineage is missing." };
+  }
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "bun:test";
+import { Counter, Histogram, gauge } from "./prometheus";
+
+describe("prometheus registry", () => {
+  it("renders counters per label set", () => {
+    const c = new Counter("test_total", "A test counter.");
+    c.inc({ outcome: "ok" });
+    c.inc({ outcome: "ok" }, 2);
+    c.inc({ outcome: "error" });
+    expect(c.render()).toBe(
+      "# HELP test_total A test counter.\n# TYPE test_total counter\n" +
+        'test_total{outcome="ok"} 3\ntest_total{outcome="error"} 1\n',
+    );
+  });
+
+  it("renders cumulative histogram buckets with sum and count", () => {
+    const h = new Histogram("test_seconds", "A test histogram.", [0.1, 1]);
+    h.observe({ route: "/a" }, 0.05);
+    h.observe({ route: "/a" }, 0.5);
+    h.observe({ route: "/a" }, 3);
+    const out = h.render();
+    expect(out).toContain('test_seconds_bucket{route="/a",le="0.1"} 1\n');
+    expect(out).toContain('test_seconds_bucket{route="/a",le="1"} 2\n');
+    expect(out).toContain('test_seconds_bucket{route="/a",le="+Inf"} 3\n');
+    expect(out).toContain('test_seconds_sum{route="/a"} 3.55\n');
+    expect(out).toContain('test_seconds_count{route="/a"} 3\n');
+  });
+
+  it("escapes label values and skips empty gauge families", () => {
+    expect(gauge("g", "help", [])).toBe("");
+    expect(gauge("g", "help", [{ labels: { name: 'a"b\\c' }, value: 1 }])).toContain('g{name="a\\"b\\\\c"} 1\n');
+  });
+});
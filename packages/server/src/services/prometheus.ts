@@ -0,0 +1,129 @@
+/**
+ * Prometheus metrics — a small in-process registry and the text exposition
+ * format (version 0.0.4) it renders to.
+ *
+ * Counters and histograms here track CHouse UI's own internals as they happen
+ * (request latency, AI invocations, fleet poll ticks) and are per-process:
+ * each replica reports its own, and Prometheus sums them. Values that live in
+ * the shared RBAC DB (fleet snapshots, scheduler lag, outbox backlog) are read
+ * at scrape time by routes/prometheus.ts and rendered with gauge().
+ */
+
+export type Labels = Record<string, string>;
+
+export interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+/** Seconds-scale buckets for request and tick latencies. */
+export const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+function header(name: string, help: string, type: "counter" | "gauge" | "histogram"): string {
+  return `# HELP ${name} ${help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}\n# TYPE ${name} ${type}\n`;
+}
+
+/** Stable key for a label set, independent of property order. */
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/** Render one gauge family from samples read at scrape time. Empty families render nothing. */
+export function gauge(name: string, help: string, samples: Sample[]): string {
+  if (samples.length === 0) return "";
+  return header(name, help, "gauge") + samples.map((s) => `${name}${formatLabels(s.labels)} ${formatValue(s.value)}\n`).join("");
+}
+
+export class Counter {
+  private readonly values = new Map<string, Sample>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, by = 1): void {
+    const key = labelKey(labels);
+    const sample = this.values.get(key);
+    if (sample) sample.value += by;
+    else this.values.set(key, { labels, value: by });
+  }
+
+  render(): string {
+    return header(this.name, this.help, "counter") +
+      [...this.values.values()].map((s) => `${this.name}${formatLabels(s.labels)} ${formatValue(s.value)}\n`).join("");
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram {
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(readonly name: string, readonly help: string, readonly buckets: number[] = LATENCY_BUCKETS) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let s = this.series.get(key);
+    if (!s) {
+      s = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, s);
+    }
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) s.counts[i]++;
+    }
+    s.sum += value;
+    s.count++;
+  }
+
+  render(): string {
+    let out = header(this.name, this.help, "histogram");
+    for (const s of this.series.values()) {
+      this.buckets.forEach((le, i) => {
+        out += `${this.name}_bucket${formatLabels({ ...s.labels, le: formatValue(le) })} ${s.counts[i]}\n`;
+      });
+      out += `${this.name}_bucket${formatLabels({ ...s.labels, le: "+Inf" })} ${s.count}\n`;
+      out += `${this.name}_sum${formatLabels(s.labels)} ${formatValue(s.sum)}\n`;
+      out += `${this.name}_count${formatLabels(s.labels)} ${s.count}\n`;
+    }
+    return out;
+  }
+}
+
+export const httpRequestDuration = new Histogram(
+  "chouse_http_request_duration_seconds",
+  "API request latency by route pattern, method and status class.",
+);
+
+export const aiInvocations = new Counter(
+  "chouse_ai_invocations_total",
+  "Chouse AI capability invocations by capability and outcome.",
+);
+
+export const fleetPollTickDuration = new Histogram(
+  "chouse_fleet_poll_tick_duration_seconds",
+  "Duration of fleet poller ticks run by this instance (lease holder only).",
+);
+
+/** Render every in-process metric. */
+export function renderRegistry(): string {
+  return [httpRequestDuration, aiInvocations, fleetPollTickDuration].map((m) => m.render()).join("");
+}
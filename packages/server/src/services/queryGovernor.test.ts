@@ -0,0 +1,71 @@
+import { describe, it, expect } from "bun:test";
+import { matchGovernorRule, parseGovernorConfig, validateGovernorConfig, type GovernedQuery } from "./queryGovernor";
+
+const GB = 1024 ** 3;
+
+const query = (over: Partial<GovernedQuery> = {}): GovernedQuery => ({
+  queryId: "q-1",
+  user: "analyst",
+  query: "SELECT count() FROM events",
+  elapsedSeconds: 60,
+  memoryUsage: 1 * GB,
+  readBytes: 1 * GB,
+  roles: [],
+  ...over,
+});
+
+const rule = (over: Record<string, unknown>) => parseGovernorConfig(over);
+
+describe("queryGovernor matchGovernorRule", () => {
+  it("matches a query over the memory threshold for the named user", () => {
+    const config = rule({ users: "analyst", memoryGb: 40 });
+    expect(matchGovernorRule(query({ memoryUsage: 50 * GB }), config)).toBe("memory 50.0 GB > 40 GB");
+    expect(matchGovernorRule(query({ memoryUsage: 30 * GB }), config)).toBeNull();
+  });
+
+  it("leaves other users alone", () => {
+    const config = rule({ users: "reporting, bi", memoryGb: 40 });
+    expect(matchGovernorRule(query({ memoryUsage: 50 * GB }), config)).toBeNull();
+  });
+
+  it("matches the CHouse UI user behind a shared ClickHouse user", () => {
+    const config = rule({ users: "Alice", durationMin: 30 });
+    const q = query({ user: "chouse", rbacUsername: "alice", elapsedSeconds: 31 * 60 });
+    expect(matchGovernorRule(q, config)).toBe("running 31m > 30m");
+  });
+
+  it("skips queries from exempt roles", () => {
+    const config = rule({ exemptRoles: "etl", durationMin: 30 });
+    expect(matchGovernorRule(query({ elapsedSeconds: 3600, roles: ["ETL"] }), config)).toBeNull();
+    expect(matchGovernorRule(query({ elapsedSeconds: 3600, roles: ["viewer"] }), config)).toBe("running 1.0h > 30m");
+  });
+
+  it("only matches queries that fit the pattern", () => {
+    const config = rule({ queryPattern: "from\\s+events", readGb: 100 });
+    expect(matchGovernorRule(query({ readBytes: 200 * GB }), config)).toBe("read 200.0 GB > 100 GB");
+    expect(matchGovernorRule(query({ readBytes: 200 * GB, query: "SELECT 1 FROM logs" }), config)).toBeNull();
+  });
+
+  it("lists every threshold crossed", () => {
+    const config = rule({ memoryGb: 10, readGb: 10 });
+    expect(matchGovernorRule(query({ memoryUsage: 12 * GB, readBytes: 20 * GB }), config)).toBe(
+      "memory 12.0 GB > 10 GB, read 20.0 GB > 10 GB",
+    );
+  });
+});
+
+describe("queryGovernor validateGovernorConfig", () => {
+  it("requires at least one threshold", () => {
+    expect(validateGovernorConfig({ users: "analyst" })).toMatch(/at least one threshold/);
+    expect(validateGovernorConfig({ durationMin: 30 })).toBeNull();
+  });
+
+  it("rejects an invalid query pattern", () => {
+    expect(validateGovernorConfig({ memoryGb: 40, queryPattern: "(unclosed" })).toMatch(/Invalid query pattern/);
+  });
+
+  it("only treats an explicit true as dry run", () => {
+    expect(parseGovernorConfig({ dryRun: "yes" }).dryRun).toBe(false);
+    expect(parseGovernorConfig({ dryRun: true }).dryRun).toBe(true);
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Query governor — automatic kill policies for runaway queries.
+ *
+ * `/live-queries/kill` needs a human to spot the query first. The governor
+ * runs the same kill on its own: the fleet poller calls governTick() after each
+ * snapshot tick (so only the lease holder acts), and every enabled
+ * `query_governor` alert rule is checked against each connection's
+ * system.processes. A rule scopes queries by user, exempt role and query
+ * pattern, and acts once a query crosses any of its memory / duration /
+ * read-bytes thresholds — by killing it, or only reporting it when the rule is
+ * in dry run.
+ *
+ * Every action is recorded as an alert event against the rule and delivered to
+ * the rule's notification channels, so the "recent alerts" feed doubles as the
+ * governor's kill log. A query is acted on once; it is forgotten when it leaves
+ * system.processes.
+ *
+ * Example rule config (QueryGovernorRuleConfig):
+ * { "users": "", "exemptRoles": "etl", "queryPattern": "", "memoryGb": 0,
+ *   "durationMin": 30, "readGb": 0, "dryRun": false }
+ */
+
+import { ClientManager } from "./clientManager";
+import { buildFleetConfig } from "./fleetMetrics";
+import { listRules, getRuleChannelsDecrypted, recordEvent } from "./alerting/store";
+import { sendChannelMessage } from "./alerting/deliver";
+import { findSuppression } from "./alerting/policy";
+import { AlertSourceType, type AlertSeverity, type QueryGovernorRuleConfig } from "./alerting/types";
+import { getUserById } from "../rbac/services/rbac";
+import { logger } from "../utils/logger";
+import { GOVERNOR_QUERY_ID_PREFIX, governorQueryId } from "../utils/queryIds";
+
+const GB = 1024 ** 3;
+
+/** A running query as the governor sees it, with the principal behind it resolved. */
+export interface GovernedQuery {
+  queryId: string;
+  user: string;
+  query: string;
+  elapsedSeconds: number;
+  memoryUsage: number;
+  readBytes: number;
+  /** CHouse UI user that issued the query (from log_comment), if any. */
+  rbacUsername?: string;
+  /** ClickHouse roles granted to `user` plus the CHouse UI user's roles. */
+  roles: string[];
+}
+
+/** One enabled governor rule, parsed and ready to match. */
+interface GovernorRule {
+  ruleId: string;
+  name: string;
+  severity: AlertSeverity;
+  config: QueryGovernorRuleConfig;
+}
+
+interface ProcessRow {
+  query_id: string;
+  user: string;
+  query: string;
+  elapsed_seconds: number | string;
+  memory_usage: number | string;
+  read_bytes: number | string;
+  log_comment_json: string;
+}
+
+// Per-(connection, query) record of queries already acted on, so a query that
+// is still unwinding after KILL — or one a dry-run rule keeps matching — is
+// reported once.
+const handled = new Set<string>();
+
+function num(v: unknown): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function splitList(raw: unknown): string[] {
+  return String(raw ?? "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function fmtBytes(bytes: number): string {
+  return `${(bytes / GB).toFixed(1)} GB`;
+}
+
+function fmtDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  return `${(seconds / 3600).toFixed(1)}h`;
+}
+
+/** Normalise a stored rule config; missing or mistyped fields fall back to "off". */
+export function parseGovernorConfig(raw: Record<string, unknown>): QueryGovernorRuleConfig {
+  return {
+    users: String(raw.users ?? ""),
+    exemptRoles: String(raw.exemptRoles ?? ""),
+    queryPattern: String(raw.queryPattern ?? ""),
+    memoryGb: num(raw.memoryGb),
+    durationMin: num(raw.durationMin),
+    readGb: num(raw.readGb),
+    dryRun: raw.dryRun === true,
+  };
+}
+
+/**
+ * Why a governor config can't be saved, or null when it can. A rule needs at
+ * least one threshold — without one it would kill every query in scope.
+ */
+export function validateGovernorConfig(raw: Record<string, unknown>): string | null {
+  const config = parseGovernorConfig(raw);
+  if (config.memoryGb <= 0 && config.durationMin <= 0 && config.readGb <= 0) {
+    return "Set at least one threshold (memory, duration or read bytes)";
+  }
+  if (config.queryPattern) {
+    try {
+      new RegExp(config.queryPattern, "i");
+    } catch {
+      return `Invalid query pattern: ${config.queryPattern}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Which thresholds `q` crosses under `config`, as a human summary — or null
+ * when the query is out of scope or under every threshold. Pure; exported for
+ * tests.
+ */
+export function matchGovernorRule(q: GovernedQuery, config: QueryGovernorRuleConfig): string | null {
+  const users = splitList(config.users);
+  if (users.length > 0) {
+    const names = [q.user.toLowerCase(), q.rbacUsername?.toLowerCase()];
+    if (!names.some((n) => n && users.includes(n))) return null;
+  }
+  const exempt = splitList(config.exemptRoles);
+  if (q.roles.some((r) => exempt.includes(r.toLowerCase()))) return null;
+  if (config.queryPattern && !new RegExp(config.queryPattern, "i").test(q.query)) return null;
+
+  const reasons: string[] = [];
+  if (config.memoryGb > 0 && q.memoryUsage > config.memoryGb * GB) {
+    reasons.push(`memory ${fmtBytes(q.memoryUsage)} > ${config.memoryGb} GB`);
+  }
+  if (config.durationMin > 0 && q.elapsedSeconds > config.durationMin * 60) {
+    reasons.push(`running ${fmtDuration(q.elapsedSeconds)} > ${config.durationMin}m`);
+  }
+  if (config.readGb > 0 && q.readBytes > config.readGb * GB) {
+    reasons.push(`read ${fmtBytes(q.readBytes)} > ${config.readGb} GB`);
+  }
+  return reasons.length > 0 ? reasons.join(", ") : null;
+}
+
+async function loadGovernorRules(): Promise<GovernorRule[]> {
+  const out: GovernorRule[] = [];
+  for (const rule of await listRules()) {
+    if (!rule.enabled || rule.sourceType !== AlertSourceType.QueryGovernor) continue;
+    let raw: Record<string, unknown> = {};
+    try {
+      raw = JSON.parse(rule.config) as Record<string, unknown>;
+    } catch {
+      raw = {};
+    }
+    // A rule saved before validation existed could still be unsafe — skip it
+    // rather than kill everything in scope.
+    const problem = validateGovernorConfig(raw);
+    if (problem) {
+      logger.warn({ module: "QueryGovernor", ruleId: rule.id, problem }, "Skipping invalid governor rule");
+      continue;
+    }
+    out.push({ ruleId: rule.id, name: rule.name, severity: rule.severity, config: parseGovernorConfig(raw) });
+  }
+  return out;
+}
+
+/** Read a connection's running queries and resolve who is behind each one. */
+async function listGovernedQueries(
+  connectionId: string,
+  needRoles: boolean,
+  rbacUsers: Map<string, { username: string; roles: string[] } | null>,
+): Promise<{ client: ReturnType<ClientManager["getClient"]>; queries: GovernedQuery[] }> {
+  const client = ClientManager.getInstance().getClient(await buildFleetConfig(connectionId));
+  const result = await client.query({
+    query: `
+      SELECT
+        query_id,
+        user,
+        query,
+        toFloat64(elapsed) AS elapsed_seconds,
+        memory_usage,
+        read_bytes,
+        Settings['log_comment'] AS log_comment_json
+      FROM system.processes
+      WHERE is_initial_query = 1
+        AND NOT startsWith(query_id, {governorPrefix:String})
+        AND query NOT LIKE 'KILL QUERY%'
+    `,
+    query_id: governorQueryId(),
+    query_params: { governorPrefix: GOVERNOR_QUERY_ID_PREFIX },
+    format: "JSON",
+  });
+  const rows = ((await result.json()) as { data?: ProcessRow[] }).data ?? [];
+
+  // ClickHouse role grants only matter when some rule exempts roles. Reading
+  // system.role_grants needs SHOW ACCESS — without it, exemptions fall back to
+  // CHouse UI roles alone.
+  const chRoles = new Map<string, string[]>();
+  if (needRoles && rows.length > 0) {
+    try {
+      const grants = await client.query({
+        query: "SELECT user_name, granted_role_name FROM system.role_grants WHERE user_name != ''",
+        query_id: governorQueryId(),
+        format: "JSON",
+      });
+      for (const g of ((await grants.json()) as { data?: { user_name: string; granted_role_name: string }[] }).data ?? []) {
+        chRoles.set(g.user_name, [...(chRoles.get(g.user_name) ?? []), g.granted_role_name]);
+      }
+    } catch (err) {
+      logger.debug({ module: "QueryGovernor", connectionId, err: String(err) }, "Could not read role grants");
+    }
+  }
+
+  const queries: GovernedQuery[] = [];
+  for (const row of rows) {
+    let rbacUserId: string | undefined;
+    try {
+      rbacUserId = row.log_comment_json ? (JSON.parse(row.log_comment_json) as { rbac_user_id?: string }).rbac_user_id : undefined;
+    } catch {
+      // Plain-text comment — not a CHouse UI query
+    }
+    if (rbacUserId && !rbacUsers.has(rbacUserId)) {
+      const user = await getUserById(rbacUserId).catch(() => null);
+      rbacUsers.set(rbacUserId, user ? { username: user.username, roles: user.roles } : null);
+    }
+    const rbacUser = rbacUserId ? rbacUsers.get(rbacUserId) : null;
+    queries.push({
+      queryId: row.query_id,
+      user: row.user,
+      query: row.query,
+      elapsedSeconds: num(row.elapsed_seconds),
+      memoryUsage: num(row.memory_usage),
+      readBytes: num(row.read_bytes),
+      rbacUsername: rbacUser?.username,
+      roles: [...(chRoles.get(row.user) ?? []), ...(rbacUser?.roles ?? [])],
+    });
+  }
+  return { client, queries };
+}
+
+/** Record the action against the rule and deliver it to the rule's channels. */
+async function report(
+  rule: GovernorRule,
+  conn: { id: string; name: string },
+  q: GovernedQuery,
+  reason: string,
+  outcome: string,
+): Promise<void> {
+  const node = conn.name;
+  const who = q.rbacUsername ? `${q.user} / ${q.rbacUsername}` : q.user;
+  const sql = q.query.replace(/\s+/g, " ").trim().slice(0, 200);
+  const title = rule.config.dryRun
+    ? `🟠 Query governor (dry run) — ${rule.name}`
+    : `🛑 Query governor — ${rule.name}`;
+  const text = `${node} · query ${q.queryId} by ${who} ${outcome}: ${reason}\n${sql}`;
+
+  // A silence or maintenance window mutes the message; the action still happens.
+  const suppressedBy = await findSuppression({ ruleId: rule.ruleId, severity: rule.severity, connection: conn });
+  const channels = suppressedBy ? [] : await getRuleChannelsDecrypted(rule.ruleId);
+  await Promise.allSettled(
+    channels.map(({ row, config }) =>
+      sendChannelMessage(row.type, config, { title, text, severity: rule.severity }).catch((err) =>
+        logger.error({ module: "QueryGovernor", channel: row.type, name: row.name, err: String(err) }, "Channel delivery failed"),
+      ),
+    ),
+  );
+  await recordEvent({
+    ruleId: rule.ruleId,
+    severity: rule.severity,
+    payload: `${node} — query ${q.queryId} (${who}) ${outcome}: ${reason}`,
+    deliveredTo: channels.map(({ row }) => row.name),
+    connectionId: conn.id,
+    suppressedBy,
+  }).catch((err) => logger.error({ module: "QueryGovernor", err: String(err) }, "Failed to record governor event"));
+}
+
+/**
+ * Check every active connection's running queries against the enabled
+ * governor rules, killing (or, in dry run, reporting) each match. The first
+ * matching rule wins. Called by the fleet poller after each tick; never
+ * throws.
+ */
+export async function governTick(connections: { id: string; name: string }[]): Promise<void> {
+  try {
+    const rules = await loadGovernorRules();
+    if (rules.length === 0) {
+      handled.clear();
+      return;
+    }
+    const needRoles = rules.some((r) => splitList(r.config.exemptRoles).length > 0);
+    const rbacUsers = new Map<string, { username: string; roles: string[] } | null>();
+    const seen = new Set<string>();
+    const polled = new Set<string>();
+
+    for (const conn of connections) {
+      let listed: Awaited<ReturnType<typeof listGovernedQueries>>;
+      try {
+        listed = await listGovernedQueries(conn.id, needRoles, rbacUsers);
+      } catch (err) {
+        logger.warn({ module: "QueryGovernor", connectionId: conn.id, err: String(err) }, "Could not read running queries");
+        continue;
+      }
+      polled.add(conn.id);
+
+      for (const q of listed.queries) {
+        const key = `${conn.id}:${q.queryId}`;
+        seen.add(key);
+        if (handled.has(key)) continue;
+
+        for (const rule of rules) {
+          const reason = matchGovernorRule(q, rule.config);
+          if (!reason) continue;
+          handled.add(key);
+
+          let outcome = "would be killed";
+          if (!rule.config.dryRun) {
+            try {
+              await listed.client.query({
+                query: "KILL QUERY WHERE query_id = {queryId:String}",
+                query_id: governorQueryId(),
+                query_params: { queryId: q.queryId },
+                format: "JSON",
+              });
+              outcome = "killed";
+            } catch (err) {
+              outcome = `could not be killed (${err instanceof Error ? err.message : String(err)})`;
+            }
+          }
+          logger.info(
+            { module: "QueryGovernor", connectionId: conn.id, queryId: q.queryId, ruleId: rule.ruleId, reason, outcome },
+            "Governor rule matched",
+          );
+          await report(rule, conn, q, reason, outcome);
+          break;
+        }
+      }
+    }
+
+    // Forget queries that have left system.processes. A connection that
+    // couldn't be read this tick keeps its entries.
+    for (const key of [...handled]) {
+      if (polled.has(key.slice(0, key.indexOf(":"))) && !seen.has(key)) handled.delete(key);
+    }
+  } catch (err) {
+    logger.error({ module: "QueryGovernor", err: err instanceof Error ? err.message : String(err) }, "governTick failed");
+  }
+}
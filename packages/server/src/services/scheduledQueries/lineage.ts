@@ -12,6 +12,12 @@
  * (`destDatabase.destTable`) — authoritative — and everything else the run read
  * from `system.query_log.tables` is treated as a source. Jobs chain when one
  * job's destination table is another job's source table.
+ *
+ * The job graph is merged with the connection's own lineage (materialized
+ * views, Distributed tables, dictionaries and external INSERT … SELECT — see
+ * ../lineage/connection.ts), so a job chains through MVs too. The same merged
+ * graph, focused on a table instead of a job, backs the Explorer's table
+ * lineage (buildTableLineage).
  */
 
 import type { ClickHouseClient } from "@clickhouse/client";
@@ -20,6 +26,7 @@ import { logger } from "../../utils/logger";
 import { clientForConnection } from "./chClient";
 import { describeDestination } from "./materialize";
 import type { ScheduledQueryRow, SqOutputMode } from "./types";
+import { focusComponent, mergeConnectionLineage, readConnectionLineage } from "../lineage/connection";
 
 // --- response shapes (camelCase; mirrored in src/api/scheduledQueries.ts) ----
 
@@ -31,8 +38,10 @@ export interface LineageTableNode {
   table: string;
   /** Distinct columns observed across all runs that touched this table. */
   columns: string[];
-  /** True when this table is produced by a job in the graph (has an inbound write). */
+  /** True when something in the graph writes this table (has an inbound write). */
   produced: boolean;
+  /** Table engine, set for tables that came from system.tables. */
+  engine?: string;
 }
 
 export interface LineageJobNode {
@@ -51,13 +60,25 @@ export interface LineageJobNode {
 
 export type LineageNode = LineageTableNode | LineageJobNode;
 
+/**
+ * `read` / `write` connect tables and jobs; the rest connect two tables:
+ * a materialized view's source → view → TO target, a Distributed table → its
+ * local table, a dictionary's source table → dictionary, and the tables an
+ * INSERT … SELECT read → the table it wrote.
+ */
+export type LineageEdgeKind = "read" | "write" | "materialized_view" | "distributed" | "dictionary" | "insert";
+
 export interface LineageEdge {
   id: string;
   from: string; // node id
   to: string; // node id
-  kind: "read" | "write";
+  kind: LineageEdgeKind;
   /** Columns observed flowing across this edge (source columns / written columns). */
   columns: string[];
+  /** `insert` edges: matching INSERT queries in the window. */
+  queryCount?: number;
+  /** `insert` edges: ClickHouse users that ran them (up to 10 per query shape). */
+  users?: string[];
 }
 
 export interface LineageGraph {
@@ -69,6 +90,21 @@ export interface LineageGraph {
   edges: LineageEdge[];
   /** Set when the focus job has no runtime observations in the window. */
   note?: string;
+  /** True when the component was cut off at the node limit. */
+  truncated?: boolean;
+}
+
+/** Lineage around one table — the Explorer's view of the same merged graph. */
+export interface TableLineageGraph {
+  /** `db.table` */
+  focusTable: string;
+  connectionId: string;
+  windowDays: number;
+  observedAt: number;
+  nodes: LineageNode[];
+  edges: LineageEdge[];
+  note?: string;
+  truncated?: boolean;
 }
 
 // --- query_log observation --------------------------------------------------
@@ -159,12 +195,12 @@ function columnsForTable(observed: string[], fqtn: string): string[] {
 }
 
 /**
- * Build the full job/table graph for one connection from the observations, then
- * return only the connected component containing the focus job. Restricted to
- * `visibleJobs` so a caller without view_all never sees jobs they can't access.
+ * Build the full job/table graph for one connection from the observations.
+ * Restricted to `visibleJobs` so a caller without view_all never sees jobs
+ * they can't access; `focusJobId` marks the highlighted job, if any.
  */
-export function assembleGraph(
-  focusJob: ScheduledQueryRow,
+function jobGraph(
+  focusJobId: string | null,
   visibleJobs: ScheduledQueryRow[],
   observations: Map<string, JobObservation>,
 ): { nodes: LineageNode[]; edges: LineageEdge[] } {
@@ -207,7 +243,7 @@ export function assembleGraph(
       label: job.name,
       jobId: job.id,
       outputMode: job.outputMode,
-      focus: job.id === focusJob.id,
+      focus: job.id === focusJobId,
       runCount: obs.runCount,
       lastSeen: obs.lastSeen,
     });
@@ -235,37 +271,19 @@ export function assembleGraph(
     }
   }
 
-  // Keep only the connected component containing the focus job (undirected BFS).
-  const focusNodeId = `job:${focusJob.id}`;
-  if (!jobNodes.has(focusNodeId)) return { nodes: [], edges: [] };
-
-  const adjacency = new Map<string, Set<string>>();
-  const link = (a: string, b: string): void => {
-    if (!adjacency.has(a)) adjacency.set(a, new Set());
-    if (!adjacency.has(b)) adjacency.set(b, new Set());
-    adjacency.get(a)!.add(b);
-    adjacency.get(b)!.add(a);
-  };
-  for (const edge of edges.values()) link(edge.from, edge.to);
-
-  const reachable = new Set<string>([focusNodeId]);
-  const queue = [focusNodeId];
-  while (queue.length > 0) {
-    const current = queue.shift()!;
-    for (const next of adjacency.get(current) ?? []) {
-      if (!reachable.has(next)) {
-        reachable.add(next);
-        queue.push(next);
-      }
-    }
-  }
+  return { nodes: [...jobNodes.values(), ...tableNodes.values()], edges: [...edges.values()] };
+}
 
-  const nodes: LineageNode[] = [
-    ...[...jobNodes.values()].filter((node) => reachable.has(node.id)),
-    ...[...tableNodes.values()].filter((node) => reachable.has(node.id)),
-  ];
-  const keptEdges = [...edges.values()].filter((edge) => reachable.has(edge.from) && reachable.has(edge.to));
-  return { nodes, edges: keptEdges };
+/**
+ * The job graph reduced to the connected component containing the focus job.
+ */
+export function assembleGraph(
+  focusJob: ScheduledQueryRow,
+  visibleJobs: ScheduledQueryRow[],
+  observations: Map<string, JobObservation>,
+): { nodes: LineageNode[]; edges: LineageEdge[] } {
+  const { nodes, edges } = focusComponent(jobGraph(focusJob.id, visibleJobs, observations), `job:${focusJob.id}`);
+  return { nodes, edges };
 }
 
 /**
@@ -276,8 +294,9 @@ export function assembleGraph(
  * a table that no longer exists (or can't be introspected) is left as-is.
  */
 async function enrichProducedColumns(client: ClickHouseClient, nodes: LineageNode[], edges: LineageEdge[]): Promise<void> {
+  const written = new Set(edges.filter((edge) => edge.kind === "write").map((edge) => edge.to));
   const produced = nodes.filter(
-    (node): node is LineageTableNode => node.kind === "table" && node.produced && node.columns.length === 0,
+    (node): node is LineageTableNode => node.kind === "table" && written.has(node.id) && node.columns.length === 0,
   );
   await Promise.all(
     produced.map(async (node) => {
@@ -303,8 +322,32 @@ async function enrichProducedColumns(client: ClickHouseClient, nodes: LineageNod
  * tagged. The `source` is deliberately NOT `scheduled_query`, so these reads are
  * never mistaken for job runs by a later lineage observation query.
  */
-function lineageLogComment(actorUserId: string | null, focusJobId: string): string {
-  return JSON.stringify({ rbac_user_id: actorUserId, source: "scheduled_query_lineage", job_id: focusJobId });
+function lineageLogComment(actorUserId: string | null, focusJobId?: string): string {
+  return JSON.stringify({ rbac_user_id: actorUserId, source: "scheduled_query_lineage", ...(focusJobId && { job_id: focusJobId }) });
+}
+
+/**
+ * The job graph for a connection merged with its table lineage. A failed
+ * system.tables read leaves the job graph alone; the note says what's missing.
+ */
+async function mergedGraph(
+  client: ClickHouseClient,
+  focusJobId: string | null,
+  jobs: ScheduledQueryRow[],
+  observations: Map<string, JobObservation>,
+  windowDays: number,
+): Promise<{ nodes: LineageNode[]; edges: LineageEdge[]; note?: string }> {
+  const graph = jobGraph(focusJobId, jobs, observations);
+  try {
+    const lineage = await readConnectionLineage(client, windowDays);
+    return { ...mergeConnectionLineage(graph, lineage), note: lineage.note };
+  } catch (err) {
+    logger.warn(
+      { module: "ScheduledQueries", err: err instanceof Error ? err.message : String(err) },
+      "Lineage system.tables read failed",
+    );
+    return { ...graph, note: "Could not read system.tables; view and dictionary lineage is missing." };
+  }
 }
 
 /**
@@ -343,12 +386,54 @@ export async function buildLineage(
     };
   }
 
-  const { nodes, edges } = assembleGraph(focusJob, sameConnJobs, observations);
+  const merged = await mergedGraph(client, focusJob.id, sameConnJobs, observations, windowDays);
+  const { nodes, edges, truncated } = focusComponent(merged, `job:${focusJob.id}`);
   await enrichProducedColumns(client, nodes, edges);
 
   const note = observations.has(focusJob.id)
-    ? undefined
+    ? merged.note
     : `No runtime observations in the last ${windowDays} day(s). Run this job (or wait for its schedule) to populate lineage.`;
 
-  return { focusJobId: focusJob.id, connectionId: focusJob.connectionId, windowDays, observedAt, nodes, edges, note };
+  return { focusJobId: focusJob.id, connectionId: focusJob.connectionId, windowDays, observedAt, nodes, edges, note, truncated };
+}
+
+/**
+ * Lineage around one table: the same merged graph as buildLineage, focused on
+ * `database.table`. `visibleJobs` is the set of jobs the caller may see (empty
+ * without scheduled_queries:view); only those on `connectionId` are used.
+ */
+export async function buildTableLineage(
+  connectionId: string,
+  database: string,
+  table: string,
+  visibleJobs: ScheduledQueryRow[],
+  windowDays: number,
+  actorUserId: string | null,
+): Promise<TableLineageGraph> {
+  const observedAt = Date.now();
+  const focusTable = `${database}.${table}`;
+  const jobs = visibleJobs.filter((job) => job.connectionId === connectionId);
+  const client = await clientForConnection(connectionId, lineageLogComment(actorUserId));
+
+  let observations = new Map<string, JobObservation>();
+  if (jobs.length > 0) {
+    try {
+      observations = await observeJobs(client, windowDays);
+    } catch (err) {
+      logger.warn(
+        { module: "ScheduledQueries", connectionId, err: err instanceof Error ? err.message : String(err) },
+        "Lineage query_log read failed",
+      );
+    }
+  }
+
+  const merged = await mergedGraph(client, null, jobs, observations, windowDays);
+  const { nodes, edges, truncated } = focusComponent(merged, `table:${focusTable}`);
+  await enrichProducedColumns(client, nodes, edges);
+
+  const note = nodes.length > 0
+    ? merged.note
+    : merged.note ?? `No views, dictionaries, jobs or INSERT … SELECT queries touch ${focusTable} in the last ${windowDays} day(s).`;
+
+  return { focusTable, connectionId, windowDays, observedAt, nodes, edges, note, truncated };
 }
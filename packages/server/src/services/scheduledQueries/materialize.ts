@@ -183,6 +183,8 @@ export interface MaterializeArgs {
   slotAt: number;
   signal: AbortSignal;
   columns: ExpectedColumn[];
+  /** The owner's role quota guardrails, sent with the INSERT … SELECT. */
+  settings?: Record<string, number>;
 }
 
 /**
@@ -191,7 +193,7 @@ export interface MaterializeArgs {
  * staging + atomic REPLACE PARTITION. Returns best-effort `written_rows`.
  */
 export async function executeMaterialize(args: MaterializeArgs): Promise<number | null> {
-  const { client, job, selectSql, params, queryId, slotAt, signal, columns } = args;
+  const { client, job, selectSql, params, queryId, slotAt, signal, columns, settings } = args;
   const database = job.destDatabase!;
   const table = job.destTable!;
   const cfg: OutputConfig = job.outputConfig ?? {};
@@ -210,7 +212,7 @@ export async function executeMaterialize(args: MaterializeArgs): Promise<number
       params,
       queryId,
       signal,
-      settings: { insert_deduplication_token: dedupToken },
+      settings: { ...settings, insert_deduplication_token: dedupToken },
     });
     return readWrittenRows(result);
   }
@@ -226,6 +228,7 @@ export async function executeMaterialize(args: MaterializeArgs): Promise<number
       params,
       queryId,
       signal,
+      settings,
     });
     const written = readWrittenRows(result);
     // Discover the partitions staging produced and atomically swap each into dest.
@@ -1,6 +1,7 @@
 import { describe, expect, it } from "bun:test";
 
-import { chainActionFor } from "./runner";
+import { chainActionFor, clickhouseSettings } from "./runner";
+import type { ScheduledQueryRow } from "./types";
 
 const materializing = { kind: "sql_query", outputMode: "replace" } as const;
 const readOnly = { kind: "sql_query", outputMode: "none" } as const;
@@ -29,3 +30,18 @@ describe("chainActionFor", () => {
     expect(chainActionFor(healthJob, "success", { suppressNotifications: true, chainReplay: true })).toBe("none");
   });
 });
+
+describe("clickhouseSettings", () => {
+  const job = { timeoutSecs: 300, maxRows: 1000, useFinal: false, seqConsistency: false } as ScheduledQueryRow;
+
+  it("keeps the job's caps without an owner quota", () => {
+    expect(clickhouseSettings(job)).toMatchObject({ max_execution_time: 300, max_result_rows: "1001" });
+  });
+
+  it("tightens the job's caps with the owner's stricter guardrails", () => {
+    const settings = clickhouseSettings(job, { max_execution_time: 60, max_memory_usage: 8 * 1024 ** 3, max_bytes_to_read: 5_000 });
+    expect(settings.max_execution_time).toBe(60);
+    expect(settings.max_memory_usage).toBe(4 * 1024 ** 3);
+    expect(settings.max_bytes_to_read).toBe(5_000);
+  });
+});
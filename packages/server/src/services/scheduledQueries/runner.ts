@@ -13,6 +13,7 @@ import type { ClickHouseClient } from "@clickhouse/client";
 import { logger } from "../../utils/logger";
 import { validateQueryAccess } from "../../middleware/dataAccess";
 import { getUserPermissions, getUserRoles } from "../../rbac/services/rbac";
+import { getQueryGuardrails, mergeGuardrailSettings, recordQueryUsage } from "../../rbac/services/queryQuotas";
 import { getConnectionById } from "../../rbac/services/connections";
 import { SYSTEM_ROLES } from "../../rbac/schema/base";
 import { clientForConnection } from "./chClient";
@@ -29,6 +30,7 @@ import { listPromisesByUpstreamJobId } from "../dataHealth/store";
 import type {
   ScheduledQueryRow,
   ScheduledQueryRunRow,
+  SqOutboxPayload,
   SqStatus,
   SqTrigger,
 } from "./types";
@@ -78,7 +80,11 @@ function scheduledLogComment(job: ScheduledQueryRow): string {
   return JSON.stringify({ rbac_user_id: job.createdBy ?? null, source: "scheduled_query", job_id: job.id });
 }
 
-function clickhouseSettings(job: ScheduledQueryRow): Record<string, string | number> {
+/**
+ * Settings for a scheduled SELECT: the job's caps, tightened by the owner's
+ * role quota guardrails where those are stricter.
+ */
+export function clickhouseSettings(job: ScheduledQueryRow, guardrails: Record<string, number> = {}): Record<string, string | number> {
   const settings: Record<string, string | number> = {
     max_execution_time: job.timeoutSecs,
     max_result_rows: String(job.maxRows + 1),
@@ -89,7 +95,7 @@ function clickhouseSettings(job: ScheduledQueryRow): Record<string, string | num
   };
   if (job.useFinal) settings.final = 1;
   if (job.seqConsistency) settings.select_sequential_consistency = 1;
-  return settings;
+  return mergeGuardrailSettings(settings, guardrails);
 }
 
 interface SelectOutcome {
@@ -97,6 +103,7 @@ interface SelectOutcome {
   truncated: boolean;
   snapshot: Array<Record<string, unknown>>;
   columns: Array<{ name: string; type: string }>;
+  bytesRead: number;
 }
 
 async function runSelect(
@@ -106,6 +113,7 @@ async function runSelect(
   params: Record<string, string>,
   runId: string,
   signal: AbortSignal,
+  guardrails: Record<string, number>,
 ): Promise<SelectOutcome> {
   const rs = await client.query({
     query: execSql,
@@ -113,7 +121,7 @@ async function runSelect(
     query_id: runId,
     abort_signal: signal,
     query_params: params,
-    clickhouse_settings: clickhouseSettings(job) as never,
+    clickhouse_settings: clickhouseSettings(job, guardrails) as never,
   });
   const json = (await rs.json()) as {
     data?: Array<Record<string, unknown>>;
@@ -128,18 +136,20 @@ async function runSelect(
   // True result-row count from the summary header when available (counts the
   // pre-'break' result), else fall back to the returned-row count.
   let rowCount = data.length;
+  let bytesRead = 0;
   const headers = (rs as { response_headers?: Record<string, unknown> }).response_headers;
   const rawSummary = headers?.["x-clickhouse-summary"];
   if (typeof rawSummary === "string") {
     try {
-      const summary = JSON.parse(rawSummary) as { result_rows?: string | number };
+      const summary = JSON.parse(rawSummary) as { result_rows?: string | number; read_bytes?: string | number };
       if (summary.result_rows != null) rowCount = Number(summary.result_rows);
+      if (summary.read_bytes != null) bytesRead = Number(summary.read_bytes) || 0;
     } catch {
       /* keep returned-row count */
     }
   }
 
-  return { rowCount, truncated, snapshot, columns: json.meta ?? [] };
+  return { rowCount, truncated, snapshot, columns: json.meta ?? [], bytesRead };
 }
 
 /**
@@ -165,6 +175,8 @@ async function ownerDataAccessDenial(job: ScheduledQueryRow): Promise<string | n
     conn?.database ?? undefined,
     job.connectionId,
   );
+  if (result.allowed && result.columnMasks) return "the query reads tables with masked or denied columns";
+  if (result.allowed && result.rowFilters) return "the query reads tables limited by a row filter";
   return result.allowed ? null : (result.reason ?? "data access denied for one or more tables");
 }
 
@@ -248,6 +260,9 @@ export async function execute(job: ScheduledQueryRow, opts: ExecuteOptions): Pro
   let notified = false;
 
   let client: ClickHouseClient | null = null;
+  // The owner whose daily query budget the run counts towards, once it reaches ClickHouse
+  let budgetOwner: string | null = null;
+  let bytesRead = 0;
   const window = opts.window ?? await resolveWindow(job, opts.slotAt);
   const params = buildParamValues(window);
 
@@ -263,9 +278,17 @@ export async function execute(job: ScheduledQueryRow, opts: ExecuteOptions): Pro
     const denial = await ownerDataAccessDenial(executionJob);
     if (denial) throw new Error(`data access denied: ${denial}`);
 
+    // The owner's role quota applies as it does to their interactive queries;
+    // a used-up daily budget, or a query that changes a locked setting, fails the run.
+    const guardrails = executionJob.createdBy
+      ? (await getQueryGuardrails(executionJob.createdBy, undefined, executionJob.query)).settings
+      : {};
+    budgetOwner = executionJob.createdBy ?? null;
+
     const { sql: execSql } = buildExecutableQuery(executionJob.query);
     if (executionJob.outputMode === "none") {
-      const outcome = await runSelect(client, executionJob, execSql, params, runId, controller.signal);
+      const outcome = await runSelect(client, executionJob, execSql, params, runId, controller.signal, guardrails);
+      bytesRead = outcome.bytesRead;
       rowCount = outcome.rowCount;
       truncated = outcome.truncated;
       resultJson = JSON.stringify({
@@ -297,6 +320,7 @@ export async function execute(job: ScheduledQueryRow, opts: ExecuteOptions): Pro
       }
       writtenRows = await executeMaterialize({
         client, job: executionJob, selectSql: execSql, params, queryId: runId, slotAt: opts.slotAt, signal: controller.signal, columns,
+        settings: guardrails,
       });
       rowCount = writtenRows;
       resultJson = JSON.stringify({
@@ -333,6 +357,16 @@ export async function execute(job: ScheduledQueryRow, opts: ExecuteOptions): Pro
     clearTimeout(timer);
   }
 
+  // Every run that reached ClickHouse counts, failed and cancelled ones too;
+  // only a completed SELECT reports the bytes it read
+  if (budgetOwner) {
+    try {
+      await recordQueryUsage(budgetOwner, bytesRead);
+    } catch (usageError) {
+      logger.warn({ module: "ScheduledQueries", jobId: job.id, runId, err: usageError instanceof Error ? usageError.message : String(usageError) }, "Failed to record query usage");
+    }
+  }
+
   const finishedAt = Date.now();
   if (job.kind === "sql_query" && !opts.suppressNotifications) {
     notified = await maybeEnqueueDeliveries(job, runId, status, message, window);
@@ -455,26 +489,40 @@ async function maybeEnqueueDeliveries(
   const prev = await store.getPreviousTerminalRun(job.id, Date.now());
   const prevBad = prev ? prev.status === "failed" || prev.status === "error" : false;
 
+  if (isBad === prevBad) return false;
+
   const text = notificationText(job, { status, message }, window);
+  const vars: SqOutboxPayload["vars"] = {
+    source: "scheduled_query",
+    rule: job.name,
+    severity: isBad ? "critical" : "info",
+    status: isBad ? status : "recovered",
+    connection: (await getConnectionById(job.connectionId).catch(() => null))?.name ?? job.connectionId,
+    metric: "run status",
+    value: status,
+    summary: message ?? (isBad ? "Run failed" : "Run succeeded again"),
+    runLink: "/dataops/scheduled-queries/jobs",
+    firedAt: new Date().toISOString(),
+  };
 
-  if (isBad && !prevBad) {
+  if (isBad) {
+    const payload: SqOutboxPayload = { title: `🔴 Scheduled Query failed — ${job.name}`, text, channelIds, vars };
     await store.enqueueOutbox({
       runId,
       queryId: job.id,
       kind: "alert",
       dedupKey: `${runId}:alert`,
-      payload: JSON.stringify({ title: `🔴 Scheduled Query failed — ${job.name}`, text, channelIds }),
+      payload: JSON.stringify(payload),
     });
     return true;
   }
-  if (!isBad && prevBad) {
-    await store.enqueueOutbox({
-      runId,
-      queryId: job.id,
-      kind: "recovery",
-      dedupKey: `${runId}:recovery`,
-      payload: JSON.stringify({ title: `🟢 Scheduled Query recovered — ${job.name}`, text, channelIds }),
-    });
-  }
+  const payload: SqOutboxPayload = { title: `🟢 Scheduled Query recovered — ${job.name}`, text, channelIds, vars };
+  await store.enqueueOutbox({
+    runId,
+    queryId: job.id,
+    kind: "recovery",
+    dedupKey: `${runId}:recovery`,
+    payload: JSON.stringify(payload),
+  });
   return false;
 }
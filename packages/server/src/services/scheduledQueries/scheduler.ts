@@ -10,11 +10,13 @@
 import { getChannel, decryptChannelConfig } from "../alerting/store";
 import { isChannelType } from "../alerting/types";
 import { sendChannelMessage } from "../alerting/deliver";
+import { applyTemplate } from "../alerting/template";
 import { logger } from "../../utils/logger";
 import { clientForConnection } from "./chClient";
 import * as store from "./store";
 import { lastScheduledFireMs } from "./cadence";
 import * as runner from "./runner";
+import type { ScheduledQueryRow, SqOutboxPayload } from "./types";
 
 const TICK_INTERVAL_MS = 60_000;
 const MAX_CONCURRENCY = 4;
@@ -22,6 +24,23 @@ const OUTBOX_BATCH = 20;
 const OUTBOX_LEASE_TTL_MS = 5 * 60 * 1000;
 const OUTBOX_MAX_ATTEMPTS = 5;
 
+/**
+ * The latest scheduled slot of each job that hasn't run yet. Also read by the
+ * metrics exporter: how long the oldest of these has waited is the scheduler
+ * lag.
+ */
+export function dueSlots(jobs: ScheduledQueryRow[], now: number): Array<{ job: ScheduledQueryRow; fireAt: number }> {
+  const due: Array<{ job: ScheduledQueryRow; fireAt: number }> = [];
+  for (const job of jobs) {
+    if (job.frequency === "manual" || job.frequency === "event") continue;
+    const fireAt = lastScheduledFireMs(job, now);
+    if (fireAt == null) continue;
+    if (job.lastRunAt >= fireAt) continue; // slot already ran
+    due.push({ job, fireAt });
+  }
+  return due;
+}
+
 export class ScheduledQueryScheduler {
   private static instance: ScheduledQueryScheduler | null = null;
   private timer: NodeJS.Timeout | null = null;
@@ -122,15 +141,7 @@ export class ScheduledQueryScheduler {
 
   private async claimAndRunPass(): Promise<void> {
     const now = Date.now();
-    const jobs = await store.listEnabledJobs();
-    const due: Array<{ job: typeof jobs[number]; fireAt: number }> = [];
-    for (const job of jobs) {
-      if (job.frequency === "manual" || job.frequency === "event") continue;
-      const fireAt = lastScheduledFireMs(job, now);
-      if (fireAt == null) continue;
-      if (job.lastRunAt >= fireAt) continue; // slot already ran
-      due.push({ job, fireAt });
-    }
+    const due = dueSlots(await store.listEnabledJobs(), now);
 
     // Bounded concurrency across the due set.
     let cursor = 0;
@@ -164,8 +175,8 @@ export class ScheduledQueryScheduler {
       const claimed = await store.claimOutboxRow(row.id, runner.RUNNER_ID, Date.now());
       if (!claimed) continue;
       try {
-        const payload = JSON.parse(row.payload) as { title: string; text: string; channelIds: string[] };
-        await this.deliverToChannels(payload.channelIds, payload.title, payload.text);
+        const payload = JSON.parse(row.payload) as SqOutboxPayload;
+        await this.deliverToChannels(payload);
         await store.markOutboxSent(row.id, Date.now());
       } catch (err) {
         logger.warn(
@@ -177,13 +188,18 @@ export class ScheduledQueryScheduler {
     }
   }
 
-  private async deliverToChannels(channelIds: string[], title: string, text: string): Promise<void> {
-    for (const channelId of channelIds) {
+  /** Send to each channel, through the channel's message template when it has one. */
+  private async deliverToChannels(payload: SqOutboxPayload): Promise<void> {
+    const { title, text, vars } = payload;
+    for (const channelId of payload.channelIds) {
       const channel = await getChannel(channelId);
       if (!channel || !channel.enabled || !isChannelType(channel.type)) continue;
       const stored = JSON.parse(channel.config) as Record<string, unknown>;
       const config = decryptChannelConfig(channel.type, stored);
-      await sendChannelMessage(channel.type, config, { title, text });
+      const message = vars && channel.messageTemplate
+        ? applyTemplate(channel.messageTemplate, { ...vars, title, text })
+        : { title, text };
+      await sendChannelMessage(channel.type, config, message);
     }
   }
 }
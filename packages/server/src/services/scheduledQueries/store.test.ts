@@ -81,3 +81,20 @@ describe("scheduled queries overview connection scope", () => {
     expect(empty.kpis.totalJobs).toBe(0);
   });
 });
+
+describe("scheduled queries outbox backlog", () => {
+  it("counts undelivered rows by status", async () => {
+    const id = await store.createJob(jobInput("notifier", "connection-1"), "owner-1");
+    for (const key of ["a", "b", "c"]) {
+      await store.insertRun({ id: `run-${key}`, queryId: id, trigger: "scheduled", slotAt: 1_000, attempt: 1, runnerId: "test", deadline: 2_000, startedAt: 1_000 });
+      await store.enqueueOutbox({ runId: `run-${key}`, queryId: id, kind: "alert", dedupKey: key, payload: "{}" });
+    }
+    const [first, second] = await store.listClaimableOutbox(2);
+    await store.claimOutboxRow(first.id, "pod-1", Date.now());
+    await store.claimOutboxRow(second.id, "pod-1", Date.now());
+    await store.markOutboxSent(second.id, Date.now());
+
+    const backlog = Object.fromEntries((await store.countOutboxBacklog()).map((b) => [b.status, b.count]));
+    expect(backlog).toEqual({ pending: 1, sending: 1 });
+  });
+});
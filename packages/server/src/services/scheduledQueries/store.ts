@@ -542,6 +542,14 @@ export async function reapStuckSending(olderThan: number): Promise<void> {
   `);
 }
 
+/** Undelivered outbox rows by status (pending / sending), for the metrics exporter. */
+export async function countOutboxBacklog(): Promise<Array<{ status: string; count: number }>> {
+  const rows = await all(sql`
+    SELECT status, COUNT(*) AS c FROM scheduled_query_outbox WHERE status != 'sent' GROUP BY status
+  `);
+  return rows.map((r) => ({ status: String(r.status), count: Number(r.c ?? 0) }));
+}
+
 // --- overview aggregation ---------------------------------------------------
 
 export interface OverviewKpis {
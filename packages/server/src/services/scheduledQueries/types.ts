@@ -8,6 +8,8 @@
 
 import { z } from "zod";
 
+import type { AlertTemplateVars } from "../alerting/template";
+
 // --- enums ------------------------------------------------------------------
 
 export type SqKind = "sql_query" | "data_health_check";
@@ -125,6 +127,18 @@ export interface ScheduledQueryOutboxRow {
   sentAt: number | null;
 }
 
+/**
+ * An outbox row's JSON payload: the built-in message and its channels, plus the
+ * variables a channel's message template can use (absent on rows enqueued
+ * before templates existed).
+ */
+export interface SqOutboxPayload {
+  title: string;
+  text: string;
+  channelIds: string[];
+  vars?: Omit<AlertTemplateVars, "title" | "text">;
+}
+
 // --- type guards ------------------------------------------------------------
 
 export function isFrequency(v: unknown): v is SqFrequency {
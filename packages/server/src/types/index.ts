@@ -71,10 +71,13 @@ export interface QueryResult<T = Record<string, unknown>> {
 
 export interface TableInfo {
   name: string;
-  type: "table" | "view";
-  rows?: string; // Formatted row count (e.g., "1.2M")
-  size?: string; // Formatted size (e.g., "500 MB")
+  type: "table" | "view" | "dictionary";
+  rows?: string; // Formatted row count (e.g., "1.2M"); element count for dictionaries
+  size?: string; // Formatted size (e.g., "500 MB"); memory allocated for dictionaries
   engine?: string; // Table engine type
+  status?: string; // Dictionary load status (LOADED, FAILED, …)
+  lastSuccessfulUpdate?: string; // Dictionary last successful load, 'YYYY-MM-DD HH:MM:SS'
+  lastException?: string; // Dictionary last loading error
 }
 
 export interface DatabaseInfo {
@@ -223,6 +226,33 @@ export interface DdlImpactEstimate {
   disk_sufficient: boolean;
 }
 
+/** A mutation targeted by KILL MUTATION: its identity plus what the audit log records. */
+export interface MutationTarget {
+  database: string;
+  table: string;
+  mutation_id: string;
+}
+
+/**
+ * Outcome of KILL MUTATION. `hosts` lists the hosts the statement ran on —
+ * just the connected server, or every host of `cluster` when run ON CLUSTER.
+ */
+export interface MutationKillResult extends MutationTarget {
+  cluster: string | null;
+  command: string | null;
+  hosts: string[];
+}
+
+/** A dictionary's load state, as system.dictionaries reports it after a reload. */
+export interface DictionaryReloadResult {
+  /** Empty for dictionaries defined in server config. */
+  database: string;
+  name: string;
+  status: string;
+  element_count: number;
+  last_exception: string;
+}
+
 export interface ReplicationMetrics {
   database: string;
   table: string;
@@ -500,6 +530,10 @@ export class AppError extends Error {
     return new AppError(message, "SERVICE_UNAVAILABLE", "timeout", 503);
   }
 
+  static tooManyRequests(message: string, details?: unknown): AppError {
+    return new AppError(message, "TOO_MANY_REQUESTS", "permission", 429, details);
+  }
+
   toJSON() {
     return {
       id: this.id,
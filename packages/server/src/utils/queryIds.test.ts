@@ -0,0 +1,20 @@
+import { describe, it, expect } from "bun:test";
+import { GOVERNOR_QUERY_ID_PREFIX, clientQueryIdSchema, governorQueryId } from "./queryIds";
+
+describe("Query ID Utils", () => {
+    it("should generate distinct governor IDs under the reserved prefix", () => {
+        const first = governorQueryId();
+        expect(first.startsWith(GOVERNOR_QUERY_ID_PREFIX)).toBe(true);
+        expect(governorQueryId()).not.toBe(first);
+    });
+
+    it("should accept client IDs outside the reserved prefix", () => {
+        expect(clientQueryIdSchema.safeParse(undefined).success).toBe(true);
+        expect(clientQueryIdSchema.safeParse("query_1718000000_abc").success).toBe(true);
+    });
+
+    it("should reject client IDs that would hide a query from the governor", () => {
+        const result = clientQueryIdSchema.safeParse(`${GOVERNOR_QUERY_ID_PREFIX}spoofed`);
+        expect(result.success).toBe(false);
+    });
+});
@@ -0,0 +1,24 @@
+/**
+ * Query IDs reserved for the server's own ClickHouse queries.
+ *
+ * The query governor tags every query it runs with a generated ID and skips
+ * running queries carrying its prefix, so it never acts on itself. Client
+ * supplied IDs may not use the prefix — otherwise any query could opt out of
+ * the governor.
+ */
+
+import { randomUUID } from "crypto";
+import { z } from "zod";
+
+export const GOVERNOR_QUERY_ID_PREFIX = "chouse_governor_";
+
+/** A fresh query ID for one of the governor's own queries. */
+export function governorQueryId(): string {
+  return `${GOVERNOR_QUERY_ID_PREFIX}${randomUUID()}`;
+}
+
+/** Optional `queryId` accepted from clients; reserved prefixes are rejected. */
+export const clientQueryIdSchema = z
+  .string()
+  .refine((id) => !id.startsWith(GOVERNOR_QUERY_ID_PREFIX), "Query ID uses a reserved prefix")
+  .optional();
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "bun:test";
+import {
+    extractQueryPlaceholders,
+    assertQueryParamsProvided,
+    substituteQueryParamsForValidation,
+} from "./queryParams";
+
+describe("Query Parameter Utils", () => {
+    describe("extractQueryPlaceholders", () => {
+        it("should return distinct placeholders in order of first use", () => {
+            const sql = "SELECT * FROM t WHERE d >= {from:Date} AND d < {to: Date} AND id IN {ids:Array(UInt64)} OR d = {from:Date}";
+            expect(extractQueryPlaceholders(sql)).toEqual([
+                { name: "from", type: "Date" },
+                { name: "to", type: "Date" },
+                { name: "ids", type: "Array(UInt64)" },
+            ]);
+        });
+
+        it("should ignore map literals and plain braces", () => {
+            expect(extractQueryPlaceholders("SELECT map('a', 1), {'k': 1}, '{}'")).toEqual([]);
+        });
+
+        it("should skip placeholder-like text in string literals and comments", () => {
+            const sql = "SELECT '{x:String}', 'it''s {y:UInt8}', \"{q:String}\" -- {z:Date}\nFROM t /* {w:UInt8} */ WHERE id = {id:UInt64}";
+            expect(extractQueryPlaceholders(sql)).toEqual([{ name: "id", type: "UInt64" }]);
+            expect(() => assertQueryParamsProvided(sql, { id: "1" })).not.toThrow();
+        });
+    });
+
+    describe("assertQueryParamsProvided", () => {
+        it("should pass when every placeholder has a value", () => {
+            expect(() => assertQueryParamsProvided("SELECT {a:UInt8}", { a: "1" })).not.toThrow();
+            expect(() => assertQueryParamsProvided("SELECT 1")).not.toThrow();
+        });
+
+        it("should list missing parameters", () => {
+            expect(() => assertQueryParamsProvided("SELECT {a:UInt8}, {b:String}", { a: "1" }))
+                .toThrow("Missing value for query parameter(s): b");
+        });
+    });
+
+    describe("substituteQueryParamsForValidation", () => {
+        it("should quote Identifier values so table checks still apply", () => {
+            expect(substituteQueryParamsForValidation("SELECT * FROM {t:Identifier}", { t: "db.events" }))
+                .toBe("SELECT * FROM `db`.`events`");
+        });
+
+        it("should escape backticks in Identifier values", () => {
+            expect(substituteQueryParamsForValidation("SELECT * FROM {t:Identifier}", { t: "a`b" }))
+                .toBe("SELECT * FROM `a``b`");
+        });
+
+        it("should replace value placeholders with NULL", () => {
+            expect(substituteQueryParamsForValidation("SELECT * FROM t WHERE id = {id:UInt64}", { id: "1; DROP TABLE t" }))
+                .toBe("SELECT * FROM t WHERE id = NULL");
+        });
+
+        it("should leave string literals and comments untouched", () => {
+            expect(substituteQueryParamsForValidation("SELECT '{x:String}' -- {t:Identifier}\nFROM {t:Identifier}", { t: "events" }))
+                .toBe("SELECT '{x:String}' -- {t:Identifier}\nFROM `events`");
+        });
+    });
+});
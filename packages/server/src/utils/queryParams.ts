@@ -0,0 +1,77 @@
+/**
+ * ClickHouse Query Parameter Utilities
+ *
+ * Handles the native `{name:Type}` placeholder syntax. Values are never
+ * interpolated into the executed SQL — they travel separately as
+ * `query_params` and ClickHouse binds them server-side. The helpers here only
+ * exist so that access validation sees what the query will actually touch.
+ */
+
+import { AppError } from "../types";
+
+/**
+ * Matches `{name:Type}` — the type may itself contain parentheses, e.g.
+ * `Array(String)`. Quoted strings, quoted identifiers and comments are matched
+ * first (without capture groups) so placeholder-like text inside them is skipped.
+ */
+const PLACEHOLDER_REGEX =
+  /'(?:[^'\\]|\\[\s\S])*'|"(?:[^"\\]|\\[\s\S])*"|`(?:[^`\\]|\\[\s\S])*`|--[^\n]*|\/\*[\s\S]*?\*\/|\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*:\s*([^{}]+?)\s*\}/g;
+
+export interface QueryPlaceholder {
+  name: string;
+  type: string;
+}
+
+/**
+ * Extract the distinct placeholders used in a query, in order of first use.
+ */
+export function extractQueryPlaceholders(sql: string): QueryPlaceholder[] {
+  const seen = new Map<string, QueryPlaceholder>();
+  for (const match of sql.matchAll(PLACEHOLDER_REGEX)) {
+    const [, name, type] = match;
+    if (name !== undefined && !seen.has(name)) {
+      seen.set(name, { name, type });
+    }
+  }
+  return [...seen.values()];
+}
+
+/**
+ * Ensure every placeholder in the query has a value.
+ *
+ * @throws AppError.badRequest listing the missing parameter names
+ */
+export function assertQueryParamsProvided(sql: string, params: Record<string, string> = {}): void {
+  const missing = extractQueryPlaceholders(sql)
+    .filter(p => params[p.name] === undefined)
+    .map(p => p.name);
+
+  if (missing.length > 0) {
+    throw AppError.badRequest(`Missing value for query parameter(s): ${missing.join(", ")}`);
+  }
+}
+
+/**
+ * Produce the SQL used for access validation only.
+ *
+ * `Identifier` parameters name tables/columns, so they are substituted with the
+ * quoted value — otherwise `SELECT * FROM {t:Identifier}` would bypass table
+ * checks. Every other placeholder is a value and becomes `NULL`, which keeps
+ * the statement parseable without affecting which objects it references.
+ */
+export function substituteQueryParamsForValidation(sql: string, params: Record<string, string> = {}): string {
+  return sql.replace(PLACEHOLDER_REGEX, (match, name: string | undefined, type: string | undefined) => {
+    if (name === undefined || type === undefined) {
+      return match;
+    }
+    if (type.trim() !== "Identifier") {
+      return "NULL";
+    }
+    const value = params[name] ?? "";
+    // ClickHouse accepts `db.table` for a single Identifier parameter
+    return value
+      .split(".")
+      .map(part => `\`${part.replace(/`/g, "``")}\``)
+      .join(".");
+  });
+}
@@ -8,6 +8,9 @@ import FleetPage from "@/pages/Fleet";
 import DoctorPage from "@/pages/Doctor";
 import MonitoringPage from "@/pages/Monitoring";
 import DataOpsPage from "@/pages/DataOps";
+import DashboardsPage from "@/pages/Dashboards";
+import ChangeRequestsPage from "@/pages/ChangeRequests";
+import BackupsPage from "@/pages/Backups";
 import PreferencesPage from "@/pages/Preferences";
 import { DefaultRedirect } from "@/components/common/DefaultRedirect";
 import { ThemeProvider } from "@/components/common/theme-provider";
@@ -226,6 +229,36 @@ export default function App() {
                 }
               />
 
+              {/* Dashboards - Grids of saved-query tiles with shared parameters */}
+              <Route
+                path="/dashboards/:dashboardId?"
+                element={
+                  <AdminRoute requiredPermission={RBAC_PERMISSIONS.DASHBOARDS_VIEW}>
+                    <DashboardsPage />
+                  </AdminRoute>
+                }
+              />
+
+              {/* Change Requests - Approval queue for protected connections */}
+              <Route
+                path="/change-requests/:requestId?"
+                element={
+                  <PrivateRoute>
+                    <ChangeRequestsPage />
+                  </PrivateRoute>
+                }
+              />
+
+              {/* Backups - BACKUP/RESTORE over system.backups, plus schedules */}
+              <Route
+                path="/backups"
+                element={
+                  <AdminRoute requiredPermission={RBAC_PERMISSIONS.BACKUPS_VIEW}>
+                    <BackupsPage />
+                  </AdminRoute>
+                }
+              />
+
               {/* Explorer */}
               <Route
                 path="/explorer"
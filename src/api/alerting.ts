@@ -15,12 +15,21 @@ export enum ChannelType {
   GoogleChat = "google_chat",
   Email = "email",
   Webhook = "webhook",
+  Teams = "teams",
+  PagerDuty = "pagerduty",
+  Opsgenie = "opsgenie",
+  Discord = "discord",
+  Telegram = "telegram",
 }
 
 /** What produced an alert rule (mirror of the server enum). */
 export enum AlertSourceType {
   FleetThreshold = "fleet_threshold",
   DataQuality = "data_quality",
+  QueryGovernor = "query_governor",
+  BackupFailure = "backup_failure",
+  DictionaryHealth = "dictionary_health",
+  CustomSql = "custom_sql",
 }
 
 /** Alert severity (mirror of the server enum). */
@@ -39,6 +48,8 @@ export interface NotificationChannel {
   config: Record<string, unknown>;
   /** Which secret fields are currently set on the server. */
   configured: Record<string, boolean>;
+  /** Message template for this channel's notifications; null = built-in text. */
+  messageTemplate: string | null;
   createdAt: number;
   updatedAt: number;
 }
@@ -49,6 +60,8 @@ export interface ChannelInput {
   enabled: boolean;
   /** Plaintext config; omit a secret field (or leave blank) to keep the existing value. */
   config: Record<string, unknown>;
+  /** Blank or null clears the template; omit to keep it. */
+  messageTemplate?: string | null;
 }
 
 export interface AlertRule {
@@ -61,6 +74,16 @@ export interface AlertRule {
   aiRcaModelId: string | null;
   config: Record<string, unknown>;
   channelIds: string[];
+  /** Re-notify these channels while a breach stays open and unacknowledged. */
+  escalation: EscalationStep[];
+  /** Message template; wins over the channels' templates. null = built-in text. */
+  messageTemplate: string | null;
+}
+
+export interface EscalationStep {
+  /** Minutes after the alert first fired. */
+  afterMinutes: number;
+  channelIds: string[];
 }
 
 export interface AlertEvent {
@@ -71,6 +94,137 @@ export interface AlertEvent {
   payload: string | null;
   deliveredTo: string[];
   resolvedAt: number | null;
+  connectionId: string | null;
+  acknowledgedAt: number | null;
+  acknowledgedBy: string | null;
+  escalationLevel: number;
+  /** Silence or maintenance window that muted delivery ("silence: name"). */
+  suppressedBy: string | null;
+}
+
+/** Which alerts a silence or maintenance window mutes; null matches anything. */
+export interface AlertScope {
+  ruleId: string | null;
+  /** Connection name or id. */
+  connection: string | null;
+  severity: AlertSeverity | null;
+}
+
+export interface AlertSilence extends AlertScope {
+  id: string;
+  name: string;
+  startsAt: number;
+  endsAt: number;
+  comment: string | null;
+  createdBy: string | null;
+  createdAt: number;
+}
+
+export interface SilenceInput extends AlertScope {
+  name: string;
+  startsAt: number;
+  endsAt: number;
+  comment: string | null;
+}
+
+export interface MaintenanceWindow extends AlertScope {
+  id: string;
+  name: string;
+  cronExpr: string;
+  durationMinutes: number;
+  timezone: string;
+  enabled: boolean;
+  createdBy: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface MaintenanceWindowInput extends AlertScope {
+  name: string;
+  cronExpr: string;
+  durationMinutes: number;
+  timezone: string;
+  enabled: boolean;
+}
+
+export type AlertIncidentStatus = "open" | "acknowledged" | "snoozed" | "resolved";
+
+/** A fleet breach being worked on: opened when it fires, resolved when it clears. */
+export interface AlertIncident {
+  id: string;
+  dedupKey: string;
+  ruleId: string | null;
+  connectionId: string | null;
+  severity: AlertSeverity;
+  status: AlertIncidentStatus;
+  summary: string;
+  openedAt: number;
+  acknowledgedBy: string | null;
+  acknowledgedAt: number | null;
+  snoozedUntil: number | null;
+  /** Null when the breach cleared on its own. */
+  resolvedBy: string | null;
+  resolvedAt: number | null;
+  lastEventAt: number;
+}
+
+/** Timeline entry: opened, refired, acknowledged, snoozed, note or resolved. */
+export interface AlertIncidentEvent {
+  id: string;
+  incidentId: string;
+  type: string;
+  actorId: string | null;
+  payload: Record<string, unknown> | null;
+  createdAt: number;
+}
+
+export interface AlertIncidentDetail {
+  incident: AlertIncident;
+  events: AlertIncidentEvent[];
+  /** Display names keyed by user id. */
+  actors: Record<string, string>;
+}
+
+export type DigestFrequency = "daily" | "weekly" | "monthly" | "cron";
+
+/** A scheduled operational digest: the last `windowDays` summarised on a cadence. */
+export interface OpsDigest {
+  id: string;
+  name: string;
+  windowDays: number;
+  frequency: DigestFrequency;
+  hour: number;
+  dayOfWeek: number;
+  dayOfMonth: number;
+  cronExpr: string | null;
+  timezone: string;
+  channelIds: string[];
+  enabled: boolean;
+  lastSentAt: number | null;
+  /** Channels or recipients that failed on the last send. */
+  lastError: string | null;
+  subscriberCount: number;
+  /** Whether the current user opted in to the email. */
+  subscribed: boolean;
+  nextRuns: number[];
+}
+
+export interface DigestInput {
+  name: string;
+  windowDays: number;
+  frequency: DigestFrequency;
+  hour: number;
+  dayOfWeek: number;
+  dayOfMonth: number;
+  cronExpr: string | null;
+  timezone: string;
+  channelIds: string[];
+  enabled: boolean;
+}
+
+export interface DigestSendResult {
+  delivered: string[];
+  failures: string[];
 }
 
 // --- channels ---------------------------------------------------------------
@@ -110,6 +264,7 @@ export interface RuleInput {
   aiRcaModelId?: string | null;
   config: Record<string, unknown>;
   channelIds: string[];
+  messageTemplate?: string | null;
 }
 
 export function updateRule(id: string, input: RuleInput): Promise<void> {
@@ -137,16 +292,154 @@ export function clearEvents(before?: number): Promise<void> {
   return api.delete<void>(`/alerting/events${qs}`);
 }
 
+/** Acknowledge an alert so it stops escalating. */
+export function acknowledgeEvent(id: string): Promise<void> {
+  return api.post<void>(`/alerting/events/${id}/acknowledge`);
+}
+
+/** Replace a rule's escalation steps; an empty list turns escalation off. */
+export function setRuleEscalation(id: string, steps: EscalationStep[]): Promise<void> {
+  return api.put<void>(`/alerting/rules/${id}/escalation`, { steps });
+}
+
+// --- silences + maintenance windows -----------------------------------------
+
+export function listSilences(): Promise<AlertSilence[]> {
+  return api.get<AlertSilence[]>("/alerting/silences");
+}
+
+export function createSilence(input: SilenceInput): Promise<{ id: string }> {
+  return api.post<{ id: string }>("/alerting/silences", input);
+}
+
+export function updateSilence(id: string, input: SilenceInput): Promise<void> {
+  return api.put<void>(`/alerting/silences/${id}`, input);
+}
+
+export function deleteSilence(id: string): Promise<void> {
+  return api.delete<void>(`/alerting/silences/${id}`);
+}
+
+export function listMaintenanceWindows(): Promise<MaintenanceWindow[]> {
+  return api.get<MaintenanceWindow[]>("/alerting/maintenance-windows");
+}
+
+export function createMaintenanceWindow(input: MaintenanceWindowInput): Promise<{ id: string }> {
+  return api.post<{ id: string }>("/alerting/maintenance-windows", input);
+}
+
+export function updateMaintenanceWindow(id: string, input: MaintenanceWindowInput): Promise<void> {
+  return api.put<void>(`/alerting/maintenance-windows/${id}`, input);
+}
+
+export function deleteMaintenanceWindow(id: string): Promise<void> {
+  return api.delete<void>(`/alerting/maintenance-windows/${id}`);
+}
+
+// --- incidents --------------------------------------------------------------
+
+export function listIncidents(status: "active" | "all" = "active", limit = 50): Promise<AlertIncident[]> {
+  return api.get<AlertIncident[]>(`/alerting/incidents?status=${status}&limit=${limit}`);
+}
+
+export function getIncident(id: string): Promise<AlertIncidentDetail> {
+  return api.get<AlertIncidentDetail>(`/alerting/incidents/${id}`);
+}
+
+export function acknowledgeIncident(id: string): Promise<AlertIncident> {
+  return api.post<AlertIncident>(`/alerting/incidents/${id}/acknowledge`);
+}
+
+/** Snooze until `until` (epoch ms); escalation holds until then. */
+export function snoozeIncident(id: string, until: number): Promise<AlertIncident> {
+  return api.post<AlertIncident>(`/alerting/incidents/${id}/snooze`, { until });
+}
+
+export function resolveIncident(id: string): Promise<AlertIncident> {
+  return api.post<AlertIncident>(`/alerting/incidents/${id}/resolve`);
+}
+
+export function addIncidentNote(id: string, text: string): Promise<void> {
+  return api.post<void>(`/alerting/incidents/${id}/notes`, { text });
+}
+
+// --- digests ----------------------------------------------------------------
+
+export function listDigests(): Promise<OpsDigest[]> {
+  return api.get<OpsDigest[]>("/alerting/digests");
+}
+
+export function createDigest(input: DigestInput): Promise<OpsDigest> {
+  return api.post<OpsDigest>("/alerting/digests", input);
+}
+
+export function updateDigest(id: string, input: DigestInput): Promise<OpsDigest> {
+  return api.put<OpsDigest>(`/alerting/digests/${id}`, input);
+}
+
+export function deleteDigest(id: string): Promise<void> {
+  return api.delete<void>(`/alerting/digests/${id}`);
+}
+
+/** The message the digest would send right now. */
+export function previewDigest(id: string): Promise<{ title: string; text: string }> {
+  return api.get<{ title: string; text: string }>(`/alerting/digests/${id}/preview`);
+}
+
+export function sendDigest(id: string): Promise<DigestSendResult> {
+  return api.post<DigestSendResult>(`/alerting/digests/${id}/send`);
+}
+
+/** Opt the current user in to (or out of) the digest email. */
+export function setDigestSubscription(id: string, subscribed: boolean): Promise<void> {
+  return api.put<void>(`/alerting/digests/${id}/subscription`, { subscribed });
+}
+
+// --- message templates ------------------------------------------------------
+
+/** Which sample event a template preview renders against (mirror of the server). */
+export type TemplateSource = "fleet" | "scheduled_query" | "data_health";
+
+/** Variables a message template can use (mirror of the server list). */
+export const TEMPLATE_VARIABLES: Array<{ name: string; description: string }> = [
+  { name: "title", description: "Built-in title" },
+  { name: "text", description: "Built-in message body" },
+  { name: "source", description: "fleet, scheduled_query or data_health" },
+  { name: "rule", description: "Rule, job or promise name" },
+  { name: "severity", description: "info, warning or critical" },
+  { name: "status", description: "firing, recovered, or the run/incident state" },
+  { name: "connection", description: "Connection name" },
+  { name: "metric", description: "What was measured" },
+  { name: "value", description: "Observed value" },
+  { name: "threshold", description: "Configured threshold" },
+  { name: "summary", description: "One-line summary" },
+  { name: "user", description: "ClickHouse user behind the breach" },
+  { name: "topQuery", description: "Top offending query" },
+  { name: "runLink", description: "Link to the run, incident or page" },
+  { name: "firedAt", description: "When it fired (ISO 8601)" },
+];
+
+export type TemplatePreview =
+  | { valid: true; title: string; text: string }
+  | { valid: false; error: string };
+
+/** Render a template against a sample event of `source`. */
+export function previewTemplate(template: string, source: TemplateSource): Promise<TemplatePreview> {
+  return api.post<TemplatePreview>("/alerting/templates/preview", { template, source });
+}
+
 // --- per-type config field metadata (drives the dynamic forms) --------------
 
 export interface ChannelFieldSpec {
   key: string;
   label: string;
   /** input kind */
-  kind: "text" | "url" | "number" | "password" | "boolean" | "email";
+  kind: "text" | "url" | "number" | "password" | "boolean" | "email" | "select";
   secret?: boolean;
   required?: boolean;
   placeholder?: string;
+  /** select fields: the allowed values, the first being the default */
+  options?: { value: string; label: string }[];
 }
 
 /** Field specs per channel type — the UI renders these dynamically. */
@@ -170,6 +463,31 @@ export const CHANNEL_FIELD_SPECS: Record<ChannelType, ChannelFieldSpec[]> = {
     { key: "from", label: "From (optional)", kind: "email", placeholder: "defaults to username" },
     { key: "to", label: "Recipient(s)", kind: "text", required: true, placeholder: "oncall@example.com" },
   ],
+  [ChannelType.Teams]: [
+    { key: "webhookUrl", label: "Webhook URL", kind: "url", secret: true, required: true, placeholder: "https://….webhook.office.com/… or a Workflows URL" },
+  ],
+  [ChannelType.PagerDuty]: [
+    { key: "routingKey", label: "Integration key", kind: "password", secret: true, required: true, placeholder: "Events API v2 routing key" },
+  ],
+  [ChannelType.Opsgenie]: [
+    { key: "apiKey", label: "API key", kind: "password", secret: true, required: true, placeholder: "API integration key" },
+    {
+      key: "region",
+      label: "Region",
+      kind: "select",
+      options: [
+        { value: "us", label: "US (api.opsgenie.com)" },
+        { value: "eu", label: "EU (api.eu.opsgenie.com)" },
+      ],
+    },
+  ],
+  [ChannelType.Discord]: [
+    { key: "webhookUrl", label: "Webhook URL", kind: "url", secret: true, required: true, placeholder: "https://discord.com/api/webhooks/…" },
+  ],
+  [ChannelType.Telegram]: [
+    { key: "botToken", label: "Bot token", kind: "password", secret: true, required: true, placeholder: "123456:ABC-DEF… from @BotFather" },
+    { key: "chatId", label: "Chat id", kind: "text", required: true, placeholder: "-1001234567890 or @channelname" },
+  ],
 };
 
 export const CHANNEL_TYPE_LABELS: Record<ChannelType, string> = {
@@ -177,6 +495,11 @@ export const CHANNEL_TYPE_LABELS: Record<ChannelType, string> = {
   [ChannelType.GoogleChat]: "Google Chat",
   [ChannelType.Email]: "Email",
   [ChannelType.Webhook]: "Webhook",
+  [ChannelType.Teams]: "Microsoft Teams",
+  [ChannelType.PagerDuty]: "PagerDuty",
+  [ChannelType.Opsgenie]: "Opsgenie",
+  [ChannelType.Discord]: "Discord",
+  [ChannelType.Telegram]: "Telegram",
 };
 
 // --- per-source-type rule config metadata (drives the dynamic rule form) -----
@@ -184,10 +507,16 @@ export const CHANNEL_TYPE_LABELS: Record<ChannelType, string> = {
 export interface RuleFieldSpec {
   key: string;
   label: string;
-  kind: "number";
-  min: number;
-  max: number;
+  /** input kind; number fields are thresholds where 0 = off unless the source type says otherwise */
+  kind: "number" | "text" | "boolean" | "sql" | "select";
+  min?: number;
+  max?: number;
+  /** number fields: input step; a fractional step keeps decimals instead of rounding */
+  step?: number;
+  /** select fields: the allowed values, the first being the default */
+  options?: { value: string; label: string }[];
   hint?: string;
+  placeholder?: string;
 }
 
 /** Config field specs per rule source type — the rule form renders these. */
@@ -197,22 +526,85 @@ export const RULE_SOURCE_FIELD_SPECS: Record<AlertSourceType, RuleFieldSpec[]> =
     { key: "queryMemoryGb", label: "Query GB", kind: "number", min: 0, max: 1024 },
     { key: "longQueryMin", label: "Query min", kind: "number", min: 0, max: 1440 },
     { key: "partsEtaMin", label: "Parts ETA min", kind: "number", min: 0, max: 1440 },
+    { key: "diskFullDays", label: "Disk full days", kind: "number", min: 0, max: 365, hint: "Fires when a disk's projected fill date is within this many days" },
   ],
   // Data-quality rules are not evaluated yet — kept here so the form/labels are
   // ready when they land. Not offered in the type picker until supported.
   [AlertSourceType.DataQuality]: [],
+  [AlertSourceType.QueryGovernor]: [
+    { key: "memoryGb", label: "Memory GB", kind: "number", min: 0, max: 1024 },
+    { key: "durationMin", label: "Duration min", kind: "number", min: 0, max: 1440 },
+    { key: "readGb", label: "Read GB", kind: "number", min: 0, max: 102400 },
+    { key: "users", label: "Users", kind: "text", placeholder: "all users", hint: "Comma-separated ClickHouse or CHouse UI user names" },
+    { key: "exemptRoles", label: "Exempt roles", kind: "text", placeholder: "none", hint: "Queries from these roles are never killed" },
+    { key: "queryPattern", label: "Query pattern", kind: "text", placeholder: "any query", hint: "Case-insensitive regular expression" },
+    { key: "dryRun", label: "Dry run — report matches without killing", kind: "boolean" },
+  ],
+  [AlertSourceType.BackupFailure]: [
+    { key: "connections", label: "Connections", kind: "text", placeholder: "all connections", hint: "Comma-separated connection names or ids" },
+  ],
+  [AlertSourceType.DictionaryHealth]: [
+    { key: "staleMinutes", label: "Stale min", kind: "number", min: 0, max: 10080, hint: "Minutes since the last successful load" },
+    { key: "connections", label: "Connections", kind: "text", placeholder: "all connections", hint: "Comma-separated connection names or ids" },
+    { key: "dictionaries", label: "Dictionaries", kind: "text", placeholder: "all dictionaries", hint: "Comma-separated db.name (bare name for config dictionaries)" },
+    { key: "failed", label: "Alert when a load or reload fails", kind: "boolean" },
+  ],
+  [AlertSourceType.CustomSql]: [
+    { key: "threshold", label: "Threshold", kind: "number", min: -1e15, max: 1e15, step: 0.01 },
+    { key: "hysteresis", label: "Clear margin", kind: "number", min: 0, max: 1e15, step: 0.01 },
+    { key: "intervalMinutes", label: "Every min", kind: "number", min: 1, max: 1440 },
+    { key: "connection", label: "Connection", kind: "text", placeholder: "connection name or id", hint: "The query runs here with read-only settings" },
+    { key: "query", label: "Query", kind: "sql", placeholder: "SELECT database, count() AS broken FROM system.replicas WHERE is_readonly GROUP BY database", hint: "A single read-only SELECT over tables you can read in full; it runs under your data access" },
+    {
+      key: "mode",
+      label: "Fire when",
+      kind: "select",
+      options: [
+        { value: "threshold", label: "A value crosses the threshold" },
+        { value: "rows", label: "Any rows are returned" },
+      ],
+    },
+    {
+      key: "operator",
+      label: "Operator",
+      kind: "select",
+      options: [
+        { value: ">", label: "value > threshold" },
+        { value: ">=", label: "value ≥ threshold" },
+        { value: "<", label: "value < threshold" },
+        { value: "<=", label: "value ≤ threshold" },
+      ],
+    },
+    { key: "valueColumn", label: "Value column", kind: "text", placeholder: "first numeric column" },
+    { key: "keyColumns", label: "Key columns", kind: "text", placeholder: "all other columns", hint: "Comma-separated columns that identify a row; each row alerts once until it clears" },
+    { key: "attachRows", label: "Attach the offending row to each alert", kind: "boolean" },
+  ],
 };
 
 export const ALERT_SOURCE_TYPE_LABELS: Record<AlertSourceType, string> = {
   [AlertSourceType.FleetThreshold]: "Fleet thresholds",
   [AlertSourceType.DataQuality]: "Data quality",
+  [AlertSourceType.QueryGovernor]: "Query governor",
+  [AlertSourceType.BackupFailure]: "Backup failures",
+  [AlertSourceType.DictionaryHealth]: "Dictionary health",
+  [AlertSourceType.CustomSql]: "Custom SQL",
 };
 
 /** Short scope word per source type — e.g. the "Active for {scope}" toggle label. */
 export const ALERT_SOURCE_SCOPE_LABELS: Record<AlertSourceType, string> = {
   [AlertSourceType.FleetThreshold]: "fleet",
   [AlertSourceType.DataQuality]: "data quality",
+  [AlertSourceType.QueryGovernor]: "governor",
+  [AlertSourceType.BackupFailure]: "backups",
+  [AlertSourceType.DictionaryHealth]: "dictionaries",
+  [AlertSourceType.CustomSql]: "this query",
 };
 
 /** Source types currently selectable when creating a rule (have a working evaluator). */
-export const SUPPORTED_RULE_SOURCE_TYPES: AlertSourceType[] = [AlertSourceType.FleetThreshold];
+export const SUPPORTED_RULE_SOURCE_TYPES: AlertSourceType[] = [
+  AlertSourceType.FleetThreshold,
+  AlertSourceType.QueryGovernor,
+  AlertSourceType.BackupFailure,
+  AlertSourceType.DictionaryHealth,
+  AlertSourceType.CustomSql,
+];
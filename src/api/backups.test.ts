@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createBackupSchedule,
+  deleteBackupSchedule,
+  listBackupDisks,
+  listBackups,
+  listBackupSchedules,
+  startBackup,
+  startRestore,
+} from "./backups";
+
+describe("Backups API", () => {
+  it("lists backups with the live ClickHouse state and the catalog entry", async () => {
+    const [entry] = await listBackups("conn-1");
+    expect(entry.system).toMatchObject({ id: "b-1", status: "CREATING_BACKUP" });
+    expect(entry.operation).toMatchObject({ backupId: "b-1", status: "running", table: "events" });
+  });
+
+  it("lists the disks a backup can go to", async () => {
+    expect(await listBackupDisks("conn-1")).toEqual([{ name: "backups", type: "Local", freeSpace: 1024 ** 4 }]);
+  });
+
+  it("starts backups and restores", async () => {
+    const backup = await startBackup({ connectionId: "conn-1", scope: "table", database: "db", table: "events", disk: "backups" });
+    expect(backup).toMatchObject({ kind: "backup", status: "running" });
+
+    const restore = await startRestore({
+      connectionId: "conn-1",
+      destination: "Disk('backups', 'db/events/20261019-020000')",
+      scope: "database",
+      database: "db",
+    });
+    expect(restore).toMatchObject({ kind: "restore", destination: "Disk('backups', 'db/events/20261019-020000')" });
+  });
+
+  it("manages schedules", async () => {
+    expect((await listBackupSchedules("conn-1"))[0]).toMatchObject({ name: "Nightly events" });
+
+    const created = await createBackupSchedule({
+      connectionId: "conn-1",
+      name: "Weekly db",
+      scope: "database",
+      database: "db",
+      disk: "backups",
+      frequency: "weekly",
+      hour: 3,
+      dayOfWeek: 0,
+      dayOfMonth: 1,
+      cronExpr: null,
+      timezone: "UTC",
+      enabled: true,
+    });
+    expect(created).toMatchObject({ id: "bs-new", frequency: "weekly" });
+    expect(await deleteBackupSchedule("bs-new")).toEqual({ deleted: true });
+  });
+});
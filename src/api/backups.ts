@@ -0,0 +1,160 @@
+/**
+ * Backups API — BACKUP / RESTORE over system.backups, plus backup schedules.
+ * Mirrors packages/server/src/routes/backups.ts and
+ * services/backups/types.ts.
+ */
+
+import { api } from "./client";
+
+export type BackupScope = "table" | "database";
+export type BackupKind = "backup" | "restore";
+export type BackupOperationStatus = "running" | "succeeded" | "failed";
+export type BackupFrequency = "daily" | "weekly" | "monthly" | "cron";
+
+/** A system.backups row, with live progress for running operations */
+export interface SystemBackup {
+  id: string;
+  /** Where the backup lives, e.g. Disk('backups', 'db/table/20261019-020000') */
+  name: string;
+  /** ClickHouse status: CREATING_BACKUP, BACKUP_CREATED, RESTORING, RESTORED, BACKUP_FAILED, … */
+  status: string;
+  error: string;
+  /** Epoch ms; 0 while unset */
+  startTime: number;
+  endTime: number;
+  numFiles: number;
+  totalSize: number;
+  uncompressedSize: number;
+  compressedSize: number;
+  filesRead: number;
+  bytesRead: number;
+}
+
+/** A BACKUP or RESTORE started from CHouse UI (by a user or a schedule) */
+export interface BackupOperation {
+  id: string;
+  connectionId: string;
+  scheduleId: string | null;
+  scheduleName: string | null;
+  kind: BackupKind;
+  /** The ClickHouse operation id (system.backups.id) */
+  backupId: string | null;
+  destination: string;
+  scope: BackupScope;
+  database: string;
+  table: string | null;
+  statement: string;
+  status: BackupOperationStatus;
+  error: string | null;
+  totalSize: number | null;
+  numFiles: number | null;
+  startedBy: string | null;
+  startedByName: string | null;
+  startedAt: number;
+  finishedAt: number | null;
+}
+
+/** One row of the Backups list — either side may be missing */
+export interface BackupListEntry {
+  system: SystemBackup | null;
+  operation: BackupOperation | null;
+}
+
+export interface BackupDisk {
+  name: string;
+  type: string;
+  freeSpace: number;
+}
+
+export interface BackupSchedule {
+  id: string;
+  connectionId: string;
+  connectionName: string | null;
+  name: string;
+  scope: BackupScope;
+  database: string;
+  table: string | null;
+  disk: string;
+  frequency: BackupFrequency;
+  hour: number;
+  dayOfWeek: number;
+  dayOfMonth: number;
+  cronExpr: string | null;
+  timezone: string;
+  enabled: boolean;
+  lastRunAt: number;
+  createdBy: string | null;
+  createdAt: number;
+  updatedAt: number;
+  /** Next slots (epoch ms); empty when disabled */
+  nextRuns: number[];
+}
+
+export interface StartBackupInput {
+  connectionId: string;
+  scope: BackupScope;
+  database: string;
+  table?: string;
+  disk: string;
+}
+
+export interface StartRestoreInput {
+  connectionId: string;
+  /** The backup to restore from, as system.backups names it */
+  destination: string;
+  scope: BackupScope;
+  database: string;
+  table?: string;
+  /** Restore under another name; defaults to the original */
+  targetDatabase?: string;
+  targetTable?: string;
+  allowNonEmpty?: boolean;
+}
+
+export interface BackupScheduleInput {
+  connectionId: string;
+  name: string;
+  scope: BackupScope;
+  database: string;
+  table?: string;
+  disk: string;
+  frequency: BackupFrequency;
+  hour: number;
+  dayOfWeek: number;
+  dayOfMonth: number;
+  cronExpr: string | null;
+  timezone: string;
+  enabled: boolean;
+}
+
+export function listBackups(connectionId: string): Promise<BackupListEntry[]> {
+  return api.get<BackupListEntry[]>("/backups", { params: { connectionId } });
+}
+
+export function listBackupDisks(connectionId: string): Promise<BackupDisk[]> {
+  return api.get<BackupDisk[]>("/backups/disks", { params: { connectionId } });
+}
+
+export function startBackup(input: StartBackupInput): Promise<BackupOperation> {
+  return api.post<BackupOperation>("/backups/backup", input);
+}
+
+export function startRestore(input: StartRestoreInput): Promise<BackupOperation> {
+  return api.post<BackupOperation>("/backups/restore", input);
+}
+
+export function listBackupSchedules(connectionId: string): Promise<BackupSchedule[]> {
+  return api.get<BackupSchedule[]>("/backups/schedules", { params: { connectionId } });
+}
+
+export function createBackupSchedule(input: BackupScheduleInput): Promise<BackupSchedule> {
+  return api.post<BackupSchedule>("/backups/schedules", input);
+}
+
+export function updateBackupSchedule(id: string, input: BackupScheduleInput): Promise<BackupSchedule> {
+  return api.put<BackupSchedule>(`/backups/schedules/${encodeURIComponent(id)}`, input);
+}
+
+export function deleteBackupSchedule(id: string): Promise<{ deleted: boolean }> {
+  return api.delete<{ deleted: boolean }>(`/backups/schedules/${encodeURIComponent(id)}`);
+}
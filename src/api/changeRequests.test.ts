@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+
+import { approveChangeRequest, getChangeRequest, listChangeRequests, rejectChangeRequest } from "./changeRequests";
+
+describe("Change Requests API", () => {
+  it("lists change requests, optionally by status", async () => {
+    const pending = await listChangeRequests("pending");
+    expect(pending).toHaveLength(1);
+    expect(pending[0]).toMatchObject({ id: "cr-1", operationType: "ALTER", connectionName: "Production" });
+
+    expect(await listChangeRequests("executed")).toEqual([]);
+  });
+
+  it("loads a request with the live DDL of its target table", async () => {
+    const request = await getChangeRequest("cr-1");
+    expect(request.ddlCurrent).toContain("CREATE TABLE db.events");
+  });
+
+  it("approves and rejects with a comment", async () => {
+    expect(await approveChangeRequest("cr-1", "ship it")).toMatchObject({ status: "executed", reviewComment: "ship it" });
+    expect(await rejectChangeRequest("cr-1")).toMatchObject({ status: "rejected", reviewComment: null });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Change Requests API — DDL/DML held back on protected connections until a
+ * second user approves it. Mirrors packages/server/src/routes/change-requests.ts
+ * and services/changeRequests/types.ts.
+ */
+
+import { api } from "./client";
+import type { DdlImpactEstimate } from "./metrics";
+
+export type ChangeRequestStatus = "pending" | "approved" | "rejected" | "executed" | "failed";
+
+export interface ChangeRequest {
+  id: string;
+  connectionId: string;
+  connectionName: string | null;
+  requestedBy: string | null;
+  requesterName: string | null;
+  statement: string;
+  /** First keyword of the statement that changes something (ALTER, DROP, …) */
+  operationType: string;
+  targetDatabase: string | null;
+  targetTable: string | null;
+  /** Mutation impact estimate captured at submission (ALTER UPDATE/DELETE only) */
+  impact: DdlImpactEstimate | null;
+  /** Target table DDL at submission */
+  ddlBefore: string | null;
+  /** Target table DDL after execution; empty when the statement dropped it */
+  ddlAfter: string | null;
+  status: ChangeRequestStatus;
+  reviewedBy: string | null;
+  reviewerName: string | null;
+  reviewComment: string | null;
+  error: string | null;
+  createdAt: number;
+  reviewedAt: number | null;
+  executedAt: number | null;
+}
+
+export interface ChangeRequestDetail extends ChangeRequest {
+  /** Live DDL of the target table while the request is pending */
+  ddlCurrent: string | null;
+}
+
+/** Error code of the 202 a protected connection answers DDL/DML with. */
+export const APPROVAL_REQUIRED = "APPROVAL_REQUIRED";
+
+export function listChangeRequests(status?: ChangeRequestStatus): Promise<ChangeRequest[]> {
+  return api.get<ChangeRequest[]>("/change-requests", { params: { status } });
+}
+
+export function getChangeRequest(id: string): Promise<ChangeRequestDetail> {
+  return api.get<ChangeRequestDetail>(`/change-requests/${encodeURIComponent(id)}`);
+}
+
+export function approveChangeRequest(id: string, comment?: string): Promise<ChangeRequest> {
+  return api.post<ChangeRequest>(`/change-requests/${encodeURIComponent(id)}/approve`, { comment });
+}
+
+export function rejectChangeRequest(id: string, comment?: string): Promise<ChangeRequest> {
+  return api.post<ChangeRequest>(`/change-requests/${encodeURIComponent(id)}/reject`, { comment });
+}
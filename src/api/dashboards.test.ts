@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+
+import { createDashboard, deleteDashboard, getDashboard, listDashboards, updateDashboard } from "./dashboards";
+
+describe("Dashboards API", () => {
+  it("lists dashboards with their tiles", async () => {
+    const dashboards = await listDashboards();
+    expect(dashboards).toHaveLength(1);
+    expect(dashboards[0]).toMatchObject({ id: "dash-1", isPublic: true });
+    expect(dashboards[0].tiles[0]).toMatchObject({ savedQueryId: "query-1", refreshSecs: 60 });
+  });
+
+  it("loads a dashboard with the saved queries behind its tiles", async () => {
+    const dashboard = await getDashboard("dash-1");
+    expect(dashboard.queries["query-1"]).toMatchObject({ name: "User Stats", query: "SELECT * FROM users" });
+  });
+
+  it("creates, updates and deletes", async () => {
+    const created = await createDashboard({ name: "Ops", isPublic: true });
+    expect(created).toMatchObject({ id: "dash-new", name: "Ops", isPublic: true });
+
+    const updated = await updateDashboard("dash-1", { parameters: { timeRange: "7d", values: { region: "eu" } } });
+    expect(updated.parameters).toEqual({ timeRange: "7d", values: { region: "eu" } });
+
+    await expect(deleteDashboard("dash-1")).resolves.toBeUndefined();
+  });
+});
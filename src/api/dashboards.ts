@@ -0,0 +1,80 @@
+/**
+ * Dashboards API — grids of saved-query tiles with shared parameters.
+ * Mirrors packages/server/src/routes/dashboards.ts and services/dashboards/types.ts.
+ */
+
+import { api } from "./client";
+import type { SavedQuery, SavedQueryChartConfig } from "./saved-queries";
+
+export const DASHBOARD_GRID_COLUMNS = 12;
+
+export type DashboardTimeRange = "15m" | "1h" | "6h" | "24h" | "7d" | "30d";
+
+export interface DashboardTile {
+  id: string;
+  savedQueryId: string;
+  /** Overrides the saved query name in the tile header */
+  title: string | null;
+  /** null renders the result as a table */
+  chartConfig: SavedQueryChartConfig | null;
+  /** Column span out of DASHBOARD_GRID_COLUMNS */
+  width: number;
+  /** Height in grid rows (1-4) */
+  height: number;
+  /** Auto-refresh interval; null refreshes only with the dashboard */
+  refreshSecs: number | null;
+}
+
+export interface DashboardParameters {
+  timeRange: DashboardTimeRange | null;
+  /** Values for {name:Type} placeholders shared by every tile */
+  values: Record<string, string>;
+}
+
+export interface Dashboard {
+  id: string;
+  userId: string;
+  name: string;
+  description: string | null;
+  isPublic: boolean;
+  tiles: DashboardTile[];
+  parameters: DashboardParameters;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface DashboardWithQueries extends Dashboard {
+  /**
+   * Saved queries behind the tiles that the current user can see, keyed by id.
+   * A tile whose query is missing here is unavailable (deleted or private).
+   */
+  queries: Record<string, SavedQuery>;
+}
+
+export interface DashboardInput {
+  name: string;
+  description?: string | null;
+  isPublic?: boolean;
+  tiles?: DashboardTile[];
+  parameters?: DashboardParameters;
+}
+
+export function listDashboards(): Promise<Dashboard[]> {
+  return api.get<Dashboard[]>("/dashboards");
+}
+
+export function getDashboard(id: string): Promise<DashboardWithQueries> {
+  return api.get<DashboardWithQueries>(`/dashboards/${encodeURIComponent(id)}`);
+}
+
+export function createDashboard(input: DashboardInput): Promise<DashboardWithQueries> {
+  return api.post<DashboardWithQueries>("/dashboards", input);
+}
+
+export function updateDashboard(id: string, input: Partial<DashboardInput>): Promise<DashboardWithQueries> {
+  return api.put<DashboardWithQueries>(`/dashboards/${encodeURIComponent(id)}`, input);
+}
+
+export async function deleteDashboard(id: string): Promise<void> {
+  await api.delete(`/dashboards/${encodeURIComponent(id)}`);
+}
@@ -6,8 +6,11 @@ import { describe, it, expect } from 'vitest';
 import {
     getDatabases,
     getTableDetails,
+    getTableLineage,
     createDatabase,
     dropDatabase,
+    createDictionary,
+    reloadDictionary,
 } from './explorer';
 
 describe('Explorer API', () => {
@@ -58,6 +61,18 @@ describe('Explorer API', () => {
         });
     });
 
+    describe('getTableLineage', () => {
+        it('should fetch the lineage graph around a table', async () => {
+            const graph = await getTableLineage('default', 'users', 30);
+
+            expect(graph.focusTable).toBe('default.users');
+            expect(graph.windowDays).toBe(30);
+            expect(graph.nodes).toHaveLength(2);
+            expect(graph.edges[0].kind).toBe('insert');
+            expect(graph.edges[0].queryCount).toBe(4);
+        });
+    });
+
     describe('createDatabase', () => {
         it('should create a database', async () => {
             const result = await createDatabase({ name: 'test_db' });
@@ -85,4 +100,31 @@ describe('Explorer API', () => {
             expect(result.message).toBe('Database dropped successfully');
         });
     });
+
+    describe('createDictionary', () => {
+        it('should return the rendered statement on a dry run', async () => {
+            const result = await createDictionary({
+                database: 'geo',
+                name: 'countries',
+                attributes: [{ name: 'id', type: 'UInt64', isKey: true }, { name: 'iso', type: 'String' }],
+                source: { type: 'clickhouse', db: 'geo', table: 'countries_src' },
+                layout: 'hashed',
+                lifetimeMin: 300,
+                lifetimeMax: 360,
+                dryRun: true,
+            });
+
+            expect(result.statement).toContain('CREATE DICTIONARY `geo`.`countries`');
+            expect(result.message).toBeUndefined();
+        });
+    });
+
+    describe('reloadDictionary', () => {
+        it('should return the fresh dictionary state', async () => {
+            const result = await reloadDictionary('geo', 'countries');
+
+            expect(result.status).toBe('LOADED');
+            expect(result.element_count).toBe(250);
+        });
+    });
 });
@@ -3,6 +3,7 @@
  */
 
 import { api } from './client';
+import type { LineageEdge, LineageNode } from './scheduledQueries';
 
 // ============================================
 // Types
@@ -10,7 +11,18 @@ import { api } from './client';
 
 export interface TableInfo {
   name: string;
-  type: 'table' | 'view';
+  type: 'table' | 'view' | 'dictionary';
+  /** Formatted row count; element count for dictionaries */
+  rows?: string;
+  /** Formatted size; memory allocated for dictionaries */
+  size?: string;
+  engine?: string;
+  /** Dictionary load status (LOADED, FAILED, …) */
+  status?: string;
+  /** Dictionary last successful load, 'YYYY-MM-DD HH:MM:SS' */
+  lastSuccessfulUpdate?: string;
+  /** Dictionary last loading error */
+  lastException?: string;
 }
 
 export interface DatabaseInfo {
@@ -61,6 +73,87 @@ export interface CreateTableInput {
   cluster?: string;
 }
 
+export type DictionarySourceType = 'clickhouse' | 'mysql' | 'postgresql' | 'http';
+
+export type DictionaryLayout =
+  | 'flat'
+  | 'hashed'
+  | 'sparse_hashed'
+  | 'hashed_array'
+  | 'cache'
+  | 'direct'
+  | 'complex_key_hashed'
+  | 'complex_key_sparse_hashed'
+  | 'complex_key_hashed_array'
+  | 'complex_key_cache'
+  | 'complex_key_direct';
+
+export interface DictionaryAttribute {
+  name: string;
+  type: string;
+  /** Part of the PRIMARY KEY */
+  isKey?: boolean;
+  /** Value for keys missing from the source */
+  default?: string;
+}
+
+export interface DictionarySource {
+  type: DictionarySourceType;
+  host?: string;
+  port?: number;
+  user?: string;
+  password?: string;
+  db?: string;
+  table?: string;
+  where?: string;
+  /** ClickHouse only: read from a query instead of a table */
+  query?: string;
+  invalidateQuery?: string;
+  /** HTTP only */
+  url?: string;
+  format?: string;
+}
+
+/** Mirrors createDictionarySchema in packages/server/src/services/dictionaries/ddl.ts */
+export interface CreateDictionaryInput {
+  database: string;
+  name: string;
+  cluster?: string;
+  attributes: DictionaryAttribute[];
+  source: DictionarySource;
+  layout: DictionaryLayout;
+  /** Cache layouts only */
+  sizeInCells?: number;
+  /** Reload window in seconds; 0 / 0 never reloads */
+  lifetimeMin: number;
+  lifetimeMax: number;
+  comment?: string;
+  /** Render the statement without running it */
+  dryRun?: boolean;
+}
+
+export interface DictionaryReloadResult {
+  /** Empty for dictionaries defined in server config */
+  database: string;
+  name: string;
+  status: string;
+  element_count: number;
+  last_exception: string;
+}
+
+/** Lineage around one table; the same graph shape as a scheduled job's lineage */
+export interface TableLineageGraph {
+  /** `db.table` */
+  focusTable: string;
+  connectionId: string;
+  windowDays: number;
+  observedAt: number;
+  nodes: LineageNode[];
+  edges: LineageEdge[];
+  note?: string;
+  truncated?: boolean;
+}
+
 // ============================================
 // API Functions
 // ============================================
@@ -79,6 +172,16 @@ export async function getTableDetails(database: string, table: string): Promise<
   return api.get<TableDetails>(`/explorer/table/${database}/${table}`);
 }
 
+/**
+ * Get a table's lineage: views, Distributed tables, dictionaries, INSERT … SELECT
+ * traffic and scheduled jobs around it
+ */
+export async function getTableLineage(database: string, table: string, windowDays = 14): Promise<TableLineageGraph> {
+  return api.get<TableLineageGraph>(`/explorer/table/${database}/${table}/lineage`, {
+    params: { window: windowDays },
+  });
+}
+
 /**
  * Get table data sample
  */
@@ -120,3 +223,16 @@ export async function dropTable(database: string, table: string): Promise<{ mess
   return api.delete(`/explorer/table/${database}/${table}`);
 }
 
+/**
+ * Create a dictionary; with `dryRun` only the CREATE DICTIONARY statement is returned
+ */
+export async function createDictionary(input: CreateDictionaryInput): Promise<{ message?: string; statement: string }> {
+  return api.post('/explorer/dictionary', input);
+}
+
+/**
+ * SYSTEM RELOAD DICTIONARY for one dictionary. Needs dictionaries:reload; the server audits it.
+ */
+export async function reloadDictionary(database: string, name: string): Promise<DictionaryReloadResult> {
+  return api.post<DictionaryReloadResult>('/explorer/dictionary/reload', { database, name });
+}
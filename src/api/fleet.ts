@@ -93,6 +93,14 @@ export interface FleetPartsPressureRow {
   eta_minutes: number;
 }
 
+export interface FleetDiskRow {
+  name: string;
+  path: string;
+  free_space: number;
+  total_space: number;
+  used_space: number;
+}
+
 // ============================================
 // M2 — Snapshot cache endpoints
 // ============================================
@@ -112,6 +120,7 @@ export interface FleetConnectionSnapshot {
     last_exception?: { data: FleetLastExceptionRow[]; error: string | null };
     schema_totals?: { data: FleetSchemaTotalsRow[]; error: string | null };
     parts_pressure?: { data: FleetPartsPressureRow[]; error: string | null };
+    disks?: { data: FleetDiskRow[]; error: string | null };
   };
 }
 
@@ -185,6 +194,29 @@ export async function fetchFleetHistoryBulk(opts?: {
   return api.get<FleetBulkHistoryResponse>(`/fleet/history${query ? `?${query}` : ""}`);
 }
 
+/**
+ * Projected fill date for one disk, fitted by the backend to the poller's
+ * per-disk usage history. `fullAt` / `daysToFull` are null while there is too
+ * little history or when usage is flat or shrinking.
+ */
+export interface DiskForecast {
+  connectionId: string;
+  disk: string;
+  path: string;
+  usedBytes: number;
+  totalBytes: number;
+  growthBytesPerDay: number | null;
+  fullAt: number | null; // unix seconds
+  daysToFull: number | null;
+  samples: number;
+  historyHours: number;
+}
+
+/** Disk forecasts for every node the caller can view. */
+export async function fetchDiskForecasts(): Promise<DiskForecast[]> {
+  return api.get<DiskForecast[]>("/fleet/disk-forecast");
+}
+
 // ============================================
 // M4 — Alert delivery config (Slack / email). Super-admin only; secrets are
 // never returned (only whether a channel is configured).
@@ -40,6 +40,11 @@ describe('API Index', () => {
         expect(apiIndex.queryHistoryApi.getQueryHistory).toBeDefined();
     });
 
+    it('should export dashboardsApi namespace', () => {
+        expect(apiIndex.dashboardsApi).toBeDefined();
+        expect(apiIndex.dashboardsApi.getDashboard).toBeDefined();
+    });
+
     it('should export configApi namespace', () => {
         expect(apiIndex.configApi).toBeDefined();
         expect(apiIndex.configApi.getConfig).toBeDefined();
@@ -20,7 +20,7 @@ export type { ApiResponse, ApiError, RequestOptions, RbacTokens } from './client
 
 // Query execution
 export * as queryApi from './query';
-export type { QueryResult, QueryStatistics, QueryMeta, IntellisenseData, IntellisenseFunctionInfo, QueryStreamCallbacks } from './query';
+export type { QueryResult, QueryStatistics, QueryMeta, IntellisenseData, IntellisenseFunctionInfo, QueryStreamCallbacks, QueryBudgetStatus } from './query';
 
 // Database explorer
 export * as explorerApi from './explorer';
@@ -41,7 +41,26 @@ export type { SystemStats, RecentQuery } from './metrics';
 // Saved queries
 export * as savedQueriesApi from './saved-queries';
 export * as queryHistoryApi from './queryHistory';
-export type { SavedQuery, SaveQueryInput, UpdateQueryInput } from './saved-queries';
+export type { SavedQuery, SaveQueryInput, UpdateQueryInput, SavedQueryChartConfig, SavedQueryChartType, SavedQueryRevision, SavedQueryFilters } from './saved-queries';
+
+// Dashboards
+export * as dashboardsApi from './dashboards';
+export type {
+  Dashboard,
+  DashboardWithQueries,
+  DashboardInput,
+  DashboardTile,
+  DashboardParameters,
+  DashboardTimeRange,
+} from './dashboards';
+
+// Change requests (approval queue for protected connections)
+export * as changeRequestsApi from './changeRequests';
+export type { ChangeRequest, ChangeRequestDetail, ChangeRequestStatus } from './changeRequests';
+
+// Backups (BACKUP/RESTORE over system.backups, plus schedules)
+export * as backupsApi from './backups';
+export type { BackupListEntry, BackupOperation, BackupSchedule, BackupScheduleInput, SystemBackup } from './backups';
 
 // Configuration
 export * as configApi from './config';
@@ -61,6 +80,7 @@ export type {
   FleetHistoryResponse,
   FleetBulkHistoryNode,
   FleetBulkHistoryResponse,
+  DiskForecast,
 } from './fleet';
 
 // RBAC (Role-Based Access Control)
@@ -71,6 +91,7 @@ export {
   rbacAuditApi,
   rbacConnectionsApi,
   rbacUserPreferencesApi,
+  rbacApiKeysApi,
   checkRbacHealth,
   ssoApi,
 } from './rbac';
@@ -88,6 +109,9 @@ export type {
   OnboardingResponse,
   SsoProviderInfo,
   SsoCallbackResponse,
+  ApiKey,
+  CreateApiKeyInput,
+  CreatedApiKey,
   CreateUserInput as RbacCreateUserInput,
   UpdateUserInput as RbacUpdateUserInput,
   CreateRoleInput as RbacCreateRoleInput,
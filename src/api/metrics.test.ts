@@ -7,9 +7,11 @@ import {
     getSystemStats,
     getRecentQueries,
     getDiskMetrics,
+    getDiskForecast,
     getTopTables,
     getPartsPressure,
     simulateDdl,
+    killMutation,
 } from './metrics';
 
 describe('Metrics API', () => {
@@ -54,6 +56,16 @@ describe('Metrics API', () => {
         });
     });
 
+    describe('getDiskForecast', () => {
+        it('should fetch projected disk fill dates', async () => {
+            const forecasts = await getDiskForecast();
+
+            expect(forecasts).toHaveLength(1);
+            expect(forecasts[0].disk).toBe('default');
+            expect(forecasts[0].daysToFull).toBe(10);
+        });
+    });
+
     describe('getTopTables', () => {
         it('should fetch top tables by size (non-system)', async () => {
             const tables = await getTopTables(5);
@@ -116,4 +128,14 @@ describe('Metrics API', () => {
             await expect(simulateDdl('SELECT 1')).rejects.toThrow();
         });
     });
+
+    describe('killMutation', () => {
+        it('kills a mutation on every host of the cluster', async () => {
+            const result = await killMutation({ database: 'demo', table: 'events', mutationId: '0000000004', cluster: 'main' });
+
+            expect(result.mutation_id).toBe('0000000004');
+            expect(result.cluster).toBe('main');
+            expect(result.hosts).toEqual(['ch-1', 'ch-2']);
+        });
+    });
 });
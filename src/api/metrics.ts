@@ -3,6 +3,7 @@
  */
 
 import { api } from './client';
+import type { DiskForecast } from './fleet';
 
 // ============================================
 // Types
@@ -156,6 +157,24 @@ export interface DdlImpactEstimate {
   disk_sufficient: boolean;
 }
 
+/** A mutation to kill; `cluster` runs KILL MUTATION ON CLUSTER. */
+export interface KillMutationRequest {
+  database: string;
+  table: string;
+  mutationId: string;
+  cluster?: string;
+}
+
+export interface KillMutationResult {
+  database: string;
+  table: string;
+  mutation_id: string;
+  cluster: string | null;
+  command: string | null;
+  /** Hosts that ran the kill (ON CLUSTER only). */
+  hosts: string[];
+}
+
 export interface NetworkMetrics {
   tcp_connections: number;
   http_connections: number;
@@ -333,6 +352,13 @@ export async function getDiskMetrics(): Promise<DiskMetrics[]> {
   return api.get<DiskMetrics[]>('/metrics/disks');
 }
 
+/**
+ * Get projected fill dates for the current connection's disks
+ */
+export async function getDiskForecast(): Promise<DiskForecast[]> {
+  return api.get<DiskForecast[]>('/metrics/disks/forecast');
+}
+
 /**
  * Get merge and mutation metrics
  */
@@ -409,6 +435,13 @@ export async function simulateDdl(statement: string): Promise<DdlImpactEstimate>
   return api.post<DdlImpactEstimate>('/metrics/ddl/simulate', { statement });
 }
 
+/**
+ * KILL MUTATION for one mutation. Needs mutations:kill; the server audits it.
+ */
+export async function killMutation(request: KillMutationRequest): Promise<KillMutationResult> {
+  return api.post<KillMutationResult>('/metrics/mutations/kill', request);
+}
+
 /**
  * Execute a custom metrics query (SELECT only)
  */
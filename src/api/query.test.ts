@@ -8,6 +8,8 @@ import {
     executeSelect,
     executeInsert,
     getIntellisenseData,
+    getQueryUsage,
+    exportQueryResult,
 } from './query';
 
 describe('Query API', () => {
@@ -80,4 +82,29 @@ describe('Query API', () => {
             expect(data.keywords).toBeDefined();
         });
     });
+
+    describe('getQueryUsage', () => {
+        it('should fetch today\'s usage against the daily budgets', async () => {
+            const status = await getQueryUsage();
+
+            expect(status.usage.queryCount).toBe(85);
+            expect(status.quota.dailyQueryLimit).toBe(100);
+            expect(status.nearLimit).toBe(true);
+        });
+    });
+
+    describe('exportQueryResult', () => {
+        it('should download the file named by the server', async () => {
+            const file = await exportQueryResult('SELECT id FROM users', 'parquet', 'none');
+
+            expect(file.filename).toBe('ch_ui_export_2025-01-01T00-00-00.parquet');
+            expect(await file.blob.text()).toBe('id\n1\n');
+        });
+
+        it('should surface the server error message', async () => {
+            await expect(exportQueryResult('DROP TABLE users', 'csv')).rejects.toThrow(
+                'Only a single SELECT or WITH query can be exported'
+            );
+        });
+    });
 });
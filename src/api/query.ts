@@ -47,6 +47,27 @@ export interface IntellisenseData {
   keywords: string[];
 }
 
+/** Today's usage of the current user against their role's daily budgets */
+export interface QueryBudgetStatus {
+  quota: {
+    maxExecutionTime: number | null;
+    maxMemoryUsage: number | null;
+    maxResultRows: number | null;
+    maxBytesToRead: number | null;
+    dailyQueryLimit: number | null;
+    dailyBytesLimit: number | null;
+  };
+  usage: {
+    day: string;
+    queryCount: number;
+    bytesRead: number;
+  };
+  queryRatio: number | null;
+  bytesRatio: number | null;
+  nearLimit: boolean;
+  resetsAt: string;
+}
+
 // ============================================
 // Query Type Detection
 // ============================================
@@ -128,13 +149,14 @@ export async function executeQuery<T = Record<string, unknown>>(
   format: 'JSON' | 'JSONEachRow' | 'CSV' | 'TabSeparated' = 'JSON',
   queryId?: string,
   signal?: AbortSignal,
-  maxResultRows?: number
+  maxResultRows?: number,
+  queryParams?: Record<string, string>
 ): Promise<QueryResult<T>> {
   // Use the generic execution endpoint for all queries
   // The backend determines the query type and validates permissions
   return api.post<QueryResult<T>>(
     '/query/execute',
-    { query, format, queryId, maxResultRows },
+    { query, format, queryId, maxResultRows, queryParams },
     { signal }
   );
 }
@@ -277,6 +299,13 @@ export async function getIntellisenseData(): Promise<IntellisenseData> {
   return api.get<IntellisenseData>('/query/intellisense');
 }
 
+/**
+ * Get today's query usage against the daily budgets of the user's role
+ */
+export async function getQueryUsage(): Promise<QueryBudgetStatus> {
+  return api.get<QueryBudgetStatus>('/query/usage');
+}
+
 /**
  * Get Visual Explain Plan for a query
  * @param query - The SQL query to explain
@@ -385,13 +414,17 @@ export interface QueryStreamCallbacks {
  *
  * Bypasses `ApiClient.request()` because the response is NDJSON, not the
  * standard `{success, data}` envelope.  Auth headers are added manually.
+ *
+ * `queryParams` carries values for ClickHouse `{name:Type}` placeholders;
+ * they are bound server-side, never spliced into the SQL text.
  */
 export async function executeQueryStream(
   query: string,
   queryId: string | undefined,
   signal: AbortSignal | undefined,
   maxResultRows: number | undefined,
-  callbacks: QueryStreamCallbacks
+  callbacks: QueryStreamCallbacks,
+  queryParams?: Record<string, string>
 ): Promise<void> {
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
@@ -410,11 +443,12 @@ export async function executeQueryStream(
     method: "POST",
     headers,
     credentials: "include",
-    body: JSON.stringify({ query, queryId, maxResultRows }),
+    body: JSON.stringify({ query, queryId, maxResultRows, queryParams }),
     signal,
   });
 
-  if (!response.ok) {
+  // 202 means a protected connection held the statement for approval
+  if (!response.ok || response.status === 202) {
     // Non-streaming error (auth failure, 403, etc.)
     let message = `HTTP ${response.status}`;
     try {
@@ -536,6 +570,67 @@ export async function executeQueryStream(
   }
 }
 
+// ============================================
+// Server-side export
+// ============================================
+
+/** File formats the server writes; everything but XLSX comes straight from ClickHouse. */
+export type QueryExportFormat = "parquet" | "arrow" | "ndjson" | "csv" | "tsv" | "xlsx";
+
+export type QueryExportCompression = "none" | "gzip" | "zstd";
+
+export interface QueryExportFile {
+  blob: Blob;
+  filename: string;
+}
+
+/**
+ * Export the full result of a SELECT through /query/export. Unlike a
+ * browser-side export this is not limited to the rows already loaded; the
+ * server applies the caller's data access policy and role quota.
+ *
+ * Bypasses `ApiClient.request()` because the response is the file itself.
+ */
+export async function exportQueryResult(
+  query: string,
+  format: QueryExportFormat,
+  compression: QueryExportCompression = "none",
+  queryParams?: Record<string, string>
+): Promise<QueryExportFile> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "X-Requested-With": "XMLHttpRequest",
+  };
+
+  const sessionId = getSessionId();
+  if (sessionId) headers["X-Session-ID"] = sessionId;
+
+  const token = getRbacAccessToken();
+  if (token) headers["Authorization"] = `Bearer ${token}`;
+
+  const API_BASE_URL = import.meta.env.VITE_API_URL ?? "/api";
+
+  const response = await fetch(`${API_BASE_URL}/query/export`, {
+    method: "POST",
+    headers,
+    credentials: "include",
+    body: JSON.stringify({ query, format, compression, queryParams }),
+  });
+
+  if (!response.ok) {
+    let message = `HTTP ${response.status}`;
+    try {
+      const body = await response.json() as { error?: { message?: string } };
+      if (body?.error?.message) message = body.error.message;
+    } catch { /* ignore */ }
+    throw new Error(message);
+  }
+
+  const disposition = response.headers.get("Content-Disposition") ?? "";
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `ch_ui_export.${format}`;
+  return { blob: await response.blob(), filename };
+}
+
 /** Chouse AI's diagnosis of a system.errors entry — cause + concrete fix steps. */
 export interface ErrorDiagnosis {
   code?: number;
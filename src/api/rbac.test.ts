@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
-import { ssoApi, authConfigApi, rbacAiBaseModelsApi, rbacDataAccessPoliciesApi, rbacUsersApi, rbacSsoAdminApi, rbacUserPreferencesApi } from './rbac';
+import { ssoApi, authConfigApi, rbacAiBaseModelsApi, rbacDataAccessPoliciesApi, rbacUsersApi, rbacSsoAdminApi, rbacUserPreferencesApi, rbacApiKeysApi, rbacRolesApi } from './rbac';
 import { RBAC_ACCESS_TOKEN_KEY, RBAC_REFRESH_TOKEN_KEY } from './client';
 import { server } from '../test/mocks/server';
 import { http, HttpResponse } from 'msw';
@@ -299,6 +299,23 @@ describe('rbacDataAccessPoliciesApi', () => {
     expect(await rbacDataAccessPoliciesApi.listDatabases('conn-1')).toEqual(['default', 'analytics']);
   });
 
+  it('previews a user\'s effective access to a table', async () => {
+    let params: URLSearchParams | null = null;
+    server.use(
+      http.get('/api/rbac/data-access-policies/preview', ({ request }) => {
+        params = new URL(request.url).searchParams;
+        return HttpResponse.json({
+          success: true,
+          data: { allowed: true, reason: null, rowFilter: "region = 'EU'", columnRules: [] },
+        });
+      })
+    );
+    const preview = await rbacDataAccessPoliciesApi.preview({ userId: 'u1', database: 'crm', table: 'customers' });
+    expect(preview.rowFilter).toBe("region = 'EU'");
+    expect(params!.get('userId')).toBe('u1');
+    expect(params!.has('connectionId')).toBe(false);
+  });
+
   it('browses tables for a database (lazy, url-encoded)', async () => {
     let capturedUrl = '';
     server.use(
@@ -313,6 +330,97 @@ describe('rbacDataAccessPoliciesApi', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// rbacApiKeysApi
+// ---------------------------------------------------------------------------
+
+describe('rbacApiKeysApi', () => {
+  const API_KEY = {
+    id: 'k1',
+    name: 'nightly-export',
+    keyPrefix: 'chk_AbCd1234',
+    scopes: ['query:execute'],
+    expiresAt: null,
+    lastUsedAt: null,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    revokedAt: null,
+  };
+
+  beforeEach(() => {
+    localStorage.setItem(RBAC_ACCESS_TOKEN_KEY, 'access-token');
+  });
+
+  it('lists keys (unwraps data)', async () => {
+    server.use(
+      http.get('/api/rbac/api-keys', () => HttpResponse.json({ success: true, data: [API_KEY] }))
+    );
+    const keys = await rbacApiKeysApi.list();
+    expect(keys).toHaveLength(1);
+    expect(keys[0].keyPrefix).toBe('chk_AbCd1234');
+  });
+
+  it('creates a key and returns the one-time plaintext', async () => {
+    let captured: unknown = null;
+    server.use(
+      http.post('/api/rbac/api-keys', async ({ request }) => {
+        captured = await request.json();
+        return HttpResponse.json({ success: true, data: { apiKey: API_KEY, key: 'chk_secret' } }, { status: 201 });
+      })
+    );
+    const created = await rbacApiKeysApi.create({ name: 'nightly-export', scopes: ['query:execute'], expiresInDays: 90 });
+    expect(captured).toEqual({ name: 'nightly-export', scopes: ['query:execute'], expiresInDays: 90 });
+    expect(created.key).toBe('chk_secret');
+  });
+
+  it('revokes a key by id', async () => {
+    let method = '';
+    server.use(
+      http.delete('/api/rbac/api-keys/k1', ({ request }) => {
+        method = request.method;
+        return HttpResponse.json({ success: true, data: { ...API_KEY, revokedAt: '2026-02-01T00:00:00.000Z' } });
+      })
+    );
+    const revoked = await rbacApiKeysApi.revoke('k1');
+    expect(method).toBe('DELETE');
+    expect(revoked.revokedAt).not.toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// rbacRolesApi — query quotas
+// ---------------------------------------------------------------------------
+
+describe('rbacRolesApi quotas', () => {
+  const QUOTA = {
+    maxExecutionTime: 60,
+    maxMemoryUsage: null,
+    maxResultRows: 10000,
+    maxBytesToRead: null,
+    dailyQueryLimit: 500,
+    dailyBytesLimit: null,
+  };
+
+  beforeEach(() => {
+    localStorage.setItem(RBAC_ACCESS_TOKEN_KEY, 'access-token');
+  });
+
+  it('replaces a role quota with PUT and unwraps it', async () => {
+    let method = '';
+    let captured: unknown = null;
+    server.use(
+      http.put('/api/rbac/roles/r1/quota', async ({ request }) => {
+        method = request.method;
+        captured = await request.json();
+        return HttpResponse.json({ success: true, data: { quota: { roleId: 'r1', ...QUOTA, updatedAt: null, updatedBy: 'u1' } } });
+      })
+    );
+    const quota = await rbacRolesApi.setQuota('r1', QUOTA);
+    expect(method).toBe('PUT');
+    expect(captured).toEqual(QUOTA);
+    expect(quota.dailyQueryLimit).toBe(500);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // rbacAiBaseModelsApi — runtime params passthrough
 // ---------------------------------------------------------------------------
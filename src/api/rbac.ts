@@ -64,6 +64,22 @@ export interface RbacRole {
   userCount?: number;
 }
 
+/** Per-role query resource limits; null = unlimited */
+export interface RoleQueryQuota {
+  maxExecutionTime: number | null;
+  maxMemoryUsage: number | null;
+  maxResultRows: number | null;
+  maxBytesToRead: number | null;
+  dailyQueryLimit: number | null;
+  dailyBytesLimit: number | null;
+}
+
+export interface RoleQueryQuotaResponse extends RoleQueryQuota {
+  roleId: string;
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
 export interface RbacPermission {
   id: string;
   name: string;
@@ -663,6 +679,25 @@ export const rbacRolesApi = {
     await rbacFetch(`/roles/${id}`, { method: 'DELETE' });
   },
 
+  /**
+   * Get the query quota of a role
+   */
+  async getQuota(id: string): Promise<RoleQueryQuotaResponse> {
+    const result = await rbacFetch<{ quota: RoleQueryQuotaResponse }>(`/roles/${id}/quota`);
+    return result.quota;
+  },
+
+  /**
+   * Replace the query quota of a role
+   */
+  async setQuota(id: string, quota: RoleQueryQuota): Promise<RoleQueryQuotaResponse> {
+    const result = await rbacFetch<{ quota: RoleQueryQuotaResponse }>(`/roles/${id}/quota`, {
+      method: 'PUT',
+      body: JSON.stringify(quota),
+    });
+    return result.quota;
+  },
+
   /**
    * List all permissions
    */
@@ -832,6 +867,10 @@ export interface ClickHouseConnection {
   isDefault: boolean;
   isActive: boolean;
   sslEnabled: boolean;
+  /** DDL/DML becomes a change request another user must approve */
+  isProtected: boolean;
+  /** Alerting channels notified about change requests on this connection */
+  approvalChannelIds: string[];
   createdBy: string | null;
   createdAt: string;
   updatedAt: string;
@@ -846,6 +885,8 @@ export interface CreateConnectionInput {
   password?: string;
   database?: string;
   sslEnabled?: boolean;
+  isProtected?: boolean;
+  approvalChannelIds?: string[];
   metadata?: Record<string, unknown>;
 }
 
@@ -857,6 +898,8 @@ export interface UpdateConnectionInput {
   password?: string;
   database?: string | null;
   sslEnabled?: boolean;
+  isProtected?: boolean;
+  approvalChannelIds?: string[];
   isActive?: boolean;
   isDefault?: boolean;
   metadata?: Record<string, unknown>;
@@ -1243,6 +1286,9 @@ export type AccessType = 'read' | 'write' | 'admin';
 export interface DataAccessRule {
   databasePattern: string;
   tablePattern: string;
+  columnPattern: string | null;
+  columnAction: ColumnMaskAction | null;
+  rowFilter: string | null;
   isAllowed: boolean;
   priority: number;
   policyId: string;
@@ -1259,12 +1305,24 @@ export interface AccessCheckResult {
 // Data Access Policy Types
 // ============================================
 
+/**
+ * What a column rule does to matching columns: `deny` rejects queries that
+ * reference them; `hash`, `partial` and `null` rewrite their values in results.
+ */
+export const COLUMN_MASK_ACTIONS = ['deny', 'hash', 'partial', 'null'] as const;
+export type ColumnMaskAction = typeof COLUMN_MASK_ACTIONS[number];
+
 export interface DataAccessPolicyRule {
   id?: string;
   // null = applies to all connections
   connectionId?: string | null;
   databasePattern: string;
   tablePattern: string;
+  // set = column rule: masks matching columns instead of granting the table
+  columnPattern?: string | null;
+  columnAction?: ColumnMaskAction | null;
+  // SQL predicate limiting the rows an allow table rule grants
+  rowFilter?: string | null;
   isAllowed: boolean;
   priority: number;
   description?: string | null;
@@ -1294,6 +1352,15 @@ export interface UpdateDataAccessPolicyInput {
   rules?: Omit<DataAccessPolicyRule, 'id'>[];
 }
 
+/** What one user gets for one table under their current policies */
+export interface DataAccessPreview {
+  allowed: boolean;
+  reason: string | null;
+  /** Combined row filter sent with their queries; null = every row */
+  rowFilter: string | null;
+  columnRules: DataAccessRule[];
+}
+
 // ============================================
 // Data Access API
 // ============================================
@@ -1791,6 +1858,62 @@ export const rbacDataAccessPoliciesApi = {
   async listTables(connectionId: string, database: string): Promise<string[]> {
     return rbacFetch(`/data-access-policies/schema/${connectionId}/tables?database=${encodeURIComponent(database)}`);
   },
+
+  /** Effective access, row filter and column rules of a user for one table */
+  async preview(params: { userId: string; database: string; table: string; connectionId?: string }): Promise<DataAccessPreview> {
+    const query = new URLSearchParams({ userId: params.userId, database: params.database, table: params.table });
+    if (params.connectionId) query.set('connectionId', params.connectionId);
+    return rbacFetch(`/data-access-policies/preview?${query.toString()}`);
+  },
+};
+
+// ============================================
+// Personal API Keys
+// ============================================
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  /** First characters of the key, e.g. `chk_AbCd1234`, for telling keys apart */
+  keyPrefix: string;
+  scopes: string[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: string[];
+  /** Omit or null for a key that never expires */
+  expiresInDays?: number | null;
+}
+
+export interface CreatedApiKey {
+  apiKey: ApiKey;
+  /** Plaintext key — only returned once, at creation */
+  key: string;
+}
+
+export const rbacApiKeysApi = {
+  /** List the current user's API keys */
+  async list(): Promise<ApiKey[]> {
+    return rbacFetch('/api-keys');
+  },
+
+  /** Create an API key scoped to a subset of the current user's permissions */
+  async create(input: CreateApiKeyInput): Promise<CreatedApiKey> {
+    return rbacFetch('/api-keys', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+  },
+
+  /** Revoke an API key */
+  async revoke(id: string): Promise<ApiKey> {
+    return rbacFetch(`/api-keys/${id}`, { method: 'DELETE' });
+  },
 };
 
 // ============================================
@@ -10,6 +10,8 @@ import {
     saveQuery,
     updateSavedQuery,
     deleteSavedQuery,
+    getSavedQueryRevisions,
+    restoreSavedQueryRevision,
 } from './saved-queries';
 
 describe('Saved Queries API', () => {
@@ -119,6 +121,24 @@ describe('Saved Queries API', () => {
         });
     });
 
+    describe('getSavedQueryRevisions', () => {
+        it('should fetch revisions newest first', async () => {
+            const revisions = await getSavedQueryRevisions('query-1');
+
+            expect(revisions.map((r) => r.version)).toEqual([2, 1]);
+            expect(revisions[0].savedQueryId).toBe('query-1');
+        });
+    });
+
+    describe('restoreSavedQueryRevision', () => {
+        it('should return the restored query', async () => {
+            const result = await restoreSavedQueryRevision('query-1', 'rev-1');
+
+            expect(result.id).toBe('query-1');
+            expect(result.query).toBe('SELECT id FROM users');
+        });
+    });
+
     describe('deleteSavedQuery', () => {
         it('should delete a query', async () => {
             const result = await deleteSavedQuery('query-1');
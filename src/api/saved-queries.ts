@@ -11,6 +11,15 @@ import { api } from './client';
 // Types
 // ============================================
 
+export type SavedQueryChartType = 'line' | 'bar' | 'area' | 'pie' | 'scatter';
+
+/** Chart view settings for a query result; omitted axes are inferred from the columns */
+export interface SavedQueryChartConfig {
+  chartType: SavedQueryChartType;
+  xAxis?: string;
+  yAxis?: string[];
+}
+
 export interface SavedQuery {
   id: string;
   userId: string;
@@ -20,10 +29,37 @@ export interface SavedQuery {
   query: string;
   description: string | null;
   isPublic: boolean;
+  /** Stored values for the query's {name:Type} placeholders */
+  parameters: Record<string, string> | null;
+  /** Chart view shown next to the results grid, if one was configured */
+  chartConfig: SavedQueryChartConfig | null;
+  /** Slash-separated folder path, e.g. "Finance/Revenue" (null = top level) */
+  folder: string | null;
+  tags: string[];
   createdAt: string;
   updatedAt: string;
 }
 
+/** Snapshot of a saved query's name, SQL and description after an edit */
+export interface SavedQueryRevision {
+  id: string;
+  savedQueryId: string;
+  version: number;
+  name: string;
+  query: string;
+  description: string | null;
+  editedBy: string | null;
+  createdAt: string;
+}
+
+export interface SavedQueryFilters {
+  /** Matches name, description and SQL; every word must match */
+  search?: string;
+  tag?: string;
+  /** Includes queries in sub-folders */
+  folder?: string;
+}
+
 export interface SaveQueryInput {
   connectionId?: string | null;
   connectionName?: string | null;
@@ -31,6 +67,10 @@ export interface SaveQueryInput {
   query: string;
   description?: string;
   isPublic?: boolean;
+  parameters?: Record<string, string> | null;
+  chartConfig?: SavedQueryChartConfig | null;
+  folder?: string | null;
+  tags?: string[] | null;
 }
 
 export interface UpdateQueryInput {
@@ -40,6 +80,10 @@ export interface UpdateQueryInput {
   isPublic?: boolean;
   connectionId?: string | null;
   connectionName?: string | null;
+  parameters?: Record<string, string> | null;
+  chartConfig?: SavedQueryChartConfig | null;
+  folder?: string | null;
+  tags?: string[] | null;
 }
 
 // ============================================
@@ -48,12 +92,21 @@ export interface UpdateQueryInput {
 
 /**
  * Get all saved queries for the current user
- * Optionally filter by connection ID
+ * Optionally filter by connection ID, search text, tag and folder
  * Returns user's own queries and public queries from other users
  */
-export async function getSavedQueries(connectionId?: string): Promise<SavedQuery[]> {
-  const params = connectionId ? `?connectionId=${encodeURIComponent(connectionId)}` : '';
-  return api.get<SavedQuery[]>(`/saved-queries${params}`);
+export async function getSavedQueries(
+  connectionId?: string,
+  filters?: SavedQueryFilters
+): Promise<SavedQuery[]> {
+  return api.get<SavedQuery[]>('/saved-queries', {
+    params: {
+      connectionId,
+      search: filters?.search || undefined,
+      tag: filters?.tag || undefined,
+      folder: filters?.folder || undefined,
+    },
+  });
 }
 
 /**
@@ -89,6 +142,23 @@ export async function updateSavedQuery(
   return api.put(`/saved-queries/${id}`, input);
 }
 
+/**
+ * Get the revision history of a saved query, newest first
+ */
+export async function getSavedQueryRevisions(id: string): Promise<SavedQueryRevision[]> {
+  return api.get<SavedQueryRevision[]>(`/saved-queries/${id}/revisions`);
+}
+
+/**
+ * Restore a saved query to an earlier revision (recorded as a new revision)
+ */
+export async function restoreSavedQueryRevision(
+  id: string,
+  revisionId: string
+): Promise<SavedQuery> {
+  return api.post(`/saved-queries/${id}/revisions/${revisionId}/restore`);
+}
+
 /**
  * Delete a saved query
  */
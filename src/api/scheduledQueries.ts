@@ -240,6 +240,8 @@ export interface LineageTableNode {
   table: string;
   columns: string[];
   produced: boolean;
+  /** Table engine, for tables that came from system.tables */
+  engine?: string;
 }
 
 export interface LineageJobNode {
@@ -255,12 +257,23 @@ export interface LineageJobNode {
 
 export type LineageNode = LineageTableNode | LineageJobNode;
 
+/**
+ * `read` / `write` connect tables and jobs; the rest connect two tables
+ * (materialized view chains, Distributed → local, dictionary sources, and
+ * INSERT … SELECT seen in query_log).
+ */
+export type LineageEdgeKind = "read" | "write" | "materialized_view" | "distributed" | "dictionary" | "insert";
+
 export interface LineageEdge {
   id: string;
   from: string;
   to: string;
-  kind: "read" | "write";
+  kind: LineageEdgeKind;
   columns: string[];
+  /** `insert` edges: matching INSERT queries in the window */
+  queryCount?: number;
+  /** `insert` edges: ClickHouse users that ran them */
+  users?: string[];
 }
 
 export interface LineageGraph {
@@ -271,6 +284,8 @@ export interface LineageGraph {
   nodes: LineageNode[];
   edges: LineageEdge[];
   note?: string;
+  /** True when the graph was cut off at the server's node limit */
+  truncated?: boolean;
 }
 
 export async function getLineage(id: string, windowDays = 14): Promise<LineageGraph> {
@@ -6,6 +6,7 @@
  *   - resolveYAxes(): normalises yAxis to string[]
  *   - formatAxisValue(): compacts large numbers
  *   - buildColorPalette(): returns the correct colour array for each scheme
+ *   - inferXAxis() / inferYAxes() / buildResultChartSpec(): SQL tab result charts
  */
 
 import { describe, it, expect } from 'vitest';
@@ -17,6 +18,10 @@ import {
     humanizeAxisName,
     normalizeChartSpec,
     toFiniteNumber,
+    inferXAxis,
+    inferYAxes,
+    buildResultChartSpec,
+    RESULT_CHART_MAX_ROWS,
 } from './AiChartUtils';
 import type { ChartSpec } from '../../api/ai-chat';
 
@@ -255,3 +260,52 @@ describe('AiChartRenderer / buildColorPalette', () => {
         });
     });
 });
+
+// ============================================
+// Result-set charting
+// ============================================
+
+describe('AiChartRenderer / result charts', () => {
+    const columns = [
+        { name: 'engine', type: 'LowCardinality(String)' },
+        { name: 'day', type: 'Date' },
+        { name: 'rows', type: 'UInt64' },
+        { name: 'bytes', type: 'Nullable(Float64)' },
+    ];
+
+    it('prefers a date column for X, then a string column, then the first', () => {
+        expect(inferXAxis(columns)).toBe('day');
+        expect(inferXAxis(columns.filter((c) => c.name !== 'day'))).toBe('engine');
+        expect(inferXAxis([{ name: 'a', type: 'UInt8' }, { name: 'b', type: 'UInt8' }])).toBe('a');
+    });
+
+    it('uses every numeric non-X column for Y', () => {
+        expect(inferYAxes(columns, 'day')).toEqual(['rows', 'bytes']);
+        expect(inferYAxes(columns.slice(0, 3), 'day')).toBe('rows');
+    });
+
+    it('infers axes when the config names none', () => {
+        const spec = buildResultChartSpec(columns, [{ engine: 'MergeTree', day: '2024-01-01', rows: 1, bytes: 2 }], { chartType: 'line' });
+        expect(spec.chartType).toBe('line');
+        expect(spec.xAxis).toBe('day');
+        expect(spec.yAxis).toEqual(['rows', 'bytes']);
+    });
+
+    it('honours configured axes and ignores ones missing from the result', () => {
+        const spec = buildResultChartSpec(columns, [], { chartType: 'bar', xAxis: 'engine', yAxis: ['bytes', 'gone'] });
+        expect(spec.xAxis).toBe('engine');
+        expect(spec.yAxis).toBe('bytes');
+
+        const stale = buildResultChartSpec(columns, [], { chartType: 'bar', xAxis: 'gone' });
+        expect(stale.xAxis).toBe('day');
+    });
+
+    it('picks a numeric X axis for scatter plots', () => {
+        expect(buildResultChartSpec(columns, [], { chartType: 'scatter' }).xAxis).toBe('rows');
+    });
+
+    it('caps the plotted rows', () => {
+        const rows = Array.from({ length: RESULT_CHART_MAX_ROWS + 5 }, (_, i) => ({ day: String(i), rows: i }));
+        expect(buildResultChartSpec(columns, rows, { chartType: 'bar' }).rows).toHaveLength(RESULT_CHART_MAX_ROWS);
+    });
+});
@@ -6,6 +6,7 @@
  */
 
 import type { ChartSpec } from '@/api/ai-chat';
+import type { SavedQueryChartConfig } from '@/api/saved-queries';
 
 // ============================================
 // Color Palettes
@@ -220,6 +221,82 @@ export function buildColorPalette(scheme: string): string[] {
     return getPalette(scheme);
 }
 
+// ============================================
+// Result-set charting (SQL workspace)
+// ============================================
+
+/** Rows beyond this are not plotted — Recharts slows to a crawl past a few thousand points */
+export const RESULT_CHART_MAX_ROWS = 1000;
+
+/** Returns true when the ClickHouse column type looks like a number. */
+export function isNumericColumnType(type: string): boolean {
+    return NUMERIC_TYPE_PATTERN.test(type);
+}
+
+/**
+ * Infer the best X-axis column: prefer DateTime/Date/String, else the first column.
+ * MUST stay in sync with inferXAxis in packages/server/src/services/agentTools.ts.
+ */
+export function inferXAxis(columns: { name: string; type: string }[]): string {
+    const dateCol = columns.find((c) =>
+        c.type.startsWith('DateTime') || c.type.startsWith('Date') ||
+        c.type.startsWith('Nullable(DateTime') || c.type.startsWith('Nullable(Date'));
+    if (dateCol) return dateCol.name;
+
+    const stringCol = columns.find((c) =>
+        c.type.startsWith('String') || c.type.startsWith('Nullable(String') || c.type.startsWith('LowCardinality'));
+    if (stringCol) return stringCol.name;
+
+    return columns[0]?.name ?? '';
+}
+
+/**
+ * Infer Y-axis column(s): all numeric columns that are NOT the X axis.
+ * MUST stay in sync with inferYAxes in packages/server/src/services/agentTools.ts.
+ */
+export function inferYAxes(columns: { name: string; type: string }[], xAxis: string): string | string[] {
+    const numericCols = columns
+        .filter((c) => c.name !== xAxis && isNumericColumnType(c.type))
+        .map((c) => c.name);
+
+    if (numericCols.length === 1) return numericCols[0];
+    if (numericCols.length > 1) return numericCols;
+
+    const fallback = columns.find((c) => c.name !== xAxis);
+    return fallback ? fallback.name : columns[0]?.name ?? '';
+}
+
+/**
+ * Build a ChartSpec for a query result. Axes named in `config` win when they
+ * still exist in the result; otherwise the same heuristics as the AI
+ * `render_chart` tool pick them. Scatter plots prefer a numeric X axis.
+ */
+export function buildResultChartSpec(
+    columns: { name: string; type: string }[],
+    rows: Record<string, unknown>[],
+    config: SavedQueryChartConfig,
+): ChartSpec {
+    const names = new Set(columns.map((c) => c.name));
+    const inferredX = config.chartType === 'scatter'
+        ? columns.find((c) => isNumericColumnType(c.type))?.name ?? inferXAxis(columns)
+        : inferXAxis(columns);
+    const xAxis = config.xAxis && names.has(config.xAxis) ? config.xAxis : inferredX;
+
+    const requestedY = (config.yAxis ?? []).filter((axis) => names.has(axis) && axis !== xAxis);
+    const yAxis = requestedY.length > 0
+        ? (requestedY.length === 1 ? requestedY[0] : requestedY)
+        : inferYAxes(columns, xAxis);
+
+    return {
+        chartType: config.chartType,
+        columns,
+        rows: rows.slice(0, RESULT_CHART_MAX_ROWS),
+        xAxis,
+        yAxis,
+        colorScheme: 'violet',
+    };
+}
+
 // ============================================
 // Styles
 // ============================================
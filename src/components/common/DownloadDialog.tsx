@@ -9,12 +9,24 @@ import {
 import { Button } from "@/components/ui/button";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Download, AlertCircle } from "lucide-react";
 import Papa from "papaparse";
 import { toast } from "sonner";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { log } from "@/lib/log";
+import {
+  exportQueryResult,
+  type QueryExportCompression,
+  type QueryExportFormat,
+} from "@/api/query";
 
 interface DownloadDialogProps {
   data: any[];
@@ -22,9 +34,24 @@ interface DownloadDialogProps {
   filename?: string;
   maxRows?: number;
   trigger?: React.ReactNode;
+  /**
+   * The query behind `data`. When given, the file formats are exported by the
+   * server from the full result instead of from the rows loaded here.
+   */
+  query?: string;
+  queryParams?: Record<string, string>;
 }
 
-type ExportFormat = "csv" | "json" | "clipboard";
+type ExportFormat = "json" | "clipboard" | QueryExportFormat;
+
+/** Formats only the server can write, offered when a query is available. */
+const SERVER_FORMATS: { value: QueryExportFormat; label: string }[] = [
+  { value: "tsv", label: "TSV" },
+  { value: "ndjson", label: "NDJSON" },
+  { value: "parquet", label: "Parquet" },
+  { value: "arrow", label: "Arrow" },
+  { value: "xlsx", label: "Excel (XLSX)" },
+];
 
 const CHUNK_SIZE = 10000; // Number of rows to process at once
 
@@ -57,20 +84,44 @@ const prepareRowForCsv = (row: Record<string, unknown>): Record<string, string |
   return prepared;
 };
 
+/**
+ * Hands `blob` to the browser as a download named `filename`.
+ */
+const saveBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+};
 
 const DownloadDialog: React.FC<DownloadDialogProps> = ({
   data,
   onExport,
   maxRows = 1000000,
   trigger,
+  query,
+  queryParams,
 }) => {
   const [downloadOption, setDownloadOption] = useState<ExportFormat>("csv");
+  const [compression, setCompression] = useState<QueryExportCompression>("none");
   const [estimatedSize, setEstimatedSize] = useState<string>("");
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
   const [open, setOpen] = useState(false);
 
+  const isServerExport = !!query && downloadOption !== "json" && downloadOption !== "clipboard";
+
   const estimateSize = useCallback(async () => {
+    // The server exports the full result, so the loaded rows say nothing about its size
+    if (isServerExport) {
+      setEstimatedSize("");
+      return;
+    }
+
     if (data.length === 0) {
       setEstimatedSize("0 B");
       return;
@@ -106,7 +157,7 @@ const DownloadDialog: React.FC<DownloadDialogProps> = ({
     }
 
     setEstimatedSize(formatBytes(size));
-  }, [data, downloadOption]);
+  }, [data, downloadOption, isServerExport]);
 
   useEffect(() => {
     estimateSize();
@@ -242,6 +293,14 @@ const DownloadDialog: React.FC<DownloadDialogProps> = ({
       setIsProcessing(true);
       setProgress(0);
 
+      if (isServerExport && query) {
+        const file = await exportQueryResult(query, downloadOption as QueryExportFormat, compression, queryParams);
+        saveBlob(file.blob, file.filename);
+        toast.success("Download started!", { duration: 2000 });
+        setOpen(false);
+        return;
+      }
+
       if (data.length > maxRows) {
         toast.error(`Cannot export more than ${maxRows.toLocaleString()} rows`);
         return;
@@ -263,23 +322,19 @@ const DownloadDialog: React.FC<DownloadDialogProps> = ({
         await navigator.clipboard.writeText(text);
         toast.success("Copied to clipboard!", { duration: 2000 });
       } else {
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement("a");
-        a.href = url;
-        a.download = `${exportFilename}.${downloadOption}`;
-        document.body.appendChild(a);
-        a.click();
-        URL.revokeObjectURL(url);
-        document.body.removeChild(a);
+        saveBlob(blob, `${exportFilename}.${downloadOption}`);
         toast.success("Download started!", { duration: 2000 });
       }
 
       setOpen(false);
     } catch (error) {
       log.error("Export error:", error);
-      toast.error("Failed to export data. Please try again.", {
-        duration: 2000,
-      });
+      toast.error(
+        isServerExport && error instanceof Error
+          ? error.message
+          : "Failed to export data. Please try again.",
+        { duration: 2000 }
+      );
     } finally {
       setIsProcessing(false);
       setProgress(0);
@@ -317,6 +372,12 @@ const DownloadDialog: React.FC<DownloadDialogProps> = ({
               <RadioGroupItem value="csv" id="csv" />
               <Label htmlFor="csv">CSV</Label>
             </div>
+            {query && SERVER_FORMATS.map(({ value, label }) => (
+              <div key={value} className="flex items-center space-x-2">
+                <RadioGroupItem value={value} id={value} />
+                <Label htmlFor={value}>{label}</Label>
+              </div>
+            ))}
             <div className="flex items-center space-x-2">
               <RadioGroupItem value="json" id="json" />
               <Label htmlFor="json">JSON</Label>
@@ -327,9 +388,31 @@ const DownloadDialog: React.FC<DownloadDialogProps> = ({
             </div>
           </RadioGroup>
 
+          {isServerExport && (
+            <div className="space-y-2">
+              <Label htmlFor="export-compression">Compression</Label>
+              <Select
+                value={compression}
+                onValueChange={(value) => setCompression(value as QueryExportCompression)}
+              >
+                <SelectTrigger id="export-compression">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  <SelectItem value="gzip">gzip</SelectItem>
+                  <SelectItem value="zstd">zstd</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-paper-faint">
+                Exports the full query result from the server, not just the loaded rows.
+              </p>
+            </div>
+          )}
+
           <div className="text-sm text-paper-faint">
-            Estimated size: {estimatedSize}
-            {data.length > maxRows && (
+            {estimatedSize && <>Estimated size: {estimatedSize}</>}
+            {!isServerExport && data.length > maxRows && (
               <div className="flex items-center mt-2 text-amber-500">
                 <AlertCircle className="h-4 w-4 mr-2" />
                 Warning: Large dataset ({data.length.toLocaleString()} rows)
@@ -19,6 +19,7 @@ vi.mock("@/stores", () => ({
   RBAC_PERMISSIONS: {
     FLEET_VIEW: "fleet:view",
     DOCTOR_VIEW: "doctor:view",
+    DASHBOARDS_VIEW: "dashboards:view",
   },
   useRbacStore: () => ({
     hasAnyPermission: () => true,
@@ -25,6 +25,9 @@ import {
   Pin,
   PinOff,
   BookOpen,
+  LayoutGrid,
+  GitPullRequestArrow,
+  ArchiveRestore,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { log } from "@/lib/log";
@@ -375,12 +378,23 @@ export default function FloatingDock() {
 
   const canViewFleet = hasAnyPermission([RBAC_PERMISSIONS.FLEET_VIEW]);
   const canViewDoctor = hasAnyPermission([RBAC_PERMISSIONS.DOCTOR_VIEW]);
+  const canViewDashboards = hasAnyPermission([RBAC_PERMISSIONS.DASHBOARDS_VIEW]);
+  const canViewBackups = hasAnyPermission([RBAC_PERMISSIONS.BACKUPS_VIEW]);
+  // Approvers review the queue; anyone who can run DDL/DML follows their own requests
+  const canViewChangeRequests = hasAnyPermission([
+    RBAC_PERMISSIONS.CHANGE_REQUESTS_APPROVE,
+    RBAC_PERMISSIONS.QUERY_EXECUTE_DDL,
+    RBAC_PERMISSIONS.QUERY_EXECUTE_DML,
+  ]);
 
   const navItems = [
     ...(canViewFleet ? [{ icon: Globe2, label: "Fleet", to: "/fleet" }] : []),
     ...(canViewDoctor ? [{ icon: Stethoscope, label: "Doctor", to: "/doctor" }] : []),
     { icon: LayoutDashboard, label: "Home", to: "/overview" },
     ...(canViewExplorer ? [{ icon: Database, label: "Explorer", to: "/explorer" }] : []),
+    ...(canViewDashboards ? [{ icon: LayoutGrid, label: "Dashboards", to: "/dashboards" }] : []),
+    ...(canViewChangeRequests ? [{ icon: GitPullRequestArrow, label: "Changes", to: "/change-requests" }] : []),
+    ...(canViewBackups ? [{ icon: ArchiveRestore, label: "Backups", to: "/backups" }] : []),
     ...(canViewMonitoring ? [{ icon: Activity, label: "Monitoring", to: "/monitoring" }] : []),
     ...(canViewDataOps ? [{ icon: Workflow, label: "DataOps", to: "/dataops" }] : []),
     ...(canViewAdmin ? [{ icon: Shield, label: "Admin", to: "/admin" }] : []),
@@ -12,6 +12,9 @@ const ROUTE_TITLES: Record<string, string> = {
     "/overview": "Overview",
     "/monitoring": "Monitoring",
     "/explorer": "Explorer",
+    "/dashboards": "Dashboards",
+    "/change-requests": "Change Requests",
+    "/backups": "Backups",
     "/settings": "Settings",
     "/login": "Login",
 };
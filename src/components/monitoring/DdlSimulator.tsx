@@ -83,7 +83,7 @@ export function DdlSimulator() {
   );
 }
 
-function EstimateCard({ result }: { result: DdlImpactEstimate }) {
+export function EstimateCard({ result }: { result: DdlImpactEstimate }) {
   const affectedPct =
     result.total_rows > 0 ? (result.affected_rows / result.total_rows) * 100 : 0;
 
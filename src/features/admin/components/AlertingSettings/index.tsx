@@ -1,8 +1,8 @@
 /**
- * Alerting settings — a single Admin → Settings section that stacks three
- * panels (notification channels, alert rules, recent alerts) over the normalized
- * alerting model, mirroring the SSO section's single-section / stacked-panel
- * layout.
+ * Alerting settings — a single Admin → Settings section that stacks panels
+ * (notification channels, alert rules, silences, maintenance windows, fleet
+ * incidents, operational digests, recent alerts) over the normalized alerting model, mirroring the SSO section's
+ * single-section / stacked-panel layout.
  *
  * The channel editor renders its config fields dynamically from
  * CHANNEL_FIELD_SPECS, so each channel type (Slack / Google Chat / Email /
@@ -28,6 +28,12 @@ import {
   ChevronLeft,
   ChevronRight,
   ChevronDown,
+  BellOff,
+  CalendarClock,
+  Check,
+  Siren,
+  Newspaper,
+  Eye,
   type LucideIcon,
 } from "lucide-react";
 
@@ -59,13 +65,31 @@ import {
   deleteRule,
   listEvents,
   clearEvents,
+  acknowledgeEvent,
+  listIncidents,
+  acknowledgeIncident,
+  listSilences,
+  deleteSilence,
+  listMaintenanceWindows,
+  deleteMaintenanceWindow,
+  listDigests,
+  deleteDigest,
+  sendDigest,
   CHANNEL_TYPE_LABELS,
   ALERT_SOURCE_TYPE_LABELS,
   type NotificationChannel,
   type AlertRule,
+  type AlertSilence,
+  type MaintenanceWindow,
+  type OpsDigest,
 } from "@/api/alerting";
 import { ChannelDialog, ALERTING_KEYS } from "@/features/alerting/ChannelDialog";
 import { RuleDialog } from "@/features/alerting/RuleDialog";
+import { SilenceDialog } from "@/features/alerting/SilenceDialog";
+import { MaintenanceWindowDialog } from "@/features/alerting/MaintenanceWindowDialog";
+import { describeScope } from "@/features/alerting/ScopeFields";
+import { IncidentDialog, incidentStatus } from "@/features/alerting/IncidentDialog";
+import { DigestDialog, DigestPreviewDialog } from "@/features/alerting/DigestDialog";
 
 const PANEL_TITLE = "font-mono text-[11px] uppercase tracking-[0.14em] text-paper";
 const ADD_BTN =
@@ -158,6 +182,11 @@ function PanelCard({
 const CHANNELS_KEY = ALERTING_KEYS.channels;
 const RULES_KEY = ALERTING_KEYS.rules;
 const EVENTS_KEY = ALERTING_KEYS.events;
+const SILENCES_KEY = ALERTING_KEYS.silences;
+const WINDOWS_KEY = ALERTING_KEYS.maintenanceWindows;
+const INCIDENTS_KEY = ALERTING_KEYS.incidents;
+const DIGESTS_KEY = ALERTING_KEYS.digests;
+const BADGE = "inline-flex items-center rounded-xs border px-1.5 py-0.5 font-mono text-[9px] uppercase tracking-[0.12em]";
 
 function errMessage(e: unknown): string {
   return e instanceof Error ? e.message : "Something went wrong";
@@ -454,6 +483,520 @@ function RulesPanel({ canEdit, canDelete }: { canEdit: boolean; canDelete: boole
   );
 }
 
+// ============================================
+// Silences panel
+// ============================================
+
+function silenceStatus(s: AlertSilence, now: number): { label: string; className: string } {
+  if (now < s.startsAt) return { label: "Scheduled", className: "border-ink-500 bg-ink-100 text-paper-muted" };
+  if (now < s.endsAt) return { label: "Active", className: "border-amber-900/60 bg-amber-950/30 text-amber-300" };
+  return { label: "Expired", className: "border-ink-500 bg-ink-100 text-paper-faint" };
+}
+
+function SilencesPanel({ canEdit, canDelete }: { canEdit: boolean; canDelete: boolean }) {
+  const queryClient = useQueryClient();
+  const { data: silences, isLoading } = useQuery({ queryKey: SILENCES_KEY, queryFn: listSilences });
+  const { data: rules } = useQuery({ queryKey: RULES_KEY, queryFn: listRules });
+  const ruleNames = useMemo(() => new Map((rules ?? []).map((r) => [r.id, r.name])), [rules]);
+  const total = silences?.length ?? 0;
+  const [page, setPage] = useClampedPage(total);
+  const pagedSilences = (silences ?? []).slice(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE);
+  const [dialog, setDialog] = useState<{ open: boolean; silence: AlertSilence | null }>({ open: false, silence: null });
+  const [deleting, setDeleting] = useState<AlertSilence | null>(null);
+  const now = Date.now();
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => deleteSilence(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SILENCES_KEY });
+      toast.success("Silence deleted");
+      setDeleting(null);
+    },
+    onError: (e) => toast.error(errMessage(e)),
+  });
+
+  return (
+    <PanelCard
+      icon={BellOff}
+      title="Silences"
+      defaultOpen={false}
+      action={
+        canEdit && (
+          <Button size="sm" className={ADD_BTN} onClick={() => setDialog({ open: true, silence: null })}>
+            <Plus className="h-3.5 w-3.5" />
+            Add silence
+          </Button>
+        )
+      }
+    >
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-paper-dim" />
+        </div>
+      ) : !silences || silences.length === 0 ? (
+        <p className="py-6 text-center font-mono text-[11px] uppercase tracking-[0.14em] text-paper-dim">
+          No silences
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {pagedSilences.map((sl) => {
+            const status = silenceStatus(sl, now);
+            return (
+              <div key={sl.id} className={ROW}>
+                <span className={cn(BADGE, status.className)}>{status.label}</span>
+                <div className="min-w-0 flex-1">
+                  <div className="truncate text-[13px] text-paper">{sl.name}</div>
+                  <div className="truncate font-mono text-[9px] uppercase tracking-[0.12em] text-paper-faint">
+                    {new Date(sl.startsAt).toLocaleString()} → {new Date(sl.endsAt).toLocaleString()} ·{" "}
+                    {describeScope(sl, ruleNames)}
+                  </div>
+                </div>
+                {(canEdit || canDelete) && (
+                  <div className="flex items-center gap-1">
+                    {canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title="Edit"
+                        onClick={() => setDialog({ open: true, silence: sl })}
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                    {canDelete && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-red-400 hover:text-red-300"
+                        title="Delete"
+                        onClick={() => setDeleting(sl)}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <Pager page={page} total={total} onPage={setPage} />
+
+      <SilenceDialog
+        open={dialog.open}
+        silence={dialog.silence}
+        onClose={() => setDialog({ open: false, silence: null })}
+      />
+
+      <AlertDialog open={deleting !== null} onOpenChange={(o) => !o && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete silence?</AlertDialogTitle>
+            <AlertDialogDescription>
+              “{deleting?.name}” will be removed and matching alerts are delivered again. This cannot
+              be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              className="bg-red-600 hover:bg-red-500"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </PanelCard>
+  );
+}
+
+// ============================================
+// Maintenance windows panel
+// ============================================
+
+function MaintenanceWindowsPanel({ canEdit, canDelete }: { canEdit: boolean; canDelete: boolean }) {
+  const queryClient = useQueryClient();
+  const { data: windows, isLoading } = useQuery({ queryKey: WINDOWS_KEY, queryFn: listMaintenanceWindows });
+  const { data: rules } = useQuery({ queryKey: RULES_KEY, queryFn: listRules });
+  const ruleNames = useMemo(() => new Map((rules ?? []).map((r) => [r.id, r.name])), [rules]);
+  const total = windows?.length ?? 0;
+  const [page, setPage] = useClampedPage(total);
+  const pagedWindows = (windows ?? []).slice(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE);
+  const [dialog, setDialog] = useState<{ open: boolean; window: MaintenanceWindow | null }>({ open: false, window: null });
+  const [deleting, setDeleting] = useState<MaintenanceWindow | null>(null);
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => deleteMaintenanceWindow(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: WINDOWS_KEY });
+      toast.success("Maintenance window deleted");
+      setDeleting(null);
+    },
+    onError: (e) => toast.error(errMessage(e)),
+  });
+
+  return (
+    <PanelCard
+      icon={CalendarClock}
+      title="Maintenance windows"
+      defaultOpen={false}
+      action={
+        canEdit && (
+          <Button size="sm" className={ADD_BTN} onClick={() => setDialog({ open: true, window: null })}>
+            <Plus className="h-3.5 w-3.5" />
+            Add window
+          </Button>
+        )
+      }
+    >
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-paper-dim" />
+        </div>
+      ) : !windows || windows.length === 0 ? (
+        <p className="py-6 text-center font-mono text-[11px] uppercase tracking-[0.14em] text-paper-dim">
+          No maintenance windows
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {pagedWindows.map((w) => (
+            <div key={w.id} className={ROW}>
+              <span className={cn(BADGE, "border-ink-500 bg-ink-100 font-mono text-paper-muted normal-case tracking-normal")}>
+                {w.cronExpr}
+              </span>
+              <div className="min-w-0 flex-1">
+                <div className="truncate text-[13px] text-paper">{w.name}</div>
+                <div className="truncate font-mono text-[9px] uppercase tracking-[0.12em] text-paper-faint">
+                  {w.durationMinutes} min · {w.timezone} · {describeScope(w, ruleNames)}
+                  {w.enabled ? "" : " · disabled"}
+                </div>
+              </div>
+              {(canEdit || canDelete) && (
+                <div className="flex items-center gap-1">
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Edit"
+                      onClick={() => setDialog({ open: true, window: w })}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                  {canDelete && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-red-400 hover:text-red-300"
+                      title="Delete"
+                      onClick={() => setDeleting(w)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      <Pager page={page} total={total} onPage={setPage} />
+
+      <MaintenanceWindowDialog
+        open={dialog.open}
+        window={dialog.window}
+        onClose={() => setDialog({ open: false, window: null })}
+      />
+
+      <AlertDialog open={deleting !== null} onOpenChange={(o) => !o && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete maintenance window?</AlertDialogTitle>
+            <AlertDialogDescription>
+              “{deleting?.name}” will stop muting alerts. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              className="bg-red-600 hover:bg-red-500"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </PanelCard>
+  );
+}
+
+// ============================================
+// Incidents panel
+// ============================================
+
+function IncidentsPanel({ canEdit }: { canEdit: boolean }) {
+  const queryClient = useQueryClient();
+  const [showResolved, setShowResolved] = useState(false);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const status = showResolved ? "all" : "active";
+  const { data: incidents, isLoading } = useQuery({
+    queryKey: [...INCIDENTS_KEY, "list", status],
+    queryFn: () => listIncidents(status, 100),
+  });
+  const [page, setPage] = useClampedPage(incidents?.length ?? 0);
+  const visible = (incidents ?? []).slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  const ackMutation = useMutation({
+    mutationFn: (id: string) => acknowledgeIncident(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: INCIDENTS_KEY });
+      queryClient.invalidateQueries({ queryKey: EVENTS_KEY });
+      toast.success("Incident acknowledged");
+    },
+    onError: (e) => toast.error(errMessage(e)),
+  });
+
+  return (
+    <PanelCard
+      icon={Siren}
+      title="Fleet incidents"
+      action={
+        <label className="ml-auto flex items-center gap-2 font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim">
+          Show resolved
+          <Switch checked={showResolved} onCheckedChange={setShowResolved} />
+        </label>
+      }
+    >
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-paper-dim" />
+        </div>
+      ) : !incidents || incidents.length === 0 ? (
+        <p className="py-6 text-center font-mono text-[11px] uppercase tracking-[0.14em] text-paper-dim">
+          {showResolved ? "No incidents yet" : "No open incidents"}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {visible.map((inc) => {
+            const st = incidentStatus(inc);
+            return (
+              <div key={inc.id} className={ROW}>
+                <ShieldAlert
+                  className={cn("h-3.5 w-3.5 shrink-0", inc.severity === "critical" ? "text-red-400" : "text-amber-400")}
+                />
+                <button type="button" onClick={() => setOpenId(inc.id)} className="min-w-0 flex-1 text-left">
+                  <div className="truncate text-[12px] text-paper hover:underline">{inc.summary}</div>
+                  <div className="font-mono text-[9px] uppercase tracking-[0.12em] text-paper-faint">
+                    Opened {new Date(inc.openedAt).toLocaleString()}
+                    {inc.resolvedAt ? ` · resolved ${new Date(inc.resolvedAt).toLocaleString()}` : ""}
+                  </div>
+                </button>
+                <span className={cn(BADGE, st.className)}>{st.label}</span>
+                {canEdit && (inc.status === "open" || inc.status === "snoozed") && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 gap-1 px-2 font-mono text-[10px] uppercase tracking-[0.12em]"
+                    title="Acknowledge — stops escalation"
+                    disabled={ackMutation.isPending && ackMutation.variables === inc.id}
+                    onClick={() => ackMutation.mutate(inc.id)}
+                  >
+                    <Check className="h-3 w-3" /> Ack
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+          <Pager page={page} total={incidents.length} onPage={setPage} />
+        </div>
+      )}
+
+      <IncidentDialog incidentId={openId} canEdit={canEdit} onClose={() => setOpenId(null)} />
+    </PanelCard>
+  );
+}
+
+// ============================================
+// Digests panel
+// ============================================
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/** "daily 08:00 UTC", "weekly Mon 08:00 UTC", "cron 0 8 * * 1-5 UTC". */
+function describeCadence(d: OpsDigest): string {
+  const at = `${String(d.hour).padStart(2, "0")}:00`;
+  switch (d.frequency) {
+    case "weekly":
+      return `weekly ${DAY_NAMES[d.dayOfWeek] ?? ""} ${at} ${d.timezone}`;
+    case "monthly":
+      return `monthly day ${d.dayOfMonth} ${at} ${d.timezone}`;
+    case "cron":
+      return `cron ${d.cronExpr ?? ""} ${d.timezone}`;
+    default:
+      return `daily ${at} ${d.timezone}`;
+  }
+}
+
+function DigestsPanel({ canEdit, canDelete }: { canEdit: boolean; canDelete: boolean }) {
+  const queryClient = useQueryClient();
+  const { data: digests, isLoading } = useQuery({ queryKey: DIGESTS_KEY, queryFn: listDigests });
+  const total = digests?.length ?? 0;
+  const [page, setPage] = useClampedPage(total);
+  const pagedDigests = (digests ?? []).slice(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE);
+  const [dialog, setDialog] = useState<{ open: boolean; digest: OpsDigest | null }>({ open: false, digest: null });
+  const [previewing, setPreviewing] = useState<OpsDigest | null>(null);
+  const [deleting, setDeleting] = useState<OpsDigest | null>(null);
+
+  const sendMutation = useMutation({
+    mutationFn: (id: string) => sendDigest(id),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: DIGESTS_KEY });
+      if (result.failures.length > 0) toast.error(`Sent with errors: ${result.failures.join("; ")}`);
+      else if (result.delivered.length === 0) toast.warning("Nothing to deliver to — add a channel");
+      else toast.success(`Digest sent to ${result.delivered.length} destination${result.delivered.length === 1 ? "" : "s"}`);
+    },
+    onError: (e) => toast.error(errMessage(e)),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => deleteDigest(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: DIGESTS_KEY });
+      toast.success("Digest deleted");
+      setDeleting(null);
+    },
+    onError: (e) => toast.error(errMessage(e)),
+  });
+
+  return (
+    <PanelCard
+      icon={Newspaper}
+      title="Digests"
+      defaultOpen={false}
+      action={
+        canEdit && (
+          <Button size="sm" className={ADD_BTN} onClick={() => setDialog({ open: true, digest: null })}>
+            <Plus className="h-3.5 w-3.5" />
+            Add digest
+          </Button>
+        )
+      }
+    >
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-paper-dim" />
+        </div>
+      ) : !digests || digests.length === 0 ? (
+        <p className="py-6 text-center font-mono text-[11px] uppercase tracking-[0.14em] text-paper-dim">
+          No digests
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {pagedDigests.map((d) => (
+            <div key={d.id} className={ROW}>
+              <span className={cn(BADGE, "border-ink-500 bg-ink-100 text-paper-muted")}>
+                {d.windowDays === 1 ? "24h" : `${d.windowDays}d`}
+              </span>
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <span className="truncate text-[13px] text-paper">{d.name}</span>
+                  {d.lastError && (
+                    <span className={cn(BADGE, "border-red-500/40 text-red-400")} title={d.lastError}>
+                      Last send failed
+                    </span>
+                  )}
+                </div>
+                <div className="truncate font-mono text-[9px] uppercase tracking-[0.12em] text-paper-faint">
+                  {describeCadence(d)} · {d.channelIds.length} channel{d.channelIds.length === 1 ? "" : "s"} ·{" "}
+                  {d.subscriberCount} subscriber{d.subscriberCount === 1 ? "" : "s"}
+                  {d.enabled
+                    ? d.nextRuns[0]
+                      ? ` · next ${new Date(d.nextRuns[0]).toLocaleString()}`
+                      : ""
+                    : " · disabled"}
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="icon" className="h-7 w-7" title="Preview" onClick={() => setPreviewing(d)}>
+                  <Eye className="h-3.5 w-3.5" />
+                </Button>
+                {canEdit && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Send now"
+                      disabled={sendMutation.isPending}
+                      onClick={() => sendMutation.mutate(d.id)}
+                    >
+                      {sendMutation.isPending && sendMutation.variables === d.id ? (
+                        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                      ) : (
+                        <Send className="h-3.5 w-3.5" />
+                      )}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Edit"
+                      onClick={() => setDialog({ open: true, digest: d })}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                  </>
+                )}
+                {canDelete && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-red-400 hover:text-red-300"
+                    title="Delete"
+                    onClick={() => setDeleting(d)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      <Pager page={page} total={total} onPage={setPage} />
+
+      <DigestDialog open={dialog.open} digest={dialog.digest} onClose={() => setDialog({ open: false, digest: null })} />
+      <DigestPreviewDialog digest={previewing} onClose={() => setPreviewing(null)} />
+
+      <AlertDialog open={deleting !== null} onOpenChange={(o) => !o && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete digest?</AlertDialogTitle>
+            <AlertDialogDescription>
+              “{deleting?.name}” will stop being sent, and its subscribers are dropped. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              className="bg-red-600 hover:bg-red-500"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </PanelCard>
+  );
+}
+
 // ============================================
 // Events panel
 // ============================================
@@ -465,11 +1008,20 @@ const CLEAR_RANGES: { label: string; olderThanMs: number | null }[] = [
   { label: "All recent alerts", olderThanMs: null },
 ];
 
-function EventsPanel({ canDelete }: { canDelete: boolean }) {
+function EventsPanel({ canEdit, canDelete }: { canEdit: boolean; canDelete: boolean }) {
   const queryClient = useQueryClient();
   const { data: events, isLoading } = useQuery({ queryKey: EVENTS_KEY, queryFn: () => listEvents(50) });
   const [confirming, setConfirming] = useState<(typeof CLEAR_RANGES)[number] | null>(null);
 
+  const ackMutation = useMutation({
+    mutationFn: (id: string) => acknowledgeEvent(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: EVENTS_KEY });
+      toast.success("Alert acknowledged");
+    },
+    onError: (e) => toast.error(errMessage(e)),
+  });
+
   const clearMutation = useMutation({
     mutationFn: (range: (typeof CLEAR_RANGES)[number]) =>
       clearEvents(range.olderThanMs === null ? undefined : Date.now() - range.olderThanMs),
@@ -527,8 +1079,28 @@ function EventsPanel({ canDelete }: { canDelete: boolean }) {
                 <div className="font-mono text-[9px] uppercase tracking-[0.12em] text-paper-faint">
                   {new Date(ev.firedAt).toLocaleString()}
                   {ev.deliveredTo.length > 0 ? ` · ${ev.deliveredTo.length} delivered` : ""}
+                  {ev.escalationLevel > 0 ? ` · escalated ×${ev.escalationLevel}` : ""}
+                  {ev.resolvedAt ? " · resolved" : ""}
+                  {ev.acknowledgedAt ? " · acknowledged" : ""}
                 </div>
+                {ev.suppressedBy && (
+                  <span className={cn(BADGE, "mt-1 border-ink-500 bg-ink-100 text-paper-dim")} title="Not delivered">
+                    <BellOff className="mr-1 h-2.5 w-2.5" aria-hidden /> Muted by {ev.suppressedBy}
+                  </span>
+                )}
               </div>
+              {canEdit && !ev.acknowledgedAt && !ev.resolvedAt && !ev.suppressedBy && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1 px-2 font-mono text-[10px] uppercase tracking-[0.12em]"
+                  title="Acknowledge — stops escalation"
+                  disabled={ackMutation.isPending && ackMutation.variables === ev.id}
+                  onClick={() => ackMutation.mutate(ev.id)}
+                >
+                  <Check className="h-3 w-3" /> Ack
+                </Button>
+              )}
             </div>
           ))}
         </div>
@@ -578,14 +1150,18 @@ const AlertingSettings: React.FC = () => {
         <div className="flex flex-col gap-0.5">
           <h2 className="text-[18px] font-semibold tracking-tight text-paper">Alerting</h2>
           <p className="font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint">
-            Notification channels, alert rules & recent alerts
+            Channels, rules, silences, maintenance windows, incidents, digests & recent alerts
           </p>
         </div>
       </div>
 
       <ChannelsPanel canEdit={canEdit} canDelete={canDelete} />
       <RulesPanel canEdit={canEdit} canDelete={canDelete} />
-      <EventsPanel canDelete={canDelete} />
+      <SilencesPanel canEdit={canEdit} canDelete={canDelete} />
+      <MaintenanceWindowsPanel canEdit={canEdit} canDelete={canDelete} />
+      <IncidentsPanel canEdit={canEdit} />
+      <DigestsPanel canEdit={canEdit} canDelete={canDelete} />
+      <EventsPanel canEdit={canEdit} canDelete={canDelete} />
     </div>
   );
 };
@@ -5,6 +5,7 @@
  */
 
 import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -28,6 +29,7 @@ import {
   AlertCircle,
   CheckCircle2,
   Clock,
+  ShieldCheck,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -73,6 +75,8 @@ import {
   type CreateConnectionInput,
   type TestConnectionResult,
 } from '@/api/rbac';
+import { listChannels, CHANNEL_TYPE_LABELS } from '@/api/alerting';
+import { ALERTING_KEYS } from '@/features/alerting/ChannelDialog';
 import { useRbacStore, RBAC_PERMISSIONS } from '@/stores';
 import { SkeletonRows } from '@/components/common/Skeletons';
 
@@ -88,6 +92,8 @@ const connectionSchema = z.object({
   password: z.string().optional(),
   database: z.string().max(255).optional(),
   sslEnabled: z.boolean(),
+  isProtected: z.boolean(),
+  approvalChannelIds: z.array(z.string()),
 });
 
 type ConnectionFormData = z.output<typeof connectionSchema>;
@@ -115,6 +121,8 @@ function ConnectionFormDialog({
   const [showPassword, setShowPassword] = useState(false);
 
   const isEditing = !!connection;
+  const { hasPermission } = useRbacStore();
+  const canViewChannels = hasPermission(RBAC_PERMISSIONS.ALERTING_VIEW);
 
   const form = useForm<ConnectionFormData>({
     resolver: zodResolver(connectionSchema) as any,
@@ -126,9 +134,19 @@ function ConnectionFormDialog({
       password: '',
       database: connection?.database || '',
       sslEnabled: connection?.sslEnabled || false,
+      isProtected: connection?.isProtected || false,
+      approvalChannelIds: connection?.approvalChannelIds ?? [],
     },
   });
 
+  const isProtected = form.watch('isProtected');
+  const channelsQuery = useQuery({
+    queryKey: ALERTING_KEYS.channels,
+    queryFn: listChannels,
+    enabled: isOpen && isProtected && canViewChannels,
+  });
+  const channels = channelsQuery.data ?? [];
+
   // Reset form when dialog opens/closes or connection changes
   useEffect(() => {
     if (isOpen) {
@@ -140,6 +158,8 @@ function ConnectionFormDialog({
         password: '',
         database: connection?.database || '',
         sslEnabled: connection?.sslEnabled || false,
+      isProtected: connection?.isProtected || false,
+      approvalChannelIds: connection?.approvalChannelIds ?? [],
       });
       setTestResult(null);
     }
@@ -192,6 +212,8 @@ function ConnectionFormDialog({
           username: values.username,
           database: values.database || undefined,
           sslEnabled: values.sslEnabled,
+          isProtected: values.isProtected,
+          approvalChannelIds: values.approvalChannelIds,
         };
         if (values.password) {
           updateData.password = values.password;
@@ -400,6 +422,81 @@ function ConnectionFormDialog({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="isProtected"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between gap-3 rounded-xs border border-ink-500 bg-ink-200 px-3 py-2.5">
+                  <div className="flex items-start gap-2.5">
+                    <span className="grid h-7 w-7 shrink-0 place-items-center rounded-xs border border-ink-500 bg-ink-100 text-paper-muted">
+                      <ShieldCheck className={cn("h-3.5 w-3.5", field.value && "text-brand")} aria-hidden />
+                    </span>
+                    <div className="flex flex-col gap-0.5">
+                      <FormLabel className="text-[13px] font-medium text-paper">
+                        Protected
+                      </FormLabel>
+                      <FormDescription className={HELP_CLASS}>
+                        DDL and DML wait for another user's approval before they run.
+                      </FormDescription>
+                    </div>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {isProtected && canViewChannels && (
+              <FormField
+                control={form.control}
+                name="approvalChannelIds"
+                render={({ field }) => (
+                  <FormItem className="space-y-1.5">
+                    <FormLabel className={LABEL_CLASS}>Notify channels</FormLabel>
+                    {channels.length === 0 ? (
+                      <p className="rounded-xs border border-dashed border-ink-500 px-3 py-3 text-center font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint">
+                        {channelsQuery.isLoading ? "Loading channels…" : "No alerting channels configured"}
+                      </p>
+                    ) : (
+                      <ul className="divide-y divide-ink-500 rounded-xs border border-ink-500">
+                        {channels.map((ch) => {
+                          const selected = field.value.includes(ch.id);
+                          return (
+                            <li key={ch.id} className="flex items-center gap-2.5 px-3 py-2">
+                              <button
+                                type="button"
+                                role="checkbox"
+                                aria-checked={selected}
+                                onClick={() =>
+                                  field.onChange(
+                                    selected ? field.value.filter((id) => id !== ch.id) : [...field.value, ch.id]
+                                  )
+                                }
+                                className={cn(
+                                  "grid h-4 w-4 shrink-0 place-items-center rounded-xs border",
+                                  selected ? "border-brand bg-brand text-ink-50" : "border-ink-500 bg-ink-200",
+                                )}
+                              >
+                                {selected && <span className="text-[10px] leading-none">✓</span>}
+                              </button>
+                              <span className="inline-flex items-center rounded-xs border border-ink-500 bg-ink-100 px-1.5 py-0.5 font-mono text-[9px] uppercase tracking-[0.12em] text-paper-muted">
+                                {CHANNEL_TYPE_LABELS[ch.type]}
+                              </span>
+                              <span className="min-w-0 flex-1 truncate text-[13px] text-paper">{ch.name}</span>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+                    <FormDescription className={HELP_CLASS}>
+                      Told about new, approved, rejected and executed change requests.
+                    </FormDescription>
+                  </FormItem>
+                )}
+              />
+            )}
+
             {testResult && (
               <div
                 className={cn(
@@ -666,6 +763,12 @@ export default function ConnectionManagement() {
                             Default
                           </span>
                         )}
+                        {conn.isProtected && (
+                          <span className="inline-flex items-center gap-1 rounded-xs border border-ink-500 px-1.5 py-0.5 font-mono text-[10px] uppercase tracking-[0.14em] text-paper-muted">
+                            <ShieldCheck className="h-3 w-3" />
+                            Protected
+                          </span>
+                        )}
                       </div>
                     </TableCell>
                     <TableCell>
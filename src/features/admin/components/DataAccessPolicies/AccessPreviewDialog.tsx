@@ -0,0 +1,167 @@
+/**
+ * AccessPreviewDialog — resolves what one user gets for one table under their
+ * current data access policies: whether the table is granted, the row filter
+ * sent with their queries, and the column rules masking its columns.
+ */
+
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Check, Filter, Loader2, ScanEye, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select';
+import {
+  rbacDataAccessPoliciesApi,
+  rbacUsersApi,
+  type ClickHouseConnection,
+} from '@/api/rbac';
+import { cn } from '@/lib/utils';
+
+const ALL_CONNECTIONS = '__all__';
+
+interface AccessPreviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  connections: ClickHouseConnection[];
+}
+
+interface PreviewTarget {
+  userId: string;
+  connectionId?: string;
+  database: string;
+  table: string;
+}
+
+const AccessPreviewDialog: React.FC<AccessPreviewDialogProps> = ({ open, onOpenChange, connections }) => {
+  const [userId, setUserId] = useState('');
+  const [connectionId, setConnectionId] = useState(ALL_CONNECTIONS);
+  const [database, setDatabase] = useState('');
+  const [table, setTable] = useState('');
+  const [target, setTarget] = useState<PreviewTarget | null>(null);
+
+  const { data: usersData } = useQuery({
+    queryKey: ['rbac-users-list'],
+    queryFn: () => rbacUsersApi.list({ limit: 1000, isActive: true }),
+    enabled: open,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const { data: preview, isFetching, error } = useQuery({
+    queryKey: ['rbac-data-access-preview', target],
+    queryFn: () => rbacDataAccessPoliciesApi.preview(target!),
+    enabled: !!target,
+  });
+
+  const canPreview = !!userId && !!database.trim() && !!table.trim();
+  const runPreview = () => {
+    setTarget({
+      userId,
+      connectionId: connectionId === ALL_CONNECTIONS ? undefined : connectionId,
+      database: database.trim(),
+      table: table.trim(),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl rounded-xs border-ink-500 bg-ink-100">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-paper">
+            <ScanEye className="h-4 w-4 text-paper-dim" aria-hidden />
+            Preview effective access
+          </DialogTitle>
+          <DialogDescription className="text-paper-muted">
+            See the row filter and column rules a user's queries get for a table, from the policies on their role.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={userId} onValueChange={setUserId}>
+            <SelectTrigger aria-label="User" className="h-8 rounded-xs border-ink-500 bg-ink-200 text-[12px] text-paper">
+              <SelectValue placeholder="Choose a user" />
+            </SelectTrigger>
+            <SelectContent>
+              {(usersData?.users ?? []).map((user) => (
+                <SelectItem key={user.id} value={user.id} className="text-[12px]">
+                  {user.displayName || user.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={connectionId} onValueChange={setConnectionId}>
+            <SelectTrigger aria-label="Connection" className="h-8 rounded-xs border-ink-500 bg-ink-200 text-[12px] text-paper">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CONNECTIONS} className="text-[12px]">Any connection</SelectItem>
+              {connections.map((conn) => (
+                <SelectItem key={conn.id} value={conn.id} className="text-[12px]">{conn.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input value={database} onChange={(e) => setDatabase(e.target.value)} placeholder="database" aria-label="Database"
+            className="h-8 rounded-xs border-ink-500 bg-ink-200 font-mono text-[12px] text-paper" />
+          <Input value={table} onChange={(e) => setTable(e.target.value)} placeholder="table" aria-label="Table"
+            onKeyDown={(e) => e.key === 'Enter' && canPreview && runPreview()}
+            className="h-8 rounded-xs border-ink-500 bg-ink-200 font-mono text-[12px] text-paper" />
+        </div>
+        <div className="flex justify-end">
+          <Button size="sm" onClick={runPreview} disabled={!canPreview || isFetching}
+            className="h-8 gap-2 rounded-xs bg-brand px-3 font-mono text-[11px] font-semibold uppercase tracking-[0.14em] text-ink-50 hover:bg-brand-soft">
+            {isFetching ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <ScanEye className="h-3.5 w-3.5" />} Preview
+          </Button>
+        </div>
+
+        {error && <p className="text-[12px] text-red-400">{(error as Error).message}</p>}
+        {preview && target && (
+          <div className="space-y-3 rounded-xs border border-ink-500 bg-ink-200 p-3">
+            <div className="flex items-center gap-2">
+              {preview.allowed
+                ? <Check className="h-3.5 w-3.5 text-emerald-400" aria-hidden />
+                : <X className="h-3.5 w-3.5 text-red-400" aria-hidden />}
+              <span className={cn('font-mono text-[12px]', preview.allowed ? 'text-emerald-300' : 'text-red-300')}>
+                {target.database}.{target.table} {preview.allowed ? 'granted' : 'denied'}
+              </span>
+              {preview.reason && <span className="truncate text-[11px] text-paper-faint">— {preview.reason}</span>}
+            </div>
+            {preview.allowed && (
+              <>
+                <div className="space-y-1">
+                  <p className="flex items-center gap-1.5 font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim">
+                    <Filter className="h-3 w-3" aria-hidden /> Row filter
+                  </p>
+                  <pre className="whitespace-pre-wrap break-all rounded-xs border border-ink-500 bg-ink-100 px-2 py-1.5 font-mono text-[11px] text-paper">
+                    {preview.rowFilter ?? 'None — every row is visible'}
+                  </pre>
+                </div>
+                <div className="space-y-1">
+                  <p className="font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim">Column rules</p>
+                  {preview.columnRules.length === 0 ? (
+                    <p className="text-[12px] text-paper-muted">None — every column is visible as stored.</p>
+                  ) : (
+                    preview.columnRules.map((rule, i) => (
+                      <div key={i} className="flex items-center justify-between text-[12px]">
+                        <span className="font-mono text-paper-muted">{rule.columnPattern}</span>
+                        <span className="font-mono text-[10px] uppercase text-amber-300">
+                          {rule.columnAction} · p{rule.priority} · {rule.policyName}
+                        </span>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AccessPreviewDialog;
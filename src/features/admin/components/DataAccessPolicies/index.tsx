@@ -4,7 +4,9 @@
  * Admin UI for creating and managing named, reusable data access policies.
  * A policy is a set of rules; each rule is scoped to a specific connection or to
  * all connections (global, connectionId = null). Roles attach policies to grant
- * their users access.
+ * their users access. A rule with a column pattern masks or denies matching
+ * columns of the tables it covers instead of granting them, and an allow rule
+ * can carry a row filter limiting the rows it grants.
  *
  * Create/edit is a 3-step wizard: Connections -> Access -> Details & Review.
  */
@@ -14,7 +16,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import {
   Plus, Trash2, Pencil, Database, Shield, Loader2, Info, X, ChevronRight, ChevronDown,
-  Table2, Server, Globe, Check, ArrowLeft, ArrowRight,
+  Table2, Server, Globe, Check, ArrowLeft, ArrowRight, EyeOff, Filter, ScanEye,
 } from 'lucide-react';
 import { log } from '@/lib/log';
 import { Button } from '@/components/ui/button';
@@ -27,31 +29,51 @@ import {
 import {
   Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
 } from '@/components/ui/dialog';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select';
 import {
   rbacDataAccessPoliciesApi,
   rbacConnectionsApi,
+  COLUMN_MASK_ACTIONS,
+  type ColumnMaskAction,
   type DataAccessPolicy,
   type DataAccessPolicyRule,
   type ClickHouseConnection,
 } from '@/api/rbac';
 import { useRbacStore, RBAC_PERMISSIONS } from '@/stores/rbac';
 import { cn } from '@/lib/utils';
+import AccessPreviewDialog from './AccessPreviewDialog';
 
-// A rule in the editor. connectionId null = all connections (global).
+// A rule in the editor. connectionId null = all connections (global);
+// a non-empty columnPattern makes it a column rule.
 interface RuleDraft {
   connectionId: string | null;
   databasePattern: string;
   tablePattern: string;
+  columnPattern: string;
+  columnAction: ColumnMaskAction;
+  rowFilter: string;
   isAllowed: boolean;
   priority: number;
   description: string;
 }
 
+const COLUMN_MASK_ACTION_LABELS: Record<ColumnMaskAction, string> = {
+  deny: 'Deny',
+  hash: 'Hash',
+  partial: 'Partial',
+  null: 'Null out',
+};
+
 function policyToRules(policy: DataAccessPolicy): RuleDraft[] {
   return policy.rules.map((r) => ({
     connectionId: r.connectionId ?? null,
     databasePattern: r.databasePattern,
     tablePattern: r.tablePattern,
+    columnPattern: r.columnPattern ?? '',
+    columnAction: r.columnAction ?? 'deny',
+    rowFilter: r.rowFilter ?? '',
     isAllowed: r.isAllowed,
     priority: r.priority,
     description: r.description ?? '',
@@ -66,6 +88,7 @@ export const DataAccessPolicies: React.FC = () => {
   const canDelete = hasPermission(RBAC_PERMISSIONS.DATA_ACCESS_DELETE);
 
   const [showDialog, setShowDialog] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [step, setStep] = useState(1);
 
@@ -103,6 +126,9 @@ export const DataAccessPolicies: React.FC = () => {
           connectionId: r.connectionId,
           databasePattern: r.databasePattern || '*',
           tablePattern: r.tablePattern || '*',
+          columnPattern: r.columnPattern.trim() || null,
+          columnAction: r.columnPattern.trim() ? r.columnAction : null,
+          rowFilter: r.isAllowed && !r.columnPattern.trim() ? r.rowFilter.trim() || null : null,
           isAllowed: r.isAllowed,
           priority: r.priority,
           description: r.description.trim() || null,
@@ -227,19 +253,32 @@ export const DataAccessPolicies: React.FC = () => {
   };
 
   // ---- Rule helpers ----
+  // The schema tree only toggles table rules; column rules are edited in the list.
+  const isTreeRule = (r: RuleDraft, connId: string | null, db: string, table: string) =>
+    r.connectionId === connId && r.databasePattern === db && r.tablePattern === table && !r.columnPattern;
+
   const hasRule = (connId: string | null, db: string, table: string) =>
-    rules.some((r) => r.connectionId === connId && r.databasePattern === db && r.tablePattern === table);
+    rules.some((r) => isTreeRule(r, connId, db, table));
+
+  const newRule = (connId: string | null, db: string, table: string, columnPattern = ''): RuleDraft => ({
+    connectionId: connId, databasePattern: db, tablePattern: table, columnPattern, columnAction: 'hash', rowFilter: '',
+    isAllowed: true, priority: 0, description: '',
+  });
 
   const toggleAllowRule = (connId: string | null, db: string, table: string) => {
     setRules((rs) => {
-      const i = rs.findIndex((r) => r.connectionId === connId && r.databasePattern === db && r.tablePattern === table);
+      const i = rs.findIndex((r) => isTreeRule(r, connId, db, table));
       if (i >= 0) return rs.filter((_, idx) => idx !== i);
-      return [...rs, { connectionId: connId, databasePattern: db, tablePattern: table, isAllowed: true, priority: 0, description: '' }];
+      return [...rs, newRule(connId, db, table)];
     });
   };
 
   const addPatternRule = (connId: string | null) => {
-    setRules((rs) => [...rs, { connectionId: connId, databasePattern: '*', tablePattern: '*', isAllowed: true, priority: 0, description: '' }]);
+    setRules((rs) => [...rs, newRule(connId, '*', '*')]);
+  };
+
+  const addColumnRule = (connId: string | null) => {
+    setRules((rs) => [...rs, newRule(connId, '*', '*', '*')]);
   };
 
   const updateRuleAt = (globalIndex: number, patch: Partial<RuleDraft>) =>
@@ -313,26 +352,65 @@ export const DataAccessPolicies: React.FC = () => {
     return (
       <div className="space-y-1">
         {groupRules.map(({ r, i }) => (
-          <div key={i} className="flex items-center gap-1.5 rounded-xs border border-ink-500 bg-ink-100 px-2 py-1.5">
-            <Input value={r.databasePattern} onChange={(e) => updateRuleAt(i, { databasePattern: e.target.value })}
-              placeholder="db / * / /regex/" className="h-7 flex-1 rounded-xs border-ink-500 bg-ink-200 font-mono text-[11px] text-paper" />
-            <span className="text-paper-faint">.</span>
-            <Input value={r.tablePattern} onChange={(e) => updateRuleAt(i, { tablePattern: e.target.value })}
-              placeholder="table / *" className="h-7 flex-1 rounded-xs border-ink-500 bg-ink-200 font-mono text-[11px] text-paper" />
-            <button type="button" onClick={() => updateRuleAt(i, { isAllowed: !r.isAllowed })}
-              className={cn('rounded-xs border px-1.5 py-0.5 font-mono text-[9px] uppercase tracking-[0.14em]',
-                r.isAllowed ? 'border-emerald-700 text-emerald-300' : 'border-red-700 text-red-300')}>
-              {r.isAllowed ? 'Allow' : 'Deny'}
-            </button>
-            <Button size="icon" variant="ghost" className="h-6 w-6 rounded-xs text-red-400 hover:bg-red-950/40" onClick={() => removeRuleAt(i)}>
-              <X className="h-3 w-3" />
-            </Button>
+          <div key={i} className="space-y-1 rounded-xs border border-ink-500 bg-ink-100 px-2 py-1.5">
+            <div className="flex items-center gap-1.5">
+              <Input value={r.databasePattern} onChange={(e) => updateRuleAt(i, { databasePattern: e.target.value })}
+                placeholder="db / * / /regex/" className="h-7 flex-1 rounded-xs border-ink-500 bg-ink-200 font-mono text-[11px] text-paper" />
+              <span className="text-paper-faint">.</span>
+              <Input value={r.tablePattern} onChange={(e) => updateRuleAt(i, { tablePattern: e.target.value })}
+                placeholder="table / *" className="h-7 flex-1 rounded-xs border-ink-500 bg-ink-200 font-mono text-[11px] text-paper" />
+              {r.columnPattern ? (
+                <>
+                  <span className="text-paper-faint">.</span>
+                  <Input value={r.columnPattern} onChange={(e) => updateRuleAt(i, { columnPattern: e.target.value })}
+                    placeholder="column / *" aria-label="Column pattern"
+                    className="h-7 flex-1 rounded-xs border-ink-500 bg-ink-200 font-mono text-[11px] text-paper" />
+                  <Select value={r.columnAction} onValueChange={(v) => updateRuleAt(i, { columnAction: v as ColumnMaskAction })}>
+                    <SelectTrigger aria-label="Column action"
+                      className="h-6 w-24 rounded-xs border-amber-700 bg-transparent px-1.5 font-mono text-[9px] uppercase tracking-[0.14em] text-amber-300">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COLUMN_MASK_ACTIONS.map((action) => (
+                        <SelectItem key={action} value={action} className="font-mono text-[11px]">
+                          {COLUMN_MASK_ACTION_LABELS[action]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </>
+              ) : (
+                <button type="button" onClick={() => updateRuleAt(i, { isAllowed: !r.isAllowed })}
+                  className={cn('rounded-xs border px-1.5 py-0.5 font-mono text-[9px] uppercase tracking-[0.14em]',
+                    r.isAllowed ? 'border-emerald-700 text-emerald-300' : 'border-red-700 text-red-300')}>
+                  {r.isAllowed ? 'Allow' : 'Deny'}
+                </button>
+              )}
+              <Button size="icon" variant="ghost" className="h-6 w-6 rounded-xs text-red-400 hover:bg-red-950/40" onClick={() => removeRuleAt(i)}>
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+            {r.isAllowed && !r.columnPattern && (
+              <div className="flex items-center gap-1.5 pl-1">
+                <Filter className="h-3 w-3 shrink-0 text-paper-faint" aria-hidden />
+                <Input value={r.rowFilter} onChange={(e) => updateRuleAt(i, { rowFilter: e.target.value })}
+                  placeholder="row filter (optional), e.g. region = 'EU'" aria-label="Row filter"
+                  className="h-7 flex-1 rounded-xs border-ink-500 bg-ink-200 font-mono text-[11px] text-paper" />
+              </div>
+            )}
           </div>
         ))}
-        <Button size="sm" variant="ghost" onClick={() => addPatternRule(groupConn)}
-          className="h-7 gap-1 rounded-xs px-2 font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim hover:bg-ink-100 hover:text-paper">
-          <Plus className="h-3 w-3" /> Add wildcard / pattern rule
-        </Button>
+        <div className="flex items-center gap-1">
+          <Button size="sm" variant="ghost" onClick={() => addPatternRule(groupConn)}
+            className="h-7 gap-1 rounded-xs px-2 font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim hover:bg-ink-100 hover:text-paper">
+            <Plus className="h-3 w-3" /> Add wildcard / pattern rule
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => addColumnRule(groupConn)}
+            title="Deny, hash, partially mask or null out matching columns of tables this policy grants"
+            className="h-7 gap-1 rounded-xs px-2 font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim hover:bg-ink-100 hover:text-paper">
+            <EyeOff className="h-3 w-3" /> Add column rule
+          </Button>
+        </div>
       </div>
     );
   };
@@ -351,11 +429,17 @@ export const DataAccessPolicies: React.FC = () => {
             </p>
           </div>
         </div>
-        {canCreate && (
-          <Button size="sm" onClick={openCreate} className="h-9 gap-2 rounded-xs bg-brand px-3 font-mono text-[11px] font-semibold uppercase tracking-[0.14em] text-ink-50 hover:bg-brand-soft">
-            <Plus className="h-3.5 w-3.5" /> New policy
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={() => setShowPreview(true)}
+            className="h-9 gap-2 rounded-xs border-ink-500 bg-transparent px-3 font-mono text-[11px] uppercase tracking-[0.14em] text-paper hover:border-ink-700 hover:bg-ink-200">
+            <ScanEye className="h-3.5 w-3.5" /> Preview access
           </Button>
-        )}
+          {canCreate && (
+            <Button size="sm" onClick={openCreate} className="h-9 gap-2 rounded-xs bg-brand px-3 font-mono text-[11px] font-semibold uppercase tracking-[0.14em] text-ink-50 hover:bg-brand-soft">
+              <Plus className="h-3.5 w-3.5" /> New policy
+            </Button>
+          )}
+        </div>
       </div>
 
       {!policies || policies.length === 0 ? (
@@ -419,6 +503,8 @@ export const DataAccessPolicies: React.FC = () => {
         </div>
       )}
 
+      <AccessPreviewDialog open={showPreview} onOpenChange={setShowPreview} connections={connections ?? []} />
+
       {/* Wizard */}
       <Dialog open={showDialog} onOpenChange={setShowDialog}>
         <DialogContent className="flex max-h-[90vh] max-w-2xl flex-col overflow-hidden rounded-xs border-ink-500 bg-ink-100">
@@ -429,7 +515,7 @@ export const DataAccessPolicies: React.FC = () => {
             </DialogTitle>
             <DialogDescription className="text-paper-muted">
               {step === 1 && 'Step 1 of 3 — choose which connections this policy covers.'}
-              {step === 2 && 'Step 2 of 3 — pick the databases/tables to grant.'}
+              {step === 2 && 'Step 2 of 3 — pick the databases/tables to grant, and optionally mask columns.'}
               {step === 3 && 'Step 3 of 3 — name the policy and review.'}
             </DialogDescription>
           </DialogHeader>
@@ -524,8 +610,16 @@ export const DataAccessPolicies: React.FC = () => {
                           <p className="mb-1 font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint">{connectionName(g)}</p>
                           {groupRules.map((r, i) => (
                             <div key={i} className="flex items-center justify-between py-0.5 text-[12px]">
-                              <span className="font-mono text-paper-muted">{r.databasePattern}.{r.tablePattern}</span>
-                              <span className={cn('font-mono text-[10px] uppercase', r.isAllowed ? 'text-emerald-300' : 'text-red-300')}>{r.isAllowed ? 'allow' : 'deny'} · p{r.priority}</span>
+                              <span className="font-mono text-paper-muted">
+                                {r.databasePattern}.{r.tablePattern}{r.columnPattern && `.${r.columnPattern}`}
+                              </span>
+                              {r.columnPattern ? (
+                                <span className="font-mono text-[10px] uppercase text-amber-300">column {COLUMN_MASK_ACTION_LABELS[r.columnAction].toLowerCase()} · p{r.priority}</span>
+                              ) : r.isAllowed && r.rowFilter.trim() ? (
+                                <span className="truncate font-mono text-[10px] text-sky-300" title={r.rowFilter}>where {r.rowFilter.trim()} · p{r.priority}</span>
+                              ) : (
+                                <span className={cn('font-mono text-[10px] uppercase', r.isAllowed ? 'text-emerald-300' : 'text-red-300')}>{r.isAllowed ? 'allow' : 'deny'} · p{r.priority}</span>
+                              )}
                             </div>
                           ))}
                         </div>
@@ -40,12 +40,17 @@ import {
   type ChannelInput,
   type ChannelFieldSpec,
 } from "@/api/alerting";
+import { MessageTemplateField } from "./MessageTemplateField";
 
 /** Shared React Query keys so every alerting surface dedupes + cross-refreshes. */
 export const ALERTING_KEYS = {
   channels: ["alerting", "channels"] as const,
   rules: ["alerting", "rules"] as const,
   events: ["alerting", "events"] as const,
+  silences: ["alerting", "silences"] as const,
+  maintenanceWindows: ["alerting", "maintenance-windows"] as const,
+  incidents: ["alerting", "incidents"] as const,
+  digests: ["alerting", "digests"] as const,
 };
 
 const LABEL_CLASS = "font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim";
@@ -59,10 +64,18 @@ function errMessage(e: unknown): string {
 
 function defaultConfigFor(specs: ChannelFieldSpec[]): Record<string, unknown> {
   const cfg: Record<string, unknown> = {};
-  for (const s of specs) cfg[s.key] = s.kind === "boolean" ? true : "";
+  for (const s of specs) cfg[s.key] = s.kind === "boolean" ? true : s.kind === "select" ? (s.options?.[0]?.value ?? "") : "";
   return cfg;
 }
 
+// Webhook hosts that identify a provider, for the type-mismatch guard below.
+const WEBHOOK_HOSTS: Partial<Record<ChannelType, RegExp>> = {
+  [ChannelType.Slack]: /hooks\.slack\.com/i,
+  [ChannelType.GoogleChat]: /chat\.googleapis\.com/i,
+  [ChannelType.Teams]: /webhook\.office\.com|logic\.azure\.com|powerplatform\.com/i,
+  [ChannelType.Discord]: /discord(app)?\.com\/api\/webhooks/i,
+};
+
 interface ChannelDialogProps {
   open: boolean;
   channel: NotificationChannel | null; // null = create
@@ -77,6 +90,7 @@ export function ChannelDialog({ open, channel, onClose }: ChannelDialogProps) {
   const [type, setType] = useState<ChannelType>(ChannelType.Slack);
   const [enabled, setEnabled] = useState(true);
   const [config, setConfig] = useState<Record<string, unknown>>({});
+  const [messageTemplate, setMessageTemplate] = useState("");
 
   const specs = CHANNEL_FIELD_SPECS[type];
 
@@ -87,11 +101,13 @@ export function ChannelDialog({ open, channel, onClose }: ChannelDialogProps) {
       setType(channel.type);
       setEnabled(channel.enabled);
       setConfig({ ...defaultConfigFor(CHANNEL_FIELD_SPECS[channel.type]), ...channel.config });
+      setMessageTemplate(channel.messageTemplate ?? "");
     } else {
       setName("");
       setType(ChannelType.Slack);
       setEnabled(true);
       setConfig(defaultConfigFor(CHANNEL_FIELD_SPECS[ChannelType.Slack]));
+      setMessageTemplate("");
     }
   }, [open, channel]);
 
@@ -117,12 +133,13 @@ export function ChannelDialog({ open, channel, onClose }: ChannelDialogProps) {
   // Block Kit to a Google Chat webhook (or vice versa) is rejected at delivery
   // time but the bare-text "Send test" used to pass — so we block it up front.
   const webhookUrl = typeof config.webhookUrl === "string" ? config.webhookUrl : "";
+  const urlOwner = webhookUrl
+    ? (Object.keys(WEBHOOK_HOSTS) as ChannelType[]).find((t) => WEBHOOK_HOSTS[t]?.test(webhookUrl))
+    : undefined;
   const urlTypeMismatch =
-    type === ChannelType.Slack && /chat\.googleapis\.com/i.test(webhookUrl)
-      ? "This looks like a Google Chat webhook URL, but the channel type is Slack. Switch the type to Google Chat — otherwise alerts go out in Slack format and Google Chat rejects them."
-      : type === ChannelType.GoogleChat && /hooks\.slack\.com/i.test(webhookUrl)
-        ? "This looks like a Slack webhook URL, but the channel type is Google Chat. Switch the type to Slack."
-        : null;
+    urlOwner && urlOwner !== type && type in WEBHOOK_HOSTS
+      ? `This looks like a ${CHANNEL_TYPE_LABELS[urlOwner]} webhook URL, but the channel type is ${CHANNEL_TYPE_LABELS[type]}. Switch the type to ${CHANNEL_TYPE_LABELS[urlOwner]} — otherwise alerts go out in the wrong format and the webhook rejects them.`
+      : null;
 
   const mutation = useMutation({
     mutationFn: async () => {
@@ -132,7 +149,13 @@ export function ChannelDialog({ open, channel, onClose }: ChannelDialogProps) {
         if (s.secret && (v === "" || v === undefined || v === null)) continue;
         cleaned[s.key] = s.kind === "number" ? Number(v) || 0 : v;
       }
-      const input: ChannelInput = { name: name.trim(), type, enabled, config: cleaned };
+      const input: ChannelInput = {
+        name: name.trim(),
+        type,
+        enabled,
+        config: cleaned,
+        messageTemplate: messageTemplate.trim() ? messageTemplate : null,
+      };
       if (isEdit && channel) await updateChannel(channel.id, input);
       else await createChannel(input);
     },
@@ -162,7 +185,7 @@ export function ChannelDialog({ open, channel, onClose }: ChannelDialogProps) {
                 {isEdit ? "Edit channel" : "New notification channel"}
               </span>
               <span className="font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint">
-                Slack · Google Chat · Email · Webhook
+                Chat · Email · Webhook · On-call
               </span>
             </span>
           </DialogTitle>
@@ -203,6 +226,28 @@ export function ChannelDialog({ open, channel, onClose }: ChannelDialogProps) {
                 </div>
               );
             }
+            if (spec.kind === "select") {
+              return (
+                <div key={spec.key} className="space-y-1.5">
+                  <Label className={LABEL_CLASS}>{spec.label}</Label>
+                  <Select
+                    value={typeof value === "string" && value ? value : (spec.options?.[0]?.value ?? "")}
+                    onValueChange={(v) => setConfig((c) => ({ ...c, [spec.key]: v }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(spec.options ?? []).map((o) => (
+                        <SelectItem key={o.value} value={o.value}>
+                          {o.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            }
             const secretConfigured = spec.secret && isEdit && channel?.configured[spec.key];
             return (
               <div key={spec.key} className="space-y-1.5">
@@ -227,6 +272,18 @@ export function ChannelDialog({ open, channel, onClose }: ChannelDialogProps) {
             </div>
           )}
 
+          <MessageTemplateField
+            value={messageTemplate}
+            onChange={setMessageTemplate}
+            sources={["fleet", "scheduled_query", "data_health"]}
+            hint={
+              type === ChannelType.Webhook
+                ? "Used for scheduled-query and Data Health notifications; fleet alerts keep their JSON payload. First line is the title. Leave blank for the default."
+                : "Used for fleet, scheduled-query and Data Health notifications unless the rule has its own template. First line is the title. Leave blank for the default."
+            }
+            enabled={open}
+          />
+
           <div className="flex items-center justify-between border-t border-ink-500 pt-3">
             <Label className={LABEL_CLASS}>Enabled</Label>
             <Switch checked={enabled} onCheckedChange={setEnabled} />
@@ -0,0 +1,343 @@
+/**
+ * DigestDialog — create/edit an operational digest: the period it covers, when
+ * it is sent (the Scheduled Queries cadences) and which channels receive it.
+ * Users opt in to the email copy themselves from Preferences. DigestPreviewDialog
+ * shows the message a digest would send right now. Both are used by the
+ * Admin → Alerting "Digests" panel.
+ */
+
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Loader2, Newspaper } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { log } from "@/lib/log";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  CHANNEL_TYPE_LABELS,
+  ChannelType,
+  createDigest,
+  listChannels,
+  previewDigest,
+  updateDigest,
+  type DigestFrequency,
+  type DigestInput,
+  type OpsDigest,
+} from "@/api/alerting";
+import { ALERTING_KEYS, DIALOG_SAVE_BTN } from "./ChannelDialog";
+
+const LABEL_CLASS = "font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim";
+const SELECT_CLASS =
+  "h-9 w-full rounded-xs border border-ink-500 bg-ink-200 px-2 text-[13px] text-paper focus:border-brand focus:outline-none";
+const DAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const WINDOWS: { days: number; label: string }[] = [
+  { days: 1, label: "Last 24 hours" },
+  { days: 7, label: "Last 7 days" },
+  { days: 14, label: "Last 14 days" },
+  { days: 30, label: "Last 30 days" },
+];
+/** Incident tools page on every message, so a report never goes there. */
+const EXCLUDED_TYPES = new Set<ChannelType>([ChannelType.PagerDuty, ChannelType.Opsgenie]);
+
+function errMessage(e: unknown): string {
+  return e instanceof Error ? e.message : "Something went wrong";
+}
+
+function initialForm(digest: OpsDigest | null): DigestInput {
+  return {
+    name: digest?.name ?? "",
+    windowDays: digest?.windowDays ?? 1,
+    frequency: digest?.frequency ?? "daily",
+    hour: digest?.hour ?? 8,
+    dayOfWeek: digest?.dayOfWeek ?? 1,
+    dayOfMonth: digest?.dayOfMonth ?? 1,
+    cronExpr: digest?.cronExpr ?? "",
+    timezone: digest?.timezone ?? "UTC",
+    channelIds: digest?.channelIds ?? [],
+    enabled: digest?.enabled ?? true,
+  };
+}
+
+interface DigestDialogProps {
+  open: boolean;
+  digest: OpsDigest | null; // null = create
+  onClose: () => void;
+}
+
+export function DigestDialog({ open, digest, onClose }: DigestDialogProps) {
+  const queryClient = useQueryClient();
+  const isEdit = digest !== null;
+  const [form, setForm] = useState<DigestInput>(() => initialForm(digest));
+  const update = (patch: Partial<DigestInput>) => setForm((f) => ({ ...f, ...patch }));
+
+  const channelsQuery = useQuery({ queryKey: ALERTING_KEYS.channels, queryFn: listChannels, enabled: open });
+  const channels = (channelsQuery.data ?? []).filter((ch) => !EXCLUDED_TYPES.has(ch.type));
+  const hasEmail = channels.some((ch) => ch.type === ChannelType.Email && form.channelIds.includes(ch.id));
+
+  useEffect(() => {
+    if (open) setForm(initialForm(digest));
+  }, [open, digest]);
+
+  const toggleChannel = (id: string) =>
+    update({
+      channelIds: form.channelIds.includes(id) ? form.channelIds.filter((x) => x !== id) : [...form.channelIds, id],
+    });
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      const body: DigestInput = {
+        ...form,
+        name: form.name.trim(),
+        timezone: form.timezone.trim() || "UTC",
+        cronExpr: form.frequency === "cron" ? (form.cronExpr ?? "").trim() : null,
+      };
+      if (isEdit && digest) await updateDigest(digest.id, body);
+      else await createDigest(body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ALERTING_KEYS.digests });
+      toast.success(isEdit ? "Digest updated" : "Digest created");
+      onClose();
+    },
+    onError: (e) => {
+      log.error("Failed to save digest", e);
+      toast.error(errMessage(e));
+    },
+  });
+
+  const canSave =
+    form.name.trim().length > 0 &&
+    (form.frequency !== "cron" || Boolean(form.cronExpr?.trim())) &&
+    !mutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto rounded-xs border-ink-500 bg-ink-100">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3 text-paper">
+            <span className="grid h-9 w-9 place-items-center rounded-xs border border-ink-500 bg-ink-200 text-paper-muted">
+              <Newspaper className="h-4 w-4" aria-hidden />
+            </span>
+            <span className="flex flex-col gap-0.5 text-left">
+              <span className="text-[16px] font-semibold tracking-tight">{isEdit ? "Edit digest" : "New digest"}</span>
+              <span className="font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint">
+                Breaches · Doctor · jobs · data health · top cost
+              </span>
+            </span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label className={LABEL_CLASS}>Name</Label>
+            <Input value={form.name} onChange={(e) => update({ name: e.target.value })} placeholder="e.g. Daily ops digest" />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className={LABEL_CLASS}>Covers</Label>
+            <select
+              value={form.windowDays}
+              onChange={(e) => update({ windowDays: Number(e.target.value) })}
+              aria-label="Period covered"
+              className={SELECT_CLASS}
+            >
+              {WINDOWS.map((w) => (
+                <option key={w.days} value={w.days}>
+                  {w.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1.5">
+              <Label className={LABEL_CLASS}>Send</Label>
+              <select
+                value={form.frequency}
+                onChange={(e) => update({ frequency: e.target.value as DigestFrequency })}
+                aria-label="Frequency"
+                className={SELECT_CLASS}
+              >
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+                <option value="monthly">Monthly</option>
+                <option value="cron">Custom cron</option>
+              </select>
+            </div>
+            {form.frequency === "cron" ? (
+              <div className="col-span-2 space-y-1.5">
+                <Label className={LABEL_CLASS}>Cron expression</Label>
+                <Input
+                  value={form.cronExpr ?? ""}
+                  onChange={(e) => update({ cronExpr: e.target.value })}
+                  placeholder="0 8 * * 1-5"
+                  className="font-mono"
+                />
+              </div>
+            ) : (
+              <>
+                <div className="space-y-1.5">
+                  <Label className={LABEL_CLASS}>Hour</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={23}
+                    value={form.hour}
+                    onChange={(e) => update({ hour: Math.min(23, Math.max(0, Math.round(Number(e.target.value)) || 0)) })}
+                  />
+                </div>
+                {form.frequency === "weekly" && (
+                  <div className="space-y-1.5">
+                    <Label className={LABEL_CLASS}>Day</Label>
+                    <select
+                      value={form.dayOfWeek}
+                      onChange={(e) => update({ dayOfWeek: Number(e.target.value) })}
+                      aria-label="Day of week"
+                      className={SELECT_CLASS}
+                    >
+                      {DAYS.map((d, i) => (
+                        <option key={d} value={i}>
+                          {d}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                {form.frequency === "monthly" && (
+                  <div className="space-y-1.5">
+                    <Label className={LABEL_CLASS}>Day (1–28)</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={28}
+                      value={form.dayOfMonth}
+                      onChange={(e) =>
+                        update({ dayOfMonth: Math.min(28, Math.max(1, Math.round(Number(e.target.value)) || 1)) })
+                      }
+                    />
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className={LABEL_CLASS}>Timezone</Label>
+            <Input value={form.timezone} onChange={(e) => update({ timezone: e.target.value })} placeholder="UTC" />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className={LABEL_CLASS}>Deliver to channels</Label>
+            {channels.length === 0 ? (
+              <p className="rounded-xs border border-dashed border-ink-500 px-3 py-3 text-center font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint">
+                No channels — add one first
+              </p>
+            ) : (
+              <ul className="divide-y divide-ink-500 rounded-xs border border-ink-500">
+                {channels.map((ch) => {
+                  const selected = form.channelIds.includes(ch.id);
+                  return (
+                    <li key={ch.id} className="flex items-center gap-2.5 px-3 py-2">
+                      <button
+                        type="button"
+                        role="checkbox"
+                        aria-checked={selected}
+                        onClick={() => toggleChannel(ch.id)}
+                        className={cn(
+                          "grid h-4 w-4 shrink-0 place-items-center rounded-xs border",
+                          selected ? "border-brand bg-brand text-ink-50" : "border-ink-500 bg-ink-200",
+                        )}
+                      >
+                        {selected && <span className="text-[10px] leading-none">✓</span>}
+                      </button>
+                      <span className="inline-flex items-center rounded-xs border border-ink-500 bg-ink-100 px-1.5 py-0.5 font-mono text-[9px] uppercase tracking-[0.12em] text-paper-muted">
+                        {CHANNEL_TYPE_LABELS[ch.type]}
+                      </span>
+                      <span className="min-w-0 flex-1 truncate text-[13px] text-paper">{ch.name}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+            <p className="text-[11px] text-paper-faint">
+              {hasEmail
+                ? "Users who opt in from Preferences also get it by email, through the first email channel."
+                : "Add an email channel so users who opt in from Preferences can receive it."}
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between border-t border-ink-500 pt-3">
+            <Label className={LABEL_CLASS}>Enabled</Label>
+            <Switch checked={form.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+          </div>
+        </div>
+
+        <DialogFooter className="border-t border-ink-500 pt-4">
+          <Button
+            variant="ghost"
+            onClick={onClose}
+            disabled={mutation.isPending}
+            className="h-9 rounded-xs font-mono text-[11px] uppercase tracking-[0.14em] text-paper-muted hover:bg-ink-200 hover:text-paper"
+          >
+            Cancel
+          </Button>
+          <Button onClick={() => mutation.mutate()} disabled={!canSave} className={DIALOG_SAVE_BTN}>
+            {mutation.isPending && <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />}
+            {isEdit ? "Save" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function DigestPreviewDialog({ digest, onClose }: { digest: OpsDigest | null; onClose: () => void }) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: [...ALERTING_KEYS.digests, "preview", digest?.id],
+    queryFn: () => previewDigest((digest as OpsDigest).id),
+    enabled: digest !== null,
+    staleTime: 0,
+  });
+
+  return (
+    <Dialog open={digest !== null} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto rounded-xs border-ink-500 bg-ink-100">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3 text-paper">
+            <span className="grid h-9 w-9 place-items-center rounded-xs border border-ink-500 bg-ink-200 text-paper-muted">
+              <Newspaper className="h-4 w-4" aria-hidden />
+            </span>
+            <span className="flex min-w-0 flex-col gap-0.5 text-left">
+              <span className="truncate text-[16px] font-semibold tracking-tight">{data?.title ?? digest?.name}</span>
+              <span className="font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint">
+                Preview · compiled now, not sent
+              </span>
+            </span>
+          </DialogTitle>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-paper-dim" />
+          </div>
+        ) : error ? (
+          <p className="text-[12px] text-red-400">{errMessage(error)}</p>
+        ) : (
+          <pre className="whitespace-pre-wrap break-words rounded-xs border border-ink-500 bg-ink-200 px-3 py-2.5 font-mono text-[11px] leading-relaxed text-paper-muted">
+            {data?.text}
+          </pre>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,264 @@
+/**
+ * IncidentDialog — one fleet alert incident: its state, the acknowledge /
+ * snooze / resolve actions, and the timeline of state changes and notes. Used
+ * by the Admin → Alerting "Incidents" panel and the Fleet alerts bell.
+ */
+
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { AlarmClock, Check, CheckCheck, Loader2, ShieldAlert } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { log } from "@/lib/log";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  acknowledgeIncident,
+  addIncidentNote,
+  getIncident,
+  resolveIncident,
+  snoozeIncident,
+  type AlertIncident,
+  type AlertIncidentEvent,
+} from "@/api/alerting";
+import { ALERTING_KEYS } from "./ChannelDialog";
+
+const LABEL_CLASS = "font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim";
+const ACTION_BTN = "h-8 gap-1.5 rounded-xs px-2.5 font-mono text-[10px] uppercase tracking-[0.12em]";
+const SNOOZE_OPTIONS: { label: string; ms: number }[] = [
+  { label: "1 hour", ms: 60 * 60 * 1000 },
+  { label: "4 hours", ms: 4 * 60 * 60 * 1000 },
+  { label: "24 hours", ms: 24 * 60 * 60 * 1000 },
+];
+
+function errMessage(e: unknown): string {
+  return e instanceof Error ? e.message : "Something went wrong";
+}
+
+/** Badge label + colours for an incident's status; an expired snooze reads as open. */
+export function incidentStatus(incident: AlertIncident, now = Date.now()): { label: string; className: string } {
+  if (incident.status === "resolved") {
+    return { label: "Resolved", className: "border-emerald-500/40 text-emerald-600 dark:text-emerald-400" };
+  }
+  if (incident.status === "acknowledged") {
+    return { label: "Acknowledged", className: "border-sky-500/40 text-sky-600 dark:text-sky-400" };
+  }
+  if (incident.status === "snoozed" && (incident.snoozedUntil ?? 0) > now) {
+    return { label: "Snoozed", className: "border-ink-500 text-paper-dim" };
+  }
+  return { label: "Open", className: "border-red-500/40 text-red-600 dark:text-red-400" };
+}
+
+function describeEvent(event: AlertIncidentEvent, actor: string): string {
+  const p = event.payload ?? {};
+  switch (event.type) {
+    case "opened":
+      return typeof p.suppressedBy === "string" ? `Opened — notification muted by ${p.suppressedBy}` : "Opened";
+    case "refired":
+      return "Breach fired again";
+    case "acknowledged":
+      return `Acknowledged by ${actor}`;
+    case "snoozed":
+      return `Snoozed by ${actor} until ${new Date(Number(p.until)).toLocaleString()}`;
+    case "resolved":
+      return p.automatic ? "Resolved — the breach cleared" : `Resolved by ${actor}`;
+    case "note":
+      return actor;
+    default:
+      return event.type;
+  }
+}
+
+interface IncidentDialogProps {
+  incidentId: string | null;
+  canEdit: boolean;
+  onClose: () => void;
+}
+
+export function IncidentDialog({ incidentId, canEdit, onClose }: IncidentDialogProps) {
+  const queryClient = useQueryClient();
+  const open = incidentId !== null;
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    if (open) setNote("");
+  }, [open, incidentId]);
+
+  const { data, isLoading } = useQuery({
+    queryKey: [...ALERTING_KEYS.incidents, "detail", incidentId],
+    queryFn: () => getIncident(incidentId as string),
+    enabled: open,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ALERTING_KEYS.incidents });
+    queryClient.invalidateQueries({ queryKey: ALERTING_KEYS.events });
+  };
+
+  const action = useMutation({
+    mutationFn: async (kind: { type: "ack" } | { type: "resolve" } | { type: "snooze"; ms: number }) => {
+      const id = incidentId as string;
+      if (kind.type === "ack") await acknowledgeIncident(id);
+      else if (kind.type === "resolve") await resolveIncident(id);
+      else await snoozeIncident(id, Date.now() + kind.ms);
+    },
+    onSuccess: (_, kind) => {
+      invalidate();
+      toast.success(kind.type === "ack" ? "Incident acknowledged" : kind.type === "resolve" ? "Incident resolved" : "Incident snoozed");
+    },
+    onError: (e) => {
+      log.error("Failed to update incident", e);
+      toast.error(errMessage(e));
+    },
+  });
+
+  const noteMutation = useMutation({
+    mutationFn: () => addIncidentNote(incidentId as string, note.trim()),
+    onSuccess: () => {
+      setNote("");
+      invalidate();
+    },
+    onError: (e) => {
+      log.error("Failed to add incident note", e);
+      toast.error(errMessage(e));
+    },
+  });
+
+  const incident = data?.incident;
+  const status = incident ? incidentStatus(incident) : null;
+  const actorName = (id: string | null) => (id ? data?.actors[id] ?? "a deleted user" : "someone");
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto rounded-xs border-ink-500 bg-ink-100">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3 text-paper">
+            <span className="grid h-9 w-9 place-items-center rounded-xs border border-ink-500 bg-ink-200 text-paper-muted">
+              <ShieldAlert
+                className={cn("h-4 w-4", incident?.severity === "critical" ? "text-red-400" : "text-amber-400")}
+                aria-hidden
+              />
+            </span>
+            <span className="flex min-w-0 flex-col gap-0.5 text-left">
+              <span className="text-[16px] font-semibold tracking-tight">Fleet incident</span>
+              <span className="font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint">
+                {incident ? `${incident.severity} · opened ${new Date(incident.openedAt).toLocaleString()}` : "Loading"}
+              </span>
+            </span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !incident || !status ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-paper-dim" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2 rounded-xs border border-ink-500 bg-ink-200 px-3 py-2.5">
+              <div className="flex items-start justify-between gap-3">
+                <p className="min-w-0 break-words text-[13px] text-paper">{incident.summary}</p>
+                <span
+                  className={cn(
+                    "inline-flex shrink-0 items-center rounded-xs border px-1.5 py-0.5 font-mono text-[9px] uppercase tracking-[0.12em]",
+                    status.className,
+                  )}
+                >
+                  {status.label}
+                </span>
+              </div>
+              {canEdit && incident.status !== "resolved" && (
+                <div className="flex flex-wrap gap-2 border-t border-ink-500 pt-2">
+                  {incident.status !== "acknowledged" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className={ACTION_BTN}
+                      disabled={action.isPending}
+                      onClick={() => action.mutate({ type: "ack" })}
+                    >
+                      <Check className="h-3 w-3" /> Acknowledge
+                    </Button>
+                  )}
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm" className={ACTION_BTN} disabled={action.isPending}>
+                        <AlarmClock className="h-3 w-3" /> Snooze
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start">
+                      {SNOOZE_OPTIONS.map((o) => (
+                        <DropdownMenuItem key={o.label} onSelect={() => action.mutate({ type: "snooze", ms: o.ms })}>
+                          {o.label}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className={ACTION_BTN}
+                    disabled={action.isPending}
+                    onClick={() => action.mutate({ type: "resolve" })}
+                    title="Resolve by hand — e.g. the breach cleared while the server was down"
+                  >
+                    <CheckCheck className="h-3 w-3" /> Resolve
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <span className={LABEL_CLASS}>Timeline</span>
+              <ol className="space-y-2 border-l border-ink-500 pl-3">
+                {data.events.map((ev) => (
+                  <li key={ev.id} className="space-y-0.5">
+                    <div className="font-mono text-[9px] uppercase tracking-[0.12em] text-paper-faint">
+                      {new Date(ev.createdAt).toLocaleString()}
+                    </div>
+                    <div className={cn("text-[12px]", ev.type === "note" ? "font-medium text-paper" : "text-paper-muted")}>
+                      {describeEvent(ev, actorName(ev.actorId))}
+                    </div>
+                    {ev.type === "note" && typeof ev.payload?.text === "string" && (
+                      <p className="whitespace-pre-wrap break-words text-[12px] text-paper-muted">{ev.payload.text}</p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+
+            {canEdit && (
+              <div className="space-y-2 border-t border-ink-500 pt-3">
+                <Textarea
+                  value={note}
+                  rows={2}
+                  maxLength={2000}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Add a note — what you found, what you did"
+                  className="text-[12px]"
+                />
+                <div className="flex justify-end">
+                  <Button
+                    size="sm"
+                    className={ACTION_BTN}
+                    disabled={!note.trim() || noteMutation.isPending}
+                    onClick={() => noteMutation.mutate()}
+                  >
+                    {noteMutation.isPending && <Loader2 className="h-3 w-3 animate-spin" />} Add note
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,176 @@
+/**
+ * MaintenanceWindowDialog — create/edit a recurring maintenance window: after
+ * each fire of a cron expression, matching alerts are muted for a fixed number
+ * of minutes. Used by the Admin → Alerting "Maintenance windows" panel.
+ */
+
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { CalendarClock, Loader2 } from "lucide-react";
+
+import { log } from "@/lib/log";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  createMaintenanceWindow,
+  updateMaintenanceWindow,
+  type AlertScope,
+  type MaintenanceWindow,
+} from "@/api/alerting";
+import { ALERTING_KEYS, DIALOG_SAVE_BTN } from "./ChannelDialog";
+import { ScopeFields, EMPTY_SCOPE } from "./ScopeFields";
+
+const LABEL_CLASS = "font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim";
+
+function errMessage(e: unknown): string {
+  return e instanceof Error ? e.message : "Something went wrong";
+}
+
+interface MaintenanceWindowDialogProps {
+  open: boolean;
+  window: MaintenanceWindow | null; // null = create
+  onClose: () => void;
+}
+
+export function MaintenanceWindowDialog({ open, window: existing, onClose }: MaintenanceWindowDialogProps) {
+  const queryClient = useQueryClient();
+  const isEdit = existing !== null;
+
+  const [name, setName] = useState("");
+  const [cronExpr, setCronExpr] = useState("");
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [timezone, setTimezone] = useState("UTC");
+  const [enabled, setEnabled] = useState(true);
+  const [scope, setScope] = useState<AlertScope>(EMPTY_SCOPE);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(existing?.name ?? "");
+    setCronExpr(existing?.cronExpr ?? "0 2 * * 0");
+    setDurationMinutes(existing?.durationMinutes ?? 60);
+    setTimezone(existing?.timezone ?? "UTC");
+    setEnabled(existing?.enabled ?? true);
+    setScope(
+      existing
+        ? { ruleId: existing.ruleId, connection: existing.connection, severity: existing.severity }
+        : EMPTY_SCOPE,
+    );
+  }, [open, existing]);
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: name.trim(),
+        cronExpr: cronExpr.trim(),
+        durationMinutes,
+        timezone: timezone.trim() || "UTC",
+        enabled,
+        ...scope,
+      };
+      if (isEdit && existing) await updateMaintenanceWindow(existing.id, body);
+      else await createMaintenanceWindow(body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ALERTING_KEYS.maintenanceWindows });
+      toast.success(isEdit ? "Maintenance window updated" : "Maintenance window created");
+      onClose();
+    },
+    onError: (e) => {
+      log.error("Failed to save maintenance window", e);
+      toast.error(errMessage(e));
+    },
+  });
+
+  const canSave = name.trim().length > 0 && cronExpr.trim().length > 0 && durationMinutes >= 1 && !mutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto rounded-xs border-ink-500 bg-ink-100">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3 text-paper">
+            <span className="grid h-9 w-9 place-items-center rounded-xs border border-ink-500 bg-ink-200 text-paper-muted">
+              <CalendarClock className="h-4 w-4" aria-hidden />
+            </span>
+            <span className="flex flex-col gap-0.5 text-left">
+              <span className="text-[16px] font-semibold tracking-tight">
+                {isEdit ? "Edit maintenance window" : "New maintenance window"}
+              </span>
+              <span className="font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint">
+                Recurring mute · cron + duration
+              </span>
+            </span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label className={LABEL_CLASS}>Name</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Sunday OS patching" />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className={LABEL_CLASS}>Starts (cron)</Label>
+            <Input
+              value={cronExpr}
+              onChange={(e) => setCronExpr(e.target.value)}
+              placeholder="minute hour day month weekday"
+              className="font-mono"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className={LABEL_CLASS}>Duration (min)</Label>
+              <Input
+                type="number"
+                min={1}
+                max={10080}
+                value={durationMinutes}
+                onChange={(e) => {
+                  const n = Math.round(Number(e.target.value));
+                  if (Number.isFinite(n)) setDurationMinutes(Math.min(10080, Math.max(1, n)));
+                }}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={LABEL_CLASS}>Timezone</Label>
+              <Input value={timezone} onChange={(e) => setTimezone(e.target.value)} placeholder="UTC" />
+            </div>
+          </div>
+
+          <ScopeFields scope={scope} onChange={setScope} enabled={open} />
+
+          <div className="flex items-center justify-between border-t border-ink-500 pt-3">
+            <Label className={LABEL_CLASS}>Enabled</Label>
+            <Switch checked={enabled} onCheckedChange={setEnabled} />
+          </div>
+        </div>
+
+        <DialogFooter className="border-t border-ink-500 pt-4">
+          <Button
+            variant="ghost"
+            onClick={onClose}
+            disabled={mutation.isPending}
+            className="h-9 rounded-xs font-mono text-[11px] uppercase tracking-[0.14em] text-paper-muted hover:bg-ink-200 hover:text-paper"
+          >
+            Cancel
+          </Button>
+          <Button onClick={() => mutation.mutate()} disabled={!canSave} className={DIALOG_SAVE_BTN}>
+            {mutation.isPending && <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />}
+            {isEdit ? "Save" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
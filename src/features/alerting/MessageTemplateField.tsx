@@ -0,0 +1,124 @@
+/**
+ * MessageTemplateField — the optional message template on a rule or channel:
+ * a text area with insertable variables and a live preview rendered by the
+ * server against a sample event. Blank = the built-in message.
+ */
+
+import { useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+
+import { useDebounce } from "@/hooks";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { previewTemplate, TEMPLATE_VARIABLES, type TemplateSource } from "@/api/alerting";
+
+const LABEL_CLASS = "font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim";
+const SOURCE_LABELS: Record<TemplateSource, string> = {
+  fleet: "Fleet",
+  scheduled_query: "Scheduled query",
+  data_health: "Data health",
+};
+const PLACEHOLDER = `{{connection}} — {{metric}} {{value}}
+{{summary}}{{#if threshold}} (threshold {{threshold}}){{/if}}
+{{#if topQuery}}Query: {{topQuery}}{{/if}}
+{{runLink}}`;
+
+export function MessageTemplateField({
+  value,
+  onChange,
+  sources,
+  hint,
+  enabled,
+}: {
+  value: string;
+  onChange: (next: string) => void;
+  /** Sample events the preview can render; the first is the default. */
+  sources: TemplateSource[];
+  hint: string;
+  enabled: boolean;
+}) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [source, setSource] = useState<TemplateSource>(sources[0]);
+  const debounced = useDebounce(value, 400);
+
+  const previewQuery = useQuery({
+    queryKey: ["alerting", "template-preview", source, debounced],
+    queryFn: () => previewTemplate(debounced, source),
+    enabled: enabled && debounced.trim().length > 0,
+    staleTime: Infinity,
+  });
+  const preview = previewQuery.data;
+
+  // Insert at the caret so variables land where the user is typing.
+  const insert = (name: string) => {
+    const token = `{{${name}}}`;
+    const el = textareaRef.current;
+    const start = el?.selectionStart ?? value.length;
+    const end = el?.selectionEnd ?? value.length;
+    onChange(value.slice(0, start) + token + value.slice(end));
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className={LABEL_CLASS}>Message template</Label>
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        rows={4}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={PLACEHOLDER}
+        className="font-mono text-[12px]"
+      />
+      <p className="text-[11px] text-paper-faint">{hint}</p>
+      <div className="flex flex-wrap gap-1">
+        {TEMPLATE_VARIABLES.map((v) => (
+          <button
+            key={v.name}
+            type="button"
+            title={v.description}
+            onClick={() => insert(v.name)}
+            className="rounded-xs border border-ink-500 bg-ink-100 px-1.5 py-0.5 font-mono text-[10px] text-paper-dim hover:text-paper"
+          >
+            {v.name}
+          </button>
+        ))}
+      </div>
+
+      {value.trim() && (
+        <div className="rounded-xs border border-ink-500 bg-ink-200 px-3 py-2.5">
+          <div className="mb-1.5 flex items-center justify-between gap-2">
+            <span className="font-mono text-[9px] uppercase tracking-[0.14em] text-paper-dim">Preview</span>
+            {sources.length > 1 && (
+              <select
+                value={source}
+                onChange={(e) => setSource(e.target.value as TemplateSource)}
+                className="h-6 rounded-xs border border-ink-500 bg-ink-100 px-1.5 text-[10px] text-paper focus:border-brand focus:outline-none"
+              >
+                {sources.map((s) => (
+                  <option key={s} value={s}>
+                    {SOURCE_LABELS[s]}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+          {previewQuery.isLoading || value !== debounced ? (
+            <Loader2 className="h-3.5 w-3.5 animate-spin text-paper-faint" />
+          ) : preview && !preview.valid ? (
+            <p className="text-[11px] text-red-400">{preview.error}</p>
+          ) : preview ? (
+            <div className="space-y-1">
+              <p className="text-[12px] font-semibold text-paper">{preview.title}</p>
+              <p className="whitespace-pre-wrap break-words text-[12px] text-paper-muted">{preview.text}</p>
+            </div>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
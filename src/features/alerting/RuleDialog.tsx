@@ -1,6 +1,7 @@
 /**
- * RuleDialog — shared create/edit dialog for a fleet alert rule: thresholds,
- * severity, AI auto-RCA, and which notification channels deliver it. Used by the
+ * RuleDialog — shared create/edit dialog for an alert rule (fleet thresholds, a
+ * query governor policy, a custom SQL check, …): thresholds, scope, severity, AI auto-RCA, which
+ * notification channels deliver it and where it escalates when nobody acknowledges it. Used by the
  * Admin → Alerting "Alert rules" panel. The channel attachment is the rule's
  * delivery wiring — the same links the Fleet "Alert delivery" dialog edits.
  */
@@ -8,13 +9,14 @@
 import { useEffect, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
-import { Loader2, Stethoscope, SlidersHorizontal } from "lucide-react";
+import { Loader2, Plus, Stethoscope, SlidersHorizontal, X } from "lucide-react";
 
 import { cn } from "@/lib/utils";
 import { log } from "@/lib/log";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import {
   Select,
@@ -36,6 +38,7 @@ import {
   listRules,
   createRule,
   updateRule,
+  setRuleEscalation,
   AlertSeverity,
   AlertSourceType,
   CHANNEL_TYPE_LABELS,
@@ -44,8 +47,10 @@ import {
   SUPPORTED_RULE_SOURCE_TYPES,
   RULE_SOURCE_FIELD_SPECS,
   type AlertRule,
+  type EscalationStep,
 } from "@/api/alerting";
 import { ALERTING_KEYS, DIALOG_SAVE_BTN } from "./ChannelDialog";
+import { MessageTemplateField } from "./MessageTemplateField";
 
 const LABEL_CLASS = "font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim";
 
@@ -84,20 +89,29 @@ export function RuleDialog({ open, rule, onClose }: RuleDialogProps) {
   const [enabled, setEnabled] = useState(true);
   const [sourceType, setSourceType] = useState<AlertSourceType>(AlertSourceType.FleetThreshold);
   const [severity, setSeverity] = useState<AlertSeverity>(AlertSeverity.Warning);
-  const [config, setConfig] = useState<Record<string, number>>({});
+  const [config, setConfig] = useState<Record<string, unknown>>({});
   const [aiRcaEnabled, setAiRcaEnabled] = useState(false);
   const [aiRcaModelId, setAiRcaModelId] = useState<string>();
   const [channelIds, setChannelIds] = useState<string[]>([]);
+  const [escalation, setEscalation] = useState<EscalationStep[]>([]);
+  const [messageTemplate, setMessageTemplate] = useState("");
 
   const specs = RULE_SOURCE_FIELD_SPECS[sourceType];
+  const thresholdSpecs = specs.filter((s) => s.kind === "number");
+  const scopeSpecs = specs.filter((s) => s.kind !== "number");
   const resolvedRcaModelId = aiRcaModelId ?? models.find((m) => m.isDefault)?.id ?? models[0]?.id;
 
   const configFromSpec = (
     src: AlertSourceType,
     from: Record<string, unknown>,
-  ): Record<string, number> => {
-    const out: Record<string, number> = {};
-    for (const s of RULE_SOURCE_FIELD_SPECS[src]) out[s.key] = Number(from[s.key] ?? 0);
+  ): Record<string, unknown> => {
+    const out: Record<string, unknown> = {};
+    for (const s of RULE_SOURCE_FIELD_SPECS[src]) {
+      if (s.kind === "text" || s.kind === "sql") out[s.key] = String(from[s.key] ?? "");
+      else if (s.kind === "select") out[s.key] = String(from[s.key] ?? s.options?.[0]?.value ?? "");
+      else if (s.kind === "boolean") out[s.key] = from[s.key] === true;
+      else out[s.key] = Number(from[s.key] ?? Math.max(0, s.min ?? 0));
+    }
     return out;
   };
 
@@ -112,6 +126,8 @@ export function RuleDialog({ open, rule, onClose }: RuleDialogProps) {
       setAiRcaEnabled(rule.aiRcaEnabled);
       setAiRcaModelId(rule.aiRcaModelId ?? undefined);
       setChannelIds(rule.channelIds);
+      setEscalation(rule.escalation ?? []);
+      setMessageTemplate(rule.messageTemplate ?? "");
     } else {
       setName("");
       setEnabled(true);
@@ -121,6 +137,8 @@ export function RuleDialog({ open, rule, onClose }: RuleDialogProps) {
       setAiRcaEnabled(false);
       setAiRcaModelId(undefined);
       setChannelIds([]);
+      setEscalation([]);
+      setMessageTemplate("");
     }
   }, [open, rule]);
 
@@ -141,9 +159,15 @@ export function RuleDialog({ open, rule, onClose }: RuleDialogProps) {
         aiRcaModelId: resolvedRcaModelId ?? null,
         config,
         channelIds,
+        messageTemplate: messageTemplate.trim() ? messageTemplate : null,
       };
+      let id = rule?.id;
       if (isEdit && rule) await updateRule(rule.id, body);
-      else await createRule(body);
+      else id = (await createRule(body)).id;
+      // Escalation steps are saved separately; skip the call when unchanged.
+      if (id && JSON.stringify(escalation) !== JSON.stringify(rule?.escalation ?? [])) {
+        await setRuleEscalation(id, escalation);
+      }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ALERTING_KEYS.rules });
@@ -159,6 +183,25 @@ export function RuleDialog({ open, rule, onClose }: RuleDialogProps) {
   const toggleChannel = (id: string) =>
     setChannelIds((ids) => (ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]));
 
+  const addEscalationStep = () =>
+    setEscalation((steps) => [
+      ...steps,
+      { afterMinutes: (steps[steps.length - 1]?.afterMinutes ?? 0) + 30, channelIds: [] },
+    ]);
+  const updateEscalationStep = (index: number, patch: Partial<EscalationStep>) =>
+    setEscalation((steps) => steps.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  const toggleEscalationChannel = (index: number, id: string) =>
+    setEscalation((steps) =>
+      steps.map((s, i) =>
+        i !== index
+          ? s
+          : { ...s, channelIds: s.channelIds.includes(id) ? s.channelIds.filter((x) => x !== id) : [...s.channelIds, id] },
+      ),
+    );
+
+  // Custom SQL thresholds are compared as-is — 0 is a real threshold there.
+  const zeroIsOff = sourceType !== AlertSourceType.CustomSql;
+
   const enableConflict =
     enabled && sourceType === AlertSourceType.FleetThreshold && Boolean(otherEnabledFleet);
   const canSave = name.trim().length > 0 && !mutation.isPending && !enableConflict;
@@ -238,17 +281,18 @@ export function RuleDialog({ open, rule, onClose }: RuleDialogProps) {
           )}
 
           {/* Config fields generated dynamically from the source type's spec */}
-          {specs.length > 0 && (
+          {thresholdSpecs.length > 0 && (
             <div className="space-y-1.5">
-              <Label className={LABEL_CLASS}>Thresholds · 0 = off</Label>
+              <Label className={LABEL_CLASS}>{zeroIsOff ? "Thresholds · 0 = off" : "Thresholds"}</Label>
               <div className="grid grid-cols-2 gap-2">
-                {specs.map((spec) => (
+                {thresholdSpecs.map((spec) => (
                   <NumField
                     key={spec.key}
                     label={spec.label}
-                    value={config[spec.key] ?? 0}
-                    min={spec.min}
-                    max={spec.max}
+                    value={Number(config[spec.key] ?? 0)}
+                    min={spec.min ?? 0}
+                    max={spec.max ?? Number.MAX_SAFE_INTEGER}
+                    step={spec.step}
                     onChange={(n) => setConfig((c) => ({ ...c, [spec.key]: n }))}
                   />
                 ))}
@@ -256,6 +300,66 @@ export function RuleDialog({ open, rule, onClose }: RuleDialogProps) {
             </div>
           )}
 
+          {scopeSpecs.length > 0 && (
+            <div className="space-y-2">
+              <Label className={LABEL_CLASS}>Scope</Label>
+              {scopeSpecs.map((spec) =>
+                spec.kind === "boolean" ? (
+                  <div key={spec.key} className="flex items-center justify-between gap-3">
+                    <span className="text-[13px] text-paper">{spec.label}</span>
+                    <Switch
+                      checked={config[spec.key] === true}
+                      onCheckedChange={(v) => setConfig((c) => ({ ...c, [spec.key]: v }))}
+                    />
+                  </div>
+                ) : spec.kind === "select" ? (
+                  <label key={spec.key} className="flex flex-col gap-1">
+                    <span className="font-mono text-[9px] uppercase tracking-[0.12em] text-paper-faint">{spec.label}</span>
+                    <Select
+                      value={String(config[spec.key] ?? "")}
+                      onValueChange={(v) => setConfig((c) => ({ ...c, [spec.key]: v }))}
+                    >
+                      <SelectTrigger className="h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(spec.options ?? []).map((o) => (
+                          <SelectItem key={o.value} value={o.value}>
+                            {o.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </label>
+                ) : spec.kind === "sql" ? (
+                  <label key={spec.key} className="flex flex-col gap-1">
+                    <span className="font-mono text-[9px] uppercase tracking-[0.12em] text-paper-faint">{spec.label}</span>
+                    <Textarea
+                      value={String(config[spec.key] ?? "")}
+                      placeholder={spec.placeholder}
+                      spellCheck={false}
+                      rows={5}
+                      onChange={(e) => setConfig((c) => ({ ...c, [spec.key]: e.target.value }))}
+                      className="rounded-xs border-ink-500 bg-ink-200 font-mono text-[12px] text-paper focus-visible:border-brand focus-visible:ring-0"
+                    />
+                    {spec.hint && <span className="text-[11px] text-paper-dim">{spec.hint}</span>}
+                  </label>
+                ) : (
+                  <label key={spec.key} className="flex flex-col gap-1">
+                    <span className="font-mono text-[9px] uppercase tracking-[0.12em] text-paper-faint">{spec.label}</span>
+                    <Input
+                      value={String(config[spec.key] ?? "")}
+                      placeholder={spec.placeholder}
+                      onChange={(e) => setConfig((c) => ({ ...c, [spec.key]: e.target.value }))}
+                      className="h-9 rounded-xs border-ink-500 bg-ink-200 font-mono text-[12px] text-paper focus-visible:border-brand focus-visible:ring-0"
+                    />
+                    {spec.hint && <span className="text-[11px] text-paper-dim">{spec.hint}</span>}
+                  </label>
+                ),
+              )}
+            </div>
+          )}
+
           {/* Channel attachment = delivery wiring */}
           <div className="space-y-1.5">
             <Label className={LABEL_CLASS}>Deliver to channels</Label>
@@ -292,32 +396,122 @@ export function RuleDialog({ open, rule, onClose }: RuleDialogProps) {
             )}
           </div>
 
-          {/* AI auto-RCA */}
-          <div className="rounded-xs border border-ink-500 bg-ink-200 px-3 py-2.5">
-            <div className="flex items-center justify-between gap-3">
-              <span className="flex items-center gap-2 text-[13px] font-medium text-paper">
-                <Stethoscope className="h-3.5 w-3.5 text-brand" aria-hidden /> AI auto-RCA on breach
-              </span>
-              <Switch checked={aiRcaEnabled} onCheckedChange={setAiRcaEnabled} />
-            </div>
-            {aiRcaEnabled && models.length > 1 && (
-              <label className="mt-2.5 flex items-center gap-2">
-                <span className="font-mono text-[9px] uppercase tracking-[0.14em] text-paper-dim">Model</span>
-                <select
-                  value={resolvedRcaModelId ?? ""}
-                  onChange={(e) => setAiRcaModelId(e.target.value)}
-                  className="h-8 max-w-[230px] rounded-xs border border-ink-500 bg-ink-100 px-2 text-[11px] text-paper focus:border-brand focus:outline-none"
+          {/* Escalation — re-notify other channels while nobody acknowledges */}
+          <div className="space-y-1.5">
+            <div className="flex items-center justify-between">
+              <Label className={LABEL_CLASS}>Escalation</Label>
+              {escalation.length < 5 && channels.length > 0 && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={addEscalationStep}
+                  className="h-7 gap-1 px-2 font-mono text-[10px] uppercase tracking-[0.12em] text-paper-muted"
                 >
-                  {models.map((m) => (
-                    <option key={m.id} value={m.id}>
-                      {m.label} · {m.model}
-                      {m.isDefault ? " (default)" : ""}
-                    </option>
-                  ))}
-                </select>
-              </label>
+                  <Plus className="h-3 w-3" /> Add step
+                </Button>
+              )}
+            </div>
+            {escalation.length === 0 ? (
+              <p className="text-[11px] text-paper-dim">
+                No escalation — an unacknowledged alert is only sent once.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {escalation.map((step, i) => (
+                  <li key={i} className="space-y-2 rounded-xs border border-ink-500 bg-ink-200 px-3 py-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-[9px] uppercase tracking-[0.12em] text-paper-faint">
+                        Step {i + 1} · after
+                      </span>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={step.afterMinutes}
+                        onChange={(e) => {
+                          const n = Math.round(Number(e.target.value));
+                          if (Number.isFinite(n)) updateEscalationStep(i, { afterMinutes: Math.max(1, n) });
+                        }}
+                        className="h-7 w-20 rounded-xs border-ink-500 bg-ink-100 text-right font-mono text-[12px] text-paper focus-visible:border-brand focus-visible:ring-0"
+                      />
+                      <span className="font-mono text-[9px] uppercase tracking-[0.12em] text-paper-faint">min unacknowledged</span>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="ml-auto h-6 w-6"
+                        title="Remove step"
+                        onClick={() => setEscalation((steps) => steps.filter((_, j) => j !== i))}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap gap-1.5">
+                      {channels.map((ch) => {
+                        const selected = step.channelIds.includes(ch.id);
+                        return (
+                          <button
+                            key={ch.id}
+                            type="button"
+                            aria-pressed={selected}
+                            onClick={() => toggleEscalationChannel(i, ch.id)}
+                            className={cn(
+                              "rounded-xs border px-1.5 py-0.5 text-[11px]",
+                              selected
+                                ? "border-brand bg-brand/15 text-paper"
+                                : "border-ink-500 bg-ink-100 text-paper-dim hover:text-paper",
+                            )}
+                          >
+                            {ch.name}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </li>
+                ))}
+              </ul>
             )}
           </div>
+
+          {/* AI auto-RCA — only fleet breaches trigger a scan */}
+          {sourceType === AlertSourceType.FleetThreshold && (
+            <div className="rounded-xs border border-ink-500 bg-ink-200 px-3 py-2.5">
+              <div className="flex items-center justify-between gap-3">
+                <span className="flex items-center gap-2 text-[13px] font-medium text-paper">
+                  <Stethoscope className="h-3.5 w-3.5 text-brand" aria-hidden /> AI auto-RCA on breach
+                </span>
+                <Switch checked={aiRcaEnabled} onCheckedChange={setAiRcaEnabled} />
+              </div>
+              {aiRcaEnabled && models.length > 1 && (
+                <label className="mt-2.5 flex items-center gap-2">
+                  <span className="font-mono text-[9px] uppercase tracking-[0.14em] text-paper-dim">Model</span>
+                  <select
+                    value={resolvedRcaModelId ?? ""}
+                    onChange={(e) => setAiRcaModelId(e.target.value)}
+                    className="h-8 max-w-[230px] rounded-xs border border-ink-500 bg-ink-100 px-2 text-[11px] text-paper focus:border-brand focus:outline-none"
+                  >
+                    {models.map((m) => (
+                      <option key={m.id} value={m.id}>
+                        {m.label} · {m.model}
+                        {m.isDefault ? " (default)" : ""}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+          )}
+
+          {/* Message template — fleet breaches only; other rule types keep their built-in text */}
+          {sourceType === AlertSourceType.FleetThreshold && (
+            <MessageTemplateField
+              value={messageTemplate}
+              onChange={setMessageTemplate}
+              sources={["fleet"]}
+              hint="Replaces the built-in breach message on every channel of this rule, ahead of any channel template. First line is the title. Leave blank for the default."
+              enabled={open}
+            />
+          )}
         </div>
 
         <DialogFooter className="border-t border-ink-500 pt-4">
@@ -344,14 +538,18 @@ function NumField({
   value,
   min,
   max,
+  step,
   onChange,
 }: {
   label: string;
   value: number;
   min: number;
   max: number;
+  step?: number;
   onChange: (n: number) => void;
 }) {
+  // A fractional step keeps decimals (custom SQL thresholds); the rest are whole numbers.
+  const keepDecimals = step !== undefined && step < 1;
   return (
     <label className="flex flex-col gap-1">
       <span className="font-mono text-[9px] uppercase tracking-[0.12em] text-paper-faint">{label}</span>
@@ -359,10 +557,11 @@ function NumField({
         type="number"
         min={min}
         max={max}
+        step={step}
         value={value}
         onChange={(e) => {
           const n = Number(e.target.value);
-          if (Number.isFinite(n)) onChange(Math.min(max, Math.max(min, Math.round(n))));
+          if (Number.isFinite(n)) onChange(Math.min(max, Math.max(min, keepDecimals ? n : Math.round(n))));
         }}
         className="h-9 rounded-xs border-ink-500 bg-ink-200 text-right font-mono text-[13px] text-paper focus-visible:border-brand focus-visible:ring-0"
       />
@@ -0,0 +1,102 @@
+/**
+ * ScopeFields — the rule / connection / severity scope shared by the silence
+ * and maintenance window dialogs. Each field left on "Any" matches every alert.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { listRules, AlertSeverity, type AlertScope } from "@/api/alerting";
+import { ALERTING_KEYS } from "./ChannelDialog";
+
+const LABEL_CLASS = "font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim";
+// Radix Select can't hold an empty value, so "any" gets a sentinel.
+const ANY = "__any__";
+
+export const EMPTY_SCOPE: AlertScope = { ruleId: null, connection: null, severity: null };
+
+/** One-line summary of a scope for list rows. */
+export function describeScope(scope: AlertScope, ruleNames: Map<string, string>): string {
+  const parts = [
+    scope.ruleId ? `rule ${ruleNames.get(scope.ruleId) ?? scope.ruleId}` : null,
+    scope.connection ? `connection ${scope.connection}` : null,
+    scope.severity ? `${scope.severity} only` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "all alerts";
+}
+
+export function ScopeFields({
+  scope,
+  onChange,
+  enabled,
+}: {
+  scope: AlertScope;
+  onChange: (next: AlertScope) => void;
+  enabled: boolean;
+}) {
+  const rulesQuery = useQuery({ queryKey: ALERTING_KEYS.rules, queryFn: listRules, enabled });
+  const rules = rulesQuery.data ?? [];
+
+  return (
+    <div className="space-y-2">
+      <Label className={LABEL_CLASS}>Applies to</Label>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1">
+          <span className="font-mono text-[9px] uppercase tracking-[0.12em] text-paper-faint">Rule</span>
+          <Select
+            value={scope.ruleId ?? ANY}
+            onValueChange={(v) => onChange({ ...scope, ruleId: v === ANY ? null : v })}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any rule</SelectItem>
+              {rules.map((r) => (
+                <SelectItem key={r.id} value={r.id}>
+                  {r.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="font-mono text-[9px] uppercase tracking-[0.12em] text-paper-faint">Severity</span>
+          <Select
+            value={scope.severity ?? ANY}
+            onValueChange={(v) => onChange({ ...scope, severity: v === ANY ? null : (v as AlertSeverity) })}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any severity</SelectItem>
+              {Object.values(AlertSeverity).map((s) => (
+                <SelectItem key={s} value={s}>
+                  {s}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </label>
+      </div>
+      <label className="flex flex-col gap-1">
+        <span className="font-mono text-[9px] uppercase tracking-[0.12em] text-paper-faint">Connection</span>
+        <Input
+          value={scope.connection ?? ""}
+          placeholder="Any connection — or a connection name or id"
+          onChange={(e) => onChange({ ...scope, connection: e.target.value || null })}
+          className="h-9 rounded-xs border-ink-500 bg-ink-200 font-mono text-[12px] text-paper focus-visible:border-brand focus-visible:ring-0"
+        />
+      </label>
+    </div>
+  );
+}
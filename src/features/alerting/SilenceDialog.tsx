@@ -0,0 +1,161 @@
+/**
+ * SilenceDialog — create/edit a one-off alert silence: a time range during
+ * which matching alerts are recorded but not delivered. Used by the Admin →
+ * Alerting "Silences" panel.
+ */
+
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { BellOff, Loader2 } from "lucide-react";
+
+import { log } from "@/lib/log";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { createSilence, updateSilence, type AlertScope, type AlertSilence } from "@/api/alerting";
+import { ALERTING_KEYS, DIALOG_SAVE_BTN } from "./ChannelDialog";
+import { ScopeFields, EMPTY_SCOPE } from "./ScopeFields";
+
+const LABEL_CLASS = "font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim";
+const DEFAULT_SILENCE_MS = 2 * 60 * 60 * 1000;
+
+function errMessage(e: unknown): string {
+  return e instanceof Error ? e.message : "Something went wrong";
+}
+
+/** Epoch ms → the local "YYYY-MM-DDTHH:mm" a datetime-local input expects. */
+function toLocalInput(ms: number): string {
+  const d = new Date(ms);
+  return new Date(ms - d.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+interface SilenceDialogProps {
+  open: boolean;
+  silence: AlertSilence | null; // null = create
+  onClose: () => void;
+}
+
+export function SilenceDialog({ open, silence, onClose }: SilenceDialogProps) {
+  const queryClient = useQueryClient();
+  const isEdit = silence !== null;
+
+  const [name, setName] = useState("");
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+  const [comment, setComment] = useState("");
+  const [scope, setScope] = useState<AlertScope>(EMPTY_SCOPE);
+
+  useEffect(() => {
+    if (!open) return;
+    const now = Date.now();
+    setName(silence?.name ?? "");
+    setStartsAt(toLocalInput(silence?.startsAt ?? now));
+    setEndsAt(toLocalInput(silence?.endsAt ?? now + DEFAULT_SILENCE_MS));
+    setComment(silence?.comment ?? "");
+    setScope(
+      silence ? { ruleId: silence.ruleId, connection: silence.connection, severity: silence.severity } : EMPTY_SCOPE,
+    );
+  }, [open, silence]);
+
+  const startsMs = new Date(startsAt).getTime();
+  const endsMs = new Date(endsAt).getTime();
+  const rangeValid = Number.isFinite(startsMs) && Number.isFinite(endsMs) && endsMs > startsMs;
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      const body = { name: name.trim(), startsAt: startsMs, endsAt: endsMs, comment: comment.trim() || null, ...scope };
+      if (isEdit && silence) await updateSilence(silence.id, body);
+      else await createSilence(body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ALERTING_KEYS.silences });
+      toast.success(isEdit ? "Silence updated" : "Silence created");
+      onClose();
+    },
+    onError: (e) => {
+      log.error("Failed to save silence", e);
+      toast.error(errMessage(e));
+    },
+  });
+
+  const canSave = name.trim().length > 0 && rangeValid && !mutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto rounded-xs border-ink-500 bg-ink-100">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3 text-paper">
+            <span className="grid h-9 w-9 place-items-center rounded-xs border border-ink-500 bg-ink-200 text-paper-muted">
+              <BellOff className="h-4 w-4" aria-hidden />
+            </span>
+            <span className="flex flex-col gap-0.5 text-left">
+              <span className="text-[16px] font-semibold tracking-tight">
+                {isEdit ? "Edit silence" : "New silence"}
+              </span>
+              <span className="font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint">
+                Mute matching alerts for a while
+              </span>
+            </span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label className={LABEL_CLASS}>Name</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. prod-eu upgrade" />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className={LABEL_CLASS}>Starts</Label>
+              <Input type="datetime-local" value={startsAt} onChange={(e) => setStartsAt(e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={LABEL_CLASS}>Ends</Label>
+              <Input type="datetime-local" value={endsAt} onChange={(e) => setEndsAt(e.target.value)} />
+            </div>
+          </div>
+          {!rangeValid && startsAt && endsAt && (
+            <p className="text-[11px] text-red-400">The silence must end after it starts.</p>
+          )}
+
+          <ScopeFields scope={scope} onChange={setScope} enabled={open} />
+
+          <div className="space-y-1.5">
+            <Label className={LABEL_CLASS}>Comment</Label>
+            <Textarea
+              value={comment}
+              rows={2}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Why alerts are muted (optional)"
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="border-t border-ink-500 pt-4">
+          <Button
+            variant="ghost"
+            onClick={onClose}
+            disabled={mutation.isPending}
+            className="h-9 rounded-xs font-mono text-[11px] uppercase tracking-[0.14em] text-paper-muted hover:bg-ink-200 hover:text-paper"
+          >
+            Cancel
+          </Button>
+          <Button onClick={() => mutation.mutate()} disabled={!canSave} className={DIALOG_SAVE_BTN}>
+            {mutation.isPending && <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />}
+            {isEdit ? "Save" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
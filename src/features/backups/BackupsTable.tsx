@@ -0,0 +1,117 @@
+/**
+ * The Backups list: every system.backups row of the connection joined with the
+ * operations CHouse UI started, newest first. Running restores show how many
+ * files have been read; failures show ClickHouse's error.
+ */
+
+import { History, Loader2 } from "lucide-react";
+
+import type { BackupListEntry } from "@/api/backups";
+import { Button } from "@/components/ui/button";
+import { cn, formatBytes } from "@/lib/utils";
+import {
+  entryDestination,
+  entryError,
+  entryKind,
+  entryProgress,
+  entrySize,
+  entryStartedAt,
+  entryStatus,
+  entryTarget,
+  type BackupRowStatus,
+} from "./lib";
+
+const STATUS_CLASSES: Record<BackupRowStatus, string> = {
+  running: "border-brand/40 text-brand",
+  succeeded: "border-emerald-500/40 text-emerald-600 dark:text-emerald-400",
+  failed: "border-red-500/40 text-red-600 dark:text-red-400",
+};
+
+export function BackupStatusBadge({ status }: { status: BackupRowStatus }) {
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 rounded-xs border px-1.5 py-0.5 font-mono text-[10px] uppercase tracking-[0.14em]",
+        STATUS_CLASSES[status],
+      )}
+    >
+      {status === "running" && <Loader2 className="h-2.5 w-2.5 animate-spin" aria-hidden />}
+      {status}
+    </span>
+  );
+}
+
+const HEAD_CLASS = "px-3 py-2 font-mono text-[9px] uppercase tracking-[0.14em] text-paper-faint";
+
+interface BackupsTableProps {
+  entries: BackupListEntry[];
+  canRestore: boolean;
+  onRestore: (entry: BackupListEntry) => void;
+}
+
+export function BackupsTable({ entries, canRestore, onRestore }: BackupsTableProps) {
+  if (entries.length === 0) {
+    return <p className="p-6 text-center text-[13px] text-paper-muted">No backups on this connection yet.</p>;
+  }
+
+  return (
+    <table className="w-full text-left text-[12px]">
+      <thead className="sticky top-0 bg-ink-50">
+        <tr>
+          <th className={HEAD_CLASS}>Status</th>
+          <th className={HEAD_CLASS}>Kind</th>
+          <th className={HEAD_CLASS}>Target</th>
+          <th className={HEAD_CLASS}>Location</th>
+          <th className={HEAD_CLASS}>Size</th>
+          <th className={HEAD_CLASS}>Started</th>
+          <th className={HEAD_CLASS}>By</th>
+          <th className={HEAD_CLASS} />
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((entry) => {
+          const status = entryStatus(entry);
+          const kind = entryKind(entry);
+          const error = entryError(entry);
+          const progress = entryProgress(entry);
+          const size = entrySize(entry);
+          const key = entry.operation?.id ?? entry.system?.id;
+          return (
+            <tr key={key} className="border-t border-ink-500 align-top">
+              <td className="px-3 py-2">
+                <BackupStatusBadge status={status} />
+                {progress != null && <div className="mt-1 font-mono text-[10px] text-paper-faint">{progress}% of files</div>}
+              </td>
+              <td className="px-3 py-2 font-mono text-[11px] uppercase tracking-[0.12em] text-paper-muted">{kind}</td>
+              <td className="px-3 py-2 font-mono text-paper">
+                {entryTarget(entry) ?? <span className="text-paper-faint">—</span>}
+              </td>
+              <td className="max-w-[320px] px-3 py-2">
+                <div className="break-all font-mono text-[11px] text-paper-muted">{entryDestination(entry)}</div>
+                {error && status === "failed" && <div className="mt-1 break-words text-[11px] text-red-600 dark:text-red-400">{error}</div>}
+              </td>
+              <td className="px-3 py-2 font-mono text-paper-muted">{size ? formatBytes(size) : "—"}</td>
+              <td className="whitespace-nowrap px-3 py-2 text-paper-muted">{new Date(entryStartedAt(entry)).toLocaleString()}</td>
+              <td className="px-3 py-2 text-paper-muted">
+                {entry.operation?.scheduleName ?? entry.operation?.startedByName ?? (entry.operation ? "—" : "Outside CHouse UI")}
+              </td>
+              <td className="px-3 py-2 text-right">
+                {canRestore && kind === "backup" && status === "succeeded" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onRestore(entry)}
+                    className="h-7 gap-1.5 rounded-xs border-ink-500 bg-transparent text-[11px] text-paper hover:bg-ink-200"
+                  >
+                    <History className="h-3 w-3" aria-hidden />
+                    Restore
+                  </Button>
+                )}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,182 @@
+/**
+ * RestoreDialog — RESTORE a table or database from a Disk() backup, in place
+ * or under another name. Restoring into tables that already hold data needs
+ * an explicit opt-in (`allow_non_empty_tables`); on a protected connection the
+ * restore is submitted for approval instead.
+ */
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import type { BackupListEntry } from "@/api/backups";
+import { APPROVAL_REQUIRED } from "@/api/changeRequests";
+import { ApiError } from "@/api/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useStartRestore } from "./hooks";
+import { entryDestination } from "./lib";
+import { CONTROL_CLASS, LABEL_CLASS } from "./TargetFields";
+
+interface RestoreDialogProps {
+  /** The backup to restore; null closes the dialog */
+  entry: BackupListEntry | null;
+  connectionId: string;
+  onClose: () => void;
+}
+
+export function RestoreDialog({ entry, connectionId, onClose }: RestoreDialogProps) {
+  const restore = useStartRestore();
+  const [scope, setScope] = useState<"table" | "database">("table");
+  const [database, setDatabase] = useState("");
+  const [table, setTable] = useState("");
+  const [targetDatabase, setTargetDatabase] = useState("");
+  const [targetTable, setTargetTable] = useState("");
+  const [allowNonEmpty, setAllowNonEmpty] = useState(false);
+
+  useEffect(() => {
+    if (!entry) return;
+    const op = entry.operation;
+    setScope(op?.scope ?? "table");
+    setDatabase(op?.database ?? "");
+    setTable(op?.table ?? "");
+    setTargetDatabase("");
+    setTargetTable("");
+    setAllowNonEmpty(false);
+  }, [entry]);
+
+  const destination = entry ? entryDestination(entry) : "";
+  const complete = Boolean(database.trim()) && (scope === "database" || Boolean(table.trim()));
+
+  const handleRestore = () => {
+    restore.mutate(
+      {
+        connectionId,
+        destination,
+        scope,
+        database: database.trim(),
+        table: scope === "table" ? table.trim() : undefined,
+        targetDatabase: targetDatabase.trim() || undefined,
+        targetTable: scope === "table" ? targetTable.trim() || undefined : undefined,
+        allowNonEmpty,
+      },
+      {
+        onSuccess: (op) => {
+          if (op.status === "failed") toast.error(`Restore failed: ${op.error ?? "unknown error"}`);
+          else toast.success("Restore started");
+          onClose();
+        },
+        onError: (err) => {
+          // Protected connections hold restores as change requests
+          if (err instanceof ApiError && err.code === APPROVAL_REQUIRED) {
+            toast.info(err.message);
+            onClose();
+            return;
+          }
+          toast.error(`Failed to start restore: ${(err as Error).message}`);
+        },
+      },
+    );
+  };
+
+  return (
+    <Dialog open={Boolean(entry)} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="overflow-hidden rounded-md border-ink-500 bg-ink-100 sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-paper">Restore backup</DialogTitle>
+          <DialogDescription className="break-all font-mono text-[11px] text-paper-muted">{destination}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          <div className="grid grid-cols-3 gap-2">
+            <label className="space-y-1">
+              <span className={LABEL_CLASS}>Scope</span>
+              <select
+                value={scope}
+                onChange={(e) => setScope(e.target.value as "table" | "database")}
+                aria-label="Scope"
+                className={CONTROL_CLASS}
+              >
+                <option value="table">Table</option>
+                <option value="database">Database</option>
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className={LABEL_CLASS}>Database in backup</span>
+              <Input value={database} onChange={(e) => setDatabase(e.target.value)} aria-label="Database in backup" className={CONTROL_CLASS} />
+            </label>
+            <label className="space-y-1">
+              <span className={LABEL_CLASS}>Table in backup</span>
+              <Input
+                value={scope === "table" ? table : ""}
+                onChange={(e) => setTable(e.target.value)}
+                disabled={scope === "database"}
+                aria-label="Table in backup"
+                className={CONTROL_CLASS}
+              />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="space-y-1">
+              <span className={LABEL_CLASS}>Restore as database</span>
+              <Input
+                value={targetDatabase}
+                onChange={(e) => setTargetDatabase(e.target.value)}
+                placeholder={database || "Same as backup"}
+                aria-label="Restore as database"
+                className={CONTROL_CLASS}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className={LABEL_CLASS}>Restore as table</span>
+              <Input
+                value={scope === "table" ? targetTable : ""}
+                onChange={(e) => setTargetTable(e.target.value)}
+                placeholder={scope === "table" ? table || "Same as backup" : "—"}
+                disabled={scope === "database"}
+                aria-label="Restore as table"
+                className={CONTROL_CLASS}
+              />
+            </label>
+          </div>
+
+          <label className="flex items-center justify-between gap-3 rounded-xs border border-ink-500 px-3 py-2">
+            <span className="flex flex-col">
+              <span className="text-[13px] text-paper">Restore into non-empty tables</span>
+              <span className="text-[12px] text-paper-muted">
+                Adds the backed-up rows to tables that already hold data instead of failing.
+              </span>
+            </span>
+            <Switch checked={allowNonEmpty} onCheckedChange={setAllowNonEmpty} aria-label="Restore into non-empty tables" />
+          </label>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="rounded-xs border-ink-500 bg-transparent text-paper hover:border-ink-700 hover:bg-ink-200"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleRestore}
+            disabled={!complete || restore.isPending}
+            className="rounded-xs bg-brand text-ink-50 hover:bg-brand-soft disabled:opacity-60"
+          >
+            {restore.isPending ? "Starting…" : "Restore"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
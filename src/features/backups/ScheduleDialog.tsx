@@ -0,0 +1,221 @@
+/**
+ * ScheduleDialog — create or edit a backup schedule: what to back up, where,
+ * and when (the Scheduled Queries cadences).
+ */
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import type { BackupFrequency, BackupSchedule, BackupScheduleInput } from "@/api/backups";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useBackupDisks, useSaveBackupSchedule } from "./hooks";
+import { CONTROL_CLASS, DiskField, LABEL_CLASS, TargetFields, isTargetComplete } from "./TargetFields";
+
+const DAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function initialForm(connectionId: string, schedule: BackupSchedule | null): BackupScheduleInput {
+  return {
+    connectionId,
+    name: schedule?.name ?? "",
+    scope: schedule?.scope ?? "table",
+    database: schedule?.database ?? "",
+    table: schedule?.table ?? "",
+    disk: schedule?.disk ?? "",
+    frequency: schedule?.frequency ?? "daily",
+    hour: schedule?.hour ?? 2,
+    dayOfWeek: schedule?.dayOfWeek ?? 0,
+    dayOfMonth: schedule?.dayOfMonth ?? 1,
+    cronExpr: schedule?.cronExpr ?? "",
+    timezone: schedule?.timezone ?? "UTC",
+    enabled: schedule?.enabled ?? true,
+  };
+}
+
+interface ScheduleDialogProps {
+  open: boolean;
+  connectionId: string;
+  /** The schedule being edited; null creates a new one */
+  schedule: BackupSchedule | null;
+  onClose: () => void;
+}
+
+export function ScheduleDialog({ open, connectionId, schedule, onClose }: ScheduleDialogProps) {
+  const { data: disks = [] } = useBackupDisks(open ? connectionId : null);
+  const save = useSaveBackupSchedule();
+  const [form, setForm] = useState<BackupScheduleInput>(() => initialForm(connectionId, schedule));
+  const update = (patch: Partial<BackupScheduleInput>) => setForm((f) => ({ ...f, ...patch }));
+
+  useEffect(() => {
+    if (open) setForm(initialForm(connectionId, schedule));
+  }, [open, connectionId, schedule]);
+
+  const target = { scope: form.scope, database: form.database, table: form.table ?? "" };
+  const complete =
+    Boolean(form.name.trim()) &&
+    isTargetComplete(target) &&
+    Boolean(form.disk) &&
+    (form.frequency !== "cron" || Boolean(form.cronExpr?.trim()));
+
+  const handleSave = () => {
+    const input: BackupScheduleInput = {
+      ...form,
+      name: form.name.trim(),
+      table: form.scope === "table" ? form.table : undefined,
+      cronExpr: form.frequency === "cron" ? (form.cronExpr ?? "").trim() : null,
+    };
+    save.mutate(
+      { id: schedule?.id ?? null, input },
+      {
+        onSuccess: () => {
+          toast.success(schedule ? "Schedule saved" : "Schedule created");
+          onClose();
+        },
+        onError: (err) => toast.error(`Failed to save schedule: ${(err as Error).message}`),
+      },
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="overflow-hidden rounded-md border-ink-500 bg-ink-100 sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-paper">{schedule ? "Edit backup schedule" : "New backup schedule"}</DialogTitle>
+          <DialogDescription className="text-paper-muted">
+            Back up on a cadence. Old backups stay on the disk until removed outside CHouse UI.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          <Input
+            value={form.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="Schedule name"
+            aria-label="Schedule name"
+            autoFocus
+            className={CONTROL_CLASS}
+          />
+          <TargetFields value={target} onChange={(t) => update({ scope: t.scope, database: t.database, table: t.table })} />
+          <DiskField value={form.disk} onChange={(disk) => update({ disk })} disks={disks} />
+
+          <div className="grid grid-cols-3 gap-2">
+            <label className="space-y-1">
+              <span className={LABEL_CLASS}>Frequency</span>
+              <select
+                value={form.frequency}
+                onChange={(e) => update({ frequency: e.target.value as BackupFrequency })}
+                aria-label="Frequency"
+                className={CONTROL_CLASS}
+              >
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+                <option value="monthly">Monthly</option>
+                <option value="cron">Custom cron</option>
+              </select>
+            </label>
+            {form.frequency === "cron" ? (
+              <label className="col-span-2 space-y-1">
+                <span className={LABEL_CLASS}>Cron expression</span>
+                <Input
+                  value={form.cronExpr ?? ""}
+                  onChange={(e) => update({ cronExpr: e.target.value })}
+                  placeholder="0 */6 * * *"
+                  aria-label="Cron expression"
+                  className={CONTROL_CLASS}
+                />
+              </label>
+            ) : (
+              <>
+                <label className="space-y-1">
+                  <span className={LABEL_CLASS}>Hour</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={23}
+                    value={form.hour}
+                    onChange={(e) => update({ hour: Number(e.target.value) })}
+                    aria-label="Hour"
+                    className={CONTROL_CLASS}
+                  />
+                </label>
+                {form.frequency === "weekly" && (
+                  <label className="space-y-1">
+                    <span className={LABEL_CLASS}>Day</span>
+                    <select
+                      value={form.dayOfWeek}
+                      onChange={(e) => update({ dayOfWeek: Number(e.target.value) })}
+                      aria-label="Day of week"
+                      className={CONTROL_CLASS}
+                    >
+                      {DAYS.map((d, i) => (
+                        <option key={d} value={i}>
+                          {d}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                {form.frequency === "monthly" && (
+                  <label className="space-y-1">
+                    <span className={LABEL_CLASS}>Day (1–28)</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={28}
+                      value={form.dayOfMonth}
+                      onChange={(e) => update({ dayOfMonth: Number(e.target.value) })}
+                      aria-label="Day of month"
+                      className={CONTROL_CLASS}
+                    />
+                  </label>
+                )}
+              </>
+            )}
+          </div>
+
+          <label className="block space-y-1">
+            <span className={LABEL_CLASS}>Timezone</span>
+            <Input
+              value={form.timezone}
+              onChange={(e) => update({ timezone: e.target.value })}
+              placeholder="UTC"
+              aria-label="Timezone"
+              className={CONTROL_CLASS}
+            />
+          </label>
+
+          <label className="flex items-center justify-between gap-3 rounded-xs border border-ink-500 px-3 py-2">
+            <span className="text-[13px] text-paper">Enabled</span>
+            <Switch checked={form.enabled} onCheckedChange={(enabled) => update({ enabled })} aria-label="Enabled" />
+          </label>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="rounded-xs border-ink-500 bg-transparent text-paper hover:border-ink-700 hover:bg-ink-200"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!complete || save.isPending}
+            className="rounded-xs bg-brand text-ink-50 hover:bg-brand-soft disabled:opacity-60"
+          >
+            {save.isPending ? "Saving…" : schedule ? "Save" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * Backup schedules of the connection: cadence and the next slots.
+ */
+
+import { Pencil, Trash2 } from "lucide-react";
+
+import type { BackupSchedule } from "@/api/backups";
+import { Button } from "@/components/ui/button";
+import { scheduleLabel } from "./lib";
+
+const HEAD_CLASS = "px-3 py-2 font-mono text-[9px] uppercase tracking-[0.14em] text-paper-faint";
+
+interface SchedulesTableProps {
+  schedules: BackupSchedule[];
+  canEdit: boolean;
+  onEdit: (schedule: BackupSchedule) => void;
+  onDelete: (schedule: BackupSchedule) => void;
+}
+
+export function SchedulesTable({ schedules, canEdit, onEdit, onDelete }: SchedulesTableProps) {
+  if (schedules.length === 0) {
+    return <p className="p-6 text-center text-[13px] text-paper-muted">No backup schedules on this connection.</p>;
+  }
+
+  return (
+    <table className="w-full text-left text-[12px]">
+      <thead className="sticky top-0 bg-ink-50">
+        <tr>
+          <th className={HEAD_CLASS}>Name</th>
+          <th className={HEAD_CLASS}>Target</th>
+          <th className={HEAD_CLASS}>Disk</th>
+          <th className={HEAD_CLASS}>Cadence</th>
+          <th className={HEAD_CLASS}>Next run</th>
+          <th className={HEAD_CLASS} />
+        </tr>
+      </thead>
+      <tbody>
+        {schedules.map((s) => (
+          <tr key={s.id} className="border-t border-ink-500">
+            <td className="px-3 py-2 text-paper">
+              {s.name}
+              {!s.enabled && <span className="ml-2 font-mono text-[10px] uppercase tracking-[0.12em] text-paper-faint">Paused</span>}
+            </td>
+            <td className="px-3 py-2 font-mono text-paper">{s.table ? `${s.database}.${s.table}` : s.database}</td>
+            <td className="px-3 py-2 font-mono text-paper-muted">{s.disk}</td>
+            <td className="px-3 py-2 text-paper-muted">{scheduleLabel(s)}</td>
+            <td className="whitespace-nowrap px-3 py-2 text-paper-muted">
+              {s.nextRuns.length > 0 ? new Date(s.nextRuns[0]).toLocaleString() : "—"}
+            </td>
+            <td className="px-3 py-2 text-right">
+              {canEdit && (
+                <span className="inline-flex gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => onEdit(s)} aria-label={`Edit ${s.name}`} className="h-7 w-7">
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => onDelete(s)} aria-label={`Delete ${s.name}`} className="h-7 w-7">
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </span>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,87 @@
+/**
+ * StartBackupDialog — run BACKUP TABLE/DATABASE … TO Disk(…) once. The path
+ * on the disk is generated server-side (`db/table/<UTC stamp>`).
+ */
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useBackupDisks, useStartBackup } from "./hooks";
+import { DiskField, TargetFields, isTargetComplete, type BackupTargetValue } from "./TargetFields";
+
+interface StartBackupDialogProps {
+  open: boolean;
+  connectionId: string;
+  onClose: () => void;
+}
+
+export function StartBackupDialog({ open, connectionId, onClose }: StartBackupDialogProps) {
+  const { data: disks = [] } = useBackupDisks(open ? connectionId : null);
+  const start = useStartBackup();
+  const [target, setTarget] = useState<BackupTargetValue>({ scope: "table", database: "", table: "" });
+  const [disk, setDisk] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setTarget({ scope: "table", database: "", table: "" });
+    setDisk("");
+  }, [open]);
+
+  const handleStart = () => {
+    start.mutate(
+      { connectionId, ...target, table: target.scope === "table" ? target.table : undefined, disk },
+      {
+        onSuccess: (op) => {
+          if (op.status === "failed") toast.error(`Backup failed: ${op.error ?? "unknown error"}`);
+          else toast.success("Backup started");
+          onClose();
+        },
+        onError: (err) => toast.error(`Failed to start backup: ${(err as Error).message}`),
+      },
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="overflow-hidden rounded-md border-ink-500 bg-ink-100 sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-paper">New backup</DialogTitle>
+          <DialogDescription className="text-paper-muted">
+            Back up a table or a whole database to a disk. Progress shows in the list.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          <TargetFields value={target} onChange={setTarget} />
+          <DiskField value={disk} onChange={setDisk} disks={disks} />
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="rounded-xs border-ink-500 bg-transparent text-paper hover:border-ink-700 hover:bg-ink-200"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleStart}
+            disabled={!isTargetComplete(target) || !disk || start.isPending}
+            className="rounded-xs bg-brand text-ink-50 hover:bg-brand-soft disabled:opacity-60"
+          >
+            {start.isPending ? "Starting…" : "Start backup"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
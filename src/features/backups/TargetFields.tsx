@@ -0,0 +1,110 @@
+/**
+ * Scope, database and table pickers shared by the backup, restore and
+ * schedule dialogs. Databases and tables come from the explorer tree of the
+ * active connection.
+ */
+
+import type { BackupScope } from "@/api/backups";
+import { useDatabases } from "@/hooks";
+
+export const LABEL_CLASS = "font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint";
+export const CONTROL_CLASS =
+  "h-9 w-full rounded-xs border border-ink-500 bg-ink-200 px-2 font-mono text-[12px] text-paper focus:border-brand focus:outline-none";
+
+export interface BackupTargetValue {
+  scope: BackupScope;
+  database: string;
+  table: string;
+}
+
+interface TargetFieldsProps {
+  value: BackupTargetValue;
+  onChange: (value: BackupTargetValue) => void;
+}
+
+export function TargetFields({ value, onChange }: TargetFieldsProps) {
+  const { data: databases = [] } = useDatabases();
+  const tables = databases.find((d) => d.name === value.database)?.children ?? [];
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <label className="space-y-1">
+        <span className={LABEL_CLASS}>Scope</span>
+        <select
+          value={value.scope}
+          onChange={(e) => onChange({ ...value, scope: e.target.value as BackupScope })}
+          aria-label="Scope"
+          className={CONTROL_CLASS}
+        >
+          <option value="table">Table</option>
+          <option value="database">Database</option>
+        </select>
+      </label>
+      <label className="space-y-1">
+        <span className={LABEL_CLASS}>Database</span>
+        <select
+          value={value.database}
+          onChange={(e) => onChange({ ...value, database: e.target.value, table: "" })}
+          aria-label="Database"
+          className={CONTROL_CLASS}
+        >
+          <option value="">Select…</option>
+          {databases.map((d) => (
+            <option key={d.name} value={d.name}>
+              {d.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="space-y-1">
+        <span className={LABEL_CLASS}>Table</span>
+        <select
+          value={value.table}
+          onChange={(e) => onChange({ ...value, table: e.target.value })}
+          aria-label="Table"
+          disabled={value.scope === "database"}
+          className={CONTROL_CLASS}
+        >
+          <option value="">{value.scope === "database" ? "All tables" : "Select…"}</option>
+          {tables.map((t) => (
+            <option key={t.name} value={t.name}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
+
+export function isTargetComplete(value: BackupTargetValue): boolean {
+  return Boolean(value.database) && (value.scope === "database" || Boolean(value.table));
+}
+
+/** Disk picker; ClickHouse still enforces its `backups.allowed_disk` list. */
+export function DiskField({
+  value,
+  onChange,
+  disks,
+}: {
+  value: string;
+  onChange: (disk: string) => void;
+  disks: Array<{ name: string; type: string }>;
+}) {
+  return (
+    <label className="block space-y-1">
+      <span className={LABEL_CLASS}>Disk</span>
+      <select value={value} onChange={(e) => onChange(e.target.value)} aria-label="Disk" className={CONTROL_CLASS}>
+        <option value="">Select…</option>
+        {disks.map((d) => (
+          <option key={d.name} value={d.name}>
+            {d.name} ({d.type})
+          </option>
+        ))}
+      </select>
+      <span className="block text-[11px] text-paper-faint">
+        The disk must be listed in the server's <code className="font-mono">backups.allowed_disk</code> setting.
+      </span>
+    </label>
+  );
+}
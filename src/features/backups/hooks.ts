@@ -0,0 +1,93 @@
+/**
+ * TanStack Query hooks for backups. The list polls every few seconds while an
+ * operation is running (progress lives in system.backups) and slows down once
+ * everything has settled; starting an operation or editing a schedule
+ * refreshes the connection's list.
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import {
+  createBackupSchedule,
+  deleteBackupSchedule,
+  listBackupDisks,
+  listBackups,
+  listBackupSchedules,
+  startBackup,
+  startRestore,
+  updateBackupSchedule,
+  type BackupScheduleInput,
+  type StartBackupInput,
+  type StartRestoreInput,
+} from "@/api/backups";
+import { entryStatus } from "./lib";
+
+const RUNNING_POLL_MS = 3_000;
+const IDLE_POLL_MS = 30_000;
+
+export const backupKeys = {
+  all: ["backups"] as const,
+  list: (connectionId: string) => [...backupKeys.all, "list", connectionId] as const,
+  disks: (connectionId: string) => [...backupKeys.all, "disks", connectionId] as const,
+  schedules: (connectionId: string) => [...backupKeys.all, "schedules", connectionId] as const,
+};
+
+export function useBackups(connectionId: string | null) {
+  return useQuery({
+    queryKey: backupKeys.list(connectionId ?? ""),
+    queryFn: () => listBackups(connectionId!),
+    enabled: Boolean(connectionId),
+    refetchInterval: (query) =>
+      query.state.data?.some((entry) => entryStatus(entry) === "running") ? RUNNING_POLL_MS : IDLE_POLL_MS,
+  });
+}
+
+export function useBackupDisks(connectionId: string | null) {
+  return useQuery({
+    queryKey: backupKeys.disks(connectionId ?? ""),
+    queryFn: () => listBackupDisks(connectionId!),
+    enabled: Boolean(connectionId),
+    staleTime: 60_000,
+  });
+}
+
+export function useBackupSchedules(connectionId: string | null) {
+  return useQuery({
+    queryKey: backupKeys.schedules(connectionId ?? ""),
+    queryFn: () => listBackupSchedules(connectionId!),
+    enabled: Boolean(connectionId),
+  });
+}
+
+export function useStartBackup() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (input: StartBackupInput) => startBackup(input),
+    onSuccess: (op) => void qc.invalidateQueries({ queryKey: backupKeys.list(op.connectionId) }),
+  });
+}
+
+export function useStartRestore() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (input: StartRestoreInput) => startRestore(input),
+    onSuccess: (op) => void qc.invalidateQueries({ queryKey: backupKeys.list(op.connectionId) }),
+  });
+}
+
+export function useSaveBackupSchedule() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string | null; input: BackupScheduleInput }) =>
+      id ? updateBackupSchedule(id, input) : createBackupSchedule(input),
+    onSuccess: (schedule) => void qc.invalidateQueries({ queryKey: backupKeys.schedules(schedule.connectionId) }),
+  });
+}
+
+export function useDeleteBackupSchedule(connectionId: string | null) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => deleteBackupSchedule(id),
+    onSuccess: () => void qc.invalidateQueries({ queryKey: backupKeys.schedules(connectionId ?? "") }),
+  });
+}
@@ -0,0 +1,6 @@
+export { BackupsTable } from "./BackupsTable";
+export { SchedulesTable } from "./SchedulesTable";
+export { StartBackupDialog } from "./StartBackupDialog";
+export { RestoreDialog } from "./RestoreDialog";
+export { ScheduleDialog } from "./ScheduleDialog";
+export { useBackups, useBackupSchedules, useDeleteBackupSchedule } from "./hooks";
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+
+import type { BackupListEntry, BackupOperation, SystemBackup } from "@/api/backups";
+import { entryKind, entryProgress, entryStatus, scheduleLabel } from "./lib";
+
+const system = (over: Partial<SystemBackup> = {}): SystemBackup => ({
+  id: "b-1",
+  name: "Disk('backups', 'db/events/1')",
+  status: "CREATING_BACKUP",
+  error: "",
+  startTime: 1_000,
+  endTime: 0,
+  numFiles: 0,
+  totalSize: 0,
+  uncompressedSize: 0,
+  compressedSize: 0,
+  filesRead: 0,
+  bytesRead: 0,
+  ...over,
+});
+
+const operation = (over: Partial<BackupOperation> = {}): BackupOperation => ({
+  id: "op-1",
+  connectionId: "conn-1",
+  scheduleId: null,
+  scheduleName: null,
+  kind: "backup",
+  backupId: "b-1",
+  destination: "Disk('backups', 'db/events/1')",
+  scope: "table",
+  database: "db",
+  table: "events",
+  statement: "",
+  status: "succeeded",
+  error: null,
+  totalSize: 1024,
+  numFiles: 3,
+  startedBy: null,
+  startedByName: null,
+  startedAt: 1_000,
+  finishedAt: 2_000,
+  ...over,
+});
+
+const entry = (over: Partial<BackupListEntry>): BackupListEntry => ({ system: null, operation: null, ...over });
+
+describe("backups lib", () => {
+  it("prefers the live ClickHouse status, and the catalog once ClickHouse forgot the backup", () => {
+    expect(entryStatus(entry({ system: system(), operation: operation({ status: "running" }) }))).toBe("running");
+    expect(entryStatus(entry({ system: system({ status: "BACKUP_FAILED" }) }))).toBe("failed");
+    expect(entryStatus(entry({ operation: operation() }))).toBe("succeeded");
+  });
+
+  it("tells restores from backups started outside CHouse UI", () => {
+    expect(entryKind(entry({ system: system({ status: "RESTORING" }) }))).toBe("restore");
+    expect(entryKind(entry({ system: system() }))).toBe("backup");
+  });
+
+  it("reports restore progress from files read", () => {
+    expect(entryProgress(entry({ system: system({ status: "RESTORING", numFiles: 8, filesRead: 2 }) }))).toBe(25);
+    expect(entryProgress(entry({ system: system({ status: "RESTORED", numFiles: 8, filesRead: 8 }) }))).toBeNull();
+    expect(entryProgress(entry({ system: system() }))).toBeNull();
+  });
+
+  it("labels schedules", () => {
+    const base = { hour: 2, dayOfWeek: 1, dayOfMonth: 15, cronExpr: null, timezone: "UTC" };
+    expect(scheduleLabel({ ...base, frequency: "weekly" })).toBe("Weekly Mon at 02:00 UTC");
+    expect(scheduleLabel({ ...base, frequency: "cron", cronExpr: "0 */6 * * *" })).toBe("Cron: 0 */6 * * * (UTC)");
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Presentation helpers for the Backups page — one status per list row
+ * (catalog first, system.backups otherwise), restore progress and schedule
+ * labels.
+ */
+
+import type { BackupKind, BackupListEntry, BackupSchedule } from "@/api/backups";
+
+export type BackupRowStatus = "running" | "succeeded" | "failed";
+
+const RUNNING_STATUSES = ["CREATING_BACKUP", "RESTORING"];
+const SUCCESS_STATUSES = ["BACKUP_CREATED", "RESTORED"];
+
+/** Status of a list row: ClickHouse while it still reports the operation, the catalog after. */
+export function entryStatus(entry: BackupListEntry): BackupRowStatus {
+  const { operation, system } = entry;
+  if (system) {
+    if (RUNNING_STATUSES.includes(system.status)) return "running";
+    return SUCCESS_STATUSES.includes(system.status) ? "succeeded" : "failed";
+  }
+  return operation?.status ?? "failed";
+}
+
+export function entryKind(entry: BackupListEntry): BackupKind {
+  if (entry.operation) return entry.operation.kind;
+  return entry.system?.status.startsWith("RESTOR") ? "restore" : "backup";
+}
+
+/** The backup's location — what a restore reads from. */
+export function entryDestination(entry: BackupListEntry): string {
+  return entry.operation?.destination ?? entry.system?.name ?? "";
+}
+
+/** `db.table`, `db`, or — for operations started outside CHouse UI — nothing. */
+export function entryTarget(entry: BackupListEntry): string | null {
+  const op = entry.operation;
+  if (!op) return null;
+  return op.table ? `${op.database}.${op.table}` : op.database;
+}
+
+export function entryStartedAt(entry: BackupListEntry): number {
+  return entry.operation?.startedAt ?? entry.system?.startTime ?? 0;
+}
+
+export function entryError(entry: BackupListEntry): string | null {
+  return entry.system?.error || entry.operation?.error || null;
+}
+
+export function entrySize(entry: BackupListEntry): number | null {
+  const size = entry.system?.totalSize || entry.operation?.totalSize;
+  return size ? size : null;
+}
+
+/** Percent of files read by a running restore; null when ClickHouse reports no file count. */
+export function entryProgress(entry: BackupListEntry): number | null {
+  const s = entry.system;
+  if (!s || !RUNNING_STATUSES.includes(s.status) || s.numFiles <= 0) return null;
+  return Math.min(100, Math.round((s.filesRead / s.numFiles) * 100));
+}
+
+const DOW = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function scheduleLabel(schedule: Pick<BackupSchedule, "frequency" | "hour" | "dayOfWeek" | "dayOfMonth" | "cronExpr" | "timezone">): string {
+  const h = String(schedule.hour).padStart(2, "0");
+  switch (schedule.frequency) {
+    case "cron":
+      return `Cron: ${schedule.cronExpr ?? "—"} (${schedule.timezone})`;
+    case "weekly":
+      return `Weekly ${DOW[schedule.dayOfWeek] ?? "?"} at ${h}:00 ${schedule.timezone}`;
+    case "monthly":
+      return `Monthly day ${schedule.dayOfMonth} at ${h}:00 ${schedule.timezone}`;
+    case "daily":
+    default:
+      return `Daily at ${h}:00 ${schedule.timezone}`;
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * One change request: the statement, its impact estimate, the target table's
+ * DDL diff and the review actions.
+ *
+ * While pending, the diff compares the DDL captured at submission with the
+ * live DDL, so a reviewer sees whether the table drifted since. Once executed
+ * it compares the DDL before and after the change.
+ */
+
+import { useState } from "react";
+import { Check, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+
+import type { ChangeRequestDetail } from "@/api/changeRequests";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { DiffEditor } from "@/components/common/DiffEditor";
+import { EstimateCard } from "@/components/monitoring/DdlSimulator";
+import { useReviewChangeRequest } from "./hooks";
+import { StatusBadge } from "./StatusBadge";
+
+const LABEL_CLASS = "font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim";
+
+interface ChangeRequestViewProps {
+  request: ChangeRequestDetail;
+  canApprove: boolean;
+  currentUserId: string | undefined;
+}
+
+export default function ChangeRequestView({ request, canApprove, currentUserId }: ChangeRequestViewProps) {
+  const review = useReviewChangeRequest();
+  const [comment, setComment] = useState("");
+
+  const isOwn = request.requestedBy === currentUserId;
+  const isPending = request.status === "pending";
+  const diff = isPending
+    ? { original: request.ddlBefore, modified: request.ddlCurrent, labels: ["At submission", "Now"] }
+    : { original: request.ddlBefore, modified: request.ddlAfter, labels: ["Before", "After"] };
+  const target = request.targetTable ? `${request.targetDatabase}.${request.targetTable}` : null;
+
+  const submit = async (decision: "approve" | "reject") => {
+    try {
+      const result = await review.mutateAsync({ id: request.id, decision, comment: comment.trim() || undefined });
+      setComment("");
+      if (result.status === "failed") {
+        toast.error("Change request failed", { description: result.error ?? undefined });
+      } else {
+        toast.success(decision === "approve" ? "Change request executed" : "Change request rejected");
+      }
+    } catch (err) {
+      toast.error(`Failed to ${decision} change request: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="h-full space-y-5 overflow-y-auto p-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-mono text-[12px] uppercase tracking-[0.14em] text-brand">{request.operationType}</span>
+        {target && <span className="font-mono text-[13px] text-paper">{target}</span>}
+        <StatusBadge status={request.status} />
+        <span className="ml-auto text-[12px] text-paper-muted">
+          {request.requesterName ?? "Unknown user"} on {request.connectionName ?? request.connectionId}
+          {" · "}
+          {new Date(request.createdAt).toLocaleString()}
+        </span>
+      </div>
+
+      <section className="space-y-1.5">
+        <span className={LABEL_CLASS}>Statement</span>
+        <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded-xs border border-ink-500 bg-ink-200 px-3 py-2.5 font-mono text-[12px] text-paper">
+          {request.statement}
+        </pre>
+      </section>
+
+      {request.impact && (
+        <section className="space-y-1.5">
+          <span className={LABEL_CLASS}>Impact estimate at submission</span>
+          <EstimateCard result={request.impact} />
+        </section>
+      )}
+
+      {diff.original !== null && diff.modified !== null && (
+        <section className="space-y-1.5">
+          <div className="flex justify-between">
+            <span className={LABEL_CLASS}>{diff.labels[0]}</span>
+            <span className={LABEL_CLASS}>{diff.labels[1]}</span>
+          </div>
+          <DiffEditor
+            key={`${request.id}-${request.status}`}
+            original={diff.original}
+            modified={diff.modified}
+            className="h-[320px] w-full overflow-hidden rounded-xs border border-ink-500"
+          />
+        </section>
+      )}
+
+      {request.error && (
+        <section className="space-y-1.5">
+          <span className={LABEL_CLASS}>Error</span>
+          <p className="rounded-xs border border-red-200 bg-red-50 px-3 py-2.5 font-mono text-[12px] text-red-700 dark:border-red-500/40 dark:bg-red-950/30 dark:text-red-300">
+            {request.error}
+          </p>
+        </section>
+      )}
+
+      {request.reviewedAt && (
+        <p className="text-[12px] text-paper-muted">
+          Reviewed by {request.reviewerName ?? "unknown user"} · {new Date(request.reviewedAt).toLocaleString()}
+          {request.reviewComment && <span className="block pt-1 text-paper">“{request.reviewComment}”</span>}
+        </p>
+      )}
+
+      {isPending && (canApprove || isOwn) && (
+        <section className="space-y-2 border-t border-ink-500 pt-4">
+          <span className={LABEL_CLASS}>Review comment</span>
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            maxLength={1000}
+            placeholder="Optional"
+            className="rounded-xs border-ink-500 bg-ink-200 text-[12px]"
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              disabled={review.isPending}
+              onClick={() => submit("reject")}
+              className="h-9 gap-2 rounded-xs font-mono text-[11px] uppercase tracking-[0.14em]"
+            >
+              <X className="h-3.5 w-3.5" aria-hidden />
+              {isOwn && !canApprove ? "Withdraw" : "Reject"}
+            </Button>
+            {canApprove && !isOwn && (
+              <Button
+                disabled={review.isPending}
+                onClick={() => submit("approve")}
+                className="h-9 gap-2 rounded-xs bg-brand px-4 font-mono text-[11px] font-semibold uppercase tracking-[0.14em] text-ink-50 hover:bg-brand-soft"
+              >
+                {review.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Check className="h-3.5 w-3.5" aria-hidden />}
+                Approve &amp; run
+              </Button>
+            )}
+          </div>
+          {canApprove && isOwn && (
+            <p className="text-right text-[11px] text-paper-faint">Another user has to approve your own request.</p>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
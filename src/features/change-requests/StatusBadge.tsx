@@ -0,0 +1,23 @@
+import type { ChangeRequestStatus } from "@/api/changeRequests";
+import { cn } from "@/lib/utils";
+
+const STATUS_CLASSES: Record<ChangeRequestStatus, string> = {
+  pending: "border-amber-500/40 text-amber-600 dark:text-amber-400",
+  approved: "border-brand/40 text-brand",
+  executed: "border-emerald-500/40 text-emerald-600 dark:text-emerald-400",
+  rejected: "border-ink-500 text-paper-muted",
+  failed: "border-red-500/40 text-red-600 dark:text-red-400",
+};
+
+export function StatusBadge({ status }: { status: ChangeRequestStatus }) {
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center rounded-xs border px-1.5 py-0.5 font-mono text-[10px] uppercase tracking-[0.14em]",
+        STATUS_CLASSES[status],
+      )}
+    >
+      {status}
+    </span>
+  );
+}
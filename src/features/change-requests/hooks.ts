@@ -0,0 +1,48 @@
+/**
+ * TanStack Query hooks for the change request approval queue. Reviews replace
+ * the cached request with the server response and refresh the list.
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import {
+  approveChangeRequest,
+  getChangeRequest,
+  listChangeRequests,
+  rejectChangeRequest,
+  type ChangeRequestStatus,
+} from "@/api/changeRequests";
+
+export const changeRequestKeys = {
+  all: ["change-requests"] as const,
+  list: (status: ChangeRequestStatus | undefined) => [...changeRequestKeys.all, "list", status ?? "all"] as const,
+  detail: (id: string) => [...changeRequestKeys.all, "detail", id] as const,
+};
+
+export function useChangeRequests(status?: ChangeRequestStatus) {
+  return useQuery({
+    queryKey: changeRequestKeys.list(status),
+    queryFn: () => listChangeRequests(status),
+    refetchInterval: 30_000,
+  });
+}
+
+export function useChangeRequest(id: string | undefined) {
+  return useQuery({
+    queryKey: changeRequestKeys.detail(id ?? ""),
+    queryFn: () => getChangeRequest(id!),
+    enabled: Boolean(id),
+  });
+}
+
+export function useReviewChangeRequest() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, decision, comment }: { id: string; decision: "approve" | "reject"; comment?: string }) =>
+      decision === "approve" ? approveChangeRequest(id, comment) : rejectChangeRequest(id, comment),
+    onSuccess: (request) => {
+      void qc.invalidateQueries({ queryKey: changeRequestKeys.detail(request.id) });
+      void qc.invalidateQueries({ queryKey: [...changeRequestKeys.all, "list"] });
+    },
+  });
+}
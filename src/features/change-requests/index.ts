@@ -0,0 +1,3 @@
+export { default as ChangeRequestView } from "./ChangeRequestView";
+export { StatusBadge } from "./StatusBadge";
+export { useChangeRequests, useChangeRequest } from "./hooks";
@@ -0,0 +1,112 @@
+/**
+ * DashboardDialog — create a dashboard or edit its name, description and
+ * sharing. Public dashboards are listed for everyone with dashboards:view,
+ * exactly like public saved queries.
+ */
+
+import React, { useEffect, useState } from "react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import type { Dashboard, DashboardInput } from "@/api";
+
+const CONTROL_CLASS =
+  "rounded-xs border-ink-500 bg-ink-200 font-mono text-[12px] text-paper placeholder:text-paper-faint focus-visible:border-brand focus-visible:ring-0";
+
+interface DashboardDialogProps {
+  open: boolean;
+  /** The dashboard being edited; null creates a new one */
+  dashboard: Dashboard | null;
+  saving: boolean;
+  onClose: () => void;
+  onSave: (input: DashboardInput) => void;
+}
+
+const DashboardDialog: React.FC<DashboardDialogProps> = ({ open, dashboard, saving, onClose, onSave }) => {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [isPublic, setIsPublic] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(dashboard?.name ?? "");
+    setDescription(dashboard?.description ?? "");
+    setIsPublic(dashboard?.isPublic ?? false);
+  }, [open, dashboard]);
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave({ name: name.trim(), description: description.trim() || null, isPublic });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="overflow-hidden rounded-md border-ink-500 bg-ink-100 sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-paper">{dashboard ? "Dashboard settings" : "New dashboard"}</DialogTitle>
+          <DialogDescription className="text-paper-muted">
+            Build a grid of tiles from your saved queries.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSave()}
+            placeholder="Dashboard name"
+            aria-label="Dashboard name"
+            autoFocus
+            className={`h-10 text-[13px] ${CONTROL_CLASS}`}
+          />
+          <Textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description (optional)"
+            aria-label="Description"
+            rows={3}
+            className={CONTROL_CLASS}
+          />
+          <label className="flex items-center justify-between gap-3 rounded-xs border border-ink-500 px-3 py-2">
+            <span className="flex flex-col">
+              <span className="text-[13px] text-paper">Public</span>
+              <span className="text-[12px] text-paper-muted">
+                Everyone with dashboard access can view it. Tiles on queries you have not shared stay hidden from them.
+              </span>
+            </span>
+            <Switch checked={isPublic} onCheckedChange={setIsPublic} aria-label="Public" />
+          </label>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="rounded-xs border-ink-500 bg-transparent text-paper hover:border-ink-700 hover:bg-ink-200"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!name.trim() || saving}
+            className="rounded-xs bg-brand text-ink-50 hover:bg-brand-soft disabled:opacity-60"
+          >
+            {saving ? "Saving…" : dashboard ? "Save" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DashboardDialog;
@@ -0,0 +1,178 @@
+/**
+ * DashboardTileCard — one tile on the dashboard grid: runs its saved query with
+ * the dashboard parameters and draws the result as a chart (when the tile has a
+ * chart config) or a compact table. In edit mode the header doubles as the drag
+ * handle and exposes edit/remove actions.
+ */
+
+import React, { useMemo } from "react";
+import { useSortable } from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { AlertCircle, GripVertical, Loader2, Lock, Pencil, RefreshCw, Trash2 } from "lucide-react";
+
+import { AiChartRenderer } from "@/components/common/AiChartRenderer";
+import { buildResultChartSpec } from "@/components/common/AiChartUtils";
+import type { DashboardParameters, DashboardTile, SavedQuery } from "@/api";
+import { cn } from "@/lib/utils";
+import { useTileResult } from "./hooks";
+
+/** Pixel height of one grid row; a tile spans `tile.height` rows. */
+export const TILE_ROW_HEIGHT = 180;
+
+const TABLE_MAX_ROWS = 200;
+
+const ICON_BUTTON_CLASS =
+  "grid h-6 w-6 place-items-center rounded-xs text-paper-dim transition-colors hover:bg-ink-300 hover:text-paper";
+
+interface DashboardTileCardProps {
+  tile: DashboardTile;
+  /** Undefined when the saved query was deleted or is private to someone else */
+  query: SavedQuery | undefined;
+  parameters: DashboardParameters;
+  editing: boolean;
+  onEdit: () => void;
+  onRemove: () => void;
+}
+
+const ResultTable: React.FC<{ columns: { name: string }[]; rows: Record<string, unknown>[] }> = ({ columns, rows }) => (
+  <table className="w-full border-collapse font-mono text-[11px]">
+    <thead className="sticky top-0 bg-ink-100">
+      <tr>
+        {columns.map((col) => (
+          <th key={col.name} className="border-b border-ink-500 px-2 py-1 text-left font-normal text-paper-dim">
+            {col.name}
+          </th>
+        ))}
+      </tr>
+    </thead>
+    <tbody>
+      {rows.slice(0, TABLE_MAX_ROWS).map((row, index) => (
+        <tr key={index} className="hover:bg-ink-200">
+          {columns.map((col) => {
+            const value = row[col.name];
+            return (
+              <td key={col.name} className="max-w-64 truncate border-b border-ink-500/50 px-2 py-1 text-paper">
+                {value === null || value === undefined ? (
+                  <span className="text-paper-faint">NULL</span>
+                ) : typeof value === "object" ? (
+                  JSON.stringify(value)
+                ) : (
+                  String(value)
+                )}
+              </td>
+            );
+          })}
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const TileMessage: React.FC<{ icon: React.ElementType; children: React.ReactNode; tone?: "muted" | "error" }> = ({
+  icon: Icon,
+  children,
+  tone = "muted",
+}) => (
+  <div className="flex h-full flex-col items-center justify-center gap-2 px-4 text-center">
+    <Icon className={cn("h-4 w-4", tone === "error" ? "text-red-400" : "text-paper-faint")} aria-hidden />
+    <span className={cn("max-w-md text-[12px] leading-relaxed", tone === "error" ? "text-red-300" : "text-paper-muted")}>
+      {children}
+    </span>
+  </div>
+);
+
+const DashboardTileCard: React.FC<DashboardTileCardProps> = ({ tile, query, parameters, editing, onEdit, onRemove }) => {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: tile.id,
+    disabled: !editing,
+  });
+  const result = useTileResult(tile, query, parameters);
+
+  const columns = useMemo(() => result.data?.meta ?? [], [result.data]);
+  const rows = useMemo(() => result.data?.data ?? [], [result.data]);
+  const spec = useMemo(
+    () => (tile.chartConfig && columns.length > 0 ? buildResultChartSpec(columns, rows, tile.chartConfig) : null),
+    [tile.chartConfig, columns, rows],
+  );
+
+  const title = tile.title || query?.name || "Unavailable query";
+
+  let body: React.ReactNode;
+  if (!query) {
+    body = (
+      <TileMessage icon={Lock}>
+        The saved query behind this tile was deleted or is not shared with you.
+      </TileMessage>
+    );
+  } else if (result.isError) {
+    body = (
+      <TileMessage icon={AlertCircle} tone="error">
+        {(result.error as Error).message}
+      </TileMessage>
+    );
+  } else if (!result.data) {
+    body = (
+      <div className="flex h-full items-center justify-center">
+        <Loader2 className="h-4 w-4 animate-spin text-paper-dim" aria-label="Loading" />
+      </div>
+    );
+  } else if (rows.length === 0) {
+    body = <TileMessage icon={AlertCircle}>No rows returned.</TileMessage>;
+  } else if (spec) {
+    body = <AiChartRenderer spec={spec} />;
+  } else {
+    body = <ResultTable columns={columns} rows={rows} />;
+  }
+
+  return (
+    <section
+      ref={setNodeRef}
+      style={{
+        gridColumn: `span ${tile.width} / span ${tile.width}`,
+        height: tile.height * TILE_ROW_HEIGHT,
+        transform: CSS.Transform.toString(transform),
+        transition,
+      }}
+      className={cn(
+        "flex min-w-0 flex-col overflow-hidden rounded-xs border border-ink-500 bg-ink-100",
+        isDragging && "z-10 opacity-80 shadow-lg",
+      )}
+      aria-label={title}
+    >
+      <header className="flex h-9 flex-none items-center gap-2 border-b border-ink-500 px-2">
+        {editing && (
+          <button type="button" className={cn(ICON_BUTTON_CLASS, "cursor-grab")} aria-label="Drag to reorder" {...attributes} {...listeners}>
+            <GripVertical className="h-3.5 w-3.5" aria-hidden />
+          </button>
+        )}
+        <h3 className="min-w-0 flex-1 truncate text-[13px] font-medium text-paper" title={title}>
+          {title}
+        </h3>
+        {result.isFetching && result.data && <Loader2 className="h-3 w-3 animate-spin text-paper-faint" aria-hidden />}
+        {tile.refreshSecs && (
+          <span className="font-mono text-[10px] text-paper-faint" title="Auto-refresh interval">
+            {tile.refreshSecs >= 60 ? `${tile.refreshSecs / 60}m` : `${tile.refreshSecs}s`}
+          </span>
+        )}
+        {query && (
+          <button type="button" className={ICON_BUTTON_CLASS} onClick={() => void result.refetch()} aria-label="Refresh tile">
+            <RefreshCw className="h-3 w-3" aria-hidden />
+          </button>
+        )}
+        {editing && (
+          <>
+            <button type="button" className={ICON_BUTTON_CLASS} onClick={onEdit} aria-label="Edit tile">
+              <Pencil className="h-3 w-3" aria-hidden />
+            </button>
+            <button type="button" className={ICON_BUTTON_CLASS} onClick={onRemove} aria-label="Remove tile">
+              <Trash2 className="h-3 w-3" aria-hidden />
+            </button>
+          </>
+        )}
+      </header>
+      <div className="min-h-0 flex-1 overflow-auto">{body}</div>
+    </section>
+  );
+};
+
+export default DashboardTileCard;
@@ -0,0 +1,316 @@
+/**
+ * DashboardView — a dashboard's toolbar, shared parameters and tile grid.
+ *
+ * The time range and filter values apply locally, so anyone viewing a shared
+ * dashboard can explore without changing it; the owner can save the current
+ * values as the dashboard's defaults. Tile edits (add, edit, remove, reorder)
+ * are saved immediately and are only offered to the owner.
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from "@dnd-kit/core";
+import { SortableContext, sortableKeyboardCoordinates, rectSortingStrategy } from "@dnd-kit/sortable";
+import { Check, Clock, Globe, LayoutGrid, Lock, Pencil, Plus, RefreshCw, Save, Settings2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import QueryParamsPanel from "@/features/workspace/components/QueryParamsPanel";
+import type { DashboardInput, DashboardParameters, DashboardTile, DashboardWithQueries } from "@/api";
+import { cn } from "@/lib/utils";
+import DashboardDialog from "./DashboardDialog";
+import DashboardTileCard from "./DashboardTileCard";
+import TileDialog from "./TileDialog";
+import { dashboardKeys, useDeleteDashboard, useUpdateDashboard } from "./hooks";
+import { collectDashboardParams, moveTile, TIME_RANGE_PRESETS, upsertTile } from "./lib";
+
+const TOOLBAR_BUTTON_CLASS =
+  "h-8 gap-1.5 rounded-xs border-ink-500 bg-transparent px-2.5 font-mono text-[10px] uppercase tracking-[0.14em] text-paper hover:border-ink-700 hover:bg-ink-200";
+
+interface DashboardViewProps {
+  dashboard: DashboardWithQueries;
+  /** Owner with dashboards:edit */
+  canEdit: boolean;
+  onDeleted: () => void;
+}
+
+const sameParameters = (a: DashboardParameters, b: DashboardParameters) =>
+  a.timeRange === b.timeRange && JSON.stringify(a.values) === JSON.stringify(b.values);
+
+const DashboardView: React.FC<DashboardViewProps> = ({ dashboard, canEdit, onDeleted }) => {
+  const queryClient = useQueryClient();
+  const updateMutation = useUpdateDashboard();
+  const deleteMutation = useDeleteDashboard();
+
+  const [parameters, setParameters] = useState<DashboardParameters>(dashboard.parameters);
+  const [draftValues, setDraftValues] = useState<Record<string, string>>(dashboard.parameters.values);
+  const [editing, setEditing] = useState(false);
+  const [tileDialog, setTileDialog] = useState<{ tile: DashboardTile | null } | null>(null);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  // Reset the local view when switching dashboards
+  useEffect(() => {
+    setParameters(dashboard.parameters);
+    setDraftValues(dashboard.parameters.values);
+    setEditing(false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dashboard.id]);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  const filterParams = useMemo(
+    () => collectDashboardParams(dashboard.tiles, dashboard.queries, parameters.timeRange),
+    [dashboard.tiles, dashboard.queries, parameters.timeRange]
+  );
+  const filtersDirty = JSON.stringify(draftValues) !== JSON.stringify(parameters.values);
+  const defaultsDirty = !sameParameters(parameters, dashboard.parameters);
+
+  const save = async (input: Partial<DashboardInput>, success?: string) => {
+    try {
+      await updateMutation.mutateAsync({ id: dashboard.id, input });
+      if (success) toast.success(success);
+    } catch (error) {
+      toast.error(`Failed to save dashboard: ${(error as Error).message}`);
+    }
+  };
+
+  const saveTiles = (tiles: DashboardTile[]) => save({ tiles });
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+    void saveTiles(moveTile(dashboard.tiles, String(active.id), String(over.id)));
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteMutation.mutateAsync(dashboard.id);
+      toast.success(`Deleted "${dashboard.name}"`);
+      onDeleted();
+    } catch (error) {
+      toast.error(`Failed to delete dashboard: ${(error as Error).message}`);
+    }
+  };
+
+  const refreshAll = () => {
+    void queryClient.invalidateQueries({ queryKey: [...dashboardKeys.all, "tile"] });
+  };
+
+  return (
+    <div className="flex h-full min-w-0 flex-col overflow-hidden">
+      <div className="flex flex-none flex-wrap items-center gap-3 border-b border-ink-500 px-4 py-2.5">
+        <div className="flex min-w-0 flex-col">
+          <h2 className="flex items-center gap-2 truncate text-[15px] font-semibold text-paper">
+            {dashboard.name}
+            {dashboard.isPublic ? (
+              <Globe className="h-3.5 w-3.5 shrink-0 text-paper-dim" aria-label="Public" />
+            ) : (
+              <Lock className="h-3.5 w-3.5 shrink-0 text-paper-dim" aria-label="Private" />
+            )}
+          </h2>
+          {dashboard.description && (
+            <span className="truncate text-[12px] text-paper-muted">{dashboard.description}</span>
+          )}
+        </div>
+
+        <div className="ml-auto flex flex-wrap items-center gap-2">
+          <Select
+            value={parameters.timeRange ?? "none"}
+            onValueChange={(value) =>
+              setParameters({ ...parameters, timeRange: value === "none" ? null : (value as DashboardParameters["timeRange"]) })
+            }
+          >
+            <SelectTrigger className="h-8 w-44 gap-1.5 rounded-xs border-ink-500 bg-ink-200 px-2 font-mono text-[11px]" aria-label="Time range">
+              <Clock className="h-3.5 w-3.5 shrink-0 text-paper-dim" aria-hidden />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No time range</SelectItem>
+              {TIME_RANGE_PRESETS.map((preset) => (
+                <SelectItem key={preset.value} value={preset.value}>
+                  {preset.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Button variant="outline" onClick={refreshAll} className={TOOLBAR_BUTTON_CLASS}>
+            <RefreshCw className="h-3 w-3" aria-hidden />
+            Refresh
+          </Button>
+
+          {canEdit && (
+            <>
+              {defaultsDirty && (
+                <Button
+                  variant="outline"
+                  onClick={() => void save({ parameters }, "Saved the current time range and filters as defaults")}
+                  className={TOOLBAR_BUTTON_CLASS}
+                  title="Save the current time range and filters as this dashboard's defaults"
+                >
+                  <Save className="h-3 w-3" aria-hidden />
+                  Save view
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                onClick={() => setEditing(!editing)}
+                aria-pressed={editing}
+                className={cn(TOOLBAR_BUTTON_CLASS, editing && "border-brand text-brand")}
+              >
+                {editing ? <Check className="h-3 w-3" aria-hidden /> : <Pencil className="h-3 w-3" aria-hidden />}
+                {editing ? "Done" : "Edit"}
+              </Button>
+              {editing && (
+                <>
+                  <Button onClick={() => setTileDialog({ tile: null })} className="h-8 gap-1.5 rounded-xs bg-brand px-2.5 font-mono text-[10px] uppercase tracking-[0.14em] text-ink-50 hover:bg-brand-soft">
+                    <Plus className="h-3 w-3" aria-hidden />
+                    Add tile
+                  </Button>
+                  <Button variant="outline" onClick={() => setSettingsOpen(true)} className={TOOLBAR_BUTTON_CLASS} aria-label="Dashboard settings">
+                    <Settings2 className="h-3 w-3" aria-hidden />
+                  </Button>
+                  <Button variant="outline" onClick={() => setConfirmDelete(true)} className={TOOLBAR_BUTTON_CLASS} aria-label="Delete dashboard">
+                    <Trash2 className="h-3 w-3" aria-hidden />
+                  </Button>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {filterParams.length > 0 && (
+        <div className="flex flex-none">
+          <div className="min-w-0 flex-1">
+            <QueryParamsPanel params={filterParams} values={draftValues} onChange={setDraftValues} />
+          </div>
+          <div className="flex items-end border-b border-ink-500 bg-ink-100 px-3 py-2">
+            <Button
+              onClick={() => setParameters({ ...parameters, values: draftValues })}
+              disabled={!filtersDirty}
+              className="h-7 rounded-xs bg-brand px-3 font-mono text-[10px] uppercase tracking-[0.14em] text-ink-50 hover:bg-brand-soft disabled:opacity-60"
+            >
+              Apply
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="min-h-0 flex-1 overflow-auto p-4">
+        {dashboard.tiles.length === 0 ? (
+          <div className="flex h-full flex-col items-center justify-center gap-3 text-center">
+            <LayoutGrid className="h-6 w-6 text-paper-faint" aria-hidden />
+            <p className="text-[13px] text-paper-muted">
+              {canEdit ? "This dashboard has no tiles yet. Add one from a saved query." : "This dashboard has no tiles yet."}
+            </p>
+            {canEdit && (
+              <Button
+                onClick={() => {
+                  setEditing(true);
+                  setTileDialog({ tile: null });
+                }}
+                className="gap-2 rounded-xs bg-brand text-ink-50 hover:bg-brand-soft"
+              >
+                <Plus className="h-3.5 w-3.5" aria-hidden />
+                Add tile
+              </Button>
+            )}
+          </div>
+        ) : (
+          <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+            <SortableContext items={dashboard.tiles.map((tile) => tile.id)} strategy={rectSortingStrategy}>
+              <div className="grid grid-cols-12 gap-3">
+                {dashboard.tiles.map((tile) => (
+                  <DashboardTileCard
+                    key={tile.id}
+                    tile={tile}
+                    query={dashboard.queries[tile.savedQueryId]}
+                    parameters={parameters}
+                    editing={editing}
+                    onEdit={() => setTileDialog({ tile })}
+                    onRemove={() => void saveTiles(dashboard.tiles.filter((t) => t.id !== tile.id))}
+                  />
+                ))}
+              </div>
+            </SortableContext>
+          </DndContext>
+        )}
+      </div>
+
+      <TileDialog
+        open={tileDialog !== null}
+        tile={tileDialog?.tile ?? null}
+        onClose={() => setTileDialog(null)}
+        onSave={(tile) => {
+          setTileDialog(null);
+          void saveTiles(upsertTile(dashboard.tiles, tile));
+        }}
+      />
+
+      <DashboardDialog
+        open={settingsOpen}
+        dashboard={dashboard}
+        saving={updateMutation.isPending}
+        onClose={() => setSettingsOpen(false)}
+        onSave={async (input) => {
+          await save(input);
+          setSettingsOpen(false);
+        }}
+      />
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent className="rounded-md border-ink-500 bg-ink-100">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-paper">Delete "{dashboard.name}"?</AlertDialogTitle>
+            <AlertDialogDescription className="text-paper-muted">
+              The dashboard and its layout are removed. The saved queries behind its tiles are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="rounded-xs border-ink-500 bg-transparent text-paper hover:border-ink-700 hover:bg-ink-200">
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
+              className="rounded-xs bg-red-600 text-paper hover:bg-red-500"
+            >
+              {deleteMutation.isPending ? "Deleting…" : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default DashboardView;
@@ -0,0 +1,219 @@
+/**
+ * TileDialog — add or edit a dashboard tile: which saved query it runs, how the
+ * result is drawn (table or a chart type), its size on the 12-column grid and
+ * its auto-refresh interval.
+ */
+
+import React, { useEffect, useState } from "react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useSavedQueries } from "@/hooks";
+import type { DashboardTile, SavedQueryChartType } from "@/api";
+import { REFRESH_OPTIONS, TILE_WIDTHS } from "./lib";
+
+const LABEL_CLASS = "font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim";
+const CONTROL_CLASS =
+  "h-9 rounded-xs border-ink-500 bg-ink-200 font-mono text-[12px] text-paper placeholder:text-paper-faint focus-visible:border-brand focus-visible:ring-0";
+
+const DISPLAY_OPTIONS: { value: "table" | SavedQueryChartType; label: string }[] = [
+  { value: "table", label: "Table" },
+  { value: "line", label: "Line chart" },
+  { value: "bar", label: "Bar chart" },
+  { value: "area", label: "Area chart" },
+  { value: "pie", label: "Pie chart" },
+  { value: "scatter", label: "Scatter chart" },
+];
+
+const HEIGHTS = [1, 2, 3, 4];
+
+interface TileDialogProps {
+  open: boolean;
+  /** The tile being edited; null adds a new tile */
+  tile: DashboardTile | null;
+  onClose: () => void;
+  onSave: (tile: DashboardTile) => void;
+}
+
+const TileDialog: React.FC<TileDialogProps> = ({ open, tile, onClose, onSave }) => {
+  const { data: savedQueries = [] } = useSavedQueries(undefined, { enabled: open });
+  const [draft, setDraft] = useState<DashboardTile | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(
+      tile ?? {
+        id: crypto.randomUUID(),
+        savedQueryId: "",
+        title: null,
+        chartConfig: null,
+        width: 6,
+        height: 2,
+        refreshSecs: null,
+      },
+    );
+  }, [open, tile]);
+
+  if (!draft) return null;
+
+  const update = (patch: Partial<DashboardTile>) => setDraft({ ...draft, ...patch });
+
+  // Picking a query adopts the chart view it was saved with
+  const handleQueryChange = (savedQueryId: string) => {
+    const query = savedQueries.find((q) => q.id === savedQueryId);
+    update({ savedQueryId, chartConfig: query?.chartConfig ?? null });
+  };
+
+  const handleDisplayChange = (value: string) => {
+    if (value === "table") {
+      update({ chartConfig: null });
+      return;
+    }
+    update({ chartConfig: { ...(draft.chartConfig ?? {}), chartType: value as SavedQueryChartType } });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="overflow-hidden rounded-md border-ink-500 bg-ink-100 sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-paper">{tile ? "Edit tile" : "Add tile"}</DialogTitle>
+          <DialogDescription className="text-paper-muted">
+            Tiles run a saved query with the dashboard's time range and filters.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          <label className="flex flex-col gap-1.5">
+            <span className={LABEL_CLASS}>Saved query</span>
+            <Select value={draft.savedQueryId} onValueChange={handleQueryChange}>
+              <SelectTrigger className={CONTROL_CLASS} aria-label="Saved query">
+                <SelectValue placeholder="Choose a saved query" />
+              </SelectTrigger>
+              <SelectContent>
+                {savedQueries.map((query) => (
+                  <SelectItem key={query.id} value={query.id}>
+                    {query.folder ? `${query.folder}/` : ""}
+                    {query.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </label>
+
+          <label className="flex flex-col gap-1.5">
+            <span className={LABEL_CLASS}>Title</span>
+            <Input
+              value={draft.title ?? ""}
+              onChange={(e) => update({ title: e.target.value || null })}
+              placeholder="Defaults to the query name"
+              className={CONTROL_CLASS}
+            />
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1.5">
+              <span className={LABEL_CLASS}>Display</span>
+              <Select value={draft.chartConfig?.chartType ?? "table"} onValueChange={handleDisplayChange}>
+                <SelectTrigger className={CONTROL_CLASS} aria-label="Display">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DISPLAY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </label>
+
+            <label className="flex flex-col gap-1.5">
+              <span className={LABEL_CLASS}>Auto-refresh</span>
+              <Select
+                value={String(draft.refreshSecs ?? "off")}
+                onValueChange={(value) => update({ refreshSecs: value === "off" ? null : Number(value) })}
+              >
+                <SelectTrigger className={CONTROL_CLASS} aria-label="Auto-refresh">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REFRESH_OPTIONS.map((option) => (
+                    <SelectItem key={option.label} value={String(option.value ?? "off")}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </label>
+
+            <label className="flex flex-col gap-1.5">
+              <span className={LABEL_CLASS}>Width</span>
+              <Select value={String(draft.width)} onValueChange={(value) => update({ width: Number(value) })}>
+                <SelectTrigger className={CONTROL_CLASS} aria-label="Width">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TILE_WIDTHS.map((width) => (
+                    <SelectItem key={width} value={String(width)}>
+                      {width === 12 ? "Full width" : `${width} / 12 columns`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </label>
+
+            <label className="flex flex-col gap-1.5">
+              <span className={LABEL_CLASS}>Height</span>
+              <Select value={String(draft.height)} onValueChange={(value) => update({ height: Number(value) })}>
+                <SelectTrigger className={CONTROL_CLASS} aria-label="Height">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HEIGHTS.map((height) => (
+                    <SelectItem key={height} value={String(height)}>
+                      {height} {height === 1 ? "row" : "rows"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </label>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="rounded-xs border-ink-500 bg-transparent text-paper hover:border-ink-700 hover:bg-ink-200"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onSave(draft)}
+            disabled={!draft.savedQueryId}
+            className="rounded-xs bg-brand text-ink-50 hover:bg-brand-soft disabled:opacity-60"
+          >
+            {tile ? "Save tile" : "Add tile"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TileDialog;
@@ -0,0 +1,103 @@
+/**
+ * TanStack Query hooks for dashboards. Tile results are cached per tile and
+ * re-run on the tile's own refresh interval; mutations replace the cached
+ * dashboard with the server response so the grid never flashes stale tiles.
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { queryApi, type DashboardParameters, type DashboardTile, type SavedQuery } from "@/api";
+import {
+  createDashboard,
+  deleteDashboard,
+  getDashboard,
+  listDashboards,
+  updateDashboard,
+  type DashboardInput,
+  type DashboardWithQueries,
+} from "@/api/dashboards";
+import { RESULT_CHART_MAX_ROWS } from "@/components/common/AiChartUtils";
+import { useAuthStore } from "@/stores";
+import { tileQueryParams } from "./lib";
+
+export const dashboardKeys = {
+  all: ["dashboards"] as const,
+  list: () => [...dashboardKeys.all, "list"] as const,
+  detail: (id: string) => [...dashboardKeys.all, "detail", id] as const,
+  tile: (tileId: string, sql: string, parameters: DashboardParameters, connectionId: string | null) =>
+    [...dashboardKeys.all, "tile", tileId, sql, parameters, connectionId ?? "none"] as const,
+};
+
+export function useDashboards() {
+  return useQuery({
+    queryKey: dashboardKeys.list(),
+    queryFn: listDashboards,
+  });
+}
+
+export function useDashboard(id: string | undefined) {
+  return useQuery({
+    queryKey: dashboardKeys.detail(id ?? ""),
+    queryFn: () => getDashboard(id!),
+    enabled: Boolean(id),
+  });
+}
+
+function useCacheDashboard() {
+  const qc = useQueryClient();
+  return (dashboard: DashboardWithQueries) => {
+    qc.setQueryData(dashboardKeys.detail(dashboard.id), dashboard);
+    void qc.invalidateQueries({ queryKey: dashboardKeys.list() });
+  };
+}
+
+export function useCreateDashboard() {
+  const cache = useCacheDashboard();
+  return useMutation({
+    mutationFn: (input: DashboardInput) => createDashboard(input),
+    onSuccess: cache,
+  });
+}
+
+export function useUpdateDashboard() {
+  const cache = useCacheDashboard();
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: Partial<DashboardInput> }) => updateDashboard(id, input),
+    onSuccess: cache,
+  });
+}
+
+export function useDeleteDashboard() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => deleteDashboard(id),
+    onSuccess: (_, id) => {
+      qc.removeQueries({ queryKey: dashboardKeys.detail(id) });
+      void qc.invalidateQueries({ queryKey: dashboardKeys.list() });
+    },
+  });
+}
+
+/**
+ * Run a tile's saved query on the active connection. The time range is
+ * resolved when the query runs, so every refresh sees a window ending now.
+ */
+export function useTileResult(tile: DashboardTile, query: SavedQuery | undefined, parameters: DashboardParameters) {
+  const activeConnectionId = useAuthStore((state) => state.activeConnectionId);
+  return useQuery({
+    queryKey: dashboardKeys.tile(tile.id, query?.query ?? "", parameters, activeConnectionId),
+    queryFn: ({ signal }) =>
+      queryApi.executeQuery(
+        query!.query,
+        "JSON",
+        undefined,
+        signal,
+        RESULT_CHART_MAX_ROWS,
+        tileQueryParams(query!, parameters, Date.now()),
+      ),
+    enabled: Boolean(query && activeConnectionId),
+    refetchInterval: tile.refreshSecs ? tile.refreshSecs * 1000 : false,
+    refetchOnWindowFocus: false,
+    retry: false,
+  });
+}
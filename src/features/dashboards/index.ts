@@ -0,0 +1,3 @@
+export { default as DashboardView } from "./DashboardView";
+export { default as DashboardDialog } from "./DashboardDialog";
+export { useDashboards, useDashboard, useCreateDashboard } from "./hooks";
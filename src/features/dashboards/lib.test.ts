@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+
+import type { DashboardTile, SavedQuery } from "@/api";
+import {
+  collectDashboardParams,
+  formatDateTimeParam,
+  moveTile,
+  resolveTimeRange,
+  tileQueryParams,
+  upsertTile,
+} from "./lib";
+
+const makeQuery = (id: string, sql: string, parameters: Record<string, string> | null = null): SavedQuery => ({
+  id,
+  userId: "user-1",
+  connectionId: null,
+  connectionName: null,
+  name: id,
+  query: sql,
+  description: null,
+  isPublic: false,
+  parameters,
+  chartConfig: null,
+  folder: null,
+  tags: [],
+  createdAt: "2024-01-01T00:00:00Z",
+  updatedAt: "2024-01-01T00:00:00Z",
+});
+
+const makeTile = (id: string, savedQueryId = id): DashboardTile => ({
+  id,
+  savedQueryId,
+  title: null,
+  chartConfig: null,
+  width: 6,
+  height: 2,
+  refreshSecs: null,
+});
+
+const NOW = new Date(2024, 4, 10, 12, 30, 5).getTime();
+
+describe("resolveTimeRange", () => {
+  it("resolves a preset to a window ending now", () => {
+    expect(resolveTimeRange("1h", NOW)).toEqual({ from: "2024-05-10 11:30:05", to: "2024-05-10 12:30:05" });
+    expect(resolveTimeRange(null, NOW)).toEqual({});
+  });
+
+  it("formats in the DateTime parameter form", () => {
+    expect(formatDateTimeParam(new Date(2024, 0, 2, 3, 4, 5))).toBe("2024-01-02 03:04:05");
+  });
+});
+
+describe("tileQueryParams", () => {
+  const query = makeQuery(
+    "q",
+    "SELECT * FROM t WHERE region = {region:String} AND ts BETWEEN {from:DateTime} AND {to:DateTime}",
+    { region: "us", from: "2000-01-01 00:00:00", unused: "x" },
+  );
+
+  it("layers saved values, dashboard filters and the time range", () => {
+    expect(tileQueryParams(query, { timeRange: "1h", values: { region: "eu", other: "y" } }, NOW)).toEqual({
+      region: "eu",
+      from: "2024-05-10 11:30:05",
+      to: "2024-05-10 12:30:05",
+    });
+  });
+
+  it("keeps saved values when the dashboard sets none", () => {
+    expect(tileQueryParams(query, { timeRange: null, values: {} }, NOW)).toEqual({
+      region: "us",
+      from: "2000-01-01 00:00:00",
+    });
+  });
+});
+
+describe("collectDashboardParams", () => {
+  const queries = {
+    a: makeQuery("a", "SELECT {region:String}, {from:DateTime}"),
+    b: makeQuery("b", "SELECT {region:LowCardinality(String)}, {limit:UInt32}"),
+  };
+  const tiles = [makeTile("a"), makeTile("b"), makeTile("gone")];
+
+  it("unions placeholders across visible tiles", () => {
+    expect(collectDashboardParams(tiles, queries, null).map((p) => p.name)).toEqual(["region", "from", "limit"]);
+  });
+
+  it("hides the placeholders a time range fills in", () => {
+    expect(collectDashboardParams(tiles, queries, "24h").map((p) => p.name)).toEqual(["region", "limit"]);
+  });
+});
+
+describe("tile layout edits", () => {
+  const tiles = [makeTile("a"), makeTile("b"), makeTile("c")];
+
+  it("moves a tile to another tile's position", () => {
+    expect(moveTile(tiles, "c", "a").map((t) => t.id)).toEqual(["c", "a", "b"]);
+    expect(moveTile(tiles, "a", "missing")).toBe(tiles);
+  });
+
+  it("replaces an existing tile in place or appends a new one", () => {
+    expect(upsertTile(tiles, { ...makeTile("b"), width: 12 }).map((t) => [t.id, t.width])).toEqual([
+      ["a", 6],
+      ["b", 12],
+      ["c", 6],
+    ]);
+    expect(upsertTile(tiles, makeTile("d")).map((t) => t.id)).toEqual(["a", "b", "c", "d"]);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Pure helpers for dashboards: time-range presets, per-tile query parameters,
+ * and tile layout edits. Kept free of React so they are unit-testable.
+ */
+
+import type { DashboardParameters, DashboardTile, DashboardTimeRange, SavedQuery } from "@/api";
+import { extractQueryParams, pickQueryParams, type QueryParamDef } from "@/lib/queryParams";
+
+/**
+ * Placeholders a dashboard time range fills in. Tiles opt in by using
+ * `{from:DateTime}` / `{to:DateTime}` in their SQL.
+ */
+export const TIME_RANGE_PARAMS = ["from", "to"] as const;
+
+export const TIME_RANGE_PRESETS: { value: DashboardTimeRange; label: string; ms: number }[] = [
+  { value: "15m", label: "Last 15 minutes", ms: 15 * 60_000 },
+  { value: "1h", label: "Last hour", ms: 60 * 60_000 },
+  { value: "6h", label: "Last 6 hours", ms: 6 * 60 * 60_000 },
+  { value: "24h", label: "Last 24 hours", ms: 24 * 60 * 60_000 },
+  { value: "7d", label: "Last 7 days", ms: 7 * 24 * 60 * 60_000 },
+  { value: "30d", label: "Last 30 days", ms: 30 * 24 * 60 * 60_000 },
+];
+
+export const REFRESH_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: "Off" },
+  { value: 30, label: "30s" },
+  { value: 60, label: "1m" },
+  { value: 300, label: "5m" },
+  { value: 900, label: "15m" },
+  { value: 3600, label: "1h" },
+];
+
+export const TILE_WIDTHS = [3, 4, 6, 8, 12] as const;
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** `YYYY-MM-DD hh:mm:ss` in local time — the form ClickHouse parses for DateTime parameters. */
+export function formatDateTimeParam(date: Date): string {
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  );
+}
+
+/** The `from`/`to` values for a preset ending at `now`, or {} when no range is set. */
+export function resolveTimeRange(range: DashboardTimeRange | null, now: number): Record<string, string> {
+  const preset = TIME_RANGE_PRESETS.find((p) => p.value === range);
+  if (!preset) return {};
+  return { from: formatDateTimeParam(new Date(now - preset.ms)), to: formatDateTimeParam(new Date(now)) };
+}
+
+/**
+ * Parameter values for one tile. Dashboard filters override the values saved
+ * with the query, and the time range overrides both; only placeholders the
+ * tile's SQL actually uses are sent.
+ */
+export function tileQueryParams(
+  query: SavedQuery,
+  parameters: DashboardParameters,
+  now: number,
+): Record<string, string> | undefined {
+  return pickQueryParams(query.query, {
+    ...(query.parameters ?? {}),
+    ...parameters.values,
+    ...resolveTimeRange(parameters.timeRange, now),
+  });
+}
+
+/**
+ * Placeholders across every tile's SQL, in order of first use. These become the
+ * dashboard's shared filter inputs; the time-range placeholders are left out
+ * while a preset is active.
+ */
+export function collectDashboardParams(
+  tiles: DashboardTile[],
+  queries: Record<string, SavedQuery>,
+  timeRange: DashboardTimeRange | null,
+): QueryParamDef[] {
+  const seen = new Map<string, QueryParamDef>();
+  for (const tile of tiles) {
+    const query = queries[tile.savedQueryId];
+    if (!query) continue;
+    for (const param of extractQueryParams(query.query)) {
+      if (timeRange && (TIME_RANGE_PARAMS as readonly string[]).includes(param.name)) continue;
+      if (!seen.has(param.name)) seen.set(param.name, param);
+    }
+  }
+  return [...seen.values()];
+}
+
+/** Move the tile `activeId` to the position of `overId`. */
+export function moveTile(tiles: DashboardTile[], activeId: string, overId: string): DashboardTile[] {
+  const from = tiles.findIndex((t) => t.id === activeId);
+  const to = tiles.findIndex((t) => t.id === overId);
+  if (from === -1 || to === -1 || from === to) return tiles;
+  const next = [...tiles];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+/** Insert `tile`, or replace the tile with the same id in place. */
+export function upsertTile(tiles: DashboardTile[], tile: DashboardTile): DashboardTile[] {
+  return tiles.some((t) => t.id === tile.id) ? tiles.map((t) => (t.id === tile.id ? tile : t)) : [...tiles, tile];
+}
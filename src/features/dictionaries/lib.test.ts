@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import type { DictionaryRow } from "@/hooks/useMonitoringTimeline";
+import { dictionaryHealth, formatLifetime, layoutsForKey } from "./lib";
+
+const NOW = 1_800_000_000;
+
+const row = (over: Partial<DictionaryRow> = {}): DictionaryRow => ({
+  database: "geo",
+  name: "countries",
+  status: "LOADED",
+  origin: "geo.countries",
+  layout: "Hashed",
+  source: "ClickHouse: geo.countries_src",
+  lifetime_min: 300,
+  lifetime_max: 360,
+  element_count: 250,
+  bytes_allocated: 4096,
+  loading_duration: 0.02,
+  last_successful_update_time: "2027-01-15 08:00:00",
+  last_successful_update_ts: NOW - 60,
+  last_exception: "",
+  ...over,
+});
+
+describe("dictionaryHealth", () => {
+  it("treats a failed reload behind a LOADED status as failed", () => {
+    expect(dictionaryHealth(row({ last_exception: "Connection refused" }), NOW)).toBe("failed");
+    expect(dictionaryHealth(row({ status: "FAILED_AND_RELOADING" }), NOW)).toBe("failed");
+  });
+
+  it("flags dictionaries that missed two reload windows", () => {
+    expect(dictionaryHealth(row({ last_successful_update_ts: NOW - 721 }), NOW)).toBe("overdue");
+    expect(dictionaryHealth(row({ last_successful_update_ts: NOW - 700 }), NOW)).toBe("loaded");
+    expect(dictionaryHealth(row({ lifetime_min: 0, lifetime_max: 0, last_successful_update_ts: NOW - 86400 }), NOW)).toBe("loaded");
+  });
+
+  it("keeps lazy dictionaries apart from failures", () => {
+    expect(dictionaryHealth(row({ status: "NOT_LOADED", last_successful_update_ts: 0 }), NOW)).toBe("not_loaded");
+  });
+});
+
+describe("dictionary wizard helpers", () => {
+  it("offers simple layouts only for a single UInt64 key", () => {
+    expect(layoutsForKey(["UInt64"])[0]).toBe("hashed");
+    expect(layoutsForKey(["String"])[0]).toBe("complex_key_hashed");
+    expect(layoutsForKey(["UInt64", "String"])[0]).toBe("complex_key_hashed");
+  });
+
+  it("labels lifetimes", () => {
+    expect(formatLifetime(0, 0)).toBe("never");
+    expect(formatLifetime(300, 360)).toBe("300–360s");
+  });
+});
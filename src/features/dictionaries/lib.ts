@@ -0,0 +1,64 @@
+/**
+ * Presentation helpers for dictionaries — one health state per
+ * system.dictionaries row (Monitoring → Dictionaries) and the layout defaults
+ * the create wizard offers.
+ */
+
+import type { DictionaryLayout } from "@/api/explorer";
+import type { DictionaryRow } from "@/hooks/useMonitoringTimeline";
+
+/**
+ * `failed` covers a reload that failed while old data is still served (status
+ * stays LOADED, last_exception is set). `overdue` means no successful load for
+ * two full reload windows.
+ */
+export type DictionaryHealth = "failed" | "overdue" | "loading" | "loaded" | "not_loaded";
+
+export function dictionaryHealth(row: DictionaryRow, nowSec: number): DictionaryHealth {
+  if (row.status.startsWith("FAILED") || row.last_exception) return "failed";
+  if (row.status === "LOADING") return "loading";
+  if (row.status === "NOT_LOADED") return "not_loaded";
+  if (row.lifetime_max > 0 && row.last_successful_update_ts > 0 && nowSec - row.last_successful_update_ts > 2 * row.lifetime_max) {
+    return "overdue";
+  }
+  return "loaded";
+}
+
+/** `db.name`, or the bare name of a dictionary defined in server config. */
+export function dictionaryLabel(row: { database: string; name: string }): string {
+  return row.database ? `${row.database}.${row.name}` : row.name;
+}
+
+export function formatAge(seconds: number): string {
+  if (seconds < 60) return `${Math.max(0, Math.round(seconds))}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${(seconds / 3600).toFixed(1)}h`;
+  return `${(seconds / 86400).toFixed(1)}d`;
+}
+
+/** "300–360s", "never" for LIFETIME(0). */
+export function formatLifetime(min: number, max: number): string {
+  if (min === 0 && max === 0) return "never";
+  return min === max ? `${max}s` : `${min}–${max}s`;
+}
+
+export const SIMPLE_LAYOUTS: DictionaryLayout[] = ["hashed", "flat", "sparse_hashed", "hashed_array", "cache", "direct"];
+export const COMPLEX_KEY_LAYOUTS: DictionaryLayout[] = [
+  "complex_key_hashed",
+  "complex_key_sparse_hashed",
+  "complex_key_hashed_array",
+  "complex_key_cache",
+  "complex_key_direct",
+];
+
+export function isCacheLayout(layout: DictionaryLayout): boolean {
+  return layout === "cache" || layout === "complex_key_cache";
+}
+
+/**
+ * Layouts that fit the key: simple layouts take exactly one UInt64 key,
+ * anything else (composite or non-integer keys) needs a complex_key_* layout.
+ */
+export function layoutsForKey(keyTypes: string[]): DictionaryLayout[] {
+  return keyTypes.length === 1 && keyTypes[0] === "UInt64" ? SIMPLE_LAYOUTS : COMPLEX_KEY_LAYOUTS;
+}
@@ -0,0 +1,524 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { log } from "@/lib/log";
+import { BookPlus, ChevronRight, Key, Loader2, Plus, Sparkles, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { ResponsiveDraggableDialog } from "@/components/common/ResponsiveDraggableDialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { useExplorerStore } from "@/stores";
+import { useDatabases, useClusterNames, useCreateDictionary } from "@/hooks";
+import type { CreateDictionaryInput, DictionaryLayout, DictionarySourceType } from "@/api/explorer";
+import { isCacheLayout, layoutsForKey } from "@/features/dictionaries/lib";
+
+const STEPS = [
+  { id: "basics", label: "Name" },
+  { id: "columns", label: "Columns" },
+  { id: "source", label: "Source" },
+  { id: "layout", label: "Layout" },
+  { id: "review", label: "Review" },
+] as const;
+
+type StepId = (typeof STEPS)[number]["id"];
+
+const SOURCE_TYPES: { value: DictionarySourceType; label: string }[] = [
+  { value: "clickhouse", label: "ClickHouse" },
+  { value: "mysql", label: "MySQL" },
+  { value: "postgresql", label: "PostgreSQL" },
+  { value: "http", label: "HTTP" },
+];
+
+const ATTRIBUTE_TYPES = ["UInt64", "UInt32", "Int64", "Int32", "Float64", "String", "Date", "DateTime", "UUID", "Bool"];
+
+const NAME_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+interface Column {
+  id: string;
+  name: string;
+  type: string;
+  isKey: boolean;
+  default: string;
+}
+
+const generateId = () => Math.random().toString(36).substring(2, 9);
+
+const initialColumns = (): Column[] => [
+  { id: generateId(), name: "id", type: "UInt64", isKey: true, default: "" },
+  { id: generateId(), name: "", type: "String", isKey: false, default: "" },
+];
+
+const labelClass = "font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim";
+const inputClass = "rounded-xs border-ink-500 bg-ink-200 text-paper";
+
+const CreateDictionary: React.FC = () => {
+  const { createDictionaryModalOpen, selectedDatabaseForCreateDictionary, closeCreateDictionaryModal } = useExplorerStore();
+  const { data: databases = [] } = useDatabases();
+  const { data: clusters = [] } = useClusterNames();
+  const createDictionary = useCreateDictionary();
+
+  const [step, setStep] = useState<StepId>("basics");
+  const [database, setDatabase] = useState("");
+  const [name, setName] = useState("");
+  const [useCluster, setUseCluster] = useState(false);
+  const [cluster, setCluster] = useState("");
+  const [comment, setComment] = useState("");
+  const [columns, setColumns] = useState<Column[]>(initialColumns);
+  const [sourceType, setSourceType] = useState<DictionarySourceType>("clickhouse");
+  const [source, setSource] = useState<Record<string, string>>({});
+  const [layout, setLayout] = useState<DictionaryLayout>("hashed");
+  const [sizeInCells, setSizeInCells] = useState("100000");
+  const [lifetimeMin, setLifetimeMin] = useState("300");
+  const [lifetimeMax, setLifetimeMax] = useState("360");
+  const [statement, setStatement] = useState("");
+
+  useEffect(() => {
+    if (createDictionaryModalOpen && selectedDatabaseForCreateDictionary) {
+      setDatabase(selectedDatabaseForCreateDictionary);
+    }
+  }, [createDictionaryModalOpen, selectedDatabaseForCreateDictionary]);
+
+  const keyTypes = columns.filter((c) => c.isKey).map((c) => c.type);
+  const layouts = useMemo(() => layoutsForKey(keyTypes), [keyTypes.join(",")]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Keep the layout valid for the key as columns change
+  useEffect(() => {
+    if (!layouts.includes(layout)) setLayout(layouts[0]);
+  }, [layouts, layout]);
+
+  const setSourceField = (field: string, value: string) => setSource((prev) => ({ ...prev, [field]: value }));
+
+  const buildInput = (dryRun: boolean): CreateDictionaryInput => {
+    const text = (field: string) => source[field]?.trim() || undefined;
+    return {
+      database,
+      name: name.trim(),
+      cluster: useCluster && cluster ? cluster : undefined,
+      attributes: columns.map((c) => ({
+        name: c.name.trim(),
+        type: c.type.trim(),
+        isKey: c.isKey,
+        default: c.default.trim() || undefined,
+      })),
+      source: {
+        type: sourceType,
+        host: text("host"),
+        port: source.port ? Number(source.port) : undefined,
+        user: text("user"),
+        password: source.password || undefined,
+        db: text("db"),
+        table: text("table"),
+        where: text("where"),
+        query: sourceType === "clickhouse" ? text("query") : undefined,
+        invalidateQuery: text("invalidateQuery"),
+        url: text("url"),
+        format: text("format"),
+      },
+      layout,
+      sizeInCells: isCacheLayout(layout) ? Number(sizeInCells) : undefined,
+      lifetimeMin: Number(lifetimeMin) || 0,
+      lifetimeMax: Number(lifetimeMax) || 0,
+      comment: comment.trim() || undefined,
+      dryRun,
+    };
+  };
+
+  /** What blocks leaving `current`, or null. The server re-checks everything. */
+  const stepProblem = (current: StepId): string | null => {
+    switch (current) {
+      case "basics":
+        if (!database) return "Please select a database";
+        if (!NAME_REGEX.test(name.trim())) return "Invalid dictionary name. Must start with a letter or underscore and contain only alphanumeric characters.";
+        if (useCluster && !cluster) return "Please select a cluster";
+        return null;
+      case "columns":
+        if (columns.some((c) => !NAME_REGEX.test(c.name.trim()))) return "Every column needs a valid name";
+        if (new Set(columns.map((c) => c.name.trim())).size !== columns.length) return "Column names must be unique";
+        if (keyTypes.length === 0) return "Mark at least one column as the key";
+        if (keyTypes.length === columns.length) return "Add at least one attribute besides the key";
+        return null;
+      case "source":
+        if (sourceType === "clickhouse") return source.table?.trim() || source.query?.trim() ? null : "Enter a table or a query";
+        if (sourceType === "http") return source.url?.trim() && source.format?.trim() ? null : "Enter a URL and a format";
+        return source.host?.trim() && source.db?.trim() && source.table?.trim() ? null : "Enter host, database and table";
+      case "layout":
+        if (isCacheLayout(layout) && !(Number(sizeInCells) > 0)) return "Cache layouts need a size in cells";
+        if (Number(lifetimeMax) < Number(lifetimeMin)) return "Lifetime max must be at least lifetime min";
+        return null;
+      default:
+        return null;
+    }
+  };
+
+  const handleClose = () => {
+    setStep("basics");
+    setDatabase("");
+    setName("");
+    setUseCluster(false);
+    setCluster("");
+    setComment("");
+    setColumns(initialColumns());
+    setSourceType("clickhouse");
+    setSource({});
+    setLayout("hashed");
+    setSizeInCells("100000");
+    setLifetimeMin("300");
+    setLifetimeMax("360");
+    setStatement("");
+    closeCreateDictionaryModal();
+  };
+
+  const stepIndex = STEPS.findIndex((s) => s.id === step);
+
+  const handleNext = async () => {
+    const problem = stepProblem(step);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    const next = STEPS[stepIndex + 1].id;
+    if (next === "review") {
+      try {
+        const result = await createDictionary.mutateAsync(buildInput(true));
+        setStatement(result.statement);
+      } catch (error) {
+        toast.error((error as Error).message);
+        return;
+      }
+    }
+    setStep(next);
+  };
+
+  const handleCreate = async () => {
+    try {
+      const result = await createDictionary.mutateAsync(buildInput(false));
+      toast.success(result.message ?? `Dictionary "${database}.${name}" created`);
+      handleClose();
+    } catch (error) {
+      log.error("Failed to create dictionary:", error);
+      toast.error(`Failed to create dictionary: ${(error as Error).message}`);
+    }
+  };
+
+  const updateColumn = (id: string, patch: Partial<Column>) =>
+    setColumns(columns.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+
+  const sourceField = (field: string, label: string, placeholder = "", type = "text") => (
+    <div className="space-y-2">
+      <Label htmlFor={`dict-source-${field}`} className={labelClass}>{label}</Label>
+      <Input
+        id={`dict-source-${field}`}
+        type={type}
+        value={source[field] ?? ""}
+        onChange={(e) => setSourceField(field, e.target.value)}
+        placeholder={placeholder}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  const dialogTitle = (
+    <DialogHeader className="pb-0 border-0 flex-none">
+      <DialogTitle className="flex items-center gap-3 text-paper">
+        <span className="grid h-9 w-9 shrink-0 place-items-center rounded-xs border border-ink-500 bg-ink-200 text-paper-muted">
+          <BookPlus className="h-4 w-4" aria-hidden />
+        </span>
+        <span className="flex flex-col gap-0.5 text-left">
+          <span className="text-[16px] font-semibold tracking-tight">Create dictionary</span>
+          <span className="flex items-center gap-2 font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint">
+            {STEPS.map((s, i) => (
+              <span key={s.id} className={cn(i === stepIndex ? "text-brand" : i < stepIndex ? "text-paper-dim" : "")}>
+                {s.label}
+              </span>
+            ))}
+          </span>
+        </span>
+      </DialogTitle>
+    </DialogHeader>
+  );
+
+  return (
+    <ResponsiveDraggableDialog
+      open={createDictionaryModalOpen}
+      onOpenChange={(open) => { if (!open) handleClose(); }}
+      dialogId="createDictionary"
+      title={dialogTitle}
+      windowClassName="rounded-xs border border-ink-500 bg-ink-100 text-paper shadow-lg"
+      headerClassName="px-6 pb-4 border-b border-ink-500"
+      footerClassName="pt-4 border-t border-ink-500 px-6"
+      closeButtonClassName="rounded-xs text-paper-dim hover:bg-ink-200 hover:text-paper"
+      contentClassName="bg-ink-100 text-paper"
+      footer={
+        <DialogFooter className="pt-4 border-t border-ink-500 px-0">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={stepIndex === 0 ? handleClose : () => setStep(STEPS[stepIndex - 1].id)}
+            className="h-9 gap-2 rounded-xs border-ink-500 bg-ink-100 px-3 font-mono text-[11px] uppercase tracking-[0.14em] text-paper hover:border-ink-700 hover:bg-ink-200"
+          >
+            {stepIndex === 0 ? "Cancel" : "Back"}
+          </Button>
+          {step === "review" ? (
+            <Button
+              type="button"
+              onClick={handleCreate}
+              disabled={createDictionary.isPending}
+              className="h-9 gap-2 rounded-xs bg-brand px-3 font-mono text-[11px] font-semibold uppercase tracking-[0.14em] text-ink-50 hover:bg-brand-soft disabled:opacity-50"
+            >
+              {createDictionary.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Sparkles className="h-3.5 w-3.5" />}
+              Create Dictionary
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              onClick={handleNext}
+              disabled={createDictionary.isPending}
+              className="h-9 gap-2 rounded-xs bg-brand px-3 font-mono text-[11px] font-semibold uppercase tracking-[0.14em] text-ink-50 hover:bg-brand-soft disabled:opacity-50"
+            >
+              Next
+              {createDictionary.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <ChevronRight className="h-3.5 w-3.5" />}
+            </Button>
+          )}
+        </DialogFooter>
+      }
+    >
+      <div className="space-y-5 px-6 py-4">
+        {step === "basics" && (
+          <>
+            <div className="space-y-2">
+              <Label className={labelClass}>Database</Label>
+              <Select value={database} onValueChange={setDatabase}>
+                <SelectTrigger className={inputClass}>
+                  <SelectValue placeholder="Select database" />
+                </SelectTrigger>
+                <SelectContent>
+                  {databases.map((db) => (
+                    <SelectItem key={db.name} value={db.name}>{db.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dictionary-name" className={labelClass}>Dictionary Name</Label>
+              <Input
+                id="dictionary-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="countries"
+                className={inputClass}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dictionary-comment" className={labelClass}>Comment</Label>
+              <Input
+                id="dictionary-comment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Optional"
+                className={inputClass}
+              />
+            </div>
+            {clusters.length > 0 && (
+              <div className="rounded-xs border border-ink-500 bg-ink-200 p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label className={labelClass}>Create on Cluster</Label>
+                  <Switch checked={useCluster} onCheckedChange={setUseCluster} />
+                </div>
+                {useCluster && (
+                  <Select value={cluster} onValueChange={setCluster}>
+                    <SelectTrigger className="rounded-xs border-ink-500 bg-ink-100 text-paper">
+                      <SelectValue placeholder="Select cluster" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {clusters.map((c) => (
+                        <SelectItem key={c} value={c}>{c}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            )}
+          </>
+        )}
+
+        {step === "columns" && (
+          <div className="space-y-3">
+            <p className="text-xs text-paper-muted">
+              Key columns make up the PRIMARY KEY. A single UInt64 key allows the simple layouts; any other key needs a complex_key layout.
+            </p>
+            {columns.map((col) => (
+              <div key={col.id} className="grid grid-cols-[1fr_140px_1fr_auto_auto] items-center gap-2">
+                <Input
+                  aria-label="Column name"
+                  value={col.name}
+                  onChange={(e) => updateColumn(col.id, { name: e.target.value })}
+                  placeholder="column_name"
+                  className={inputClass}
+                />
+                <Select value={col.type} onValueChange={(type) => updateColumn(col.id, { type })}>
+                  <SelectTrigger className={inputClass} aria-label="Column type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ATTRIBUTE_TYPES.map((t) => (
+                      <SelectItem key={t} value={t}>{t}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  aria-label="Default value"
+                  value={col.default}
+                  onChange={(e) => updateColumn(col.id, { default: e.target.value })}
+                  placeholder={col.isKey ? "—" : "Default"}
+                  disabled={col.isKey}
+                  className={inputClass}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  title={col.isKey ? "Key column" : "Mark as key"}
+                  aria-pressed={col.isKey}
+                  onClick={() => updateColumn(col.id, { isKey: !col.isKey, default: "" })}
+                  className={cn("h-9 w-9 rounded-xs", col.isKey ? "text-brand" : "text-paper-faint hover:text-paper")}
+                >
+                  <Key className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  title="Remove column"
+                  disabled={columns.length <= 2}
+                  onClick={() => setColumns(columns.filter((c) => c.id !== col.id))}
+                  className="h-9 w-9 rounded-xs text-paper-faint hover:text-red-400"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setColumns([...columns, { id: generateId(), name: "", type: "String", isKey: false, default: "" }])}
+              className="h-8 gap-2 rounded-xs border-ink-500 bg-ink-100 px-3 font-mono text-[11px] uppercase tracking-[0.14em] text-paper hover:bg-ink-200"
+            >
+              <Plus className="h-3.5 w-3.5" />
+              Add Column
+            </Button>
+          </div>
+        )}
+
+        {step === "source" && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label className={labelClass}>Source</Label>
+              <Select value={sourceType} onValueChange={(v) => setSourceType(v as DictionarySourceType)}>
+                <SelectTrigger className={inputClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SOURCE_TYPES.map((s) => (
+                    <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {sourceType === "http" ? (
+              <div className="grid grid-cols-2 gap-3">
+                {sourceField("url", "URL", "https://example.com/countries.csv")}
+                {sourceField("format", "Format", "CSVWithNames")}
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  {sourceField("host", "Host", sourceType === "clickhouse" ? "Leave empty for this server" : "db.internal")}
+                  {sourceField("port", "Port", sourceType === "mysql" ? "3306" : sourceType === "postgresql" ? "5432" : "9000", "number")}
+                  {sourceField("user", "User")}
+                  {sourceField("password", "Password", "", "password")}
+                  {sourceField("db", "Database", sourceType === "clickhouse" ? database : "")}
+                  {sourceField("table", "Table")}
+                </div>
+                {sourceField("where", "Where", "Optional filter")}
+                {sourceType === "clickhouse" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="dict-source-query" className={labelClass}>Query (instead of a table)</Label>
+                    <Textarea
+                      id="dict-source-query"
+                      value={source.query ?? ""}
+                      onChange={(e) => setSourceField("query", e.target.value)}
+                      placeholder="SELECT id, name FROM geo.countries_src"
+                      className={cn(inputClass, "font-mono text-xs")}
+                    />
+                  </div>
+                )}
+                {sourceField("invalidateQuery", "Invalidate Query", "SELECT max(updated_at) FROM …")}
+              </>
+            )}
+          </div>
+        )}
+
+        {step === "layout" && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label className={labelClass}>Layout</Label>
+              <Select value={layout} onValueChange={(v) => setLayout(v as DictionaryLayout)}>
+                <SelectTrigger className={inputClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {layouts.map((l) => (
+                    <SelectItem key={l} value={l}>{l}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {isCacheLayout(layout) && (
+              <div className="space-y-2">
+                <Label htmlFor="dict-size" className={labelClass}>Size in Cells</Label>
+                <Input id="dict-size" type="number" min={1} value={sizeInCells} onChange={(e) => setSizeInCells(e.target.value)} className={inputClass} />
+              </div>
+            )}
+            {layout.endsWith("direct") ? (
+              <p className="text-xs text-paper-muted">Direct layouts read the source on every lookup and have no reload lifetime.</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="dict-lifetime-min" className={labelClass}>Lifetime Min (s)</Label>
+                  <Input id="dict-lifetime-min" type="number" min={0} value={lifetimeMin} onChange={(e) => setLifetimeMin(e.target.value)} className={inputClass} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="dict-lifetime-max" className={labelClass}>Lifetime Max (s)</Label>
+                  <Input id="dict-lifetime-max" type="number" min={0} value={lifetimeMax} onChange={(e) => setLifetimeMax(e.target.value)} className={inputClass} />
+                </div>
+                <p className="col-span-2 text-xs text-paper-muted">Reloaded at a random time in this window; 0 / 0 never reloads.</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === "review" && (
+          <div className="space-y-2">
+            <Label className={labelClass}>Statement</Label>
+            <pre className="max-h-[360px] overflow-auto rounded-xs border border-ink-500 bg-ink-200 p-3 font-mono text-xs text-paper whitespace-pre-wrap">
+              {statement}
+            </pre>
+          </div>
+        )}
+      </div>
+    </ResponsiveDraggableDialog>
+  );
+};
+
+export default CreateDictionary;
@@ -15,6 +15,7 @@ import {
   X,
   Table2,
   FolderPlus,
+  BookPlus,
   FileUp,
   Pin,
   Bookmark,
@@ -27,6 +28,10 @@ import {
   CheckCircle2,
   CircleX,
   Ban,
+  ChevronRight,
+  Folder,
+  FolderOpen,
+  Tag,
 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { toast } from "sonner";
@@ -64,9 +69,16 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import PermissionGuard from "@/components/common/PermissionGuard";
+import SavedQueryHistoryDialog from "@/features/explorer/components/SavedQueryHistoryDialog";
 import type { SavedQuery } from "@/api";
 import type { QueryHistoryItem, QueryHistoryStatus } from "@/stores";
 import { cn } from "@/lib/utils";
+import {
+  buildSavedQueryTree,
+  collectTags,
+  matchesSavedQuerySearch,
+  type SavedQueryFolderNode,
+} from "@/lib/savedQueryOrganization";
 
 // ============================================
 // Quick Access Item Component
@@ -125,10 +137,11 @@ const QuickAccessItem: React.FC<QuickAccessItemProps> = ({
 interface SavedQueryItemProps {
   query: SavedQuery;
   onOpen: () => void;
+  onHistory: (query: SavedQuery) => void;
   onDelete?: (query: SavedQuery) => void;
 }
 
-const SavedQueryItem: React.FC<SavedQueryItemProps> = ({ query, onOpen, onDelete }) => {
+const SavedQueryItem: React.FC<SavedQueryItemProps> = ({ query, onOpen, onHistory, onDelete }) => {
   return (
     <button
       onClick={onOpen}
@@ -148,8 +161,25 @@ const SavedQueryItem: React.FC<SavedQueryItemProps> = ({ query, onOpen, onDelete
           )}
           <span>·</span>
           <span>{new Date(query.updatedAt).toLocaleDateString()}</span>
+          {query.tags?.length > 0 && (
+            <>
+              <span>·</span>
+              <span className="truncate text-paper-dim">{query.tags.map((tag) => `#${tag}`).join(" ")}</span>
+            </>
+          )}
         </div>
       </div>
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          onHistory(query);
+        }}
+        className="grid h-5 w-5 shrink-0 place-items-center rounded-xs opacity-0 transition-all hover:bg-ink-300 group-hover:opacity-100"
+        aria-label="Query history"
+      >
+        <History className="h-3 w-3 text-paper-faint hover:text-paper" />
+      </button>
       {onDelete && (
         <button
           type="button"
@@ -167,6 +197,50 @@ const SavedQueryItem: React.FC<SavedQueryItemProps> = ({ query, onOpen, onDelete
   );
 };
 
+// ============================================
+// Saved Query Folder Component
+// ============================================
+interface SavedQueryFolderProps {
+  node: SavedQueryFolderNode;
+  collapsed: Set<string>;
+  onToggle: (path: string) => void;
+  renderQuery: (query: SavedQuery) => React.ReactNode;
+}
+
+const SavedQueryFolder: React.FC<SavedQueryFolderProps> = ({ node, collapsed, onToggle, renderQuery }) => {
+  const isOpen = !collapsed.has(node.path);
+  const FolderIcon = isOpen ? FolderOpen : Folder;
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => onToggle(node.path)}
+        aria-expanded={isOpen}
+        className="flex w-full items-center gap-1.5 px-2 py-1.5 text-left transition-colors hover:bg-ink-200"
+      >
+        <ChevronRight className={cn("h-3 w-3 shrink-0 text-paper-faint transition-transform", isOpen && "rotate-90")} aria-hidden />
+        <FolderIcon className="h-3.5 w-3.5 shrink-0 text-paper-dim" aria-hidden />
+        <span className="truncate text-[12.5px] text-paper">{node.name}</span>
+      </button>
+      {isOpen && (
+        <div className="ml-3 border-l border-ink-500 pl-1">
+          {node.folders.map((child) => (
+            <SavedQueryFolder
+              key={child.path}
+              node={child}
+              collapsed={collapsed}
+              onToggle={onToggle}
+              renderQuery={renderQuery}
+            />
+          ))}
+          {node.queries.map(renderQuery)}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // ============================================
 // Query History Item Component
 // ============================================
@@ -326,6 +400,7 @@ const EmptyState: React.FC<EmptyStateProps> = ({ icon, title, description }) =>
 // ============================================
 const DatabaseExplorer: React.FC = () => {
   const { hasPermission } = useRbacStore();
+  const currentUserId = useRbacStore((state) => state.user?.id);
   const canViewSavedQueries = hasPermission(RBAC_PERMISSIONS.SAVED_QUERIES_VIEW);
   const [searchTerm, setSearchTerm] = useState("");
   const [searchQueryValue, setSearchQueryValue] = useState("");
@@ -345,6 +420,7 @@ const DatabaseExplorer: React.FC = () => {
     toggleNode,
     openCreateTableModal,
     openCreateDatabaseModal,
+    openCreateDictionaryModal,
     openUploadFileModal,
     favorites,
     sortBy,
@@ -358,6 +434,8 @@ const DatabaseExplorer: React.FC = () => {
 
   const {
     addTab,
+    getTabById,
+    updateTab,
     queryHistory,
     loadQueryHistory,
     removeQueryHistoryItem,
@@ -394,6 +472,18 @@ const DatabaseExplorer: React.FC = () => {
   const [queryToDelete, setQueryToDelete] = useState<SavedQuery | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isClearHistoryOpen, setIsClearHistoryOpen] = useState(false);
+  const [historyQuery, setHistoryQuery] = useState<SavedQuery | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(new Set());
+
+  const toggleFolder = useCallback((path: string) => {
+    setCollapsedFolders((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  }, []);
 
   const handleDeleteClick = (query: SavedQuery) => {
     setQueryToDelete(query);
@@ -440,19 +530,24 @@ const DatabaseExplorer: React.FC = () => {
     return filterByConnection(recentItems);
   }, [recentItems, filterByConnection]);
 
-  // Filtered saved queries (by connection and search)
+  // Filtered saved queries (by connection, tag and search over name/description/SQL)
   const filteredQueries = useMemo(() => {
     let result = filterByConnection(savedQueriesList);
 
+    if (tagFilter) {
+      const lowerTag = tagFilter.toLowerCase();
+      result = result.filter((query) => query.tags?.some((tag) => tag.toLowerCase() === lowerTag));
+    }
+
     if (debouncedSearchQueryValue) {
-      const lowerSearch = debouncedSearchQueryValue.toLowerCase();
-      result = result.filter((query) =>
-        query.name.toLowerCase().includes(lowerSearch)
-      );
+      result = result.filter((query) => matchesSavedQuerySearch(query, debouncedSearchQueryValue));
     }
 
     return result;
-  }, [savedQueriesList, debouncedSearchQueryValue, filterByConnection]);
+  }, [savedQueriesList, debouncedSearchQueryValue, tagFilter, filterByConnection]);
+
+  const savedQueryTags = useMemo(() => collectTags(savedQueriesList), [savedQueriesList]);
+  const savedQueryTree = useMemo(() => buildSavedQueryTree(filteredQueries), [filteredQueries]);
 
   const filterConnectionNames = useMemo(() => {
     const names = new Set<string>(connectionNames);
@@ -512,10 +607,33 @@ const DatabaseExplorer: React.FC = () => {
       title: query.name,
       type: 'sql',
       content: query.query,
+      queryParams: query.parameters ?? undefined,
+      chartConfig: query.chartConfig ?? undefined,
       isSaved: true,
     });
   }, [addTab]);
 
+  // Keep an open tab in step with a restored revision
+  const handleSavedQueryRestored = useCallback((query: SavedQuery) => {
+    if (getTabById(query.id)) {
+      updateTab(query.id, { title: query.name, content: query.query, isDirty: false });
+    }
+  }, [getTabById, updateTab]);
+
+  const renderSavedQuery = (query: SavedQuery) => (
+    <SavedQueryItem
+      key={query.id}
+      query={query}
+      onOpen={() => handleSavedQueryOpen(query)}
+      onHistory={setHistoryQuery}
+      onDelete={
+        hasPermission(RBAC_PERMISSIONS.SAVED_QUERIES_DELETE)
+          ? handleDeleteClick
+          : undefined
+      }
+    />
+  );
+
   const handleHistoryOpen = useCallback((item: QueryHistoryItem) => {
     addTab({
       id: genTabId(),
@@ -706,6 +824,14 @@ const DatabaseExplorer: React.FC = () => {
                         New Table
                       </DropdownMenuItem>
                     )}
+                    {hasPermission(RBAC_PERMISSIONS.TABLE_CREATE) && (
+                      <DropdownMenuItem onClick={() => {
+                        openCreateDictionaryModal("");
+                      }}>
+                        <BookPlus className="w-4 h-4 mr-2" />
+                        New Dictionary
+                      </DropdownMenuItem>
+                    )}
                     {hasPermission(RBAC_PERMISSIONS.TABLE_INSERT) && (
                       <>
                         {(hasPermission(RBAC_PERMISSIONS.DB_CREATE) || hasPermission(RBAC_PERMISSIONS.TABLE_CREATE)) && (
@@ -738,6 +864,14 @@ const DatabaseExplorer: React.FC = () => {
                           name: table.name,
                           type: table.type || 'table',
                           children: [],
+                          ...(table.type === 'dictionary' && {
+                            rows: table.rows,
+                            size: table.size,
+                            engine: table.engine,
+                            status: table.status,
+                            lastSuccessfulUpdate: table.lastSuccessfulUpdate,
+                            lastException: table.lastException,
+                          }),
                         })),
                       }}
                       level={0}
@@ -1121,7 +1255,7 @@ const DatabaseExplorer: React.FC = () => {
                   <Search className="w-3.5 h-3.5 absolute left-2.5 top-1/2 -translate-y-1/2 text-paper-faint" />
                   <Input
                     type="text"
-                    placeholder="Search saved queries..."
+                    placeholder="Search name, description or SQL..."
                     value={searchQueryValue}
                     onChange={(e) => setSearchQueryValue(e.target.value)}
                     className="h-8 rounded-xs border-ink-500 bg-ink-200 pl-8 font-mono text-[12px] text-paper placeholder:text-paper-faint focus-visible:border-brand focus-visible:ring-0"
@@ -1145,21 +1279,42 @@ const DatabaseExplorer: React.FC = () => {
                 </TooltipProvider>
               </div>
 
-              {/* Queries List */}
+              {/* Tag Filter */}
+              {savedQueryTags.length > 0 && (
+                <div className="mb-2 flex flex-wrap items-center gap-1 px-1">
+                  <Tag className="mr-0.5 h-3 w-3 text-paper-faint" aria-hidden />
+                  {savedQueryTags.map((tag) => (
+                    <button
+                      key={tag}
+                      type="button"
+                      aria-pressed={tagFilter === tag}
+                      onClick={() => setTagFilter((current) => (current === tag ? null : tag))}
+                      className={cn(
+                        "rounded-xs border px-1.5 py-0.5 font-mono text-[10px] transition-colors",
+                        tagFilter === tag
+                          ? "border-brand bg-brand/10 text-brand"
+                          : "border-ink-500 text-paper-dim hover:border-ink-700 hover:text-paper"
+                      )}
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {/* Queries Tree */}
               {filteredQueries.length > 0 ? (
                 <div className="space-y-0.5">
-                  {filteredQueries.map((query) => (
-                    <SavedQueryItem
-                      key={query.id}
-                      query={query}
-                      onOpen={() => handleSavedQueryOpen(query)}
-                      onDelete={
-                        hasPermission(RBAC_PERMISSIONS.SAVED_QUERIES_DELETE)
-                          ? handleDeleteClick
-                          : undefined
-                      }
+                  {savedQueryTree.folders.map((folder) => (
+                    <SavedQueryFolder
+                      key={folder.path}
+                      node={folder}
+                      collapsed={collapsedFolders}
+                      onToggle={toggleFolder}
+                      renderQuery={renderSavedQuery}
                     />
                   ))}
+                  {savedQueryTree.queries.map(renderSavedQuery)}
                 </div>
               ) : savedQueriesList.length > 0 ? (
                 <EmptyState
@@ -1179,6 +1334,16 @@ const DatabaseExplorer: React.FC = () => {
         </AnimatePresence>
       </ScrollArea>
 
+      <SavedQueryHistoryDialog
+        query={historyQuery}
+        canRestore={
+          hasPermission(RBAC_PERMISSIONS.SAVED_QUERIES_UPDATE) &&
+          historyQuery?.userId === currentUserId
+        }
+        onClose={() => setHistoryQuery(null)}
+        onRestored={handleSavedQueryRestored}
+      />
+
       <AlertDialog open={!!queryToDelete} onOpenChange={(open) => !open && setQueryToDelete(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
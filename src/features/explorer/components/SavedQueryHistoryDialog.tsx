@@ -0,0 +1,177 @@
+/**
+ * SavedQueryHistoryDialog — revision log of a saved query. Each edit to the
+ * name, SQL or description is a revision; picking one shows its SQL diffed
+ * against the previous revision or the current version, and the owner can
+ * restore it (which itself becomes a new revision).
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { DiffEditor } from "@/components/common/DiffEditor";
+import { useRestoreSavedQueryRevision, useSavedQueryRevisions } from "@/hooks";
+import type { SavedQuery } from "@/api";
+import { cn } from "@/lib/utils";
+
+type CompareMode = "previous" | "current";
+
+interface SavedQueryHistoryDialogProps {
+  query: SavedQuery | null;
+  /** Whether the user may restore revisions (owner with update permission) */
+  canRestore: boolean;
+  onClose: () => void;
+  /** Called with the restored query so open tabs can pick up the new SQL */
+  onRestored?: (query: SavedQuery) => void;
+}
+
+const SavedQueryHistoryDialog: React.FC<SavedQueryHistoryDialogProps> = ({
+  query,
+  canRestore,
+  onClose,
+  onRestored,
+}) => {
+  const { data: revisions = [], isLoading } = useSavedQueryRevisions(query?.id);
+  const restoreMutation = useRestoreSavedQueryRevision();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>("previous");
+
+  // Select the latest revision whenever the dialog opens for a query
+  useEffect(() => {
+    setSelectedId(null);
+    setCompareMode("previous");
+  }, [query?.id]);
+
+  const selectedIndex = Math.max(0, revisions.findIndex((rev) => rev.id === selectedId));
+  const selected = revisions[selectedIndex];
+  const isLatest = selectedIndex === 0;
+
+  const baseline = useMemo(() => {
+    if (!selected) return "";
+    if (compareMode === "current") return revisions[0]?.query ?? "";
+    return revisions[selectedIndex + 1]?.query ?? "";
+  }, [compareMode, revisions, selected, selectedIndex]);
+
+  const handleRestore = async () => {
+    if (!query || !selected) return;
+    try {
+      const restored = await restoreMutation.mutateAsync({ id: query.id, revisionId: selected.id });
+      toast.success(`Restored version ${selected.version} of "${restored.name}"`);
+      onRestored?.(restored);
+      setSelectedId(null);
+    } catch (error) {
+      toast.error(`Failed to restore version: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <Dialog open={!!query} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="flex h-[80vh] flex-col overflow-hidden rounded-md border-ink-500 bg-ink-100 sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-paper">
+            <History className="h-4 w-4 text-paper-dim" aria-hidden />
+            History — {query?.name}
+          </DialogTitle>
+          <DialogDescription className="text-paper-muted">
+            Every change to the name, SQL or description is kept. Restoring a version saves it as a new one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex min-h-0 flex-1 gap-3">
+          <ScrollArea className="w-56 shrink-0 rounded-xs border border-ink-500">
+            {isLoading ? (
+              <div className="flex justify-center p-4">
+                <Loader2 className="h-4 w-4 animate-spin text-paper-dim" />
+              </div>
+            ) : (
+              <div className="space-y-0.5 p-1">
+                {revisions.map((rev, index) => (
+                  <button
+                    key={rev.id}
+                    type="button"
+                    onClick={() => setSelectedId(rev.id)}
+                    className={cn(
+                      "flex w-full flex-col items-start rounded-xs px-2.5 py-1.5 text-left transition-colors",
+                      index === selectedIndex ? "bg-ink-300" : "hover:bg-ink-200"
+                    )}
+                  >
+                    <span className="font-mono text-[11px] text-paper">
+                      v{rev.version}
+                      {index === 0 && <span className="ml-1.5 text-brand">current</span>}
+                    </span>
+                    <span className="truncate font-mono text-[10px] text-paper-faint">
+                      {new Date(rev.createdAt).toLocaleString()}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+
+          <div className="flex min-w-0 flex-1 flex-col gap-2">
+            <div className="flex items-center gap-3">
+              <span className="font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim">Compare with</span>
+              <div className="flex items-center rounded-xs border border-ink-500" role="radiogroup" aria-label="Compare with">
+                {(["previous", "current"] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    role="radio"
+                    aria-checked={compareMode === mode}
+                    onClick={() => setCompareMode(mode)}
+                    className={cn(
+                      "px-2 py-1 font-mono text-[10px] uppercase tracking-[0.14em] transition-colors",
+                      compareMode === mode ? "bg-brand text-ink-50" : "text-paper-dim hover:bg-ink-200 hover:text-paper"
+                    )}
+                  >
+                    {mode === "previous" ? "Previous version" : "Current"}
+                  </button>
+                ))}
+              </div>
+              {selected && selected.name !== query?.name && (
+                <span className="truncate text-[12px] text-paper-muted">Named “{selected.name}”</span>
+              )}
+            </div>
+            <div className="relative min-h-0 flex-1 overflow-hidden rounded-xs border border-ink-500">
+              {selected && (
+                <DiffEditor original={baseline} modified={selected.query} className="absolute inset-0" />
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="rounded-xs border-ink-500 bg-transparent text-paper hover:border-ink-700 hover:bg-ink-200"
+          >
+            Close
+          </Button>
+          {canRestore && (
+            <Button
+              onClick={handleRestore}
+              disabled={!selected || isLatest || restoreMutation.isPending}
+              className="gap-2 rounded-xs bg-brand text-ink-50 hover:bg-brand-soft disabled:opacity-60"
+            >
+              <RotateCcw className="h-3.5 w-3.5" aria-hidden />
+              {restoreMutation.isPending ? "Restoring…" : selected ? `Restore v${selected.version}` : "Restore"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SavedQueryHistoryDialog;
@@ -1,5 +1,6 @@
 import React, { useCallback, useMemo } from "react";
-import { ChevronRight, ChevronDown, MoreVertical, Database, Table2, FilePlus, Info, FileUp, Trash2, TerminalIcon, FileType, Settings2, Eye, Star } from "lucide-react";
+import { ChevronRight, ChevronDown, MoreVertical, Database, Table2, FilePlus, Info, FileUp, Trash2, TerminalIcon, FileType, Settings2, Eye, Star, BookOpen, BookPlus, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
 import { useNavigate } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
@@ -22,14 +23,19 @@ import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { log } from "@/lib/log";
 import { escapeQualifiedIdentifier } from "@/helpers/sqlUtils";
+import { useReloadDictionary } from "@/hooks";
 
 export interface TreeNodeData {
   name: string;
-  type: "database" | "table" | "view";
+  type: "database" | "table" | "view" | "dictionary";
   children: TreeNodeData[];
   rows?: string;
   size?: string;
   engine?: string;
+  /** Dictionary load status, last successful load and last loading error */
+  status?: string;
+  lastSuccessfulUpdate?: string;
+  lastException?: string;
 }
 
 interface TreeNodeProps {
@@ -54,6 +60,7 @@ const TreeNode: React.FC<TreeNodeProps> = ({
     openCreateTableModal,
     openUploadFileModal,
     openAlterTableModal,
+    openCreateDictionaryModal,
     toggleFavorite,
     addRecentItem,
   } = useExplorerStore();
@@ -61,12 +68,16 @@ const TreeNode: React.FC<TreeNodeProps> = ({
   // Subscribe to favorites array directly for reactivity
   const favorites = useExplorerStore((state) => state.favorites);
   const { addTab } = useWorkspaceStore();
+  const reloadDictionary = useReloadDictionary();
 
   // Memoize computed values
   const isExpanded = useMemo(() => expandedNodes.has(node.name), [expandedNodes, node.name]);
   const hasChildren = useMemo(() => node.children && node.children.length > 0, [node.children]);
   const isDatabase = useMemo(() => node.type === "database", [node.type]);
   const databaseName = useMemo(() => isDatabase ? node.name : parentDatabaseName, [isDatabase, node.name, parentDatabaseName]);
+  const isDictionary = node.type === "dictionary";
+  // A failed reload leaves the dictionary LOADED with stale data; only last_exception tells
+  const dictionaryFailed = isDictionary && (Boolean(node.lastException) || Boolean(node.status?.startsWith("FAILED")));
 
   // Memoize search matching
   const matchesSearch = useMemo(() => {
@@ -135,6 +146,17 @@ const TreeNode: React.FC<TreeNodeProps> = ({
     });
   }, [isDatabase, node.name, databaseName, addTab]);
 
+  const handleReloadDictionary = useCallback(() => {
+    reloadDictionary.mutate(
+      { database: databaseName, name: node.name },
+      {
+        onSuccess: (result) => toast.success(`Reloaded ${databaseName}.${node.name} — ${result.element_count.toLocaleString()} elements`),
+        onError: (error) => toast.error(`Failed to reload ${databaseName}.${node.name}: ${(error as Error).message}`),
+      }
+    );
+    refreshData?.();
+  }, [reloadDictionary, databaseName, node.name, refreshData]);
+
   if (!shouldRender) {
     return null;
   }
@@ -174,6 +196,12 @@ const TreeNode: React.FC<TreeNodeProps> = ({
           <Database className="mr-2 h-3.5 w-3.5 shrink-0 text-paper-dim" aria-hidden />
         ) : node.type === "view" ? (
           <Eye className="mr-2 h-3.5 w-3.5 shrink-0 text-paper-dim" aria-hidden />
+        ) : isDictionary ? (
+          <BookOpen
+            className={cn("mr-2 h-3.5 w-3.5 shrink-0", dictionaryFailed ? "text-red-400" : "text-paper-dim")}
+            aria-label={dictionaryFailed ? "Dictionary failed to load" : undefined}
+            aria-hidden={!dictionaryFailed}
+          />
         ) : (
           <Table2 className="mr-2 h-3.5 w-3.5 shrink-0 text-paper-dim" aria-hidden />
         )}
@@ -191,7 +219,7 @@ const TreeNode: React.FC<TreeNodeProps> = ({
                 {node.name}
               </span>
             </TooltipTrigger>
-            {!isDatabase && (node.rows || node.size || node.engine) && (
+            {!isDatabase && (node.rows || node.size || node.engine || node.status) && (
               <TooltipContent side="right" className="max-w-xs">
                 <div className="space-y-1.5 font-mono text-[11px]">
                   {node.engine && (
@@ -200,18 +228,33 @@ const TreeNode: React.FC<TreeNodeProps> = ({
                       <span className="text-paper">{node.engine}</span>
                     </div>
                   )}
+                  {node.status && (
+                    <div className="flex items-center justify-between gap-4">
+                      <span className="uppercase tracking-[0.14em] text-paper-faint">Status</span>
+                      <span className={dictionaryFailed ? "text-red-400" : "text-paper"}>{node.status}</span>
+                    </div>
+                  )}
                   {node.rows && (
                     <div className="flex items-center justify-between gap-4">
-                      <span className="uppercase tracking-[0.14em] text-paper-faint">Rows</span>
+                      <span className="uppercase tracking-[0.14em] text-paper-faint">{isDictionary ? "Elements" : "Rows"}</span>
                       <span className="text-paper">{node.rows}</span>
                     </div>
                   )}
                   {node.size && (
                     <div className="flex items-center justify-between gap-4">
-                      <span className="uppercase tracking-[0.14em] text-paper-faint">Size</span>
+                      <span className="uppercase tracking-[0.14em] text-paper-faint">{isDictionary ? "Memory" : "Size"}</span>
                       <span className="text-paper">{node.size}</span>
                     </div>
                   )}
+                  {node.lastSuccessfulUpdate && (
+                    <div className="flex items-center justify-between gap-4">
+                      <span className="uppercase tracking-[0.14em] text-paper-faint">Loaded</span>
+                      <span className="text-paper">{node.lastSuccessfulUpdate}</span>
+                    </div>
+                  )}
+                  {node.lastException && (
+                    <div className="break-words text-red-400">{node.lastException}</div>
+                  )}
                 </div>
               </TooltipContent>
             )}
@@ -301,6 +344,18 @@ const TreeNode: React.FC<TreeNodeProps> = ({
                     Create Table
                   </DropdownMenuItem>
                 </PermissionGuard>
+                <PermissionGuard requiredPermission={RBAC_PERMISSIONS.TABLE_CREATE} showTooltip>
+                  <DropdownMenuItem 
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      openCreateDictionaryModal(node.name);
+                    }} 
+                    className="text-xs gap-2"
+                  >
+                    <BookPlus className="h-3.5 w-3.5 text-paper-muted" aria-hidden />
+                    Create Dictionary
+                  </DropdownMenuItem>
+                </PermissionGuard>
                 <PermissionGuard requiredPermission={RBAC_PERMISSIONS.TABLE_INSERT} showTooltip>
                   <DropdownMenuItem 
                     onClick={(e) => {
@@ -346,18 +401,34 @@ const TreeNode: React.FC<TreeNodeProps> = ({
                   <FileType className="w-3.5 h-3.5" />
                   Describe Table
                 </DropdownMenuItem>
-                <PermissionGuard requiredPermission={RBAC_PERMISSIONS.TABLE_ALTER} showTooltip>
-                  <DropdownMenuItem 
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      openAlterTableModal(databaseName, node.name);
-                    }} 
-                    className="text-xs gap-2"
-                  >
-                    <Settings2 className="w-3.5 h-3.5" />
-                    Alter Table
-                  </DropdownMenuItem>
-                </PermissionGuard>
+                {isDictionary ? (
+                  <PermissionGuard requiredPermission={RBAC_PERMISSIONS.DICTIONARIES_RELOAD} showTooltip>
+                    <DropdownMenuItem
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleReloadDictionary();
+                      }}
+                      disabled={reloadDictionary.isPending}
+                      className="text-xs gap-2"
+                    >
+                      <RefreshCw className="w-3.5 h-3.5" />
+                      Reload Dictionary
+                    </DropdownMenuItem>
+                  </PermissionGuard>
+                ) : (
+                  <PermissionGuard requiredPermission={RBAC_PERMISSIONS.TABLE_ALTER} showTooltip>
+                    <DropdownMenuItem 
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        openAlterTableModal(databaseName, node.name);
+                      }} 
+                      className="text-xs gap-2"
+                    >
+                      <Settings2 className="w-3.5 h-3.5" />
+                      Alter Table
+                    </DropdownMenuItem>
+                  </PermissionGuard>
+                )}
                 <DropdownMenuSeparator />
                 <PermissionGuard requiredPermission={RBAC_PERMISSIONS.TABLE_DROP} showTooltip>
                   <DropdownMenuItem
@@ -368,12 +439,14 @@ const TreeNode: React.FC<TreeNodeProps> = ({
                         id: genTabId(),
                         type: "sql",
                         title: `Drop ${node.name}`,
-                        content: `-- WARNING: This will permanently delete the table!\nDROP TABLE ${databaseName}.${node.name}`,
+                        content: isDictionary
+                          ? `-- WARNING: This will permanently delete the dictionary!\nDROP DICTIONARY ${databaseName}.${node.name}`
+                          : `-- WARNING: This will permanently delete the table!\nDROP TABLE ${databaseName}.${node.name}`,
                       });
                     }}
                   >
                     <Trash2 className="w-3.5 h-3.5" />
-                    Drop Table
+                    {isDictionary ? "Drop Dictionary" : "Drop Table"}
                   </DropdownMenuItem>
                 </PermissionGuard>
               </>
@@ -414,6 +487,8 @@ export default React.memo(TreeNode, (prevProps, nextProps) => {
   return (
     prevProps.node.name === nextProps.node.name &&
     prevProps.node.type === nextProps.node.type &&
+    prevProps.node.status === nextProps.node.status &&
+    prevProps.node.lastException === nextProps.node.lastException &&
     prevProps.level === nextProps.level &&
     prevProps.searchTerm === nextProps.searchTerm &&
     prevProps.parentDatabaseName === nextProps.parentDatabaseName &&
@@ -3,15 +3,23 @@
  *
  * A bell with a breach count badge. The popover holds the browser-notification
  * settings (enable + per-rule thresholds + desktop-banner permission), the nodes
- * currently breaching, and a short history of fired alerts. Slack/email delivery
- * is configured separately in Admin → Settings → Alerting.
+ * currently breaching, the server's open fleet incidents (acknowledge in place,
+ * or open one for its timeline), and a short history of fired alerts.
+ * Slack/email delivery is configured separately in Admin → Settings → Alerting.
  */
 
-import { Bell, BellRing, MonitorCheck, MonitorX, Trash2, AlertTriangle, ArrowRight } from "lucide-react";
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Bell, BellRing, MonitorCheck, MonitorX, Trash2, AlertTriangle, ArrowRight, Check, Siren } from "lucide-react";
 
 import { Popover, PopoverTrigger, PopoverContent } from "@/components/ui/popover";
 import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
+import { useRbacStore, RBAC_PERMISSIONS } from "@/stores";
+import { acknowledgeIncident, listIncidents } from "@/api/alerting";
+import { ALERTING_KEYS } from "@/features/alerting/ChannelDialog";
+import { IncidentDialog, incidentStatus } from "@/features/alerting/IncidentDialog";
 import type { UseFleetAlerts } from "@/hooks/useFleetAlerts";
 
 function timeAgo(ts: number): string {
@@ -45,199 +53,271 @@ export default function FleetAlertsBell({
     notificationsSupported,
   } = alerts;
 
+  const { hasPermission } = useRbacStore();
+  const canViewIncidents = hasPermission(RBAC_PERMISSIONS.ALERTING_VIEW);
+  const canEditIncidents = hasPermission(RBAC_PERMISSIONS.ALERTING_EDIT);
+  // The dialog lives outside the popover, which closes on any outside click.
+  const [incidentId, setIncidentId] = useState<string | null>(null);
+
   const count = activeBreaches.length;
   const breaching = count > 0;
 
   return (
-    <Popover>
-      <PopoverTrigger asChild>
-        <button
-          data-onboarding-id={onboardingId}
-          type="button"
-          aria-label={breaching ? `${count} active alert${count === 1 ? "" : "s"}` : "Alerts"}
-          className={cn(
-            "relative grid h-8 w-8 place-items-center rounded-xs transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-brand",
-            breaching
-              ? "border border-red-300 bg-red-50 text-red-700 dark:border-red-500/50 dark:bg-red-950/30 dark:text-red-300"
-              : "text-paper-dim hover:bg-ink-200 hover:text-paper"
-          )}
+    <>
+      <Popover>
+        <PopoverTrigger asChild>
+          <button
+            data-onboarding-id={onboardingId}
+            type="button"
+            aria-label={breaching ? `${count} active alert${count === 1 ? "" : "s"}` : "Alerts"}
+            className={cn(
+              "relative grid h-8 w-8 place-items-center rounded-xs transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-brand",
+              breaching
+                ? "border border-red-300 bg-red-50 text-red-700 dark:border-red-500/50 dark:bg-red-950/30 dark:text-red-300"
+                : "text-paper-dim hover:bg-ink-200 hover:text-paper"
+            )}
+          >
+            {breaching ? (
+              <BellRing className="h-3.5 w-3.5 motion-safe:animate-[pulse_2s_ease-in-out_infinite]" aria-hidden />
+            ) : (
+              <Bell className="h-3.5 w-3.5" aria-hidden />
+            )}
+            {breaching && (
+              <span className="absolute -right-1.5 -top-1.5 grid h-4 min-w-[16px] place-items-center rounded-full bg-red-500 px-1 font-mono text-[9px] font-bold tabular-nums text-white">
+                {count}
+              </span>
+            )}
+          </button>
+        </PopoverTrigger>
+
+        <PopoverContent
+          align="end"
+          side={side}
+          sideOffset={8}
+          collisionPadding={12}
+          className="z-[100] w-[340px] overflow-hidden rounded-md border-ink-500 bg-ink-100 p-0"
         >
-          {breaching ? (
-            <BellRing className="h-3.5 w-3.5 motion-safe:animate-[pulse_2s_ease-in-out_infinite]" aria-hidden />
-          ) : (
-            <Bell className="h-3.5 w-3.5" aria-hidden />
-          )}
-          {breaching && (
-            <span className="absolute -right-1.5 -top-1.5 grid h-4 min-w-[16px] place-items-center rounded-full bg-red-500 px-1 font-mono text-[9px] font-bold tabular-nums text-white">
-              {count}
-            </span>
-          )}
-        </button>
-      </PopoverTrigger>
+          {/* Browser notifications — client-side desktop/toast alerts with their
+              own thresholds. (Slack/email delivery is configured in Settings →
+              Alerting, not here.) */}
+          <div className="flex items-center justify-between border-b border-ink-500 px-4 py-3">
+            <span className="font-mono text-[11px] uppercase tracking-[0.14em] text-paper">Notifications</span>
+            <Toggle
+              checked={config.enabled}
+              onChange={(v) => setConfig({ enabled: v })}
+              label="Browser notifications"
+            />
+          </div>
 
-      <PopoverContent
-        align="end"
-        side={side}
-        sideOffset={8}
-        collisionPadding={12}
-        className="z-[100] w-[340px] overflow-hidden rounded-md border-ink-500 bg-ink-100 p-0"
-      >
-        {/* Browser notifications — client-side desktop/toast alerts with their
-            own thresholds. (Slack/email delivery is configured in Settings →
-            Alerting, not here.) */}
-        <div className="flex items-center justify-between border-b border-ink-500 px-4 py-3">
-          <span className="font-mono text-[11px] uppercase tracking-[0.14em] text-paper">Notifications</span>
-          <Toggle
-            checked={config.enabled}
-            onChange={(v) => setConfig({ enabled: v })}
-            label="Browser notifications"
-          />
-        </div>
+          {config.enabled && (
+            <div className="space-y-3 border-b border-ink-500 px-4 py-3">
+              {/* Thresholds (4-column grid: toggle · label · input · unit) */}
+              <div className="grid grid-cols-[auto_auto_auto_auto] items-center gap-x-2.5 gap-y-3">
+                  <RuleRow
+                    label="Node memory above"
+                    unit="%"
+                    min={1}
+                    max={99}
+                    enabled={config.memoryEnabled}
+                    onToggle={(v) => setConfig({ memoryEnabled: v })}
+                    value={config.memoryThresholdPercent}
+                    onValue={(n) => setConfig({ memoryThresholdPercent: n })}
+                  />
+                  <RuleRow
+                    label="Query memory above"
+                    unit="GB"
+                    min={1}
+                    max={1024}
+                    enabled={config.queryMemoryEnabled}
+                    onToggle={(v) => setConfig({ queryMemoryEnabled: v })}
+                    value={config.queryMemoryThresholdGb}
+                    onValue={(n) => setConfig({ queryMemoryThresholdGb: n })}
+                  />
+                  <RuleRow
+                    label="Query running over"
+                    unit="min"
+                    min={1}
+                    max={1440}
+                    enabled={config.longQueryEnabled}
+                    onToggle={(v) => setConfig({ longQueryEnabled: v })}
+                    value={config.longQueryThresholdMinutes}
+                    onValue={(n) => setConfig({ longQueryThresholdMinutes: n })}
+                  />
+                  <RuleRow
+                    label="Parts limit ETA under"
+                    unit="min"
+                    min={1}
+                    max={1440}
+                    enabled={config.partsPressureEnabled}
+                    onToggle={(v) => setConfig({ partsPressureEnabled: v })}
+                    value={config.partsEtaThresholdMinutes}
+                    onValue={(n) => setConfig({ partsEtaThresholdMinutes: n })}
+                  />
+                </div>
 
-        {config.enabled && (
-          <div className="space-y-3 border-b border-ink-500 px-4 py-3">
-            {/* Thresholds (4-column grid: toggle · label · input · unit) */}
-            <div className="grid grid-cols-[auto_auto_auto_auto] items-center gap-x-2.5 gap-y-3">
-                <RuleRow
-                  label="Node memory above"
-                  unit="%"
-                  min={1}
-                  max={99}
-                  enabled={config.memoryEnabled}
-                  onToggle={(v) => setConfig({ memoryEnabled: v })}
-                  value={config.memoryThresholdPercent}
-                  onValue={(n) => setConfig({ memoryThresholdPercent: n })}
-                />
-                <RuleRow
-                  label="Query memory above"
-                  unit="GB"
-                  min={1}
-                  max={1024}
-                  enabled={config.queryMemoryEnabled}
-                  onToggle={(v) => setConfig({ queryMemoryEnabled: v })}
-                  value={config.queryMemoryThresholdGb}
-                  onValue={(n) => setConfig({ queryMemoryThresholdGb: n })}
-                />
-                <RuleRow
-                  label="Query running over"
-                  unit="min"
-                  min={1}
-                  max={1440}
-                  enabled={config.longQueryEnabled}
-                  onToggle={(v) => setConfig({ longQueryEnabled: v })}
-                  value={config.longQueryThresholdMinutes}
-                  onValue={(n) => setConfig({ longQueryThresholdMinutes: n })}
-                />
-                <RuleRow
-                  label="Parts limit ETA under"
-                  unit="min"
-                  min={1}
-                  max={1440}
-                  enabled={config.partsPressureEnabled}
-                  onToggle={(v) => setConfig({ partsPressureEnabled: v })}
-                  value={config.partsEtaThresholdMinutes}
-                  onValue={(n) => setConfig({ partsEtaThresholdMinutes: n })}
-                />
+                {/* OS desktop banners ride along when the browser permission is
+                    granted — no separate toggle, just the permission prompt/status. */}
+                <div className="border-t border-ink-500 pt-3">
+                  {!notificationsSupported ? (
+                    <p className="text-[11px] text-paper-faint">Desktop banners aren't available in this browser.</p>
+                  ) : permission === "granted" ? (
+                    <div className="flex items-center gap-2 text-[11px] text-emerald-600 dark:text-emerald-400">
+                      <MonitorCheck className="h-3.5 w-3.5" aria-hidden /> Desktop banners active
+                    </div>
+                  ) : permission === "denied" ? (
+                    <div className="flex items-center gap-2 text-[11px] text-paper-faint">
+                      <MonitorX className="h-3.5 w-3.5" aria-hidden /> Desktop banners blocked (allow them in browser settings)
+                    </div>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={requestPermission}
+                      className="inline-flex items-center gap-1.5 rounded-xs border border-ink-500 bg-ink-200 px-2.5 py-1.5 font-mono text-[10px] uppercase tracking-[0.14em] text-paper-muted transition-colors hover:bg-ink-300 hover:text-paper"
+                    >
+                      <MonitorCheck className="h-3.5 w-3.5" aria-hidden /> Enable desktop banners
+                    </button>
+                  )}
+                </div>
               </div>
+            )}
 
-              {/* OS desktop banners ride along when the browser permission is
-                  granted — no separate toggle, just the permission prompt/status. */}
-              <div className="border-t border-ink-500 pt-3">
-                {!notificationsSupported ? (
-                  <p className="text-[11px] text-paper-faint">Desktop banners aren't available in this browser.</p>
-                ) : permission === "granted" ? (
-                  <div className="flex items-center gap-2 text-[11px] text-emerald-600 dark:text-emerald-400">
-                    <MonitorCheck className="h-3.5 w-3.5" aria-hidden /> Desktop banners active
-                  </div>
-                ) : permission === "denied" ? (
-                  <div className="flex items-center gap-2 text-[11px] text-paper-faint">
-                    <MonitorX className="h-3.5 w-3.5" aria-hidden /> Desktop banners blocked (allow them in browser settings)
-                  </div>
-                ) : (
+          {/* Currently breaching */}
+          {breaching && (
+            <div className="border-b border-ink-500 px-4 py-3">
+              <div className="mb-1.5 font-mono text-[9px] uppercase tracking-[0.18em] text-red-700 dark:text-red-300">
+                Breaching now
+              </div>
+              <div className="flex flex-col gap-0.5">
+                {activeBreaches.map((b) => (
                   <button
+                    key={b.key}
                     type="button"
-                    onClick={requestPermission}
-                    className="inline-flex items-center gap-1.5 rounded-xs border border-ink-500 bg-ink-200 px-2.5 py-1.5 font-mono text-[10px] uppercase tracking-[0.14em] text-paper-muted transition-colors hover:bg-ink-300 hover:text-paper"
+                    onClick={() => onInvestigate?.(b.connectionId)}
+                    title="Open live queries on this node"
+                    className="group flex w-full items-center justify-between gap-2 rounded-xs px-1.5 py-1 text-left text-[12px] transition-colors hover:bg-ink-200/60 focus:outline-none focus-visible:bg-ink-200/60"
                   >
-                    <MonitorCheck className="h-3.5 w-3.5" aria-hidden /> Enable desktop banners
+                    <span className="flex min-w-0 items-center gap-1.5 truncate text-paper">
+                      <AlertTriangle className="h-3 w-3 shrink-0 text-red-600 dark:text-red-400" aria-hidden />
+                      {b.connectionName}
+                    </span>
+                    <span className="flex shrink-0 items-center gap-1.5">
+                      <span className="font-mono tabular-nums text-red-700 dark:text-red-300">{b.summary}</span>
+                      <ArrowRight className="h-3 w-3 text-paper-faint opacity-0 transition-opacity group-hover:opacity-100" aria-hidden />
+                    </span>
                   </button>
-                )}
+                ))}
               </div>
             </div>
           )}
 
-        {/* Currently breaching */}
-        {breaching && (
-          <div className="border-b border-ink-500 px-4 py-3">
-            <div className="mb-1.5 font-mono text-[9px] uppercase tracking-[0.18em] text-red-700 dark:text-red-300">
-              Breaching now
-            </div>
-            <div className="flex flex-col gap-0.5">
-              {activeBreaches.map((b) => (
+          {canViewIncidents && <IncidentsSection canEdit={canEditIncidents} onOpen={setIncidentId} />}
+
+          {/* History */}
+          <div className="max-h-64 overflow-auto">
+            <div className="flex items-center justify-between px-4 pb-1 pt-3">
+              <span className="font-mono text-[9px] uppercase tracking-[0.18em] text-paper-faint">Recent</span>
+              {fires.length > 0 && (
                 <button
-                  key={b.key}
                   type="button"
-                  onClick={() => onInvestigate?.(b.connectionId)}
-                  title="Open live queries on this node"
-                  className="group flex w-full items-center justify-between gap-2 rounded-xs px-1.5 py-1 text-left text-[12px] transition-colors hover:bg-ink-200/60 focus:outline-none focus-visible:bg-ink-200/60"
+                  onClick={clearFires}
+                  className="inline-flex items-center gap-1 font-mono text-[9px] uppercase tracking-[0.14em] text-paper-faint hover:text-paper-muted"
                 >
-                  <span className="flex min-w-0 items-center gap-1.5 truncate text-paper">
-                    <AlertTriangle className="h-3 w-3 shrink-0 text-red-600 dark:text-red-400" aria-hidden />
-                    {b.connectionName}
-                  </span>
-                  <span className="flex shrink-0 items-center gap-1.5">
-                    <span className="font-mono tabular-nums text-red-700 dark:text-red-300">{b.summary}</span>
-                    <ArrowRight className="h-3 w-3 text-paper-faint opacity-0 transition-opacity group-hover:opacity-100" aria-hidden />
-                  </span>
+                  <Trash2 className="h-3 w-3" aria-hidden /> Clear
                 </button>
-              ))}
+              )}
             </div>
+            {fires.length === 0 ? (
+              <p className="px-4 pb-4 pt-1 text-[12px] text-paper-faint">
+                {config.enabled ? "No alerts fired yet." : "Alerts are turned off."}
+              </p>
+            ) : (
+              <ul className="pb-2">
+                {fires.map((f) => (
+                  <li key={f.id}>
+                    <button
+                      type="button"
+                      onClick={() => onInvestigate?.(f.connectionId)}
+                      title="Open live queries on this node"
+                      className="group flex w-full items-center justify-between gap-2 px-4 py-1.5 text-left text-[12px] transition-colors hover:bg-ink-200/50 focus:outline-none focus-visible:bg-ink-200/50"
+                    >
+                      <span className="min-w-0 truncate text-paper-muted">
+                        <span className="text-paper">{f.connectionName}</span> · {f.summary}
+                      </span>
+                      <span className="flex shrink-0 items-center gap-1.5">
+                        <span className="font-mono text-[10px] text-paper-faint">{timeAgo(f.at)}</span>
+                        <ArrowRight className="h-3 w-3 text-paper-faint opacity-0 transition-opacity group-hover:opacity-100" aria-hidden />
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
-        )}
+        </PopoverContent>
+      </Popover>
+      <IncidentDialog incidentId={incidentId} canEdit={canEditIncidents} onClose={() => setIncidentId(null)} />
+    </>
+  );
+}
 
-        {/* History */}
-        <div className="max-h-64 overflow-auto">
-          <div className="flex items-center justify-between px-4 pb-1 pt-3">
-            <span className="font-mono text-[9px] uppercase tracking-[0.18em] text-paper-faint">Recent</span>
-            {fires.length > 0 && (
+/** Open fleet incidents from the server, newest activity first, with in-place acknowledge. */
+function IncidentsSection({ canEdit, onOpen }: { canEdit: boolean; onOpen: (id: string) => void }) {
+  const queryClient = useQueryClient();
+  const { data: incidents = [] } = useQuery({
+    queryKey: [...ALERTING_KEYS.incidents, "list", "active"],
+    queryFn: () => listIncidents("active", 20),
+    refetchInterval: 30_000,
+  });
+  const ackMutation = useMutation({
+    mutationFn: (id: string) => acknowledgeIncident(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ALERTING_KEYS.incidents });
+      queryClient.invalidateQueries({ queryKey: ALERTING_KEYS.events });
+      toast.success("Incident acknowledged");
+    },
+    onError: (e) => toast.error(e instanceof Error ? e.message : "Could not acknowledge the incident"),
+  });
+
+  if (incidents.length === 0) return null;
+  return (
+    <div className="border-b border-ink-500 px-4 py-3">
+      <div className="mb-1.5 flex items-center gap-1.5 font-mono text-[9px] uppercase tracking-[0.18em] text-paper-faint">
+        <Siren className="h-3 w-3" aria-hidden /> Incidents
+      </div>
+      <div className="flex max-h-40 flex-col gap-0.5 overflow-auto">
+        {incidents.map((inc) => {
+          const st = incidentStatus(inc);
+          const ackable = canEdit && st.label !== "Acknowledged";
+          return (
+            <div key={inc.id} className="flex items-center gap-1.5 rounded-xs px-1.5 py-1 hover:bg-ink-200/60">
               <button
                 type="button"
-                onClick={clearFires}
-                className="inline-flex items-center gap-1 font-mono text-[9px] uppercase tracking-[0.14em] text-paper-faint hover:text-paper-muted"
+                onClick={() => onOpen(inc.id)}
+                title="Open the incident timeline"
+                className="min-w-0 flex-1 truncate text-left text-[12px] text-paper-muted hover:text-paper focus:outline-none"
               >
-                <Trash2 className="h-3 w-3" aria-hidden /> Clear
+                {inc.summary}
               </button>
-            )}
-          </div>
-          {fires.length === 0 ? (
-            <p className="px-4 pb-4 pt-1 text-[12px] text-paper-faint">
-              {config.enabled ? "No alerts fired yet." : "Alerts are turned off."}
-            </p>
-          ) : (
-            <ul className="pb-2">
-              {fires.map((f) => (
-                <li key={f.id}>
-                  <button
-                    type="button"
-                    onClick={() => onInvestigate?.(f.connectionId)}
-                    title="Open live queries on this node"
-                    className="group flex w-full items-center justify-between gap-2 px-4 py-1.5 text-left text-[12px] transition-colors hover:bg-ink-200/50 focus:outline-none focus-visible:bg-ink-200/50"
-                  >
-                    <span className="min-w-0 truncate text-paper-muted">
-                      <span className="text-paper">{f.connectionName}</span> · {f.summary}
-                    </span>
-                    <span className="flex shrink-0 items-center gap-1.5">
-                      <span className="font-mono text-[10px] text-paper-faint">{timeAgo(f.at)}</span>
-                      <ArrowRight className="h-3 w-3 text-paper-faint opacity-0 transition-opacity group-hover:opacity-100" aria-hidden />
-                    </span>
-                  </button>
-                </li>
-              ))}
-            </ul>
-          )}
-        </div>
-      </PopoverContent>
-    </Popover>
+              {ackable ? (
+                <button
+                  type="button"
+                  onClick={() => ackMutation.mutate(inc.id)}
+                  disabled={ackMutation.isPending && ackMutation.variables === inc.id}
+                  title="Acknowledge — stops escalation"
+                  className="inline-flex shrink-0 items-center gap-1 rounded-xs border border-ink-500 px-1.5 py-0.5 font-mono text-[9px] uppercase tracking-[0.12em] text-paper-muted transition-colors hover:bg-ink-300 hover:text-paper disabled:opacity-50"
+                >
+                  <Check className="h-2.5 w-2.5" aria-hidden /> Ack
+                </button>
+              ) : (
+                <span className="shrink-0 font-mono text-[9px] uppercase tracking-[0.12em] text-paper-faint">
+                  {st.label}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
   );
 }
 
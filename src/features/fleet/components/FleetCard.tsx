@@ -26,7 +26,7 @@ import {
   partsPressureFromSnapshot,
   type FleetCardStatus,
 } from "@/hooks/useFleetMetrics";
-import type { FleetConnectionSnapshot } from "@/api/fleet";
+import type { DiskForecast, FleetConnectionSnapshot } from "@/api/fleet";
 import Sparkline from "./Sparkline";
 import { activateConnection } from "@/lib/activateConnection";
 import type { ClickHouseConnection } from "@/api/rbac";
@@ -55,6 +55,8 @@ interface FleetCardProps {
   snapshotPollIntervalSeconds?: number;
   /** Memory-% history for the inline sparkline (from the page's bulk fetch). */
   memoryHistory?: { time: number; value: number | null }[];
+  /** This node's projected disk fill dates (from the page's single fetch). */
+  diskForecasts?: DiskForecast[];
 }
 
 const STATUS_STYLES: Record<FleetCardStatus, { dot: string; label: string }> = {
@@ -118,6 +120,7 @@ export default function FleetCard({
   snapshot,
   snapshotPollIntervalSeconds = 30,
   memoryHistory,
+  diskForecasts = [],
 }: FleetCardProps) {
   const queryClient = useQueryClient();
   const [isOpening, setIsOpening] = useState(false);
@@ -146,6 +149,11 @@ export default function FleetCard({
     .filter((p) => p.netPartsPerMin > 0 && p.etaMinutes >= 0)
     .sort((a, b) => a.etaMinutes - b.etaMinutes)[0];
 
+  // Soonest projected "disk full" date across this node's disks (growing only).
+  const soonestDisk = diskForecasts
+    .filter((d) => d.fullAt !== null && d.daysToFull !== null)
+    .sort((a, b) => (a.fullAt ?? 0) - (b.fullAt ?? 0))[0];
+
   const effectiveSummary = snapshotSummary ?? summary.data;
   const effectiveLongest =
     snapshotLongest !== undefined ? snapshotLongest : longest.data;
@@ -374,6 +382,16 @@ export default function FleetCard({
           sub={worstParts ? `${worstParts.database}.${worstParts.table}` : "converging"}
           mono
         />
+        <Tile
+          label="Disk full"
+          value={soonestDisk ? formatUptime((soonestDisk.daysToFull ?? 0) * 86400) : "—"}
+          sub={
+            soonestDisk
+              ? `${soonestDisk.disk} · ${new Date((soonestDisk.fullAt ?? 0) * 1000).toLocaleDateString()}`
+              : diskForecasts.length > 0 ? "not growing" : "no history yet"
+          }
+          mono
+        />
         {effectiveException ? (
           <Tooltip>
             <TooltipTrigger asChild>
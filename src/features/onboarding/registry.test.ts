@@ -58,7 +58,7 @@ describe("onboarding registry", () => {
     const monitoring = ONBOARDING_CHAPTERS.find((chapter) => chapter.id === "monitoring");
     const nestedSteps = monitoring?.steps.filter((step) => step.id !== "monitoring.live-queries") ?? [];
 
-    expect(nestedSteps).toHaveLength(29);
+    expect(nestedSteps).toHaveLength(32);
     expect(nestedSteps.every((step) => step.route.includes("?guide="))).toBe(true);
     expect(nestedSteps.every((step) => step.target?.startsWith("monitoring-"))).toBe(true);
     expect(nestedSteps.every((step) => step.target !== "monitoring-content")).toBe(true);
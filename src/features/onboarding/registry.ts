@@ -21,6 +21,9 @@ export const AUTHENTICATED_ROUTE_INVENTORY = [
   "/admin/users/create",
   "/admin/users/edit/:userId",
   "/preferences",
+  "/dashboards/:dashboardId?",
+  "/change-requests/:requestId?",
+  "/backups",
 ] as const;
 
 export const NON_GUIDED_ROUTE_INVENTORY = [
@@ -42,8 +45,8 @@ export const REQUIRED_ONBOARDING_SURFACES = [
   "overview.status", "overview.quick-actions", "overview.quick-access", "overview.saved", "overview.activity",
   "explorer.navigation", "explorer.objects", "explorer.import", "explorer.workspace", "explorer.results",
   "explorer.table-info", "explorer.explain",
-  "monitoring.live-queries", "monitoring.logs.queries", "monitoring.logs.patterns", "monitoring.logs.tables",
-  "monitoring.logs.redash", "monitoring.logs.histogram", "monitoring.metrics.overview",
+  "monitoring.live-queries", "monitoring.logs.queries", "monitoring.logs.patterns", "monitoring.logs.regressions",
+  "monitoring.logs.tables", "monitoring.logs.users", "monitoring.logs.redash", "monitoring.logs.histogram", "monitoring.metrics.overview",
   "monitoring.metrics.performance", "monitoring.metrics.storage", "monitoring.metrics.merges",
   "monitoring.metrics.parts", "monitoring.metrics.errors", "monitoring.metrics.memory",
   "monitoring.metrics.cpu", "monitoring.metrics.zookeeper", "monitoring.metrics.network",
@@ -51,7 +54,7 @@ export const REQUIRED_ONBOARDING_SURFACES = [
   "monitoring.schema.nullable", "monitoring.schema.integers", "monitoring.schema.compression",
   "monitoring.cluster.mutations", "monitoring.cluster.replication", "monitoring.cluster.topology",
   "monitoring.cluster.inserts", "monitoring.cluster.ddl", "monitoring.cluster.simulator",
-  "monitoring.errors.counters", "monitoring.errors.crashes",
+  "monitoring.errors.counters", "monitoring.errors.crashes", "monitoring.dictionaries.list",
   "dataops.scheduled.overview", "dataops.scheduled.jobs", "dataops.scheduled.wizard",
   "dataops.scheduled.runs", "dataops.scheduled.lineage", "dataops.scheduled.macros",
   "dataops.health.overview", "dataops.health.datasets", "dataops.health.promise-wizard",
@@ -149,7 +152,9 @@ export const ONBOARDING_CHAPTERS: OnboardingChapter[] = [
       step("monitoring.live-queries", "Live queries", "Watch active work, refresh cadence, resource use, and query details. Cancellation is permission-gated and always requires intent.", "/monitoring/live-queries", { target: "monitoring-section-live-queries", requiredAny: [p.LIVE_QUERIES_VIEW] }),
       step("monitoring.logs.queries", "Query executions", "Filter by time, outcome, user, and role; page through executions; open details or send SQL back to the workspace.", "/monitoring/logs?guide=queries", { target: "monitoring-logs-queries", requiredAny: [p.LOGS_VIEW] }),
       step("monitoring.logs.patterns", "Repeated query shapes", "Patterns groups equivalent SQL so frequent or expensive shapes become visible even when literals differ.", "/monitoring/logs?guide=patterns", { target: "monitoring-logs-patterns", requiredAny: [p.LOGS_VIEW] }),
+      step("monitoring.logs.regressions", "Pattern regressions", "Compare each pattern's p50 and p95 duration, memory, and read bytes against a baseline such as last week to catch shapes that got slower or heavier.", "/monitoring/logs?guide=regressions", { target: "monitoring-logs-regressions", requiredAny: [p.LOGS_VIEW] }),
       step("monitoring.logs.tables", "Hot tables", "By table attributes query count, duration, rows, bytes, and peak memory to the objects receiving the load.", "/monitoring/logs?guide=tables", { target: "monitoring-logs-tables", requiredAny: [p.LOGS_VIEW] }),
+      step("monitoring.logs.users", "Cost by CHouse user", "By user rolls executions, duration, CPU, memory, read bytes, and failures up to the CHouse user who ran them, with each user's heaviest patterns and a CSV export for chargeback.", "/monitoring/logs?guide=users", { target: "monitoring-logs-users", requiredAny: [p.LOGS_VIEW] }),
       step("monitoring.logs.redash", "Redash workload", "Group executions by Redash query ID and user to connect dashboard activity with database cost.", "/monitoring/logs?guide=redash", { target: "monitoring-logs-redash", requiredAny: [p.LOGS_VIEW] }),
       step("monitoring.logs.histogram", "Distribution, not just averages", "Plot duration, memory, rows, or bytes to spot long tails and choose useful drill-down ranges.", "/monitoring/logs?guide=histogram", { target: "monitoring-logs-histogram", requiredAny: [p.LOGS_VIEW] }),
       step("monitoring.metrics.overview", "Metrics overview", "Start with current health and the broad trend before opening a specialist metric panel.", "/monitoring/metrics?guide=overview", { target: "monitoring-metrics-overview", requiredAny: [p.METRICS_VIEW, p.METRICS_VIEW_ADVANCED] }),
@@ -176,6 +181,7 @@ export const ONBOARDING_CHAPTERS: OnboardingChapter[] = [
       step("monitoring.cluster.simulator", "DDL simulator", "Preview distributed DDL impact and affected nodes before running production changes.", "/monitoring/cluster?guide=simulator", { target: "monitoring-cluster-simulator", requiredAny: [p.CLUSTER_VIEW] }),
       step("monitoring.errors.counters", "Error counters", "Compare server error codes and counts to see which failures are increasing.", "/monitoring/errors?guide=errors", { target: "monitoring-errors-errors", requiredAny: [p.ERRORS_VIEW] }),
       step("monitoring.errors.crashes", "Crashes", "Review crash records and stack context separately from ordinary query exceptions.", "/monitoring/errors?guide=crashes", { target: "monitoring-errors-crashes", requiredAny: [p.ERRORS_VIEW] }),
+      step("monitoring.dictionaries.list", "Dictionaries", "Failed and overdue dictionaries sort first; a failed reload keeps serving old data, so check the last error and reload once the source is fixed.", "/monitoring/dictionaries?guide=list", { target: "monitoring-dictionaries-list", requiredAny: [p.DICTIONARIES_VIEW] }),
     ],
   },
   {
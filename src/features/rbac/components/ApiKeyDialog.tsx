@@ -0,0 +1,234 @@
+/**
+ * ApiKeyDialog — create a personal API key. Scopes are picked from the caller's
+ * own permissions (the server rejects anything broader). After creation the
+ * dialog switches to a one-time reveal of the plaintext key; closing it discards
+ * the key for good.
+ */
+
+import React, { useMemo, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { AlertTriangle, Check, Copy, KeyRound, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { rbacApiKeysApi } from "@/api/rbac";
+import { cn } from "@/lib/utils";
+
+export const API_KEYS_QUERY_KEY = ["rbac", "api-keys"] as const;
+
+const LABEL_CLASS = "font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim";
+const SAVE_BTN =
+  "h-9 gap-2 rounded-xs bg-brand px-4 font-mono text-[11px] font-semibold uppercase tracking-[0.14em] text-ink-50 hover:bg-brand-soft disabled:opacity-50";
+
+const EXPIRY_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+];
+
+function errMessage(e: unknown): string {
+  return e instanceof Error ? e.message : "Something went wrong";
+}
+
+interface ApiKeyDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Permissions the current user holds — the only scopes a key may carry */
+  availableScopes: string[];
+}
+
+export const ApiKeyDialog: React.FC<ApiKeyDialogProps> = ({ open, onClose, availableScopes }) => {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [expiry, setExpiry] = useState("90");
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const scopesByCategory = useMemo(() => {
+    const groups: Record<string, string[]> = {};
+    [...availableScopes].sort().forEach((scope) => {
+      const [category] = scope.split(":");
+      (groups[category] ??= []).push(scope);
+    });
+    return groups;
+  }, [availableScopes]);
+
+  const reset = () => {
+    setName("");
+    setScopes([]);
+    setExpiry("90");
+    setCreatedKey(null);
+    setCopied(false);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const mutation = useMutation({
+    mutationFn: () =>
+      rbacApiKeysApi.create({
+        name: name.trim(),
+        scopes,
+        expiresInDays: expiry === "never" ? null : Number(expiry),
+      }),
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: API_KEYS_QUERY_KEY });
+      setCreatedKey(created.key);
+    },
+    onError: (e) => toast.error(errMessage(e)),
+  });
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)));
+  };
+
+  const handleCopy = () => {
+    if (!createdKey) return;
+    navigator.clipboard.writeText(createdKey);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const canCreate = name.trim().length > 0 && scopes.length > 0 && !mutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && handleClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto rounded-xs border-ink-500 bg-ink-100">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3 text-paper">
+            <span className="grid h-9 w-9 place-items-center rounded-xs border border-ink-500 bg-ink-200 text-paper-muted">
+              <KeyRound className="h-4 w-4" aria-hidden />
+            </span>
+            <span className="flex flex-col gap-0.5 text-left">
+              <span className="text-[16px] font-semibold tracking-tight">
+                {createdKey ? "API key created" : "New API key"}
+              </span>
+              <span className="font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint">
+                Authorization: Bearer &lt;key&gt;
+              </span>
+            </span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {createdKey ? (
+          <div className="space-y-4">
+            <div className="flex items-start gap-2 rounded-xs border border-amber-300 bg-amber-50 px-3 py-2 text-[12px] text-amber-800 dark:border-amber-900/60 dark:bg-amber-950/40 dark:text-amber-300">
+              <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" aria-hidden />
+              <span>Copy this key now. It will not be shown again.</span>
+            </div>
+            <div className="flex items-center gap-2 rounded-xs border border-ink-500 bg-ink-200 px-3 py-2.5">
+              <code className="flex-1 break-all font-mono text-[12px] text-paper">{createdKey}</code>
+              <button
+                type="button"
+                onClick={handleCopy}
+                className="rounded-xs p-1 text-paper-dim transition-colors hover:bg-ink-100 hover:text-paper"
+                title="Copy to clipboard"
+                aria-label="Copy API key"
+              >
+                {copied ? <Check className="h-3.5 w-3.5 text-emerald-400" /> : <Copy className="h-3.5 w-3.5" />}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              <Label className={LABEL_CLASS}>Name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. nightly-export" />
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className={LABEL_CLASS}>Expires after</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((opt) => (
+                    <SelectItem key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between">
+                <Label className={LABEL_CLASS}>Scopes</Label>
+                <button
+                  type="button"
+                  onClick={() => setScopes(scopes.length === availableScopes.length ? [] : [...availableScopes])}
+                  className="font-mono text-[10px] uppercase tracking-[0.14em] text-brand hover:underline"
+                >
+                  {scopes.length === availableScopes.length ? "Clear all" : "Select all"}
+                </button>
+              </div>
+              <div className="custom-scrollbar max-h-64 space-y-2 overflow-y-auto rounded-xs border border-ink-500 bg-ink-200 p-2.5">
+                {Object.entries(scopesByCategory).map(([category, perms]) => (
+                  <div key={category}>
+                    <p className={cn("mb-1.5", LABEL_CLASS)}>{category}</p>
+                    <div className="grid grid-cols-1 gap-1 sm:grid-cols-2">
+                      {perms.map((scope) => (
+                        <label key={scope} className="flex items-center gap-2 text-[12px] text-paper-muted">
+                          <Checkbox
+                            checked={scopes.includes(scope)}
+                            onCheckedChange={(v) => toggleScope(scope, v === true)}
+                          />
+                          <span className="font-mono">{scope}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="border-t border-ink-500 pt-4">
+          {createdKey ? (
+            <Button onClick={handleClose} className={SAVE_BTN}>
+              Done
+            </Button>
+          ) : (
+            <>
+              <Button
+                variant="ghost"
+                onClick={handleClose}
+                disabled={mutation.isPending}
+                className="h-9 rounded-xs font-mono text-[11px] uppercase tracking-[0.14em] text-paper-muted hover:bg-ink-200 hover:text-paper"
+              >
+                Cancel
+              </Button>
+              <Button onClick={() => mutation.mutate()} disabled={!canCreate} className={SAVE_BTN}>
+                {mutation.isPending && <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />}
+                Create key
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
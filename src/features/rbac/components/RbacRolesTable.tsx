@@ -21,6 +21,7 @@ import {
   Sparkles,
   CheckCircle2,
   Database,
+  Gauge,
 } from 'lucide-react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
@@ -54,6 +55,7 @@ import { rbacRolesApi, rbacDataAccessPoliciesApi, type RbacRole } from '@/api/rb
 import { useRbacStore, RBAC_PERMISSIONS } from '@/stores/rbac';
 import { cn } from '@/lib/utils';
 import { RoleFormDialog } from './RoleFormDialog';
+import { RoleQuotaDialog } from './RoleQuotaDialog';
 
 // ============================================
 // Role Colors
@@ -101,6 +103,8 @@ const PERMISSION_CATEGORIES: Record<string, string> = {
   'schema_advisor': 'Monitoring',
   'cluster': 'Monitoring',
   'errors': 'Monitoring',
+  'mutations': 'Monitoring',
+  'dictionaries': 'Monitoring',
   'fleet': 'Fleet Management',
   'doctor': 'Fleet Doctor',
   'settings': 'Settings',
@@ -113,6 +117,9 @@ const PERMISSION_CATEGORIES: Record<string, string> = {
   'alerting': 'Alerting',
   'scheduled_queries': 'Scheduled Queries',
   'data_health': 'Data Health',
+  'dashboards': 'Dashboards',
+  'change_requests': 'Change Requests',
+  'backups': 'Backups',
 };
 
 const getPermissionCategory = (permission: string): string => {
@@ -145,6 +152,7 @@ export const RbacRolesTable: React.FC<RbacRolesTableProps> = ({
   const [deleteRoleId, setDeleteRoleId] = useState<string | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [editingRole, setEditingRole] = useState<RbacRole | null>(null);
+  const [quotaRole, setQuotaRole] = useState<RbacRole | null>(null);
 
   // Query
   const { data: roles = [], isLoading, isFetching, refetch } = useQuery({
@@ -370,6 +378,15 @@ export const RbacRolesTable: React.FC<RbacRolesTableProps> = ({
                                   Edit role
                                 </DropdownMenuItem>
                               )}
+                              {canUpdate && (
+                                <DropdownMenuItem
+                                  onClick={() => setQuotaRole(role)}
+                                  className="cursor-pointer hover:bg-ink-200"
+                                >
+                                  <Gauge className="mr-2 h-4 w-4" />
+                                  Query quota
+                                </DropdownMenuItem>
+                              )}
                               {canUpdate && canDelete && !role.isSystem && <DropdownMenuSeparator className="bg-ink-500" />}
                               {canDelete && !role.isSystem && (
                                 <DropdownMenuItem
@@ -496,6 +513,9 @@ export const RbacRolesTable: React.FC<RbacRolesTableProps> = ({
           if (onEditRole && editingRole) onEditRole(editingRole);
         }}
       />
+
+      {/* Query Quota Dialog */}
+      <RoleQuotaDialog role={quotaRole} onClose={() => setQuotaRole(null)} />
     </div>
   );
 };
@@ -0,0 +1,169 @@
+/**
+ * RoleQuotaDialog — resource guardrails of a role. Per-query limits are sent
+ * to ClickHouse as settings with every query its users run; the daily budgets
+ * refuse further queries until the next UTC day. Empty fields are unlimited.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Gauge, Loader2 } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { rbacRolesApi, type RbacRole, type RoleQueryQuota } from '@/api/rbac';
+
+// ============================================
+// Fields
+// ============================================
+
+type QuotaField = keyof RoleQueryQuota;
+
+const GIB = 1024 ** 3;
+
+const FIELDS: { key: QuotaField; label: string; unit: string; scale: number; hint: string }[] = [
+  { key: 'maxExecutionTime', label: 'Max execution time', unit: 'seconds', scale: 1, hint: 'max_execution_time' },
+  { key: 'maxMemoryUsage', label: 'Max memory per query', unit: 'GiB', scale: GIB, hint: 'max_memory_usage' },
+  { key: 'maxResultRows', label: 'Max result rows', unit: 'rows', scale: 1, hint: 'max_result_rows' },
+  { key: 'maxBytesToRead', label: 'Max data read per query', unit: 'GiB', scale: GIB, hint: 'max_bytes_to_read' },
+  { key: 'dailyQueryLimit', label: 'Daily query budget', unit: 'queries', scale: 1, hint: 'per user, per UTC day' },
+  { key: 'dailyBytesLimit', label: 'Daily data read budget', unit: 'GiB', scale: GIB, hint: 'per user, per UTC day' },
+];
+
+type Drafts = Record<QuotaField, string>;
+
+function toDrafts(quota?: RoleQueryQuota): Drafts {
+  const drafts = {} as Drafts;
+  for (const { key, scale } of FIELDS) {
+    const value = quota?.[key];
+    drafts[key] = value === null || value === undefined ? '' : String(Number((value / scale).toFixed(3)));
+  }
+  return drafts;
+}
+
+function fromDrafts(drafts: Drafts): RoleQueryQuota | null {
+  const quota = {} as RoleQueryQuota;
+  for (const { key, scale } of FIELDS) {
+    const raw = drafts[key].trim();
+    if (!raw) {
+      quota[key] = null;
+      continue;
+    }
+    const value = Math.round(Number(raw) * scale);
+    if (!Number.isFinite(value) || value <= 0) return null;
+    quota[key] = value;
+  }
+  return quota;
+}
+
+// ============================================
+// Component
+// ============================================
+
+interface RoleQuotaDialogProps {
+  role: RbacRole | null;
+  onClose: () => void;
+}
+
+export const RoleQuotaDialog: React.FC<RoleQuotaDialogProps> = ({ role, onClose }) => {
+  const queryClient = useQueryClient();
+  const [drafts, setDrafts] = useState<Drafts>(toDrafts());
+
+  const { data: quota, isLoading } = useQuery({
+    queryKey: ['rbac-role-quota', role?.id],
+    queryFn: () => rbacRolesApi.getQuota(role!.id),
+    enabled: !!role,
+  });
+
+  useEffect(() => {
+    setDrafts(toDrafts(quota));
+  }, [quota, role?.id]);
+
+  const saveMutation = useMutation({
+    mutationFn: (input: RoleQueryQuota) => rbacRolesApi.setQuota(role!.id, input),
+    onSuccess: () => {
+      toast.success(`Saved query quota for ${role?.displayName}`);
+      queryClient.invalidateQueries({ queryKey: ['rbac-role-quota', role?.id] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to save query quota: ${error.message}`);
+    },
+  });
+
+  const parsed = fromDrafts(drafts);
+
+  return (
+    <Dialog open={!!role} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg rounded-xs border-ink-500 bg-ink-100">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-paper">
+            <Gauge className="h-4 w-4 text-paper-dim" aria-hidden />
+            Query quota — {role?.displayName}
+          </DialogTitle>
+          <DialogDescription className="text-paper-muted">
+            Limits applied to every query run by users with this role. Leave a field empty for no limit.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-4 w-4 animate-spin text-paper-dim" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            {FIELDS.map(({ key, label, unit, hint }) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`quota-${key}`} className="font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim">
+                  {label}
+                </Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id={`quota-${key}`}
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={drafts[key]}
+                    onChange={(e) => setDrafts((prev) => ({ ...prev, [key]: e.target.value }))}
+                    placeholder="Unlimited"
+                    className="h-8 rounded-xs border-ink-500 bg-ink-200 font-mono text-[12px] text-paper placeholder:text-paper-faint"
+                  />
+                  <span className="w-14 shrink-0 font-mono text-[10px] text-paper-faint">{unit}</span>
+                </div>
+                <p className="font-mono text-[10px] text-paper-faint">{hint}</p>
+              </div>
+            ))}
+          </div>
+        )}
+        {!parsed && <p className="text-[12px] text-red-400">Limits must be positive numbers.</p>}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="rounded-xs border-ink-500 bg-transparent text-paper hover:border-ink-700 hover:bg-ink-200"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => parsed && saveMutation.mutate(parsed)}
+            disabled={!parsed || isLoading || saveMutation.isPending}
+            className="gap-2 rounded-xs bg-brand text-ink-50 hover:bg-brand-soft disabled:opacity-60"
+          >
+            {saveMutation.isPending && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+            Save quota
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
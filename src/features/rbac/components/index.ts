@@ -7,3 +7,5 @@
 export { RbacRolesTable } from './RbacRolesTable';
 export { RbacAuditLogs } from './RbacAuditLogs';
 export { RoleFormDialog } from './RoleFormDialog';
+export { RoleQuotaDialog } from './RoleQuotaDialog';
+export { ApiKeyDialog, API_KEYS_QUERY_KEY } from './ApiKeyDialog';
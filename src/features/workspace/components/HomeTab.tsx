@@ -1,6 +1,7 @@
 import { useMemo } from "react";
 import { useWorkspaceStore, genTabId, useAuthStore, useRbacStore, RBAC_PERMISSIONS } from "@/stores";
 import { useSavedQueries } from "@/hooks";
+import type { SavedQuery } from "@/api";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { ArrowRight, Clock, FilePlus, Save } from "lucide-react";
@@ -23,12 +24,14 @@ const HomeTab = () => {
       .reverse();
   }, [tabs]);
 
-  const handleOpenSavedQuery = (query: { id: string; name: string; query: string }) => {
+  const handleOpenSavedQuery = (query: SavedQuery) => {
     addTab({
       id: query.id,
       type: "sql",
       title: query.name,
       content: query.query,
+      queryParams: query.parameters ?? undefined,
+      chartConfig: query.chartConfig ?? undefined,
       isSaved: true,
     });
   };
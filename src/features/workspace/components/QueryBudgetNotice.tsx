@@ -0,0 +1,58 @@
+/**
+ * QueryBudgetNotice — warns in the SQL action strip once the user has used
+ * most of a daily query or bytes-read budget set on their role, before the
+ * server starts refusing their queries. Renders nothing otherwise.
+ */
+
+import React, { useEffect, useRef } from "react";
+import { Gauge } from "lucide-react";
+
+import { useQueryUsage } from "@/hooks";
+import { cn, formatBytes } from "@/lib/utils";
+
+interface QueryBudgetNoticeProps {
+  /** Whether a query is running in the tab; usage is refetched when it finishes */
+  isRunning: boolean;
+}
+
+const QueryBudgetNotice: React.FC<QueryBudgetNoticeProps> = ({ isRunning }) => {
+  const { data: status, refetch } = useQueryUsage();
+  const wasRunning = useRef(isRunning);
+
+  useEffect(() => {
+    if (wasRunning.current && !isRunning) void refetch();
+    wasRunning.current = isRunning;
+  }, [isRunning, refetch]);
+
+  if (!status?.nearLimit) return null;
+
+  const { quota, usage } = status;
+  const parts: string[] = [];
+  if (quota.dailyQueryLimit !== null) {
+    parts.push(`${usage.queryCount.toLocaleString()} / ${quota.dailyQueryLimit.toLocaleString()} queries`);
+  }
+  if (quota.dailyBytesLimit !== null) {
+    parts.push(`${formatBytes(usage.bytesRead) || "0 Bytes"} / ${formatBytes(quota.dailyBytesLimit)} read`);
+  }
+  const exhausted = Math.max(status.queryRatio ?? 0, status.bytesRatio ?? 0) >= 1;
+  const resetsAt = new Date(status.resetsAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+  return (
+    <div
+      role="status"
+      title={`Daily budget of your role — resets at ${resetsAt}`}
+      className={cn(
+        "mr-2 flex shrink-0 items-center gap-1.5 rounded-xs border px-2 py-0.5 font-mono text-[10px] uppercase tracking-[0.14em]",
+        exhausted
+          ? "border-red-900/50 bg-red-950/30 text-red-300"
+          : "border-amber-900/40 bg-amber-950/30 text-amber-300"
+      )}
+    >
+      <Gauge className="h-3 w-3 shrink-0" aria-hidden />
+      <span>{exhausted ? "Budget used up" : "Near daily budget"}</span>
+      <span className="normal-case tracking-normal opacity-80">{parts.join(" · ")}</span>
+    </div>
+  );
+};
+
+export default QueryBudgetNotice;
@@ -0,0 +1,117 @@
+/**
+ * QueryParamsPanel — one typed input per ClickHouse `{name:Type}` placeholder
+ * found in the editor (or passed in, e.g. a dashboard's shared filters).
+ * Renders nothing when there are no placeholders.
+ * Values are bound server-side as `query_params`, so they are never escaped or
+ * spliced into the SQL here.
+ */
+
+import React, { useMemo } from "react";
+import { Braces } from "lucide-react";
+
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  extractQueryParams,
+  queryParamInputKind,
+  toClickHouseDateTime,
+  toDateTimeLocal,
+  type QueryParamDef,
+} from "@/lib/queryParams";
+
+const INPUT_CLASS = "h-7 w-44 rounded-xs border-ink-500 bg-ink-200 px-2 font-mono text-[12px]";
+
+interface QueryParamsPanelProps {
+  sql?: string;
+  /** Placeholders to show; defaults to the ones found in `sql` */
+  params?: QueryParamDef[];
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+}
+
+const ParamInput: React.FC<{
+  param: QueryParamDef;
+  value: string;
+  onChange: (value: string) => void;
+}> = ({ param, value, onChange }) => {
+  const id = `query-param-${param.name}`;
+
+  switch (queryParamInputKind(param.type)) {
+    case "boolean":
+      return (
+        <Select value={value} onValueChange={onChange}>
+          <SelectTrigger id={id} className={INPUT_CLASS}>
+            <SelectValue placeholder="—" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true">true</SelectItem>
+            <SelectItem value="false">false</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    case "date":
+      return <Input id={id} type="date" value={value} onChange={(e) => onChange(e.target.value)} className={INPUT_CLASS} />;
+    case "datetime":
+      return (
+        <Input
+          id={id}
+          type="datetime-local"
+          step={1}
+          value={toDateTimeLocal(value)}
+          onChange={(e) => onChange(toClickHouseDateTime(e.target.value))}
+          className={INPUT_CLASS}
+        />
+      );
+    case "number":
+      return (
+        <Input id={id} type="number" step="any" value={value} onChange={(e) => onChange(e.target.value)} className={INPUT_CLASS} />
+      );
+    default:
+      return (
+        <Input
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={param.type}
+          className={INPUT_CLASS}
+        />
+      );
+  }
+};
+
+const QueryParamsPanel: React.FC<QueryParamsPanelProps> = ({ sql = "", params: paramsProp, values, onChange }) => {
+  const extracted = useMemo(() => extractQueryParams(sql), [sql]);
+  const params = paramsProp ?? extracted;
+
+  if (params.length === 0) return null;
+
+  return (
+    <div
+      className="flex flex-shrink-0 flex-wrap items-end gap-x-4 gap-y-2 border-b border-ink-500 bg-ink-100 px-3 py-2"
+      aria-label="Query parameters"
+    >
+      <Braces className="mb-1.5 h-3.5 w-3.5 shrink-0 text-paper-faint" aria-hidden />
+      {params.map((param) => (
+        <label key={param.name} htmlFor={`query-param-${param.name}`} className="flex flex-col gap-1">
+          <span className="font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim">
+            {param.name}
+            <span className="ml-1.5 normal-case tracking-normal text-paper-faint">{param.type}</span>
+          </span>
+          <ParamInput
+            param={param}
+            value={values[param.name] ?? ""}
+            onChange={(value) => onChange({ ...values, [param.name]: value })}
+          />
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default QueryParamsPanel;
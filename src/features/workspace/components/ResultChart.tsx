@@ -0,0 +1,151 @@
+/**
+ * ResultChart — chart view of a query result, shown next to the results grid.
+ * Axes default to the same inference the AI `render_chart` tool uses; the
+ * toolbar lets the user pin a chart type and axes, which are stored on the tab
+ * (and with the saved query).
+ */
+
+import React, { useMemo } from "react";
+import { AreaChart, BarChart3, ChevronDown, LineChart, PieChart, RotateCcw, ScatterChart } from "lucide-react";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { AiChartRenderer } from "@/components/common/AiChartRenderer";
+import { buildResultChartSpec, RESULT_CHART_MAX_ROWS, resolveYAxes } from "@/components/common/AiChartUtils";
+import type { QueryMeta, SavedQueryChartConfig, SavedQueryChartType } from "@/api";
+import { cn } from "@/lib/utils";
+
+const CHART_TYPES: { value: SavedQueryChartType; label: string; icon: React.ElementType }[] = [
+  { value: "line", label: "Line", icon: LineChart },
+  { value: "bar", label: "Bar", icon: BarChart3 },
+  { value: "area", label: "Area", icon: AreaChart },
+  { value: "pie", label: "Pie", icon: PieChart },
+  { value: "scatter", label: "Scatter", icon: ScatterChart },
+];
+
+const LABEL_CLASS = "font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim";
+const CONTROL_CLASS = "h-7 rounded-xs border-ink-500 bg-ink-200 px-2 font-mono text-[11px]";
+
+interface ResultChartProps {
+  columns: QueryMeta[];
+  rows: Record<string, unknown>[];
+  config: SavedQueryChartConfig;
+  onChange: (config: SavedQueryChartConfig) => void;
+}
+
+const ResultChart: React.FC<ResultChartProps> = ({ columns, rows, config, onChange }) => {
+  const spec = useMemo(() => buildResultChartSpec(columns, rows, config), [columns, rows, config]);
+  const yAxes = resolveYAxes(spec.yAxis);
+
+  const toggleYAxis = (name: string, checked: boolean) => {
+    const next = checked ? [...yAxes, name] : yAxes.filter((axis) => axis !== name);
+    onChange({ ...config, yAxis: next.length > 0 ? next : undefined });
+  };
+
+  return (
+    <div className="flex h-full flex-col overflow-hidden">
+      <div className="flex flex-shrink-0 flex-wrap items-center gap-x-4 gap-y-2 border-b border-ink-500 bg-ink-100 px-3 py-2">
+        <div className="flex items-center rounded-xs border border-ink-500" role="radiogroup" aria-label="Chart type">
+          {CHART_TYPES.map(({ value, label, icon: Icon }) => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              aria-checked={config.chartType === value}
+              title={label}
+              onClick={() => onChange({ ...config, chartType: value })}
+              className={cn(
+                "flex items-center gap-1.5 px-2 py-1 font-mono text-[10px] uppercase tracking-[0.14em] transition-colors",
+                config.chartType === value
+                  ? "bg-brand text-ink-50"
+                  : "text-paper-dim hover:bg-ink-200 hover:text-paper"
+              )}
+            >
+              <Icon className="h-3.5 w-3.5" aria-hidden />
+              <span className="hidden lg:inline">{label}</span>
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2">
+          <span className={LABEL_CLASS}>X</span>
+          <Select value={spec.xAxis} onValueChange={(xAxis) => onChange({ ...config, xAxis })}>
+            <SelectTrigger className={cn(CONTROL_CLASS, "w-40")}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {columns.map((col) => (
+                <SelectItem key={col.name} value={col.name}>
+                  {col.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </label>
+
+        <div className="flex items-center gap-2">
+          <span className={LABEL_CLASS}>Y</span>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button type="button" className={cn(CONTROL_CLASS, "flex max-w-56 items-center gap-2 border text-paper")}>
+                <span className="truncate">{yAxes.join(", ")}</span>
+                <ChevronDown className="h-3 w-3 shrink-0 opacity-60" aria-hidden />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              {columns
+                .filter((col) => col.name !== spec.xAxis)
+                .map((col) => (
+                  <DropdownMenuCheckboxItem
+                    key={col.name}
+                    checked={yAxes.includes(col.name)}
+                    onCheckedChange={(checked) => toggleYAxis(col.name, checked === true)}
+                    onSelect={(e) => e.preventDefault()}
+                    className="font-mono text-[11px]"
+                  >
+                    {col.name}
+                    <span className="ml-2 text-paper-faint">{col.type}</span>
+                  </DropdownMenuCheckboxItem>
+                ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+
+        {(config.xAxis || config.yAxis) && (
+          <button
+            type="button"
+            onClick={() => onChange({ chartType: config.chartType })}
+            className="flex items-center gap-1.5 font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim hover:text-paper"
+            title="Infer axes from the result columns"
+          >
+            <RotateCcw className="h-3 w-3" aria-hidden />
+            Auto axes
+          </button>
+        )}
+
+        {rows.length > RESULT_CHART_MAX_ROWS && (
+          <span className="ml-auto font-mono text-[10px] text-paper-faint">
+            Plotting first {RESULT_CHART_MAX_ROWS.toLocaleString()} of {rows.length.toLocaleString()} rows
+          </span>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto px-3 pb-3">
+        <AiChartRenderer spec={spec} />
+      </div>
+    </div>
+  );
+};
+
+export default ResultChart;
@@ -29,6 +29,9 @@ import {
 import DownloadDialog from "@/components/common/DownloadDialog";
 import EmptyQueryResult from "./EmptyQueryResult";
 import StatisticsDisplay from "./StatisticsDisplay";
+import QueryParamsPanel from "./QueryParamsPanel";
+import QueryBudgetNotice from "./QueryBudgetNotice";
+import ResultChart from "./ResultChart";
 import ExplainTab from "./ExplainTab";
 import { DebugQueryDialog } from "@/components/common/DebugQueryDialog";
 import { OptimizeQueryDialog } from "@/components/common/OptimizeQueryDialog";
@@ -36,7 +39,7 @@ import { OptimizeQueryDialog } from "@/components/common/OptimizeQueryDialog";
 // Store and Hooks
 import { useWorkspaceStore, useRbacStore, RBAC_PERMISSIONS, usePreferencesStore } from "@/stores";
 import { useDatabases, useConfig } from "@/hooks";
-import { queryApi } from "@/api";
+import { queryApi, type SavedQueryChartConfig } from "@/api";
 import type { QueryOptimization } from "@/api/ai";
 
 // ── Platform-aware keyboard hint helpers ────────────────────────────────────
@@ -70,6 +73,8 @@ interface IRow {
   [key: string]: unknown;
 }
 
+const DEFAULT_RESULT_CHART: SavedQueryChartConfig = { chartType: "bar" };
+
 // Format values for TanStack table (same as DataSampleSection)
 const formatCellValue = (value: unknown): { html: string; className?: string; type?: string } => {
   if (value === null || value === undefined) {
@@ -132,7 +137,8 @@ const SqlTab: React.FC<SqlTabProps> = ({ tabId }) => {
   // Using refetch to handle side effects
   const { refetch: refetchDatabases } = useDatabases();
   const tab = getTabById(tabId);
-  const [activeTab, setActiveTab] = useState<string>("results");
+  // Saved queries with a chart configured reopen on the chart view
+  const [activeTab, setActiveTab] = useState<string>(tab?.chartConfig ? "chart" : "results");
 
   // Ref to the SQL editor — used by the hint strip to invoke editor actions
   const editorRef = useRef<SqlEditorHandle>(null);
@@ -153,6 +159,8 @@ const SqlTab: React.FC<SqlTabProps> = ({ tabId }) => {
   const [explainType, setExplainType] = useState<ExplainType>('plan');
   const [explainRefreshKey, setExplainRefreshKey] = useState(0);
   const lastExplainQueryRef = useRef<string>('');
+  // The SELECT behind the current result, for server-side exports
+  const lastRunQueryRef = useRef<string>('');
 
   // Debugger state
   const [isDebugDialogOpen, setIsDebugDialogOpen] = useState(false);
@@ -232,7 +240,10 @@ const SqlTab: React.FC<SqlTabProps> = ({ tabId }) => {
     async (query: string) => {
       setExplainPlan(null);
       setExplainError(null);
-      setActiveTab("results");
+      // Re-running keeps the chart view so parameter tweaks redraw in place
+      setActiveTab((current) => (current === "chart" ? "chart" : "results"));
+
+      lastRunQueryRef.current = queryApi.detectQueryType(query) === "select" ? query : "";
 
       // Save valid query for debugging context if needed later
       setDebugQueryString(query);
@@ -494,6 +505,29 @@ const SqlTab: React.FC<SqlTabProps> = ({ tabId }) => {
     );
   };
 
+  const handleResultTabChange = (value: string) => {
+    if (value === "chart" && !tab?.chartConfig) {
+      updateTab(tabId, { chartConfig: DEFAULT_RESULT_CHART });
+    }
+    setActiveTab(value);
+  };
+
+  const renderChartResults = () => {
+    if (!tab?.result?.meta.length || !rowData.length) {
+      return tab?.result?.statistics ? (
+        <EmptyQueryResult statistics={tab.result.statistics} />
+      ) : null;
+    }
+    return (
+      <ResultChart
+        columns={tab.result.meta}
+        rows={rowData}
+        config={tab.chartConfig ?? DEFAULT_RESULT_CHART}
+        onChange={(chartConfig) => updateTab(tabId, { chartConfig })}
+      />
+    );
+  };
+
   const renderStatisticsResults = () => {
     if (!tab?.result?.statistics) return null;
     return <StatisticsDisplay statistics={tab.result.statistics} />;
@@ -571,7 +605,7 @@ const SqlTab: React.FC<SqlTabProps> = ({ tabId }) => {
     return (
       <Tabs
         value={activeTab}
-        onValueChange={setActiveTab}
+        onValueChange={handleResultTabChange}
         className="h-full flex flex-col"
       >
         <TabsList className="h-9 w-full justify-start rounded-none border-b border-ink-500 bg-ink-100 px-3">
@@ -580,7 +614,7 @@ const SqlTab: React.FC<SqlTabProps> = ({ tabId }) => {
             {hasData && (
               <span className="ml-2 flex items-center gap-2 text-paper-faint">
                 <span>({resultData.length} rows)</span>
-                <DownloadDialog data={resultData} trigger={
+                <DownloadDialog data={resultData} query={lastRunQueryRef.current} queryParams={tab?.queryParams} trigger={
                   <Button variant="ghost" size="icon" className="h-5 w-5 rounded-xs p-0 text-paper-dim hover:bg-ink-300 hover:text-paper">
                     <Download className="h-3 w-3" />
                   </Button>
@@ -588,6 +622,9 @@ const SqlTab: React.FC<SqlTabProps> = ({ tabId }) => {
               </span>
             )}
           </TabsTrigger>
+          <TabsTrigger value="chart" className="rounded-none border-x border-t border-transparent px-3 font-mono text-[11px] uppercase tracking-[0.14em] text-paper-dim data-[state=active]:border-ink-500 data-[state=active]:bg-ink-50 data-[state=active]:text-paper">
+            Chart
+          </TabsTrigger>
           <TabsTrigger value="statistics" className="rounded-none border-x border-t border-transparent px-3 font-mono text-[11px] uppercase tracking-[0.14em] text-paper-dim data-[state=active]:border-ink-500 data-[state=active]:bg-ink-50 data-[state=active]:text-paper">
             Statistics
           </TabsTrigger>
@@ -621,6 +658,9 @@ const SqlTab: React.FC<SqlTabProps> = ({ tabId }) => {
           <TabsContent value="results" className="h-full m-0 flex flex-col overflow-hidden w-full data-[state=inactive]:hidden absolute inset-0">
             {renderResultsTab()}
           </TabsContent>
+          <TabsContent value="chart" className="absolute inset-0 m-0 h-full overflow-hidden bg-ink-50 data-[state=inactive]:hidden">
+            {renderChartResults()}
+          </TabsContent>
           <TabsContent value="statistics" className="absolute inset-0 m-0 h-full overflow-auto bg-ink-50 p-4 data-[state=inactive]:hidden">
             {renderStatisticsResults()}
           </TabsContent>
@@ -761,8 +801,16 @@ const SqlTab: React.FC<SqlTabProps> = ({ tabId }) => {
               )}
 
               <div className="min-w-2 flex-1" />
+              <QueryBudgetNotice isRunning={!!tab?.isLoading} />
             </div>
 
+            {/* Inputs for {name:Type} placeholders in the editor */}
+            <QueryParamsPanel
+              sql={typeof tab.content === "string" ? tab.content : ""}
+              values={tab.queryParams ?? {}}
+              onChange={(queryParams) => updateTab(tabId, { queryParams })}
+            />
+
             {/* Results */}
             <div className="flex-1 overflow-hidden">
               {renderResults()}
@@ -10,6 +10,7 @@ import { log } from "@/lib/log";
 import { formatClickHouseSQL } from "@/lib/formatSql";
 import SchemaSection from "./SchemaSection";
 import DataSampleSection from "./DataSampleSection";
+import LineageSection from "./LineageSection";
 
 interface InfoTabProps {
   database: string;
@@ -150,6 +151,12 @@ const InfoTab: React.FC<InfoTabProps> = ({ database, tableName }) => {
               >
                 Data Sample
               </TabsTrigger>
+              <TabsTrigger
+                value="lineage"
+                className="rounded-xs px-3 py-1.5 font-mono text-[11px] uppercase tracking-[0.14em] transition-colors data-[state=active]:bg-ink-200 data-[state=active]:text-paper data-[state=inactive]:text-paper-dim hover:text-paper"
+              >
+                Lineage
+              </TabsTrigger>
             </>
           )}
         </TabsList>
@@ -271,6 +278,10 @@ const InfoTab: React.FC<InfoTabProps> = ({ database, tableName }) => {
             <TabsContent value="sample" className="mt-4">
               <DataSampleSection database={database} tableName={tableName} />
             </TabsContent>
+
+            <TabsContent value="lineage" className="mt-4">
+              <LineageSection database={database} tableName={tableName} />
+            </TabsContent>
           </>
         )}
       </Tabs>
@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { ReactFlowProvider } from "reactflow";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useTableLineage } from "@/hooks";
+import { LineageCanvas, LINEAGE_WINDOW_OPTIONS } from "@/features/lineage/LineageCanvas";
+
+/**
+ * Lineage around one table: materialized views, Distributed tables,
+ * dictionaries, INSERT … SELECT traffic and scheduled jobs that touch it.
+ */
+const LineageSection = ({
+  database,
+  tableName,
+}: {
+  database: string;
+  tableName: string;
+}) => {
+  const [windowDays, setWindowDays] = useState<number>(14);
+  const { data: graph, isLoading, error } = useTableLineage(database, tableName, windowDays);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim">
+          Views, dictionaries, inserts and jobs around {database}.{tableName}
+        </p>
+        <Select value={String(windowDays)} onValueChange={(v) => setWindowDays(Number(v))}>
+          <SelectTrigger className="h-8 w-36 rounded-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {LINEAGE_WINDOW_OPTIONS.map((d) => <SelectItem key={d} value={String(d)}>Last {d} days</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="relative h-[480px] overflow-hidden rounded-xs border border-ink-500 bg-ink-50">
+        {isLoading ? (
+          <div className="flex h-full items-center justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-paper-dim" />
+          </div>
+        ) : error ? (
+          <div className="flex h-full items-center justify-center px-6">
+            <p className="font-mono text-[11px] uppercase tracking-[0.18em] text-red-400">{error.message}</p>
+          </div>
+        ) : !graph || graph.nodes.length === 0 ? (
+          <div className="flex h-full items-center justify-center px-6 text-center">
+            <p className="text-[12px] text-paper-dim">{graph?.note ?? "No lineage observed for this table."}</p>
+          </div>
+        ) : (
+          <ReactFlowProvider>
+            <LineageCanvas graph={graph} focusId={`table:${graph.focusTable}`} />
+          </ReactFlowProvider>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LineageSection;
@@ -45,6 +45,7 @@ import {
 import { useSavedQueries, useKillQuery } from "@/hooks";
 import { cn } from "@/lib/utils";
 import { log } from "@/lib/log";
+import { collectFolders, parseTags } from "@/lib/savedQueryOrganization";
 
 export interface SqlEditorHandle {
   format: () => void;
@@ -122,6 +123,8 @@ const SQLEditor = React.forwardRef<SqlEditorHandle, SQLEditorProps>(function SQL
   const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
   const [saveMode, setSaveMode] = useState<SaveMode>("save");
   const [queryName, setQueryName] = useState("");
+  const [queryFolder, setQueryFolder] = useState("");
+  const [queryTags, setQueryTags] = useState("");
   const [isSaving, setIsSaving] = useState(false);
 
 
@@ -171,6 +174,8 @@ const SQLEditor = React.forwardRef<SqlEditorHandle, SQLEditorProps>(function SQL
     );
   }, [queryName, savedQueries, tabId]);
 
+  const folderSuggestions = useMemo(() => collectFolders(savedQueries), [savedQueries]);
+
   const getCurrentQuery = useCallback(() => {
     if (monacoRef.current) {
       const selection = monacoRef.current.getSelection();
@@ -549,6 +554,11 @@ const SQLEditor = React.forwardRef<SqlEditorHandle, SQLEditorProps>(function SQL
 
     setSaveMode(mode);
 
+    // Save and Save As keep the query's current folder and tags
+    const current = tab?.isSaved ? savedQueries.find((q) => q.id === tabId) : undefined;
+    setQueryFolder(current?.folder ?? "");
+    setQueryTags(current?.tags?.join(", ") ?? "");
+
     if (mode === "save" && tab?.isSaved) {
       setQueryName(tab.title);
     } else if (mode === "save-as") {
@@ -586,13 +596,15 @@ const SQLEditor = React.forwardRef<SqlEditorHandle, SQLEditorProps>(function SQL
       return;
     }
 
+    const organization = { folder: queryFolder.trim() || null, tags: parseTags(queryTags) };
+
     setIsSaving(true);
     try {
       if (saveMode === "save" && tab?.isSaved) {
-        await updateSavedQuery(tabId, query, queryName.trim());
+        await updateSavedQuery(tabId, query, queryName.trim(), organization);
         lastSavedContentRef.current = query;
       } else {
-        await saveQuery(tabId, queryName.trim(), query);
+        await saveQuery(tabId, queryName.trim(), query, false, organization);
         lastSavedContentRef.current = query;
       }
       setIsSaveDialogOpen(false);
@@ -714,6 +726,32 @@ const SQLEditor = React.forwardRef<SqlEditorHandle, SQLEditorProps>(function SQL
                 </span>
               </div>
             )}
+
+            <Input
+              type="text"
+              placeholder="Folder, e.g. Finance/Revenue (optional)"
+              value={queryFolder}
+              onChange={(e) => setQueryFolder(e.target.value)}
+              onKeyDown={handleQueryNameKeyDown}
+              list="saved-query-folders"
+              aria-label="Folder"
+              className="h-9 rounded-xs border-ink-500 bg-ink-200 font-mono text-[12px] text-paper placeholder:text-paper-faint focus-visible:border-brand focus-visible:ring-0"
+            />
+            <datalist id="saved-query-folders">
+              {folderSuggestions.map((folder) => (
+                <option key={folder} value={folder} />
+              ))}
+            </datalist>
+
+            <Input
+              type="text"
+              placeholder="Tags, comma-separated (optional)"
+              value={queryTags}
+              onChange={(e) => setQueryTags(e.target.value)}
+              onKeyDown={handleQueryNameKeyDown}
+              aria-label="Tags"
+              className="h-9 rounded-xs border-ink-500 bg-ink-200 font-mono text-[12px] text-paper placeholder:text-paper-faint focus-visible:border-brand focus-visible:ring-0"
+            />
           </div>
 
           <DialogFooter className="gap-2 sm:gap-0">
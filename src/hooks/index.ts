@@ -11,10 +11,13 @@ export {
   useDatabases,
   useTableDetails,
   useTableSample,
+  useTableLineage,
   useCreateDatabase,
   useDropDatabase,
   useCreateTable,
   useDropTable,
+  useCreateDictionary,
+  useReloadDictionary,
   useSystemStats,
   useRecentQueries,
   useSavedQueries,
@@ -22,7 +25,10 @@ export {
   useSaveQuery,
   useUpdateSavedQuery,
   useDeleteSavedQuery,
+  useSavedQueryRevisions,
+  useRestoreSavedQueryRevision,
   useIntellisense,
+  useQueryUsage,
   useExecuteQuery,
   useInvalidateAll,
   usePrefetchTableDetails,
@@ -39,6 +45,7 @@ export {
   useClusterNames,
   useTopTables,
   usePartsPressure,
+  useDiskForecast,
 } from './useQuery';
 
 // Auth hooks
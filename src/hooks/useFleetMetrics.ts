@@ -19,6 +19,7 @@ import {
   type FleetLastExceptionRow,
   type FleetSnapshotsResponse,
   type FleetConnectionSnapshot,
+  type DiskForecast,
 } from "@/api";
 import type { ClickHouseConnection } from "@/api/rbac";
 
@@ -284,6 +285,24 @@ export function useFleetSnapshots(
   });
 }
 
+/**
+ * Projected disk fill dates for every node the user can view, fetched once
+ * for the whole grid. Cards pick their own connection's entries.
+ */
+export function useFleetDiskForecasts(
+  options?: Partial<UseQueryOptions<DiskForecast[], Error>>,
+) {
+  return useQuery({
+    queryKey: ["fleet", "disk-forecast"] as const,
+    queryFn: fleetApi.fetchDiskForecasts,
+    refetchInterval: 5 * 60_000,
+    refetchIntervalInBackground: false,
+    retry: false,
+    staleTime: 5 * 60_000,
+    ...options,
+  });
+}
+
 /**
  * Compute whether a per-connection snapshot is fresh enough to render
  * without falling back to a live fetch.
@@ -0,0 +1,122 @@
+/**
+ * Tests for the pattern regression ranking and by-user cost attribution in
+ * Monitoring timeline hooks
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  attributeUserCosts,
+  rankRegressions,
+  sortRegressions,
+  type ByRbacUserRow,
+  type PatternWindowStats,
+} from './useMonitoringTimeline';
+
+const MB = 1024 * 1024;
+
+const stats = (over: Partial<PatternWindowStats> = {}): PatternWindowStats => ({
+  executions: 10,
+  p50_duration_ms: 500,
+  p95_duration_ms: 1000,
+  p50_memory: 100 * MB,
+  p95_memory: 200 * MB,
+  p50_read_bytes: 500 * MB,
+  p95_read_bytes: 1000 * MB,
+  sample: {
+    query_id: 'q',
+    query: 'SELECT 1',
+    event_time: '2026-10-19 10:00:00',
+    user: 'default',
+    type: 'QueryFinish',
+    query_duration_ms: 1000,
+    memory_usage: 200 * MB,
+    read_rows: 1,
+    read_bytes: 1000 * MB,
+  },
+  ...over,
+});
+
+describe('rankRegressions', () => {
+  it('keeps only patterns that got slower or heavier, worst first', () => {
+    const ranked = rankRegressions([
+      { pattern: 'steady', current: stats(), baseline: stats() },
+      { pattern: 'slower', current: stats({ p95_duration_ms: 1500 }), baseline: stats() },
+      { pattern: 'heavier', current: stats({ p95_memory: 800 * MB }), baseline: stats() },
+    ]);
+
+    expect(ranked.map((r) => r.pattern)).toEqual(['heavier', 'slower']);
+    expect(ranked[0].worst_metric).toBe('memory');
+    expect(ranked[0].worst_ratio).toBe(4);
+    expect(ranked[1].ratios.duration).toBe(1.5);
+  });
+
+  it('floors tiny baselines so noise does not rank', () => {
+    const ranked = rankRegressions([
+      {
+        pattern: 'tiny',
+        current: stats({ p95_duration_ms: 9, p95_memory: MB, p95_read_bytes: 4096 }),
+        baseline: stats({ p95_duration_ms: 2, p95_memory: 0, p95_read_bytes: 0 }),
+      },
+    ]);
+
+    expect(ranked).toEqual([]);
+  });
+});
+
+describe('sortRegressions', () => {
+  it('re-ranks by a single metric', () => {
+    const ranked = rankRegressions([
+      { pattern: 'slower', current: stats({ p95_duration_ms: 3000 }), baseline: stats() },
+      { pattern: 'heavier', current: stats({ p95_read_bytes: 2000 * MB }), baseline: stats() },
+    ]);
+
+    expect(sortRegressions(ranked, 'read_bytes').map((r) => r.pattern)).toEqual(['heavier', 'slower']);
+    expect(sortRegressions(ranked, 'worst').map((r) => r.pattern)).toEqual(['slower', 'heavier']);
+  });
+});
+
+describe('attributeUserCosts', () => {
+  const row = (rbac_user_id: string): ByRbacUserRow => ({
+    rbac_user_id,
+    executions: 12,
+    failures: 1,
+    total_duration_ms: 60_000,
+    avg_duration_ms: 5000,
+    cpu_seconds: 42,
+    avg_memory: 10 * MB,
+    max_memory: 80 * MB,
+    total_read_rows: 1000,
+    total_read_bytes: 500 * MB,
+  });
+
+  it('labels rows with the user name and role display names', () => {
+    const [ana] = attributeUserCosts(
+      [row('u1')],
+      [
+        {
+          id: 'u1',
+          username: 'ana',
+          email: 'ana@example.com',
+          displayName: 'Ana Lima',
+          roles: ['analyst', 'custom'],
+          rolesMetadata: [{ name: 'analyst', displayName: 'Analyst' }],
+        },
+      ]
+    );
+
+    expect(ana).toMatchObject({
+      user_label: 'Ana Lima',
+      user_email: 'ana@example.com',
+      roles: ['Analyst', 'custom'],
+      resolved: true,
+      cpu_seconds: 42,
+    });
+  });
+
+  it('keeps unknown users with a short id', () => {
+    const [unknown] = attributeUserCosts([row('7d1e2f3a-0000-4000-8000-000000000000')], []);
+
+    expect(unknown).toMatchObject({ user_label: 'Unknown · 7d1e2f3a', roles: [], resolved: false });
+    expect(unknown.executions).toBe(12);
+  });
+});
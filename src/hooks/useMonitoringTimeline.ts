@@ -318,6 +318,219 @@ export function useQueryPatterns(
   });
 }
 
+/** One execution picked to stand for a pattern inside a window (its slowest run). */
+export interface PatternSample {
+  query_id: string;
+  query: string;
+  event_time: string;
+  user: string;
+  type: string;
+  query_duration_ms: number;
+  memory_usage: number;
+  read_rows: number;
+  read_bytes: number;
+}
+
+export interface PatternWindowStats {
+  executions: number;
+  p50_duration_ms: number;
+  p95_duration_ms: number;
+  p50_memory: number;
+  p95_memory: number;
+  p50_read_bytes: number;
+  p95_read_bytes: number;
+  sample: PatternSample;
+}
+
+export type RegressionMetric = "duration" | "memory" | "read_bytes";
+
+export interface QueryPatternRegression {
+  pattern: string;
+  current: PatternWindowStats;
+  baseline: PatternWindowStats;
+  /** p95 current / baseline per metric (baseline floored, see REGRESSION_FLOORS). */
+  ratios: Record<RegressionMetric, number>;
+  worst_metric: RegressionMetric;
+  worst_ratio: number;
+}
+
+export type QueryRegressionSort = "worst" | RegressionMetric;
+
+/** Both windows need at least this many runs of a pattern before it's compared. */
+export const REGRESSION_MIN_RUNS = 3;
+
+/** Below this p95 ratio a pattern counts as noise, not a regression. */
+export const REGRESSION_MIN_RATIO = 1.1;
+
+/**
+ * Baseline floors per metric — a 2ms → 9ms or 0 B → 4 KB move is a huge ratio
+ * but nothing anyone should chase, so tiny baselines are lifted to these.
+ */
+const REGRESSION_FLOORS: Record<RegressionMetric, number> = {
+  duration: 50,
+  memory: 16 * 1024 * 1024,
+  read_bytes: 16 * 1024 * 1024,
+};
+
+const P95_KEY: Record<RegressionMetric, keyof PatternWindowStats> = {
+  duration: "p95_duration_ms",
+  memory: "p95_memory",
+  read_bytes: "p95_read_bytes",
+};
+
+/**
+ * Score current vs baseline and keep the patterns that got slower or heavier,
+ * worst first.
+ */
+export function rankRegressions(
+  rows: Array<Pick<QueryPatternRegression, "pattern" | "current" | "baseline">>
+): QueryPatternRegression[] {
+  const metrics = Object.keys(REGRESSION_FLOORS) as RegressionMetric[];
+  const scored = rows.map((row) => {
+    const ratios = {} as Record<RegressionMetric, number>;
+    let worst_metric: RegressionMetric = "duration";
+    for (const m of metrics) {
+      const cur = row.current[P95_KEY[m]] as number;
+      const base = Math.max(row.baseline[P95_KEY[m]] as number, REGRESSION_FLOORS[m]);
+      ratios[m] = cur / base;
+      if (ratios[m] > ratios[worst_metric]) worst_metric = m;
+    }
+    return { ...row, ratios, worst_metric, worst_ratio: ratios[worst_metric] };
+  });
+  return sortRegressions(
+    scored.filter((r) => r.worst_ratio >= REGRESSION_MIN_RATIO),
+    "worst"
+  );
+}
+
+/** Re-rank by the worst ratio or by a single metric's p95 ratio. */
+export function sortRegressions(
+  rows: QueryPatternRegression[],
+  sortBy: QueryRegressionSort
+): QueryPatternRegression[] {
+  const ratio = (r: QueryPatternRegression) =>
+    sortBy === "worst" ? r.worst_ratio : r.ratios[sortBy];
+  return [...rows].sort((a, b) => ratio(b) - ratio(a));
+}
+
+/** Same window, `offsetHours` earlier — the baseline side of a regression check. */
+function baselineWindowWhere(hoursBack: number, offsetHours: number, range?: AbsoluteRange): string {
+  if (range) {
+    return `event_time >= toDateTime('${range.start}') - INTERVAL ${offsetHours} HOUR AND event_time <= toDateTime('${range.end}') - INTERVAL ${offsetHours} HOUR`;
+  }
+  return `event_time >= now() - INTERVAL ${hoursBack + offsetHours} HOUR AND event_time < now() - INTERVAL ${offsetHours} HOUR`;
+}
+
+const SAMPLE_FIELDS: Array<keyof PatternSample> = [
+  "query_id",
+  "query",
+  "event_time",
+  "user",
+  "type",
+  "query_duration_ms",
+  "memory_usage",
+  "read_rows",
+  "read_bytes",
+];
+
+function windowColumns(prefix: "cur" | "base", flag: string): string {
+  const quantiles = [
+    ["duration_ms", "query_duration_ms"],
+    ["memory", "memory_usage"],
+    ["read_bytes", "read_bytes"],
+  ].flatMap(([alias, col]) => [
+    `quantileIf(0.5)(${col}, ${flag}) AS ${prefix}_p50_${alias}`,
+    `quantileIf(0.95)(${col}, ${flag}) AS ${prefix}_p95_${alias}`,
+  ]);
+  const samples = SAMPLE_FIELDS.map(
+    (f) => `argMaxIf(${f}, query_duration_ms, ${flag}) AS ${prefix}_sample_${f}`
+  );
+  return [`countIf(${flag}) AS ${prefix}_executions`, ...quantiles, ...samples].join(",\n          ");
+}
+
+function readWindow(row: Record<string, unknown>, prefix: "cur" | "base"): PatternWindowStats {
+  const sample = (f: keyof PatternSample) => row[`${prefix}_sample_${f}`];
+  return {
+    executions: num(row[`${prefix}_executions`]),
+    p50_duration_ms: num(row[`${prefix}_p50_duration_ms`]),
+    p95_duration_ms: num(row[`${prefix}_p95_duration_ms`]),
+    p50_memory: num(row[`${prefix}_p50_memory`]),
+    p95_memory: num(row[`${prefix}_p95_memory`]),
+    p50_read_bytes: num(row[`${prefix}_p50_read_bytes`]),
+    p95_read_bytes: num(row[`${prefix}_p95_read_bytes`]),
+    sample: {
+      query_id: String(sample("query_id") ?? ""),
+      query: String(sample("query") ?? ""),
+      event_time: String(sample("event_time") ?? ""),
+      user: String(sample("user") ?? ""),
+      type: String(sample("type") ?? ""),
+      query_duration_ms: num(sample("query_duration_ms")),
+      memory_usage: num(sample("memory_usage")),
+      read_rows: num(sample("read_rows")),
+      read_bytes: num(sample("read_bytes")),
+    },
+  };
+}
+
+/**
+ * Pattern regressions — the Patterns rollup run over two windows (the current
+ * one and the same span `baselineOffsetHours` earlier, default a week) in a
+ * single scan, comparing p50/p95 duration, memory and read bytes per
+ * normalizeQuery() shape. Only patterns seen in both windows are compared; the
+ * slowest run of each window is kept as a sample for Compare / optimize.
+ */
+export function useQueryPatternRegressions(
+  hoursBack: number = 6,
+  baselineOffsetHours: number = 168,
+  customRange?: AbsoluteRange,
+  options?: Partial<UseQueryOptions<QueryPatternRegression[], Error>>
+) {
+  const { activeConnectionId } = useAuthStore();
+
+  return useQuery({
+    queryKey: [
+      "queryPatternRegressions",
+      hoursBack,
+      baselineOffsetHours,
+      customRange?.start ?? null,
+      customRange?.end ?? null,
+      activeConnectionId,
+    ] as const,
+    queryFn: async () => {
+      const current = timeWindowWhere(hoursBack, customRange);
+      const baseline = baselineWindowWhere(hoursBack, baselineOffsetHours, customRange);
+      const sql = `
+        SELECT
+          pattern,
+          ${windowColumns("cur", "in_current")},
+          ${windowColumns("base", "NOT in_current")}
+        FROM (
+          SELECT
+            normalizeQuery(query) AS pattern,
+            (${current}) AS in_current,
+            ${SAMPLE_FIELDS.join(", ")}
+          FROM system.query_log
+          WHERE ((${current}) OR (${baseline}))
+            AND type IN ('QueryFinish', 'ExceptionWhileProcessing', 'ExceptionBeforeStart')
+            AND query != ''
+        )
+        GROUP BY pattern
+        HAVING cur_executions >= ${REGRESSION_MIN_RUNS} AND base_executions >= ${REGRESSION_MIN_RUNS}
+      `;
+      const result = await queryApi.executeQuery(sql);
+      return rankRegressions(
+        (result.data as Array<Record<string, unknown>>).map((row) => ({
+          pattern: String(row.pattern ?? ""),
+          current: readWindow(row, "cur"),
+          baseline: readWindow(row, "base"),
+        }))
+      );
+    },
+    staleTime: 30_000,
+    ...options,
+  });
+}
+
 export interface ByRedashRow {
   redash_query_id: string;        // numeric id pulled from /* … query_id: N … */
   redash_username: string;        // pulled from /* … Username: … */, anyLast
@@ -423,6 +636,220 @@ export function useQueryByRedashId(
   });
 }
 
+/**
+ * RBAC user a proxied query ran as. ClickHouseService stamps log_comment with
+ * {"rbac_user_id": "…"}; prefer the dedicated column and fall back to the
+ * Settings map, which some ClickHouse versions leave empty.
+ */
+const RBAC_USER_ID_SQL =
+  "JSONExtractString(if(log_comment != '', log_comment, Settings['log_comment']), 'rbac_user_id')";
+
+const sqlString = (v: string) => `'${v.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+
+export interface ByRbacUserRow {
+  rbac_user_id: string;
+  executions: number;
+  failures: number;               // ExceptionWhileProcessing + ExceptionBeforeStart
+  total_duration_ms: number;
+  avg_duration_ms: number;
+  cpu_seconds: number;            // ProfileEvents['OSCPUVirtualTimeMicroseconds']
+  avg_memory: number;
+  max_memory: number;
+  total_read_rows: number;
+  total_read_bytes: number;
+}
+
+export type ByRbacUserSort =
+  | "total_duration_ms"
+  | "executions"
+  | "failures"
+  | "cpu_seconds"
+  | "max_memory"
+  | "total_read_bytes";
+
+/**
+ * Aggregate queries by the CHouse (RBAC) user that ran them, read from the
+ * log_comment tag. Queries sent straight to ClickHouse carry no tag and are
+ * left out, so the result is purely "things run through CHouse". Pass
+ * `rbacUserId` to restrict the rollup to one user (non-admins see only
+ * themselves).
+ */
+export function useQueryByRbacUser(
+  hoursBack: number = 6,
+  sortBy: ByRbacUserSort = "total_duration_ms",
+  rbacUserId?: string,
+  customRange?: AbsoluteRange,
+  options?: Partial<UseQueryOptions<ByRbacUserRow[], Error>>
+) {
+  const { activeConnectionId } = useAuthStore();
+
+  return useQuery({
+    queryKey: [
+      "queryByRbacUser",
+      hoursBack,
+      sortBy,
+      rbacUserId ?? null,
+      customRange?.start ?? null,
+      customRange?.end ?? null,
+      activeConnectionId,
+    ] as const,
+    queryFn: async () => {
+      const sql = `
+        SELECT
+          ${RBAC_USER_ID_SQL} AS rbac_user_id,
+          count() AS executions,
+          countIf(type != 'QueryFinish') AS failures,
+          sum(query_duration_ms) AS total_duration_ms,
+          avg(query_duration_ms) AS avg_duration_ms,
+          sum(ProfileEvents['OSCPUVirtualTimeMicroseconds']) / 1000000 AS cpu_seconds,
+          avg(memory_usage) AS avg_memory,
+          max(memory_usage) AS max_memory,
+          sum(read_rows) AS total_read_rows,
+          sum(read_bytes) AS total_read_bytes
+        FROM system.query_log
+        WHERE ${timeWindowWhere(hoursBack, customRange)}
+          AND type IN ('QueryFinish', 'ExceptionWhileProcessing', 'ExceptionBeforeStart')
+        GROUP BY rbac_user_id
+        HAVING rbac_user_id != ''${rbacUserId ? ` AND rbac_user_id = ${sqlString(rbacUserId)}` : ""}
+        ORDER BY ${sortBy} DESC
+        LIMIT 1000
+      `;
+      const result = await queryApi.executeQuery(sql);
+      return (result.data as Array<Record<string, unknown>>).map((row) => ({
+        rbac_user_id: String(row.rbac_user_id ?? ""),
+        executions: num(row.executions),
+        failures: num(row.failures),
+        total_duration_ms: num(row.total_duration_ms),
+        avg_duration_ms: num(row.avg_duration_ms),
+        cpu_seconds: num(row.cpu_seconds),
+        avg_memory: num(row.avg_memory),
+        max_memory: num(row.max_memory),
+        total_read_rows: num(row.total_read_rows),
+        total_read_bytes: num(row.total_read_bytes),
+      }));
+    },
+    staleTime: 30_000,
+    ...options,
+  });
+}
+
+/** The identity fields of an RBAC user that the by-user rollup shows. */
+export interface RbacUserIdentity {
+  id: string;
+  username: string;
+  email: string;
+  displayName: string | null;
+  roles: string[];
+  rolesMetadata?: Array<{ name: string; displayName: string }>;
+}
+
+export interface AttributedUserCost extends ByRbacUserRow {
+  user_label: string;
+  user_email: string;
+  roles: string[];
+  /** False when the id matches no known user (deleted, or not visible to the viewer). */
+  resolved: boolean;
+}
+
+/**
+ * Join by-user rollup rows to RBAC users. Role names use their display name
+ * when known. Unresolved ids keep a short id as the label so their cost still
+ * shows up in the totals and the export.
+ */
+export function attributeUserCosts(
+  rows: ByRbacUserRow[],
+  users: RbacUserIdentity[]
+): AttributedUserCost[] {
+  const byId = new Map(users.map((u) => [u.id, u]));
+  return rows.map((row) => {
+    const u = byId.get(row.rbac_user_id);
+    if (!u) {
+      return { ...row, user_label: `Unknown · ${row.rbac_user_id.slice(0, 8)}`, user_email: "", roles: [], resolved: false };
+    }
+    const roleNames = new Map((u.rolesMetadata ?? []).map((r) => [r.name, r.displayName]));
+    return {
+      ...row,
+      user_label: u.displayName || u.username || u.email,
+      user_email: u.email,
+      roles: u.roles.map((r) => roleNames.get(r) || r),
+      resolved: true,
+    };
+  });
+}
+
+export interface RbacUserPatternRow {
+  pattern: string;
+  executions: number;
+  failures: number;
+  total_duration_ms: number;
+  avg_duration_ms: number;
+  cpu_seconds: number;
+  max_memory: number;
+  total_read_bytes: number;
+  sample_query_id: string;
+}
+
+/**
+ * One CHouse user's heaviest normalizeQuery() shapes in the window — the
+ * drill-down under a by-user row. Ranked by total duration.
+ */
+export function useRbacUserPatterns(
+  rbacUserId: string | null,
+  hoursBack: number = 6,
+  customRange?: AbsoluteRange,
+  options?: Partial<UseQueryOptions<RbacUserPatternRow[], Error>>
+) {
+  const { activeConnectionId } = useAuthStore();
+
+  return useQuery({
+    queryKey: [
+      "rbacUserPatterns",
+      rbacUserId,
+      hoursBack,
+      customRange?.start ?? null,
+      customRange?.end ?? null,
+      activeConnectionId,
+    ] as const,
+    enabled: !!rbacUserId,
+    queryFn: async () => {
+      const sql = `
+        SELECT
+          normalizeQuery(query) AS pattern,
+          count() AS executions,
+          countIf(type != 'QueryFinish') AS failures,
+          sum(query_duration_ms) AS total_duration_ms,
+          avg(query_duration_ms) AS avg_duration_ms,
+          sum(ProfileEvents['OSCPUVirtualTimeMicroseconds']) / 1000000 AS cpu_seconds,
+          max(memory_usage) AS max_memory,
+          sum(read_bytes) AS total_read_bytes,
+          anyLast(query_id) AS sample_query_id
+        FROM system.query_log
+        WHERE ${timeWindowWhere(hoursBack, customRange)}
+          AND type IN ('QueryFinish', 'ExceptionWhileProcessing', 'ExceptionBeforeStart')
+          AND query != ''
+          AND ${RBAC_USER_ID_SQL} = ${sqlString(rbacUserId ?? "")}
+        GROUP BY pattern
+        ORDER BY total_duration_ms DESC
+        LIMIT 25
+      `;
+      const result = await queryApi.executeQuery(sql);
+      return (result.data as Array<Record<string, unknown>>).map((row) => ({
+        pattern: String(row.pattern ?? ""),
+        executions: num(row.executions),
+        failures: num(row.failures),
+        total_duration_ms: num(row.total_duration_ms),
+        avg_duration_ms: num(row.avg_duration_ms),
+        cpu_seconds: num(row.cpu_seconds),
+        max_memory: num(row.max_memory),
+        total_read_bytes: num(row.total_read_bytes),
+        sample_query_id: String(row.sample_query_id ?? ""),
+      }));
+    },
+    staleTime: 30_000,
+    ...options,
+  });
+}
+
 export interface ProfileEventEntry {
   name: string;
   value: number;
@@ -785,8 +1212,15 @@ export interface MutationRow {
   latest_failed_part: string;
   latest_fail_reason: string;
   latest_fail_time: string;
+  /** Parts the table's mutations rewrote per minute over the recent window (0 if none / no part_log). */
+  parts_per_minute: number;
+  /** Seconds until parts_to_do reaches 0 at that rate; null when done or stalled. */
+  eta_seconds: number | null;
 }
 
+/** Recent-throughput window for mutation ETAs. */
+const MUTATION_RATE_WINDOW_MINUTES = 15;
+
 /**
  * ALTER … UPDATE/DELETE mutations from system.mutations. Anything still in
  * flight or finished in the last 7 days. Surfaces stuck mutations (high
@@ -834,20 +1268,51 @@ export function useMutations(
         LIMIT 500
       `;
       const result = await queryApi.executeQuery(sql);
-      return (result.data as Array<Record<string, unknown>>).map((row) => ({
-        database: String(row.database ?? ""),
-        table: String(row.table ?? ""),
-        mutation_id: String(row.mutation_id ?? ""),
-        command: String(row.command ?? ""),
-        create_time: String(row.create_time_str ?? ""),
-        parts_to_do: num(row.parts_to_do),
-        total_parts: num(row.total_parts),
-        is_done: num(row.is_done),
-        is_killed: num(row.is_killed),
-        latest_failed_part: String(row.latest_failed_part ?? ""),
-        latest_fail_reason: String(row.latest_fail_reason ?? ""),
-        latest_fail_time: String(row.latest_fail_time_str ?? ""),
-      }));
+
+      // ETA from recent throughput: MutatePart events per table, measured from
+      // the first one in the window so a mutation that started a minute ago
+      // isn't diluted by the idle rest of it. part_log can be disabled, in
+      // which case every ETA is unknown rather than the view failing.
+      const partsPerMinute = new Map<string, number>();
+      try {
+        const rate = await queryApi.executeQuery(`
+          SELECT
+            database,
+            table,
+            count() * 60 / greatest(60, dateDiff('second', min(event_time), now())) AS parts_per_minute
+          FROM system.part_log
+          WHERE event_type = 'MutatePart'
+            AND event_time >= now() - INTERVAL ${MUTATION_RATE_WINDOW_MINUTES} MINUTE
+          GROUP BY database, table
+        `);
+        for (const row of rate.data as Array<Record<string, unknown>>) {
+          partsPerMinute.set(`${row.database}.${row.table}`, num(row.parts_per_minute));
+        }
+      } catch {
+        // no part_log
+      }
+
+      return (result.data as Array<Record<string, unknown>>).map((row) => {
+        const partsToDo = num(row.parts_to_do);
+        const isDone = num(row.is_done);
+        const rate = partsPerMinute.get(`${row.database}.${row.table}`) ?? 0;
+        return {
+          database: String(row.database ?? ""),
+          table: String(row.table ?? ""),
+          mutation_id: String(row.mutation_id ?? ""),
+          command: String(row.command ?? ""),
+          create_time: String(row.create_time_str ?? ""),
+          parts_to_do: partsToDo,
+          total_parts: num(row.total_parts),
+          is_done: isDone,
+          is_killed: num(row.is_killed),
+          latest_failed_part: String(row.latest_failed_part ?? ""),
+          latest_fail_reason: String(row.latest_fail_reason ?? ""),
+          latest_fail_time: String(row.latest_fail_time_str ?? ""),
+          parts_per_minute: rate,
+          eta_seconds: !isDone && partsToDo > 0 && rate > 0 ? (partsToDo / rate) * 60 : null,
+        };
+      });
     },
     staleTime: 30_000,
     ...options,
@@ -2117,3 +2582,82 @@ export function useDistributedDDLQueue(
     ...options,
   });
 }
+
+// ============================================
+// Dictionaries (Monitoring → Dictionaries tab)
+// ============================================
+
+export interface DictionaryRow {
+  /** Empty for dictionaries defined in server config */
+  database: string;
+  name: string;
+  /** NOT_LOADED, LOADED, FAILED, LOADING, FAILED_AND_RELOADING, LOADED_AND_RELOADING, NOT_EXIST */
+  status: string;
+  origin: string;
+  layout: string;
+  source: string;
+  lifetime_min: number;
+  lifetime_max: number;
+  element_count: number;
+  bytes_allocated: number;
+  loading_duration: number;
+  last_successful_update_time: string;
+  /** Epoch seconds; 0 when it never loaded */
+  last_successful_update_ts: number;
+  last_exception: string;
+}
+
+/**
+ * Every dictionary the server knows (DDL and config) from system.dictionaries,
+ * failing ones first. Reading the table does not trigger loading.
+ */
+export function useDictionaries(
+  options?: Partial<UseQueryOptions<DictionaryRow[], Error>>
+) {
+  const { activeConnectionId } = useAuthStore();
+  return useQuery({
+    queryKey: ["dictionaries", activeConnectionId] as const,
+    queryFn: async () => {
+      // _str suffix on the DateTime alias — CH 24.11 NO_COMMON_TYPE trap.
+      const sql = `
+        SELECT
+          database,
+          name,
+          toString(status) AS status,
+          origin,
+          type AS layout,
+          source,
+          lifetime_min,
+          lifetime_max,
+          element_count,
+          bytes_allocated,
+          loading_duration,
+          formatDateTime(last_successful_update_time, '%Y-%m-%d %H:%i:%S') AS last_successful_update_str,
+          toUnixTimestamp(last_successful_update_time) AS last_successful_update_ts,
+          substring(last_exception, 1, 1000) AS last_exception
+        FROM system.dictionaries
+        ORDER BY (last_exception != '' OR startsWith(toString(status), 'FAILED')) DESC, database, name
+      `;
+      const result = await queryApi.executeQuery(sql);
+      return (result.data as Array<Record<string, unknown>>).map((row) => ({
+        database: String(row.database ?? ""),
+        name: String(row.name ?? ""),
+        status: String(row.status ?? ""),
+        origin: String(row.origin ?? ""),
+        layout: String(row.layout ?? ""),
+        source: String(row.source ?? ""),
+        lifetime_min: num(row.lifetime_min),
+        lifetime_max: num(row.lifetime_max),
+        element_count: num(row.element_count),
+        bytes_allocated: num(row.bytes_allocated),
+        loading_duration: num(row.loading_duration),
+        last_successful_update_time:
+          num(row.last_successful_update_ts) > 0 ? String(row.last_successful_update_str ?? "") : "",
+        last_successful_update_ts: num(row.last_successful_update_ts),
+        last_exception: String(row.last_exception ?? ""),
+      }));
+    },
+    staleTime: 15_000,
+    ...options,
+  });
+}
@@ -22,9 +22,13 @@ import type {
   SystemStats,
   RecentQuery,
   SavedQuery,
+  SavedQueryRevision,
+  UpdateQueryInput,
   IntellisenseData,
+  QueryBudgetStatus,
   QueryResult,
   AppConfig,
+  DiskForecast,
 } from '@/api';
 
 
@@ -41,6 +45,8 @@ export const queryKeys = {
   tableDetails: (database: string, table: string) => ['tableDetails', database, table] as const,
   tableSample: (database: string, table: string, limit?: number) =>
     ['tableSample', database, table, limit] as const,
+  tableLineage: (database: string, table: string, windowDays: number) =>
+    ['tableLineage', database, table, windowDays] as const,
 
   // Metrics
   systemStats: (connectionId?: string) => ['systemStats', connectionId] as const,
@@ -48,13 +54,18 @@ export const queryKeys = {
   productionMetrics: (interval: number, connectionId?: string) => ['productionMetrics', interval, connectionId] as const,
   topTables: (limit: number, connectionId?: string) => ['topTables', limit, connectionId] as const,
   partsPressure: (interval: number, connectionId?: string) => ['partsPressure', interval, connectionId] as const,
+  diskForecast: (connectionId?: string) => ['diskForecast', connectionId] as const,
 
   // Saved Queries
   savedQueries: (connectionId?: string) => connectionId ? ['savedQueries', connectionId] as const : ['savedQueries'] as const,
   savedQueriesConnectionNames: ['savedQueriesConnectionNames'] as const,
+  savedQueryRevisions: (id: string) => ['savedQueries', 'revisions', id] as const,
 
   // Intellisense
   intellisense: ['intellisense'] as const,
+
+  // Query budget
+  queryUsage: ['queryUsage'] as const,
 } as const;
 
 // ============================================
@@ -127,6 +138,24 @@ export function useTableSample(
   });
 }
 
+/**
+ * Hook to fetch a table's lineage
+ */
+export function useTableLineage(
+  database: string,
+  table: string,
+  windowDays: number = 14,
+  options?: Partial<UseQueryOptions<explorerApi.TableLineageGraph, Error>>
+) {
+  return useQuery({
+    queryKey: queryKeys.tableLineage(database, table, windowDays),
+    queryFn: () => explorerApi.getTableLineage(database, table, windowDays),
+    enabled: !!database && !!table,
+    staleTime: 60000,
+    ...options,
+  });
+}
+
 /**
  * Hook to create a database
  */
@@ -184,6 +213,37 @@ export function useDropTable() {
   });
 }
 
+/**
+ * Hook to create a dictionary (or, with dryRun, render its statement)
+ */
+export function useCreateDictionary() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: explorerApi.createDictionary,
+    onSuccess: (_result, input) => {
+      if (!input.dryRun) queryClient.invalidateQueries({ queryKey: queryKeys.databases });
+    },
+  });
+}
+
+/**
+ * Hook to reload a dictionary (SYSTEM RELOAD DICTIONARY)
+ */
+export function useReloadDictionary() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ database, name }: { database: string; name: string }) =>
+      explorerApi.reloadDictionary(database, name),
+    // A failed reload still changes last_exception, so refresh either way
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.databases });
+      queryClient.invalidateQueries({ queryKey: ['dictionaries'] });
+    },
+  });
+}
+
 // ============================================
 // Metrics Hooks
 // ============================================
@@ -296,7 +356,7 @@ export function useUpdateSavedQuery(connectionId?: string) {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ id, input }: { id: string; input: { name?: string; query?: string; description?: string; isPublic?: boolean; connectionId?: string | null; connectionName?: string | null } }) =>
+    mutationFn: ({ id, input }: { id: string; input: UpdateQueryInput }) =>
       savedQueriesApi.updateSavedQuery(id, input),
     onSuccess: () => {
       // Invalidate both the specific connection query and the general query
@@ -309,6 +369,37 @@ export function useUpdateSavedQuery(connectionId?: string) {
   });
 }
 
+/**
+ * Hook to fetch the revision history of a saved query, newest first
+ */
+export function useSavedQueryRevisions(
+  id: string | undefined,
+  options?: Partial<UseQueryOptions<SavedQueryRevision[], Error>>
+) {
+  return useQuery({
+    queryKey: queryKeys.savedQueryRevisions(id ?? ''),
+    queryFn: () => savedQueriesApi.getSavedQueryRevisions(id!),
+    enabled: !!id,
+    ...options,
+  });
+}
+
+/**
+ * Hook to restore a saved query to an earlier revision
+ */
+export function useRestoreSavedQueryRevision() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, revisionId }: { id: string; revisionId: string }) =>
+      savedQueriesApi.restoreSavedQueryRevision(id, revisionId),
+    onSuccess: () => {
+      // Revision keys share the savedQueries prefix, so this refreshes history too
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedQueries() });
+    },
+  });
+}
+
 /**
  * Hook to delete a saved query
  */
@@ -346,6 +437,20 @@ export function useIntellisense(
   });
 }
 
+/**
+ * Hook to fetch today's query usage against the daily budgets of the user's role
+ */
+export function useQueryUsage(
+  options?: Partial<UseQueryOptions<QueryBudgetStatus, Error>>
+) {
+  return useQuery({
+    queryKey: queryKeys.queryUsage,
+    queryFn: queryApi.getQueryUsage,
+    staleTime: 60000, // Refetched after each query run; this is a fallback
+    ...options,
+  });
+}
+
 /**
  * Hook to execute a SQL query
  */
@@ -1227,6 +1332,27 @@ export function usePartsPressure(
   });
 }
 
+/**
+ * Hook to fetch projected disk fill dates for the active connection
+ */
+export function useDiskForecast(
+  options?: Partial<UseQueryOptions<DiskForecast[], Error>>
+) {
+  const { activeConnectionId, sessionId } = useAuthStore();
+  const hasConnection = !!(activeConnectionId && sessionId);
+
+  return useQuery({
+    queryKey: queryKeys.diskForecast(activeConnectionId || undefined),
+    queryFn: metricsApi.getDiskForecast,
+    enabled: hasConnection,
+    // History is sampled every 15 minutes server-side; no need to poll hard.
+    staleTime: 5 * 60_000,
+    retry: false,
+    refetchOnWindowFocus: false,
+    ...options,
+  });
+}
+
 /**
  * Hook to fetch users list
  */
@@ -62,6 +62,7 @@ export const MONITORING_ACCESS_PERMISSIONS: string[] = [
   RBAC_PERMISSIONS.SCHEMA_ADVISOR_VIEW,
   RBAC_PERMISSIONS.CLUSTER_VIEW,
   RBAC_PERMISSIONS.ERRORS_VIEW,
+  RBAC_PERMISSIONS.DICTIONARIES_VIEW,
 ];
 
 /** Having ANY of these reveals the Explorer page (route + nav entry). */
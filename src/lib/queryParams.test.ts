@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import {
+  extractQueryParams,
+  queryParamInputKind,
+  toClickHouseDateTime,
+  toDateTimeLocal,
+  pickQueryParams,
+} from "./queryParams";
+
+describe("extractQueryParams", () => {
+  it("returns distinct placeholders in order of first use", () => {
+    const sql =
+      "SELECT * FROM {tbl:Identifier} WHERE d >= {from:Date} AND d < {to: Date} AND id IN {ids:Array(UInt64)} OR d = {from:Date}";
+    expect(extractQueryParams(sql)).toEqual([
+      { name: "tbl", type: "Identifier" },
+      { name: "from", type: "Date" },
+      { name: "to", type: "Date" },
+      { name: "ids", type: "Array(UInt64)" },
+    ]);
+  });
+
+  it("ignores map literals and empty braces", () => {
+    expect(extractQueryParams("SELECT {'k': 1}, '{}' FROM t")).toEqual([]);
+  });
+
+  it("skips placeholder-like text in string literals and comments", () => {
+    const sql = "SELECT '{x:String}', 'a\\'{y:UInt8}' -- {z:Date}\nFROM t /* {w:UInt8} */ WHERE id = {id:UInt64}";
+    expect(extractQueryParams(sql)).toEqual([{ name: "id", type: "UInt64" }]);
+  });
+});
+
+describe("queryParamInputKind", () => {
+  it.each([
+    ["Date", "date"],
+    ["Date32", "date"],
+    ["DateTime", "datetime"],
+    ["DateTime64(3)", "datetime"],
+    ["UInt64", "number"],
+    ["Float32", "number"],
+    ["Decimal(18, 4)", "number"],
+    ["Nullable(Int32)", "number"],
+    ["LowCardinality(Nullable(String))", "text"],
+    ["Bool", "boolean"],
+    ["String", "text"],
+    ["Array(String)", "text"],
+  ])("maps %s to %s", (type, kind) => {
+    expect(queryParamInputKind(type)).toBe(kind);
+  });
+});
+
+describe("datetime conversion", () => {
+  it("round-trips between datetime-local and ClickHouse formats", () => {
+    expect(toClickHouseDateTime("2024-03-01T09:30")).toBe("2024-03-01 09:30:00");
+    expect(toClickHouseDateTime("2024-03-01T09:30:15")).toBe("2024-03-01 09:30:15");
+    expect(toDateTimeLocal("2024-03-01 09:30:15")).toBe("2024-03-01T09:30:15");
+  });
+});
+
+describe("pickQueryParams", () => {
+  it("returns undefined for queries without placeholders", () => {
+    expect(pickQueryParams("SELECT 1", { a: "1" })).toBeUndefined();
+  });
+
+  it("keeps only values used by the query", () => {
+    expect(pickQueryParams("SELECT {a:UInt8}", { a: "1", b: "x" })).toEqual({ a: "1" });
+  });
+
+  it("omits values that were never entered", () => {
+    expect(pickQueryParams("SELECT {a:UInt8}, {b:String}", { b: "" })).toEqual({ b: "" });
+  });
+});
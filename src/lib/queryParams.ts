@@ -0,0 +1,82 @@
+/**
+ * Helpers for ClickHouse-native `{name:Type}` query placeholders.
+ *
+ * The SQL text is sent unchanged; placeholder values travel separately as
+ * `queryParams` and are bound by ClickHouse, so nothing here escapes values.
+ */
+
+export interface QueryParamDef {
+  name: string;
+  type: string;
+}
+
+export type QueryParamInputKind = "text" | "number" | "date" | "datetime" | "boolean";
+
+// Same grammar as the server: the type may contain parentheses, e.g. Array(String).
+// Quoted strings, quoted identifiers and comments are matched first (no capture
+// groups) so placeholder-like text inside them is skipped.
+const PLACEHOLDER_REGEX =
+  /'(?:[^'\\]|\\[\s\S])*'|"(?:[^"\\]|\\[\s\S])*"|`(?:[^`\\]|\\[\s\S])*`|--[^\n]*|\/\*[\s\S]*?\*\/|\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*:\s*([^{}]+?)\s*\}/g;
+
+/**
+ * Distinct placeholders in order of first use. A name that appears twice keeps
+ * the type of its first occurrence.
+ */
+export function extractQueryParams(sql: string): QueryParamDef[] {
+  const seen = new Map<string, QueryParamDef>();
+  for (const [, name, type] of sql.matchAll(PLACEHOLDER_REGEX)) {
+    if (name !== undefined && !seen.has(name)) seen.set(name, { name, type });
+  }
+  return [...seen.values()];
+}
+
+/**
+ * Pick the input control for a ClickHouse type. Wrappers that do not change the
+ * editing experience (Nullable, LowCardinality) are looked through.
+ */
+export function queryParamInputKind(type: string): QueryParamInputKind {
+  let base = type.trim();
+  const wrapper = /^(?:Nullable|LowCardinality)\((.*)\)$/;
+  while (wrapper.test(base)) base = base.replace(wrapper, "$1").trim();
+
+  if (/^Date(32)?$/.test(base)) return "date";
+  if (/^DateTime(64)?(\(|$)/.test(base)) return "datetime";
+  if (/^(U?Int\d+|Float\d+|Decimal\d*)(\(|$)/.test(base)) return "number";
+  if (base === "Bool" || base === "Boolean") return "boolean";
+  return "text";
+}
+
+/**
+ * Convert an `<input type="datetime-local">` value to the `YYYY-MM-DD hh:mm:ss`
+ * form ClickHouse parses for DateTime parameters.
+ */
+export function toClickHouseDateTime(value: string): string {
+  if (!value) return value;
+  const [date, time = "00:00"] = value.split("T");
+  return `${date} ${time.length === 5 ? `${time}:00` : time}`;
+}
+
+/** Inverse of {@link toClickHouseDateTime}, for populating the input. */
+export function toDateTimeLocal(value: string): string {
+  return value.replace(" ", "T");
+}
+
+/**
+ * The values for the placeholders used by `sql`, or undefined when it has
+ * none. Values for placeholders that are not in `sql` (e.g. when running a
+ * selection) are dropped; missing ones are left for the server to reject.
+ */
+export function pickQueryParams(
+  sql: string,
+  values: Record<string, string> | undefined,
+): Record<string, string> | undefined {
+  const params = extractQueryParams(sql);
+  if (params.length === 0) return undefined;
+
+  const picked: Record<string, string> = {};
+  for (const { name } of params) {
+    const value = values?.[name];
+    if (value !== undefined) picked[name] = value;
+  }
+  return picked;
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import type { SavedQuery } from "@/api";
+import {
+  parseTags,
+  matchesSavedQuerySearch,
+  collectTags,
+  collectFolders,
+  buildSavedQueryTree,
+} from "./savedQueryOrganization";
+
+const makeQuery = (overrides: Partial<SavedQuery>): SavedQuery => ({
+  id: "q",
+  userId: "user-1",
+  connectionId: null,
+  connectionName: null,
+  name: "Query",
+  query: "SELECT 1",
+  description: null,
+  isPublic: false,
+  parameters: null,
+  chartConfig: null,
+  folder: null,
+  tags: [],
+  createdAt: "2024-01-01T00:00:00Z",
+  updatedAt: "2024-01-01T00:00:00Z",
+  ...overrides,
+});
+
+describe("parseTags", () => {
+  it("trims, drops blanks and de-duplicates case-insensitively", () => {
+    expect(parseTags(" daily, kpi ,, Daily")).toEqual(["daily", "kpi"]);
+  });
+});
+
+describe("matchesSavedQuerySearch", () => {
+  const query = makeQuery({
+    name: "Revenue by day",
+    description: "Finance dashboard source",
+    query: "SELECT sum(amount) FROM orders",
+    tags: ["kpi"],
+  });
+
+  it("requires every term to match name, description, SQL or tags", () => {
+    expect(matchesSavedQuerySearch(query, "ORDERS finance")).toBe(true);
+    expect(matchesSavedQuerySearch(query, "kpi revenue")).toBe(true);
+    expect(matchesSavedQuerySearch(query, "orders refunds")).toBe(false);
+  });
+
+  it("matches everything for a blank search", () => {
+    expect(matchesSavedQuerySearch(query, "  ")).toBe(true);
+  });
+});
+
+describe("collectTags / collectFolders", () => {
+  const queries = [
+    makeQuery({ folder: "Finance/Revenue", tags: ["kpi", "Daily"] }),
+    makeQuery({ folder: "Ops", tags: ["daily"] }),
+  ];
+
+  it("lists distinct tags in sorted order", () => {
+    expect(collectTags(queries)).toEqual(["Daily", "kpi"]);
+  });
+
+  it("includes ancestor folders", () => {
+    expect(collectFolders(queries)).toEqual(["Finance", "Finance/Revenue", "Ops"]);
+  });
+});
+
+describe("buildSavedQueryTree", () => {
+  it("nests queries under their folder path", () => {
+    const tree = buildSavedQueryTree([
+      makeQuery({ id: "a", folder: "Ops" }),
+      makeQuery({ id: "b", folder: "Finance/Revenue" }),
+      makeQuery({ id: "c" }),
+      makeQuery({ id: "d", folder: "Finance" }),
+    ]);
+
+    expect(tree.queries.map((q) => q.id)).toEqual(["c"]);
+    expect(tree.folders.map((f) => f.path)).toEqual(["Finance", "Ops"]);
+
+    const finance = tree.folders[0];
+    expect(finance.queries.map((q) => q.id)).toEqual(["d"]);
+    expect(finance.folders).toHaveLength(1);
+    expect(finance.folders[0]).toMatchObject({ name: "Revenue", path: "Finance/Revenue" });
+    expect(finance.folders[0].queries.map((q) => q.id)).toEqual(["b"]);
+  });
+});
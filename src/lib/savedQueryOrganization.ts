@@ -0,0 +1,93 @@
+/**
+ * Helpers for organizing saved queries by folder and tag in the sidebar.
+ *
+ * Folders are slash-separated paths stored on each query ("Finance/Revenue");
+ * there is no folder entity, so the tree is derived from the queries in view.
+ */
+
+import type { SavedQuery } from "@/api";
+
+export interface SavedQueryFolderNode {
+  /** Last path segment */
+  name: string;
+  /** Full path, e.g. "Finance/Revenue"; "" for the root */
+  path: string;
+  folders: SavedQueryFolderNode[];
+  queries: SavedQuery[];
+}
+
+/** Split a comma-separated tag input, dropping blanks and case-insensitive duplicates. */
+export function parseTags(input: string): string[] {
+  const seen = new Map<string, string>();
+  for (const part of input.split(",")) {
+    const tag = part.trim();
+    if (tag && !seen.has(tag.toLowerCase())) seen.set(tag.toLowerCase(), tag);
+  }
+  return [...seen.values()];
+}
+
+/**
+ * Case-insensitive match against name, description, SQL and tags. Every
+ * whitespace-separated term must appear somewhere.
+ */
+export function matchesSavedQuerySearch(query: SavedQuery, search: string): boolean {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const haystack = [query.name, query.description ?? "", query.query, ...(query.tags ?? [])]
+    .join("\n")
+    .toLowerCase();
+  return terms.every((term) => haystack.includes(term));
+}
+
+/** Distinct tags across `queries`, sorted, keeping the first spelling seen. */
+export function collectTags(queries: SavedQuery[]): string[] {
+  const seen = new Map<string, string>();
+  for (const query of queries) {
+    for (const tag of query.tags ?? []) {
+      if (!seen.has(tag.toLowerCase())) seen.set(tag.toLowerCase(), tag);
+    }
+  }
+  return [...seen.values()].sort((a, b) => a.localeCompare(b));
+}
+
+/** Every folder path in use, including ancestors, sorted. */
+export function collectFolders(queries: SavedQuery[]): string[] {
+  const folders = new Set<string>();
+  for (const { folder } of queries) {
+    if (!folder) continue;
+    const parts = folder.split("/");
+    for (let i = 1; i <= parts.length; i++) folders.add(parts.slice(0, i).join("/"));
+  }
+  return [...folders].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Build the folder tree for `queries`. Sub-folders sort by name; queries keep
+ * their incoming order (most recently updated first from the API).
+ */
+export function buildSavedQueryTree(queries: SavedQuery[]): SavedQueryFolderNode {
+  const root: SavedQueryFolderNode = { name: "", path: "", folders: [], queries: [] };
+  const nodes = new Map<string, SavedQueryFolderNode>([["", root]]);
+
+  const getNode = (path: string): SavedQueryFolderNode => {
+    const existing = nodes.get(path);
+    if (existing) return existing;
+
+    const slash = path.lastIndexOf("/");
+    const parent = getNode(slash === -1 ? "" : path.slice(0, slash));
+    const node: SavedQueryFolderNode = { name: path.slice(slash + 1), path, folders: [], queries: [] };
+    parent.folders.push(node);
+    nodes.set(path, node);
+    return node;
+  };
+
+  for (const query of queries) {
+    getNode(query.folder ?? "").queries.push(query);
+  }
+
+  for (const node of nodes.values()) {
+    node.folders.sort((a, b) => a.name.localeCompare(b.name));
+  }
+  return root;
+}
@@ -0,0 +1,149 @@
+/**
+ * Backups — BACKUP / RESTORE on the active connection over system.backups.
+ *
+ * The Backups tab lists every backup ClickHouse reports joined with the
+ * operations started here (live progress while running); the Schedules tab
+ * holds recurring backups. Starting backups and editing schedules needs
+ * backups:create, restoring needs backups:restore.
+ */
+
+import { useState } from "react";
+import { AlertCircle, ArchiveRestore, Loader2, Plus } from "lucide-react";
+import { toast } from "sonner";
+
+import type { BackupListEntry, BackupSchedule } from "@/api/backups";
+import ConfirmationDialog from "@/components/common/ConfirmationDialog";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useAuthStore, useRbacStore, RBAC_PERMISSIONS } from "@/stores";
+import {
+  BackupsTable,
+  RestoreDialog,
+  ScheduleDialog,
+  SchedulesTable,
+  StartBackupDialog,
+  useBackups,
+  useBackupSchedules,
+  useDeleteBackupSchedule,
+} from "@/features/backups";
+
+type Tab = "backups" | "schedules";
+
+export default function BackupsPage() {
+  const connectionId = useAuthStore((s) => s.activeConnectionId);
+  const connectionName = useAuthStore((s) => s.activeConnectionName);
+  const { hasPermission } = useRbacStore();
+  const canCreate = hasPermission(RBAC_PERMISSIONS.BACKUPS_CREATE);
+  const canRestore = hasPermission(RBAC_PERMISSIONS.BACKUPS_RESTORE);
+
+  const [tab, setTab] = useState<Tab>("backups");
+  const [startOpen, setStartOpen] = useState(false);
+  const [restoreEntry, setRestoreEntry] = useState<BackupListEntry | null>(null);
+  const [scheduleDialog, setScheduleDialog] = useState<{ schedule: BackupSchedule | null } | null>(null);
+  const [deleting, setDeleting] = useState<BackupSchedule | null>(null);
+
+  const backups = useBackups(connectionId);
+  const schedules = useBackupSchedules(connectionId);
+  const deleteSchedule = useDeleteBackupSchedule(connectionId);
+  const active = tab === "backups" ? backups : schedules;
+
+  const handleDelete = () => {
+    if (!deleting) return;
+    deleteSchedule.mutate(deleting.id, {
+      onSuccess: () => toast.success("Schedule deleted"),
+      onError: (err) => toast.error(`Failed to delete schedule: ${(err as Error).message}`),
+      onSettled: () => setDeleting(null),
+    });
+  };
+
+  return (
+    <div className="flex h-full w-full flex-col overflow-hidden bg-ink-50">
+      <header className="flex-none border-b border-ink-500 px-6 py-4">
+        <div className="flex items-center gap-3">
+          <span className="grid h-8 w-8 shrink-0 place-items-center rounded-xs border border-ink-500 bg-ink-100 text-paper-muted">
+            <ArchiveRestore className="h-3.5 w-3.5" aria-hidden />
+          </span>
+          <div className="flex flex-col gap-0">
+            <span className="font-mono text-[9px] uppercase tracking-[0.18em] text-paper-faint">
+              {connectionName ?? "No connection"}
+            </span>
+            <h1 className="text-[18px] font-semibold leading-tight tracking-tight text-paper">Backups</h1>
+          </div>
+          <div className="ml-4 flex gap-1" role="tablist">
+            {(["backups", "schedules"] as const).map((t) => (
+              <button
+                key={t}
+                type="button"
+                role="tab"
+                aria-selected={tab === t}
+                onClick={() => setTab(t)}
+                className={cn(
+                  "rounded-xs px-3 py-1.5 font-mono text-[11px] uppercase tracking-[0.14em] transition-colors",
+                  tab === t ? "bg-ink-300 text-paper" : "text-paper-muted hover:bg-ink-200 hover:text-paper",
+                )}
+              >
+                {t}
+              </button>
+            ))}
+          </div>
+          {canCreate && connectionId && (
+            <Button
+              onClick={() => (tab === "backups" ? setStartOpen(true) : setScheduleDialog({ schedule: null }))}
+              className="ml-auto h-9 gap-2 rounded-xs bg-brand px-4 font-mono text-[11px] font-semibold uppercase tracking-[0.14em] text-ink-50 hover:bg-brand-soft"
+            >
+              <Plus className="h-3.5 w-3.5" aria-hidden />
+              {tab === "backups" ? "New backup" : "New schedule"}
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="min-h-0 flex-1 overflow-auto">
+        {!connectionId ? (
+          <p className="p-6 text-center text-[13px] text-paper-muted">Connect to a server to manage its backups.</p>
+        ) : active.isLoading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-5 w-5 animate-spin text-paper-dim" />
+          </div>
+        ) : active.isError ? (
+          <div className="flex flex-col items-center gap-2 p-6 text-center">
+            <AlertCircle className="h-5 w-5 text-paper-faint" aria-hidden />
+            <p className="text-[13px] text-paper-muted">{(active.error as Error).message}</p>
+          </div>
+        ) : tab === "backups" ? (
+          <BackupsTable entries={backups.data ?? []} canRestore={canRestore} onRestore={setRestoreEntry} />
+        ) : (
+          <SchedulesTable
+            schedules={schedules.data ?? []}
+            canEdit={canCreate}
+            onEdit={(schedule) => setScheduleDialog({ schedule })}
+            onDelete={setDeleting}
+          />
+        )}
+      </main>
+
+      {connectionId && (
+        <>
+          <StartBackupDialog open={startOpen} connectionId={connectionId} onClose={() => setStartOpen(false)} />
+          <RestoreDialog entry={restoreEntry} connectionId={connectionId} onClose={() => setRestoreEntry(null)} />
+          <ScheduleDialog
+            open={scheduleDialog !== null}
+            connectionId={connectionId}
+            schedule={scheduleDialog?.schedule ?? null}
+            onClose={() => setScheduleDialog(null)}
+          />
+        </>
+      )}
+      <ConfirmationDialog
+        isOpen={deleting !== null}
+        onClose={() => setDeleting(null)}
+        onConfirm={handleDelete}
+        title="Delete backup schedule"
+        description={`Delete "${deleting?.name ?? ""}"? Backups it already took stay on the disk.`}
+        confirmText="Delete"
+        variant="danger"
+        isLoading={deleteSchedule.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+/**
+ * Change Requests — the approval queue for DDL/DML on protected connections.
+ *
+ * Master-detail like Dashboards: a rail of requests (filtered by status) on
+ * the left, the selected request on the right at /change-requests/:requestId.
+ * Approvers see every request; everyone else sees the ones they submitted.
+ */
+
+import { useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { AlertCircle, GitPullRequestArrow, Loader2 } from "lucide-react";
+
+import type { ChangeRequestStatus } from "@/api/changeRequests";
+import { cn } from "@/lib/utils";
+import { useRbacStore, RBAC_PERMISSIONS } from "@/stores";
+import { ChangeRequestView, StatusBadge, useChangeRequest, useChangeRequests } from "@/features/change-requests";
+
+const STATUS_FILTERS: Array<{ value: ChangeRequestStatus | "all"; label: string }> = [
+  { value: "pending", label: "Pending" },
+  { value: "executed", label: "Executed" },
+  { value: "failed", label: "Failed" },
+  { value: "rejected", label: "Rejected" },
+  { value: "all", label: "All" },
+];
+
+export default function ChangeRequestsPage() {
+  const { requestId } = useParams<{ requestId?: string }>();
+  const navigate = useNavigate();
+  const { hasPermission, user } = useRbacStore();
+  const canApprove = hasPermission(RBAC_PERMISSIONS.CHANGE_REQUESTS_APPROVE);
+
+  const [filter, setFilter] = useState<ChangeRequestStatus | "all">("pending");
+  const { data: requests = [], isLoading } = useChangeRequests(filter === "all" ? undefined : filter);
+  const { data: request, isError, error } = useChangeRequest(requestId);
+
+  return (
+    <div className="flex h-full w-full flex-col overflow-hidden bg-ink-50">
+      <header className="flex-none border-b border-ink-500 px-6 py-4">
+        <div className="flex items-center gap-3">
+          <span className="grid h-8 w-8 shrink-0 place-items-center rounded-xs border border-ink-500 bg-ink-100 text-paper-muted">
+            <GitPullRequestArrow className="h-3.5 w-3.5" aria-hidden />
+          </span>
+          <div className="flex flex-col gap-0">
+            <span className="font-mono text-[9px] uppercase tracking-[0.18em] text-paper-faint">Protected connections</span>
+            <h1 className="text-[18px] font-semibold leading-tight tracking-tight text-paper">Change requests</h1>
+          </div>
+          <select
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as ChangeRequestStatus | "all")}
+            aria-label="Status"
+            className="ml-auto h-9 rounded-xs border border-ink-500 bg-ink-200 px-2 text-[12px] text-paper focus:border-brand focus:outline-none"
+          >
+            {STATUS_FILTERS.map((f) => (
+              <option key={f.value} value={f.value}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </header>
+
+      <div className="flex flex-1 overflow-hidden">
+        <aside className="flex w-72 flex-none flex-col overflow-y-auto border-r border-ink-500">
+          {isLoading ? (
+            <div className="flex justify-center p-4">
+              <Loader2 className="h-4 w-4 animate-spin text-paper-dim" />
+            </div>
+          ) : requests.length === 0 ? (
+            <p className="p-4 text-[12px] text-paper-muted">No change requests.</p>
+          ) : (
+            <div className="space-y-0.5 p-1">
+              {requests.map((r) => (
+                <button
+                  key={r.id}
+                  type="button"
+                  onClick={() => navigate(`/change-requests/${r.id}`)}
+                  aria-current={r.id === requestId ? "page" : undefined}
+                  className={cn(
+                    "flex w-full flex-col gap-1 rounded-xs px-2.5 py-2 text-left transition-colors",
+                    r.id === requestId ? "bg-ink-300" : "hover:bg-ink-200"
+                  )}
+                >
+                  <span className="flex items-center gap-2">
+                    <span className="font-mono text-[11px] uppercase tracking-[0.12em] text-brand">{r.operationType}</span>
+                    <span className="truncate font-mono text-[12px] text-paper">
+                      {r.targetTable ? `${r.targetDatabase}.${r.targetTable}` : r.connectionName}
+                    </span>
+                    <span className="ml-auto">
+                      <StatusBadge status={r.status} />
+                    </span>
+                  </span>
+                  <span className="truncate text-[11px] text-paper-faint">
+                    {r.requesterName ?? "Unknown user"} · {r.connectionName ?? r.connectionId} ·{" "}
+                    {new Date(r.createdAt).toLocaleString()}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </aside>
+
+        <main className="min-w-0 flex-1 overflow-hidden">
+          {request ? (
+            <ChangeRequestView request={request} canApprove={canApprove} currentUserId={user?.id} />
+          ) : isError ? (
+            <div className="flex h-full flex-col items-center justify-center gap-2 text-center">
+              <AlertCircle className="h-5 w-5 text-paper-faint" aria-hidden />
+              <p className="text-[13px] text-paper-muted">{(error as Error).message}</p>
+            </div>
+          ) : requestId ? (
+            <div className="flex h-full items-center justify-center">
+              <Loader2 className="h-5 w-5 animate-spin text-paper-dim" />
+            </div>
+          ) : (
+            <div className="flex h-full flex-col items-center justify-center gap-3 text-center">
+              <GitPullRequestArrow className="h-6 w-6 text-paper-faint" aria-hidden />
+              <p className="max-w-sm text-[13px] text-paper-muted">
+                Schema and data changes on protected connections wait here until another user approves them.
+              </p>
+            </div>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,19 @@
 import { useEffect, useMemo, useState } from "react";
-import { Search, AlertTriangle, CheckCircle2, Network, Wrench, Activity, Layers, Database, Hourglass, Boxes, GitBranch, ServerCog, FlaskConical, type LucideIcon } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Search, AlertTriangle, CheckCircle2, Network, Wrench, Activity, Layers, Database, Hourglass, Boxes, GitBranch, ServerCog, FlaskConical, OctagonX, type LucideIcon } from "lucide-react";
+import { toast } from "sonner";
 
+import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import ConfirmationDialog from "@/components/common/ConfirmationDialog";
 import { SkeletonRows } from "@/components/common/Skeletons";
 import { PaginationBar } from "@/components/monitoring/PaginationBar";
 import { DdlSimulator } from "@/components/monitoring/DdlSimulator";
@@ -19,6 +31,8 @@ import {
   type DistributionQueueRow,
   type DistributedDDLRow,
 } from "@/hooks/useMonitoringTimeline";
+import { metricsApi } from "@/api";
+import { useRbacStore, RBAC_PERMISSIONS } from "@/stores";
 import { cn } from "@/lib/utils";
 
 function formatLagSeconds(seconds: number): string {
@@ -40,6 +54,9 @@ function formatBytes(bytes: number): string {
   return `${v >= 100 || i === 0 ? v.toFixed(0) : v.toFixed(1)} ${units[i]}`;
 }
 
+/** Kill-dialog choice for running KILL MUTATION on the connected server only. */
+const LOCAL_ONLY = "__local__";
+
 type ClusterView = "mutations" | "replication" | "topology" | "distribution" | "ddl" | "simulator";
 
 interface ClusterActivityPageProps {
@@ -125,7 +142,36 @@ export default function ClusterActivityPage({
   const replication = useReplicationQueue({ enabled: view === "replication" });
   const blockedSummary = useBlockedTaskSummary();
   const replicaStatus = useReplicaStatus({ enabled: view === "replication" });
-  const topology = useClusterTopology({ enabled: view === "topology" });
+  const { hasPermission } = useRbacStore();
+  const canKillMutations = hasPermission(RBAC_PERMISSIONS.MUTATIONS_KILL);
+  const [mutationToKill, setMutationToKill] = useState<MutationRow | null>(null);
+  const [killCluster, setKillCluster] = useState(LOCAL_ONLY);
+  // The kill dialog offers ON CLUSTER, so it needs the cluster names too
+  const topology = useClusterTopology({ enabled: view === "topology" || !!mutationToKill });
+  const clusterNames = useMemo(
+    () => Array.from(new Set((topology.data ?? []).map((r) => r.cluster))).sort(),
+    [topology.data]
+  );
+  const queryClient = useQueryClient();
+  const killMutation = useMutation({
+    mutationFn: (m: MutationRow) =>
+      metricsApi.killMutation({
+        database: m.database,
+        table: m.table,
+        mutationId: m.mutation_id,
+        cluster: killCluster === LOCAL_ONLY ? undefined : killCluster,
+      }),
+    onSuccess: (result) => {
+      toast.success("Mutation killed", {
+        description: result.cluster
+          ? `${result.mutation_id} stopped on ${result.hosts.length} host(s) of ${result.cluster}.`
+          : `${result.mutation_id} on ${result.database}.${result.table} stopped.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["mutations"] });
+      setMutationToKill(null);
+    },
+    onError: (e) => toast.error(e instanceof Error ? e.message : "Failed to kill mutation"),
+  });
   const distribution = useDistributionQueue({ enabled: view === "distribution" });
   const ddl = useDistributedDDLQueue({ enabled: view === "ddl" });
   const active =
@@ -412,7 +458,10 @@ export default function ClusterActivityPage({
             ) : totalRows === 0 ? (
               <EmptyState view={view} hasSearch={!!searchTerm} />
             ) : view === "mutations" ? (
-              <MutationsTable rows={paginatedRows as MutationRow[]} />
+              <MutationsTable
+                rows={paginatedRows as MutationRow[]}
+                onKill={canKillMutations ? (m) => { setKillCluster(LOCAL_ONLY); setMutationToKill(m); } : undefined}
+              />
             ) : view === "replication" ? (
               <ReplicationTable rows={paginatedRows as ReplicationQueueRow[]} />
             ) : view === "topology" ? (
@@ -448,6 +497,53 @@ export default function ClusterActivityPage({
           </>
         )}
       </div>
+
+      <ConfirmationDialog
+        isOpen={!!mutationToKill}
+        onClose={() => setMutationToKill(null)}
+        onConfirm={() => mutationToKill && killMutation.mutate(mutationToKill)}
+        title="Kill mutation"
+        description={
+          mutationToKill && (
+            <div className="space-y-3">
+              <p>
+                Stop mutation <span className="font-mono">{mutationToKill.mutation_id}</span> on{" "}
+                <span className="font-mono">{mutationToKill.database}.{mutationToKill.table}</span>?
+              </p>
+              <pre className="max-h-32 overflow-auto whitespace-pre-wrap rounded-xs border border-ink-500 bg-ink-200 p-2 font-mono text-[11px] text-paper">
+                {mutationToKill.command}
+              </pre>
+              <div className="rounded-xs border border-red-900/60 bg-red-950/40 p-3">
+                <p className="text-[13px] text-red-300">
+                  Parts already rewritten keep the change and the rest keep the old data, so the
+                  table is left partly mutated. The kill is recorded in the audit log.
+                </p>
+              </div>
+              {clusterNames.length > 0 && (
+                <div className="space-y-1.5">
+                  <Label htmlFor="kill-mutation-cluster">Run on</Label>
+                  <Select value={killCluster} onValueChange={setKillCluster}>
+                    <SelectTrigger id="kill-mutation-cluster">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={LOCAL_ONLY}>This server only</SelectItem>
+                      {clusterNames.map((name) => (
+                        <SelectItem key={name} value={name}>ON CLUSTER {name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-[12px] text-paper-faint">
+                    Use ON CLUSTER for replicated tables so every replica stops the mutation.
+                  </p>
+                </div>
+              )}
+            </div>
+          )
+        }
+        confirmText="Kill mutation"
+        isLoading={killMutation.isPending}
+      />
     </div>
   );
 }
@@ -497,19 +593,23 @@ function EmptyState({ view, hasSearch }: { view: ClusterView; hasSearch: boolean
 
 interface MutationsTableProps {
   rows: MutationRow[];
+  /** Offered on running mutations when set (the user holds mutations:kill). */
+  onKill?: (mutation: MutationRow) => void;
 }
 
-function MutationsTable({ rows }: MutationsTableProps) {
+function MutationsTable({ rows, onKill }: MutationsTableProps) {
+  const headers = ["Status", "Database", "Table", "Command", "Progress", "Parts left", "ETA", "Created", "Last failure"];
+  if (onKill) headers.push("");
   return (
     <table className="w-full text-[12px]">
       <thead className="sticky top-0 z-10 bg-ink-200/90 backdrop-blur">
         <tr className="border-b border-ink-500">
-          {["Status", "Database", "Table", "Command", "Progress", "Parts left", "Created", "Last failure"].map((h, i) => (
+          {headers.map((h, i) => (
             <th
-              key={h}
+              key={h || "actions"}
               className={cn(
                 "px-3 py-2 font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint",
-                i === 5 ? "text-right" : "text-left"
+                i === 5 || i === 6 ? "text-right" : "text-left"
               )}
             >
               {h}
@@ -568,6 +668,19 @@ function MutationsTable({ rows }: MutationsTableProps) {
               </td>
               <td className="px-3 py-1.5 text-right font-mono text-paper">
                 {m.parts_to_do.toLocaleString()}
+                {m.total_parts > 0 && (
+                  <span className="text-paper-faint"> / {m.total_parts.toLocaleString()}</span>
+                )}
+              </td>
+              <td
+                className="px-3 py-1.5 text-right font-mono text-paper-muted whitespace-nowrap"
+                title={
+                  m.parts_per_minute > 0
+                    ? `${m.parts_per_minute.toFixed(1)} parts/min over the last 15 minutes`
+                    : "No parts mutated in the last 15 minutes (or system.part_log is disabled)"
+                }
+              >
+                {m.eta_seconds !== null ? formatLagSeconds(m.eta_seconds) : "—"}
               </td>
               <td className="px-3 py-1.5 font-mono text-paper-muted whitespace-nowrap">
                 {m.create_time}
@@ -578,6 +691,21 @@ function MutationsTable({ rows }: MutationsTableProps) {
               >
                 {m.latest_fail_reason || "—"}
               </td>
+              {onKill && (
+                <td className="px-3 py-1.5 text-right">
+                  {!m.is_done && !m.is_killed && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onKill(m)}
+                      className="h-7 gap-1.5 rounded-xs px-2 font-mono text-[10px] uppercase tracking-[0.14em] text-red-300 hover:bg-red-950/40 hover:text-red-200"
+                    >
+                      <OctagonX className="h-3.5 w-3.5" aria-hidden />
+                      Kill
+                    </Button>
+                  )}
+                </td>
+              )}
             </tr>
           );
         })}
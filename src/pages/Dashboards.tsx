@@ -0,0 +1,180 @@
+/**
+ * Dashboards — business dashboards built from saved queries.
+ *
+ * Master-detail: a rail of the dashboards the user can see (their own plus
+ * public ones) on the left, the selected dashboard on the right. Each dashboard
+ * has its own URL (/dashboards/:dashboardId) so it can be shared and bookmarked.
+ */
+
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { AlertCircle, Globe, LayoutGrid, Loader2, Lock, Plus } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useRbacStore, RBAC_PERMISSIONS } from "@/stores";
+import {
+  DashboardDialog,
+  DashboardView,
+  useCreateDashboard,
+  useDashboard,
+  useDashboards,
+} from "@/features/dashboards";
+
+export default function DashboardsPage() {
+  const { dashboardId } = useParams<{ dashboardId?: string }>();
+  const navigate = useNavigate();
+  const { hasPermission, user } = useRbacStore();
+  const canEdit = hasPermission(RBAC_PERMISSIONS.DASHBOARDS_EDIT);
+
+  const { data: dashboards = [], isLoading } = useDashboards();
+  const { data: dashboard, isError, error } = useDashboard(dashboardId);
+  const createMutation = useCreateDashboard();
+  const [createOpen, setCreateOpen] = useState(false);
+
+  // Land on the most recently updated dashboard
+  useEffect(() => {
+    if (!dashboardId && dashboards.length > 0) {
+      navigate(`/dashboards/${dashboards[0].id}`, { replace: true });
+    }
+  }, [dashboardId, dashboards, navigate]);
+
+  const own = dashboards.filter((d) => d.userId === user?.id);
+  const shared = dashboards.filter((d) => d.userId !== user?.id);
+
+  const renderGroup = (label: string, items: typeof dashboards) =>
+    items.length > 0 && (
+      <div className="py-2">
+        <span className="px-3 font-mono text-[9px] uppercase tracking-[0.18em] text-paper-faint">{label}</span>
+        <div className="mt-1 space-y-0.5 px-1">
+          {items.map((d) => (
+            <button
+              key={d.id}
+              type="button"
+              onClick={() => navigate(`/dashboards/${d.id}`)}
+              aria-current={d.id === dashboardId ? "page" : undefined}
+              className={cn(
+                "flex w-full items-center gap-2 rounded-xs px-2.5 py-1.5 text-left text-[13px] transition-colors",
+                d.id === dashboardId ? "bg-ink-300 text-paper" : "text-paper-muted hover:bg-ink-200 hover:text-paper"
+              )}
+            >
+              {d.isPublic ? (
+                <Globe className="h-3 w-3 shrink-0 text-paper-faint" aria-label="Public" />
+              ) : (
+                <Lock className="h-3 w-3 shrink-0 text-paper-faint" aria-label="Private" />
+              )}
+              <span className="truncate">{d.name}</span>
+              <span className="ml-auto font-mono text-[10px] text-paper-faint">{d.tiles.length}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+
+  return (
+    <div className="flex h-full w-full flex-col overflow-hidden bg-ink-50">
+      <header className="flex-none border-b border-ink-500 px-6 py-4">
+        <div className="flex items-center gap-3">
+          <span className="grid h-8 w-8 shrink-0 place-items-center rounded-xs border border-ink-500 bg-ink-100 text-paper-muted">
+            <LayoutGrid className="h-3.5 w-3.5" aria-hidden />
+          </span>
+          <div className="flex flex-col gap-0">
+            <span className="font-mono text-[9px] uppercase tracking-[0.18em] text-paper-faint">Saved queries</span>
+            <h1 className="text-[18px] font-semibold leading-tight tracking-tight text-paper">Dashboards</h1>
+          </div>
+          {canEdit && (
+            <Button
+              onClick={() => setCreateOpen(true)}
+              className="ml-auto h-9 gap-2 rounded-xs bg-brand px-4 font-mono text-[11px] font-semibold uppercase tracking-[0.14em] text-ink-50 hover:bg-brand-soft"
+            >
+              <Plus className="h-3.5 w-3.5" aria-hidden />
+              New dashboard
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <div className="flex flex-1 overflow-hidden">
+        <aside className="hidden w-60 flex-none flex-col overflow-y-auto border-r border-ink-500 md:flex">
+          {isLoading ? (
+            <div className="flex justify-center p-4">
+              <Loader2 className="h-4 w-4 animate-spin text-paper-dim" />
+            </div>
+          ) : dashboards.length === 0 ? (
+            <p className="p-4 text-[12px] text-paper-muted">No dashboards yet.</p>
+          ) : (
+            <>
+              {renderGroup("My dashboards", own)}
+              {renderGroup("Shared with everyone", shared)}
+            </>
+          )}
+        </aside>
+
+        <main className="flex min-w-0 flex-1 flex-col overflow-hidden">
+          {/* Mobile dashboard switcher */}
+          {dashboards.length > 0 && (
+            <div className="flex-none border-b border-ink-500 p-3 md:hidden">
+              <select
+                value={dashboardId ?? ""}
+                onChange={(e) => navigate(`/dashboards/${e.target.value}`)}
+                aria-label="Dashboard"
+                className="h-9 w-full rounded-xs border border-ink-500 bg-ink-200 px-2 text-[12px] text-paper focus:border-brand focus:outline-none"
+              >
+                {dashboards.map((d) => (
+                  <option key={d.id} value={d.id}>
+                    {d.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="min-h-0 flex-1">
+            {dashboard ? (
+              <DashboardView
+                dashboard={dashboard}
+                canEdit={canEdit && dashboard.userId === user?.id}
+                onDeleted={() => navigate("/dashboards", { replace: true })}
+              />
+            ) : isError ? (
+              <div className="flex h-full flex-col items-center justify-center gap-2 text-center">
+                <AlertCircle className="h-5 w-5 text-paper-faint" aria-hidden />
+                <p className="text-[13px] text-paper-muted">{(error as Error).message}</p>
+              </div>
+            ) : dashboardId ? (
+              <div className="flex h-full items-center justify-center">
+                <Loader2 className="h-5 w-5 animate-spin text-paper-dim" />
+              </div>
+            ) : (
+              !isLoading && (
+                <div className="flex h-full flex-col items-center justify-center gap-3 text-center">
+                  <LayoutGrid className="h-6 w-6 text-paper-faint" aria-hidden />
+                  <p className="max-w-sm text-[13px] text-paper-muted">
+                    Dashboards put your saved queries side by side as charts and tables, with a shared time range
+                    and filters.
+                  </p>
+                </div>
+              )
+            )}
+          </div>
+        </main>
+      </div>
+
+      <DashboardDialog
+        open={createOpen}
+        dashboard={null}
+        saving={createMutation.isPending}
+        onClose={() => setCreateOpen(false)}
+        onSave={async (input) => {
+          try {
+            const created = await createMutation.mutateAsync(input);
+            setCreateOpen(false);
+            navigate(`/dashboards/${created.id}`);
+          } catch (err) {
+            toast.error(`Failed to create dashboard: ${(err as Error).message}`);
+          }
+        }}
+      />
+    </div>
+  );
+}
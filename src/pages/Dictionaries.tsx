@@ -0,0 +1,360 @@
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Search, AlertTriangle, CheckCircle2, BookOpen, BookPlus, RefreshCw, Loader2 } from "lucide-react";
+
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { SkeletonRows } from "@/components/common/Skeletons";
+import { PaginationBar } from "@/components/monitoring/PaginationBar";
+import CreateDictionary from "@/features/explorer/components/CreateDictionary";
+import { useDictionaries, type DictionaryRow } from "@/hooks/useMonitoringTimeline";
+import { useReloadDictionary } from "@/hooks";
+import { useExplorerStore, useRbacStore, RBAC_PERMISSIONS } from "@/stores";
+import {
+  dictionaryHealth,
+  dictionaryLabel,
+  formatAge,
+  formatLifetime,
+  type DictionaryHealth,
+} from "@/features/dictionaries/lib";
+import { cn, formatBytes } from "@/lib/utils";
+
+type DictionariesView = "list";
+
+interface DictionariesPageProps {
+  embedded?: boolean;
+  onboardingView?: string;
+  refreshKey?: number;
+  autoRefresh?: boolean;
+  onRefreshChange?: (isRefreshing: boolean) => void;
+}
+
+const COPY: Record<DictionariesView, { title: string; hint: string; rationale: string }> = {
+  list: {
+    title: "Dictionaries",
+    hint: "system.dictionaries",
+    rationale:
+      "A dictionary whose reload fails keeps serving its last good data — status stays LOADED and only the last error tells. Failed and overdue dictionaries are listed first; overdue means no successful load for two full reload windows. Reading this list never triggers a load.",
+  },
+};
+
+const HEALTH_STYLE: Record<DictionaryHealth, { label: string; className: string }> = {
+  failed: { label: "Failed", className: "border-red-500/40 text-red-300" },
+  overdue: { label: "Overdue", className: "border-amber-500/40 text-amber-300" },
+  loading: { label: "Loading", className: "border-sky-500/40 text-sky-300" },
+  not_loaded: { label: "Not loaded", className: "border-ink-500 text-paper-faint" },
+  loaded: { label: "Loaded", className: "border-emerald-500/40 text-emerald-300" },
+};
+
+export default function DictionariesPage({
+  embedded = false,
+  refreshKey = 0,
+  autoRefresh = false,
+  onRefreshChange,
+}: DictionariesPageProps) {
+  const view: DictionariesView = "list";
+  const [searchTerm, setSearchTerm] = useState("");
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const [currentPage, setCurrentPage] = useState(0);
+  const pageSize = 50;
+
+  const { hasPermission } = useRbacStore();
+  const canReload = hasPermission(RBAC_PERMISSIONS.DICTIONARIES_RELOAD);
+  const canCreate = hasPermission(RBAC_PERMISSIONS.TABLE_CREATE);
+  const openCreateDictionaryModal = useExplorerStore((s) => s.openCreateDictionaryModal);
+
+  const { data, isLoading, isFetching, error, refetch } = useDictionaries();
+
+  useEffect(() => {
+    onRefreshChange?.(isFetching);
+  }, [isFetching, onRefreshChange]);
+
+  useEffect(() => {
+    if (refreshKey > 0) refetch();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [refreshKey]);
+
+  useEffect(() => {
+    if (!autoRefresh) return;
+    const id = setInterval(() => refetch(), 15_000);
+    return () => clearInterval(id);
+  }, [autoRefresh, refetch]);
+
+  useEffect(() => {
+    setCurrentPage(0);
+  }, [searchTerm, problemsOnly]);
+
+  const nowSec = Math.floor(Date.now() / 1000);
+  const withHealth = useMemo(
+    () => (data ?? []).map((row) => ({ row, health: dictionaryHealth(row, nowSec) })),
+    // Re-evaluated on every fetch; the clock only matters for overdue checks.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [data]
+  );
+
+  const rows = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return withHealth.filter(({ row, health }) => {
+      if (problemsOnly && health !== "failed" && health !== "overdue") return false;
+      return !term || JSON.stringify(row).toLowerCase().includes(term);
+    });
+  }, [withHealth, searchTerm, problemsOnly]);
+
+  const totalRows = rows.length;
+  const totalPages = Math.max(1, Math.ceil(totalRows / pageSize));
+  const safePage = Math.min(currentPage, totalPages - 1);
+  const startIndex = safePage * pageSize;
+  const endIndex = Math.min(startIndex + pageSize, totalRows);
+  const paginatedRows = useMemo(
+    () => rows.slice(startIndex, endIndex),
+    [rows, startIndex, endIndex]
+  );
+
+  // Header counters
+  const failedCount = withHealth.filter((d) => d.health === "failed").length;
+  const overdueCount = withHealth.filter((d) => d.health === "overdue").length;
+  const totalMemory = withHealth.reduce((acc, d) => acc + d.row.bytes_allocated, 0);
+
+  return (
+    <div className="h-full overflow-hidden">
+      <div className={cn("flex h-full flex-col gap-4", embedded ? "p-4" : "p-6")}>
+        {/* Sub-tabs */}
+        <div className="scrollbar-hide flex min-w-0 shrink-0 items-center gap-2 overflow-x-auto border-b border-ink-500">
+          <button
+            type="button"
+            data-onboarding-id="monitoring-dictionaries-list"
+            className="group relative flex shrink-0 items-center gap-2 whitespace-nowrap px-3 py-2 font-mono text-[11px] uppercase tracking-[0.14em] text-paper transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-brand"
+          >
+            <span>{COPY[view].title}</span>
+            <span className="font-mono text-[9px] tracking-[0.14em] text-paper-faint">
+              · {COPY[view].hint}
+            </span>
+            <span className="absolute -bottom-px left-0 right-0 h-px bg-brand" aria-hidden />
+          </button>
+        </div>
+
+        {/* Rationale strip */}
+        <div className="flex items-start gap-3 rounded-xs border border-ink-500 bg-ink-100 px-4 py-3">
+          <span className="grid h-7 w-7 shrink-0 place-items-center rounded-xs border border-ink-500 bg-ink-200 text-paper-muted">
+            <BookOpen className="h-3.5 w-3.5" aria-hidden />
+          </span>
+          <p className="text-[12px] leading-[1.6] text-paper-muted">{COPY[view].rationale}</p>
+        </div>
+
+        {/* Filter + summary strip */}
+        <div className="flex flex-wrap items-center gap-3 rounded-md border border-ink-500 bg-ink-100 p-3">
+          <div className="flex w-full items-center gap-2 md:w-[320px]">
+            <Search className="h-4 w-4 text-paper-dim" />
+            <Input
+              placeholder="Search name, source, error…"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="h-9 rounded-xs border-ink-500 bg-ink-200 font-mono text-[12px] text-paper placeholder:text-paper-faint focus-visible:border-brand focus-visible:ring-0"
+            />
+          </div>
+          <label className="flex items-center gap-2 font-mono text-[10px] uppercase tracking-[0.14em] text-paper-dim">
+            <Switch checked={problemsOnly} onCheckedChange={setProblemsOnly} aria-label="Problems only" />
+            Problems only
+          </label>
+
+          <div className="ml-auto flex items-center gap-4 font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint">
+            <span>
+              Total · <span className="text-paper">{withHealth.length.toLocaleString()}</span>
+            </span>
+            <span>
+              Memory · <span className="text-paper">{formatBytes(totalMemory)}</span>
+            </span>
+            {failedCount + overdueCount > 0 ? (
+              <span className="inline-flex items-center gap-1.5 text-red-300">
+                <AlertTriangle className="h-3 w-3" aria-hidden />
+                {failedCount.toLocaleString()} failed · {overdueCount.toLocaleString()} overdue
+              </span>
+            ) : (
+              <span>All healthy</span>
+            )}
+            {canCreate && (
+              <Button
+                type="button"
+                onClick={() => openCreateDictionaryModal("")}
+                className="h-8 gap-2 rounded-xs bg-brand px-3 font-mono text-[11px] font-semibold uppercase tracking-[0.14em] text-ink-50 hover:bg-brand-soft"
+              >
+                <BookPlus className="h-3.5 w-3.5" aria-hidden />
+                New dictionary
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Table card */}
+        <div className="flex flex-1 min-h-0 flex-col overflow-hidden rounded-md border border-ink-500 bg-ink-100">
+          <div className="flex-1 overflow-auto">
+            {isLoading ? (
+              <table className="w-full">
+                <tbody>
+                  <SkeletonRows count={8} cols={8} />
+                </tbody>
+              </table>
+            ) : error ? (
+              <ErrorState message={error.message} />
+            ) : totalRows === 0 ? (
+              <EmptyState hasFilter={!!searchTerm || problemsOnly} />
+            ) : (
+              <DictionariesTable rows={paginatedRows} nowSec={nowSec} canReload={canReload} />
+            )}
+          </div>
+
+          {totalRows > 0 && (
+            <PaginationBar
+              page={safePage}
+              totalPages={totalPages}
+              startIndex={startIndex}
+              endIndex={endIndex}
+              totalRows={totalRows}
+              rowLabel="dictionaries"
+              onPrev={() => setCurrentPage((p) => Math.max(0, p - 1))}
+              onNext={() => setCurrentPage((p) => Math.min(totalPages - 1, p + 1))}
+              onFirst={() => setCurrentPage(0)}
+              onLast={() => setCurrentPage(totalPages - 1)}
+            />
+          )}
+        </div>
+      </div>
+
+      <CreateDictionary />
+    </div>
+  );
+}
+
+function ErrorState({ message }: { message: string }) {
+  return (
+    <div className="flex h-64 flex-col items-center justify-center gap-2 px-4 text-center">
+      <span className="grid h-12 w-12 place-items-center rounded-xs border border-red-900/60 bg-red-950/30 text-red-300">
+        <AlertTriangle className="h-5 w-5" aria-hidden />
+      </span>
+      <span className="text-[13px] text-paper">Couldn't load dictionaries</span>
+      <span className="text-[12px] text-paper-muted">{message}</span>
+    </div>
+  );
+}
+
+function EmptyState({ hasFilter }: { hasFilter: boolean }) {
+  return (
+    <div className="flex h-64 flex-col items-center justify-center gap-2 px-4 text-center">
+      <span className="grid h-12 w-12 place-items-center rounded-xs border border-emerald-500/30 bg-emerald-950/20 text-emerald-300">
+        <CheckCircle2 className="h-5 w-5" aria-hidden />
+      </span>
+      <span className="text-[13px] text-paper">
+        {hasFilter ? "No matching dictionaries" : "No dictionaries"}
+      </span>
+      <span className="text-[12px] text-paper-muted">
+        {hasFilter
+          ? "Adjust the search or problems filter."
+          : "system.dictionaries is empty on this server."}
+      </span>
+    </div>
+  );
+}
+
+function DictionariesTable({
+  rows,
+  nowSec,
+  canReload,
+}: {
+  rows: { row: DictionaryRow; health: DictionaryHealth }[];
+  nowSec: number;
+  canReload: boolean;
+}) {
+  const reload = useReloadDictionary();
+
+  const handleReload = async (row: DictionaryRow) => {
+    try {
+      const result = await reload.mutateAsync({ database: row.database, name: row.name });
+      if (result.last_exception) {
+        toast.error(`Reload of ${dictionaryLabel(row)} failed: ${result.last_exception.split("\n")[0]}`);
+      } else {
+        toast.success(`Reloaded ${dictionaryLabel(row)} (${result.element_count.toLocaleString()} elements)`);
+      }
+    } catch (error) {
+      toast.error(`Failed to reload ${dictionaryLabel(row)}: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <table className="w-full text-[12px]">
+      <thead className="sticky top-0 z-10 bg-ink-200/90 backdrop-blur">
+        <tr className="border-b border-ink-500">
+          {["Dictionary", "Status", "Layout · Source", "Elements", "Memory", "Last loaded", "Lifetime", "Last error", ""].map((h, i) => (
+            <th
+              key={h || "actions"}
+              className={cn(
+                "px-3 py-2 font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint",
+                i === 3 || i === 4 ? "text-right" : "text-left"
+              )}
+            >
+              {h}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(({ row: d, health }) => {
+          const pending = reload.isPending && reload.variables?.database === d.database && reload.variables?.name === d.name;
+          return (
+            <tr
+              key={dictionaryLabel(d)}
+              className="border-b border-ink-500/60 transition-colors hover:bg-ink-200/60"
+            >
+              <td className="px-3 py-1.5 font-mono text-paper">
+                {dictionaryLabel(d)}
+                {!d.database && (
+                  <span className="ml-2 rounded-xs border border-ink-500 bg-ink-200 px-1 py-px font-mono text-[9px] uppercase tracking-[0.14em] text-paper-faint">
+                    config
+                  </span>
+                )}
+              </td>
+              <td className="px-3 py-1.5" title={d.status}>
+                <span className={cn("rounded-xs border px-2 py-0.5 font-mono text-[10px] uppercase tracking-[0.14em]", HEALTH_STYLE[health].className)}>
+                  {HEALTH_STYLE[health].label}
+                </span>
+              </td>
+              <td className="max-w-[260px] truncate px-3 py-1.5 font-mono text-paper-muted" title={d.source}>
+                {d.layout || "—"} · {d.source || "—"}
+              </td>
+              <td className="px-3 py-1.5 text-right font-mono tabular-nums text-paper">
+                {d.element_count.toLocaleString()}
+              </td>
+              <td className="px-3 py-1.5 text-right font-mono tabular-nums text-paper-muted">
+                {formatBytes(d.bytes_allocated)}
+              </td>
+              <td className="px-3 py-1.5 font-mono text-paper-muted whitespace-nowrap" title={d.last_successful_update_time}>
+                {d.last_successful_update_ts > 0 ? `${formatAge(nowSec - d.last_successful_update_ts)} ago` : "never"}
+              </td>
+              <td className="px-3 py-1.5 font-mono text-paper-muted whitespace-nowrap">
+                {formatLifetime(d.lifetime_min, d.lifetime_max)}
+              </td>
+              <td className="max-w-[360px] truncate px-3 py-1.5 font-mono text-red-300" title={d.last_exception}>
+                {d.last_exception ? d.last_exception.split("\n")[0] : <span className="text-paper-faint">—</span>}
+              </td>
+              <td className="px-3 py-1.5 text-right">
+                {canReload && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={pending}
+                    onClick={() => handleReload(d)}
+                    className="h-7 gap-1.5 rounded-xs px-2 font-mono text-[10px] uppercase tracking-[0.14em] text-paper-muted hover:bg-ink-200 hover:text-paper"
+                  >
+                    {pending ? <Loader2 className="h-3 w-3 animate-spin" /> : <RefreshCw className="h-3 w-3" />}
+                    Reload
+                  </Button>
+                )}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
@@ -11,6 +11,7 @@ import {
 import type { PanelGroupStorage, ImperativePanelHandle } from "react-resizable-panels";
 import CreateTable from "@/features/explorer/components/CreateTable";
 import CreateDatabase from "@/features/explorer/components/CreateDatabase";
+import CreateDictionary from "@/features/explorer/components/CreateDictionary";
 import UploadFromFile from "@/features/explorer/components/UploadFile";
 import AlterTable from "@/features/explorer/components/AlterTable";
 import { useDatabases } from "@/hooks";
@@ -269,6 +270,7 @@ const ExplorerPage = () => {
       {/* Modals */}
       <CreateTable />
       <CreateDatabase />
+      <CreateDictionary />
       <UploadFromFile />
       <AlterTable />
 
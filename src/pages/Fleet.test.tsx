@@ -35,6 +35,7 @@ vi.mock("@/hooks/useFleetMetrics", () => ({
   useFleetConnections: () => mocks.connectionsQuery,
   useFleetHistory: () => ({ byNode: new Map() }),
   useFleetSnapshots: () => ({ data: undefined }),
+  useFleetDiskForecasts: () => ({ data: undefined }),
 }));
 
 vi.mock("@/components/common/InfoDialog", () => ({ default: () => null }));
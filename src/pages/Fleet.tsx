@@ -19,6 +19,7 @@ import InfoDialog from "@/components/common/InfoDialog";
 import {
   useFleetConnections,
   useFleetSnapshots,
+  useFleetDiskForecasts,
   fetchFleetSummary,
   fleetSummaryQueryKey,
   computeFleetStatus,
@@ -36,6 +37,7 @@ import FleetExceptionsFeed from "@/features/fleet/components/FleetExceptionsFeed
 import FleetInventoryStrip from "@/features/fleet/components/FleetInventoryStrip";
 import { LayoutGrid, Rows3 } from "lucide-react";
 import type { ClickHouseConnection } from "@/api/rbac";
+import type { DiskForecast } from "@/api/fleet";
 import { cn } from "@/lib/utils";
 
 type FleetSort = "status" | "memory" | "name";
@@ -80,6 +82,18 @@ export default function FleetPage() {
     return map;
   }, [snapshotsQuery.data]);
 
+  // Projected disk fill dates (poller-fitted), grouped per card.
+  const diskForecastsQuery = useFleetDiskForecasts();
+  const diskForecastsByConnection = useMemo(() => {
+    const map = new Map<string, DiskForecast[]>();
+    for (const f of diskForecastsQuery.data ?? []) {
+      const list = map.get(f.connectionId) ?? [];
+      list.push(f);
+      map.set(f.connectionId, list);
+    }
+    return map;
+  }, [diskForecastsQuery.data]);
+
   const workerEnabled = snapshotsQuery.data?.workerEnabled ?? false;
   const pollIntervalSeconds = snapshotsQuery.data?.pollIntervalSeconds ?? 30;
 
@@ -248,6 +262,7 @@ export default function FleetPage() {
                     snapshot={snapshotsByConnection.get(c.id)}
                     snapshotPollIntervalSeconds={pollIntervalSeconds}
                     memoryHistory={nodeSeries(historyByNode.get(c.id), "memory")}
+                    diskForecasts={diskForecastsByConnection.get(c.id)}
                   />
                 ))}
               </div>
@@ -732,7 +747,7 @@ function FleetLoadingSkeleton(): React.JSX.Element {
 }
 
 /**
- * Skeleton that mirrors the real FleetCard layout (header strip + 6-cell
+ * Skeleton that mirrors the real FleetCard layout (header strip + 8-cell
  * tile grid + footer). Better than a single grey rectangle — the shape
  * primes the user for what's loading, and the eye doesn't have to re-parse
  * the layout once real data arrives.
@@ -752,7 +767,7 @@ function SkeletonCard(): React.JSX.Element {
         <span className="h-9 w-16 shrink-0 rounded-xs bg-ink-200" />
       </div>
       <div className="grid grid-cols-2 [&>*]:border-b [&>*]:border-r [&>*]:border-ink-500 [&>*:nth-child(2n)]:border-r-0">
-        {Array.from({ length: 6 }).map((_, i) => (
+        {Array.from({ length: 8 }).map((_, i) => (
           <div key={i} className="flex flex-col gap-2 px-4 py-3">
             <span className="block h-2 w-1/3 rounded-xs bg-ink-200" />
             <span className="block h-4 w-1/2 rounded-xs bg-ink-300" />
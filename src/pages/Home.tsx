@@ -31,6 +31,7 @@ import { toast } from "sonner";
 import { Link, useNavigate } from "react-router-dom";
 import { useQueryClient } from "@tanstack/react-query";
 import { useRecentQueries, useSavedQueries, useSystemStats, useDatabases } from "@/hooks";
+import type { SavedQuery } from "@/api";
 import { useAuthStore } from "@/stores/auth";
 import { useExplorerStore, type RecentItem } from "@/stores/explorer";
 import { useWorkspaceStore, genTabId } from "@/stores/workspace";
@@ -396,12 +397,14 @@ export default function HomePage() {
     navigate("/explorer");
   };
 
-  const handleSavedQueryClick = (query: string, name: string) => {
+  const handleSavedQueryClick = (sq: SavedQuery) => {
     const newTab = {
       id: genTabId(),
-      title: name,
+      title: sq.name,
       type: "sql" as const,
-      content: query,
+      content: sq.query,
+      queryParams: sq.parameters ?? undefined,
+      chartConfig: sq.chartConfig ?? undefined,
       isDirty: false,
     };
     addTab(newTab);
@@ -713,7 +716,7 @@ export default function HomePage() {
                           </span>
                         ) : undefined
                       }
-                      onClick={() => handleSavedQueryClick(sq.query, sq.name)}
+                      onClick={() => handleSavedQueryClick(sq)}
                       actionIcon={Play}
                     />
                   ))}
@@ -20,8 +20,10 @@ import {
   GitCompare,
   Sparkles,
   Loader2,
+  Download,
 } from "lucide-react";
 import { format as formatDate } from "date-fns";
+import Papa from "papaparse";
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -46,17 +48,29 @@ import {
   useClusterMemoryTotal,
   useQueryByTable,
   useQueryByRedashId,
+  useQueryByRbacUser,
+  useRbacUserPatterns,
+  attributeUserCosts,
   useQueryPatterns,
+  useQueryPatternRegressions,
   useQueryProfileEvents,
   useQueryViewsLog,
+  sortRegressions,
+  REGRESSION_MIN_RATIO,
+  REGRESSION_MIN_RUNS,
+  type AttributedUserCost,
+  type ByRbacUserSort,
   type ByRedashRow,
   type ByRedashSort,
   type ByTableRow,
   type ByTableSort,
   type HistogramMetric,
   type ProfileEventEntry,
+  type PatternSample,
   type QueryPattern,
+  type QueryPatternRegression,
   type QueryPatternSort,
+  type QueryRegressionSort,
   type ViewLogRow,
 } from "@/hooks/useMonitoringTimeline";
 import { QueryHistogramChart } from "@/components/monitoring/QueryHistogramChart";
@@ -310,16 +324,50 @@ function formatRowTime(eventDate: string, eventTime: string): string {
   return formatDate(parsed, "MMM d HH:mm:ss");
 }
 
-type LogsView = "queries" | "patterns" | "tables" | "redash" | "histogram";
+type LogsView = "queries" | "patterns" | "regressions" | "tables" | "users" | "redash" | "histogram";
 
 const LOG_VIEW_TABS: ReadonlyArray<{ id: LogsView; label: string; hint: string }> = [
   { id: "queries", label: "Queries", hint: "Every execution" },
   { id: "patterns", label: "Patterns", hint: "Grouped by query shape" },
+  { id: "regressions", label: "Regressions", hint: "Slower than baseline" },
   { id: "tables", label: "By table", hint: "Hot tables" },
+  { id: "users", label: "By user", hint: "CHouse user cost" },
   { id: "redash", label: "By Redash", hint: "Grouped by Redash query_id" },
   { id: "histogram", label: "Histogram", hint: "Metric distribution" },
 ];
 
+type RegressionBaseline = "week" | "day" | "previous";
+
+const REGRESSION_BASELINES: ReadonlyArray<{ id: RegressionBaseline; label: string }> = [
+  { id: "week", label: "Same hours last week" },
+  { id: "day", label: "Same hours yesterday" },
+  { id: "previous", label: "Previous window" },
+];
+
+/** Baseline shift in hours — "previous" is the window right before the current one. */
+function baselineOffsetHours(baseline: RegressionBaseline, windowHours: number): number {
+  if (baseline === "week") return 168;
+  if (baseline === "day") return 24;
+  return Math.ceil(windowHours);
+}
+
+/** A regression sample as a LogEntry, so the Compare dialog can show it. */
+function sampleToLogEntry(sample: PatternSample): LogEntry {
+  const [eventDate = "", eventTime = ""] = sample.event_time.split(" ");
+  return {
+    type: sample.type,
+    event_date: eventDate,
+    event_time: eventTime,
+    query_id: sample.query_id,
+    query: sample.query,
+    query_duration_ms: sample.query_duration_ms,
+    read_rows: sample.read_rows,
+    read_bytes: sample.read_bytes,
+    memory_usage: sample.memory_usage,
+    user: sample.user,
+  };
+}
+
 function isLogsView(value: string | undefined): value is LogsView {
   return LOG_VIEW_TABS.some((tab) => tab.id === value);
 }
@@ -407,17 +455,25 @@ export default function LogsPage({
       )
     : timeRangeHours;
 
-  // Sub-view inside Logs — flat query list, aggregated patterns, by-table, by-redash, or histogram.
+  // Sub-view inside Logs — flat query list, aggregated patterns, pattern
+  // regressions, by-table, by-user, by-redash, or histogram.
   const [selectedView, setView] = useState<LogsView>("queries");
   const guidedView = isLogsView(onboardingView) ? onboardingView : undefined;
   const view = guidedView ?? selectedView;
   const [histogramMetric, setHistogramMetric] = useState<HistogramMetric>("duration");
   const [patternSort, setPatternSort] = useState<QueryPatternSort>("total_duration_ms");
   const [patternPage, setPatternPage] = useState(0);
+  const [regressionBaseline, setRegressionBaseline] = useState<RegressionBaseline>("week");
+  const [regressionSort, setRegressionSort] = useState<QueryRegressionSort>("worst");
+  const [regressionPage, setRegressionPage] = useState(0);
+  const [regressionCompare, setRegressionCompare] = useState<QueryPatternRegression | null>(null);
   const [byTableSort, setByTableSort] = useState<ByTableSort>("total_duration_ms");
   const [byTablePage, setByTablePage] = useState(0);
   const [redashSort, setRedashSort] = useState<ByRedashSort>("total_duration_ms");
   const [redashPage, setRedashPage] = useState(0);
+  const [userCostSort, setUserCostSort] = useState<ByRbacUserSort>("total_duration_ms");
+  const [userCostPage, setUserCostPage] = useState(0);
+  const [drillUser, setDrillUser] = useState<AttributedUserCost | null>(null);
 
   useEffect(() => {
     if (guidedView) setView(guidedView);
@@ -456,6 +512,43 @@ export default function LogsPage({
     [patterns, patternStart, patternEnd]
   );
 
+  const {
+    data: regressions = [],
+    isLoading: regressionsLoading,
+    isFetching: regressionsFetching,
+    error: regressionsError,
+  } = useQueryPatternRegressions(
+    effectiveHours,
+    baselineOffsetHours(regressionBaseline, effectiveHours),
+    customRangeSql,
+    { enabled: view === "regressions" }
+  );
+
+  useEffect(() => {
+    setRegressionPage(0);
+  }, [
+    regressionSort,
+    regressionBaseline,
+    timeRangeHours,
+    customRangeSql?.start,
+    customRangeSql?.end,
+    view,
+  ]);
+
+  const sortedRegressions = useMemo(
+    () => sortRegressions(regressions, regressionSort),
+    [regressions, regressionSort]
+  );
+  const regressionTotalRows = sortedRegressions.length;
+  const regressionTotalPages = Math.max(1, Math.ceil(regressionTotalRows / pageSize));
+  const regressionSafePage = Math.min(regressionPage, regressionTotalPages - 1);
+  const regressionStart = regressionSafePage * pageSize;
+  const regressionEnd = Math.min(regressionStart + pageSize, regressionTotalRows);
+  const paginatedRegressions = useMemo(
+    () => sortedRegressions.slice(regressionStart, regressionEnd),
+    [sortedRegressions, regressionStart, regressionEnd]
+  );
+
   const {
     data: byTable = [],
     isLoading: byTableLoading,
@@ -591,6 +684,74 @@ export default function LogsPage({
       : undefined
     : user?.id;
 
+  const {
+    data: byUser = [],
+    isLoading: byUserLoading,
+    isFetching: byUserFetching,
+    error: byUserError,
+  } = useQueryByRbacUser(
+    effectiveHours,
+    userCostSort,
+    canViewAllLogs ? undefined : user?.id,
+    customRangeSql,
+    { enabled: view === "users" }
+  );
+
+  // Chargeback covers deactivated users too, so resolve names against every
+  // user rather than the active-only list the filters use.
+  const { data: allUsersData } = useQuery({
+    queryKey: ["rbac-users-list", "all"],
+    queryFn: () => rbacUsersApi.list({ limit: 1000 }),
+    enabled: canViewAllLogs && view === "users",
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const userCosts = useMemo(() => {
+    const attributed = attributeUserCosts(
+      byUser,
+      canViewAllLogs ? allUsersData?.users ?? [] : user ? [user] : []
+    );
+    const roleUserIds =
+      selectedRoleId !== "all" && usersByRoleData
+        ? new Set(usersByRoleData.users.map((u) => u.id))
+        : null;
+    return attributed.filter(
+      (r) =>
+        (selectedUserId === "all" || !canViewAllLogs || r.rbac_user_id === selectedUserId) &&
+        (!roleUserIds || roleUserIds.has(r.rbac_user_id))
+    );
+  }, [byUser, allUsersData, canViewAllLogs, user, selectedUserId, selectedRoleId, usersByRoleData]);
+
+  useEffect(() => {
+    setUserCostPage(0);
+  }, [
+    userCostSort,
+    selectedUserId,
+    selectedRoleId,
+    timeRangeHours,
+    customRangeSql?.start,
+    customRangeSql?.end,
+    view,
+  ]);
+
+  const userCostTotalRows = userCosts.length;
+  const userCostTotalPages = Math.max(1, Math.ceil(userCostTotalRows / pageSize));
+  const userCostSafePage = Math.min(userCostPage, userCostTotalPages - 1);
+  const userCostStart = userCostSafePage * pageSize;
+  const userCostEnd = Math.min(userCostStart + pageSize, userCostTotalRows);
+  const paginatedUserCosts = useMemo(
+    () => userCosts.slice(userCostStart, userCostEnd),
+    [userCosts, userCostStart, userCostEnd]
+  );
+
+  const exportUserCosts = () => {
+    const windowEnd = customRangeSql?.end ?? formatDate(new Date(), "yyyy-MM-dd HH:mm:ss");
+    const windowStart =
+      customRangeSql?.start ??
+      formatDate(new Date(Date.now() - effectiveHours * 3_600_000), "yyyy-MM-dd HH:mm:ss");
+    downloadUserCostsCsv(userCosts, windowStart, windowEnd);
+  };
+
   // Over-fetch so that client-side dedup + pagination has enough material per page.
   // The cap (5k unfiltered / 20k filtered) is the upper bound a single fetch will
   // pull; beyond that the user needs to narrow the time range or filters.
@@ -968,8 +1129,12 @@ export default function LogsPage({
                 Total ·{" "}
                 {(view === "patterns"
                   ? patternTotalRows
+                  : view === "regressions"
+                    ? regressionTotalRows
                   : view === "tables"
                     ? byTableTotalRows
+                  : view === "users"
+                    ? userCostTotalRows
                     : totalRows
                 ).toLocaleString()}
               </span>
@@ -1106,6 +1271,42 @@ export default function LogsPage({
                   clusterMemoryBytes={clusterMemoryBytes}
                 />
               )
+            ) : view === "regressions" ? (
+              <>
+                <RegressionBaselineBar
+                  baseline={regressionBaseline}
+                  onBaselineChange={setRegressionBaseline}
+                />
+                {regressionsLoading ? (
+                  <table className="w-full">
+                    <tbody>
+                      <SkeletonRows count={10} cols={7} />
+                    </tbody>
+                  </table>
+                ) : regressionsError ? (
+                  <div className="flex h-64 flex-col items-center justify-center gap-2 px-4 text-center">
+                    <span className="text-[13px] text-paper">Couldn't load regressions</span>
+                    <span className="text-[12px] text-paper-muted">{regressionsError.message}</span>
+                  </div>
+                ) : regressionTotalRows === 0 ? (
+                  <div className="flex h-64 flex-col items-center justify-center gap-2 px-4 text-center">
+                    <span className="grid h-12 w-12 place-items-center rounded-xs border border-ink-500 bg-ink-200 text-paper-dim">
+                      <FileText className="h-5 w-5" aria-hidden />
+                    </span>
+                    <span className="text-[13px] text-paper">No regressions</span>
+                    <span className="text-[12px] text-paper-muted">
+                      No pattern run in both windows got slower or heavier against the baseline.
+                    </span>
+                  </div>
+                ) : (
+                  <RegressionsTable
+                    rows={paginatedRegressions}
+                    sortKey={regressionSort}
+                    onSort={setRegressionSort}
+                    onCompare={setRegressionCompare}
+                  />
+                )}
+              </>
             ) : view === "tables" ? (
               byTableLoading ? (
                 <table className="w-full">
@@ -1136,6 +1337,44 @@ export default function LogsPage({
                   clusterMemoryBytes={clusterMemoryBytes}
                 />
               )
+            ) : view === "users" ? (
+              <>
+                <UserCostBar
+                  canViewAllLogs={canViewAllLogs}
+                  exportDisabled={userCostTotalRows === 0}
+                  onExport={exportUserCosts}
+                />
+                {byUserLoading ? (
+                  <table className="w-full">
+                    <tbody>
+                      <SkeletonRows count={10} cols={9} />
+                    </tbody>
+                  </table>
+                ) : byUserError ? (
+                  <div className="flex h-64 flex-col items-center justify-center gap-2 px-4 text-center">
+                    <span className="text-[13px] text-paper">Couldn't load by-user rollup</span>
+                    <span className="text-[12px] text-paper-muted">{byUserError.message}</span>
+                  </div>
+                ) : userCostTotalRows === 0 ? (
+                  <div className="flex h-64 flex-col items-center justify-center gap-2 px-4 text-center">
+                    <span className="grid h-12 w-12 place-items-center rounded-xs border border-ink-500 bg-ink-200 text-paper-dim">
+                      <User className="h-5 w-5" aria-hidden />
+                    </span>
+                    <span className="text-[13px] text-paper">No CHouse user activity</span>
+                    <span className="text-[12px] text-paper-muted">
+                      Nothing tagged with an RBAC user in <code>log_comment</code> in the window.
+                    </span>
+                  </div>
+                ) : (
+                  <ByUserTable
+                    rows={paginatedUserCosts}
+                    sortKey={userCostSort}
+                    onSort={setUserCostSort}
+                    onDrill={setDrillUser}
+                    clusterMemoryBytes={clusterMemoryBytes}
+                  />
+                )}
+              </>
             ) : byRedashLoading ? (
               <table className="w-full">
                 <tbody>
@@ -1197,6 +1436,21 @@ export default function LogsPage({
             />
           )}
 
+          {view === "regressions" && regressionTotalRows > 0 && (
+            <PaginationBar
+              page={regressionSafePage}
+              totalPages={regressionTotalPages}
+              startIndex={regressionStart}
+              endIndex={regressionEnd}
+              totalRows={regressionTotalRows}
+              rowLabel="patterns"
+              onPrev={() => setRegressionPage((p) => Math.max(0, p - 1))}
+              onNext={() => setRegressionPage((p) => Math.min(regressionTotalPages - 1, p + 1))}
+              onFirst={() => setRegressionPage(0)}
+              onLast={() => setRegressionPage(regressionTotalPages - 1)}
+            />
+          )}
+
           {view === "tables" && byTableTotalRows > 0 && (
             <PaginationBar
               page={byTableSafePage}
@@ -1212,6 +1466,21 @@ export default function LogsPage({
             />
           )}
 
+          {view === "users" && userCostTotalRows > 0 && (
+            <PaginationBar
+              page={userCostSafePage}
+              totalPages={userCostTotalPages}
+              startIndex={userCostStart}
+              endIndex={userCostEnd}
+              totalRows={userCostTotalRows}
+              rowLabel="users"
+              onPrev={() => setUserCostPage((p) => Math.max(0, p - 1))}
+              onNext={() => setUserCostPage((p) => Math.min(userCostTotalPages - 1, p + 1))}
+              onFirst={() => setUserCostPage(0)}
+              onLast={() => setUserCostPage(userCostTotalPages - 1)}
+            />
+          )}
+
           {view === "redash" && byRedashTotalRows > 0 && (
             <PaginationBar
               page={byRedashSafePage}
@@ -1227,7 +1496,7 @@ export default function LogsPage({
             />
           )}
 
-          {(patternsFetching || byTableFetching || byRedashFetching) && (
+          {(patternsFetching || regressionsFetching || byTableFetching || byUserFetching || byRedashFetching) && (
             <span className="sr-only" aria-live="polite">Refreshing…</span>
           )}
         </div>
@@ -1242,6 +1511,33 @@ export default function LogsPage({
           .filter((l): l is LogEntry => !!l)}
         clusterMemoryBytes={clusterMemoryBytes}
       />
+
+      {regressionCompare && (
+        <CompareDialog
+          open
+          onOpenChange={(open) => !open && setRegressionCompare(null)}
+          entries={[
+            sampleToLogEntry(regressionCompare.baseline.sample),
+            sampleToLogEntry(regressionCompare.current.sample),
+          ]}
+          labels={["Baseline · slowest run", "Current · slowest run"]}
+          clusterMemoryBytes={clusterMemoryBytes}
+        />
+      )}
+
+      {drillUser && (
+        <UserPatternsDialog
+          user={drillUser}
+          hoursBack={effectiveHours}
+          customRange={customRangeSql}
+          onClose={() => setDrillUser(null)}
+          onOpenSample={(queryId) => {
+            setDrillUser(null);
+            setSearchTerm(queryId);
+            setView("queries");
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -1254,6 +1550,8 @@ interface CompareDialogProps {
   open: boolean;
   onOpenChange: (v: boolean) => void;
   entries: LogEntry[];
+  /** Column headings — defaults to Query A / Query B. */
+  labels?: [string, string];
   clusterMemoryBytes: number;
 }
 
@@ -1296,6 +1594,7 @@ function CompareDialog({
   open,
   onOpenChange,
   entries,
+  labels = ["Query A", "Query B"],
   clusterMemoryBytes,
 }: CompareDialogProps) {
   if (entries.length < 2) return null;
@@ -1325,8 +1624,8 @@ function CompareDialog({
         </DialogHeader>
 
         <div className="grid max-h-[55vh] grid-cols-2 divide-x divide-ink-500 overflow-auto">
-          <CompareColumn label="Query A" entry={a} clusterMemoryBytes={clusterMemoryBytes} />
-          <CompareColumn label="Query B" entry={b} clusterMemoryBytes={clusterMemoryBytes} />
+          <CompareColumn label={labels[0]} entry={a} clusterMemoryBytes={clusterMemoryBytes} />
+          <CompareColumn label={labels[1]} entry={b} clusterMemoryBytes={clusterMemoryBytes} />
         </div>
 
         <div className="border-t border-ink-500 px-5 py-4">
@@ -1793,6 +2092,244 @@ function PatternRow({ pattern, clusterMemoryBytes }: PatternRowProps) {
   );
 }
 
+/* ============================================================
+   Regressions table — pattern p50/p95 vs a baseline window
+   ============================================================ */
+
+function RegressionBaselineBar({
+  baseline,
+  onBaselineChange,
+}: {
+  baseline: RegressionBaseline;
+  onBaselineChange: (b: RegressionBaseline) => void;
+}) {
+  return (
+    <div className="flex items-center gap-3 border-b border-ink-500 bg-ink-200/60 px-3 py-2">
+      <span className="font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint">
+        Baseline
+      </span>
+      <Select value={baseline} onValueChange={(v) => onBaselineChange(v as RegressionBaseline)}>
+        <SelectTrigger className="h-7 w-[200px] rounded-xs border-ink-500 bg-ink-100 font-mono text-[11px] text-paper">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {REGRESSION_BASELINES.map((b) => (
+            <SelectItem key={b.id} value={b.id}>
+              {b.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <span className="text-[11px] text-paper-muted">
+        Patterns with {REGRESSION_MIN_RUNS}+ runs in both windows whose p95 grew at least{" "}
+        {Math.round((REGRESSION_MIN_RATIO - 1) * 100)}%.
+      </span>
+    </div>
+  );
+}
+
+interface RegressionColumn {
+  key: QueryRegressionSort | null;
+  label: string;
+  align: "left" | "right";
+  w?: string;
+}
+
+const REGRESSION_COLUMNS: RegressionColumn[] = [
+  { key: null, label: "Pattern", align: "left" },
+  { key: null, label: "Runs", align: "right", w: "w-[96px]" },
+  { key: "duration", label: "Duration", align: "right", w: "w-[150px]" },
+  { key: "memory", label: "Memory", align: "right", w: "w-[150px]" },
+  { key: "read_bytes", label: "Read bytes", align: "right", w: "w-[150px]" },
+  { key: "worst", label: "Worst", align: "right", w: "w-[80px]" },
+  { key: null, label: "", align: "right", w: "w-[72px]" },
+];
+
+interface RegressionsTableProps {
+  rows: QueryPatternRegression[];
+  sortKey: QueryRegressionSort;
+  onSort: (key: QueryRegressionSort) => void;
+  onCompare: (row: QueryPatternRegression) => void;
+}
+
+function RegressionsTable({ rows, sortKey, onSort, onCompare }: RegressionsTableProps) {
+  return (
+    <TooltipProvider delayDuration={300}>
+      <table className="w-full text-[12px]">
+        <thead className="sticky top-0 z-10 bg-ink-200/90 backdrop-blur">
+          <tr className="border-b border-ink-500">
+            {REGRESSION_COLUMNS.map((c, i) => {
+              const isActive = c.key !== null && c.key === sortKey;
+              return (
+                <th
+                  key={`${c.label}-${i}`}
+                  className={cn(
+                    "px-3 py-2 font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint",
+                    c.align === "right" ? "text-right" : "text-left",
+                    c.w
+                  )}
+                >
+                  {c.key !== null ? (
+                    <button
+                      type="button"
+                      onClick={() => onSort(c.key as QueryRegressionSort)}
+                      className={cn(
+                        "inline-flex items-center gap-1 rounded-xs transition-colors hover:text-paper",
+                        c.align === "right" && "flex-row-reverse",
+                        isActive && "text-brand"
+                      )}
+                      aria-label={`Sort by ${c.label}`}
+                    >
+                      <span>{c.label}</span>
+                      {isActive ? (
+                        <ArrowDown className="h-3 w-3" aria-hidden />
+                      ) : (
+                        <ArrowUpDown className="h-2.5 w-2.5 opacity-40" aria-hidden />
+                      )}
+                    </button>
+                  ) : (
+                    c.label
+                  )}
+                </th>
+              );
+            })}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r, i) => (
+            <RegressionRow key={`${r.current.sample.query_id}-${i}`} row={r} onCompare={onCompare} />
+          ))}
+        </tbody>
+      </table>
+    </TooltipProvider>
+  );
+}
+
+/** "+42%" / "−8%" for a current ÷ baseline ratio, tinted by how bad it is. */
+function RatioBadge({ ratio }: { ratio: number }) {
+  const pct = (ratio - 1) * 100;
+  const tone =
+    ratio >= 2
+      ? "text-red-300"
+      : ratio >= REGRESSION_MIN_RATIO
+        ? "text-amber-300"
+        : "text-paper-faint";
+  return (
+    <span className={cn("font-mono text-[10px] tabular-nums", tone)}>
+      {pct >= 0 ? "+" : "−"}
+      {Math.abs(pct) >= 1000 ? `${ratio.toFixed(0)}×` : `${Math.abs(pct).toFixed(0)}%`}
+    </span>
+  );
+}
+
+function RegressionMetricCell({
+  p50,
+  p95,
+  ratio,
+  format,
+}: {
+  p50: [number, number];
+  p95: [number, number];
+  ratio: number;
+  format: (v: number) => string;
+}) {
+  return (
+    <td className="px-3 py-1.5 text-right font-mono">
+      <div className="flex flex-col items-end gap-0.5">
+        <span className="flex items-baseline gap-1.5 text-paper">
+          {format(p95[1])}
+          <RatioBadge ratio={ratio} />
+        </span>
+        <span className="text-[10px] text-paper-faint">was {format(p95[0])} · p95</span>
+        <span className="text-[10px] text-paper-faint">
+          p50 {format(p50[0])} → {format(p50[1])}
+        </span>
+      </div>
+    </td>
+  );
+}
+
+function RegressionRow({
+  row,
+  onCompare,
+}: {
+  row: QueryPatternRegression;
+  onCompare: (row: QueryPatternRegression) => void;
+}) {
+  const { current: cur, baseline: base } = row;
+  return (
+    <tr className="group border-b border-ink-500/60 transition-colors hover:bg-ink-200/60">
+      <td className="px-3 py-1.5">
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <span className="cursor-help font-mono text-paper line-clamp-2">{row.pattern}</span>
+          </TooltipTrigger>
+          <TooltipContent
+            side="bottom"
+            align="start"
+            sideOffset={6}
+            className="max-w-[640px] rounded-xs border border-ink-700 bg-ink-200 p-0 text-paper shadow-2xl ring-1 ring-black/30"
+          >
+            <pre className="max-h-[360px] overflow-auto whitespace-pre-wrap break-words px-3 py-2 font-mono text-[11px] leading-[1.55] text-paper">
+              {highlightSql(row.pattern)}
+            </pre>
+          </TooltipContent>
+        </Tooltip>
+      </td>
+      <td className="px-3 py-1.5 text-right font-mono tabular-nums">
+        <div className="flex flex-col items-end gap-0.5">
+          <span className="text-paper">{cur.executions.toLocaleString()}</span>
+          <span className="text-[10px] text-paper-faint">was {base.executions.toLocaleString()}</span>
+        </div>
+      </td>
+      <RegressionMetricCell
+        p50={[base.p50_duration_ms, cur.p50_duration_ms]}
+        p95={[base.p95_duration_ms, cur.p95_duration_ms]}
+        ratio={row.ratios.duration}
+        format={formatDuration}
+      />
+      <RegressionMetricCell
+        p50={[base.p50_memory, cur.p50_memory]}
+        p95={[base.p95_memory, cur.p95_memory]}
+        ratio={row.ratios.memory}
+        format={formatBytes}
+      />
+      <RegressionMetricCell
+        p50={[base.p50_read_bytes, cur.p50_read_bytes]}
+        p95={[base.p95_read_bytes, cur.p95_read_bytes]}
+        ratio={row.ratios.read_bytes}
+        format={formatBytes}
+      />
+      <td className="px-3 py-1.5 text-right">
+        <RatioBadge ratio={row.worst_ratio} />
+      </td>
+      <td className="px-3 py-1.5">
+        <div className="flex items-center justify-end gap-1">
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <button
+                type="button"
+                onClick={() => onCompare(row)}
+                aria-label="Compare baseline and current runs"
+                className="grid h-6 w-6 shrink-0 place-items-center rounded-xs text-paper-faint transition-colors hover:bg-ink-300 hover:text-paper"
+              >
+                <GitCompare className="h-3 w-3" aria-hidden />
+              </button>
+            </TooltipTrigger>
+            <TooltipContent>Compare slowest runs</TooltipContent>
+          </Tooltip>
+          <OptimizeWithChouseAI
+            queryId={cur.sample.query_id}
+            query={cur.sample.query}
+            compact
+            heavy={row.worst_ratio >= 2}
+          />
+        </div>
+      </td>
+    </tr>
+  );
+}
+
 /* ============================================================
    By-table table — arrayJoin(tables) rollup
    ============================================================ */
@@ -1927,6 +2464,356 @@ function ByTableTableRow({
   );
 }
 
+/* ============================================================
+   By-user table — cost per CHouse (RBAC) user, for chargeback
+   ============================================================ */
+
+/** Download the by-user rollup as CSV, one row per user, with the window it covers. */
+function downloadUserCostsCsv(rows: AttributedUserCost[], windowStart: string, windowEnd: string) {
+  const csv = Papa.unparse(
+    rows.map((r) => ({
+      user: r.user_label,
+      email: r.user_email,
+      roles: r.roles.join("; "),
+      rbac_user_id: r.rbac_user_id,
+      window_start: windowStart,
+      window_end: windowEnd,
+      runs: r.executions,
+      failures: r.failures,
+      total_duration_ms: r.total_duration_ms,
+      avg_duration_ms: Math.round(r.avg_duration_ms),
+      cpu_seconds: Number(r.cpu_seconds.toFixed(3)),
+      avg_memory_bytes: Math.round(r.avg_memory),
+      max_memory_bytes: r.max_memory,
+      read_rows: r.total_read_rows,
+      read_bytes: r.total_read_bytes,
+    })),
+    // Names and emails are user-controlled — keep spreadsheets from running them as formulas.
+    { escapeFormulae: true }
+  );
+  const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `chouse-user-costs-${formatDate(new Date(), "yyyy-MM-dd-HHmm")}.csv`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+function formatCpuSeconds(seconds: number): string {
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  return formatDuration(seconds * 1000);
+}
+
+function UserCostBar({
+  canViewAllLogs,
+  exportDisabled,
+  onExport,
+}: {
+  canViewAllLogs: boolean;
+  exportDisabled: boolean;
+  onExport: () => void;
+}) {
+  return (
+    <div className="flex items-center gap-3 border-b border-ink-500 bg-ink-200/60 px-3 py-2">
+      <span className="text-[11px] text-paper-muted">
+        {canViewAllLogs
+          ? "Queries run through CHouse, attributed to the signed-in user. Direct ClickHouse clients are not included."
+          : "Your own queries run through CHouse."}{" "}
+        Click a user for their heaviest patterns.
+      </span>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={exportDisabled}
+        onClick={onExport}
+        className="ml-auto h-7 shrink-0 gap-1.5 rounded-xs border-ink-500 bg-ink-100 px-2.5 font-mono text-[10px] uppercase tracking-[0.14em] text-paper-muted hover:border-ink-700 hover:bg-ink-300 hover:text-paper"
+      >
+        <Download className="h-3 w-3" />
+        Export CSV
+      </Button>
+    </div>
+  );
+}
+
+interface ByUserColumn {
+  key: ByRbacUserSort | null;
+  label: string;
+  align: "left" | "right";
+  w?: string;
+}
+
+const BY_USER_COLUMNS: ByUserColumn[] = [
+  { key: null, label: "User · roles", align: "left" },
+  { key: "executions", label: "Runs", align: "right", w: "w-[80px]" },
+  { key: "failures", label: "Failed", align: "right", w: "w-[80px]" },
+  { key: "total_duration_ms", label: "Total dur", align: "right", w: "w-[100px]" },
+  { key: null, label: "Avg dur", align: "right", w: "w-[88px]" },
+  { key: "cpu_seconds", label: "CPU", align: "right", w: "w-[88px]" },
+  { key: "max_memory", label: "Max mem", align: "right", w: "w-[92px]" },
+  { key: "total_read_bytes", label: "Read bytes", align: "right", w: "w-[108px]" },
+];
+
+interface ByUserTableProps {
+  rows: AttributedUserCost[];
+  sortKey: ByRbacUserSort;
+  onSort: (key: ByRbacUserSort) => void;
+  onDrill: (row: AttributedUserCost) => void;
+  clusterMemoryBytes: number;
+}
+
+function ByUserTable({ rows, sortKey, onSort, onDrill, clusterMemoryBytes }: ByUserTableProps) {
+  return (
+    <TooltipProvider delayDuration={300}>
+      <table className="w-full text-[12px]">
+        <thead className="sticky top-0 z-10 bg-ink-200/90 backdrop-blur">
+          <tr className="border-b border-ink-500">
+            {BY_USER_COLUMNS.map((c, i) => {
+              const isActive = c.key !== null && c.key === sortKey;
+              const sortable = c.key !== null;
+              return (
+                <th
+                  key={`${c.label}-${i}`}
+                  className={cn(
+                    "px-3 py-2 font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint",
+                    c.align === "right" ? "text-right" : "text-left",
+                    c.w
+                  )}
+                >
+                  {sortable ? (
+                    <button
+                      type="button"
+                      onClick={() => onSort(c.key as ByRbacUserSort)}
+                      className={cn(
+                        "inline-flex items-center gap-1 rounded-xs transition-colors hover:text-paper",
+                        c.align === "right" && "flex-row-reverse",
+                        isActive && "text-brand"
+                      )}
+                      aria-label={`Sort by ${c.label}`}
+                    >
+                      <span>{c.label}</span>
+                      {isActive ? (
+                        <ArrowDown className="h-3 w-3" aria-hidden />
+                      ) : (
+                        <ArrowUpDown className="h-2.5 w-2.5 opacity-40" aria-hidden />
+                      )}
+                    </button>
+                  ) : (
+                    c.label
+                  )}
+                </th>
+              );
+            })}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <ByUserTableRow
+              key={r.rbac_user_id}
+              row={r}
+              onDrill={onDrill}
+              clusterMemoryBytes={clusterMemoryBytes}
+            />
+          ))}
+        </tbody>
+      </table>
+    </TooltipProvider>
+  );
+}
+
+function ByUserTableRow({
+  row,
+  onDrill,
+  clusterMemoryBytes,
+}: {
+  row: AttributedUserCost;
+  onDrill: (row: AttributedUserCost) => void;
+  clusterMemoryBytes: number;
+}) {
+  const memTier = memoryTier(row.max_memory, clusterMemoryBytes);
+  const memRatioPct =
+    clusterMemoryBytes > 0 ? (row.max_memory / clusterMemoryBytes) * 100 : 0;
+
+  return (
+    <tr
+      className="cursor-pointer border-b border-ink-500/60 transition-colors hover:bg-ink-200/60"
+      onClick={() => onDrill(row)}
+    >
+      <td className="px-3 py-1.5 font-mono">
+        <button
+          type="button"
+          className="text-left"
+          title={row.resolved ? row.user_email : row.rbac_user_id}
+          aria-label={`Show heaviest patterns for ${row.user_label}`}
+        >
+          <span className={row.resolved ? "text-paper" : "text-paper-muted italic"}>{row.user_label}</span>
+          {row.roles.length > 0 && (
+            <>
+              <span className="text-paper-faint"> · </span>
+              <span className="text-paper-muted">{row.roles.join(", ")}</span>
+            </>
+          )}
+        </button>
+      </td>
+      <td className="px-3 py-1.5 text-right font-mono tabular-nums text-paper">
+        {row.executions.toLocaleString()}
+      </td>
+      <td
+        className={cn(
+          "px-3 py-1.5 text-right font-mono tabular-nums",
+          row.failures > 0 ? "text-red-300" : "text-paper-faint"
+        )}
+      >
+        {row.failures.toLocaleString()}
+      </td>
+      <td className="px-3 py-1.5 text-right font-mono text-paper">
+        {formatDuration(row.total_duration_ms)}
+      </td>
+      <td className="px-3 py-1.5 text-right font-mono text-paper-muted">
+        {formatDuration(row.avg_duration_ms)}
+      </td>
+      <td className="px-3 py-1.5 text-right font-mono text-paper-muted">
+        {formatCpuSeconds(row.cpu_seconds)}
+      </td>
+      <td className="px-3 py-1.5 text-right font-mono">
+        <MemoryCell bytes={row.max_memory} tier={memTier} ratioPct={memRatioPct} />
+      </td>
+      <td className="px-3 py-1.5 text-right font-mono text-paper-muted">
+        {formatBytes(row.total_read_bytes)}
+      </td>
+    </tr>
+  );
+}
+
+interface UserPatternsDialogProps {
+  user: AttributedUserCost;
+  hoursBack: number;
+  customRange?: { start: string; end: string };
+  onClose: () => void;
+  /** Jump to the Queries view filtered to one execution of a pattern. */
+  onOpenSample: (queryId: string) => void;
+}
+
+function UserPatternsDialog({ user, hoursBack, customRange, onClose, onOpenSample }: UserPatternsDialogProps) {
+  const { data: patterns = [], isLoading, error } = useRbacUserPatterns(
+    user.rbac_user_id,
+    hoursBack,
+    customRange
+  );
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl rounded-md border-ink-500 bg-ink-100 p-0">
+        <DialogHeader className="border-b border-ink-500 px-5 py-4">
+          <DialogTitle className="text-[15px] font-medium tracking-tight text-paper">
+            {user.user_label} · heaviest patterns
+          </DialogTitle>
+          <DialogDescription className="font-mono text-[11px] text-paper-muted">
+            {user.executions.toLocaleString()} runs · {formatDuration(user.total_duration_ms)} total ·{" "}
+            {formatCpuSeconds(user.cpu_seconds)} CPU · {formatBytes(user.total_read_bytes)} read ·{" "}
+            {user.failures.toLocaleString()} failed
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-auto">
+          {isLoading ? (
+            <table className="w-full">
+              <tbody>
+                <SkeletonRows count={6} cols={7} />
+              </tbody>
+            </table>
+          ) : error ? (
+            <div className="flex h-40 flex-col items-center justify-center gap-2 px-4 text-center">
+              <span className="text-[13px] text-paper">Couldn't load patterns</span>
+              <span className="text-[12px] text-paper-muted">{error.message}</span>
+            </div>
+          ) : patterns.length === 0 ? (
+            <div className="flex h-40 items-center justify-center px-4 text-[12px] text-paper-muted">
+              No queries from this user in the window.
+            </div>
+          ) : (
+            <TooltipProvider delayDuration={300}>
+              <table className="w-full text-[12px]">
+                <thead className="sticky top-0 z-10 bg-ink-200/90 backdrop-blur">
+                  <tr className="border-b border-ink-500 font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint">
+                    <th className="px-3 py-2 text-left">Pattern</th>
+                    <th className="w-[72px] px-3 py-2 text-right">Runs</th>
+                    <th className="w-[72px] px-3 py-2 text-right">Failed</th>
+                    <th className="w-[96px] px-3 py-2 text-right">Total dur</th>
+                    <th className="w-[80px] px-3 py-2 text-right">CPU</th>
+                    <th className="w-[88px] px-3 py-2 text-right">Max mem</th>
+                    <th className="w-[96px] px-3 py-2 text-right">Read bytes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {patterns.map((p, i) => (
+                    <tr
+                      key={`${p.sample_query_id}-${i}`}
+                      className="border-b border-ink-500/60 transition-colors hover:bg-ink-200/60"
+                    >
+                      <td className="max-w-0 px-3 py-1.5">
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <button
+                              type="button"
+                              onClick={() => onOpenSample(p.sample_query_id)}
+                              className="w-full truncate text-left font-mono text-paper hover:text-brand"
+                            >
+                              {p.pattern}
+                            </button>
+                          </TooltipTrigger>
+                          <TooltipContent
+                            side="bottom"
+                            align="start"
+                            sideOffset={6}
+                            className="max-w-[640px] rounded-xs border border-ink-700 bg-ink-200 p-0 text-paper shadow-2xl ring-1 ring-black/30"
+                          >
+                            <div className="border-b border-ink-500 bg-ink-300 px-3 py-1.5 font-mono text-[9px] uppercase tracking-[0.18em] text-paper-muted">
+                              Click to open a sample run
+                            </div>
+                            <pre className="max-h-[360px] overflow-auto whitespace-pre-wrap break-words px-3 py-2 font-mono text-[11px] leading-[1.55] text-paper">
+                              {highlightSql(p.pattern)}
+                            </pre>
+                          </TooltipContent>
+                        </Tooltip>
+                      </td>
+                      <td className="px-3 py-1.5 text-right font-mono tabular-nums text-paper">
+                        {p.executions.toLocaleString()}
+                      </td>
+                      <td
+                        className={cn(
+                          "px-3 py-1.5 text-right font-mono tabular-nums",
+                          p.failures > 0 ? "text-red-300" : "text-paper-faint"
+                        )}
+                      >
+                        {p.failures.toLocaleString()}
+                      </td>
+                      <td className="px-3 py-1.5 text-right font-mono text-paper">
+                        {formatDuration(p.total_duration_ms)}
+                      </td>
+                      <td className="px-3 py-1.5 text-right font-mono text-paper-muted">
+                        {formatCpuSeconds(p.cpu_seconds)}
+                      </td>
+                      <td className="px-3 py-1.5 text-right font-mono text-paper-muted">
+                        {formatBytes(p.max_memory)}
+                      </td>
+                      <td className="px-3 py-1.5 text-right font-mono text-paper-muted">
+                        {formatBytes(p.total_read_bytes)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </TooltipProvider>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 /* ============================================================
    By Redash table — group by query_id extracted from Redash's
    leading SQL comment /* …, query_id: NNN, … *\/. Mirrors the
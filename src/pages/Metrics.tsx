@@ -55,9 +55,10 @@ import { ServerMemoryBreakdown } from "@/components/monitoring/ServerMemoryBreak
 import { TopResourceQueriesPanel } from "@/components/monitoring/TopResourceQueriesPanel";
 import { PartsPressureSummary, PartsPressureTable } from "@/components/monitoring/PartsPressurePanel";
 import ConnectionBreakdownPanel from "@/components/monitoring/ConnectionBreakdownPanel";
-import { useMetrics, useProductionMetrics, usePartsPressure } from "@/hooks";
+import { useMetrics, useProductionMetrics, usePartsPressure, useDiskForecast } from "@/hooks";
 import { cn, formatBytes as formatBytesUtil, formatCompactNumber, formatNumber } from "@/lib/utils";
 import { useRbacStore, RBAC_PERMISSIONS } from "@/stores";
+import type { DiskForecast } from "@/api/fleet";
 
 interface StatCardProps {
   title: string;
@@ -327,6 +328,35 @@ const formatMs = (ms: number): string => {
   return `${(ms / 60000).toFixed(1)}m`;
 };
 
+// Projected "disk full" line under a Storage-tab disk bar. Colour follows the
+// same urgency bands as the usage bar (red inside a week, amber inside a month).
+function DiskForecastLine({ forecast }: { forecast?: DiskForecast }) {
+  if (!forecast || forecast.growthBytesPerDay === null) {
+    return (
+      <p className="font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint">
+        Forecast: collecting history
+      </p>
+    );
+  }
+  if (forecast.fullAt === null || forecast.daysToFull === null) {
+    return (
+      <p className="font-mono text-[10px] uppercase tracking-[0.14em] text-paper-faint">
+        Forecast: not growing
+      </p>
+    );
+  }
+  const days = forecast.daysToFull;
+  return (
+    <p className={cn(
+      "font-mono text-[10px] uppercase tracking-[0.14em]",
+      days < 7 ? "text-red-400" : days < 30 ? "text-amber-400" : "text-paper-faint"
+    )}>
+      Full ~{new Date(forecast.fullAt * 1000).toLocaleDateString()} ({days < 1 ? "<1" : Math.round(days)}d)
+      {" · "}+{formatBytes(forecast.growthBytesPerDay ?? 0)}/day
+    </p>
+  );
+}
+
 // Get interval minutes from time range string
 const getIntervalMinutes = (timeRange: string): number => {
   const config: Record<string, number> = {
@@ -499,6 +529,14 @@ export default function Metrics({
     refetchOnWindowFocus: false,
   });
 
+  // Projected fill date per disk, fitted server-side to the fleet poller's
+  // usage history. Keyed by disk name for the Storage tab.
+  const { data: diskForecasts } = useDiskForecast();
+  const diskForecastByName = useMemo(
+    () => new Map((diskForecasts ?? []).map((f) => [f.disk, f])),
+    [diskForecasts],
+  );
+
   // Combined loading/fetching state
   const isAnyLoading = isLoading || prodLoading;
   const isAnyFetching = isFetching || prodFetching || partsFetching;
@@ -1780,6 +1818,7 @@ export default function Metrics({
                                   <span>Used: {formatBytes(disk.used_space)}</span>
                                   <span>Free: {formatBytes(disk.free_space)}</span>
                                 </div>
+                                <DiskForecastLine forecast={diskForecastByName.get(disk.name)} />
                               </div>
                             ))}
                           </div>
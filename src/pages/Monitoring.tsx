@@ -10,6 +10,7 @@ import {
   TableProperties,
   Network,
   ShieldAlert,
+  BookOpen,
   type LucideIcon,
 } from "lucide-react";
 import InfoDialog from "@/components/common/InfoDialog";
@@ -26,6 +27,7 @@ import SchemaDoctorPage from "./SchemaDoctor";
 import NoPermission from "@/components/common/NoPermission";
 import ClusterActivityPage from "./ClusterActivity";
 import ErrorsPage from "./Errors";
+import DictionariesPage from "./Dictionaries";
 
 interface TabConfig {
   icon: LucideIcon;
@@ -71,6 +73,11 @@ const TAB_CONFIG: Record<TabKey, TabConfig> = {
     label: "Errors",
     description: "Error counters & crashes",
   },
+  dictionaries: {
+    icon: BookOpen,
+    label: "Dictionaries",
+    description: "Load status, failures & reloads",
+  },
 };
 
 type TabKey =
@@ -80,7 +87,8 @@ type TabKey =
   | "parts"
   | "schema"
   | "cluster"
-  | "errors";
+  | "errors"
+  | "dictionaries";
 
 interface TabPillProps {
   tabKey: TabKey;
@@ -157,6 +165,7 @@ export default function Monitoring() {
   const canViewSchema = hasPermission(RBAC_PERMISSIONS.SCHEMA_ADVISOR_VIEW);
   const canViewCluster = hasPermission(RBAC_PERMISSIONS.CLUSTER_VIEW);
   const canViewErrors = hasPermission(RBAC_PERMISSIONS.ERRORS_VIEW);
+  const canViewDictionaries = hasPermission(RBAC_PERMISSIONS.DICTIONARIES_VIEW);
 
   const availableTabs: TabKey[] = [
     ...(canViewLogs ? (["logs"] as TabKey[]) : []),
@@ -165,6 +174,7 @@ export default function Monitoring() {
     ...(canViewSchema ? (["schema"] as TabKey[]) : []),
     ...(canViewCluster ? (["cluster"] as TabKey[]) : []),
     ...(canViewErrors ? (["errors"] as TabKey[]) : []),
+    ...(canViewDictionaries ? (["dictionaries"] as TabKey[]) : []),
     ...(canViewLiveQueries ? (["live-queries"] as TabKey[]) : []),
   ];
 
@@ -356,6 +366,18 @@ export default function Monitoring() {
             />
           </div>
         )}
+
+        {activeTab === "dictionaries" && canViewDictionaries && (
+          <div className="h-full overflow-hidden rounded-md border border-ink-500 bg-ink-100">
+            <DictionariesPage
+              embedded
+              onboardingView={onboardingView}
+              refreshKey={refreshKey}
+              autoRefresh={autoRefresh}
+              onRefreshChange={setIsRefreshing}
+            />
+          </div>
+        )}
           </>
         )}
       </div>
@@ -393,6 +415,7 @@ export default function Monitoring() {
                       {key === "schema" && "Lint columns for needless Nullable wrappers and oversized integers."}
                       {key === "cluster" && "Replication queue & mutations, plus cluster topology, Distributed insert backlog, and the ON CLUSTER DDL queue."}
                       {key === "errors" && "Server-wide error counters from system.errors and any crashes from system.crash_log."}
+                      {key === "dictionaries" && "Every dictionary from system.dictionaries with failed and overdue loads first; reload or create one from here."}
                     </span>
                   </div>
                 </div>
@@ -1,6 +1,7 @@
 import React, { useState, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
 import {
   Server,
   Database,
@@ -22,15 +23,21 @@ import {
   Clock,
   MonitorSmartphone,
   RotateCcw,
+  KeyRound,
+  Plus,
+  Trash2,
+  Newspaper,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { useAuthStore, useRbacStore, usePreferencesStore } from "@/stores";
+import { useAuthStore, useRbacStore, usePreferencesStore, RBAC_PERMISSIONS } from "@/stores";
 import { RESULT_ROWS_MIN, RESULT_ROWS_MAX, RESULT_ROWS_DEFAULT } from "@/stores/preferences";
 import { useAppPreferences } from "@/hooks/useAppPreferences";
 import { useNavigate } from "react-router-dom";
 import { cn } from "@/lib/utils";
-import { rbacAuthApi, rbacConnectionsApi } from "@/api/rbac";
+import { rbacApiKeysApi, rbacAuthApi, rbacConnectionsApi, type ApiKey } from "@/api/rbac";
+import { ApiKeyDialog, API_KEYS_QUERY_KEY } from "@/features/rbac/components";
 import { getSessionId } from "@/api/client";
+import { listDigests, setDigestSubscription, type OpsDigest } from "@/api/alerting";
 import ConfirmationDialog from "@/components/common/ConfirmationDialog";
 import { useTheme } from "@/components/common/theme-provider";
 import { log } from "@/lib/log";
@@ -588,19 +595,31 @@ const DataAccessCard: React.FC<{
                                         />
                                         <span className="font-mono text-[12px] text-paper-muted">
                                           {rule.tablePattern === "*" ? "All tables" : rule.tablePattern}
+                                          {rule.columnPattern && `.${rule.columnPattern}`}
                                         </span>
+                                        {rule.rowFilter && (
+                                          <span className="truncate font-mono text-[11px] text-paper-faint" title={rule.rowFilter}>
+                                            where {rule.rowFilter}
+                                          </span>
+                                        )}
                                       </div>
                                       <div className="flex items-center gap-1.5">
-                                        <span
-                                          className={cn(
-                                            "inline-flex items-center rounded-xs px-1.5 py-0.5 font-mono text-[10px] uppercase tracking-[0.14em]",
-                                            rule.isAllowed
-                                              ? "border border-emerald-300 bg-emerald-50 text-emerald-700 dark:border-emerald-900/60 dark:bg-emerald-950/40 dark:text-emerald-300"
-                                              : "border border-red-300 bg-red-50 text-red-700 dark:border-red-900/60 dark:bg-red-950/40 dark:text-red-300",
-                                          )}
-                                        >
-                                          {rule.isAllowed ? "Allow" : "Deny"}
-                                        </span>
+                                        {rule.columnPattern ? (
+                                          <span className="inline-flex items-center rounded-xs border border-amber-300 bg-amber-50 px-1.5 py-0.5 font-mono text-[10px] uppercase tracking-[0.14em] text-amber-700 dark:border-amber-900/60 dark:bg-amber-950/40 dark:text-amber-300">
+                                            {rule.columnAction === "deny" ? "Column denied" : `Masked · ${rule.columnAction}`}
+                                          </span>
+                                        ) : (
+                                          <span
+                                            className={cn(
+                                              "inline-flex items-center rounded-xs px-1.5 py-0.5 font-mono text-[10px] uppercase tracking-[0.14em]",
+                                              rule.isAllowed
+                                                ? "border border-emerald-300 bg-emerald-50 text-emerald-700 dark:border-emerald-900/60 dark:bg-emerald-950/40 dark:text-emerald-300"
+                                                : "border border-red-300 bg-red-50 text-red-700 dark:border-red-900/60 dark:bg-red-950/40 dark:text-red-300",
+                                            )}
+                                          >
+                                            {rule.isAllowed ? "Allow" : "Deny"}
+                                          </span>
+                                        )}
                                       </div>
                                     </div>
                                   ))}
@@ -683,6 +702,223 @@ const EffectivePermissionsCard: React.FC<{ permissions: string[] }> = ({ permiss
   );
 };
 
+// ============================================
+// API Keys Card
+// ============================================
+
+const apiKeyStatus = (key: ApiKey): { label: string; tone: string } => {
+  if (key.revokedAt) return { label: "Revoked", tone: "border-ink-500 text-paper-faint" };
+  if (key.expiresAt && new Date(key.expiresAt).getTime() <= Date.now()) {
+    return { label: "Expired", tone: "border-amber-900/60 text-amber-400" };
+  }
+  return { label: "Active", tone: "border-emerald-900/60 text-emerald-400" };
+};
+
+const formatKeyDate = (value: string | null, fallback: string): string =>
+  value ? new Date(value).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" }) : fallback;
+
+const ApiKeysCard: React.FC<{ permissions: string[] }> = ({ permissions }) => {
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [revoking, setRevoking] = useState<ApiKey | null>(null);
+
+  const { data: keys = [], isLoading } = useQuery({
+    queryKey: API_KEYS_QUERY_KEY,
+    queryFn: () => rbacApiKeysApi.list(),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => rbacApiKeysApi.revoke(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: API_KEYS_QUERY_KEY });
+      toast.success("API key revoked");
+      setRevoking(null);
+    },
+    onError: (e) => toast.error(e instanceof Error ? e.message : "Failed to revoke API key"),
+  });
+
+  const activeCount = keys.filter((k) => apiKeyStatus(k).label === "Active").length;
+
+  return (
+    <SettingCard
+      title="API keys"
+      description="Personal keys for scripts and CI"
+      icon={KeyRound}
+      delay={0.6}
+      className="md:col-span-3"
+    >
+      <ApiKeyDialog open={dialogOpen} onClose={() => setDialogOpen(false)} availableScopes={permissions} />
+      <ConfirmationDialog
+        isOpen={revoking !== null}
+        onClose={() => setRevoking(null)}
+        onConfirm={() => revoking && revokeMutation.mutate(revoking.id)}
+        title="Revoke API key"
+        description={`Scripts using "${revoking?.name ?? ""}" will stop working immediately. This cannot be undone.`}
+        confirmText={revokeMutation.isPending ? "Revoking..." : "Revoke"}
+        cancelText="Cancel"
+        variant="danger"
+      />
+      <div className="flex h-full flex-col gap-3">
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-[12px] text-paper-muted">
+            Send as <code className="font-mono text-paper">Authorization: Bearer chk_…</code>. A key acts as you,
+            limited to the scopes you pick.
+          </p>
+          <Button
+            size="sm"
+            onClick={() => setDialogOpen(true)}
+            disabled={permissions.length === 0}
+            className="h-8 gap-1.5 rounded-xs bg-brand px-3 font-mono text-[11px] font-semibold uppercase tracking-[0.14em] text-ink-50 hover:bg-brand-soft"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            New key
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className={cn(MONO_FAINT, "py-6 text-center")}>Loading…</p>
+        ) : keys.length === 0 ? (
+          <div className="rounded-xs border border-ink-500 bg-ink-200 px-4 py-8 text-center">
+            <p className={cn(MONO_LABEL, "tracking-[0.18em]")}>No API keys yet</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {keys.map((key) => {
+              const status = apiKeyStatus(key);
+              return (
+                <div
+                  key={key.id}
+                  className="flex flex-wrap items-center justify-between gap-3 rounded-xs border border-ink-500 bg-ink-200 px-3 py-2.5"
+                >
+                  <div className="flex min-w-0 flex-col gap-1">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate text-[13px] font-medium tracking-tight text-paper">{key.name}</span>
+                      <span className="font-mono text-[11px] text-paper-muted">{key.keyPrefix}…</span>
+                      <span
+                        className={cn(
+                          "rounded-xs border px-1.5 py-0.5 font-mono text-[9px] uppercase tracking-[0.14em]",
+                          status.tone,
+                        )}
+                      >
+                        {status.label}
+                      </span>
+                    </div>
+                    <span className={MONO_FAINT}>
+                      {key.scopes.length} {key.scopes.length === 1 ? "scope" : "scopes"} · expires{" "}
+                      {formatKeyDate(key.expiresAt, "never")} · last used {formatKeyDate(key.lastUsedAt, "never")}
+                    </span>
+                  </div>
+                  {!key.revokedAt && (
+                    <button
+                      type="button"
+                      onClick={() => setRevoking(key)}
+                      className="rounded-xs border border-ink-500 bg-ink-100 p-1.5 text-paper-dim transition-colors hover:border-red-900/60 hover:text-red-300"
+                      title="Revoke"
+                      aria-label={`Revoke ${key.name}`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" aria-hidden />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="mt-auto">
+          <StatusFooter label="Active keys" meta={`${activeCount} of ${keys.length}`} />
+        </div>
+      </div>
+    </SettingCard>
+  );
+};
+
+// ============================================
+// Digests Card
+// ============================================
+
+const DIGESTS_QUERY_KEY = ["alerting", "digests"] as const;
+
+const DigestsCard: React.FC<{ email: string | undefined }> = ({ email }) => {
+  const queryClient = useQueryClient();
+  const { data: digests = [], isLoading } = useQuery({
+    queryKey: DIGESTS_QUERY_KEY,
+    queryFn: () => listDigests(),
+  });
+
+  const subscribeMutation = useMutation({
+    mutationFn: ({ id, subscribed }: { id: string; subscribed: boolean }) => setDigestSubscription(id, subscribed),
+    onSuccess: (_, { subscribed }) => {
+      queryClient.invalidateQueries({ queryKey: DIGESTS_QUERY_KEY });
+      toast.success(subscribed ? "Subscribed to digest" : "Unsubscribed from digest");
+    },
+    onError: (e) => toast.error(e instanceof Error ? e.message : "Failed to update subscription"),
+  });
+
+  const subscribedCount = digests.filter((d: OpsDigest) => d.subscribed).length;
+
+  return (
+    <SettingCard
+      title="Digests"
+      description="Operational summaries by email"
+      icon={Newspaper}
+      delay={0.7}
+      className="md:col-span-3"
+    >
+      <div className="flex h-full flex-col gap-3">
+        <p className="text-[12px] text-paper-muted">
+          Fleet breaches, Doctor verdicts, scheduled-query failures, data health incidents and the costliest
+          query patterns, sent to <span className="font-mono text-paper">{email || "your account email"}</span>.
+          Digests cover every connection, so opting in needs access to all of them.
+        </p>
+
+        {isLoading ? (
+          <p className={cn(MONO_FAINT, "py-6 text-center")}>Loading…</p>
+        ) : digests.length === 0 ? (
+          <div className="rounded-xs border border-ink-500 bg-ink-200 px-4 py-8 text-center">
+            <p className={cn(MONO_LABEL, "tracking-[0.18em]")}>No digests set up yet</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {digests.map((digest) => (
+              <div
+                key={digest.id}
+                className="flex items-center justify-between gap-3 rounded-xs border border-ink-500 bg-ink-200 px-3 py-2.5"
+              >
+                <div className="flex min-w-0 flex-col gap-1">
+                  <span className="truncate text-[13px] font-medium tracking-tight text-paper">{digest.name}</span>
+                  <span className={MONO_FAINT}>
+                    Covers the {digest.windowDays === 1 ? "last 24 hours" : `last ${digest.windowDays} days`}
+                    {digest.enabled ? "" : " · paused"}
+                  </span>
+                </div>
+                <button
+                  type="button"
+                  aria-pressed={digest.subscribed}
+                  disabled={subscribeMutation.isPending}
+                  onClick={() => subscribeMutation.mutate({ id: digest.id, subscribed: !digest.subscribed })}
+                  className={cn(
+                    "shrink-0 rounded-xs border px-3 py-1.5 font-mono text-[12px] transition-colors disabled:opacity-50",
+                    digest.subscribed
+                      ? "border-brand bg-brand/[0.08] text-brand"
+                      : "border-ink-500 bg-ink-200 text-paper-muted hover:border-ink-700 hover:text-paper"
+                  )}
+                >
+                  {digest.subscribed ? "Subscribed" : "Email me"}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="mt-auto">
+          <StatusFooter label="Subscribed" meta={`${subscribedCount} of ${digests.length}`} />
+        </div>
+      </div>
+    </SettingCard>
+  );
+};
+
 // ============================================
 // Main Component
 // ============================================
@@ -690,7 +926,7 @@ const EffectivePermissionsCard: React.FC<{ permissions: string[] }> = ({ permiss
 export default function Preferences() {
   const navigate = useNavigate();
   const { url, version } = useAuthStore();
-  const { logout: rbacLogout, user: storeUser, isAdmin } = useRbacStore();
+  const { logout: rbacLogout, user: storeUser, isAdmin, hasPermission } = useRbacStore();
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
   const [isLoggingOut, setIsLoggingOut] = useState(false);
 
@@ -867,6 +1103,10 @@ export default function Preferences() {
             <EffectivePermissionsCard permissions={user?.permissions || []} />
             {/* Row 3: Appearance + query settings — full row */}
             <AppearanceCard />
+            {/* Row 4: Personal API keys — full row */}
+            <ApiKeysCard permissions={user?.permissions || []} />
+            {/* Row 5: Digest opt-ins — only for users who can see alerting */}
+            {hasPermission(RBAC_PERMISSIONS.ALERTING_VIEW) && <DigestsCard email={user?.email} />}
           </div>
         </div>
       </div>
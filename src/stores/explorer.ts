@@ -80,6 +80,8 @@ export interface ExplorerState {
   selectedDatabaseForUpload: string;
   selectedDatabase: string;
   selectedTableForAlter: string;
+  createDictionaryModalOpen: boolean;
+  selectedDatabaseForCreateDictionary: string;
 
   // Actions
   fetchDatabases: () => Promise<void>;
@@ -100,6 +102,8 @@ export interface ExplorerState {
   closeUploadFileModal: () => void;
   openAlterTableModal: (database: string, table: string) => void;
   closeAlterTableModal: () => void;
+  openCreateDictionaryModal: (database: string) => void;
+  closeCreateDictionaryModal: () => void;
 
   // Utility
   refreshAll: () => Promise<void>;
@@ -277,6 +281,8 @@ export const useExplorerStore = create<ExplorerState>()(
   selectedDatabaseForUpload: '',
   selectedDatabase: '',
   selectedTableForAlter: '',
+  createDictionaryModalOpen: false,
+  selectedDatabaseForCreateDictionary: '',
 
   /**
    * Fetch all databases and tables
@@ -447,6 +453,20 @@ export const useExplorerStore = create<ExplorerState>()(
     });
   },
 
+  openCreateDictionaryModal: (database: string) => {
+    set({
+      createDictionaryModalOpen: true,
+      selectedDatabaseForCreateDictionary: database,
+    });
+  },
+
+  closeCreateDictionaryModal: () => {
+    set({
+      createDictionaryModalOpen: false,
+      selectedDatabaseForCreateDictionary: '',
+    });
+  },
+
   /**
    * Refresh all explorer data
    */
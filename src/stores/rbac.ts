@@ -477,6 +477,11 @@ export const RBAC_PERMISSIONS = {
   SCHEMA_ADVISOR_VIEW: 'schema_advisor:view',
   CLUSTER_VIEW: 'cluster:view',
   ERRORS_VIEW: 'errors:view',
+  // KILL MUTATION from Cluster Activity
+  MUTATIONS_KILL: 'mutations:kill',
+  // Dictionaries tab (system.dictionaries) and SYSTEM RELOAD DICTIONARY
+  DICTIONARIES_VIEW: 'dictionaries:view',
+  DICTIONARIES_RELOAD: 'dictionaries:reload',
 
   // Settings
   SETTINGS_VIEW: 'settings:view',
@@ -497,6 +502,14 @@ export const RBAC_PERMISSIONS = {
   CONNECTIONS_EDIT: 'connections:edit',
   CONNECTIONS_DELETE: 'connections:delete',
 
+  // Change Requests (DDL/DML on protected connections)
+  CHANGE_REQUESTS_APPROVE: 'change_requests:approve',
+
+  // Backups
+  BACKUPS_VIEW: 'backups:view',
+  BACKUPS_CREATE: 'backups:create',
+  BACKUPS_RESTORE: 'backups:restore',
+
   // Fleet & Chouse AI (Fleet Doctor)
   FLEET_VIEW: 'fleet:view',
   DOCTOR_VIEW: 'doctor:view',
@@ -536,6 +549,10 @@ export const RBAC_PERMISSIONS = {
   DATA_HEALTH_DELETE: 'data_health:delete',
   DATA_HEALTH_RUN: 'data_health:run',
   DATA_HEALTH_VIEW_ALL: 'data_health:view_all',
+
+  // Dashboards
+  DASHBOARDS_VIEW: 'dashboards:view',
+  DASHBOARDS_EDIT: 'dashboards:edit',
 } as const;
 
 export type RbacPermission = typeof RBAC_PERMISSIONS[keyof typeof RBAC_PERMISSIONS];
@@ -9,8 +9,9 @@ import { persist } from 'zustand/middleware';
 import { queryApi, queryHistoryApi, savedQueriesApi } from '@/api';
 import type { QueryHistoryItem, QueryHistoryStatus } from '@/api/queryHistory';
 import { log } from '@/lib/log';
+import { pickQueryParams } from '@/lib/queryParams';
 import { usePreferencesStore } from './preferences';
-import type { QueryResult, QueryMeta, QueryStatistics } from '@/api';
+import type { QueryResult, QueryMeta, QueryStatistics, SavedQueryChartConfig } from '@/api';
 import { toast } from 'sonner';
 import { useRbacStore } from './rbac';
 import { useAuthStore } from './auth';
@@ -34,6 +35,16 @@ export interface Tab {
   isSaved?: boolean;
   result?: QueryResult | null;
   isDirty?: boolean;
+  /** Values for the `{name:Type}` placeholders in `content`, keyed by name */
+  queryParams?: Record<string, string>;
+  /** Chart view settings for the result, once the user opens the Chart tab */
+  chartConfig?: SavedQueryChartConfig;
+}
+
+/** Folder and tags chosen in the save dialog; omitted fields are left unchanged */
+export interface SavedQueryOrganization {
+  folder?: string | null;
+  tags?: string[];
 }
 
 export type { QueryHistoryItem, QueryHistoryStatus } from '@/api/queryHistory';
@@ -65,8 +76,8 @@ export interface WorkspaceState {
   clearQueryHistory: () => void;
 
   // Saved queries actions
-  saveQuery: (tabId: string, name: string, query: string, isPublic?: boolean) => Promise<void>;
-  updateSavedQuery: (tabId: string, query: string, name?: string) => Promise<void>;
+  saveQuery: (tabId: string, name: string, query: string, isPublic?: boolean, organization?: SavedQueryOrganization) => Promise<void>;
+  updateSavedQuery: (tabId: string, query: string, name?: string, organization?: SavedQueryOrganization) => Promise<void>;
   deleteSavedQuery: (id: string) => Promise<void>;
 
   // Utility
@@ -393,6 +404,10 @@ export const useWorkspaceStore = create<WorkspaceState>()(
         });
 
         const { maxResultRows } = usePreferencesStore.getState();
+        const queryParams = pickQueryParams(
+          query,
+          tabId ? get().getTabById(tabId)?.queryParams : undefined,
+        );
 
         queryApi.executeQueryStream(
           query,
@@ -500,7 +515,8 @@ export const useWorkspaceStore = create<WorkspaceState>()(
               recordHistory('error', 0, message);
               resolveStream(errorResult);
             },
-          }
+          },
+          queryParams,
         ).catch((error: unknown) => {
           // AbortError = user pressed Stop — silent cancellation
           if (error instanceof DOMException && error.name === "AbortError") {
@@ -618,10 +634,11 @@ export const useWorkspaceStore = create<WorkspaceState>()(
        * Save a query (creates a new saved query)
        * Updates the tab with the new saved query's ID
        */
-      saveQuery: async (tabId: string, name: string, query: string, isPublic = false) => {
+      saveQuery: async (tabId: string, name: string, query: string, isPublic = false, organization?: SavedQueryOrganization) => {
         const authState = useAuthStore.getState();
         const connectionId = authState.activeConnectionId;
         const connectionName = authState.activeConnectionName;
+        const parameters = pickQueryParams(query, get().getTabById(tabId)?.queryParams) ?? null;
 
         try {
           const savedQuery = await savedQueriesApi.saveQuery({
@@ -629,7 +646,11 @@ export const useWorkspaceStore = create<WorkspaceState>()(
             connectionName: connectionName ?? undefined,
             name,
             query,
-            isPublic
+            isPublic,
+            parameters,
+            chartConfig: get().getTabById(tabId)?.chartConfig ?? null,
+            folder: organization?.folder,
+            tags: organization?.tags,
           });
 
           // Update the tab: change its ID to match the saved query's ID
@@ -666,8 +687,9 @@ export const useWorkspaceStore = create<WorkspaceState>()(
        * @param tabId - The tab/query ID
        * @param query - The query content
        * @param name - Optional new name for the query
+       * @param organization - Optional folder/tags (auto-save leaves them unchanged)
        */
-      updateSavedQuery: async (tabId: string, query: string, name?: string) => {
+      updateSavedQuery: async (tabId: string, query: string, name?: string, organization?: SavedQueryOrganization) => {
         const connectionId = useAuthStore.getState().activeConnectionId;
         const tab = get().getTabById(tabId);
         if (!tab) {
@@ -675,9 +697,17 @@ export const useWorkspaceStore = create<WorkspaceState>()(
         }
 
         const queryName = name?.trim() || tab.title;
+        const parameters = pickQueryParams(query, tab.queryParams) ?? null;
 
         try {
-          await savedQueriesApi.updateSavedQuery(tabId, { name: queryName, query });
+          await savedQueriesApi.updateSavedQuery(tabId, {
+            name: queryName,
+            query,
+            parameters,
+            chartConfig: tab.chartConfig ?? null,
+            folder: organization?.folder,
+            tags: organization?.tags,
+          });
           get().updateTab(tabId, { content: query, title: queryName });
 
           // Invalidate the saved queries cache to refresh the list
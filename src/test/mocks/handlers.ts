@@ -52,6 +52,24 @@ export const handlers = [
     });
   }),
 
+  http.get(`${API_BASE}/explorer/table/:database/:table/lineage`, ({ params, request }) => {
+    const focus = `${params.database}.${params.table}`;
+    const windowDays = Number(new URL(request.url).searchParams.get('window') ?? 14);
+    return HttpResponse.json({
+      success: true,
+      data: {
+        focusTable: focus, connectionId: 'conn-1', windowDays, observedAt: 0,
+        nodes: [
+          { id: 'table:default.staging', kind: 'table', label: 'default.staging', database: 'default', table: 'staging', columns: [], produced: false, engine: 'MergeTree' },
+          { id: `table:${focus}`, kind: 'table', label: focus, database: String(params.database), table: String(params.table), columns: [], produced: false, engine: 'MergeTree' },
+        ],
+        edges: [
+          { id: `insert:default.staging->${focus}`, from: 'table:default.staging', to: `table:${focus}`, kind: 'insert', columns: [], queryCount: 4, users: ['etl'] },
+        ],
+      }
+    });
+  }),
+
   http.post(`${API_BASE}/explorer/database`, () => {
     return HttpResponse.json({ success: true, data: { message: 'Database created successfully' } });
   }),
@@ -60,6 +78,23 @@ export const handlers = [
     return HttpResponse.json({ success: true, data: { message: 'Database dropped successfully' } });
   }),
 
+  http.post(`${API_BASE}/explorer/dictionary`, async ({ request }) => {
+    const body = await request.json() as { database: string; name: string; dryRun?: boolean };
+    const statement = `CREATE DICTIONARY \`${body.database}\`.\`${body.name}\` (...)`;
+    return HttpResponse.json({
+      success: true,
+      data: body.dryRun ? { statement } : { message: 'Dictionary created successfully', statement },
+    });
+  }),
+
+  http.post(`${API_BASE}/explorer/dictionary/reload`, async ({ request }) => {
+    const body = await request.json() as { database: string; name: string };
+    return HttpResponse.json({
+      success: true,
+      data: { database: body.database, name: body.name, status: 'LOADED', element_count: 250, last_exception: '' },
+    });
+  }),
+
   // Saved queries
   http.get(`${API_BASE}/saved-queries`, () => {
     return HttpResponse.json({
@@ -101,6 +136,180 @@ export const handlers = [
     return HttpResponse.json({ success: true, data: { message: 'Query deleted successfully' } });
   }),
 
+  http.get(`${API_BASE}/saved-queries/:id/revisions`, ({ params }) => {
+    return HttpResponse.json({
+      success: true,
+      data: [2, 1].map((version) => ({
+        id: `rev-${version}`, savedQueryId: params.id as string, version,
+        name: 'User Stats', query: version === 2 ? 'SELECT * FROM users' : 'SELECT id FROM users',
+        description: null, editedBy: 'user-123', createdAt: '2024-01-01T00:00:00Z'
+      }))
+    });
+  }),
+
+  http.post(`${API_BASE}/saved-queries/:id/revisions/:revisionId/restore`, ({ params }) => {
+    return HttpResponse.json({
+      success: true,
+      data: {
+        id: params.id as string, userId: 'user-123', connectionId: 'conn-1', connectionName: 'Production',
+        name: 'User Stats', query: 'SELECT id FROM users', description: null,
+        isPublic: false, folder: null, tags: [], createdAt: '2024-01-01T00:00:00Z', updatedAt: new Date().toISOString()
+      }
+    });
+  }),
+
+  // Dashboards
+  http.get(`${API_BASE}/dashboards`, () => {
+    return HttpResponse.json({
+      success: true,
+      data: [{
+        id: 'dash-1', userId: 'user-123', name: 'Revenue', description: null, isPublic: true,
+        tiles: [{ id: 'tile-1', savedQueryId: 'query-1', title: null, chartConfig: { chartType: 'line' }, width: 6, height: 2, refreshSecs: 60 }],
+        parameters: { timeRange: '24h', values: {} }, createdAt: 1_700_000_000_000, updatedAt: 1_700_000_000_000
+      }]
+    });
+  }),
+
+  http.get(`${API_BASE}/dashboards/:id`, ({ params }) => {
+    return HttpResponse.json({
+      success: true,
+      data: {
+        id: params.id as string, userId: 'user-123', name: 'Revenue', description: null, isPublic: true,
+        tiles: [{ id: 'tile-1', savedQueryId: 'query-1', title: null, chartConfig: { chartType: 'line' }, width: 6, height: 2, refreshSecs: 60 }],
+        parameters: { timeRange: '24h', values: {} }, createdAt: 1_700_000_000_000, updatedAt: 1_700_000_000_000,
+        queries: {
+          'query-1': {
+            id: 'query-1', userId: 'user-123', connectionId: 'conn-1', connectionName: 'Production',
+            name: 'User Stats', query: 'SELECT * FROM users', description: null,
+            isPublic: false, createdAt: '2024-01-01T00:00:00Z', updatedAt: '2024-01-01T00:00:00Z'
+          }
+        }
+      }
+    });
+  }),
+
+  http.post(`${API_BASE}/dashboards`, async ({ request }) => {
+    const body = await request.json() as any;
+    return HttpResponse.json({
+      success: true,
+      data: { id: 'dash-new', userId: 'user-123', description: null, isPublic: false, tiles: [], parameters: { timeRange: null, values: {} }, ...body, queries: {}, createdAt: Date.now(), updatedAt: Date.now() }
+    }, { status: 201 });
+  }),
+
+  http.put(`${API_BASE}/dashboards/:id`, async ({ params, request }) => {
+    const body = await request.json() as any;
+    return HttpResponse.json({
+      success: true,
+      data: { id: params.id as string, userId: 'user-123', name: 'Revenue', description: null, isPublic: false, tiles: [], parameters: { timeRange: null, values: {} }, ...body, queries: {}, createdAt: 1_700_000_000_000, updatedAt: Date.now() }
+    });
+  }),
+
+  http.delete(`${API_BASE}/dashboards/:id`, () => {
+    return HttpResponse.json({ success: true, data: { deleted: true } });
+  }),
+
+  // Change requests
+  http.get(`${API_BASE}/change-requests`, ({ request }) => {
+    const status = new URL(request.url).searchParams.get('status');
+    const rows = [{
+      id: 'cr-1', connectionId: 'conn-1', connectionName: 'Production', requestedBy: 'user-456', requesterName: 'Dev',
+      statement: 'ALTER TABLE db.events DELETE WHERE id = 1', operationType: 'ALTER', targetDatabase: 'db', targetTable: 'events',
+      impact: null, ddlBefore: 'CREATE TABLE db.events (id UInt64) ENGINE = MergeTree ORDER BY id', ddlAfter: null,
+      status: 'pending', reviewedBy: null, reviewerName: null, reviewComment: null, error: null,
+      createdAt: 1_700_000_000_000, reviewedAt: null, executedAt: null
+    }];
+    return HttpResponse.json({ success: true, data: rows.filter((r) => !status || r.status === status) });
+  }),
+
+  http.get(`${API_BASE}/change-requests/:id`, ({ params }) => {
+    return HttpResponse.json({
+      success: true,
+      data: {
+        id: params.id as string, connectionId: 'conn-1', connectionName: 'Production', requestedBy: 'user-456', requesterName: 'Dev',
+        statement: 'ALTER TABLE db.events DELETE WHERE id = 1', operationType: 'ALTER', targetDatabase: 'db', targetTable: 'events',
+        impact: null, ddlBefore: 'CREATE TABLE db.events (id UInt64) ENGINE = MergeTree ORDER BY id', ddlAfter: null,
+        ddlCurrent: 'CREATE TABLE db.events (id UInt64) ENGINE = MergeTree ORDER BY id',
+        status: 'pending', reviewedBy: null, reviewerName: null, reviewComment: null, error: null,
+        createdAt: 1_700_000_000_000, reviewedAt: null, executedAt: null
+      }
+    });
+  }),
+
+  http.post(`${API_BASE}/change-requests/:id/:decision`, async ({ params, request }) => {
+    const body = await request.json() as { comment?: string };
+    return HttpResponse.json({
+      success: true,
+      data: {
+        id: params.id as string, connectionId: 'conn-1', status: params.decision === 'approve' ? 'executed' : 'rejected',
+        reviewedBy: 'user-123', reviewComment: body.comment ?? null, reviewedAt: Date.now()
+      }
+    });
+  }),
+
+  // Backups
+  http.get(`${API_BASE}/backups`, () => {
+    return HttpResponse.json({ success: true, data: [{
+      system: {
+        id: 'b-1', name: "Disk('backups', 'db/events/20261019-020000')", status: 'CREATING_BACKUP', error: '',
+        startTime: 1_700_000_000_000, endTime: 0, numFiles: 12, totalSize: 0, uncompressedSize: 4096, compressedSize: 0,
+        filesRead: 0, bytesRead: 0
+      },
+      operation: {
+        id: 'op-1', connectionId: 'conn-1', scheduleId: null, scheduleName: null, kind: 'backup', backupId: 'b-1',
+        destination: "Disk('backups', 'db/events/20261019-020000')", scope: 'table', database: 'db', table: 'events',
+        statement: "BACKUP TABLE `db`.`events` TO Disk('backups', 'db/events/20261019-020000') ASYNC", status: 'running',
+        error: null, totalSize: null, numFiles: null, startedBy: 'user-123', startedByName: 'Test User',
+        startedAt: 1_700_000_000_000, finishedAt: null
+      }
+    }] });
+  }),
+
+  http.get(`${API_BASE}/backups/disks`, () => {
+    return HttpResponse.json({ success: true, data: [{ name: 'backups', type: 'Local', freeSpace: 1024 ** 4 }] });
+  }),
+
+  ...(['backup', 'restore'] as const).map((kind) =>
+    http.post(`${API_BASE}/backups/${kind}`, async ({ request }) => {
+      const body = await request.json() as any;
+      return HttpResponse.json({
+        success: true,
+        data: {
+          id: 'op-new', connectionId: body.connectionId, scheduleId: null, scheduleName: null, kind, backupId: 'b-new',
+          destination: body.destination ?? `Disk('${body.disk}', 'db/events/20261019-020000')`,
+          scope: body.scope, database: body.database, table: body.table ?? null, statement: '', status: 'running', error: null,
+          totalSize: null, numFiles: null, startedBy: 'user-123', startedByName: 'Test User', startedAt: Date.now(),
+          finishedAt: null
+        }
+      }, { status: 201 });
+    })
+  ),
+
+  http.get(`${API_BASE}/backups/schedules`, () => {
+    return HttpResponse.json({ success: true, data: [{
+      id: 'bs-1', connectionId: 'conn-1', connectionName: 'Production', name: 'Nightly events', scope: 'table',
+      database: 'db', table: 'events', disk: 'backups', frequency: 'daily', hour: 2, dayOfWeek: 0, dayOfMonth: 1,
+      cronExpr: null, timezone: 'UTC', enabled: true, lastRunAt: 1_700_000_000_000,
+      createdBy: 'user-123', createdAt: 1_700_000_000_000, updatedAt: 1_700_000_000_000, nextRuns: [1_700_006_400_000]
+    }] });
+  }),
+
+  http.post(`${API_BASE}/backups/schedules`, async ({ request }) => {
+    const body = await request.json() as any;
+    return HttpResponse.json({
+      success: true,
+      data: { id: 'bs-new', connectionName: 'Production', lastRunAt: Date.now(), createdBy: 'user-123', createdAt: Date.now(), updatedAt: Date.now(), nextRuns: [], ...body }
+    }, { status: 201 });
+  }),
+
+  http.put(`${API_BASE}/backups/schedules/:id`, async ({ params, request }) => {
+    const body = await request.json() as any;
+    return HttpResponse.json({ success: true, data: { id: params.id as string, connectionName: 'Production', nextRuns: [], ...body } });
+  }),
+
+  http.delete(`${API_BASE}/backups/schedules/:id`, () => {
+    return HttpResponse.json({ success: true, data: { deleted: true } });
+  }),
+
   // Query history
   http.get(`${API_BASE}/query-history`, () => {
     return HttpResponse.json({ success: true, data: [{
@@ -129,6 +338,22 @@ export const handlers = [
     });
   }),
 
+  http.post(`${API_BASE}/query/export`, async ({ request }) => {
+    const body = await request.json() as { query: string; format: string };
+    if (!/^\s*SELECT\b/i.test(body.query)) {
+      return HttpResponse.json(
+        { success: false, error: { code: 'BAD_REQUEST', message: 'Only a single SELECT or WITH query can be exported' } },
+        { status: 400 }
+      );
+    }
+    return new HttpResponse('id\n1\n', {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="ch_ui_export_2025-01-01T00-00-00.${body.format}"`,
+      },
+    });
+  }),
+
   http.post(`${API_BASE}/query/table/insert`, () => {
     return HttpResponse.json({ success: true, data: { meta: [], data: [], statistics: { elapsed: 0.002, rows_read: 0, bytes_read: 0 }, rows: 1 } });
   }),
@@ -137,6 +362,20 @@ export const handlers = [
     return HttpResponse.json({ success: true, data: { columns: [], functions: ['count', 'sum'], keywords: ['SELECT', 'FROM'] } });
   }),
 
+  http.get(`${API_BASE}/query/usage`, () => {
+    return HttpResponse.json({
+      success: true,
+      data: {
+        quota: { maxExecutionTime: 60, maxMemoryUsage: null, maxResultRows: null, maxBytesToRead: null, dailyQueryLimit: 100, dailyBytesLimit: null },
+        usage: { day: '2025-01-01', queryCount: 85, bytesRead: 1024 },
+        queryRatio: 0.85,
+        bytesRatio: null,
+        nearLimit: true,
+        resetsAt: '2025-01-02T00:00:00.000Z',
+      },
+    });
+  }),
+
   // Metrics
   http.get(`${API_BASE}/metrics/stats`, () => {
     return HttpResponse.json({
@@ -156,6 +395,10 @@ export const handlers = [
     return HttpResponse.json({ success: true, data: [{ name: 'default', path: '/var/lib/clickhouse', free_space: 100000000, total_space: 500000000, used_space: 400000000, used_percent: 80 }] });
   }),
 
+  http.get(`${API_BASE}/metrics/disks/forecast`, () => {
+    return HttpResponse.json({ success: true, data: [{ connectionId: 'conn-1', disk: 'default', path: '/var/lib/clickhouse', usedBytes: 400000000, totalBytes: 500000000, growthBytesPerDay: 10000000, fullAt: 1700864000, daysToFull: 10, samples: 96, historyHours: 24 }] });
+  }),
+
   http.get(`${API_BASE}/metrics/top-tables`, ({ request }) => {
     const url = new URL(request.url);
     const limit = Math.min(parseInt(url.searchParams.get('limit') || '10', 10), 50);
@@ -233,6 +476,21 @@ export const handlers = [
     });
   }),
 
+  http.post(`${API_BASE}/metrics/mutations/kill`, async ({ request }) => {
+    const body = (await request.json()) as { database: string; table: string; mutationId: string; cluster?: string };
+    return HttpResponse.json({
+      success: true,
+      data: {
+        database: body.database,
+        table: body.table,
+        mutation_id: body.mutationId,
+        cluster: body.cluster ?? null,
+        command: 'UPDATE col = 1 WHERE id < 5',
+        hosts: body.cluster ? ['ch-1', 'ch-2'] : [],
+      },
+    });
+  }),
+
   // Live Queries
   http.get(`${API_BASE}/live-queries`, () => {
     return HttpResponse.json({